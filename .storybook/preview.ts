@@ -1,5 +1,10 @@
 import type { Preview } from '@storybook/nextjs-vite';
 import '../src/app/globals.css';
+import { createMockTransport } from '../src/lib/api/mock';
+import { setApiTransport } from '../src/lib/api/transport';
+
+// Stories have no API server, so serve API calls from in-memory mock data
+setApiTransport(createMockTransport());
 
 const preview: Preview = {
   parameters: {
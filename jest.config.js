@@ -24,6 +24,7 @@ const customJestConfig = {
     '!src/**/*.d.ts',
     '!src/**/*.stories.{js,jsx,ts,tsx}',
     '!src/**/index.{js,jsx,ts,tsx}',
+    '!src/**/__tests__/helpers/**',
     '!src/app/layout.tsx',
     '!src/app/globals.css',
   ],
@@ -47,6 +48,9 @@ const customJestConfig = {
     '<rootDir>/src/**/*.(test|spec).{js,jsx,ts,tsx}',
   ],
 
+  // Shared fixtures that live next to the suites but are not suites themselves
+  testPathIgnorePatterns: ['/__tests__/helpers/'],
+
   // Transform configuration
   transform: {
     '^.+\\.(js|jsx|ts|tsx)$': ['babel-jest', { presets: ['next/babel'] }],
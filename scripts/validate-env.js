@@ -14,6 +14,7 @@ const envSchema = z.object({
   // Database
   DATABASE_URL: z.string().optional(),
   DIRECT_URL: z.string().optional(),
+  DATA_DIR: z.string().optional(),
 
   // Authentication
   NEXTAUTH_URL: z.string().url().optional(),
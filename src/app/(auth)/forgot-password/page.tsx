@@ -26,6 +26,7 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { authApi } from '@/lib/api/auth';
 
 const formSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -46,15 +47,11 @@ export default function ForgotPasswordPage() {
     },
   });
 
-  async function onSubmit(_data: FormData) {
+  async function onSubmit(data: FormData) {
     setIsLoading(true);
 
     try {
-      // TODO: Implement actual password reset logic
-      // Password reset email will be sent here
-
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await authApi.requestPasswordReset(data.email);
 
       setIsSubmitted(true);
 
@@ -87,7 +84,8 @@ export default function ForgotPasswordPage() {
               Check your email
             </CardTitle>
             <CardDescription>
-              We&apos;ve sent a password reset link to your email address.
+              If an account exists for that address, we&apos;ve sent it a
+              password reset link.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -26,6 +26,10 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { resetGoalPermissionsSession } from '@/hooks/useGoalPermissions';
+import { authApi } from '@/lib/api/auth';
+import { getApiErrorMessage } from '@/lib/api/transport';
+import { getSafeRedirect } from '@/lib/auth-routes';
 
 const formSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -47,26 +51,28 @@ export default function LoginPage() {
     },
   });
 
-  async function onSubmit(_data: FormData) {
+  async function onSubmit(data: FormData) {
     setIsLoading(true);
 
     try {
-      // TODO: Implement actual login logic
-      // Login data will be sent to the server here
-
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const user = await authApi.login(data);
+      resetGoalPermissionsSession();
 
       toast({
         title: 'Login successful',
-        description: 'Welcome back!',
+        description: `Welcome back, ${user.name}!`,
       });
 
-      router.push('/dashboard');
-    } catch {
+      // The middleware sends users here with the page they asked for
+      const next = new URLSearchParams(window.location.search).get('next');
+      router.push(getSafeRedirect(next));
+    } catch (error) {
       toast({
         title: 'Login failed',
-        description: 'Please check your credentials and try again.',
+        description: getApiErrorMessage(
+          error,
+          'Please check your credentials and try again.'
+        ),
         variant: 'destructive',
       });
     } finally {
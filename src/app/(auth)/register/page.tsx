@@ -26,6 +26,9 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { resetGoalPermissionsSession } from '@/hooks/useGoalPermissions';
+import { authApi } from '@/lib/api/auth';
+import { getApiErrorMessage } from '@/lib/api/transport';
 
 const formSchema = z
   .object({
@@ -56,26 +59,30 @@ export default function RegisterPage() {
     },
   });
 
-  async function onSubmit(_data: FormData) {
+  async function onSubmit(data: FormData) {
     setIsLoading(true);
 
     try {
-      // TODO: Implement actual registration logic
-      // Registration data will be sent to the server here
-
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await authApi.register({
+        name: data.name,
+        email: data.email,
+        password: data.password,
+      });
+      resetGoalPermissionsSession();
 
       toast({
         title: 'Account created',
         description: 'Your account has been created successfully.',
       });
 
-      router.push('/login');
-    } catch {
+      router.push('/dashboard');
+    } catch (error) {
       toast({
         title: 'Registration failed',
-        description: 'Something went wrong. Please try again.',
+        description: getApiErrorMessage(
+          error,
+          'Something went wrong. Please try again.'
+        ),
         variant: 'destructive',
       });
     } finally {
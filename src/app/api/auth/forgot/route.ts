@@ -0,0 +1,80 @@
+/**
+ * Forgot Password API Route
+ *
+ * - POST /api/auth/forgot - Email a password reset link
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createPasswordResetToken } from '@/lib/api/server/auth';
+import { forgotPasswordSchema } from '@/lib/api/server/auth-schemas';
+import { internalError, parseBody } from '@/lib/api/server/responses';
+import { getDatabase } from '@/lib/db';
+import { env } from '@/lib/env';
+import { getMailer } from '@/lib/mailer';
+
+/**
+ * @swagger
+ * /api/auth/forgot:
+ *   post:
+ *     summary: Request a password reset
+ *     description: Emails a single-use reset link valid for one hour. The response is the same whether or not the email is registered.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email: { type: string, format: email }
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Success' }
+ *       400:
+ *         description: Validation failed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseBody(request, forgotPasswordSchema);
+    if (parsed.response) return parsed.response;
+
+    const account = await getDatabase().users.findByEmail(parsed.data.email);
+
+    if (account) {
+      const { token } = await createPasswordResetToken(account.id);
+      const resetUrl = new URL('/reset-password', env.NEXT_PUBLIC_SITE_URL);
+      resetUrl.searchParams.set('token', token);
+
+      try {
+        await getMailer().send({
+          to: account.email,
+          subject: `Reset your ${env.NEXT_PUBLIC_APP_NAME} password`,
+          text: [
+            `Hi ${account.name},`,
+            '',
+            'Use the link below to choose a new password. It expires in one hour.',
+            '',
+            resetUrl.toString(),
+            '',
+            'If you did not request a reset, you can ignore this email.',
+          ].join('\n'),
+        });
+      } catch (error) {
+        // Answer the same way as for unknown emails
+        console.error('Failed to send password reset email:', error);
+      }
+    }
+
+    return NextResponse.json({
+      message:
+        'If an account exists for that email, a reset link has been sent',
+    });
+  } catch (error) {
+    return internalError('Failed to request password reset', error);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Login API Route
+ *
+ * - POST /api/auth/login - Start a session with email and password
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  setSessionCookies,
+  startSession,
+  toPublicUser,
+  verifyPassword,
+} from '@/lib/api/server/auth';
+import { loginSchema } from '@/lib/api/server/auth-schemas';
+import {
+  errorResponse,
+  internalError,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { AccountSecurity } from '@/lib/auth-security';
+import { getDatabase } from '@/lib/db';
+import { getClientIP } from '@/lib/rate-limit';
+import { logFailedLogin } from '@/lib/security-monitor';
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     summary: Log in
+ *     description: Sets the httpOnly session and refresh cookies. Accounts are locked for 15 minutes after 5 failed attempts.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, password]
+ *             properties:
+ *               email: { type: string, format: email }
+ *               password: { type: string }
+ *     responses:
+ *       200:
+ *         description: Logged in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user: { $ref: '#/components/schemas/User' }
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Invalid email or password
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ *       423:
+ *         description: Account temporarily locked; see the Retry-After header
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseBody(request, loginSchema);
+    if (parsed.response) return parsed.response;
+
+    const { email, password } = parsed.data;
+
+    if (AccountSecurity.isAccountLocked(email)) {
+      const retryAfter = Math.ceil(
+        AccountSecurity.getRemainingLockoutTime(email) / 1000
+      );
+      const response = errorResponse(
+        423,
+        'Too many failed login attempts. Please try again later.',
+        'ACCOUNT_LOCKED'
+      );
+      response.headers.set('Retry-After', retryAfter.toString());
+      return response;
+    }
+
+    const db = getDatabase();
+    const account = await db.users.findByEmail(email);
+    const isValid =
+      !!account && (await verifyPassword(password, account.passwordHash));
+
+    if (!account || !isValid) {
+      AccountSecurity.recordLoginAttempt(email, false);
+      logFailedLogin(
+        email,
+        getClientIP(request),
+        account ? 'Invalid password' : 'Unknown email'
+      );
+      return errorResponse(
+        401,
+        'Invalid email or password',
+        'INVALID_CREDENTIALS'
+      );
+    }
+
+    AccountSecurity.recordLoginAttempt(email, true);
+
+    const user =
+      (await db.users.update(account.id, { lastLoginAt: new Date() })) ??
+      account;
+    const tokens = await startSession(user, request);
+
+    return setSessionCookies(
+      NextResponse.json({ user: toPublicUser(user) }),
+      tokens
+    );
+  } catch (error) {
+    return internalError('Failed to log in', error);
+  }
+}
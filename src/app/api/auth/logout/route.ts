@@ -0,0 +1,34 @@
+/**
+ * Logout API Route
+ *
+ * - POST /api/auth/logout - End the current session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { clearSessionCookies, endSession } from '@/lib/api/server/auth';
+import { internalError } from '@/lib/api/server/responses';
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out
+ *     description: Revokes the current session and clears the session cookies. Succeeds without a session.
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Success' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await endSession(request);
+
+    return clearSessionCookies(NextResponse.json({ message: 'Logged out' }));
+  } catch (error) {
+    return internalError('Failed to log out', error);
+  }
+}
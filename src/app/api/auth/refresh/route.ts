@@ -0,0 +1,64 @@
+/**
+ * Session Refresh API Route
+ *
+ * - POST /api/auth/refresh - Exchange the refresh cookie for new tokens
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  clearSessionCookies,
+  REFRESH_COOKIE,
+  refreshSession,
+  setSessionCookies,
+} from '@/lib/api/server/auth';
+import { errorResponse, internalError } from '@/lib/api/server/responses';
+
+const FAILURES = {
+  missing: { message: 'Not authenticated', code: 'NOT_AUTHENTICATED' },
+  invalid: { message: 'Session is no longer valid', code: 'SESSION_INVALID' },
+  expired: { message: 'Session has expired', code: 'SESSION_EXPIRED' },
+  reused: {
+    message: 'Refresh token was already used; the session has been revoked',
+    code: 'REFRESH_TOKEN_REUSED',
+  },
+} as const;
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh the session
+ *     description: Rotates the refresh token and issues a new session cookie. Reusing an old refresh token revokes the session.
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Session refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user: { $ref: '#/components/schemas/User' }
+ *       401:
+ *         description: Missing, invalid, expired or reused refresh token
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const result = await refreshSession(
+      request.cookies.get(REFRESH_COOKIE)?.value
+    );
+
+    if (!result.ok) {
+      const { message, code } = FAILURES[result.reason];
+      return clearSessionCookies(errorResponse(401, message, code));
+    }
+
+    return setSessionCookies(NextResponse.json({ user: result.user }), result);
+  } catch (error) {
+    return internalError('Failed to refresh session', error);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Registration API Route
+ *
+ * - POST /api/auth/register - Create an account and start a session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  setSessionCookies,
+  startSession,
+  toPublicUser,
+} from '@/lib/api/server/auth';
+import { registerSchema } from '@/lib/api/server/auth-schemas';
+import {
+  errorResponse,
+  internalError,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { createEntityId } from '@/lib/api/shared/tasks';
+import { PasswordSecurity } from '@/lib/auth-security';
+import { getDatabase } from '@/lib/db';
+
+/**
+ * @swagger
+ * /api/auth/register:
+ *   post:
+ *     summary: Register an account
+ *     description: Creates the account and logs the user in by setting the session cookies
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, email, password]
+ *             properties:
+ *               name: { type: string, minLength: 2, maxLength: 100 }
+ *               email: { type: string, format: email }
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 description: Needs at least 3 of lowercase, uppercase, numbers and special characters
+ *     responses:
+ *       201:
+ *         description: Account created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user: { $ref: '#/components/schemas/User' }
+ *       400:
+ *         description: Validation failed or password too weak
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ *       409:
+ *         description: Email already registered
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseBody(request, registerSchema);
+    if (parsed.response) return parsed.response;
+
+    const { name, email, password } = parsed.data;
+    const db = getDatabase();
+
+    if (await db.users.findByEmail(email)) {
+      return errorResponse(
+        409,
+        'An account with this email already exists',
+        'EMAIL_TAKEN'
+      );
+    }
+
+    const now = new Date();
+    const account = await db.users.create({
+      id: createEntityId('user'),
+      email,
+      name,
+      passwordHash: await PasswordSecurity.hash(password),
+      createdAt: now,
+      updatedAt: now,
+      lastLoginAt: now,
+    });
+    const tokens = await startSession(account, request);
+
+    return setSessionCookies(
+      NextResponse.json({ user: toPublicUser(account) }, { status: 201 }),
+      tokens
+    );
+  } catch (error) {
+    return internalError('Failed to register', error);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Reset Password API Route
+ *
+ * - POST /api/auth/reset - Set a new password with a reset token
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  clearSessionCookies,
+  findValidResetToken,
+} from '@/lib/api/server/auth';
+import { resetPasswordSchema } from '@/lib/api/server/auth-schemas';
+import {
+  errorResponse,
+  internalError,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { AccountSecurity, PasswordSecurity } from '@/lib/auth-security';
+import { getDatabase } from '@/lib/db';
+
+/**
+ * @swagger
+ * /api/auth/reset:
+ *   post:
+ *     summary: Reset a password
+ *     description: Sets a new password, consumes the token and logs out every session of the account
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, password]
+ *             properties:
+ *               token: { type: string }
+ *               password: { type: string, minLength: 8 }
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Success' }
+ *       400:
+ *         description: Invalid or expired token, or password too weak
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseBody(request, resetPasswordSchema);
+    if (parsed.response) return parsed.response;
+
+    const db = getDatabase();
+    const resetToken = await findValidResetToken(parsed.data.token);
+    const account = resetToken
+      ? await db.users.findById(resetToken.userId)
+      : null;
+
+    if (!resetToken || !account) {
+      return errorResponse(
+        400,
+        'This reset link is invalid or has expired',
+        'INVALID_RESET_TOKEN'
+      );
+    }
+
+    const now = new Date();
+    await db.users.update(account.id, {
+      passwordHash: await PasswordSecurity.hash(parsed.data.password),
+      passwordChangedAt: now,
+      updatedAt: now,
+    });
+    await db.passwordResets.invalidateForUser(account.id, now);
+    await db.sessions.revokeAllForUser(account.id, now);
+    AccountSecurity.recordLoginAttempt(account.email, true);
+
+    return clearSessionCookies(
+      NextResponse.json({ message: 'Password has been reset' })
+    );
+  } catch (error) {
+    return internalError('Failed to reset password', error);
+  }
+}
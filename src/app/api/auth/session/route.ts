@@ -0,0 +1,37 @@
+/**
+ * Session API Route
+ *
+ * - GET /api/auth/session - The signed-in user, if any
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getCurrentUser } from '@/lib/api/server/authorization';
+import { internalError } from '@/lib/api/server/responses';
+
+/**
+ * @swagger
+ * /api/auth/session:
+ *   get:
+ *     summary: Get the current session
+ *     description: Returns the signed-in user, or null without a valid session cookie. Never answers 401, so clients can call it to decide what to render.
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: The signed-in user or null
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   allOf: [{ $ref: '#/components/schemas/User' }]
+ *                   nullable: true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ user: await getCurrentUser(request) });
+  } catch (error) {
+    return internalError('Failed to read session', error);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Individual Checkpoint API Routes
+ *
+ * REST API endpoints for individual checkpoint operations:
+ * - GET /api/checkpoints/[id] - Get a checkpoint
+ * - PATCH /api/checkpoints/[id] - Correct a recorded checkpoint
+ * - DELETE /api/checkpoints/[id] - Delete a checkpoint
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { updateCheckpointSchema } from '@/lib/api/server/metric-schemas';
+import { internalError, notFound, parseBody } from '@/lib/api/server/responses';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/checkpoints/[id] - Get a checkpoint
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/checkpoints/{id}:
+ *   get:
+ *     summary: Get a metric checkpoint
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: The checkpoint
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/MetricCheckpoint' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Checkpoint not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const checkpoint = await getDatabase().checkpoints.findById(id);
+
+    if (!checkpoint) {
+      return notFound('Checkpoint', id);
+    }
+
+    const access = await authorizeGoal(request, checkpoint.goalId, 'view');
+    if (access.response) return access.response;
+
+    return NextResponse.json(checkpoint);
+  } catch (error) {
+    return internalError('Failed to fetch checkpoint', error);
+  }
+}
+
+// =============================================================================
+// PATCH /api/checkpoints/[id] - Update a checkpoint
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/checkpoints/{id}:
+ *   patch:
+ *     summary: Update a metric checkpoint
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               value: { type: number }
+ *               recordedDate: { type: string, format: date-time }
+ *               note: { type: string }
+ *               confidence: { type: number, minimum: 0, maximum: 1 }
+ *     responses:
+ *       200:
+ *         description: Updated checkpoint
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/MetricCheckpoint' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Checkpoint not found
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const existingCheckpoint = await db.checkpoints.findById(id);
+    if (!existingCheckpoint) {
+      return notFound('Checkpoint', id);
+    }
+
+    const access = await authorizeGoal(
+      request,
+      existingCheckpoint.goalId,
+      'record_checkpoints'
+    );
+    if (access.response) return access.response;
+
+    const parsed = await parseBody(request, updateCheckpointSchema);
+    if (parsed.response) return parsed.response;
+
+    const updatedCheckpoint = await db.checkpoints.update(id, {
+      ...parsed.data,
+      updatedAt: new Date(),
+      updatedBy: access.data.user.id,
+    });
+
+    return NextResponse.json(updatedCheckpoint);
+  } catch (error) {
+    return internalError('Failed to update checkpoint', error);
+  }
+}
+
+// =============================================================================
+// DELETE /api/checkpoints/[id] - Delete a checkpoint
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/checkpoints/{id}:
+ *   delete:
+ *     summary: Delete a metric checkpoint
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Checkpoint deleted
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Checkpoint not found
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const checkpoint = await db.checkpoints.findById(id);
+    if (!checkpoint) {
+      return notFound('Checkpoint', id);
+    }
+
+    const access = await authorizeGoal(
+      request,
+      checkpoint.goalId,
+      'record_checkpoints'
+    );
+    if (access.response) return access.response;
+
+    await db.checkpoints.delete(id);
+
+    return NextResponse.json({ message: 'Checkpoint deleted', id });
+  } catch (error) {
+    return internalError('Failed to delete checkpoint', error);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * DoR/DoD Audit Log API Route
+ *
+ * - GET /api/dor-dod/audit - Query the DoR/DoD audit log across goals by
+ *   goal, target, action, user and time range
+ *
+ * Only entries of goals the caller may view are returned, newest first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { listVisibleDorDodStates } from '@/lib/api/server/dor-dod';
+import { internalError } from '@/lib/api/server/responses';
+import {
+  parseDorDodAuditQuery,
+  queryDorDodAudit,
+} from '@/lib/api/shared/dor-dod';
+
+/**
+ * @swagger
+ * /api/dor-dod/audit:
+ *   get:
+ *     summary: Query the DoR/DoD audit log
+ *     description: Audit entries of goals and their tasks, for the goals the caller can view
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: query, name: goalId, schema: { type: string } }
+ *       - { in: query, name: targetType, schema: { type: string, enum: [goal, task] } }
+ *       - { in: query, name: targetId, schema: { type: string } }
+ *       - in: query
+ *         name: action
+ *         description: Comma-separated audit actions
+ *         schema: { type: string }
+ *       - { in: query, name: userId, schema: { type: string } }
+ *       - { in: query, name: since, schema: { type: string, format: date-time } }
+ *       - { in: query, name: until, schema: { type: string, format: date-time } }
+ *       - { in: query, name: limit, schema: { type: integer, default: 100 } }
+ *     responses:
+ *       200:
+ *         description: Matching audit entries with the goal or task they belong to
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/DorDodAuditEntry' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseDorDodAuditQuery(searchParams);
+    const states = await listVisibleDorDodStates(request, query.goalId);
+    if (states.response) return states.response;
+
+    return NextResponse.json(queryDorDodAudit(states.data, query));
+  } catch (error) {
+    return internalError('Failed to fetch DoR/DoD audit log', error);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * DoR/DoD States API Route
+ *
+ * - GET /api/dor-dod - List saved DoR/DoD states across goals, optionally
+ *   for one goal or one target type
+ *
+ * Only states of goals the caller may view are listed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { listVisibleDorDodStates } from '@/lib/api/server/dor-dod';
+import { internalError } from '@/lib/api/server/responses';
+import {
+  filterDorDodStates,
+  parseDorDodAuditQuery,
+} from '@/lib/api/shared/dor-dod';
+
+/**
+ * @swagger
+ * /api/dor-dod:
+ *   get:
+ *     summary: List saved DoR/DoD states
+ *     description: States of goals and their tasks, for the goals the caller can view
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: query, name: goalId, schema: { type: string } }
+ *       - { in: query, name: targetType, schema: { type: string, enum: [goal, task] } }
+ *     responses:
+ *       200:
+ *         description: Saved states
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/DorDodState' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseDorDodAuditQuery(searchParams);
+    const states = await listVisibleDorDodStates(request, query.goalId);
+    if (states.response) return states.response;
+
+    return NextResponse.json(filterDorDodStates(states.data, query));
+  } catch (error) {
+    return internalError('Failed to fetch DoR/DoD states', error);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * DoR/DoD Template Restore API Route
+ *
+ * - POST /api/dor-dod/templates/[id]/restore - Make an earlier version of
+ *   a template current again
+ *
+ * The restored content is saved as a new version, so the version it
+ * replaces can be restored in turn. Only the owner may restore.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeDorDodTemplate } from '@/lib/api/server/dor-dod';
+import { restoreDorDodTemplateSchema } from '@/lib/api/server/dor-dod-schemas';
+import {
+  errorResponse,
+  internalError,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { restoreDorDodTemplateVersion } from '@/lib/api/shared/dor-dod-templates';
+import { getDatabase } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/dor-dod/templates/{id}/restore:
+ *   post:
+ *     summary: Restore an earlier version of a DoR/DoD library template
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [version]
+ *             properties:
+ *               version: { type: integer, minimum: 1 }
+ *     responses:
+ *       200:
+ *         description: The template with the restored content as its newest version
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/DorDodTemplate' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403:
+ *         description: Only the owner can restore versions (code TEMPLATE_FORBIDDEN)
+ *       404:
+ *         description: Template or version not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeDorDodTemplate(request, id, 'edit');
+    if (access.response) return access.response;
+    const { template, user } = access.data;
+
+    const parsed = await parseBody(request, restoreDorDodTemplateSchema);
+    if (parsed.response) return parsed.response;
+
+    const restored = restoreDorDodTemplateVersion(
+      template,
+      parsed.data.version,
+      user.id
+    );
+    if (!restored) {
+      return errorResponse(
+        404,
+        `Version ${parsed.data.version} of template "${id}" not found`,
+        'TEMPLATE_VERSION_NOT_FOUND'
+      );
+    }
+
+    return NextResponse.json(
+      await getDatabase().dorDodTemplates.save(restored)
+    );
+  } catch (error) {
+    return internalError('Failed to restore template version', error);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * DoR/DoD Template API Route
+ *
+ * - GET /api/dor-dod/templates/[id] - Get a template with its earlier
+ *   versions
+ * - PUT /api/dor-dod/templates/[id] - Edit or share a template; changed
+ *   content becomes a new version
+ * - DELETE /api/dor-dod/templates/[id] - Delete a template and its versions
+ *
+ * Everyone who can see a template can read it; only its owner changes it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeDorDodTemplate } from '@/lib/api/server/dor-dod';
+import { saveDorDodTemplateSchema } from '@/lib/api/server/dor-dod-schemas';
+import { internalError, parseBody } from '@/lib/api/server/responses';
+import { applyDorDodTemplateUpdate } from '@/lib/api/shared/dor-dod-templates';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/dor-dod/templates/[id] - Get a template
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/dor-dod/templates/{id}:
+ *   get:
+ *     summary: Get a DoR/DoD library template
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: The template with its earlier versions, newest first
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/DorDodTemplate' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       404:
+ *         description: Template not found or private to someone else
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeDorDodTemplate(request, id, 'view');
+    if (access.response) return access.response;
+
+    return NextResponse.json(access.data.template);
+  } catch (error) {
+    return internalError('Failed to fetch template', error);
+  }
+}
+
+// =============================================================================
+// PUT /api/dor-dod/templates/[id] - Update a template
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/dor-dod/templates/{id}:
+ *   put:
+ *     summary: Edit or share a DoR/DoD library template
+ *     description: Changed content is saved as a new version and the previous content is kept. Changing only the visibility keeps the version.
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/DorDodTemplateInput' }
+ *     responses:
+ *       200:
+ *         description: The saved template
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/DorDodTemplate' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403:
+ *         description: Only the owner can change the template (code TEMPLATE_FORBIDDEN)
+ *       404:
+ *         description: Template not found or private to someone else
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeDorDodTemplate(request, id, 'edit');
+    if (access.response) return access.response;
+    const { template, user } = access.data;
+
+    const parsed = await parseBody(request, saveDorDodTemplateSchema);
+    if (parsed.response) return parsed.response;
+
+    return NextResponse.json(
+      await getDatabase().dorDodTemplates.save(
+        applyDorDodTemplateUpdate(template, parsed.data, user.id)
+      )
+    );
+  } catch (error) {
+    return internalError('Failed to update template', error);
+  }
+}
+
+// =============================================================================
+// DELETE /api/dor-dod/templates/[id] - Delete a template
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/dor-dod/templates/{id}:
+ *   delete:
+ *     summary: Delete a DoR/DoD library template with all of its versions
+ *     description: Panels that applied the template keep their criteria
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Template deleted
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403:
+ *         description: Only the owner can delete the template (code TEMPLATE_FORBIDDEN)
+ *       404:
+ *         description: Template not found or private to someone else
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeDorDodTemplate(request, id, 'edit');
+    if (access.response) return access.response;
+
+    await getDatabase().dorDodTemplates.delete(id);
+    return NextResponse.json({ message: 'Template deleted', id });
+  } catch (error) {
+    return internalError('Failed to delete template', error);
+  }
+}
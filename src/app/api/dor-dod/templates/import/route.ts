@@ -0,0 +1,95 @@
+/**
+ * DoR/DoD Template Import API Route
+ *
+ * - POST /api/dor-dod/templates/import - Add the templates in a JSON or
+ *   YAML file to the library
+ *
+ * A file with any invalid template is rejected as a whole, with the path
+ * of every problem in the error details.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireUser } from '@/lib/api/server/authorization';
+import { importDorDodTemplatesSchema } from '@/lib/api/server/dor-dod-schemas';
+import {
+  errorResponse,
+  internalError,
+  parseBody,
+} from '@/lib/api/server/responses';
+import {
+  createDorDodTemplate,
+  INVALID_TEMPLATE_FILE,
+  parseDorDodTemplateFile,
+} from '@/lib/api/shared/dor-dod-templates';
+import { createEntityId } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+/**
+ * @swagger
+ * /api/dor-dod/templates/import:
+ *   post:
+ *     summary: Import DoR/DoD templates from a JSON or YAML file
+ *     description: The file holds one template or a list of them in the DorDodTemplate shape. Unknown fields are dropped.
+ *     tags: [Goals]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [content]
+ *             properties:
+ *               content: { type: string, description: File contents }
+ *               format: { type: string, enum: [json, yaml], description: Detected when omitted }
+ *               visibility: { type: string, enum: [private, organization], default: private }
+ *     responses:
+ *       201:
+ *         description: The imported templates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/DorDodTemplate' }
+ *       400:
+ *         description: The file cannot be read or holds invalid templates (code INVALID_TEMPLATE_FILE)
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user.response) return user.response;
+
+    const parsed = await parseBody(request, importDorDodTemplatesSchema);
+    if (parsed.response) return parsed.response;
+
+    const { content, format, visibility } = parsed.data;
+    const result = parseDorDodTemplateFile(content, format);
+    if (result.errors) {
+      return errorResponse(
+        400,
+        'The file does not contain valid templates',
+        INVALID_TEMPLATE_FILE,
+        result.errors
+      );
+    }
+
+    const db = getDatabase();
+    const imported = [];
+    for (const template of result.templates) {
+      imported.push(
+        await db.dorDodTemplates.save(
+          createDorDodTemplate(
+            { ...template, visibility },
+            createEntityId('dor-dod-template'),
+            user.data.id
+          )
+        )
+      );
+    }
+
+    return NextResponse.json(imported, { status: 201 });
+  } catch (error) {
+    return internalError('Failed to import templates', error);
+  }
+}
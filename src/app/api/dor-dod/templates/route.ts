@@ -0,0 +1,116 @@
+/**
+ * DoR/DoD Template Library API Route
+ *
+ * - GET /api/dor-dod/templates - List the caller's templates and those
+ *   shared with the organization, by category, visibility or search text
+ * - POST /api/dor-dod/templates - Add a template to the library
+ *
+ * Importing files lives in ./import; editing, versions and deleting in
+ * ./[id].
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireUser } from '@/lib/api/server/authorization';
+import { saveDorDodTemplateSchema } from '@/lib/api/server/dor-dod-schemas';
+import { internalError, parseBody } from '@/lib/api/server/responses';
+import {
+  createDorDodTemplate,
+  filterDorDodTemplates,
+  parseDorDodTemplateQuery,
+} from '@/lib/api/shared/dor-dod-templates';
+import { createEntityId } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// GET /api/dor-dod/templates - List templates
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/dor-dod/templates:
+ *   get:
+ *     summary: List DoR/DoD library templates
+ *     description: The caller's own templates and those shared with the organization, sorted by name
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: query, name: category, schema: { type: string } }
+ *       - { in: query, name: visibility, schema: { type: string, enum: [private, organization] } }
+ *       - { in: query, name: search, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Templates with their earlier versions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/DorDodTemplate' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user.response) return user.response;
+
+    const { searchParams } = new URL(request.url);
+    const templates = await getDatabase().dorDodTemplates.list();
+
+    return NextResponse.json(
+      filterDorDodTemplates(
+        templates,
+        user.data.id,
+        parseDorDodTemplateQuery(searchParams)
+      )
+    );
+  } catch (error) {
+    return internalError('Failed to fetch templates', error);
+  }
+}
+
+// =============================================================================
+// POST /api/dor-dod/templates - Create a template
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/dor-dod/templates:
+ *   post:
+ *     summary: Add a DoR/DoD template to the library
+ *     description: The caller owns the new template and decides whether the organization can use it
+ *     tags: [Goals]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/DorDodTemplateInput' }
+ *     responses:
+ *       201:
+ *         description: Template created at version 1
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/DorDodTemplate' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user.response) return user.response;
+
+    const parsed = await parseBody(request, saveDorDodTemplateSchema);
+    if (parsed.response) return parsed.response;
+
+    const template = createDorDodTemplate(
+      parsed.data,
+      createEntityId('dor-dod-template'),
+      user.data.id
+    );
+    return NextResponse.json(
+      await getDatabase().dorDodTemplates.save(template),
+      { status: 201 }
+    );
+  } catch (error) {
+    return internalError('Failed to create template', error);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Goal Canvas Connection API Route
+ *
+ * - DELETE /api/goals/[id]/canvas/connections/[connectionId] - Remove a
+ *   connection drawn on the canvas or stored on the goal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import {
+  loadCanvasLayout,
+  persistCanvasWriteBack,
+} from '@/lib/api/server/canvas';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+} from '@/lib/api/server/responses';
+import {
+  buildCanvasConnections,
+  planCanvasConnectionChange,
+} from '@/lib/api/shared/canvas';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    connectionId: string;
+  }>;
+}
+
+// =============================================================================
+// DELETE /api/goals/[id]/canvas/connections/[connectionId]
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/canvas/connections/{connectionId}:
+ *   delete:
+ *     summary: Remove a canvas connection
+ *     description: Connections implied by the goal structure cannot be removed
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: path, name: connectionId, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: The removed connection and the changes written to tasks, milestones and layout
+ *       400:
+ *         description: The connection is part of the goal structure
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal or connection not found
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, connectionId } = await params;
+
+    const access = await authorizeGoal(request, id, 'manage_tasks');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const layout = await loadCanvasLayout(id);
+    const connection = buildCanvasConnections(goal, layout).find(
+      c => c.id === connectionId
+    );
+    if (!connection) {
+      return notFound('Canvas connection', connectionId);
+    }
+    if (connection.origin === 'structure') {
+      return errorResponse(
+        400,
+        'Connections implied by the goal structure cannot be removed',
+        'CANVAS_CONNECTION_LOCKED'
+      );
+    }
+
+    const writeBack = planCanvasConnectionChange(
+      goal,
+      layout,
+      connection,
+      'remove'
+    );
+    await persistCanvasWriteBack(layout, writeBack, user.id);
+
+    return NextResponse.json({ connection, writeBack });
+  } catch (error) {
+    return internalError('Failed to remove canvas connection', error);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Goal Canvas Connections API Route
+ *
+ * - POST /api/goals/[id]/canvas/connections - Connect two canvas nodes
+ *
+ * Dependencies are written to `Task.dependencies` and task contributions to
+ * `Milestone.taskIds`; other connection types are stored in the layout.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import {
+  loadCanvasLayout,
+  persistCanvasWriteBack,
+} from '@/lib/api/server/canvas';
+import { canvasConnectionSchema } from '@/lib/api/server/canvas-schemas';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import {
+  buildCanvasConnections,
+  buildCanvasNodes,
+  createCanvasConnection,
+  getCanvasConnectionError,
+  planCanvasConnectionChange,
+} from '@/lib/api/shared/canvas';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// POST /api/goals/[id]/canvas/connections - Connect two nodes
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/canvas/connections:
+ *   post:
+ *     summary: Connect two canvas nodes
+ *     description: |
+ *       dependency (task to task) updates Task.dependencies, contributes
+ *       (task to milestone) updates Milestone.taskIds, measures and achieves
+ *       are stored with the canvas layout.
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [fromNodeId, toNodeId, type]
+ *             properties:
+ *               fromNodeId: { type: string, example: 'task:task-1' }
+ *               toNodeId: { type: string, example: 'milestone:milestone-1' }
+ *               type: { type: string, enum: [dependency, contributes, measures, achieves] }
+ *     responses:
+ *       201:
+ *         description: The connection and the changes written to tasks, milestones and layout
+ *       400:
+ *         description: Validation failed, or the nodes cannot be connected this way
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'manage_tasks');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const parsed = await parseBody(request, canvasConnectionSchema);
+    if (parsed.response) return parsed.response;
+
+    const layout = await loadCanvasLayout(id);
+    const connectionError = getCanvasConnectionError(
+      buildCanvasNodes(goal, layout),
+      buildCanvasConnections(goal, layout),
+      parsed.data
+    );
+    if (connectionError) {
+      return errorResponse(400, connectionError, 'INVALID_CANVAS_CONNECTION');
+    }
+
+    const writeBack = planCanvasConnectionChange(
+      goal,
+      layout,
+      parsed.data,
+      'add'
+    );
+    await persistCanvasWriteBack(layout, writeBack, user.id);
+
+    return NextResponse.json(
+      { connection: createCanvasConnection(parsed.data), writeBack },
+      { status: 201 }
+    );
+  } catch (error) {
+    return internalError('Failed to connect canvas nodes', error);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Goal Canvas Layout API Routes
+ *
+ * REST API endpoints for the canvas layout saved with a goal:
+ * - GET /api/goals/[id]/canvas - Get the layout, or the default layout
+ * - PUT /api/goals/[id]/canvas - Save node positions, viewport, grid and
+ *   auto layout
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { loadCanvasLayout } from '@/lib/api/server/canvas';
+import { saveCanvasLayoutSchema } from '@/lib/api/server/canvas-schemas';
+import { internalError, notFound, parseBody } from '@/lib/api/server/responses';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/goals/[id]/canvas - Get the canvas layout
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/canvas:
+ *   get:
+ *     summary: Get the canvas layout of a goal
+ *     description: Goals that were never arranged return the default layout
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Node positions, canvas-only connections, viewport, grid setting and auto layout
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    return NextResponse.json(await loadCanvasLayout(id));
+  } catch (error) {
+    return internalError('Failed to fetch canvas layout', error);
+  }
+}
+
+// =============================================================================
+// PUT /api/goals/[id]/canvas - Save the canvas layout
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/canvas:
+ *   put:
+ *     summary: Save the canvas layout of a goal
+ *     description: Connections are changed through the connection endpoints and are kept as they are
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [positions, viewport]
+ *             properties:
+ *               positions:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: object
+ *                   properties: { x: { type: number }, y: { type: number } }
+ *               viewport:
+ *                 type: object
+ *                 properties: { x: { type: number }, y: { type: number }, zoom: { type: number } }
+ *               showGrid: { type: boolean }
+ *               algorithm: { type: string, enum: [layered, radial] }
+ *     responses:
+ *       200:
+ *         description: The saved layout
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'edit_goal');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const parsed = await parseBody(request, saveCanvasLayoutSchema);
+    if (parsed.response) return parsed.response;
+
+    const existing = await loadCanvasLayout(id);
+    const layout = await getDatabase().canvasLayouts.save({
+      ...existing,
+      positions: parsed.data.positions,
+      viewport: parsed.data.viewport,
+      showGrid: parsed.data.showGrid ?? existing.showGrid,
+      algorithm: parsed.data.algorithm ?? existing.algorithm,
+      updatedAt: new Date(),
+      updatedBy: user.id,
+    });
+
+    return NextResponse.json(layout);
+  } catch (error) {
+    return internalError('Failed to save canvas layout', error);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Bulk Checkpoint API Route
+ *
+ * - POST /api/goals/[id]/checkpoints/bulk - Record several checkpoints
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import {
+  bulkCheckpointSchema,
+  createCheckpointSchema,
+} from '@/lib/api/server/metric-schemas';
+import {
+  errorResponse,
+  internalError,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { buildCheckpoint } from '@/lib/api/shared/metrics';
+import { getDatabase } from '@/lib/db';
+import type { MetricCheckpoint } from '@/types/smart-goals.types';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/goals/{id}/checkpoints/bulk:
+ *   post:
+ *     summary: Record several metric checkpoints
+ *     description: Invalid entries are reported in `errors` by index; valid entries are still recorded
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [checkpoints]
+ *             properties:
+ *               checkpoints:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items: { $ref: '#/components/schemas/CreateCheckpointRequest' }
+ *     responses:
+ *       201:
+ *         description: Recorded checkpoints and per-entry errors
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/BulkCheckpointResponse' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ *       410:
+ *         description: Goal has been deleted
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'record_checkpoints');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return errorResponse(
+        410,
+        'Cannot record checkpoints for a deleted goal',
+        'GOAL_DELETED'
+      );
+    }
+
+    const parsed = await parseBody(request, bulkCheckpointSchema);
+    if (parsed.response) return parsed.response;
+
+    const checkpoints: MetricCheckpoint[] = [];
+    const errors: Array<{ index: number; error: string }> = [];
+
+    for (const [index, entry] of parsed.data.checkpoints.entries()) {
+      const result = createCheckpointSchema.safeParse(entry);
+      if (!result.success) {
+        errors.push({
+          index,
+          error: result.error.issues.map(issue => issue.message).join('; '),
+        });
+        continue;
+      }
+
+      checkpoints.push(
+        await db.checkpoints.create(buildCheckpoint(id, result.data, user.id))
+      );
+    }
+
+    return NextResponse.json({ checkpoints, errors }, { status: 201 });
+  } catch (error) {
+    return internalError('Failed to create checkpoints', error);
+  }
+}
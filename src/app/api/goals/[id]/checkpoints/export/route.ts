@@ -0,0 +1,61 @@
+/**
+ * Checkpoint Export API Route
+ *
+ * - GET /api/goals/[id]/checkpoints/export - Download checkpoints as CSV
+ */
+
+import { NextRequest } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { internalError, notFound } from '@/lib/api/server/responses';
+import { checkpointsToCsv } from '@/lib/api/shared/metrics';
+import { getDatabase } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/goals/{id}/checkpoints/export:
+ *   get:
+ *     summary: Export the checkpoints of a goal as CSV
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: CSV with a header row, newest checkpoint first
+ *         content:
+ *           text/csv:
+ *             schema: { type: string }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const csv = checkpointsToCsv(await db.checkpoints.listByGoal(id));
+
+    return new Response(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="checkpoints-${id}.csv"`,
+      },
+    });
+  } catch (error) {
+    return internalError('Failed to export checkpoints', error);
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Goal Checkpoints API Routes
+ *
+ * REST API endpoints for the metric checkpoints of a goal:
+ * - GET /api/goals/[id]/checkpoints - List checkpoints, newest first
+ * - POST /api/goals/[id]/checkpoints - Record a checkpoint
+ * - DELETE /api/goals/[id]/checkpoints - Delete all checkpoints of a goal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { createCheckpointSchema } from '@/lib/api/server/metric-schemas';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { buildCheckpoint } from '@/lib/api/shared/metrics';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/goals/[id]/checkpoints - List checkpoints
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/checkpoints:
+ *   get:
+ *     summary: List the metric checkpoints of a goal
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Checkpoints, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/MetricCheckpoint' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    return NextResponse.json(await db.checkpoints.listByGoal(id));
+  } catch (error) {
+    return internalError('Failed to fetch checkpoints', error);
+  }
+}
+
+// =============================================================================
+// POST /api/goals/[id]/checkpoints - Record a checkpoint
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/checkpoints:
+ *   post:
+ *     summary: Record a metric checkpoint
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/CreateCheckpointRequest' }
+ *     responses:
+ *       201:
+ *         description: Checkpoint recorded
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/MetricCheckpoint' }
+ *       400:
+ *         description: Validation failed
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ *       410:
+ *         description: Goal has been deleted
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'record_checkpoints');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return errorResponse(
+        410,
+        'Cannot record checkpoints for a deleted goal',
+        'GOAL_DELETED'
+      );
+    }
+
+    const parsed = await parseBody(request, createCheckpointSchema);
+    if (parsed.response) return parsed.response;
+
+    const checkpoint = await db.checkpoints.create(
+      buildCheckpoint(id, parsed.data, user.id)
+    );
+
+    return NextResponse.json(checkpoint, { status: 201 });
+  } catch (error) {
+    return internalError('Failed to create checkpoint', error);
+  }
+}
+
+// =============================================================================
+// DELETE /api/goals/[id]/checkpoints - Delete all checkpoints
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/checkpoints:
+ *   delete:
+ *     summary: Delete all checkpoints of a goal
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Number of deleted checkpoints
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deleted: { type: integer }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'record_checkpoints');
+    if (access.response) return access.response;
+
+    const checkpoints = await db.checkpoints.listByGoal(id);
+    for (const checkpoint of checkpoints) {
+      await db.checkpoints.delete(checkpoint.id);
+    }
+
+    return NextResponse.json({ deleted: checkpoints.length });
+  } catch (error) {
+    return internalError('Failed to delete checkpoints', error);
+  }
+}
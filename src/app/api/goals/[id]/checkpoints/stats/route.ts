@@ -0,0 +1,72 @@
+/**
+ * Checkpoint Statistics API Route
+ *
+ * - GET /api/goals/[id]/checkpoints/stats - Statistics for a date range
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { checkpointStatsQuerySchema } from '@/lib/api/server/metric-schemas';
+import { internalError, notFound, validate } from '@/lib/api/server/responses';
+import { computeCheckpointStats } from '@/lib/api/shared/metrics';
+import { getDatabase } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/goals/{id}/checkpoints/stats:
+ *   get:
+ *     summary: Checkpoint statistics for a date range
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: query, name: startDate, required: true, schema: { type: string, format: date-time } }
+ *       - { in: query, name: endDate, required: true, schema: { type: string, format: date-time } }
+ *     responses:
+ *       200:
+ *         description: Statistics of the checkpoints recorded in the range
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/CheckpointStats' }
+ *       400:
+ *         description: Missing or invalid date range
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = validate(
+      checkpointStatsQuerySchema,
+      Object.fromEntries(searchParams)
+    );
+    if (query.response) return query.response;
+
+    return NextResponse.json(
+      computeCheckpointStats(
+        await db.checkpoints.listByGoal(id),
+        query.data.startDate,
+        query.data.endDate
+      )
+    );
+  } catch (error) {
+    return internalError('Failed to compute checkpoint statistics', error);
+  }
+}
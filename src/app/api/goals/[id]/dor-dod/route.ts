@@ -0,0 +1,118 @@
+/**
+ * Goal DoR/DoD API Routes
+ *
+ * REST API endpoints for the Definition of Ready and Done of a goal:
+ * - GET /api/goals/[id]/dor-dod - Get the criteria, approval workflow,
+ *   time tracking and audit log
+ * - PUT /api/goals/[id]/dor-dod - Save them; new audit entries are added
+ *   to the stored log
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { loadDorDodState, saveDorDodState } from '@/lib/api/server/dor-dod';
+import { internalError, notFound } from '@/lib/api/server/responses';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/goals/[id]/dor-dod - Get the DoR/DoD state
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/dor-dod:
+ *   get:
+ *     summary: Get the DoR/DoD state of a goal
+ *     description: Goals without saved criteria return an empty state
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Criteria, applied template, approval workflow, time tracking and audit log
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/DorDodState' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    return NextResponse.json(await loadDorDodState({ type: 'goal', id }, id));
+  } catch (error) {
+    return internalError('Failed to fetch DoR/DoD state', error);
+  }
+}
+
+// =============================================================================
+// PUT /api/goals/[id]/dor-dod - Save the DoR/DoD state
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/dor-dod:
+ *   put:
+ *     summary: Save the DoR/DoD state of a goal
+ *     description: >
+ *       Changing criteria needs edit_goal; approving or rejecting them needs
+ *       approve_criteria. Audit entries the server already has are ignored,
+ *       and new entries and approvals are recorded for the caller.
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/DorDodStateInput' }
+ *     responses:
+ *       200:
+ *         description: The saved state
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/DorDodState' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ *       409:
+ *         description: Criteria were approved or rejected without an approval request
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    return await saveDorDodState(request, { type: 'goal', id }, goal, user);
+  } catch (error) {
+    return internalError('Failed to save DoR/DoD state', error);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Goal Export API Route
+ *
+ * - GET /api/goals/[id]/export - Download a goal as PDF, Markdown, JSON or CSV
+ */
+
+import { NextRequest } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { goalExportQuerySchema } from '@/lib/api/server/goal-schemas';
+import { internalError, notFound, validate } from '@/lib/api/server/responses';
+import { exportGoal } from '@/lib/api/shared/goal-export';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/goals/{id}/export:
+ *   get:
+ *     summary: Export a goal with its tasks, milestones, checkpoints and score
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: query, name: format, schema: { type: string, enum: [pdf, json, markdown, csv], default: pdf } }
+ *       - { in: query, name: includeScore, schema: { type: boolean, default: true } }
+ *       - { in: query, name: includeSuggestions, schema: { type: boolean, default: true } }
+ *       - { in: query, name: includeTimeline, schema: { type: boolean, default: true } }
+ *       - { in: query, name: includeResources, schema: { type: boolean, default: true } }
+ *     responses:
+ *       200:
+ *         description: The goal document as an attachment
+ *         content:
+ *           application/pdf:
+ *             schema: { type: string, format: binary }
+ *           text/markdown:
+ *             schema: { type: string }
+ *           application/json:
+ *             schema: { type: object }
+ *           text/csv:
+ *             schema: { type: string }
+ *       400:
+ *         description: Unsupported format or invalid flag
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = validate(
+      goalExportQuerySchema,
+      Object.fromEntries(searchParams)
+    );
+    if (query.response) return query.response;
+
+    const file = exportGoal({ goal: access.data.goal }, query.data);
+
+    return new Response(file.content, {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    return internalError('Failed to export goal', error);
+  }
+}
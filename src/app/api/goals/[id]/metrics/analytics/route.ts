@@ -0,0 +1,76 @@
+/**
+ * Metric Analytics API Route
+ *
+ * - GET /api/goals/[id]/metrics/analytics - Progress analytics for a goal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+} from '@/lib/api/server/responses';
+import { computeMetricAnalytics } from '@/lib/api/shared/metrics';
+import { getDatabase } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/goals/{id}/metrics/analytics:
+ *   get:
+ *     summary: Metric analytics for a goal
+ *     description: Trend, velocity and projected completion against the goal's target value
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Analytics computed from the goal's checkpoints
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/MetricAnalytics' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found or no checkpoints recorded
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    const { goal } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const analytics = computeMetricAnalytics(
+      id,
+      await db.checkpoints.listByGoal(id),
+      goal.measurable.targetValue
+    );
+    if (!analytics) {
+      return errorResponse(
+        404,
+        'No checkpoints found for goal',
+        'NO_CHECKPOINTS'
+      );
+    }
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    return internalError('Failed to generate analytics', error);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Metric Trend API Route
+ *
+ * - GET /api/goals/[id]/metrics/trend - Chart data, optionally for the last N days
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { trendQuerySchema } from '@/lib/api/server/metric-schemas';
+import { internalError, notFound, validate } from '@/lib/api/server/responses';
+import { computeTrendData } from '@/lib/api/shared/metrics';
+import { getDatabase } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/goals/{id}/metrics/trend:
+ *   get:
+ *     summary: Metric trend data for a goal
+ *     tags: [Metrics]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: query, name: days, schema: { type: integer, minimum: 1 }, description: Only include the last N days }
+ *     responses:
+ *       200:
+ *         description: Data points in chronological order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/MetricTrendData' }
+ *       400:
+ *         description: Invalid days parameter
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    const { goal } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = validate(trendQuerySchema, Object.fromEntries(searchParams));
+    if (query.response) return query.response;
+
+    return NextResponse.json(
+      computeTrendData(await db.checkpoints.listByGoal(id), {
+        days: query.data.days,
+        target: goal.measurable.targetValue,
+      })
+    );
+  } catch (error) {
+    return internalError('Failed to fetch trend data', error);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Goal Restore API Route
+ *
+ * - POST /api/goals/[id]/restore - Restore a soft-deleted goal
+ *
+ * Restoring needs the `archive` permission, which only the owner has.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { getDatabase } from '@/lib/db';
+import type { SmartGoal } from '@/types/smart-goals.types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ErrorResponse {
+  error: string;
+  message: string;
+  code?: string;
+}
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// POST /api/goals/[id]/restore - Restore a soft-deleted goal
+// =============================================================================
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeGoal(request, id, 'archive');
+    if (access.response) return access.response;
+    const { goal: existingGoal, user } = access.data;
+
+    if (!existingGoal.isDeleted) {
+      const errorResponse: ErrorResponse = {
+        error: 'Conflict',
+        message: 'Goal is not deleted',
+        code: 'GOAL_NOT_DELETED',
+      };
+      return NextResponse.json(errorResponse, { status: 409 });
+    }
+
+    // Child collections are omitted so saving leaves them untouched
+    const restoredGoal: Partial<SmartGoal> = {
+      ...existingGoal,
+      isDeleted: false,
+      deletedAt: undefined,
+      deletedBy: undefined,
+      updatedAt: new Date(),
+      updatedBy: user.id,
+    };
+
+    delete restoredGoal.tasks;
+    delete restoredGoal.milestones;
+    delete restoredGoal.checkpoints;
+
+    const savedGoal = await getDatabase().goals.save(restoredGoal as SmartGoal);
+
+    return NextResponse.json(savedGoal);
+  } catch (error) {
+    console.error('Error restoring goal:', error);
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: 'Failed to restore goal',
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
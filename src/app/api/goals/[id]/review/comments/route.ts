@@ -0,0 +1,109 @@
+/**
+ * Goal Review Comments API Route
+ *
+ * - POST /api/goals/[id]/review/comments - Comment on a goal or reply to a
+ *   comment
+ *
+ * Anyone with a role on the goal can comment; visitors of public goals can
+ * only read.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  authorizeGoal,
+  notAuthenticated,
+} from '@/lib/api/server/authorization';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { loadReview } from '@/lib/api/server/review';
+import { reviewCommentSchema } from '@/lib/api/server/review-schemas';
+import { isGoalMember } from '@/lib/api/shared/goal-access';
+import {
+  addReviewComment,
+  getReviewCommentError,
+} from '@/lib/api/shared/review';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// POST /api/goals/[id]/review/comments - Add a comment
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/review/comments:
+ *   post:
+ *     summary: Comment on a goal or reply to a comment
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [content]
+ *             properties:
+ *               content: { type: string, maxLength: 5000 }
+ *               parentId: { type: string, description: Comment to reply to }
+ *     responses:
+ *       201:
+ *         description: The review with the new comment
+ *       400:
+ *         description: Validation failed, or the parent comment does not exist
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+    if (!user) return notAuthenticated();
+    if (!isGoalMember(goal, user.id)) {
+      return errorResponse(
+        403,
+        'Only members of the goal can comment on it',
+        'GOAL_FORBIDDEN'
+      );
+    }
+
+    const parsed = await parseBody(request, reviewCommentSchema);
+    if (parsed.response) return parsed.response;
+
+    const existing = await loadReview(id);
+    const commentError = getReviewCommentError(existing, parsed.data);
+    if (commentError) {
+      return errorResponse(400, commentError, 'INVALID_REVIEW_COMMENT');
+    }
+
+    const review = addReviewComment(existing, parsed.data, user.id);
+    return NextResponse.json(await getDatabase().reviews.save(review), {
+      status: 201,
+    });
+  } catch (error) {
+    return internalError('Failed to add review comment', error);
+  }
+}
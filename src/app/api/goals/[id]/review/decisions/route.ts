@@ -0,0 +1,111 @@
+/**
+ * Goal Review Decision API Route
+ *
+ * - POST /api/goals/[id]/review/decisions - Approve, reject or request
+ *   changes as one of the named reviewers
+ *
+ * A change request moves the goal back to draft.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { loadReview, reopenGoal } from '@/lib/api/server/review';
+import { reviewDecisionSchema } from '@/lib/api/server/review-schemas';
+import {
+  applyReviewDecision,
+  getReviewDecisionError,
+} from '@/lib/api/shared/review';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// POST /api/goals/[id]/review/decisions - Decide on the review
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/review/decisions:
+ *   post:
+ *     summary: Approve, reject or request changes to a goal under review
+ *     description: Only reviewers named in the current round can decide; a later decision replaces an earlier one while the review is pending. Requesting changes moves the goal back to draft.
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [decision]
+ *             properties:
+ *               decision: { type: string, enum: [approve, reject, request_changes] }
+ *               comment: { type: string, maxLength: 5000 }
+ *     responses:
+ *       200:
+ *         description: The review after the decision
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403:
+ *         description: Not a reviewer of the goal, or not named in this review
+ *       404:
+ *         description: Goal not found
+ *       409:
+ *         description: The review is not pending
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'approve_criteria');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const parsed = await parseBody(request, reviewDecisionSchema);
+    if (parsed.response) return parsed.response;
+
+    const existing = await loadReview(id);
+    const decisionError = getReviewDecisionError(existing, user.id);
+    if (decisionError) {
+      return existing.status === 'pending'
+        ? errorResponse(403, decisionError, 'NOT_A_REVIEWER')
+        : errorResponse(409, decisionError, 'REVIEW_NOT_PENDING');
+    }
+
+    const now = new Date();
+    const result = applyReviewDecision(
+      existing,
+      user.id,
+      parsed.data.decision,
+      parsed.data.comment,
+      now
+    );
+    if (result.reopenGoal) {
+      await reopenGoal(goal, user.id, now);
+    }
+
+    return NextResponse.json(await getDatabase().reviews.save(result.review));
+  } catch (error) {
+    return internalError('Failed to submit review decision', error);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Goal Review Request API Route
+ *
+ * - POST /api/goals/[id]/review/request - Ask named reviewers to review a
+ *   goal, starting a new review round
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { loadReview } from '@/lib/api/server/review';
+import { requestReviewSchema } from '@/lib/api/server/review-schemas';
+import {
+  applyReviewRequest,
+  getReviewRequestError,
+} from '@/lib/api/shared/review';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// POST /api/goals/[id]/review/request - Request a review
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/review/request:
+ *   post:
+ *     summary: Request a review of a goal
+ *     description: Starts a new review round; decisions of earlier rounds are cleared. Reviewers must be the owner or have the reviewer role on the goal.
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reviewerIds, requiredApprovals]
+ *             properties:
+ *               reviewerIds: { type: array, items: { type: string } }
+ *               requiredApprovals: { type: integer, minimum: 1 }
+ *               message: { type: string, maxLength: 5000 }
+ *     responses:
+ *       200:
+ *         description: The review, now pending
+ *       400:
+ *         description: Validation failed, or a reviewer cannot review the goal
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'edit_goal');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const parsed = await parseBody(request, requestReviewSchema);
+    if (parsed.response) return parsed.response;
+
+    const requestError = getReviewRequestError(goal, parsed.data);
+    if (requestError) {
+      return errorResponse(400, requestError, 'INVALID_REVIEW_REQUEST');
+    }
+
+    const review = applyReviewRequest(
+      await loadReview(id),
+      parsed.data,
+      user.id
+    );
+    return NextResponse.json(await getDatabase().reviews.save(review));
+  } catch (error) {
+    return internalError('Failed to request review', error);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Goal Review API Route
+ *
+ * - GET /api/goals/[id]/review - Get the review of a goal
+ *
+ * Requesting a review, deciding and commenting live in ./request,
+ * ./decisions and ./comments.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { internalError, notFound } from '@/lib/api/server/responses';
+import { loadReview } from '@/lib/api/server/review';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/goals/[id]/review - Get the review
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/review:
+ *   get:
+ *     summary: Get the review of a goal
+ *     description: Goals that were never sent for review return an empty review with status not_requested
+ *     tags: [Goals]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Reviewers and their decisions, approval rule, comments and events
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    return NextResponse.json(await loadReview(id));
+  } catch (error) {
+    return internalError('Failed to fetch review', error);
+  }
+}
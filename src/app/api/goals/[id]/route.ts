@@ -6,12 +6,40 @@
  * - PUT /api/goals/[id] - Update a specific goal
  * - DELETE /api/goals/[id] - Delete a specific goal
  * - PATCH /api/goals/[id] - Partial update of a specific goal
+ *
+ * Reading needs the `view` permission and updating needs `edit_goal`.
+ * Changing the owner, members, collaborators or visibility also needs
+ * `manage_members`, while archiving and deleting need `archive` (see the
+ * role matrix in shared/goal-access.ts).
+ *
+ * Activating a goal needs its Definition of Ready met and completing it its
+ * Definition of Done, unless the owner sends a `dorDodOverride` (409
+ * DOR_DOD_UNMET otherwise, see shared/dor-dod.ts).
+ *
+ * Restoring soft-deleted goals lives in ./restore/route.ts
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { mockGoals } from '@/lib/mock-data/smart-goals';
-import type { SmartGoal } from '@/types/smart-goals.types';
+import type { StatusChangeOptions } from '@/lib/api/dor-dod';
+import { readJsonBody } from '@/lib/api/serialization';
+import {
+  authorizeGoal,
+  goalForbidden,
+} from '@/lib/api/server/authorization';
+import { checkDorDodGate, saveDorDodOverride } from '@/lib/api/server/dor-dod';
+import { getWipLimitsError } from '@/lib/api/shared/board';
+import {
+  canAccessGoal,
+  getUpdatePermissions,
+} from '@/lib/api/shared/goal-access';
+import { getDatabase } from '@/lib/db';
+import type { User } from '@/types/auth.types';
+import {
+  GoalRole,
+  GoalStatus,
+  type SmartGoal,
+} from '@/types/smart-goals.types';
 
 // =============================================================================
 // Types
@@ -33,8 +61,41 @@ interface RouteParams {
 // Helper Functions
 // =============================================================================
 
-const findGoalById = (id: string): SmartGoal | null => {
-  return mockGoals.find((goal: SmartGoal) => goal.id === id) || null;
+/**
+ * 403 when the update touches fields the user's role does not cover, such as
+ * access control or the archive flag
+ */
+const checkUpdatePermissions = (
+  goal: SmartGoal,
+  user: User,
+  updates: Partial<SmartGoal>
+) => {
+  const missing = getUpdatePermissions(goal, updates).find(
+    permission => !canAccessGoal(goal, user.id, permission)
+  );
+  return missing ? goalForbidden(user, missing) : null;
+};
+
+const ASSIGNABLE_ROLES: string[] = [
+  GoalRole.EDITOR,
+  GoalRole.REVIEWER,
+  GoalRole.VIEWER,
+];
+
+/**
+ * Drop the child collections a request did not send. The repository only
+ * replaces collections present on the saved goal, so tasks, milestones and
+ * checkpoints managed through their own endpoints are left untouched.
+ */
+const withoutUnsentChildren = (
+  goal: SmartGoal,
+  sent: Partial<SmartGoal> = {}
+): SmartGoal => {
+  const result: Partial<SmartGoal> = { ...goal };
+  (['tasks', 'milestones', 'checkpoints'] as const).forEach(key => {
+    if (sent[key] === undefined) delete result[key];
+  });
+  return result as SmartGoal;
 };
 
 const validateGoalUpdate = (update: Partial<SmartGoal>): string[] => {
@@ -62,6 +123,31 @@ const validateGoalUpdate = (update: Partial<SmartGoal>): string[] => {
     }
   }
 
+  // Validate members
+  if (update.members !== undefined) {
+    if (
+      !Array.isArray(update.members) ||
+      update.members.some(
+        member =>
+          typeof member?.userId !== 'string' ||
+          !ASSIGNABLE_ROLES.includes(member.role)
+      )
+    ) {
+      errors.push('Members must have a userId and an editor, reviewer or viewer role');
+    } else if (
+      new Set(update.members.map(member => member.userId)).size !==
+      update.members.length
+    ) {
+      errors.push('Members must not be listed more than once');
+    }
+  }
+
+  // Validate board settings
+  if (update.board !== undefined) {
+    const wipError = getWipLimitsError(update.board?.wipLimits);
+    if (wipError) errors.push(wipError);
+  }
+
   // Validate SMART criteria
   if (update.measurable) {
     if (update.measurable.targetValue <= 0) {
@@ -82,16 +168,9 @@ const validateGoalUpdate = (update: Partial<SmartGoal>): string[] => {
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const goal = findGoalById(id);
-
-    if (!goal) {
-      const errorResponse: ErrorResponse = {
-        error: 'Not Found',
-        message: `Goal with id "${id}" not found`,
-        code: 'GOAL_NOT_FOUND',
-      };
-      return NextResponse.json(errorResponse, { status: 404 });
-    }
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    const { goal } = access.data;
 
     // Check if goal is soft deleted
     if (goal.isDeleted) {
@@ -123,16 +202,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const existingGoal = findGoalById(id);
-
-    if (!existingGoal) {
-      const errorResponse: ErrorResponse = {
-        error: 'Not Found',
-        message: `Goal with id "${id}" not found`,
-        code: 'GOAL_NOT_FOUND',
-      };
-      return NextResponse.json(errorResponse, { status: 404 });
-    }
+    const access = await authorizeGoal(request, id, 'edit_goal');
+    if (access.response) return access.response;
+    const { goal: existingGoal, user } = access.data;
 
     if (existingGoal.isDeleted) {
       const errorResponse: ErrorResponse = {
@@ -143,7 +215,12 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json(errorResponse, { status: 410 });
     }
 
-    const body = await request.json();
+    const { dorDodOverride, ...body } = await readJsonBody<
+      SmartGoal & StatusChangeOptions
+    >(request);
+
+    const forbidden = checkUpdatePermissions(existingGoal, user, body);
+    if (forbidden) return forbidden;
 
     // Validate the update
     const validationErrors = validateGoalUpdate(body);
@@ -156,23 +233,42 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json(errorResponse, { status: 400 });
     }
 
+    const dorDodGate = body.status
+      ? await checkDorDodGate(
+          { type: 'goal', id },
+          existingGoal,
+          user,
+          existingGoal.status,
+          body.status,
+          dorDodOverride
+        )
+      : { data: null };
+    if (dorDodGate.response) return dorDodGate.response;
+
     // Create updated goal (preserve read-only fields)
     const updatedGoal: SmartGoal = {
       ...body,
       id: existingGoal.id, // Preserve ID
       createdAt: existingGoal.createdAt, // Preserve creation timestamp
       createdBy: existingGoal.createdBy, // Preserve creator
+      // Access control is kept unless the request replaces it
+      ownerId: body.ownerId ?? existingGoal.ownerId,
+      collaborators: body.collaborators ?? existingGoal.collaborators,
+      members: body.members ?? existingGoal.members,
+      visibility: body.visibility ?? existingGoal.visibility,
       updatedAt: new Date(), // Update timestamp
-      updatedBy: 'current-user', // In production, get from authentication
+      updatedBy: user.id,
       isDeleted: existingGoal.isDeleted, // Preserve deletion status
       deletedAt: existingGoal.deletedAt,
       deletedBy: existingGoal.deletedBy,
     };
 
-    // In a real implementation, you would save to a database here
-    // For now, we'll just return the updated goal
+    const savedGoal = await getDatabase().goals.save(
+      withoutUnsentChildren(updatedGoal, body)
+    );
+    await saveDorDodOverride(dorDodGate.data);
 
-    return NextResponse.json(updatedGoal);
+    return NextResponse.json(savedGoal);
   } catch (error) {
     console.error('Error updating goal:', error);
 
@@ -192,16 +288,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const existingGoal = findGoalById(id);
-
-    if (!existingGoal) {
-      const errorResponse: ErrorResponse = {
-        error: 'Not Found',
-        message: `Goal with id "${id}" not found`,
-        code: 'GOAL_NOT_FOUND',
-      };
-      return NextResponse.json(errorResponse, { status: 404 });
-    }
+    const access = await authorizeGoal(request, id, 'edit_goal');
+    if (access.response) return access.response;
+    const { goal: existingGoal, user } = access.data;
 
     if (existingGoal.isDeleted) {
       const errorResponse: ErrorResponse = {
@@ -212,7 +301,12 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json(errorResponse, { status: 410 });
     }
 
-    const updates = await request.json();
+    const { dorDodOverride, ...updates } = await readJsonBody<
+      Partial<SmartGoal> & StatusChangeOptions
+    >(request);
+
+    const forbidden = checkUpdatePermissions(existingGoal, user, updates);
+    if (forbidden) return forbidden;
 
     // Validate the partial update
     const validationErrors = validateGoalUpdate(updates);
@@ -225,7 +319,20 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json(errorResponse, { status: 400 });
     }
 
+    const dorDodGate = updates.status
+      ? await checkDorDodGate(
+          { type: 'goal', id },
+          existingGoal,
+          user,
+          existingGoal.status,
+          updates.status,
+          dorDodOverride
+        )
+      : { data: null };
+    if (dorDodGate.response) return dorDodGate.response;
+
     // Create updated goal by merging changes
+    const now = new Date();
     const updatedGoal: SmartGoal = {
       ...existingGoal,
       ...updates,
@@ -233,17 +340,31 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       id: existingGoal.id,
       createdAt: existingGoal.createdAt,
       createdBy: existingGoal.createdBy,
-      updatedAt: new Date(),
-      updatedBy: 'current-user', // In production, get from authentication
+      updatedAt: now,
+      updatedBy: user.id,
       isDeleted: existingGoal.isDeleted,
       deletedAt: existingGoal.deletedAt,
       deletedBy: existingGoal.deletedBy,
+      // Derived lifecycle timestamps
+      lastProgressUpdate:
+        updates.progress !== undefined ? now : existingGoal.lastProgressUpdate,
+      actualStartDate:
+        updates.status === GoalStatus.ACTIVE && !existingGoal.actualStartDate
+          ? now
+          : existingGoal.actualStartDate,
+      actualCompletionDate:
+        updates.status === GoalStatus.COMPLETED &&
+        existingGoal.status !== GoalStatus.COMPLETED
+          ? now
+          : existingGoal.actualCompletionDate,
     };
 
-    // In a real implementation, you would save to a database here
-    // For now, we'll just return the updated goal
+    const savedGoal = await getDatabase().goals.save(
+      withoutUnsentChildren(updatedGoal, updates)
+    );
+    await saveDorDodOverride(dorDodGate.data);
 
-    return NextResponse.json(updatedGoal);
+    return NextResponse.json(savedGoal);
   } catch (error) {
     console.error('Error partially updating goal:', error);
 
@@ -263,16 +384,9 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const existingGoal = findGoalById(id);
-
-    if (!existingGoal) {
-      const errorResponse: ErrorResponse = {
-        error: 'Not Found',
-        message: `Goal with id "${id}" not found`,
-        code: 'GOAL_NOT_FOUND',
-      };
-      return NextResponse.json(errorResponse, { status: 404 });
-    }
+    const access = await authorizeGoal(request, id, 'archive');
+    if (access.response) return access.response;
+    const { goal: existingGoal, user } = access.data;
 
     if (existingGoal.isDeleted) {
       const errorResponse: ErrorResponse = {
@@ -288,7 +402,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     const permanent = searchParams.get('permanent') === 'true';
 
     if (permanent) {
-      // Hard delete - in a real implementation, you would remove from database
+      // Hard delete - removes the goal with its tasks, milestones and checkpoints
+      await getDatabase().goals.delete(id);
       return NextResponse.json(
         { message: 'Goal permanently deleted', id },
         { status: 200 }
@@ -299,14 +414,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
         ...existingGoal,
         isDeleted: true,
         deletedAt: new Date(),
-        deletedBy: 'current-user', // In production, get from authentication
+        deletedBy: user.id,
         updatedAt: new Date(),
-        updatedBy: 'current-user',
+        updatedBy: user.id,
       };
 
-      // In a real implementation, you would save to a database here
+      const savedGoal = await getDatabase().goals.save(
+        withoutUnsentChildren(deletedGoal)
+      );
       return NextResponse.json(
-        { message: 'Goal soft deleted', id, goal: deletedGoal },
+        { message: 'Goal soft deleted', id, goal: savedGoal },
         { status: 200 }
       );
     }
@@ -0,0 +1,98 @@
+/**
+ * Goal Task Order API Route
+ *
+ * - PUT /api/goals/[id]/tasks/order - Reorder the tasks of a goal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { taskOrderSchema } from '@/lib/api/server/task-schemas';
+import { getTaskOrderError, planTaskOrder } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// PUT /api/goals/[id]/tasks/order - Reorder tasks
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/tasks/order:
+ *   put:
+ *     summary: Reorder the tasks of a goal
+ *     description: Listed tasks are numbered from 1 in the given order; tasks that are not listed follow in their current order
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [taskIds]
+ *             properties:
+ *               taskIds: { type: array, items: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Tasks of the goal in their new order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/Task' }
+ *       400:
+ *         description: Validation failed, or a task is not part of the goal
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'manage_tasks');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const parsed = await parseBody(request, taskOrderSchema);
+    if (parsed.response) return parsed.response;
+
+    const tasks = await db.tasks.listByGoal(id);
+    const orderError = getTaskOrderError(tasks, parsed.data.taskIds);
+    if (orderError) {
+      return errorResponse(400, orderError, 'INVALID_TASK_ORDER');
+    }
+
+    return NextResponse.json(
+      await db.tasks.updateOrders(
+        id,
+        planTaskOrder(tasks, parsed.data.taskIds),
+        { updatedAt: new Date(), updatedBy: user.id }
+      )
+    );
+  } catch (error) {
+    return internalError('Failed to reorder tasks', error);
+  }
+}
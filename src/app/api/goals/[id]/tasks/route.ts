@@ -0,0 +1,164 @@
+/**
+ * Goal Tasks API Routes
+ *
+ * REST API endpoints for the tasks of a goal:
+ * - GET /api/goals/[id]/tasks - List tasks with filtering
+ * - POST /api/goals/[id]/tasks - Create a task
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { createTaskSchema } from '@/lib/api/server/task-schemas';
+import {
+  buildTask,
+  filterTasks,
+  parseTaskFilters,
+} from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/goals/[id]/tasks - List tasks of a goal
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/tasks:
+ *   get:
+ *     summary: List the tasks of a goal
+ *     description: Returns the goal's tasks with their subtasks, ordered by position
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: query, name: status, schema: { type: string }, description: Comma-separated task statuses }
+ *       - { in: query, name: priority, schema: { type: string }, description: Comma-separated priorities }
+ *       - { in: query, name: assignedTo, schema: { type: string }, description: Comma-separated user IDs }
+ *       - { in: query, name: tags, schema: { type: string }, description: Comma-separated tags }
+ *       - { in: query, name: dueStart, schema: { type: string, format: date-time } }
+ *       - { in: query, name: dueEnd, schema: { type: string, format: date-time } }
+ *       - { in: query, name: overdue, schema: { type: boolean } }
+ *       - { in: query, name: completed, schema: { type: boolean } }
+ *     responses:
+ *       200:
+ *         description: Tasks of the goal
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/Task' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const tasks = filterTasks(
+      await db.tasks.listByGoal(id),
+      parseTaskFilters(searchParams)
+    );
+
+    return NextResponse.json(tasks);
+  } catch (error) {
+    return internalError('Failed to fetch tasks', error);
+  }
+}
+
+// =============================================================================
+// POST /api/goals/[id]/tasks - Create a task
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/tasks:
+ *   post:
+ *     summary: Create a task in a goal
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/CreateTaskRequest' }
+ *     responses:
+ *       201:
+ *         description: Task created
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Task' }
+ *       400:
+ *         description: Validation failed
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ *       410:
+ *         description: Goal has been deleted
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'manage_tasks');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+    if (goal.isDeleted) {
+      return errorResponse(
+        410,
+        'Cannot add tasks to a deleted goal',
+        'GOAL_DELETED'
+      );
+    }
+
+    const parsed = await parseBody(request, createTaskSchema);
+    if (parsed.response) return parsed.response;
+
+    const existingTasks = await db.tasks.listByGoal(id, {
+      includeDeleted: true,
+    });
+    const task = buildTask(id, parsed.data, {
+      order: existingTasks.length + 1,
+      userId: user.id,
+    });
+
+    const createdTask = await db.tasks.create(task);
+
+    return NextResponse.json(createdTask, { status: 201 });
+  } catch (error) {
+    return internalError('Failed to create task', error);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Goal Task Statistics API Route
+ *
+ * - GET /api/goals/[id]/tasks/stats - Task counts, progress and effort for a goal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { internalError, notFound } from '@/lib/api/server/responses';
+import { computeTaskStats } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/goals/[id]/tasks/stats - Task statistics
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/goals/{id}/tasks/stats:
+ *   get:
+ *     summary: Task statistics for a goal
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Counts by status and priority, completion rate, overdue count and effort totals
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/TaskStats' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Goal not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const access = await authorizeGoal(request, id, 'view');
+    if (access.response) return access.response;
+    if (access.data.goal.isDeleted) {
+      return notFound('Goal', id);
+    }
+
+    return NextResponse.json(computeTaskStats(await db.tasks.listByGoal(id)));
+  } catch (error) {
+    return internalError('Failed to get task stats', error);
+  }
+}
@@ -4,18 +4,26 @@
  * REST API endpoints for goal CRUD operations:
  * - GET /api/goals - List goals with filtering and pagination
  * - POST /api/goals - Create a new goal
+ *
+ * Listings only include goals the caller may view; new goals are owned by
+ * the signed-in user.
+ *
+ * Aggregate statistics live in ./stats/route.ts
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { mockGoals } from '@/lib/mock-data/smart-goals';
-import type {
-  SmartGoal,
-  GoalFilters,
-  GoalSort,
+import { readJsonBody } from '@/lib/api/serialization';
+import { getCurrentUser, requireUser } from '@/lib/api/server/authorization';
+import { filterVisibleGoals } from '@/lib/api/shared/goal-access';
+import { getDatabase } from '@/lib/db';
+import {
   GoalStatus,
-  GoalPriority,
-  GoalCategory,
+  type SmartGoal,
+  type GoalFilters,
+  type GoalSort,
+  type GoalPriority,
+  type GoalCategory,
 } from '@/types/smart-goals.types';
 
 // =============================================================================
@@ -217,8 +225,16 @@ export async function GET(request: NextRequest) {
     const filters = parseFilters(searchParams);
     const sort = parseSort(searchParams);
 
+    // Soft-deleted goals are only listed on request
+    const includeDeleted = searchParams.get('includeDeleted') === 'true';
+    const [storedGoals, user] = await Promise.all([
+      getDatabase().goals.list({ includeDeleted }),
+      getCurrentUser(request),
+    ]);
+    const visibleGoals = filterVisibleGoals(storedGoals, user?.id ?? null);
+
     // Apply filters and sorting
-    let filteredGoals = applyFilters(mockGoals, filters);
+    let filteredGoals = applyFilters(visibleGoals, filters);
     filteredGoals = applySort(filteredGoals, sort);
 
     // Apply pagination
@@ -255,7 +271,11 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const auth = await requireUser(request);
+    if (auth.response) return auth.response;
+    const user = auth.data;
+
+    const body = await readJsonBody(request);
 
     // Basic validation
     if (!body.title || !body.description) {
@@ -268,13 +288,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Create new goal with generated ID and timestamps
+    const now = new Date();
     const newGoal: SmartGoal = {
       ...body,
-      id: `goal-${Date.now()}`, // In production, use a proper UUID library
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      createdBy: 'current-user', // In production, get from authentication
-      updatedBy: 'current-user',
+      id: `goal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: now,
+      updatedAt: now,
+      ownerId: user.id,
+      createdBy: user.id,
+      updatedBy: user.id,
 
       // Set defaults for missing fields
       progress: body.progress || 0,
@@ -287,16 +309,20 @@ export async function POST(request: NextRequest) {
       tags: body.tags || [],
       successCriteria: body.successCriteria || [],
 
+      // Lifecycle timestamps
+      actualStartDate: body.status === GoalStatus.ACTIVE ? now : undefined,
+      actualCompletionDate: body.status === GoalStatus.COMPLETED ? now : undefined,
+      lastProgressUpdate: now,
+
       // Default visibility and archive status
       visibility: body.visibility || 'team',
       isArchived: false,
       isDeleted: false,
     };
 
-    // In a real implementation, you would save to a database here
-    // For now, we'll just return the created goal
+    const createdGoal = await getDatabase().goals.create(newGoal);
 
-    return NextResponse.json(newGoal, { status: 201 });
+    return NextResponse.json(createdGoal, { status: 201 });
   } catch (error) {
     console.error('Error creating goal:', error);
 
@@ -0,0 +1,83 @@
+/**
+ * Goal Statistics API Route
+ *
+ * - GET /api/goals/stats - Goal counts by status and priority
+ *
+ * Only goals the caller may view are counted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getCurrentUser } from '@/lib/api/server/authorization';
+import { filterVisibleGoals } from '@/lib/api/shared/goal-access';
+import { getDatabase } from '@/lib/db';
+import { GoalPriority, GoalStatus } from '@/types/smart-goals.types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface GoalStatsResponse {
+  total: number;
+  byStatus: Record<GoalStatus, number>;
+  byPriority: Record<GoalPriority, number>;
+  completionRate: number;
+}
+
+interface ErrorResponse {
+  error: string;
+  message: string;
+  code?: string;
+}
+
+// =============================================================================
+// GET /api/goals/stats - Goal statistics
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const [storedGoals, user] = await Promise.all([
+      getDatabase().goals.list(),
+      getCurrentUser(request),
+    ]);
+    const goals = filterVisibleGoals(storedGoals, user?.id ?? null);
+    const activeGoals = goals.filter(goal => !goal.isArchived);
+    const total = activeGoals.length;
+
+    const byStatus = Object.values(GoalStatus).reduce(
+      (acc, status) => {
+        acc[status] = activeGoals.filter(g => g.status === status).length;
+        return acc;
+      },
+      {} as Record<GoalStatus, number>
+    );
+
+    const byPriority = Object.values(GoalPriority).reduce(
+      (acc, priority) => {
+        acc[priority] = activeGoals.filter(g => g.priority === priority).length;
+        return acc;
+      },
+      {} as Record<GoalPriority, number>
+    );
+
+    const completedGoals = byStatus[GoalStatus.COMPLETED] || 0;
+
+    const response: GoalStatsResponse = {
+      total,
+      byStatus,
+      byPriority,
+      completionRate: total > 0 ? (completedGoals / total) * 100 : 0,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching goal stats:', error);
+
+    const errorResponse: ErrorResponse = {
+      error: 'Internal Server Error',
+      message: 'Failed to fetch goal stats',
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { getDatabase } from '@/lib/db';
 import { env } from '@/lib/env';
 
 /**
@@ -80,9 +81,8 @@ export async function GET(_request: NextRequest) {
 }
 
 async function checkDatabase(): Promise<string> {
-  // Implement database health check
   try {
-    // Example: await db.raw('SELECT 1');
+    await getDatabase().ping();
     return 'healthy';
   } catch {
     return 'unhealthy';
@@ -0,0 +1,206 @@
+/**
+ * Individual Subtask API Routes
+ *
+ * REST API endpoints for individual subtask operations:
+ * - GET /api/subtasks/[id] - Get a subtask
+ * - PATCH /api/subtasks/[id] - Partial update of a subtask
+ * - DELETE /api/subtasks/[id] - Delete a subtask (soft by default)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeSubtask } from '@/lib/api/server/authorization';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { updateSubtaskSchema } from '@/lib/api/server/task-schemas';
+import { deriveCompletion } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/subtasks/[id] - Get a subtask
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/subtasks/{id}:
+ *   get:
+ *     summary: Get a subtask
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: The subtask
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Subtask' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Subtask not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const subtask = await getDatabase().subtasks.findById(id);
+
+    if (!subtask || subtask.isDeleted) {
+      return notFound('Subtask', id);
+    }
+
+    const access = await authorizeSubtask(request, subtask, 'view');
+    if (access.response) return access.response;
+
+    return NextResponse.json(subtask);
+  } catch (error) {
+    return internalError('Failed to fetch subtask', error);
+  }
+}
+
+// =============================================================================
+// PATCH /api/subtasks/[id] - Update a subtask
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/subtasks/{id}:
+ *   patch:
+ *     summary: Update a subtask
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/UpdateTaskRequest' }
+ *     responses:
+ *       200:
+ *         description: Updated subtask
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Subtask' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Subtask not found
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const existingSubtask = await db.subtasks.findById(id);
+    if (!existingSubtask || existingSubtask.isDeleted) {
+      return notFound('Subtask', id);
+    }
+
+    const access = await authorizeSubtask(
+      request,
+      existingSubtask,
+      'manage_tasks'
+    );
+    if (access.response) return access.response;
+
+    const parsed = await parseBody(request, updateSubtaskSchema);
+    if (parsed.response) return parsed.response;
+
+    const now = new Date();
+    const updatedSubtask = await db.subtasks.update(id, {
+      ...parsed.data,
+      ...deriveCompletion(existingSubtask, parsed.data, now),
+      updatedAt: now,
+      updatedBy: access.data.user.id,
+    });
+
+    return NextResponse.json(updatedSubtask);
+  } catch (error) {
+    return internalError('Failed to update subtask', error);
+  }
+}
+
+// =============================================================================
+// DELETE /api/subtasks/[id] - Delete a subtask
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/subtasks/{id}:
+ *   delete:
+ *     summary: Delete a subtask
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: query, name: permanent, schema: { type: boolean } }
+ *     responses:
+ *       200:
+ *         description: Subtask deleted
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Subtask not found
+ *       410:
+ *         description: Subtask is already deleted
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const existingSubtask = await db.subtasks.findById(id);
+    if (!existingSubtask) {
+      return notFound('Subtask', id);
+    }
+
+    const access = await authorizeSubtask(
+      request,
+      existingSubtask,
+      'manage_tasks'
+    );
+    if (access.response) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('permanent') === 'true') {
+      await db.subtasks.delete(id);
+      return NextResponse.json({ message: 'Subtask permanently deleted', id });
+    }
+
+    if (existingSubtask.isDeleted) {
+      return errorResponse(
+        410,
+        'Subtask is already deleted',
+        'SUBTASK_ALREADY_DELETED'
+      );
+    }
+
+    const deletedSubtask = await db.subtasks.update(id, {
+      isDeleted: true,
+      deletedAt: new Date(),
+      deletedBy: access.data.user.id,
+    });
+
+    return NextResponse.json({
+      message: 'Subtask soft deleted',
+      id,
+      subtask: deletedSubtask,
+    });
+  } catch (error) {
+    return internalError('Failed to delete subtask', error);
+  }
+}
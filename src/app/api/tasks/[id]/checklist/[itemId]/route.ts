@@ -0,0 +1,146 @@
+/**
+ * Checklist Item API Routes
+ *
+ * REST API endpoints for individual checklist items of a task:
+ * - PATCH /api/tasks/[id]/checklist/[itemId] - Update a checklist item
+ * - DELETE /api/tasks/[id]/checklist/[itemId] - Remove a checklist item
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { internalError, notFound, parseBody } from '@/lib/api/server/responses';
+import { updateChecklistItemSchema } from '@/lib/api/server/task-schemas';
+import { applyChecklistUpdate } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    itemId: string;
+  }>;
+}
+
+// =============================================================================
+// PATCH /api/tasks/[id]/checklist/[itemId] - Update a checklist item
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}/checklist/{itemId}:
+ *   patch:
+ *     summary: Update a checklist item
+ *     description: Checking an item stamps completedAt and completedBy; unchecking clears them
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: path, name: itemId, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/ChecklistItem' }
+ *     responses:
+ *       200:
+ *         description: The task with the updated checklist
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Task' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task or checklist item not found
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, itemId } = await params;
+    const db = getDatabase();
+
+    const task = await db.tasks.findById(id);
+    if (!task || task.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(request, task.goalId, 'manage_tasks');
+    if (access.response) return access.response;
+    if (!task.checklist.some(item => item.id === itemId)) {
+      return notFound('Checklist item', itemId);
+    }
+
+    const parsed = await parseBody(request, updateChecklistItemSchema);
+    if (parsed.response) return parsed.response;
+
+    const userId = access.data.user.id;
+    const updatedTask = await db.tasks.update(id, {
+      checklist: task.checklist.map(item =>
+        item.id === itemId
+          ? applyChecklistUpdate(item, parsed.data, userId)
+          : item
+      ),
+      updatedAt: new Date(),
+      updatedBy: userId,
+    });
+
+    return NextResponse.json(updatedTask);
+  } catch (error) {
+    return internalError('Failed to update checklist item', error);
+  }
+}
+
+// =============================================================================
+// DELETE /api/tasks/[id]/checklist/[itemId] - Remove a checklist item
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}/checklist/{itemId}:
+ *   delete:
+ *     summary: Remove a checklist item
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: path, name: itemId, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: The task without the removed item
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Task' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task or checklist item not found
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, itemId } = await params;
+    const db = getDatabase();
+
+    const task = await db.tasks.findById(id);
+    if (!task || task.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(request, task.goalId, 'manage_tasks');
+    if (access.response) return access.response;
+    if (!task.checklist.some(item => item.id === itemId)) {
+      return notFound('Checklist item', itemId);
+    }
+
+    const updatedTask = await db.tasks.update(id, {
+      checklist: task.checklist.filter(item => item.id !== itemId),
+      updatedAt: new Date(),
+      updatedBy: access.data.user.id,
+    });
+
+    return NextResponse.json(updatedTask);
+  } catch (error) {
+    return internalError('Failed to remove checklist item', error);
+  }
+}
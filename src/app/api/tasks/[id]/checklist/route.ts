@@ -0,0 +1,91 @@
+/**
+ * Task Checklist API Routes
+ *
+ * REST API endpoint for adding checklist items to a task:
+ * - POST /api/tasks/[id]/checklist - Append a checklist item
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { internalError, notFound, parseBody } from '@/lib/api/server/responses';
+import { createChecklistItemSchema } from '@/lib/api/server/task-schemas';
+import { buildChecklistItem } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// POST /api/tasks/[id]/checklist - Add a checklist item
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}/checklist:
+ *   post:
+ *     summary: Add a checklist item to a task
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [title]
+ *             properties:
+ *               title: { type: string }
+ *               description: { type: string }
+ *               isRequired: { type: boolean }
+ *     responses:
+ *       201:
+ *         description: The task with the new checklist item
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Task' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const task = await db.tasks.findById(id);
+    if (!task || task.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(request, task.goalId, 'manage_tasks');
+    if (access.response) return access.response;
+
+    const parsed = await parseBody(request, createChecklistItemSchema);
+    if (parsed.response) return parsed.response;
+
+    const userId = access.data.user.id;
+    const item = buildChecklistItem(parsed.data, task.checklist, userId);
+
+    const updatedTask = await db.tasks.update(id, {
+      checklist: [...task.checklist, item],
+      updatedAt: item.createdAt,
+      updatedBy: userId,
+    });
+
+    return NextResponse.json(updatedTask, { status: 201 });
+  } catch (error) {
+    return internalError('Failed to add checklist item', error);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Task DoR/DoD API Routes
+ *
+ * REST API endpoints for the Definition of Ready and Done of a task:
+ * - GET /api/tasks/[id]/dor-dod - Get the criteria, approval workflow,
+ *   time tracking and audit log
+ * - PUT /api/tasks/[id]/dor-dod - Save them; new audit entries are added
+ *   to the stored log
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { loadDorDodState, saveDorDodState } from '@/lib/api/server/dor-dod';
+import { internalError, notFound } from '@/lib/api/server/responses';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/tasks/[id]/dor-dod - Get the DoR/DoD state
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}/dor-dod:
+ *   get:
+ *     summary: Get the DoR/DoD state of a task
+ *     description: Tasks without saved criteria return an empty state
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Criteria, applied template, approval workflow, time tracking and audit log
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/DorDodState' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const task = await getDatabase().tasks.findById(id);
+
+    if (!task || task.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(request, task.goalId, 'view');
+    if (access.response) return access.response;
+
+    return NextResponse.json(
+      await loadDorDodState({ type: 'task', id }, task.goalId)
+    );
+  } catch (error) {
+    return internalError('Failed to fetch DoR/DoD state', error);
+  }
+}
+
+// =============================================================================
+// PUT /api/tasks/[id]/dor-dod - Save the DoR/DoD state
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}/dor-dod:
+ *   put:
+ *     summary: Save the DoR/DoD state of a task
+ *     description: >
+ *       Changing criteria needs manage_tasks; approving or rejecting them
+ *       needs approve_criteria. Audit entries the server already has are
+ *       ignored, and new entries and approvals are recorded for the caller.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/DorDodStateInput' }
+ *     responses:
+ *       200:
+ *         description: The saved state
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/DorDodState' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Criteria were approved or rejected without an approval request
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const task = await getDatabase().tasks.findById(id);
+
+    if (!task || task.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(request, task.goalId, 'view');
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+
+    return await saveDorDodState(request, { type: 'task', id }, goal, user);
+  } catch (error) {
+    return internalError('Failed to save DoR/DoD state', error);
+  }
+}
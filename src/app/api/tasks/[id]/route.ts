@@ -0,0 +1,249 @@
+/**
+ * Individual Task API Routes
+ *
+ * REST API endpoints for individual task operations:
+ * - GET /api/tasks/[id] - Get a task with its subtasks
+ * - PATCH /api/tasks/[id] - Partial update of a task
+ * - DELETE /api/tasks/[id] - Delete a task (soft by default)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { checkDorDodGate, saveDorDodOverride } from '@/lib/api/server/dor-dod';
+import {
+  errorResponse,
+  internalError,
+  notFound,
+  parseBody,
+} from '@/lib/api/server/responses';
+import { updateTaskSchema } from '@/lib/api/server/task-schemas';
+import {
+  deriveCompletion,
+  deriveStatusHistory,
+} from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/tasks/[id] - Get a task
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}:
+ *   get:
+ *     summary: Get a task
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: The task with its subtasks
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Task' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task not found
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Error' }
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const task = await getDatabase().tasks.findById(id);
+
+    if (!task || task.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(request, task.goalId, 'view');
+    if (access.response) return access.response;
+
+    return NextResponse.json(task);
+  } catch (error) {
+    return internalError('Failed to fetch task', error);
+  }
+}
+
+// =============================================================================
+// PATCH /api/tasks/[id] - Update a task
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}:
+ *   patch:
+ *     summary: Update a task
+ *     description: >
+ *       Completing a task stamps completedAt and sets progress to 100.
+ *       Starting a task needs its Definition of Ready met and completing it
+ *       its Definition of Done, unless the goal owner sends dorDodOverride.
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/UpdateTaskRequest' }
+ *     responses:
+ *       200:
+ *         description: Updated task
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Task' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task not found
+ *       409:
+ *         description: Open DoR/DoD criteria block the status change (DOR_DOD_UNMET); details name them
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const existingTask = await db.tasks.findById(id);
+    if (!existingTask || existingTask.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(
+      request,
+      existingTask.goalId,
+      'manage_tasks'
+    );
+    if (access.response) return access.response;
+    const { goal, user } = access.data;
+
+    const parsed = await parseBody(request, updateTaskSchema);
+    if (parsed.response) return parsed.response;
+    const { dorDodOverride, ...updates } = parsed.data;
+
+    const dorDodGate = updates.status
+      ? await checkDorDodGate(
+          { type: 'task', id },
+          goal,
+          user,
+          existingTask.status,
+          updates.status,
+          dorDodOverride
+        )
+      : { data: null };
+    if (dorDodGate.response) return dorDodGate.response;
+
+    const now = new Date();
+    const updatedTask = await db.tasks.update(id, {
+      ...updates,
+      ...deriveCompletion(existingTask, updates, now),
+      ...deriveStatusHistory(existingTask, updates, user.id, now),
+      updatedAt: now,
+      updatedBy: user.id,
+    });
+    if (!updatedTask) {
+      return notFound('Task', id);
+    }
+    await saveDorDodOverride(dorDodGate.data);
+
+    return NextResponse.json(updatedTask);
+  } catch (error) {
+    return internalError('Failed to update task', error);
+  }
+}
+
+// =============================================================================
+// DELETE /api/tasks/[id] - Delete a task
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}:
+ *   delete:
+ *     summary: Delete a task
+ *     description: Soft deletes the task and its subtasks unless permanent=true
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *       - { in: query, name: permanent, schema: { type: boolean } }
+ *     responses:
+ *       200:
+ *         description: Task deleted
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task not found
+ *       410:
+ *         description: Task is already deleted
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const existingTask = await db.tasks.findById(id);
+    if (!existingTask) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(
+      request,
+      existingTask.goalId,
+      'manage_tasks'
+    );
+    if (access.response) return access.response;
+    const { user } = access.data;
+
+    const { searchParams } = new URL(request.url);
+    const permanent = searchParams.get('permanent') === 'true';
+
+    if (permanent) {
+      // Hard delete - removes the task together with its subtasks
+      await db.tasks.delete(id);
+      return NextResponse.json({ message: 'Task permanently deleted', id });
+    }
+
+    if (existingTask.isDeleted) {
+      return errorResponse(
+        410,
+        'Task is already deleted',
+        'TASK_ALREADY_DELETED'
+      );
+    }
+
+    // Soft delete - mark the task and its subtasks as deleted
+    const deletion = {
+      isDeleted: true,
+      deletedAt: new Date(),
+      deletedBy: user.id,
+    };
+
+    for (const subtask of existingTask.subtasks) {
+      await db.subtasks.update(subtask.id, deletion);
+    }
+    const deletedTask = await db.tasks.update(id, deletion);
+
+    return NextResponse.json({
+      message: 'Task soft deleted',
+      id,
+      task: deletedTask,
+    });
+  } catch (error) {
+    return internalError('Failed to delete task', error);
+  }
+}
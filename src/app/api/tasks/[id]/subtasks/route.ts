@@ -0,0 +1,131 @@
+/**
+ * Task Subtasks API Routes
+ *
+ * REST API endpoints for the subtasks of a task:
+ * - GET /api/tasks/[id]/subtasks - List subtasks
+ * - POST /api/tasks/[id]/subtasks - Create a subtask
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authorizeGoal } from '@/lib/api/server/authorization';
+import { internalError, notFound, parseBody } from '@/lib/api/server/responses';
+import { createSubtaskSchema } from '@/lib/api/server/task-schemas';
+import { buildSubtask } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// GET /api/tasks/[id]/subtasks - List subtasks
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}/subtasks:
+ *   get:
+ *     summary: List the subtasks of a task
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Subtasks ordered by position
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/Subtask' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task not found
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const task = await db.tasks.findById(id);
+    if (!task || task.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(request, task.goalId, 'view');
+    if (access.response) return access.response;
+
+    return NextResponse.json(await db.subtasks.listByTask(id));
+  } catch (error) {
+    return internalError('Failed to fetch subtasks', error);
+  }
+}
+
+// =============================================================================
+// POST /api/tasks/[id]/subtasks - Create a subtask
+// =============================================================================
+
+/**
+ * @swagger
+ * /api/tasks/{id}/subtasks:
+ *   post:
+ *     summary: Create a subtask
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: path, name: id, required: true, schema: { type: string } }
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema: { $ref: '#/components/schemas/CreateTaskRequest' }
+ *     responses:
+ *       201:
+ *         description: Subtask created
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/Subtask' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ *       404:
+ *         description: Task not found
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = getDatabase();
+
+    const task = await db.tasks.findById(id);
+    if (!task || task.isDeleted) {
+      return notFound('Task', id);
+    }
+
+    const access = await authorizeGoal(request, task.goalId, 'manage_tasks');
+    if (access.response) return access.response;
+
+    const parsed = await parseBody(request, createSubtaskSchema);
+    if (parsed.response) return parsed.response;
+
+    const existingSubtasks = await db.subtasks.listByTask(id, {
+      includeDeleted: true,
+    });
+    const subtask = buildSubtask(id, parsed.data, {
+      order: existingSubtasks.length + 1,
+      userId: access.data.user.id,
+    });
+
+    const createdSubtask = await db.subtasks.create(subtask);
+
+    return NextResponse.json(createdSubtask, { status: 201 });
+  } catch (error) {
+    return internalError('Failed to create subtask', error);
+  }
+}
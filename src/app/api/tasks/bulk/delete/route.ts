@@ -0,0 +1,91 @@
+/**
+ * Bulk Task Delete API Route
+ *
+ * - POST /api/tasks/bulk/delete - Delete several tasks (soft by default)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  createGoalAccessCheck,
+  requireUser,
+} from '@/lib/api/server/authorization';
+import { internalError, parseBody } from '@/lib/api/server/responses';
+import { bulkTaskDeleteSchema } from '@/lib/api/server/task-schemas';
+import { getDatabase } from '@/lib/db';
+
+/**
+ * @swagger
+ * /api/tasks/bulk/delete:
+ *   post:
+ *     summary: Delete several tasks
+ *     tags: [Tasks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids: { type: array, items: { type: string } }
+ *               permanent: { type: boolean }
+ *     responses:
+ *       200:
+ *         description: Per-task errors for tasks that could not be deleted
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/BulkTaskResponse' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (auth.response) return auth.response;
+    const user = auth.data;
+    const canEdit = createGoalAccessCheck(user.id, 'manage_tasks');
+
+    const parsed = await parseBody(request, bulkTaskDeleteSchema);
+    if (parsed.response) return parsed.response;
+
+    const { ids, permanent } = parsed.data;
+    const db = getDatabase();
+    const errors: Array<{ id: string; error: string }> = [];
+
+    for (const id of ids) {
+      const existingTask = await db.tasks.findById(id);
+      if (!existingTask) {
+        errors.push({ id, error: `Task with id "${id}" not found` });
+        continue;
+      }
+      if (!(await canEdit(existingTask.goalId))) {
+        errors.push({
+          id,
+          error: 'You do not have permission to change this task',
+        });
+        continue;
+      }
+
+      if (permanent) {
+        await db.tasks.delete(id);
+        continue;
+      }
+
+      const deletion = {
+        isDeleted: true,
+        deletedAt: new Date(),
+        deletedBy: user.id,
+      };
+      for (const subtask of existingTask.subtasks) {
+        await db.subtasks.update(subtask.id, deletion);
+      }
+      await db.tasks.update(id, deletion);
+    }
+
+    return NextResponse.json({ tasks: [], errors });
+  } catch (error) {
+    return internalError('Failed to delete tasks', error);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Bulk Task Status API Route
+ *
+ * - POST /api/tasks/bulk/status - Set the status of several tasks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  createGoalAccessCheck,
+  requireUser,
+} from '@/lib/api/server/authorization';
+import { loadDorDodState } from '@/lib/api/server/dor-dod';
+import { internalError, parseBody } from '@/lib/api/server/responses';
+import { bulkTaskStatusSchema } from '@/lib/api/server/task-schemas';
+import { getDorDodGate } from '@/lib/api/shared/dor-dod';
+import {
+  deriveCompletion,
+  deriveStatusHistory,
+} from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+import type { Task } from '@/types/smart-goals.types';
+
+/**
+ * @swagger
+ * /api/tasks/bulk/status:
+ *   post:
+ *     summary: Update the status of several tasks
+ *     description: >
+ *       Tasks that cannot be updated are reported in `errors`; the rest are
+ *       still updated. Tasks whose DoR/DoD blocks the new status are
+ *       reported too, since bulk changes cannot override it.
+ *     tags: [Tasks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids, status]
+ *             properties:
+ *               ids: { type: array, items: { type: string } }
+ *               status: { type: string, enum: [todo, in_progress, completed, blocked, cancelled] }
+ *     responses:
+ *       200:
+ *         description: Updated tasks and per-task errors
+ *         content:
+ *           application/json:
+ *             schema: { $ref: '#/components/schemas/BulkTaskResponse' }
+ *       400:
+ *         description: Validation failed
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (auth.response) return auth.response;
+    const user = auth.data;
+    const canEdit = createGoalAccessCheck(user.id, 'manage_tasks');
+
+    const parsed = await parseBody(request, bulkTaskStatusSchema);
+    if (parsed.response) return parsed.response;
+
+    const { ids, status } = parsed.data;
+    const db = getDatabase();
+    const tasks: Task[] = [];
+    const errors: Array<{ id: string; error: string }> = [];
+
+    for (const id of ids) {
+      const existingTask = await db.tasks.findById(id);
+      if (!existingTask || existingTask.isDeleted) {
+        errors.push({ id, error: `Task with id "${id}" not found` });
+        continue;
+      }
+      if (!(await canEdit(existingTask.goalId))) {
+        errors.push({
+          id,
+          error: 'You do not have permission to change this task',
+        });
+        continue;
+      }
+
+      const gate = getDorDodGate(
+        await loadDorDodState({ type: 'task', id }, existingTask.goalId),
+        existingTask.status,
+        status,
+        {
+          goal: (await db.goals.findById(existingTask.goalId)) ?? undefined,
+          task: existingTask,
+        }
+      );
+      if (gate) {
+        errors.push({ id, error: gate.message });
+        continue;
+      }
+
+      const now = new Date();
+      const updatedTask = await db.tasks.update(id, {
+        status,
+        ...deriveCompletion(existingTask, { status }, now),
+        ...deriveStatusHistory(existingTask, { status }, user.id, now),
+        updatedAt: now,
+        updatedBy: user.id,
+      });
+      if (updatedTask) tasks.push(updatedTask);
+    }
+
+    return NextResponse.json({ tasks, errors });
+  } catch (error) {
+    return internalError('Failed to update task statuses', error);
+  }
+}
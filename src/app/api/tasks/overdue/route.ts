@@ -0,0 +1,69 @@
+/**
+ * Overdue Tasks API Route
+ *
+ * - GET /api/tasks/overdue - List overdue tasks, optionally for one goal
+ *
+ * Only tasks of goals the caller may view are listed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  authorizeGoal,
+  createGoalAccessCheck,
+  getCurrentUser,
+} from '@/lib/api/server/authorization';
+import { internalError } from '@/lib/api/server/responses';
+import { isTaskOverdue } from '@/lib/api/shared/tasks';
+import { getDatabase } from '@/lib/db';
+import type { Task } from '@/types/smart-goals.types';
+
+/**
+ * @swagger
+ * /api/tasks/overdue:
+ *   get:
+ *     summary: List overdue tasks
+ *     description: Tasks past their due date that are not completed
+ *     tags: [Tasks]
+ *     parameters:
+ *       - { in: query, name: goalId, schema: { type: string } }
+ *     responses:
+ *       200:
+ *         description: Overdue tasks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items: { $ref: '#/components/schemas/Task' }
+ *       401: { $ref: '#/components/responses/Unauthorized' }
+ *       403: { $ref: '#/components/responses/Forbidden' }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const goalId = searchParams.get('goalId');
+    const db = getDatabase();
+
+    const now = new Date();
+    let candidates: Task[];
+
+    if (goalId) {
+      const access = await authorizeGoal(request, goalId, 'view');
+      if (access.response) return access.response;
+      candidates = await db.tasks.listByGoal(goalId);
+    } else {
+      const user = await getCurrentUser(request);
+      const canView = createGoalAccessCheck(user?.id ?? null, 'view');
+      candidates = [];
+      for (const task of await db.tasks.list()) {
+        if (await canView(task.goalId)) candidates.push(task);
+      }
+    }
+
+    const overdue = candidates.filter(task => isTaskOverdue(task, now));
+
+    return NextResponse.json(overdue);
+  } catch (error) {
+    return internalError('Failed to fetch overdue tasks', error);
+  }
+}
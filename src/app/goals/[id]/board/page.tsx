@@ -2,39 +2,110 @@
  * Goal Board View Page
  *
  * Kanban board view for goal tasks with drag-and-drop functionality,
- * filtering, swimlanes, and task management capabilities.
+ * filtering, swimlanes, and task management capabilities. Cards move
+ * between columns only along the task status transitions; moves show up
+ * right away and are rolled back when they cannot be saved.
  */
 
 'use client';
 
 import {
-  Plus,
-  Filter,
-  Calendar,
-  Clock,
+  closestCorners,
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import {
+  AlertCircle,
   AlertTriangle,
+  ArrowRight,
+  BarChart3,
+  Calendar,
   CheckCircle,
   Circle,
-  MoreHorizontal,
+  Clock,
   Edit,
-  Trash2,
   Eye,
+  Filter,
+  Gauge,
+  Loader2,
+  MoreHorizontal,
+  Plus,
+  Trash2,
 } from 'lucide-react';
-import React, { useState, useCallback } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
 
 import { TaskEditor } from '@/components/TaskEditor/TaskEditor';
-import { TaskEditorMode } from '@/components/TaskEditor/TaskEditor.types';
+import {
+  STATUS_TRANSITIONS,
+  TaskEditorMode,
+  type StatusChangeConfirmation,
+} from '@/components/TaskEditor/TaskEditor.types';
+import { getStatusChangeConfirmation } from '@/components/TaskEditor/TaskEditor.utils';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent } from '@/components/ui/card';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import {
   Select,
@@ -44,18 +115,55 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-import { mockGoals } from '@/lib/mock-data/smart-goals';
-import { TaskStatus, GoalPriority } from '@/types/smart-goals.types';
-import type { SmartGoal, Task } from '@/types/smart-goals.types';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { useGoalPermissions } from '@/hooks/useGoalPermissions';
+import {
+  dorDodApi,
+  getDorDodGateError,
+  type DorDodGateError,
+  type StatusChangeOptions,
+} from '@/lib/api/dor-dod';
+import { goalsApi } from '@/lib/api/goals';
+import {
+  BOARD_STATUS_LABELS,
+  getBoardMoveError,
+  getWipBreachWarning,
+  getWipState,
+  groupTasksByStatus,
+  planBoardMove,
+  type BoardMove,
+  type WipLimits,
+  type WipState,
+} from '@/lib/api/shared/board';
+import {
+  canOverrideDorDod,
+  DOR_DOD_DEFINITION_LABELS,
+  getDorDodGate,
+  toDorDodGateError,
+} from '@/lib/api/shared/dor-dod';
+import {
+  computeFlowMetrics,
+  CUMULATIVE_FLOW_STATUSES,
+  formatDays,
+} from '@/lib/api/shared/flow-metrics';
+import { tasksApi, type UpdateTaskRequest } from '@/lib/api/tasks';
+import type { StoredDorDodState } from '@/types/dor-dod.types';
+import {
+  GoalPriority,
+  TaskStatus,
+  type SmartGoal,
+  type Task,
+} from '@/types/smart-goals.types';
 
 // =============================================================================
 // Types and Interfaces
 // =============================================================================
 
 interface BoardPageProps {
-  params: {
+  params: Promise<{
     id: string;
-  };
+  }>;
 }
 
 interface Column {
@@ -74,6 +182,30 @@ interface BoardFilters {
 
 type SwimlaneMode = 'none' | 'assignee' | 'milestone' | 'priority';
 
+/** What a card can be dropped on */
+type DropTarget =
+  | { type: 'column'; status: TaskStatus }
+  | { type: 'task'; status: TaskStatus };
+
+/** A move waiting for the user to confirm the status change */
+interface PendingMove {
+  move: BoardMove;
+  taskTitle: string;
+  confirmation: StatusChangeConfirmation;
+}
+
+/** A move that open DoR/DoD criteria of the task keep from happening */
+interface GatedMove {
+  move: BoardMove;
+  taskTitle: string;
+  gate: DorDodGateError;
+}
+
+/** The task editor dialog */
+type EditorState =
+  | { mode: TaskEditorMode.CREATE }
+  | { mode: TaskEditorMode.EDIT | TaskEditorMode.VIEW; task: Task };
+
 // =============================================================================
 // Constants
 // =============================================================================
@@ -81,45 +213,48 @@ type SwimlaneMode = 'none' | 'assignee' | 'milestone' | 'priority';
 const COLUMNS: Column[] = [
   {
     id: TaskStatus.TODO,
-    title: 'To Do',
+    title: BOARD_STATUS_LABELS[TaskStatus.TODO],
     color: 'bg-gray-100 dark:bg-gray-800',
     icon: Circle,
   },
   {
     id: TaskStatus.IN_PROGRESS,
-    title: 'In Progress',
+    title: BOARD_STATUS_LABELS[TaskStatus.IN_PROGRESS],
     color: 'bg-blue-100 dark:bg-blue-800',
     icon: Clock,
   },
   {
     id: TaskStatus.COMPLETED,
-    title: 'Completed',
+    title: BOARD_STATUS_LABELS[TaskStatus.COMPLETED],
     color: 'bg-green-100 dark:bg-green-800',
     icon: CheckCircle,
   },
   {
     id: TaskStatus.BLOCKED,
-    title: 'Blocked',
+    title: BOARD_STATUS_LABELS[TaskStatus.BLOCKED],
     color: 'bg-red-100 dark:bg-red-800',
     icon: AlertTriangle,
   },
   {
     id: TaskStatus.CANCELLED,
-    title: 'Cancelled',
+    title: BOARD_STATUS_LABELS[TaskStatus.CANCELLED],
     color: 'bg-gray-200 dark:bg-gray-700',
     icon: Circle,
   },
 ];
 
+/** Column count badge colours by WIP state */
+const WIP_BADGE_CLASSES: Record<WipState, string> = {
+  none: '',
+  under: '',
+  at: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300',
+  over: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+};
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
-async function getGoal(id: string): Promise<SmartGoal | null> {
-  // TODO: Replace with actual API call
-  return mockGoals.find((goal: SmartGoal) => goal.id === id) || null;
-}
-
 const getPriorityColor = (priority: GoalPriority): string => {
   switch (priority) {
     case GoalPriority.CRITICAL:
@@ -139,7 +274,7 @@ const formatDate = (date: Date): string => {
   return new Intl.DateTimeFormat('en-US', {
     month: 'short',
     day: 'numeric',
-  }).format(date);
+  }).format(new Date(date));
 };
 
 const isOverdue = (date?: Date): boolean => {
@@ -155,6 +290,26 @@ const getDaysUntilDue = (date?: Date): number => {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 };
 
+/** Fields of an edited task that are sent back to the API */
+const toTaskUpdate = (task: Task): UpdateTaskRequest => ({
+  title: task.title,
+  description: task.description,
+  priority: task.priority,
+  assignedTo: task.assignedTo,
+  estimatedHours: task.estimatedHours,
+  actualHours: task.actualHours,
+  dueDate: task.dueDate,
+  startDate: task.startDate,
+  tags: task.tags,
+  dependencies: task.dependencies,
+  notes: task.notes,
+});
+
+const replaceTasks = (tasks: Task[], replacements: Task[]): Task[] => {
+  const byId = new Map(replacements.map(task => [task.id, task]));
+  return tasks.map(task => byId.get(task.id) ?? task);
+};
+
 // =============================================================================
 // Components
 // =============================================================================
@@ -165,6 +320,7 @@ interface TaskCardProps {
   onDelete?: (task: Task) => void;
   onView?: (task: Task) => void;
   onStatusChange?: (taskId: string, newStatus: TaskStatus) => void;
+  isOverlay?: boolean;
 }
 
 const TaskCard: React.FC<TaskCardProps> = ({
@@ -172,23 +328,29 @@ const TaskCard: React.FC<TaskCardProps> = ({
   onEdit,
   onDelete,
   onView,
-  onStatusChange: _onStatusChange
+  onStatusChange,
+  isOverlay = false,
 }) => {
   const daysUntil = getDaysUntilDue(task.dueDate);
   const overdue = isOverdue(task.dueDate);
+  const transitions = STATUS_TRANSITIONS[task.status];
 
   return (
-    <Card className="group hover:shadow-md transition-shadow cursor-grab active:cursor-grabbing">
+    <Card
+      className={`group cursor-grab transition-shadow hover:shadow-md active:cursor-grabbing ${
+        isOverlay ? 'rotate-2 shadow-lg' : ''
+      }`}
+    >
       <CardContent className="p-4">
         <div className="space-y-3">
           {/* Header */}
           <div className="flex items-start justify-between">
-            <div className="flex-1 min-w-0">
-              <h4 className="font-medium text-sm line-clamp-2 group-hover:text-primary">
+            <div className="min-w-0 flex-1">
+              <h4 className="group-hover:text-primary line-clamp-2 text-sm font-medium">
                 {task.title}
               </h4>
               {task.description && (
-                <p className="text-xs text-muted-foreground line-clamp-2 mt-1">
+                <p className="text-muted-foreground mt-1 line-clamp-2 text-xs">
                   {task.description}
                 </p>
               )}
@@ -196,34 +358,66 @@ const TaskCard: React.FC<TaskCardProps> = ({
 
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
-                <Button variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="opacity-0 group-hover:opacity-100"
+                  aria-label={`Actions for ${task.title}`}
+                  onPointerDown={event => event.stopPropagation()}
+                >
                   <MoreHorizontal className="h-4 w-4" />
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
                 <DropdownMenuItem onClick={() => onView?.(task)}>
-                  <Eye className="h-4 w-4 mr-2" />
+                  <Eye className="mr-2 h-4 w-4" />
                   View Details
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => onEdit?.(task)}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit Task
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem
-                  onClick={() => onDelete?.(task)}
-                  className="text-red-600"
-                >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete
-                </DropdownMenuItem>
+                {onEdit && (
+                  <DropdownMenuItem onClick={() => onEdit(task)}>
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit Task
+                  </DropdownMenuItem>
+                )}
+                {onStatusChange && transitions.length > 0 && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel className="text-muted-foreground text-xs">
+                      Move to
+                    </DropdownMenuLabel>
+                    {transitions.map(status => (
+                      <DropdownMenuItem
+                        key={status}
+                        onClick={() => onStatusChange(task.id, status)}
+                      >
+                        <ArrowRight className="mr-2 h-4 w-4" />
+                        {BOARD_STATUS_LABELS[status]}
+                      </DropdownMenuItem>
+                    ))}
+                  </>
+                )}
+                {onDelete && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() => onDelete(task)}
+                      className="text-red-600"
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
 
           {/* Priority & Tags */}
           <div className="flex items-center space-x-2">
-            <Badge variant="outline" className={getPriorityColor(task.priority)}>
+            <Badge
+              variant="outline"
+              className={getPriorityColor(task.priority)}
+            >
               {task.priority}
             </Badge>
             {task.tags && task.tags.length > 0 && (
@@ -248,20 +442,22 @@ const TaskCard: React.FC<TaskCardProps> = ({
           <div className="flex items-center justify-between text-xs">
             <div className="flex items-center space-x-2">
               {task.dueDate && (
-                <div className={`flex items-center space-x-1 ${
-                  overdue ? 'text-red-600' :
-                  daysUntil <= 1 ? 'text-orange-600' :
-                  'text-muted-foreground'
-                }`}>
+                <div
+                  className={`flex items-center space-x-1 ${
+                    overdue
+                      ? 'text-red-600'
+                      : daysUntil <= 1
+                        ? 'text-orange-600'
+                        : 'text-muted-foreground'
+                  }`}
+                >
                   <Calendar className="h-3 w-3" />
-                  <span>
-                    {overdue ? 'Overdue' : formatDate(task.dueDate)}
-                  </span>
+                  <span>{overdue ? 'Overdue' : formatDate(task.dueDate)}</span>
                 </div>
               )}
 
               {task.estimatedHours && (
-                <div className="flex items-center space-x-1 text-muted-foreground">
+                <div className="text-muted-foreground flex items-center space-x-1">
                   <Clock className="h-3 w-3" />
                   <span>{task.estimatedHours}h</span>
                 </div>
@@ -270,7 +466,9 @@ const TaskCard: React.FC<TaskCardProps> = ({
 
             {task.assignedTo && (
               <Avatar className="h-5 w-5">
-                <AvatarImage src={`https://api.dicebear.com/7.x/avatars/svg?seed=${task.assignedTo}`} />
+                <AvatarImage
+                  src={`https://api.dicebear.com/7.x/avatars/svg?seed=${task.assignedTo}`}
+                />
                 <AvatarFallback className="text-xs">
                   {task.assignedTo.slice(0, 2).toUpperCase()}
                 </AvatarFallback>
@@ -283,9 +481,49 @@ const TaskCard: React.FC<TaskCardProps> = ({
   );
 };
 
+/** A task card that can be dragged within and between columns */
+const SortableTaskCard: React.FC<TaskCardProps & { canDrag: boolean }> = ({
+  canDrag,
+  ...props
+}) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
+    id: props.task.id,
+    data: { type: 'task', status: props.task.status } satisfies DropTarget,
+    disabled: !canDrag,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+      }}
+      className={isDragging ? 'opacity-40' : undefined}
+      {...attributes}
+      {...listeners}
+    >
+      <TaskCard {...props} />
+    </div>
+  );
+};
+
 interface KanbanColumnProps {
   column: Column;
   tasks: Task[];
+  /** Status of the card being dragged, if any */
+  draggedStatus: TaskStatus | null;
+  /** Tasks in the column before filtering, counted against the WIP limit */
+  wipCount: number;
+  wipLimit?: number;
+  canDrag: boolean;
   onTaskEdit?: (task: Task) => void;
   onTaskDelete?: (task: Task) => void;
   onTaskView?: (task: Task) => void;
@@ -296,65 +534,121 @@ interface KanbanColumnProps {
 const KanbanColumn: React.FC<KanbanColumnProps> = ({
   column,
   tasks,
+  draggedStatus,
+  wipCount,
+  wipLimit,
+  canDrag,
   onTaskEdit,
   onTaskDelete,
   onTaskView,
   onStatusChange,
-  onAddTask
+  onAddTask,
 }) => {
   const Icon = column.icon;
+  const { setNodeRef, isOver } = useDroppable({
+    id: `column:${column.id}`,
+    data: { type: 'column', status: column.id } satisfies DropTarget,
+  });
+
+  // While a card is dragged, columns it may not enter are dimmed
+  const isClosed =
+    draggedStatus !== null &&
+    getBoardMoveError({ status: draggedStatus }, column.id) !== null;
+  const wipState = getWipState(wipCount, wipLimit);
 
   return (
-    <div className="flex-1 min-w-[300px]">
-      <div className={`rounded-lg ${column.color} p-4 h-full`}>
+    <div className="min-w-[300px] flex-1">
+      <div
+        ref={setNodeRef}
+        className={`rounded-lg ${column.color} h-full p-4 transition-opacity ${
+          isClosed ? 'opacity-40' : ''
+        } ${isOver && !isClosed ? 'ring-primary ring-2' : ''} ${
+          wipState === 'over' ? 'border-2 border-red-500' : ''
+        }`}
+        aria-disabled={isClosed}
+      >
         {/* Column Header */}
-        <div className="flex items-center justify-between mb-4">
+        <div className="mb-4 flex items-center justify-between">
           <div className="flex items-center space-x-2">
             <Icon className="h-4 w-4" />
             <h3 className="font-semibold">{column.title}</h3>
-            <Badge variant="secondary" className="text-xs">
-              {tasks.length}
+            <Badge
+              variant="secondary"
+              className={`text-xs ${WIP_BADGE_CLASSES[wipState]}`}
+              title={
+                wipLimit === undefined ? undefined : `WIP limit: ${wipLimit}`
+              }
+            >
+              {wipLimit === undefined
+                ? tasks.length
+                : `${wipCount} / ${wipLimit}`}
             </Badge>
           </div>
 
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onAddTask?.(column.id)}
-            className="opacity-60 hover:opacity-100"
-          >
-            <Plus className="h-4 w-4" />
-          </Button>
+          {onAddTask && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onAddTask(column.id)}
+              className="opacity-60 hover:opacity-100"
+              aria-label={`Add task to ${column.title}`}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          )}
         </div>
 
+        {wipState === 'over' && wipLimit !== undefined && (
+          <div
+            role="alert"
+            className="mb-3 flex items-center space-x-2 rounded-md bg-red-50 px-2 py-1 text-xs text-red-700 dark:bg-red-950 dark:text-red-300"
+          >
+            <AlertTriangle className="h-3 w-3" />
+            <span>
+              WIP limit exceeded by {wipCount - wipLimit}; finish work before
+              starting more
+            </span>
+          </div>
+        )}
+
         {/* Tasks */}
-        <div className="space-y-3 max-h-[calc(100vh-300px)] overflow-y-auto">
-          {tasks.map((task) => (
-            <TaskCard
-              key={task.id}
-              task={task}
-              onEdit={onTaskEdit}
-              onDelete={onTaskDelete}
-              onView={onTaskView}
-              onStatusChange={onStatusChange}
-            />
-          ))}
+        <SortableContext
+          items={tasks.map(task => task.id)}
+          strategy={verticalListSortingStrategy}
+        >
+          <div className="max-h-[calc(100vh-300px)] min-h-[80px] space-y-3 overflow-y-auto">
+            {tasks.map(task => (
+              <SortableTaskCard
+                key={task.id}
+                task={task}
+                canDrag={canDrag}
+                onEdit={onTaskEdit}
+                onDelete={onTaskDelete}
+                onView={onTaskView}
+                onStatusChange={onStatusChange}
+              />
+            ))}
 
-          {tasks.length === 0 && (
-            <div className="text-center py-8 text-muted-foreground">
-              <Circle className="h-8 w-8 mx-auto mb-2 opacity-50" />
-              <p className="text-sm">No tasks in {column.title.toLowerCase()}</p>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => onAddTask?.(column.id)}
-                className="mt-2"
-              >
-                Add Task
-              </Button>
-            </div>
-          )}
-        </div>
+            {tasks.length === 0 && (
+              <div className="text-muted-foreground py-8 text-center">
+                <Circle className="mx-auto mb-2 h-8 w-8 opacity-50" />
+                <p className="text-sm">
+                  No tasks in {column.title.toLowerCase()}
+                </p>
+                {onAddTask && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onAddTask(column.id)}
+                    className="mt-2"
+                  >
+                    Add Task
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </SortableContext>
       </div>
     </div>
   );
@@ -365,6 +659,10 @@ interface BoardToolbarProps {
   onFiltersChange: (filters: BoardFilters) => void;
   swimlaneMode: SwimlaneMode;
   onSwimlaneModeChange: (mode: SwimlaneMode) => void;
+  onAddTask?: () => void;
+  showFlowMetrics: boolean;
+  onToggleFlowMetrics: () => void;
+  onEditWipLimits?: () => void;
   goal: SmartGoal;
 }
 
@@ -373,28 +671,32 @@ const BoardToolbar: React.FC<BoardToolbarProps> = ({
   onFiltersChange,
   swimlaneMode,
   onSwimlaneModeChange,
-  goal
+  onAddTask,
+  showFlowMetrics,
+  onToggleFlowMetrics,
+  onEditWipLimits,
+  goal,
 }) => {
-  const uniqueAssignees = Array.from(new Set(
-    goal.tasks.map(task => task.assignedTo).filter(Boolean)
-  ));
+  const uniqueAssignees = Array.from(
+    new Set(goal.tasks.map(task => task.assignedTo).filter(Boolean))
+  );
 
   return (
-    <div className="flex items-center justify-between bg-background border rounded-lg p-4 mb-6">
+    <div className="bg-background mb-6 flex items-center justify-between rounded-lg border p-4">
       <div className="flex items-center space-x-4">
         <h2 className="text-lg font-semibold">Task Board</h2>
         <Separator orientation="vertical" className="h-6" />
 
         {/* Filters */}
         <div className="flex items-center space-x-2">
-          <Filter className="h-4 w-4 text-muted-foreground" />
+          <Filter className="text-muted-foreground h-4 w-4" />
 
           <Select
             value={filters.assignee || 'all'}
-            onValueChange={(value) =>
+            onValueChange={value =>
               onFiltersChange({
                 ...filters,
-                assignee: value === 'all' ? undefined : value
+                assignee: value === 'all' ? undefined : value,
               })
             }
           >
@@ -413,10 +715,10 @@ const BoardToolbar: React.FC<BoardToolbarProps> = ({
 
           <Select
             value={filters.priority || 'all'}
-            onValueChange={(value) =>
+            onValueChange={value =>
               onFiltersChange({
                 ...filters,
-                priority: value === 'all' ? undefined : value as GoalPriority
+                priority: value === 'all' ? undefined : (value as GoalPriority),
               })
             }
           >
@@ -434,10 +736,17 @@ const BoardToolbar: React.FC<BoardToolbarProps> = ({
 
           <Select
             value={filters.dueDate || 'all'}
-            onValueChange={(value) =>
+            onValueChange={value =>
               onFiltersChange({
                 ...filters,
-                dueDate: value === 'all' ? undefined : value as 'overdue' | 'today' | 'this_week' | 'next_week'
+                dueDate:
+                  value === 'all'
+                    ? undefined
+                    : (value as
+                        | 'overdue'
+                        | 'today'
+                        | 'this_week'
+                        | 'next_week'),
               })
             }
           >
@@ -458,8 +767,11 @@ const BoardToolbar: React.FC<BoardToolbarProps> = ({
       <div className="flex items-center space-x-4">
         {/* Swimlanes */}
         <div className="flex items-center space-x-2">
-          <span className="text-sm text-muted-foreground">Group by:</span>
-          <Select value={swimlaneMode} onValueChange={(value) => onSwimlaneModeChange(value as SwimlaneMode)}>
+          <span className="text-muted-foreground text-sm">Group by:</span>
+          <Select
+            value={swimlaneMode}
+            onValueChange={value => onSwimlaneModeChange(value as SwimlaneMode)}
+          >
             <SelectTrigger className="w-32">
               <SelectValue />
             </SelectTrigger>
@@ -472,91 +784,748 @@ const BoardToolbar: React.FC<BoardToolbarProps> = ({
           </Select>
         </div>
 
-        <Button>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Task
+        <Button
+          variant={showFlowMetrics ? 'secondary' : 'outline'}
+          onClick={onToggleFlowMetrics}
+          aria-pressed={showFlowMetrics}
+        >
+          <BarChart3 className="mr-2 h-4 w-4" />
+          Flow
         </Button>
+
+        {onEditWipLimits && (
+          <Button variant="outline" onClick={onEditWipLimits}>
+            <Gauge className="mr-2 h-4 w-4" />
+            WIP Limits
+          </Button>
+        )}
+
+        {onAddTask && (
+          <Button onClick={onAddTask}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Task
+          </Button>
+        )}
       </div>
     </div>
   );
 };
 
+interface WipLimitsDialogProps {
+  open: boolean;
+  limits: WipLimits;
+  onSave: (limits: WipLimits) => Promise<void>;
+  onClose: () => void;
+}
+
+const WipLimitsDialog: React.FC<WipLimitsDialogProps> = ({
+  open,
+  limits,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<Partial<Record<TaskStatus, string>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      Object.fromEntries(
+        Object.entries(limits).map(([status, limit]) => [status, String(limit)])
+      )
+    );
+  }, [limits, open]);
+
+  // Empty fields clear the limit; anything else must be a whole number >= 1
+  const parsed = Object.entries(draft).reduce<WipLimits | null>(
+    (result, [status, value]) => {
+      if (!result || !value?.trim()) return result;
+      const limit = Number(value);
+      return Number.isInteger(limit) && limit >= 1
+        ? { ...result, [status]: limit }
+        : null;
+    },
+    {}
+  );
+
+  const handleSave = async () => {
+    if (!parsed) return;
+    setIsSaving(true);
+    try {
+      await onSave(parsed);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>WIP limits</DialogTitle>
+          <DialogDescription>
+            Most tasks each column should hold. Columns over their limit are
+            flagged on the board; leave a field empty for no limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {COLUMNS.map(column => (
+            <div
+              key={column.id}
+              className="flex items-center justify-between space-x-4"
+            >
+              <Label htmlFor={`wip-${column.id}`}>{column.title}</Label>
+              <Input
+                id={`wip-${column.id}`}
+                type="number"
+                min={1}
+                step={1}
+                placeholder="No limit"
+                className="w-28"
+                value={draft[column.id] ?? ''}
+                onChange={event =>
+                  setDraft(prev => ({
+                    ...prev,
+                    [column.id]: event.target.value,
+                  }))
+                }
+              />
+            </div>
+          ))}
+          {!parsed && (
+            <p className="text-sm text-red-600">
+              Limits must be whole numbers of at least 1.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!parsed || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Limits
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface DorDodGateDialogProps {
+  gatedMove: GatedMove | null;
+  canOverride: boolean;
+  onOverride: (move: BoardMove, reason: string) => void;
+  onClose: () => void;
+}
+
+/** Lists the open criteria blocking a move; owners can override them */
+const DorDodGateDialog: React.FC<DorDodGateDialogProps> = ({
+  gatedMove,
+  canOverride,
+  onOverride,
+  onClose,
+}) => {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setReason('');
+  }, [gatedMove]);
+
+  return (
+    <Dialog open={gatedMove !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            &ldquo;{gatedMove?.taskTitle}&rdquo; cannot move to{' '}
+            {gatedMove && BOARD_STATUS_LABELS[gatedMove.move.toStatus]} yet
+          </DialogTitle>
+          <DialogDescription>{gatedMove?.gate.message}</DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-1 text-sm">
+          {gatedMove?.gate.blockingCriteria.map(criterion => (
+            <li key={criterion.id} className="flex items-start space-x-2">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+              <span>
+                {criterion.description}
+                <span className="text-muted-foreground ml-1">
+                  ({DOR_DOD_DEFINITION_LABELS[criterion.definition]})
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {canOverride ? (
+          <div className="space-y-2">
+            <Label htmlFor="dor-dod-override-reason">Override reason</Label>
+            <Textarea
+              id="dor-dod-override-reason"
+              value={reason}
+              onChange={event => setReason(event.target.value)}
+              placeholder="Why the task may move anyway; kept in the audit log"
+              rows={3}
+            />
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            Complete these criteria first, or ask the goal owner to override
+            them.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {canOverride ? 'Cancel' : 'Close'}
+          </Button>
+          {canOverride && gatedMove && (
+            <Button
+              variant="destructive"
+              disabled={!reason.trim()}
+              onClick={() => onOverride(gatedMove.move, reason.trim())}
+            >
+              Override and Move
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const FLOW_COLORS: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: '#9ca3af',
+  [TaskStatus.IN_PROGRESS]: '#3b82f6',
+  [TaskStatus.BLOCKED]: '#ef4444',
+  [TaskStatus.CANCELLED]: '#6b7280',
+  [TaskStatus.COMPLETED]: '#22c55e',
+};
+
+interface FlowMetricsPanelProps {
+  tasks: Task[];
+}
+
+const FlowMetricsPanel: React.FC<FlowMetricsPanelProps> = ({ tasks }) => {
+  const metrics = useMemo(() => computeFlowMetrics(tasks), [tasks]);
+
+  const throughputData = metrics.throughput.map(point => ({
+    week: formatDate(point.weekStart),
+    completed: point.completed,
+  }));
+  const flowData = metrics.cumulativeFlow.map(point => ({
+    date: formatDate(point.date),
+    ...point.counts,
+  }));
+
+  const stats = [
+    {
+      label: 'Lead time',
+      hint: 'Created to completed',
+      summary: metrics.leadTime,
+    },
+    {
+      label: 'Cycle time',
+      hint: 'Started to completed',
+      summary: metrics.cycleTime,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Flow Metrics</CardTitle>
+        <CardDescription>
+          Built from the status history of this goal&apos;s tasks
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          {stats.map(({ label, hint, summary }) => (
+            <div key={label} className="rounded-lg border p-3">
+              <div className="text-muted-foreground text-xs">{hint}</div>
+              <div className="text-sm font-medium">{label}</div>
+              <div className="text-2xl font-semibold">
+                {formatDays(summary.average)}
+              </div>
+              <div className="text-muted-foreground text-xs">
+                Median {formatDays(summary.median)} across {summary.count}{' '}
+                {summary.count === 1 ? 'task' : 'tasks'}
+              </div>
+            </div>
+          ))}
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground text-xs">
+              Completed per week
+            </div>
+            <div className="text-sm font-medium">Throughput</div>
+            <div className="text-2xl font-semibold">
+              {Math.round(metrics.averageThroughput * 10) / 10}
+            </div>
+            <div className="text-muted-foreground text-xs">
+              Average over the last {metrics.throughput.length} weeks
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div>
+            <h4 className="mb-2 text-sm font-medium">Weekly throughput</h4>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={throughputData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="week" fontSize={12} />
+                <YAxis allowDecimals={false} fontSize={12} />
+                <Tooltip />
+                <Bar
+                  dataKey="completed"
+                  name="Completed"
+                  fill={FLOW_COLORS[TaskStatus.COMPLETED]}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div>
+            <h4 className="mb-2 text-sm font-medium">Cumulative flow</h4>
+            <ResponsiveContainer width="100%" height={220}>
+              <AreaChart data={flowData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" fontSize={12} minTickGap={16} />
+                <YAxis allowDecimals={false} fontSize={12} />
+                <Tooltip />
+                <Legend />
+                {CUMULATIVE_FLOW_STATUSES.map(status => (
+                  <Area
+                    key={status}
+                    type="monotone"
+                    dataKey={status}
+                    name={BOARD_STATUS_LABELS[status]}
+                    stackId="flow"
+                    stroke={FLOW_COLORS[status]}
+                    fill={FLOW_COLORS[status]}
+                    fillOpacity={0.6}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
 // =============================================================================
 // Main Board Page Component
 // =============================================================================
 
 export default function GoalBoardPage({ params }: BoardPageProps) {
-  const [goal, setGoal] = React.useState<SmartGoal | null>(null);
+  const [id, setId] = useState('');
+  const [goal, setGoal] = useState<SmartGoal | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [filters, setFilters] = useState<BoardFilters>({});
   const [swimlaneMode, setSwimlaneMode] = useState<SwimlaneMode>('none');
-  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [gatedMove, setGatedMove] = useState<GatedMove | null>(null);
+  const [dorDodStates, setDorDodStates] = useState<
+    Record<string, StoredDorDodState>
+  >({});
+  const [pendingDelete, setPendingDelete] = useState<Task | null>(null);
+  const [showFlowMetrics, setShowFlowMetrics] = useState(false);
+  const [isWipDialogOpen, setIsWipDialogOpen] = useState(false);
+  const { user, can } = useGoalPermissions(goal);
+  const canManageTasks = can('manage_tasks');
+  const canEditGoal = can('edit_goal');
+  const wipLimits = useMemo(() => goal?.board?.wipLimits ?? {}, [goal]);
+  const canOverride = !!goal && canOverrideDorDod(goal, user?.id ?? null);
+
+  const sensors = useSensors(
+    // A short drag distance keeps clicks on card menus working
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  useEffect(() => {
+    params.then(p => setId(p.id));
+  }, [params]);
 
   // Load goal data
-  React.useEffect(() => {
-    const loadGoal = async () => {
-      const goalData = await getGoal(params.id);
-      if (goalData) {
-        setGoal(goalData);
-      }
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    goalsApi
+      .getGoal(id)
+      .then(goalData => {
+        if (!cancelled) setGoal(goalData);
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError((error as Error).message);
+      });
+
+    // DoR/DoD lets the board explain blocked moves up front; the server
+    // enforces it either way, so the board works without it
+    dorDodApi
+      .listStates({ goalId: id, targetType: 'task' })
+      .then(states => {
+        if (cancelled) return;
+        setDorDodStates(
+          Object.fromEntries(states.map(state => [state.targetId, state]))
+        );
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
     };
+  }, [id]);
 
-    loadGoal();
-  }, [params.id]);
+  const setTasks = useCallback((update: (tasks: Task[]) => Task[]) => {
+    setGoal(prev => (prev ? { ...prev, tasks: update(prev.tasks) } : prev));
+  }, []);
 
   // Filter tasks based on current filters
-  const filterTasks = useCallback((tasks: Task[]): Task[] => {
-    return tasks.filter(task => {
-      if (filters.assignee && task.assignedTo !== filters.assignee) return false;
-      if (filters.priority && task.priority !== filters.priority) return false;
-
-      if (filters.dueDate && task.dueDate) {
-        const daysUntil = getDaysUntilDue(task.dueDate);
-        switch (filters.dueDate) {
-          case 'overdue':
-            if (daysUntil >= 0) return false;
-            break;
-          case 'today':
-            if (daysUntil !== 0) return false;
-            break;
-          case 'this_week':
-            if (daysUntil > 7 || daysUntil < 0) return false;
-            break;
-          case 'next_week':
-            if (daysUntil > 14 || daysUntil <= 7) return false;
-            break;
+  const filterTasks = useCallback(
+    (tasks: Task[]): Task[] => {
+      return tasks.filter(task => {
+        if (filters.assignee && task.assignedTo !== filters.assignee)
+          return false;
+        if (filters.priority && task.priority !== filters.priority)
+          return false;
+
+        if (filters.dueDate && task.dueDate) {
+          const daysUntil = getDaysUntilDue(task.dueDate);
+          switch (filters.dueDate) {
+            case 'overdue':
+              if (daysUntil >= 0) return false;
+              break;
+            case 'today':
+              if (daysUntil !== 0) return false;
+              break;
+            case 'this_week':
+              if (daysUntil > 7 || daysUntil < 0) return false;
+              break;
+            case 'next_week':
+              if (daysUntil > 14 || daysUntil <= 7) return false;
+              break;
+          }
+        }
+
+        return true;
+      });
+    },
+    [filters]
+  );
+
+  const columns = useMemo(
+    () => groupTasksByStatus(goal ? filterTasks(goal.tasks) : []),
+    [filterTasks, goal]
+  );
+
+  // WIP limits count every task in a column, whatever the filters hide
+  const wipCounts = useMemo(
+    () => groupTasksByStatus(goal?.tasks ?? []),
+    [goal]
+  );
+
+  // ===========================================================================
+  // Moves
+  // ===========================================================================
+
+  // Show the move right away, then store it; undo it when storing fails
+  const persistMove = useCallback(
+    async (move: BoardMove, options?: StatusChangeOptions) => {
+      if (!goal) return;
+      const plan = planBoardMove(goal.tasks, move);
+      if (!plan || (!plan.statusChanged && !plan.taskOrder)) return;
+
+      let saved = goal.tasks;
+      setTasks(() => plan.tasks);
+
+      const wipWarning = getWipBreachWarning(goal.tasks, move, wipLimits);
+      if (wipWarning) {
+        toast({ title: 'WIP limit exceeded', description: wipWarning });
+      }
+
+      try {
+        if (plan.statusChanged) {
+          const updated = await tasksApi.updateTaskStatus(
+            move.taskId,
+            move.toStatus,
+            options
+          );
+          saved = replaceTasks(saved, [updated]);
+          setTasks(tasks => replaceTasks(tasks, [updated]));
         }
+        if (plan.taskOrder) {
+          const reordered = await tasksApi.reorderTasks(
+            goal.id,
+            plan.taskOrder
+          );
+          saved = replaceTasks(saved, reordered);
+          setTasks(tasks => replaceTasks(tasks, reordered));
+        }
+      } catch (error) {
+        setTasks(tasks => replaceTasks(tasks, saved));
+        const gate = getDorDodGateError(error);
+        const task = goal.tasks.find(item => item.id === move.taskId);
+        if (gate && task) {
+          setGatedMove({ move, taskTitle: task.title, gate });
+          return;
+        }
+        toast({
+          title: 'Could not move task',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
       }
+    },
+    [goal, setTasks, wipLimits]
+  );
 
-      return true;
-    });
-  }, [filters]);
+  // Check the status rules and ask before completing or cancelling
+  const requestMove = useCallback(
+    (move: BoardMove) => {
+      const task = goal?.tasks.find(item => item.id === move.taskId);
+      if (!task) return;
 
-  const handleTaskEdit = useCallback((task: Task) => {
-    setEditingTask(task);
+      const moveError = getBoardMoveError(task, move.toStatus);
+      if (moveError) {
+        toast({
+          title: 'Move not allowed',
+          description: moveError,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const state = dorDodStates[task.id];
+      const gate =
+        state &&
+        getDorDodGate(state, task.status, move.toStatus, {
+          goal: goal ?? undefined,
+          task,
+        });
+      if (gate) {
+        setGatedMove({
+          move,
+          taskTitle: task.title,
+          gate: toDorDodGateError(gate),
+        });
+        return;
+      }
+
+      if (task.status !== move.toStatus) {
+        const confirmation = getStatusChangeConfirmation(
+          task.status,
+          move.toStatus
+        );
+        if (confirmation.requiresConfirmation) {
+          setPendingMove({ move, taskTitle: task.title, confirmation });
+          return;
+        }
+        if (confirmation.warningMessage) {
+          toast({
+            title: `Moved to ${BOARD_STATUS_LABELS[move.toStatus]}`,
+            description: confirmation.warningMessage,
+          });
+        }
+      }
+
+      void persistMove(move);
+    },
+    [dorDodStates, goal, persistMove]
+  );
+
+  const handleDragStart = useCallback(({ active }: DragStartEvent) => {
+    setActiveTaskId(String(active.id));
   }, []);
 
-  const handleTaskDelete = useCallback((_task: Task) => {
-    // TODO: Implement task deletion
+  const handleDragEnd = useCallback(
+    ({ active, over }: DragEndEvent) => {
+      setActiveTaskId(null);
+      const target = over?.data.current as DropTarget | undefined;
+      if (!over || !target || over.id === active.id) return;
+
+      const taskId = String(active.id);
+      if (target.type === 'column') {
+        requestMove({ taskId, toStatus: target.status });
+        return;
+      }
+
+      // Dropped on a card: moving down a column lands below it, else above
+      const column = columns[target.status];
+      const overIndex = column.findIndex(task => task.id === over.id);
+      const activeIndex = column.findIndex(task => task.id === taskId);
+      const beforeTaskId =
+        activeIndex !== -1 && activeIndex < overIndex
+          ? column[overIndex + 1]?.id
+          : String(over.id);
+
+      requestMove({ taskId, toStatus: target.status, beforeTaskId });
+    },
+    [columns, requestMove]
+  );
+
+  const handleStatusChange = useCallback(
+    (taskId: string, newStatus: TaskStatus) => {
+      requestMove({ taskId, toStatus: newStatus });
+    },
+    [requestMove]
+  );
+
+  // ===========================================================================
+  // Task Actions
+  // ===========================================================================
+
+  const handleTaskEdit = useCallback((task: Task) => {
+    setEditor({ mode: TaskEditorMode.EDIT, task });
   }, []);
 
-  const handleTaskView = useCallback((_task: Task) => {
-    // TODO: Open task detail modal
+  const handleTaskView = useCallback((task: Task) => {
+    setEditor({ mode: TaskEditorMode.VIEW, task });
   }, []);
 
-  const handleStatusChange = useCallback((_taskId: string, _newStatus: TaskStatus) => {
-    // TODO: Update task status
+  const handleTaskDelete = useCallback((task: Task) => {
+    setPendingDelete(task);
   }, []);
 
-  const handleAddTask = useCallback((_status: TaskStatus) => {
-    // TODO: Add new task with status
+  // New tasks always start in To Do
+  const handleAddTask = useCallback(() => {
+    setEditor({ mode: TaskEditorMode.CREATE });
   }, []);
 
+  const handleSaveWipLimits = useCallback(
+    async (limits: WipLimits) => {
+      if (!goal) return;
+      try {
+        const updated = await goalsApi.updateGoal(goal.id, {
+          board: { ...goal.board, wipLimits: limits },
+        });
+        setGoal(prev =>
+          prev
+            ? { ...prev, board: updated.board ?? { wipLimits: limits } }
+            : prev
+        );
+        setIsWipDialogOpen(false);
+      } catch (error) {
+        toast({
+          title: 'Could not save WIP limits',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    [goal]
+  );
+
+  const confirmDelete = useCallback(async () => {
+    const task = pendingDelete;
+    setPendingDelete(null);
+    if (!task) return;
+
+    setTasks(tasks => tasks.filter(item => item.id !== task.id));
+    try {
+      await tasksApi.deleteTask(task.id);
+    } catch (error) {
+      setTasks(tasks => [...tasks, task].sort((a, b) => a.order - b.order));
+      toast({
+        title: 'Could not delete task',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  }, [pendingDelete, setTasks]);
+
+  const handleEditorSave = useCallback(
+    async (taskData: Task, options?: StatusChangeOptions) => {
+      if (!goal || !editor) return;
+
+      if (editor.mode === TaskEditorMode.CREATE) {
+        const created = await tasksApi.createTask({
+          goalId: goal.id,
+          title: taskData.title,
+          description: taskData.description,
+          priority: taskData.priority,
+          assignedTo: taskData.assignedTo,
+          estimatedHours: taskData.estimatedHours,
+          dueDate: taskData.dueDate,
+          startDate: taskData.startDate,
+          tags: taskData.tags,
+          dependencies: taskData.dependencies,
+        });
+        setTasks(tasks => [...tasks, created]);
+        setEditor(null);
+        return;
+      }
+
+      // Status changes from the editor follow the same rules as the board
+      const updates = toTaskUpdate(taskData);
+      const original = editor.task;
+      if (taskData.status && taskData.status !== original.status) {
+        const moveError = getBoardMoveError(original, taskData.status);
+        if (moveError) {
+          toast({
+            title: 'Status not changed',
+            description: moveError,
+            variant: 'destructive',
+          });
+        } else {
+          updates.status = taskData.status;
+        }
+      }
+
+      if (updates.status) {
+        updates.dorDodOverride = options?.dorDodOverride;
+      }
+
+      try {
+        const updated = await tasksApi.updateTask(original.id, updates);
+        setTasks(tasks => replaceTasks(tasks, [updated]));
+        setEditor(null);
+      } catch (error) {
+        const gate = getDorDodGateError(error);
+        if (gate) {
+          toast({
+            title: 'Status not changed',
+            description: gate.message,
+            variant: 'destructive',
+          });
+        }
+        throw error;
+      }
+    },
+    [editor, goal, setTasks]
+  );
+
+  // ===========================================================================
+  // Render
+  // ===========================================================================
+
+  if (loadError) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Board could not be loaded</AlertTitle>
+        <AlertDescription>{loadError}</AlertDescription>
+      </Alert>
+    );
+  }
+
   if (!goal) {
     return (
-      <div className="flex items-center justify-center h-96">
+      <div className="flex h-96 items-center justify-center">
         <div className="text-center">
-          <div className="text-lg font-medium mb-2">Loading board...</div>
-          <div className="text-sm text-muted-foreground">
+          <Loader2 className="text-muted-foreground mx-auto mb-2 h-6 w-6 animate-spin" />
+          <div className="mb-2 text-lg font-medium">Loading board...</div>
+          <div className="text-muted-foreground text-sm">
             Setting up your task board
           </div>
         </div>
@@ -564,7 +1533,9 @@ export default function GoalBoardPage({ params }: BoardPageProps) {
     );
   }
 
-  const filteredTasks = filterTasks(goal.tasks);
+  const activeTask = activeTaskId
+    ? goal.tasks.find(task => task.id === activeTaskId)
+    : undefined;
 
   return (
     <div className="space-y-6">
@@ -574,42 +1545,159 @@ export default function GoalBoardPage({ params }: BoardPageProps) {
         onFiltersChange={setFilters}
         swimlaneMode={swimlaneMode}
         onSwimlaneModeChange={setSwimlaneMode}
+        onAddTask={canManageTasks ? handleAddTask : undefined}
+        showFlowMetrics={showFlowMetrics}
+        onToggleFlowMetrics={() => setShowFlowMetrics(show => !show)}
+        onEditWipLimits={
+          canEditGoal ? () => setIsWipDialogOpen(true) : undefined
+        }
         goal={goal}
       />
 
+      {showFlowMetrics && <FlowMetricsPanel tasks={goal.tasks} />}
+
       {/* Kanban Board */}
-      <div className="flex space-x-4 overflow-x-auto min-h-[600px]">
-        {COLUMNS.map((column) => (
-          <KanbanColumn
-            key={column.id}
-            column={column}
-            tasks={filteredTasks.filter(task => task.status === column.id)}
-            onTaskEdit={handleTaskEdit}
-            onTaskDelete={handleTaskDelete}
-            onTaskView={handleTaskView}
-            onStatusChange={handleStatusChange}
-            onAddTask={handleAddTask}
-          />
-        ))}
-      </div>
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCorners}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setActiveTaskId(null)}
+      >
+        <div className="flex min-h-[600px] space-x-4 overflow-x-auto">
+          {COLUMNS.map(column => (
+            <KanbanColumn
+              key={column.id}
+              column={column}
+              tasks={columns[column.id]}
+              draggedStatus={activeTask?.status ?? null}
+              wipCount={wipCounts[column.id].length}
+              wipLimit={wipLimits[column.id]}
+              canDrag={canManageTasks}
+              onTaskEdit={canManageTasks ? handleTaskEdit : undefined}
+              onTaskDelete={canManageTasks ? handleTaskDelete : undefined}
+              onTaskView={handleTaskView}
+              onStatusChange={canManageTasks ? handleStatusChange : undefined}
+              onAddTask={
+                canManageTasks && column.id === TaskStatus.TODO
+                  ? handleAddTask
+                  : undefined
+              }
+            />
+          ))}
+        </div>
+
+        <DragOverlay>
+          {activeTask && <TaskCard task={activeTask} isOverlay />}
+        </DragOverlay>
+      </DndContext>
+
+      <WipLimitsDialog
+        open={isWipDialogOpen}
+        limits={wipLimits}
+        onSave={handleSaveWipLimits}
+        onClose={() => setIsWipDialogOpen(false)}
+      />
+
+      <DorDodGateDialog
+        gatedMove={gatedMove}
+        canOverride={canOverride}
+        onOverride={(move, reason) => {
+          setGatedMove(null);
+          void persistMove(move, { dorDodOverride: { reason } });
+        }}
+        onClose={() => setGatedMove(null)}
+      />
+
+      {/* Status change confirmation */}
+      <AlertDialog
+        open={pendingMove !== null}
+        onOpenChange={open => !open && setPendingMove(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Move &ldquo;{pendingMove?.taskTitle}&rdquo; to{' '}
+              {pendingMove && BOARD_STATUS_LABELS[pendingMove.move.toStatus]}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMove?.confirmation.confirmationMessage}
+              {pendingMove?.confirmation.warningMessage && (
+                <span className="mt-2 block font-medium">
+                  {pendingMove.confirmation.warningMessage}
+                </span>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingMove) void persistMove(pendingMove.move);
+                setPendingMove(null);
+              }}
+            >
+              Move
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog
+        open={pendingDelete !== null}
+        onOpenChange={open => !open && setPendingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete task</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &ldquo;{pendingDelete?.title}
+              &rdquo;? Its subtasks are deleted with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
 
       {/* Task Editor Modal */}
-      {editingTask && (
+      {editor && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
-          <div className="bg-background rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+          <div className="bg-background max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg p-6">
             <TaskEditor
               goalId={goal.id}
-              task={editingTask}
-              onSave={async (_updatedTask) => {
-                // TODO: Update task
-                setEditingTask(null);
-              }}
-              onCancel={() => setEditingTask(null)}
-              mode={TaskEditorMode.EDIT}
+              task={
+                editor.mode === TaskEditorMode.CREATE ? undefined : editor.task
+              }
+              onSave={handleEditorSave}
+              onCancel={() => setEditor(null)}
+              mode={editor.mode}
+              availableTasks={goal.tasks.map(task => ({
+                id: task.id,
+                title: task.title,
+              }))}
+              isReadOnly={
+                !canManageTasks || editor.mode === TaskEditorMode.VIEW
+              }
+              dorDod={
+                editor.mode === TaskEditorMode.CREATE
+                  ? undefined
+                  : dorDodStates[editor.task.id]
+              }
+              canOverrideDorDod={canOverride}
+              goal={goal}
             />
           </div>
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -2,26 +2,42 @@
  * Goal Canvas View Page
  *
  * Visual canvas view for goals showing nodes, connections, and relationships
- * in a drag-and-drop interface. This is a placeholder implementation that
- * will be enhanced with a proper canvas library later.
+ * in a drag-and-drop interface. Node positions and the viewport are saved
+ * with the goal; connections drawn between tasks and milestones are written
+ * back to the goal itself. Nodes that were never placed are arranged by the
+ * layered or radial auto layout, and connection lines bend around nodes.
  */
 
 'use client';
 
 import {
-  ZoomIn,
-  ZoomOut,
-  RotateCcw,
+  AlertCircle,
+  Circle,
   Download,
-  Share,
+  Grid,
+  Loader2,
+  Maximize,
+  Network,
+  Orbit,
   Plus,
+  RotateCcw,
+  Share,
   Square,
-  Circle,
+  Trash2,
   Triangle,
-  Grid,
+  Workflow,
+  ZoomIn,
+  ZoomOut,
 } from 'lucide-react';
-import React, { useState, useCallback } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -39,179 +55,206 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-// import { Toggle } from '@/components/ui/toggle'; // TODO: Add toggle component
-import { mockGoals } from '@/lib/mock-data/smart-goals';
-import type { SmartGoal } from '@/types/smart-goals.types';
+import { toast } from '@/hooks/use-toast';
+import { useCopyToClipboard } from '@/hooks/useCopyToClipboard';
+import { useGoalPermissions } from '@/hooks/useGoalPermissions';
+import { canvasApi } from '@/lib/api/canvas';
+import { goalsApi } from '@/lib/api/goals';
+import {
+  applyCanvasWriteBack,
+  buildCanvasConnections,
+  buildCanvasNodes,
+  CANVAS_CONNECTION_LABELS,
+  CANVAS_EXPORT_FORMATS,
+  clampCanvasZoom,
+  getAllowedConnectionTypes,
+  getCanvasBounds,
+  getCanvasConnectionError,
+  getCanvasExportFilename,
+  getConnectionEndpoints,
+  renderCanvasSvg,
+  toCanvasNodeId,
+  type CanvasExportFormat,
+} from '@/lib/api/shared/canvas';
+import {
+  arrangeCanvasNodes,
+  CANVAS_LAYOUT_ALGORITHMS,
+  CANVAS_LAYOUT_LABELS,
+  DEFAULT_CANVAS_LAYOUT_ALGORITHM,
+  layoutCanvasNodes,
+  routeCanvasConnections,
+} from '@/lib/api/shared/canvas-layout';
+import { createEntityId } from '@/lib/api/shared/tasks';
+import { tasksApi } from '@/lib/api/tasks';
+import type {
+  CanvasConnection,
+  CanvasConnectionChange,
+  CanvasConnectionDraft,
+  CanvasConnectionType,
+  CanvasLayoutAlgorithm,
+  CanvasNode,
+  CanvasNodePosition,
+  CanvasPoint,
+  CanvasViewport,
+} from '@/types/canvas.types';
+import { GoalPriority, type SmartGoal } from '@/types/smart-goals.types';
 
 // =============================================================================
 // Types and Interfaces
 // =============================================================================
 
 interface CanvasPageProps {
-  params: {
+  params: Promise<{
     id: string;
-  };
+  }>;
 }
 
-interface CanvasNode {
-  id: string;
-  type: 'goal' | 'outcome' | 'milestone' | 'task' | 'metric';
-  title: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  color: string;
-  status?: string;
-  progress?: number;
-}
+type ViewMode = 'normal' | 'focus' | 'overview';
 
-interface CanvasConnection {
-  id: string;
+type NewNodeType = 'task' | 'milestone' | 'outcome';
+
+/** The pointer gesture in progress on the canvas */
+type Interaction =
+  | {
+      kind: 'pan';
+      startX: number;
+      startY: number;
+      originX: number;
+      originY: number;
+    }
+  | {
+      kind: 'drag';
+      nodeId: string;
+      startX: number;
+      startY: number;
+      offsetX: number;
+      offsetY: number;
+    }
+  | { kind: 'connect'; fromNodeId: string; x: number; y: number };
+
+/** A connection waiting for the user to pick its type */
+interface PendingConnection {
   fromNodeId: string;
   toNodeId: string;
-  type: 'dependency' | 'contributes' | 'measures' | 'achieves';
-  color: string;
+  types: CanvasConnectionType[];
+  screenX: number;
+  screenY: number;
 }
 
+type SaveState = 'saved' | 'saving' | 'unsaved' | 'error';
+
 // =============================================================================
-// Helper Functions
+// Constants
 // =============================================================================
 
-async function getGoal(id: string): Promise<SmartGoal | null> {
-  // TODO: Replace with actual API call
-  return mockGoals.find((goal: SmartGoal) => goal.id === id) || null;
-}
+const ZOOM_STEP = 1.2;
+const AUTOSAVE_DELAY = 800;
+const FIT_PADDING = 60;
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
 
-const generateNodesFromGoal = (goal: SmartGoal): CanvasNode[] => {
-  const nodes: CanvasNode[] = [];
-
-  // Goal node (center)
-  nodes.push({
-    id: goal.id,
-    type: 'goal',
-    title: goal.title,
-    x: 400,
-    y: 300,
-    width: 200,
-    height: 100,
-    color: '#3b82f6',
-    status: goal.status,
-    progress: goal.progress,
-  });
+const LAYOUT_ICONS: Record<CanvasLayoutAlgorithm, React.ElementType> = {
+  layered: Network,
+  radial: Orbit,
+};
 
-  // Outcomes (top)
-  goal.outcomes.forEach((outcome, index) => {
-    nodes.push({
-      id: outcome.id,
-      type: 'outcome',
-      title: outcome.description,
-      x: 200 + (index * 250),
-      y: 100,
-      width: 180,
-      height: 80,
-      color: '#10b981',
-    });
-  });
+const NODE_ICONS: Record<CanvasNode['type'], string> = {
+  goal: '🎯',
+  outcome: '🏆',
+  milestone: '🚩',
+  task: '📋',
+  metric: '📊',
+};
 
-  // Milestones (left and right)
-  goal.milestones.forEach((milestone, index) => {
-    const side = index % 2;
-    nodes.push({
-      id: milestone.id,
-      type: 'milestone',
-      title: milestone.title,
-      x: side === 0 ? 100 : 700,
-      y: 200 + (Math.floor(index / 2) * 120),
-      width: 160,
-      height: 70,
-      color: '#f59e0b',
-      status: milestone.isCompleted ? 'completed' : 'active',
-      progress: milestone.progress,
-    });
-  });
+// =============================================================================
+// Helper Functions
+// =============================================================================
 
-  // Tasks (bottom)
-  goal.tasks.slice(0, 5).forEach((task, index) => {
-    nodes.push({
-      id: task.id,
-      type: 'task',
-      title: task.title,
-      x: 150 + (index * 150),
-      y: 500,
-      width: 140,
-      height: 60,
-      color: '#8b5cf6',
-      status: task.status,
-      progress: task.progress,
-    });
-  });
+const getStatusColor = (status?: string) => {
+  switch (status) {
+    case 'completed':
+      return 'bg-green-100 border-green-500';
+    case 'active':
+    case 'in_progress':
+      return 'bg-blue-100 border-blue-500';
+    case 'blocked':
+      return 'bg-red-100 border-red-500';
+    default:
+      return 'bg-gray-100 border-gray-500';
+  }
+};
 
-  // Metric node (top right)
-  nodes.push({
-    id: `${goal.id}-metric`,
-    type: 'metric',
-    title: `${goal.measurable.currentValue}/${goal.measurable.targetValue} ${goal.measurable.unit}`,
-    x: 650,
-    y: 100,
-    width: 150,
-    height: 60,
-    color: '#ef4444',
-  });
+/** Topmost node under a canvas point */
+/** SVG `points` attribute of a connection line */
+const toSvgPoints = (points: CanvasPoint[]) =>
+  points.map(point => `${point.x},${point.y}`).join(' ');
+
+const findNodeAt = (nodes: CanvasNode[], x: number, y: number) =>
+  [...nodes]
+    .reverse()
+    .find(
+      node =>
+        x >= node.x &&
+        x <= node.x + node.width &&
+        y >= node.y &&
+        y <= node.y + node.height
+    );
 
-  return nodes;
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
-const generateConnections = (goal: SmartGoal, _nodes: CanvasNode[]): CanvasConnection[] => {
-  const connections: CanvasConnection[] = [];
-  let connectionId = 1;
-
-  // Connect outcomes to goal
-  goal.outcomes.forEach(outcome => {
-    connections.push({
-      id: `conn-${connectionId++}`,
-      fromNodeId: outcome.id,
-      toNodeId: goal.id,
-      type: 'achieves',
-      color: '#10b981',
-    });
-  });
+/** Rasterize an SVG document at twice its size */
+const svgToPng = (svg: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
 
-  // Connect milestones to goal
-  goal.milestones.forEach(milestone => {
-    connections.push({
-      id: `conn-${connectionId++}`,
-      fromNodeId: milestone.id,
-      toNodeId: goal.id,
-      type: 'contributes',
-      color: '#f59e0b',
-    });
-  });
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * 2;
+      canvas.height = image.height * 2;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas rendering is not supported'));
+        return;
+      }
 
-  // Connect tasks to milestones (first task to first milestone, etc.)
-  goal.tasks.slice(0, 5).forEach((task, index) => {
-    const milestoneIndex = index % goal.milestones.length;
-    if (milestoneIndex < goal.milestones.length) {
-      connections.push({
-        id: `conn-${connectionId++}`,
-        fromNodeId: task.id,
-        toNodeId: goal.milestones[milestoneIndex].id,
-        type: 'contributes',
-        color: '#8b5cf6',
-      });
-    }
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob =>
+        blob ? resolve(blob) : reject(new Error('PNG export failed'))
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The canvas image could not be rendered'));
+    };
+    image.src = url;
   });
 
-  // Connect metric to goal
-  connections.push({
-    id: `conn-${connectionId++}`,
-    fromNodeId: `${goal.id}-metric`,
-    toNodeId: goal.id,
-    type: 'measures',
-    color: '#ef4444',
-  });
+/** Viewport that shows every node inside a container */
+const fitViewport = (
+  nodes: CanvasNode[],
+  size: { width: number; height: number }
+): CanvasViewport => {
+  const bounds = getCanvasBounds(nodes, FIT_PADDING);
+  const zoom = clampCanvasZoom(
+    Math.min(size.width / bounds.width, size.height / bounds.height)
+  );
 
-  return connections;
+  return {
+    zoom,
+    x: (size.width - bounds.width * zoom) / 2 - bounds.x * zoom,
+    y: (size.height - bounds.height * zoom) / 2 - bounds.y * zoom,
+  };
 };
 
 // =============================================================================
@@ -221,53 +264,33 @@ const generateConnections = (goal: SmartGoal, _nodes: CanvasNode[]): CanvasConne
 interface CanvasNodeComponentProps {
   node: CanvasNode;
   isSelected: boolean;
+  isDimmed: boolean;
+  canMove: boolean;
+  canConnect: boolean;
+  onPointerDown: (event: React.PointerEvent, node: CanvasNode) => void;
+  onConnectStart: (event: React.PointerEvent, node: CanvasNode) => void;
   onSelect: (nodeId: string) => void;
-  onMove: (nodeId: string, x: number, y: number) => void;
 }
 
 const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({
   node,
   isSelected,
+  isDimmed,
+  canMove,
+  canConnect,
+  onPointerDown,
+  onConnectStart,
   onSelect,
-  onMove: _onMove
 }) => {
-  const getNodeIcon = () => {
-    switch (node.type) {
-      case 'goal':
-        return '🎯';
-      case 'outcome':
-        return '🏆';
-      case 'milestone':
-        return '🚩';
-      case 'task':
-        return '📋';
-      case 'metric':
-        return '📊';
-      default:
-        return '📄';
-    }
-  };
-
-  const getStatusColor = (status?: string) => {
-    switch (status) {
-      case 'completed':
-        return 'bg-green-100 border-green-500';
-      case 'active':
-      case 'in_progress':
-        return 'bg-blue-100 border-blue-500';
-      case 'blocked':
-        return 'bg-red-100 border-red-500';
-      default:
-        return 'bg-gray-100 border-gray-500';
-    }
-  };
-
   return (
     <div
       role="button"
       tabIndex={0}
-      className={`absolute cursor-move select-none transition-all duration-200 ${
-        isSelected ? 'ring-2 ring-primary ring-offset-2' : ''
+      aria-label={`${node.type}: ${node.title}`}
+      className={`group absolute transition-opacity duration-200 select-none ${
+        canMove ? 'cursor-move' : 'cursor-pointer'
+      } ${isSelected ? 'ring-primary ring-2 ring-offset-2' : ''} ${
+        isDimmed ? 'opacity-30' : ''
       }`}
       style={{
         left: node.x,
@@ -275,31 +298,35 @@ const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({
         width: node.width,
         height: node.height,
       }}
-      onClick={() => onSelect(node.id)}
-      onKeyDown={(e) => {
-        if (e.key === 'Enter' || e.key === ' ') {
-          e.preventDefault();
+      onPointerDown={event => onPointerDown(event, node)}
+      onKeyDown={event => {
+        if (event.key === 'Enter' || event.key === ' ') {
+          event.preventDefault();
           onSelect(node.id);
         }
       }}
     >
-      <Card className={`h-full ${getStatusColor(node.status)} shadow-md hover:shadow-lg`}>
-        <CardContent className="p-3 h-full flex flex-col">
-          <div className="flex items-center justify-between mb-2">
-            <span className="text-lg">{getNodeIcon()}</span>
+      <Card
+        className={`h-full ${getStatusColor(node.status)} shadow-md hover:shadow-lg`}
+      >
+        <CardContent className="flex h-full flex-col p-3">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-lg">{NODE_ICONS[node.type]}</span>
             <Badge variant="secondary" className="text-xs capitalize">
               {node.type}
             </Badge>
           </div>
-          <div className="flex-1 min-h-0">
-            <h4 className="font-semibold text-sm line-clamp-2">{node.title}</h4>
+          <div className="min-h-0 flex-1">
+            <h4 className="line-clamp-2 text-sm font-semibold">{node.title}</h4>
             {node.progress !== undefined && (
               <div className="mt-2">
-                <div className="flex items-center justify-between mb-1">
-                  <span className="text-xs text-muted-foreground">Progress</span>
+                <div className="mb-1 flex items-center justify-between">
+                  <span className="text-muted-foreground text-xs">
+                    Progress
+                  </span>
                   <span className="text-xs font-medium">{node.progress}%</span>
                 </div>
-                <div className="w-full bg-muted rounded-full h-1.5">
+                <div className="bg-muted h-1.5 w-full rounded-full">
                   <div
                     className="bg-primary h-1.5 rounded-full transition-all duration-300"
                     style={{ width: `${node.progress}%` }}
@@ -310,6 +337,103 @@ const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({
           </div>
         </CardContent>
       </Card>
+
+      {/* Connection handle */}
+      {canConnect && (
+        <button
+          type="button"
+          aria-label={`Connect ${node.title}`}
+          title="Drag to connect"
+          className="bg-background border-primary absolute top-1/2 -right-2 h-4 w-4 -translate-y-1/2 cursor-crosshair rounded-full border-2 opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100"
+          onPointerDown={event => onConnectStart(event, node)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface CanvasMinimapProps {
+  nodes: CanvasNode[];
+  viewport: CanvasViewport;
+  containerSize: { width: number; height: number };
+  onNavigate: (x: number, y: number) => void;
+}
+
+/** Overview of the whole canvas; click or drag to move the view */
+const CanvasMinimap: React.FC<CanvasMinimapProps> = ({
+  nodes,
+  viewport,
+  containerSize,
+  onNavigate,
+}) => {
+  const visible = {
+    x: -viewport.x / viewport.zoom,
+    y: -viewport.y / viewport.zoom,
+    width: containerSize.width / viewport.zoom,
+    height: containerSize.height / viewport.zoom,
+  };
+  const bounds = getCanvasBounds(nodes, 40);
+  const world = {
+    x: Math.min(bounds.x, visible.x),
+    y: Math.min(bounds.y, visible.y),
+    width: 0,
+    height: 0,
+  };
+  world.width =
+    Math.max(bounds.x + bounds.width, visible.x + visible.width) - world.x;
+  world.height =
+    Math.max(bounds.y + bounds.height, visible.y + visible.height) - world.y;
+  const scale = Math.min(
+    MINIMAP_WIDTH / world.width,
+    MINIMAP_HEIGHT / world.height
+  );
+
+  const navigate = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onNavigate(
+      world.x + (event.clientX - rect.left) / scale,
+      world.y + (event.clientY - rect.top) / scale
+    );
+  };
+
+  return (
+    <div className="bg-background/95 absolute right-4 bottom-16 z-10 rounded-lg border p-1 shadow-sm">
+      <svg
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        className="cursor-pointer"
+        role="img"
+        aria-label="Canvas minimap"
+        onPointerDown={event => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          navigate(event);
+        }}
+        onPointerMove={event => {
+          if (event.buttons === 1) navigate(event);
+        }}
+      >
+        {nodes.map(node => (
+          <rect
+            key={node.id}
+            x={(node.x - world.x) * scale}
+            y={(node.y - world.y) * scale}
+            width={Math.max(2, node.width * scale)}
+            height={Math.max(2, node.height * scale)}
+            fill={node.color}
+            opacity={0.6}
+            rx={1}
+          />
+        ))}
+        <rect
+          x={(visible.x - world.x) * scale}
+          y={(visible.y - world.y) * scale}
+          width={visible.width * scale}
+          height={visible.height * scale}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth={1.5}
+        />
+      </svg>
     </div>
   );
 };
@@ -317,24 +441,36 @@ const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({
 interface CanvasToolbarProps {
   onZoomIn: () => void;
   onZoomOut: () => void;
+  onFit: () => void;
   onReset: () => void;
-  onExport: () => void;
+  onAutoLayout: (algorithm: CanvasLayoutAlgorithm) => void;
+  algorithm: CanvasLayoutAlgorithm;
+  onExport: (format: CanvasExportFormat) => void;
   onShare: () => void;
-  onAddNode: () => void;
+  onAddNode: (type: NewNodeType) => void;
+  canAddTask: boolean;
+  canAddGoalNode: boolean;
+  canReset: boolean;
   zoom: number;
   showGrid: boolean;
   onToggleGrid: (show: boolean) => void;
-  viewMode: 'normal' | 'focus' | 'overview';
-  onViewModeChange: (mode: 'normal' | 'focus' | 'overview') => void;
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
 }
 
 const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
   onZoomIn,
   onZoomOut,
+  onFit,
   onReset,
+  onAutoLayout,
+  algorithm,
   onExport,
   onShare,
   onAddNode,
+  canAddTask,
+  canAddGoalNode,
+  canReset,
   zoom,
   showGrid,
   onToggleGrid,
@@ -342,10 +478,13 @@ const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
   onViewModeChange,
 }) => {
   return (
-    <div className="absolute top-4 left-4 right-4 flex items-center justify-between bg-background/95 backdrop-blur-sm border rounded-lg p-2 shadow-sm z-10">
+    <div className="bg-background/95 absolute top-4 right-4 left-4 z-10 flex items-center justify-between rounded-lg border p-2 shadow-sm backdrop-blur-sm">
       <div className="flex items-center space-x-2">
         {/* View Mode */}
-        <Select value={viewMode} onValueChange={(value) => onViewModeChange(value as 'normal' | 'focus' | 'overview')}>
+        <Select
+          value={viewMode}
+          onValueChange={value => onViewModeChange(value as ViewMode)}
+        >
           <SelectTrigger className="w-32">
             <SelectValue />
           </SelectTrigger>
@@ -359,24 +498,85 @@ const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
         <Separator orientation="vertical" className="h-6" />
 
         {/* Zoom Controls */}
-        <Button variant="outline" size="sm" onClick={onZoomOut}>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onZoomOut}
+          aria-label="Zoom out"
+        >
           <ZoomOut className="h-4 w-4" />
         </Button>
-        <span className="text-sm font-medium min-w-[60px] text-center">
+        <span className="min-w-[60px] text-center text-sm font-medium">
           {Math.round(zoom * 100)}%
         </span>
-        <Button variant="outline" size="sm" onClick={onZoomIn}>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onZoomIn}
+          aria-label="Zoom in"
+        >
           <ZoomIn className="h-4 w-4" />
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onFit}
+          aria-label="Fit to screen"
+        >
+          <Maximize className="h-4 w-4" />
+        </Button>
 
         <Separator orientation="vertical" className="h-6" />
 
         {/* Tools */}
-        <Button variant="outline" size="sm" onClick={onReset}>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onReset}
+          disabled={!canReset}
+          aria-label="Reset layout"
+        >
           <RotateCcw className="h-4 w-4" />
         </Button>
 
-        <Button variant="outline" size="sm" onClick={() => onToggleGrid(!showGrid)}>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!canReset}
+              aria-label="Auto layout"
+            >
+              <Workflow className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {CANVAS_LAYOUT_ALGORITHMS.map(option => {
+              const Icon = LAYOUT_ICONS[option];
+              return (
+                <DropdownMenuItem
+                  key={option}
+                  onClick={() => onAutoLayout(option)}
+                >
+                  <Icon className="mr-2 h-4 w-4" />
+                  {CANVAS_LAYOUT_LABELS[option]} layout
+                  {option === algorithm && (
+                    <Badge variant="secondary" className="ml-auto text-xs">
+                      Current
+                    </Badge>
+                  )}
+                </DropdownMenuItem>
+              );
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant={showGrid ? 'secondary' : 'outline'}
+          size="sm"
+          onClick={() => onToggleGrid(!showGrid)}
+          aria-label="Toggle grid"
+        >
           <Grid className="h-4 w-4" />
         </Button>
       </div>
@@ -385,22 +585,35 @@ const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
         {/* Add Node */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
-            <Button variant="outline" size="sm">
-              <Plus className="h-4 w-4 mr-2" />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!canAddTask && !canAddGoalNode}
+            >
+              <Plus className="mr-2 h-4 w-4" />
               Add Node
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent>
-            <DropdownMenuItem onClick={onAddNode}>
-              <Circle className="h-4 w-4 mr-2" />
+            <DropdownMenuItem
+              disabled={!canAddTask}
+              onClick={() => onAddNode('task')}
+            >
+              <Circle className="mr-2 h-4 w-4" />
               Task
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={onAddNode}>
-              <Square className="h-4 w-4 mr-2" />
+            <DropdownMenuItem
+              disabled={!canAddGoalNode}
+              onClick={() => onAddNode('milestone')}
+            >
+              <Square className="mr-2 h-4 w-4" />
               Milestone
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={onAddNode}>
-              <Triangle className="h-4 w-4 mr-2" />
+            <DropdownMenuItem
+              disabled={!canAddGoalNode}
+              onClick={() => onAddNode('outcome')}
+            >
+              <Triangle className="mr-2 h-4 w-4" />
               Outcome
             </DropdownMenuItem>
           </DropdownMenuContent>
@@ -409,10 +622,26 @@ const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
         <Separator orientation="vertical" className="h-6" />
 
         {/* Export/Share */}
-        <Button variant="outline" size="sm" onClick={onExport}>
-          <Download className="h-4 w-4" />
-        </Button>
-        <Button variant="outline" size="sm" onClick={onShare}>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" aria-label="Export canvas">
+              <Download className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {CANVAS_EXPORT_FORMATS.map(format => (
+              <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+                Export as {format.toUpperCase()}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onShare}
+          aria-label="Copy canvas link"
+        >
           <Share className="h-4 w-4" />
         </Button>
       </div>
@@ -425,70 +654,686 @@ const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
 // =============================================================================
 
 export default function GoalCanvasPage({ params }: CanvasPageProps) {
-  const [goal, setGoal] = React.useState<SmartGoal | null>(null);
-  const [nodes, setNodes] = useState<CanvasNode[]>([]);
-  const [connections, setConnections] = useState<CanvasConnection[]>([]);
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [zoom, setZoom] = useState(1);
+  const [id, setId] = useState('');
+  const [goal, setGoal] = useState<SmartGoal | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [positions, setPositions] = useState<
+    Record<string, CanvasNodePosition>
+  >({});
+  const [layoutConnections, setLayoutConnections] = useState<
+    CanvasConnection[]
+  >([]);
+  const [viewport, setViewport] = useState<CanvasViewport>({
+    x: 0,
+    y: 0,
+    zoom: 1,
+  });
   const [showGrid, setShowGrid] = useState(true);
-  const [viewMode, setViewMode] = useState<'normal' | 'focus' | 'overview'>('normal');
+  const [algorithm, setAlgorithm] = useState<CanvasLayoutAlgorithm>(
+    DEFAULT_CANVAS_LAYOUT_ALGORITHM
+  );
+  const [viewMode, setViewMode] = useState<ViewMode>('normal');
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [selectedConnectionId, setSelectedConnectionId] = useState<
+    string | null
+  >(null);
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
+  const [pendingConnection, setPendingConnection] =
+    useState<PendingConnection | null>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [revision, setRevision] = useState(0);
+  const [savedRevision, setSavedRevision] = useState(0);
+  const [saveState, setSaveState] = useState<SaveState>('saved');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { user, can } = useGoalPermissions(goal);
+  const canEditLayout = can('edit_goal');
+  const canManageTasks = can('manage_tasks');
+  const [copyToClipboard] = useCopyToClipboard();
+
+  useEffect(() => {
+    params.then(p => setId(p.id));
+  }, [params]);
 
-  // Load goal and generate initial canvas
-  React.useEffect(() => {
-    const loadGoal = async () => {
-      const goalData = await getGoal(params.id);
-      if (goalData) {
+  // Load the goal together with its saved layout
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    Promise.all([goalsApi.getGoal(id), canvasApi.getLayout(id)])
+      .then(([goalData, layout]) => {
+        if (cancelled) return;
         setGoal(goalData);
-        const initialNodes = generateNodesFromGoal(goalData);
-        const initialConnections = generateConnections(goalData, initialNodes);
-        setNodes(initialNodes);
-        setConnections(initialConnections);
+        setPositions(layout.positions);
+        setLayoutConnections(layout.connections);
+        setViewport(layout.viewport);
+        setShowGrid(layout.showGrid);
+        setAlgorithm(layout.algorithm ?? DEFAULT_CANVAS_LAYOUT_ALGORITHM);
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError((error as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const connections = useMemo(
+    () =>
+      goal
+        ? buildCanvasConnections(goal, { connections: layoutConnections })
+        : [],
+    [goal, layoutConnections]
+  );
+
+  // Nodes without a saved position are arranged by the auto layout
+  const arrangedPositions = useMemo(
+    () =>
+      goal
+        ? arrangeCanvasNodes(
+            buildCanvasNodes(goal),
+            connections,
+            positions,
+            algorithm
+          )
+        : {},
+    [algorithm, connections, goal, positions]
+  );
+
+  const nodes = useMemo(
+    () =>
+      goal ? buildCanvasNodes(goal, { positions: arrangedPositions }) : [],
+    [arrangedPositions, goal]
+  );
+
+  const nodesById = useMemo(
+    () => new Map(nodes.map(node => [node.id, node])),
+    [nodes]
+  );
+
+  // Lines stay straight while a node is dragged and bend around nodes after
+  const isDragging = interaction?.kind === 'drag';
+  const routes = useMemo(
+    () => (isDragging ? {} : routeCanvasConnections(nodes, connections)),
+    [connections, isDragging, nodes]
+  );
+
+  // Nodes next to the selected one stay visible in focus mode
+  const focusedNodeIds = useMemo(() => {
+    if (viewMode !== 'focus' || !selectedNodeId) return null;
+    const ids = new Set([selectedNodeId]);
+    connections.forEach(connection => {
+      if (connection.fromNodeId === selectedNodeId) {
+        ids.add(connection.toNodeId);
+      }
+      if (connection.toNodeId === selectedNodeId) {
+        ids.add(connection.fromNodeId);
       }
+    });
+    return ids;
+  }, [connections, selectedNodeId, viewMode]);
+
+  const markChanged = useCallback(() => {
+    setRevision(prev => prev + 1);
+  }, []);
+
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  // Save the layout shortly after the last change
+  const goalId = goal?.id;
+  useEffect(() => {
+    if (!goalId || !canEditLayout || revision === savedRevision) return;
+
+    setSaveState('unsaved');
+    const timer = setTimeout(async () => {
+      setSaveState('saving');
+      try {
+        await canvasApi.saveLayout(goalId, {
+          positions,
+          viewport,
+          showGrid,
+          algorithm,
+        });
+        setSavedRevision(revision);
+        setSaveState('saved');
+      } catch (error) {
+        console.error('Failed to save canvas layout:', error);
+        setSaveState('error');
+      }
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [
+    goalId,
+    canEditLayout,
+    revision,
+    savedRevision,
+    positions,
+    viewport,
+    showGrid,
+    algorithm,
+  ]);
+
+  // ===========================================================================
+  // Viewport
+  // ===========================================================================
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [goal]);
+
+  const zoomAt = useCallback(
+    (factor: number, screenX: number, screenY: number) => {
+      setViewport(prev => {
+        const zoom = clampCanvasZoom(prev.zoom * factor);
+        const scale = zoom / prev.zoom;
+        return {
+          zoom,
+          x: screenX - (screenX - prev.x) * scale,
+          y: screenY - (screenY - prev.y) * scale,
+        };
+      });
+      markChanged();
+    },
+    [markChanged]
+  );
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(
+        event.deltaY < 0 ? 1.1 : 1 / 1.1,
+        event.clientX - rect.left,
+        event.clientY - rect.top
+      );
     };
 
-    loadGoal();
-  }, [params.id]);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [goal, zoomAt]);
 
   const handleZoomIn = useCallback(() => {
-    setZoom(prev => Math.min(prev * 1.2, 3));
-  }, []);
+    zoomAt(ZOOM_STEP, containerSize.width / 2, containerSize.height / 2);
+  }, [containerSize, zoomAt]);
 
   const handleZoomOut = useCallback(() => {
-    setZoom(prev => Math.max(prev / 1.2, 0.3));
-  }, []);
+    zoomAt(1 / ZOOM_STEP, containerSize.width / 2, containerSize.height / 2);
+  }, [containerSize, zoomAt]);
+
+  const handleFit = useCallback(() => {
+    setViewport(fitViewport(nodes, containerSize));
+    markChanged();
+  }, [containerSize, markChanged, nodes]);
+
+  const handleViewModeChange = useCallback(
+    (mode: ViewMode) => {
+      setViewMode(mode);
+      if (mode === 'overview') handleFit();
+    },
+    [handleFit]
+  );
+
+  // Arrange every node from scratch with the given auto layout
+  const applyLayout = useCallback(
+    (next: CanvasLayoutAlgorithm) => {
+      if (!goal) return;
+      const arranged = layoutCanvasNodes(
+        buildCanvasNodes(goal),
+        connections,
+        next
+      );
+      setAlgorithm(next);
+      setPositions(arranged);
+      setViewport(
+        fitViewport(
+          buildCanvasNodes(goal, { positions: arranged }),
+          containerSize
+        )
+      );
+      markChanged();
+    },
+    [connections, containerSize, goal, markChanged]
+  );
+
+  const handleReset = useCallback(
+    () => applyLayout(algorithm),
+    [algorithm, applyLayout]
+  );
+
+  const handleToggleGrid = useCallback(
+    (show: boolean) => {
+      setShowGrid(show);
+      markChanged();
+    },
+    [markChanged]
+  );
+
+  // Center the view on a canvas point
+  const handleNavigate = useCallback(
+    (x: number, y: number) => {
+      setViewport(prev => ({
+        ...prev,
+        x: containerSize.width / 2 - x * prev.zoom,
+        y: containerSize.height / 2 - y * prev.zoom,
+      }));
+      markChanged();
+    },
+    [containerSize, markChanged]
+  );
+
+  // ===========================================================================
+  // Connections
+  // ===========================================================================
+
+  const applyConnectionChange = useCallback(
+    (change: CanvasConnectionChange) => {
+      setGoal(prev => prev && applyCanvasWriteBack(prev, change.writeBack));
+      if (change.writeBack.layoutConnections) {
+        setLayoutConnections(change.writeBack.layoutConnections);
+      }
+    },
+    []
+  );
+
+  const connectNodes = useCallback(
+    async (draft: CanvasConnectionDraft) => {
+      if (!goal) return;
+
+      const error = getCanvasConnectionError(nodes, connections, draft);
+      if (error) {
+        toast({
+          title: 'Cannot connect',
+          description: error,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      try {
+        const change = await canvasApi.connect(goal.id, draft);
+        applyConnectionChange(change);
+        setSelectedConnectionId(change.connection.id);
+      } catch (connectError) {
+        toast({
+          title: 'Connection not saved',
+          description: (connectError as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    [applyConnectionChange, connections, goal, nodes]
+  );
+
+  const handleDisconnect = useCallback(
+    async (connection: CanvasConnection) => {
+      if (!goal) return;
+
+      try {
+        const change = await canvasApi.disconnect(goal.id, connection.id);
+        applyConnectionChange(change);
+        setSelectedConnectionId(null);
+      } catch (disconnectError) {
+        toast({
+          title: 'Connection not removed',
+          description: (disconnectError as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    [applyConnectionChange, goal]
+  );
+
+  /** Connect with the only allowed type, or ask which type to use */
+  const finishConnection = useCallback(
+    (from: CanvasNode, to: CanvasNode, screenX: number, screenY: number) => {
+      const types = getAllowedConnectionTypes(from, to).filter(
+        type =>
+          !getCanvasConnectionError(nodes, connections, {
+            fromNodeId: from.id,
+            toNodeId: to.id,
+            type,
+          })
+      );
+
+      if (types.length === 0) {
+        const [firstType] = getAllowedConnectionTypes(from, to);
+        toast({
+          title: 'Cannot connect',
+          description: firstType
+            ? (getCanvasConnectionError(nodes, connections, {
+                fromNodeId: from.id,
+                toNodeId: to.id,
+                type: firstType,
+              }) ?? undefined)
+            : `A ${from.type} cannot be connected to a ${to.type}`,
+          variant: 'destructive',
+        });
+      } else if (types.length === 1) {
+        connectNodes({ fromNodeId: from.id, toNodeId: to.id, type: types[0] });
+      } else {
+        setPendingConnection({
+          fromNodeId: from.id,
+          toNodeId: to.id,
+          types,
+          screenX,
+          screenY,
+        });
+      }
+    },
+    [connectNodes, connections, nodes]
+  );
+
+  // ===========================================================================
+  // Pointer Interaction
+  // ===========================================================================
+
+  const toCanvasPoint = useCallback(
+    (clientX: number, clientY: number) => {
+      const rect = containerRef.current!.getBoundingClientRect();
+      return {
+        x: (clientX - rect.left - viewport.x) / viewport.zoom,
+        y: (clientY - rect.top - viewport.y) / viewport.zoom,
+      };
+    },
+    [viewport]
+  );
+
+  const capturePointer = (event: React.PointerEvent) => {
+    containerRef.current?.setPointerCapture(event.pointerId);
+  };
+
+  const handleBackgroundPointerDown = (event: React.PointerEvent) => {
+    if (event.button !== 0) return;
+    capturePointer(event);
+    setSelectedNodeId(null);
+    setSelectedConnectionId(null);
+    setPendingConnection(null);
+    setInteraction({
+      kind: 'pan',
+      startX: event.clientX,
+      startY: event.clientY,
+      originX: viewport.x,
+      originY: viewport.y,
+    });
+  };
+
+  const handleNodePointerDown = (
+    event: React.PointerEvent,
+    node: CanvasNode
+  ) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    setSelectedNodeId(node.id);
+    setSelectedConnectionId(null);
+    setPendingConnection(null);
+
+    if (!canEditLayout) return;
+    capturePointer(event);
+    const point = toCanvasPoint(event.clientX, event.clientY);
+    setInteraction({
+      kind: 'drag',
+      nodeId: node.id,
+      startX: event.clientX,
+      startY: event.clientY,
+      offsetX: point.x - node.x,
+      offsetY: point.y - node.y,
+    });
+  };
+
+  const handleConnectStart = (event: React.PointerEvent, node: CanvasNode) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    capturePointer(event);
+    setPendingConnection(null);
+    setInteraction({
+      kind: 'connect',
+      fromNodeId: node.id,
+      ...toCanvasPoint(event.clientX, event.clientY),
+    });
+  };
 
-  const handleReset = useCallback(() => {
-    setZoom(1);
-    if (goal) {
-      const resetNodes = generateNodesFromGoal(goal);
-      setNodes(resetNodes);
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!interaction) return;
+
+    if (interaction.kind === 'pan') {
+      setViewport(prev => ({
+        ...prev,
+        x: interaction.originX + event.clientX - interaction.startX,
+        y: interaction.originY + event.clientY - interaction.startY,
+      }));
+    } else if (interaction.kind === 'drag') {
+      const point = toCanvasPoint(event.clientX, event.clientY);
+      // Dragging pins every node where the auto layout put it
+      setPositions(prev => ({
+        ...arrangedPositions,
+        ...prev,
+        [interaction.nodeId]: {
+          x: Math.round(point.x - interaction.offsetX),
+          y: Math.round(point.y - interaction.offsetY),
+        },
+      }));
+    } else {
+      setInteraction({
+        ...interaction,
+        ...toCanvasPoint(event.clientX, event.clientY),
+      });
     }
-  }, [goal]);
+  };
 
-  const handleNodeMove = useCallback((nodeId: string, x: number, y: number) => {
-    setNodes(prev => prev.map(node =>
-      node.id === nodeId ? { ...node, x, y } : node
-    ));
-  }, []);
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!interaction) return;
+    setInteraction(null);
 
-  const handleExport = useCallback(() => {
-    // TODO: Implement canvas export
-  }, []);
+    if (interaction.kind !== 'connect') {
+      if (
+        event.clientX !== interaction.startX ||
+        event.clientY !== interaction.startY
+      ) {
+        markChanged();
+      }
+      return;
+    }
 
-  const handleShare = useCallback(() => {
-    // TODO: Implement canvas sharing
-  }, []);
+    const point = toCanvasPoint(event.clientX, event.clientY);
+    const from = nodesById.get(interaction.fromNodeId);
+    const to = findNodeAt(nodes, point.x, point.y);
+    if (!from || !to || to.id === from.id) return;
 
-  const handleAddNode = useCallback(() => {
-    // TODO: Implement node addition
-  }, []);
+    const rect = containerRef.current!.getBoundingClientRect();
+    finishConnection(
+      from,
+      to,
+      event.clientX - rect.left,
+      event.clientY - rect.top
+    );
+  };
+
+  // ===========================================================================
+  // Toolbar Actions
+  // ===========================================================================
+
+  const handleExport = useCallback(
+    async (format: CanvasExportFormat) => {
+      if (!goal) return;
+
+      try {
+        const svg = renderCanvasSvg(nodes, connections, {
+          routes: routeCanvasConnections(nodes, connections),
+        });
+        const blob =
+          format === 'svg'
+            ? new Blob([svg], { type: 'image/svg+xml' })
+            : await svgToPng(svg);
+        downloadBlob(blob, getCanvasExportFilename(goal, format));
+      } catch (exportError) {
+        toast({
+          title: 'Export failed',
+          description: (exportError as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    [connections, goal, nodes]
+  );
+
+  const handleShare = useCallback(async () => {
+    const copied = await copyToClipboard(window.location.href);
+    toast(
+      copied
+        ? {
+            title: 'Link copied',
+            description: 'Anyone with access to this goal can open the canvas.',
+          }
+        : {
+            title: 'Link not copied',
+            description: 'Your browser blocked access to the clipboard.',
+            variant: 'destructive',
+          }
+    );
+  }, [copyToClipboard]);
+
+  const handleAddNode = useCallback(
+    async (type: NewNodeType) => {
+      if (!goal) return;
+
+      const now = new Date();
+      const userId = user?.id ?? goal.ownerId;
+
+      try {
+        let updatedGoal: SmartGoal;
+        let nodeId: string;
+
+        if (type === 'task') {
+          const task = await tasksApi.createTask({
+            goalId: goal.id,
+            title: 'New task',
+            priority: GoalPriority.MEDIUM,
+          });
+          updatedGoal = { ...goal, tasks: [...goal.tasks, task] };
+          nodeId = toCanvasNodeId('task', task.id);
+        } else if (type === 'milestone') {
+          const milestone = {
+            id: createEntityId('milestone'),
+            createdAt: now,
+            updatedAt: now,
+            createdBy: userId,
+            updatedBy: userId,
+            isDeleted: false,
+            title: 'New milestone',
+            targetDate: goal.timebound.targetDate,
+            isCompleted: false,
+            successCriteria: [],
+            progress: 0,
+            priority: GoalPriority.MEDIUM,
+            taskIds: [],
+            goalId: goal.id,
+            order: Math.max(0, ...goal.milestones.map(item => item.order)) + 1,
+            isCritical: false,
+          };
+          updatedGoal = await goalsApi.updateGoal(goal.id, {
+            milestones: [...goal.milestones, milestone],
+          });
+          nodeId = toCanvasNodeId('milestone', milestone.id);
+        } else {
+          const outcome = {
+            id: createEntityId('outcome'),
+            createdAt: now,
+            updatedAt: now,
+            createdBy: userId,
+            updatedBy: userId,
+            description: 'New outcome',
+            type: 'primary' as const,
+            impactLevel: 5,
+            probability: 0.5,
+            goalId: goal.id,
+          };
+          updatedGoal = await goalsApi.updateGoal(goal.id, {
+            outcomes: [...(goal.outcomes ?? []), outcome],
+          });
+          nodeId = toCanvasNodeId('outcome', outcome.id);
+        }
+
+        // The new node joins its row or ring; the others stay where they are
+        const nextNodes = buildCanvasNodes(updatedGoal);
+        const next = arrangeCanvasNodes(
+          nextNodes,
+          buildCanvasConnections(updatedGoal, {
+            connections: layoutConnections,
+          }),
+          arrangedPositions,
+          algorithm
+        );
+        const added = nextNodes.find(node => node.id === nodeId);
+
+        setGoal(updatedGoal);
+        setPositions(next);
+        setSelectedNodeId(nodeId);
+        if (added && next[nodeId]) {
+          handleNavigate(
+            next[nodeId].x + added.width / 2,
+            next[nodeId].y + added.height / 2
+          );
+        } else {
+          markChanged();
+        }
+      } catch (addError) {
+        toast({
+          title: `Could not add ${type}`,
+          description: (addError as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    [
+      algorithm,
+      arrangedPositions,
+      goal,
+      handleNavigate,
+      layoutConnections,
+      markChanged,
+      user?.id,
+    ]
+  );
+
+  // ===========================================================================
+  // Render
+  // ===========================================================================
+
+  if (loadError) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Canvas could not be loaded</AlertTitle>
+        <AlertDescription>{loadError}</AlertDescription>
+      </Alert>
+    );
+  }
 
   if (!goal) {
     return (
-      <div className="flex items-center justify-center h-96">
+      <div className="flex h-96 items-center justify-center">
         <div className="text-center">
-          <div className="text-lg font-medium mb-2">Loading canvas...</div>
-          <div className="text-sm text-muted-foreground">
+          <Loader2 className="text-muted-foreground mx-auto mb-2 h-6 w-6 animate-spin" />
+          <div className="mb-2 text-lg font-medium">Loading canvas...</div>
+          <div className="text-muted-foreground text-sm">
             Setting up your goal visualization
           </div>
         </div>
@@ -496,134 +1341,324 @@ export default function GoalCanvasPage({ params }: CanvasPageProps) {
     );
   }
 
+  const selectedNode = selectedNodeId ? nodesById.get(selectedNodeId) : null;
+  const selectedConnection = selectedConnectionId
+    ? connections.find(c => c.id === selectedConnectionId)
+    : null;
+  const connectFrom =
+    interaction?.kind === 'connect'
+      ? nodesById.get(interaction.fromNodeId)
+      : null;
+
   return (
-    <div className="relative h-[calc(100vh-12rem)] w-full bg-muted/10 rounded-lg overflow-hidden border">
+    <div className="bg-muted/10 relative h-[calc(100vh-12rem)] w-full overflow-hidden rounded-lg border">
       {/* Canvas Toolbar */}
       <CanvasToolbar
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
+        onFit={handleFit}
         onReset={handleReset}
+        onAutoLayout={applyLayout}
+        algorithm={algorithm}
         onExport={handleExport}
         onShare={handleShare}
         onAddNode={handleAddNode}
-        zoom={zoom}
+        canAddTask={canManageTasks}
+        canAddGoalNode={canEditLayout}
+        canReset={canEditLayout}
+        zoom={viewport.zoom}
         showGrid={showGrid}
-        onToggleGrid={setShowGrid}
+        onToggleGrid={handleToggleGrid}
         viewMode={viewMode}
-        onViewModeChange={setViewMode}
+        onViewModeChange={handleViewModeChange}
       />
 
       {/* Canvas Area */}
       <div
-        className="relative w-full h-full overflow-hidden"
+        ref={containerRef}
+        role="application"
+        aria-label="Goal canvas"
+        className={`relative h-full w-full touch-none overflow-hidden ${
+          interaction?.kind === 'pan' ? 'cursor-grabbing' : 'cursor-grab'
+        }`}
         style={{
           backgroundImage: showGrid
             ? 'radial-gradient(circle, #e5e7eb 1px, transparent 1px)'
             : 'none',
-          backgroundSize: showGrid ? '20px 20px' : 'none',
-          transform: `scale(${zoom})`,
-          transformOrigin: 'center center',
+          backgroundSize: `${20 * viewport.zoom}px ${20 * viewport.zoom}px`,
+          backgroundPosition: `${viewport.x}px ${viewport.y}px`,
         }}
+        onPointerDown={handleBackgroundPointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setInteraction(null)}
       >
-        {/* Connection Lines */}
-        <svg className="absolute inset-0 w-full h-full pointer-events-none">
-          {connections.map(connection => {
-            const fromNode = nodes.find(n => n.id === connection.fromNodeId);
-            const toNode = nodes.find(n => n.id === connection.toNodeId);
+        <div
+          className="absolute top-0 left-0"
+          style={{
+            transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+            transformOrigin: '0 0',
+          }}
+        >
+          {/* Connection Lines */}
+          <svg className="pointer-events-none absolute top-0 left-0 h-px w-px overflow-visible">
+            <defs>
+              {connections.map(connection => (
+                <marker
+                  key={connection.id}
+                  id={`arrow-${connection.id}`}
+                  viewBox="0 0 10 10"
+                  refX="10"
+                  refY="5"
+                  markerWidth="8"
+                  markerHeight="8"
+                  orient="auto-start-reverse"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={connection.color} />
+                </marker>
+              ))}
+            </defs>
+            {connections.map(connection => {
+              const fromNode = nodesById.get(connection.fromNodeId);
+              const toNode = nodesById.get(connection.toNodeId);
+              if (!fromNode || !toNode) return null;
 
-            if (!fromNode || !toNode) return null;
+              const { start, end } = getConnectionEndpoints(fromNode, toNode);
+              const points = toSvgPoints(routes[connection.id] ?? [start, end]);
+              const isSelected = connection.id === selectedConnectionId;
+              const isDimmed =
+                focusedNodeIds !== null &&
+                !(
+                  focusedNodeIds.has(connection.fromNodeId) &&
+                  focusedNodeIds.has(connection.toNodeId)
+                );
 
-            const fromX = fromNode.x + fromNode.width / 2;
-            const fromY = fromNode.y + fromNode.height / 2;
-            const toX = toNode.x + toNode.width / 2;
-            const toY = toNode.y + toNode.height / 2;
+              return (
+                <g key={connection.id} opacity={isDimmed ? 0.15 : 1}>
+                  <polyline
+                    points={points}
+                    fill="none"
+                    stroke={connection.color}
+                    strokeWidth={isSelected ? 3 : 2}
+                    strokeDasharray={
+                      connection.type === 'dependency' ? '5,5' : undefined
+                    }
+                    opacity={isSelected ? 1 : 0.7}
+                    markerEnd={`url(#arrow-${connection.id})`}
+                  />
+                  {/* Wider invisible stroke that is easier to click */}
+                  <polyline
+                    points={points}
+                    fill="none"
+                    stroke="transparent"
+                    strokeWidth={12}
+                    className="pointer-events-auto cursor-pointer"
+                    onPointerDown={event => {
+                      event.stopPropagation();
+                      setSelectedConnectionId(connection.id);
+                      setSelectedNodeId(null);
+                      setPendingConnection(null);
+                    }}
+                  >
+                    <title>{CANVAS_CONNECTION_LABELS[connection.type]}</title>
+                  </polyline>
+                </g>
+              );
+            })}
 
-            return (
+            {/* Connection being drawn */}
+            {connectFrom && interaction?.kind === 'connect' && (
               <line
-                key={connection.id}
-                x1={fromX}
-                y1={fromY}
-                x2={toX}
-                y2={toY}
-                stroke={connection.color}
-                strokeWidth="2"
-                strokeDasharray={connection.type === 'dependency' ? '5,5' : 'none'}
-                opacity="0.7"
+                x1={connectFrom.x + connectFrom.width}
+                y1={connectFrom.y + connectFrom.height / 2}
+                x2={interaction.x}
+                y2={interaction.y}
+                stroke="#3b82f6"
+                strokeWidth={2}
+                strokeDasharray="4,4"
               />
-            );
-          })}
-        </svg>
+            )}
+          </svg>
 
-        {/* Nodes */}
-        {nodes.map(node => (
-          <CanvasNodeComponent
-            key={node.id}
-            node={node}
-            isSelected={selectedNodeId === node.id}
-            onSelect={setSelectedNodeId}
-            onMove={handleNodeMove}
-          />
-        ))}
+          {/* Nodes */}
+          {nodes.map(node => (
+            <CanvasNodeComponent
+              key={node.id}
+              node={node}
+              isSelected={selectedNodeId === node.id}
+              isDimmed={focusedNodeIds !== null && !focusedNodeIds.has(node.id)}
+              canMove={canEditLayout}
+              canConnect={canManageTasks && node.type !== 'goal'}
+              onPointerDown={handleNodePointerDown}
+              onConnectStart={handleConnectStart}
+              onSelect={setSelectedNodeId}
+            />
+          ))}
+        </div>
+
+        {/* Connection type chooser */}
+        {pendingConnection && (
+          <div
+            className="bg-background absolute z-20 rounded-lg border p-2 shadow-lg"
+            style={{
+              left: pendingConnection.screenX,
+              top: pendingConnection.screenY,
+            }}
+            onPointerDown={event => event.stopPropagation()}
+          >
+            <p className="text-muted-foreground mb-2 px-1 text-xs">
+              Connection type
+            </p>
+            <div className="flex flex-col gap-1">
+              {pendingConnection.types.map(type => (
+                <Button
+                  key={type}
+                  variant="ghost"
+                  size="sm"
+                  className="justify-start"
+                  onClick={() => {
+                    connectNodes({
+                      fromNodeId: pendingConnection.fromNodeId,
+                      toNodeId: pendingConnection.toNodeId,
+                      type,
+                    });
+                    setPendingConnection(null);
+                  }}
+                >
+                  {CANVAS_CONNECTION_LABELS[type]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Minimap */}
+      {containerSize.width > 0 && (
+        <CanvasMinimap
+          nodes={nodes}
+          viewport={viewport}
+          containerSize={containerSize}
+          onNavigate={handleNavigate}
+        />
+      )}
+
       {/* Property Panel */}
-      {selectedNodeId && (
-        <div className="absolute top-20 right-4 w-64 bg-background border rounded-lg shadow-lg p-4 z-20">
-          <h3 className="font-semibold mb-3">Node Properties</h3>
-          {(() => {
-            const selectedNode = nodes.find(n => n.id === selectedNodeId);
-            if (!selectedNode) return null;
-
-            return (
-              <div className="space-y-3">
-                <div>
-                  <label className="text-sm font-medium">Type</label>
-                  <p className="text-sm text-muted-foreground capitalize">{selectedNode.type}</p>
-                </div>
-                <div>
-                  <label className="text-sm font-medium">Title</label>
-                  <p className="text-sm text-muted-foreground">{selectedNode.title}</p>
-                </div>
-                {selectedNode.status && (
-                  <div>
-                    <label className="text-sm font-medium">Status</label>
-                    <Badge variant="outline" className="capitalize">
-                      {selectedNode.status.replace('_', ' ')}
-                    </Badge>
-                  </div>
-                )}
-                {selectedNode.progress !== undefined && (
-                  <div>
-                    <label className="text-sm font-medium">Progress</label>
-                    <div className="flex items-center space-x-2 mt-1">
-                      <div className="flex-1 bg-muted rounded-full h-2">
-                        <div
-                          className="bg-primary h-2 rounded-full"
-                          style={{ width: `${selectedNode.progress}%` }}
-                        />
-                      </div>
-                      <span className="text-sm">{selectedNode.progress}%</span>
-                    </div>
+      {selectedNode && (
+        <div className="bg-background absolute top-20 right-4 z-20 w-64 rounded-lg border p-4 shadow-lg">
+          <h3 className="mb-3 font-semibold">Node Properties</h3>
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm font-medium">Type</label>
+              <p className="text-muted-foreground text-sm capitalize">
+                {selectedNode.type}
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Title</label>
+              <p className="text-muted-foreground text-sm">
+                {selectedNode.title}
+              </p>
+            </div>
+            {selectedNode.status && (
+              <div>
+                <label className="text-sm font-medium">Status</label>
+                <Badge variant="outline" className="capitalize">
+                  {selectedNode.status.replace('_', ' ')}
+                </Badge>
+              </div>
+            )}
+            {selectedNode.progress !== undefined && (
+              <div>
+                <label className="text-sm font-medium">Progress</label>
+                <div className="mt-1 flex items-center space-x-2">
+                  <div className="bg-muted h-2 flex-1 rounded-full">
+                    <div
+                      className="bg-primary h-2 rounded-full"
+                      style={{ width: `${selectedNode.progress}%` }}
+                    />
                   </div>
-                )}
+                  <span className="text-sm">{selectedNode.progress}%</span>
+                </div>
               </div>
-            );
-          })()}
+            )}
+            {canManageTasks && selectedNode.type !== 'goal' && (
+              <p className="text-muted-foreground text-xs">
+                Drag the handle on the right edge onto another node to connect
+                them.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Connection Panel */}
+      {selectedConnection && (
+        <div className="bg-background absolute top-20 right-4 z-20 w-64 rounded-lg border p-4 shadow-lg">
+          <h3 className="mb-3 font-semibold">Connection</h3>
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm font-medium">Type</label>
+              <p className="text-muted-foreground text-sm">
+                {CANVAS_CONNECTION_LABELS[selectedConnection.type]}
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">From</label>
+              <p className="text-muted-foreground text-sm">
+                {nodesById.get(selectedConnection.fromNodeId)?.title}
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">To</label>
+              <p className="text-muted-foreground text-sm">
+                {nodesById.get(selectedConnection.toNodeId)?.title}
+              </p>
+            </div>
+            {selectedConnection.origin === 'structure' ? (
+              <p className="text-muted-foreground text-xs">
+                Part of the goal structure.
+              </p>
+            ) : (
+              canManageTasks && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => handleDisconnect(selectedConnection)}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Remove connection
+                </Button>
+              )
+            )}
+          </div>
         </div>
       )}
 
       {/* Status Bar */}
-      <div className="absolute bottom-4 left-4 right-4 bg-background/95 backdrop-blur-sm border rounded-lg p-2 flex items-center justify-between text-sm text-muted-foreground">
+      <div className="bg-background/95 text-muted-foreground absolute right-4 bottom-4 left-4 flex items-center justify-between rounded-lg border p-2 text-sm backdrop-blur-sm">
         <div className="flex items-center space-x-4">
           <span>{nodes.length} nodes</span>
           <span>{connections.length} connections</span>
-          {selectedNodeId && <span>Selected: {nodes.find(n => n.id === selectedNodeId)?.title}</span>}
+          {selectedNode && <span>Selected: {selectedNode.title}</span>}
         </div>
         <div className="flex items-center space-x-2">
+          {canEditLayout && (
+            <span>
+              {saveState === 'saving'
+                ? 'Saving...'
+                : saveState === 'unsaved'
+                  ? 'Unsaved changes'
+                  : saveState === 'error'
+                    ? 'Layout not saved'
+                    : 'Layout saved'}
+            </span>
+          )}
           <span>Canvas View</span>
           <Badge variant="secondary">{viewMode}</Badge>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,162 @@
+/**
+ * Edit Goal Page
+ *
+ * Page for editing an existing SMART goal with the GoalWizard component.
+ * Every step is prefilled from the goal and only the changed fields are
+ * submitted as an update.
+ */
+
+'use client';
+
+import { AlertCircle, ChevronLeft, Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import React, { useCallback, useEffect } from 'react';
+
+import { GoalWizard } from '@/components/GoalWizard/GoalWizard';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { useGoalPermissions } from '@/hooks/useGoalPermissions';
+import {
+  useCurrentGoal,
+  useGoalActions,
+  useGoalsError,
+  useGoalsLoading,
+} from '@/lib/state/goals/goalStore';
+import type {
+  SmartGoalCreate,
+  SmartGoalUpdate,
+} from '@/types/smart-goals.types';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+interface EditGoalPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// =============================================================================
+// Main Edit Goal Page Component
+// =============================================================================
+
+export default function EditGoalPage({ params }: EditGoalPageProps) {
+  const router = useRouter();
+  const [id, setId] = React.useState<string>('');
+
+  useEffect(() => {
+    params.then(p => setId(p.id));
+  }, [params]);
+
+  const currentGoal = useCurrentGoal();
+  const loading = useGoalsLoading();
+  const error = useGoalsError();
+  const { fetchGoal, updateGoal } = useGoalActions();
+
+  // The store may still hold a goal opened on another page
+  const goal = currentGoal?.id === id ? currentGoal : null;
+  const { can, loading: permissionsLoading } = useGoalPermissions(goal);
+
+  useEffect(() => {
+    if (id) {
+      fetchGoal(id);
+    }
+  }, [id, fetchGoal]);
+
+  // Handle saving the changed fields
+  const handleUpdate = useCallback(
+    async (goalId: string, updates: Partial<SmartGoalUpdate>) => {
+      try {
+        await updateGoal(goalId, updates);
+
+        toast({
+          title: 'Goal Updated',
+          description: `"${goal?.title}" has been saved.`,
+        });
+
+        router.push(`/goals/${goalId}`);
+      } catch (updateError) {
+        console.error('Failed to update goal:', updateError);
+        toast({
+          title: 'Error Updating Goal',
+          description:
+            'There was a problem saving your changes. Please try again.',
+          variant: 'destructive',
+        });
+      }
+    },
+    [goal?.title, router, updateGoal]
+  );
+
+  // Editing never creates a goal, onUpdate handles submission
+  const handleSave = useCallback((_goal: SmartGoalCreate) => {}, []);
+
+  // Handle wizard cancellation
+  const handleCancel = useCallback(() => {
+    router.push(`/goals/${id}`);
+  }, [id, router]);
+
+  const renderContent = () => {
+    if (error.currentGoal) {
+      return (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Goal could not be loaded</AlertTitle>
+          <AlertDescription>{error.currentGoal}</AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (!goal || loading.currentGoal || permissionsLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="text-muted-foreground h-6 w-6 animate-spin" />
+        </div>
+      );
+    }
+
+    if (!can('edit_goal')) {
+      return (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Editing not allowed</AlertTitle>
+          <AlertDescription>
+            You do not have permission to edit this goal.
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    return (
+      <GoalWizard
+        key={goal.id}
+        initialGoal={goal}
+        onSave={handleSave}
+        onUpdate={handleUpdate}
+        onCancel={handleCancel}
+        showProgress={true}
+        className="mx-auto max-w-4xl"
+      />
+    );
+  };
+
+  return (
+    <div className="container mx-auto max-w-5xl px-4 py-6">
+      {/* Back Navigation */}
+      <div className="mb-6">
+        <Button variant="ghost" asChild className="mb-4">
+          <Link href={`/goals/${id}`} className="flex items-center">
+            <ChevronLeft className="mr-2 h-4 w-4" />
+            Back to Goal
+          </Link>
+        </Button>
+      </div>
+
+      {/* Goal Wizard */}
+      <div className="bg-background">{renderContent()}</div>
+    </div>
+  );
+}
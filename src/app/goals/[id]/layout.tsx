@@ -17,6 +17,7 @@ import {
   Archive,
   Trash2,
   Share,
+  Download,
   Eye,
   Kanban,
   BarChart3,
@@ -42,7 +43,8 @@ import {
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { mockGoals } from '@/lib/mock-data/smart-goals';
+import { findViewableGoal } from '@/lib/api/server/authorization';
+import type { GoalExportFormat } from '@/lib/api/shared/goal-export';
 import type { SmartGoal, GoalStatus } from '@/types/smart-goals.types';
 
 // =============================================================================
@@ -56,6 +58,17 @@ interface GoalLayoutProps {
   }>;
 }
 
+// =============================================================================
+// Constants
+// =============================================================================
+
+const EXPORT_FORMATS: Array<{ format: GoalExportFormat; label: string }> = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'csv', label: 'CSV' },
+];
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -95,12 +108,11 @@ const getDaysRemaining = (targetDate: Date): number => {
 };
 
 // =============================================================================
-// Goal Data Fetching (Mock)
+// Goal Data Fetching
 // =============================================================================
 
 async function getGoal(id: string): Promise<SmartGoal | null> {
-  // TODO: Replace with actual API call
-  return mockGoals.find((goal: SmartGoal) => goal.id === id) || null;
+  return (await findViewableGoal(id))?.goal ?? null;
 }
 
 // =============================================================================
@@ -238,9 +250,11 @@ const GoalHeader: React.FC<GoalHeaderProps> = ({ goal }) => {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-48">
-              <DropdownMenuItem>
-                <Edit className="h-4 w-4 mr-2" />
-                Edit Goal
+              <DropdownMenuItem asChild>
+                <Link href={`/goals/${goal.id}/edit`}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Goal
+                </Link>
               </DropdownMenuItem>
               <DropdownMenuItem>
                 <Copy className="h-4 w-4 mr-2" />
@@ -251,6 +265,15 @@ const GoalHeader: React.FC<GoalHeaderProps> = ({ goal }) => {
                 Share Goal
               </DropdownMenuItem>
               <DropdownMenuSeparator />
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem key={format} asChild>
+                  <a href={`/api/goals/${goal.id}/export?format=${format}`} download>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export as {label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
               <DropdownMenuItem>
                 <Archive className="h-4 w-4 mr-2" />
                 Archive Goal
@@ -36,6 +36,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { useGoalPermissions } from '@/hooks/useGoalPermissions';
 import { mockGoals } from '@/lib/mock-data/smart-goals';
 import type { SmartGoal, MetricType } from '@/types/smart-goals.types';
 
@@ -308,7 +309,7 @@ interface MetricsToolbarProps {
   onTimeRangeChange: (range: string) => void;
   onRefresh: () => void;
   onExport: () => void;
-  onEditMetric: () => void;
+  onEditMetric?: () => void;
 }
 
 const MetricsToolbar: React.FC<MetricsToolbarProps> = ({
@@ -344,9 +345,11 @@ const MetricsToolbar: React.FC<MetricsToolbarProps> = ({
         <Button variant="outline" size="sm" onClick={onRefresh}>
           <RefreshCw className="h-4 w-4" />
         </Button>
-        <Button variant="outline" size="sm" onClick={onEditMetric}>
-          Edit Metric
-        </Button>
+        {onEditMetric && (
+          <Button variant="outline" size="sm" onClick={onEditMetric}>
+            Edit Metric
+          </Button>
+        )}
         <Button variant="outline" size="sm" onClick={onExport}>
           <Download className="h-4 w-4 mr-2" />
           Export
@@ -369,6 +372,9 @@ export default function GoalMetricsPage({ params }: MetricsPageProps) {
   const [goal, setGoal] = React.useState<SmartGoal | null>(null);
   const [timeRange, setTimeRange] = useState('30d');
   const [editingMetric, setEditingMetric] = useState(false);
+  const { can } = useGoalPermissions(goal);
+  const canEditGoal = can('edit_goal');
+  const canRecordCheckpoints = can('record_checkpoints');
 
   // Load goal data
   React.useEffect(() => {
@@ -440,7 +446,9 @@ export default function GoalMetricsPage({ params }: MetricsPageProps) {
         onTimeRangeChange={setTimeRange}
         onRefresh={handleRefresh}
         onExport={handleExport}
-        onEditMetric={handleEditMetric}
+        onEditMetric={
+          canEditGoal || canRecordCheckpoints ? handleEditMetric : undefined
+        }
       />
 
       {/* Key Metrics Cards */}
@@ -666,6 +674,8 @@ export default function GoalMetricsPage({ params }: MetricsPageProps) {
           <div className="bg-background rounded-lg p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <MetricEditor
               initialMetric={goal.measurable}
+              readOnly={!canEditGoal}
+              canRecordCheckpoints={canRecordCheckpoints}
               onSave={(_updatedMetric, _checkpoints) => {
                 // TODO: Update metric
                 setEditingMetric(false);
@@ -27,7 +27,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
-import { mockGoals } from '@/lib/mock-data/smart-goals';
+import { findViewableGoal } from '@/lib/api/server/authorization';
 import type { SmartGoal } from '@/types/smart-goals.types';
 
 // =============================================================================
@@ -66,15 +66,6 @@ const getProgressColor = (progress: number): string => {
   return 'text-red-600';
 };
 
-// =============================================================================
-// Data Fetching
-// =============================================================================
-
-async function getGoal(id: string): Promise<SmartGoal | null> {
-  // TODO: Replace with actual API call
-  return mockGoals.find((goal: SmartGoal) => goal.id === id) || null;
-}
-
 // =============================================================================
 // Components
 // =============================================================================
@@ -440,12 +431,14 @@ const RecentActivity: React.FC<RecentActivityProps> = ({ goal }) => {
 
 export default async function GoalOverviewPage({ params }: OverviewPageProps) {
   const { id } = await params;
-  const goal = await getGoal(id);
+  const access = await findViewableGoal(id);
 
-  if (!goal) {
+  if (!access) {
     notFound();
   }
 
+  const { goal, user } = access;
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       {/* Left Column - Main Content */}
@@ -468,12 +461,12 @@ export default async function GoalOverviewPage({ params }: OverviewPageProps) {
           </CardHeader>
           <CardContent>
             <BreakdownTree
-              initialData={[goal]}
+              initialData={[goal, ...goal.tasks]}
               config={{
-                enableDragDrop: false,
-                enableSearch: false,
-                enableFilters: false
+                enableDragDrop: false
               }}
+              currentUserId={user?.id}
+              sync
               className="max-h-96"
             />
           </CardContent>
@@ -2,151 +2,129 @@
  * Goal Review View Page
  *
  * Review and approval interface for goals with DoR/DoD panel,
- * comments, approval workflow, and change history tracking.
+ * comments, approval workflow, and change history tracking. Reviews are
+ * requested from named reviewers and settle once enough of them approve;
+ * a change request sends the goal back to draft. DoR/DoD criteria can be
+ * saved to and applied from the shared template library.
  */
 
 'use client';
 
 import {
-  MessageCircle,
-  Clock,
-  CheckCircle,
-  XCircle,
   AlertCircle,
   Calendar,
-  FileText,
-  ThumbsUp,
-  ThumbsDown,
+  CheckCircle,
+  Clock,
   Edit,
+  FileText,
   History,
+  Loader2,
+  MessageCircle,
+  RotateCcw,
+  Send,
+  ThumbsDown,
+  ThumbsUp,
   Users,
+  XCircle,
 } from 'lucide-react';
-import React, { useState } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 
+import { defaultTemplates } from '@/components/DorDodPanel/defaultTemplates';
 import { DorDodPanel } from '@/components/DorDodPanel/DorDodPanel';
+import type {
+  DorDodState,
+  DorDodTemplate,
+  TemplateLibraryChanges,
+} from '@/components/DorDodPanel/DorDodPanel.types';
+import { toTemplateCriteria } from '@/components/DorDodPanel/DorDodPanel.utils';
+import { TemplateLibrary } from '@/components/DorDodPanel/TemplateLibrary';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
-import { mockGoals } from '@/lib/mock-data/smart-goals';
-import type { SmartGoal } from '@/types/smart-goals.types';
+import { toast } from '@/hooks/use-toast';
+import { useGoalPermissions } from '@/hooks/useGoalPermissions';
+import { dorDodApi, getTemplateImportErrors } from '@/lib/api/dor-dod';
+import { goalsApi } from '@/lib/api/goals';
+import { reviewsApi, type RequestReviewRequest } from '@/lib/api/reviews';
+import { toSaveDorDodStateRequest } from '@/lib/api/shared/dor-dod';
+import { toDorDodTemplateContent } from '@/lib/api/shared/dor-dod-templates';
+import { isGoalMember } from '@/lib/api/shared/goal-access';
+import {
+  buildCommentThreads,
+  buildReviewTimeline,
+  countDecisions,
+  REVIEW_STATUS_LABELS,
+  type ReviewTimelineEntry,
+} from '@/lib/api/shared/review';
+import type {
+  DorDodTemplateVisibility,
+  StoredDorDodState,
+  StoredDorDodTemplate,
+} from '@/types/dor-dod.types';
+import type {
+  GoalReview,
+  ReviewCommentThread,
+  ReviewDecision,
+} from '@/types/review.types';
+import {
+  GoalRole,
+  GoalStatus,
+  type SmartGoal,
+} from '@/types/smart-goals.types';
 
 // =============================================================================
 // Types and Interfaces
 // =============================================================================
 
 interface ReviewPageProps {
-  params: {
+  params: Promise<{
     id: string;
-  };
-}
-
-interface ReviewComment {
-  id: string;
-  author: string;
-  content: string;
-  timestamp: Date;
-  type: 'comment' | 'approval' | 'rejection' | 'change_request';
-  parentId?: string;
-  attachments?: string[];
-}
-
-interface ReviewAction {
-  id: string;
-  type: 'created' | 'updated' | 'approved' | 'rejected' | 'commented';
-  user: string;
-  timestamp: Date;
-  details: string;
-  changes?: Record<string, { old: string; new: string }>;
-}
-
-interface ReviewStatus {
-  status: 'pending' | 'approved' | 'rejected' | 'needs_changes';
-  approvers: string[];
-  rejectors: string[];
-  requiredApprovers: number;
-  currentApprovers: number;
-  lastReviewDate?: Date;
+  }>;
 }
 
 // =============================================================================
 // Helper Functions
 // =============================================================================
 
-async function getGoal(id: string): Promise<SmartGoal | null> {
-  // TODO: Replace with actual API call
-  return mockGoals.find((goal: SmartGoal) => goal.id === id) || null;
-}
-
-const mockComments: ReviewComment[] = [
-  {
-    id: '1',
-    author: 'john.doe',
-    content: 'The goal looks well-defined, but I think the timeline might be a bit aggressive. Have you considered extending the deadline by 2 weeks?',
-    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-    type: 'comment',
-  },
-  {
-    id: '2',
-    author: 'sarah.smith',
-    content: 'I agree with John. The success criteria are clear and measurable, which is great. However, the resource allocation section needs more detail.',
-    timestamp: new Date(Date.now() - 1 * 60 * 60 * 1000), // 1 hour ago
-    type: 'comment',
-  },
-  {
-    id: '3',
-    author: 'mike.wilson',
-    content: 'Overall looks good to me. The SMART criteria are well-addressed.',
-    timestamp: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
-    type: 'approval',
-  },
-];
-
-const mockReviewActions: ReviewAction[] = [
-  {
-    id: '1',
-    type: 'created',
-    user: 'goal.owner',
-    timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000),
-    details: 'Goal created and submitted for review',
-  },
-  {
-    id: '2',
-    type: 'commented',
-    user: 'john.doe',
-    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000),
-    details: 'Added comment about timeline concerns',
-  },
-  {
-    id: '3',
-    type: 'commented',
-    user: 'sarah.smith',
-    timestamp: new Date(Date.now() - 1 * 60 * 60 * 1000),
-    details: 'Requested more details on resource allocation',
-  },
-  {
-    id: '4',
-    type: 'approved',
-    user: 'mike.wilson',
-    timestamp: new Date(Date.now() - 30 * 60 * 1000),
-    details: 'Approved the goal',
-  },
-];
+/** The first problems of a rejected template import, or the error itself */
+const describeImportError = (error: unknown): string => {
+  const problems = getTemplateImportErrors(error);
+  if (problems.length === 0) return (error as Error).message;
+  return problems
+    .slice(0, 3)
+    .map(problem => `${problem.path} ${problem.message}`)
+    .join('; ');
+};
 
 const formatTimeAgo = (date: Date): string => {
   const now = new Date();
-  const diffMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
+  const diffMinutes = Math.floor(
+    (now.getTime() - new Date(date).getTime()) / (1000 * 60)
+  );
 
+  if (diffMinutes < 1) return 'just now';
   if (diffMinutes < 60) return `${diffMinutes} minutes ago`;
 
   const diffHours = Math.floor(diffMinutes / 60);
@@ -156,16 +134,68 @@ const formatTimeAgo = (date: Date): string => {
   return `${diffDays} days ago`;
 };
 
+const getInitials = (userId: string): string =>
+  userId
+    .split(/[.\-_]/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase())
+    .join('')
+    .slice(0, 2);
+
+const UserAvatar: React.FC<{ userId: string; className?: string }> = ({
+  userId,
+  className = 'h-6 w-6',
+}) => (
+  <Avatar className={className}>
+    <AvatarImage
+      src={`https://api.dicebear.com/7.x/avatars/svg?seed=${userId}`}
+    />
+    <AvatarFallback className="text-xs">{getInitials(userId)}</AvatarFallback>
+  </Avatar>
+);
+
+/** The owner and the members with the reviewer role can review a goal */
+const getReviewCandidates = (goal: SmartGoal): string[] => [
+  goal.ownerId,
+  ...(goal.members ?? [])
+    .filter(member => member.role === GoalRole.REVIEWER)
+    .map(member => member.userId),
+];
+
+const DECISION_TITLES: Record<ReviewDecision, string> = {
+  approve: 'Approve goal',
+  reject: 'Reject goal',
+  request_changes: 'Request changes',
+};
+
+const DECISION_DESCRIPTIONS: Record<ReviewDecision, string> = {
+  approve:
+    'Your approval counts towards the approvals this review needs. You can add a comment for the owner.',
+  reject:
+    'The review is rejected once the remaining reviewers can no longer reach the required approvals.',
+  request_changes:
+    'The goal goes back to draft so the owner can rework it and request a new review.',
+};
+
 // =============================================================================
 // Components
 // =============================================================================
 
 interface CommentCardProps {
-  comment: ReviewComment;
-  onReply?: (commentId: string) => void;
+  comment: ReviewCommentThread;
+  canReply: boolean;
+  onReply: (parentId: string, content: string) => Promise<void>;
 }
 
-const CommentCard: React.FC<CommentCardProps> = ({ comment, onReply }) => {
+const CommentCard: React.FC<CommentCardProps> = ({
+  comment,
+  canReply,
+  onReply,
+}) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
   const getTypeIcon = () => {
     switch (comment.type) {
       case 'approval':
@@ -186,100 +216,179 @@ const CommentCard: React.FC<CommentCardProps> = ({ comment, onReply }) => {
       case 'rejection':
         return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
       case 'change_request':
-        return <Badge className="bg-orange-100 text-orange-800">Change Request</Badge>;
+        return (
+          <Badge className="bg-orange-100 text-orange-800">
+            Change Request
+          </Badge>
+        );
       default:
         return null;
     }
   };
 
+  const handleReply = async () => {
+    if (!reply.trim()) return;
+    setIsSending(true);
+    try {
+      await onReply(comment.id, reply);
+      setReply('');
+      setIsReplying(false);
+    } catch {
+      // Reported by onReply; keep the draft so it can be sent again
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   return (
-    <Card>
-      <CardContent className="p-4">
-        <div className="flex items-start space-x-3">
-          <Avatar className="h-8 w-8">
-            <AvatarImage src={`https://api.dicebear.com/7.x/avatars/svg?seed=${comment.author}`} />
-            <AvatarFallback>
-              {comment.author.split('.').map(n => n[0].toUpperCase()).join('')}
-            </AvatarFallback>
-          </Avatar>
-
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center justify-between mb-2">
-              <div className="flex items-center space-x-2">
-                <span className="font-medium text-sm">{comment.author}</span>
-                {getTypeBadge()}
-              </div>
-              <div className="flex items-center space-x-1 text-xs text-muted-foreground">
-                {getTypeIcon()}
-                <span>{formatTimeAgo(comment.timestamp)}</span>
+    <div className="space-y-3">
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex items-start space-x-3">
+            <UserAvatar userId={comment.authorId} className="h-8 w-8" />
+
+            <div className="min-w-0 flex-1">
+              <div className="mb-2 flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium">
+                    {comment.authorId}
+                  </span>
+                  {getTypeBadge()}
+                </div>
+                <div className="text-muted-foreground flex items-center space-x-1 text-xs">
+                  {getTypeIcon()}
+                  <span>{formatTimeAgo(comment.createdAt)}</span>
+                </div>
               </div>
-            </div>
 
-            <p className="text-sm mb-3">{comment.content}</p>
+              <p className="mb-3 text-sm whitespace-pre-wrap">
+                {comment.content}
+              </p>
 
-            {comment.attachments && comment.attachments.length > 0 && (
-              <div className="flex items-center space-x-2 mb-3">
-                <FileText className="h-4 w-4 text-muted-foreground" />
-                <span className="text-xs text-muted-foreground">
-                  {comment.attachments.length} attachment(s)
-                </span>
-              </div>
-            )}
+              {canReply && !isReplying && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsReplying(true)}
+                  className="text-xs"
+                >
+                  Reply
+                </Button>
+              )}
 
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => onReply?.(comment.id)}
-              className="text-xs"
-            >
-              Reply
-            </Button>
+              {isReplying && (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder={`Reply to ${comment.authorId}...`}
+                    value={reply}
+                    onChange={e => setReply(e.target.value)}
+                    rows={2}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setIsReplying(false);
+                        setReply('');
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleReply}
+                      disabled={!reply.trim() || isSending}
+                    >
+                      {isSending && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      Reply
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
+        </CardContent>
+      </Card>
+
+      {comment.replies.length > 0 && (
+        <div className="border-muted ml-6 space-y-3 border-l-2 pl-4">
+          {comment.replies.map(replyThread => (
+            <CommentCard
+              key={replyThread.id}
+              comment={replyThread}
+              canReply={canReply}
+              onReply={onReply}
+            />
+          ))}
         </div>
-      </CardContent>
-    </Card>
+      )}
+    </div>
   );
 };
 
 interface ReviewStatusCardProps {
-  status: ReviewStatus;
-  onApprove: () => void;
-  onReject: () => void;
-  onRequestChanges: () => void;
+  review: GoalReview;
+  canDecide: boolean;
+  canRequest: boolean;
+  onDecide: (decision: ReviewDecision) => void;
+  onRequestReview: () => void;
 }
 
 const ReviewStatusCard: React.FC<ReviewStatusCardProps> = ({
-  status,
-  onApprove,
-  onReject,
-  onRequestChanges
+  review,
+  canDecide,
+  canRequest,
+  onDecide,
+  onRequestReview,
 }) => {
   const getStatusColor = () => {
-    switch (status.status) {
+    switch (review.status) {
       case 'approved':
         return 'bg-green-100 text-green-800 border-green-200';
       case 'rejected':
         return 'bg-red-100 text-red-800 border-red-200';
-      case 'needs_changes':
+      case 'changes_requested':
         return 'bg-orange-100 text-orange-800 border-orange-200';
+      case 'not_requested':
+        return 'bg-gray-100 text-gray-800 border-gray-200';
       default:
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
     }
   };
 
   const getStatusIcon = () => {
-    switch (status.status) {
+    switch (review.status) {
       case 'approved':
         return <CheckCircle className="h-5 w-5 text-green-600" />;
       case 'rejected':
         return <XCircle className="h-5 w-5 text-red-600" />;
-      case 'needs_changes':
+      case 'changes_requested':
         return <AlertCircle className="h-5 w-5 text-orange-600" />;
       default:
         return <Clock className="h-5 w-5 text-yellow-600" />;
     }
   };
 
+  const getDecisionBadge = (decision?: ReviewDecision) => {
+    switch (decision) {
+      case 'approve':
+        return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+      case 'reject':
+        return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+      case 'request_changes':
+        return (
+          <Badge className="bg-orange-100 text-orange-800">
+            Changes requested
+          </Badge>
+        );
+      default:
+        return <Badge variant="outline">Waiting</Badge>;
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -292,99 +401,320 @@ const ReviewStatusCard: React.FC<ReviewStatusCardProps> = ({
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
             {getStatusIcon()}
-            <span className="font-medium capitalize">
-              {status.status.replace('_', ' ')}
+            <span className="font-medium">
+              {REVIEW_STATUS_LABELS[review.status]}
             </span>
           </div>
-          <Badge className={getStatusColor()}>
-            {status.currentApprovers}/{status.requiredApprovers} approvals
-          </Badge>
+          {review.status !== 'not_requested' && (
+            <Badge className={getStatusColor()}>
+              {countDecisions(review, 'approve')}/{review.requiredApprovals}{' '}
+              approvals
+            </Badge>
+          )}
         </div>
 
+        {review.reviewers.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">
+                Reviewers ({review.reviewers.length}) &middot; round{' '}
+                {review.round}
+              </h4>
+              {review.reviewers.map(reviewer => (
+                <div
+                  key={reviewer.userId}
+                  className="flex items-center justify-between"
+                >
+                  <div className="flex items-center space-x-2">
+                    <UserAvatar userId={reviewer.userId} />
+                    <span className="text-sm">{reviewer.userId}</span>
+                  </div>
+                  {getDecisionBadge(reviewer.decision)}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
         <Separator />
 
-        <div className="space-y-3">
-          <div>
-            <h4 className="text-sm font-medium mb-2">Approvers ({status.approvers.length})</h4>
-            {status.approvers.length > 0 ? (
-              <div className="flex items-center space-x-2">
-                {status.approvers.slice(0, 3).map(approver => (
-                  <Avatar key={approver} className="h-6 w-6">
-                    <AvatarImage src={`https://api.dicebear.com/7.x/avatars/svg?seed=${approver}`} />
-                    <AvatarFallback className="text-xs">
-                      {approver.split('.').map(n => n[0].toUpperCase()).join('')}
-                    </AvatarFallback>
-                  </Avatar>
-                ))}
-                {status.approvers.length > 3 && (
-                  <div className="h-6 w-6 rounded-full bg-muted flex items-center justify-center text-xs">
-                    +{status.approvers.length - 3}
-                  </div>
-                )}
-              </div>
+        {canDecide ? (
+          <div className="flex space-x-2">
+            <Button
+              onClick={() => onDecide('approve')}
+              className="flex-1"
+              size="sm"
+            >
+              <ThumbsUp className="mr-2 h-4 w-4" />
+              Approve
+            </Button>
+            <Button
+              onClick={() => onDecide('reject')}
+              variant="destructive"
+              className="flex-1"
+              size="sm"
+            >
+              <ThumbsDown className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+            <Button
+              onClick={() => onDecide('request_changes')}
+              variant="outline"
+              className="flex-1"
+              size="sm"
+            >
+              <Edit className="mr-2 h-4 w-4" />
+              Request Changes
+            </Button>
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">
+            {review.status === 'pending'
+              ? 'Only the named reviewers can approve or reject this goal.'
+              : 'No review is waiting for a decision.'}
+          </p>
+        )}
+
+        {canRequest && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={onRequestReview}
+          >
+            {review.status === 'not_requested' ? (
+              <Send className="mr-2 h-4 w-4" />
             ) : (
-              <p className="text-sm text-muted-foreground">No approvals yet</p>
+              <RotateCcw className="mr-2 h-4 w-4" />
             )}
-          </div>
+            {review.status === 'not_requested'
+              ? 'Request Review'
+              : 'Request New Review'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
 
-          {status.rejectors.length > 0 && (
-            <div>
-              <h4 className="text-sm font-medium mb-2">Rejectors ({status.rejectors.length})</h4>
-              <div className="flex items-center space-x-2">
-                {status.rejectors.slice(0, 3).map(rejector => (
-                  <Avatar key={rejector} className="h-6 w-6">
-                    <AvatarImage src={`https://api.dicebear.com/7.x/avatars/svg?seed=${rejector}`} />
-                    <AvatarFallback className="text-xs">
-                      {rejector.split('.').map(n => n[0].toUpperCase()).join('')}
-                    </AvatarFallback>
-                  </Avatar>
-                ))}
-                {status.rejectors.length > 3 && (
-                  <div className="h-6 w-6 rounded-full bg-muted flex items-center justify-center text-xs">
-                    +{status.rejectors.length - 3}
-                  </div>
-                )}
+interface RequestReviewDialogProps {
+  open: boolean;
+  candidates: string[];
+  onSubmit: (request: RequestReviewRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const RequestReviewDialog: React.FC<RequestReviewDialogProps> = ({
+  open,
+  candidates,
+  onSubmit,
+  onClose,
+}) => {
+  const [reviewerIds, setReviewerIds] = useState<string[]>([]);
+  const [requiredApprovals, setRequiredApprovals] = useState('1');
+  const [message, setMessage] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setReviewerIds([]);
+    setRequiredApprovals('1');
+    setMessage('');
+  }, [open]);
+
+  const required = Number(requiredApprovals);
+  const isValid =
+    reviewerIds.length > 0 &&
+    Number.isInteger(required) &&
+    required >= 1 &&
+    required <= reviewerIds.length;
+
+  const toggleReviewer = (userId: string, checked: boolean) =>
+    setReviewerIds(prev =>
+      checked ? [...prev, userId] : prev.filter(id => id !== userId)
+    );
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        reviewerIds,
+        requiredApprovals: required,
+        message: message.trim() || undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request review</DialogTitle>
+          <DialogDescription>
+            Pick who should review this goal and how many of them must approve
+            it. Earlier decisions are cleared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reviewers</Label>
+            {candidates.map(userId => (
+              <div key={userId} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`reviewer-${userId}`}
+                  checked={reviewerIds.includes(userId)}
+                  onCheckedChange={checked =>
+                    toggleReviewer(userId, checked === true)
+                  }
+                />
+                <Label htmlFor={`reviewer-${userId}`} className="font-normal">
+                  {userId}
+                </Label>
               </div>
-            </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between space-x-4">
+            <Label htmlFor="required-approvals">Required approvals</Label>
+            <Input
+              id="required-approvals"
+              type="number"
+              min={1}
+              max={Math.max(reviewerIds.length, 1)}
+              step={1}
+              className="w-28"
+              value={requiredApprovals}
+              onChange={event => setRequiredApprovals(event.target.value)}
+            />
+          </div>
+          {reviewerIds.length > 0 && !isValid && (
+            <p className="text-sm text-red-600">
+              Required approvals must be between 1 and {reviewerIds.length}.
+            </p>
           )}
-        </div>
 
-        <Separator />
+          <div className="space-y-2">
+            <Label htmlFor="review-message">Message (optional)</Label>
+            <Textarea
+              id="review-message"
+              value={message}
+              onChange={event => setMessage(event.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
 
-        <div className="flex space-x-2">
-          <Button onClick={onApprove} className="flex-1" size="sm">
-            <ThumbsUp className="h-4 w-4 mr-2" />
-            Approve
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
           </Button>
-          <Button onClick={onReject} variant="destructive" className="flex-1" size="sm">
-            <ThumbsDown className="h-4 w-4 mr-2" />
-            Reject
+          <Button onClick={handleSubmit} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Request Review
           </Button>
-          <Button onClick={onRequestChanges} variant="outline" className="flex-1" size="sm">
-            <Edit className="h-4 w-4 mr-2" />
-            Request Changes
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface DecisionDialogProps {
+  decision: ReviewDecision | null;
+  onSubmit: (decision: ReviewDecision, comment: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const DecisionDialog: React.FC<DecisionDialogProps> = ({
+  decision,
+  onSubmit,
+  onClose,
+}) => {
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (decision) setComment('');
+  }, [decision]);
+
+  const handleSubmit = async () => {
+    if (!decision) return;
+    setIsSaving(true);
+    try {
+      await onSubmit(decision, comment);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={decision !== null}
+      onOpenChange={isOpen => !isOpen && onClose()}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{decision && DECISION_TITLES[decision]}</DialogTitle>
+          <DialogDescription>
+            {decision && DECISION_DESCRIPTIONS[decision]}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          placeholder={
+            decision === 'approve'
+              ? 'Comment (optional)'
+              : 'Explain what should change (optional)'
+          }
+          value={comment}
+          onChange={event => setComment(event.target.value)}
+          rows={4}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
           </Button>
-        </div>
-      </CardContent>
-    </Card>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSaving}
+            variant={decision === 'reject' ? 'destructive' : 'default'}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {decision && DECISION_TITLES[decision]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
   );
 };
 
 interface ActivityTimelineProps {
-  actions: ReviewAction[];
+  entries: ReviewTimelineEntry[];
 }
 
-const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ actions }) => {
-  const getActionIcon = (type: string) => {
+const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ entries }) => {
+  const getEntryIcon = (type: ReviewTimelineEntry['type']) => {
     switch (type) {
-      case 'created':
+      case 'goal_created':
         return <FileText className="h-4 w-4 text-blue-600" />;
-      case 'updated':
+      case 'review_requested':
+        return <Send className="h-4 w-4 text-blue-600" />;
+      case 'task_status_changed':
         return <Edit className="h-4 w-4 text-orange-600" />;
       case 'approved':
+      case 'review_completed':
         return <CheckCircle className="h-4 w-4 text-green-600" />;
       case 'rejected':
         return <XCircle className="h-4 w-4 text-red-600" />;
+      case 'changes_requested':
+        return <AlertCircle className="h-4 w-4 text-orange-600" />;
+      case 'goal_reopened':
+        return <RotateCcw className="h-4 w-4 text-orange-600" />;
       case 'commented':
         return <MessageCircle className="h-4 w-4 text-purple-600" />;
       default:
@@ -392,37 +722,25 @@ const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ actions }) => {
     }
   };
 
+  if (entries.length === 0) {
+    return <p className="text-muted-foreground text-sm">No activity yet.</p>;
+  }
+
   return (
     <div className="space-y-4">
-      {actions.map((action) => (
-        <div key={action.id} className="flex items-start space-x-3">
-          <div className="flex-shrink-0">
-            {getActionIcon(action.type)}
-          </div>
-          <div className="flex-1 min-w-0">
+      {entries.map(entry => (
+        <div key={entry.id} className="flex items-start space-x-3">
+          <div className="flex-shrink-0">{getEntryIcon(entry.type)}</div>
+          <div className="min-w-0 flex-1">
             <div className="flex items-center justify-between">
               <p className="text-sm">
-                <span className="font-medium">{action.user}</span> {action.details}
+                <span className="font-medium">{entry.actorId}</span>{' '}
+                {entry.details}
               </p>
-              <span className="text-xs text-muted-foreground">
-                {formatTimeAgo(action.timestamp)}
+              <span className="text-muted-foreground text-xs">
+                {formatTimeAgo(entry.at)}
               </span>
             </div>
-            {action.changes && (
-              <div className="mt-2 p-2 bg-muted/50 rounded text-xs">
-                <span className="font-medium">Changes made:</span>
-                <ul className="mt-1 space-y-1">
-                  {Object.entries(action.changes).map(([field, change]) => (
-                    <li key={field} className="flex items-center space-x-2">
-                      <span>{field}:</span>
-                      <span className="text-red-600">&ldquo;{change.old}&rdquo;</span>
-                      <span>→</span>
-                      <span className="text-green-600">&ldquo;{change.new}&rdquo;</span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            )}
           </div>
         </div>
       ))}
@@ -435,61 +753,361 @@ const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ actions }) => {
 // =============================================================================
 
 export default function GoalReviewPage({ params }: ReviewPageProps) {
-  const [goal, setGoal] = React.useState<SmartGoal | null>(null);
-  const [comments, setComments] = useState<ReviewComment[]>(mockComments);
+  const [id, setId] = useState('');
+  const [goal, setGoal] = useState<SmartGoal | null>(null);
+  const [review, setReview] = useState<GoalReview | null>(null);
+  const [dorDod, setDorDod] = useState<StoredDorDodState | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [newComment, setNewComment] = useState('');
-  const [reviewStatus] = useState<ReviewStatus>({
-    status: 'pending',
-    approvers: ['mike.wilson'],
-    rejectors: [],
-    requiredApprovers: 3,
-    currentApprovers: 1,
-  });
-
-  // Load goal data
-  React.useEffect(() => {
-    const loadGoal = async () => {
-      const goalData = await getGoal(params.id);
-      if (goalData) {
+  const [isPostingComment, setIsPostingComment] = useState(false);
+  const [pendingDecision, setPendingDecision] = useState<ReviewDecision | null>(
+    null
+  );
+  const [isRequestDialogOpen, setIsRequestDialogOpen] = useState(false);
+  const [templateLibrary, setTemplateLibrary] = useState<
+    StoredDorDodTemplate[]
+  >([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [panelCriteria, setPanelCriteria] =
+    useState<Pick<DorDodTemplate, 'dorCriteria' | 'dodCriteria'>>();
+  const { user, can } = useGoalPermissions(goal);
+  const userId = user?.id;
+  const canApprove = can('approve_criteria');
+
+  const canDecide =
+    review?.status === 'pending' &&
+    review.reviewers.some(reviewer => reviewer.userId === user?.id);
+  const canComment = !!goal && !!user && isGoalMember(goal, user.id);
+
+  const threads = useMemo(
+    () => buildCommentThreads(review?.comments ?? []),
+    [review]
+  );
+  const timeline = useMemo(
+    () => (goal && review ? buildReviewTimeline(goal, review) : []),
+    [goal, review]
+  );
+  const dorDodConditionContext = useMemo(
+    () => ({ goal: goal ?? undefined }),
+    [goal]
+  );
+  const dorDodTemplates = useMemo(
+    () => [...defaultTemplates, ...templateLibrary],
+    [templateLibrary]
+  );
+
+  // Last DoR/DoD payload loaded or saved, so unchanged panel states are
+  // not sent again
+  const savedDorDodRef = useRef('');
+  const dorDodSaveTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => {
+    params.then(p => setId(p.id));
+  }, [params]);
+
+  // Load goal and review data
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    Promise.all([
+      goalsApi.getGoal(id),
+      reviewsApi.getReview(id),
+      dorDodApi.getState({ type: 'goal', id }),
+    ])
+      .then(([goalData, reviewData, dorDodData]) => {
+        if (cancelled) return;
+        savedDorDodRef.current = JSON.stringify(
+          toSaveDorDodStateRequest(dorDodData)
+        );
         setGoal(goalData);
-      }
+        setReview(reviewData);
+        setDorDod(dorDodData);
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError((error as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [id]);
+
+  useEffect(() => () => clearTimeout(dorDodSaveTimerRef.current), []);
+
+  // The library is optional; the built-in templates work without it
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    dorDodApi
+      .listTemplates()
+      .then(templates => {
+        if (!cancelled) setTemplateLibrary(templates);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: 'Could not load the template library',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Save DoR/DoD changes once the panel has been idle for a moment
+  const handleDorDodChange = useCallback(
+    (state: DorDodState) => {
+      if (!goal) return;
+      setPanelCriteria({
+        dorCriteria: toTemplateCriteria(state.dorCriteria),
+        dodCriteria: toTemplateCriteria(state.dodCriteria),
+      });
+      const request = toSaveDorDodStateRequest(state);
+      const payload = JSON.stringify(request);
+      clearTimeout(dorDodSaveTimerRef.current);
+      if (payload === savedDorDodRef.current) return;
+
+      dorDodSaveTimerRef.current = setTimeout(() => {
+        dorDodApi
+          .saveState({ type: 'goal', id: goal.id }, request)
+          .then(() => {
+            savedDorDodRef.current = payload;
+          })
+          .catch(error => {
+            toast({
+              title: 'Could not save DoR/DoD',
+              description: (error as Error).message,
+              variant: 'destructive',
+            });
+          });
+      }, 800);
+    },
+    [goal]
+  );
+
+  const replaceLibraryTemplate = (template: StoredDorDodTemplate) =>
+    setTemplateLibrary(prev =>
+      prev.map(t => (t.id === template.id ? template : t))
+    );
+
+  const handleSaveTemplate = useCallback(
+    async (template: DorDodTemplate, visibility: DorDodTemplateVisibility) => {
+      try {
+        const saved = await dorDodApi.createTemplate({
+          ...toDorDodTemplateContent(template),
+          visibility,
+        });
+        setTemplateLibrary(prev => [...prev, saved]);
+        toast({ title: `Template "${saved.name}" saved` });
+      } catch (error) {
+        toast({
+          title: 'Could not save template',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    []
+  );
+
+  const handleUpdateTemplate = useCallback(
+    async (template: StoredDorDodTemplate, changes: TemplateLibraryChanges) => {
+      try {
+        const saved = await dorDodApi.updateTemplate(template.id, {
+          ...toDorDodTemplateContent(template),
+          visibility: template.visibility,
+          ...changes,
+        });
+        replaceLibraryTemplate(saved);
+        if (saved.version !== template.version) {
+          toast({ title: `Saved version ${saved.version} of "${saved.name}"` });
+        }
+      } catch (error) {
+        toast({
+          title: 'Could not update template',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    []
+  );
+
+  const handleRestoreTemplate = useCallback(
+    async (template: StoredDorDodTemplate, version: number) => {
+      try {
+        replaceLibraryTemplate(
+          await dorDodApi.restoreTemplateVersion(template.id, version)
+        );
+        toast({ title: `Restored version ${version} of "${template.name}"` });
+      } catch (error) {
+        toast({
+          title: 'Could not restore template',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    []
+  );
+
+  const handleDeleteTemplate = useCallback(
+    async (template: StoredDorDodTemplate) => {
+      if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+      try {
+        await dorDodApi.deleteTemplate(template.id);
+        setTemplateLibrary(prev => prev.filter(t => t.id !== template.id));
+      } catch (error) {
+        toast({
+          title: 'Could not delete template',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    []
+  );
+
+  const handleImportTemplates = useCallback(
+    async (
+      content: string,
+      visibility: DorDodTemplateVisibility,
+      format?: 'json' | 'yaml'
+    ) => {
+      try {
+        const imported = await dorDodApi.importTemplates({
+          content,
+          format,
+          visibility,
+        });
+        setTemplateLibrary(prev => [...prev, ...imported]);
+        toast({
+          title: `Imported ${imported.length} template${imported.length === 1 ? '' : 's'}`,
+        });
+      } catch (error) {
+        toast({
+          title: 'Could not import templates',
+          description: describeImportError(error),
+          variant: 'destructive',
+        });
+      }
+    },
+    []
+  );
+
+  const addComment = useCallback(
+    async (content: string, parentId?: string) => {
+      if (!goal) return;
+      try {
+        setReview(await reviewsApi.addComment(goal.id, { content, parentId }));
+      } catch (error) {
+        toast({
+          title: 'Could not post comment',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+        throw error;
+      }
+    },
+    [goal]
+  );
 
-    loadGoal();
-  }, [params.id]);
-
-  const handleAddComment = () => {
-    if (newComment.trim()) {
-      const comment: ReviewComment = {
-        id: Date.now().toString(),
-        author: 'current.user',
-        content: newComment,
-        timestamp: new Date(),
-        type: 'comment',
-      };
-      setComments([...comments, comment]);
+  const handleAddComment = async () => {
+    if (!newComment.trim()) return;
+    setIsPostingComment(true);
+    try {
+      await addComment(newComment);
       setNewComment('');
+    } catch {
+      // Reported by addComment; keep the draft so it can be sent again
+    } finally {
+      setIsPostingComment(false);
     }
   };
 
-  const handleApprove = () => {
-    // TODO: Implement approval logic
-  };
+  const handleReply = useCallback(
+    async (parentId: string, content: string) => {
+      await addComment(content, parentId);
+    },
+    [addComment]
+  );
 
-  const handleReject = () => {
-    // TODO: Implement rejection logic
-  };
+  const handleRequestReview = useCallback(
+    async (request: RequestReviewRequest) => {
+      if (!goal) return;
+      try {
+        setReview(await reviewsApi.requestReview(goal.id, request));
+        setIsRequestDialogOpen(false);
+      } catch (error) {
+        toast({
+          title: 'Could not request review',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    [goal]
+  );
 
-  const handleRequestChanges = () => {
-    // TODO: Implement change request logic
-  };
+  const handleDecision = useCallback(
+    async (decision: ReviewDecision, comment: string) => {
+      if (!goal) return;
+      try {
+        const updated = await reviewsApi.decide(goal.id, {
+          decision,
+          comment: comment.trim() || undefined,
+        });
+        setReview(updated);
+        setPendingDecision(null);
+
+        if (updated.status === 'changes_requested') {
+          setGoal(prev =>
+            prev ? { ...prev, status: GoalStatus.DRAFT } : prev
+          );
+          toast({
+            title: 'Changes requested',
+            description: 'The goal was moved back to draft.',
+          });
+        } else if (
+          updated.status === 'approved' ||
+          updated.status === 'rejected'
+        ) {
+          toast({
+            title: `Review ${REVIEW_STATUS_LABELS[updated.status].toLowerCase()}`,
+          });
+        }
+      } catch (error) {
+        toast({
+          title: 'Could not submit decision',
+          description: (error as Error).message,
+          variant: 'destructive',
+        });
+      }
+    },
+    [goal]
+  );
 
-  if (!goal) {
+  if (loadError) {
     return (
-      <div className="flex items-center justify-center h-96">
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Review could not be loaded</AlertTitle>
+        <AlertDescription>{loadError}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!goal || !review) {
+    return (
+      <div className="flex h-96 items-center justify-center">
         <div className="text-center">
-          <div className="text-lg font-medium mb-2">Loading review...</div>
-          <div className="text-sm text-muted-foreground">
+          <div className="mb-2 text-lg font-medium">Loading review...</div>
+          <div className="text-muted-foreground text-sm">
             Preparing goal review interface
           </div>
         </div>
@@ -507,56 +1125,60 @@ export default function GoalReviewPage({ params }: ReviewPageProps) {
         </TabsList>
 
         <TabsContent value="review" className="space-y-6">
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
             {/* Main Content */}
-            <div className="lg:col-span-2 space-y-6">
+            <div className="space-y-6 lg:col-span-2">
               {/* Comments Section */}
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center space-x-2">
                     <MessageCircle className="h-5 w-5" />
                     <span>Comments & Feedback</span>
-                    <Badge variant="secondary">{comments.length}</Badge>
+                    <Badge variant="secondary">{review.comments.length}</Badge>
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {/* Add Comment */}
-                  <div className="space-y-3">
-                    <Textarea
-                      placeholder="Add your comment or feedback..."
-                      value={newComment}
-                      onChange={(e) => setNewComment(e.target.value)}
-                      rows={3}
-                    />
-                    <div className="flex items-center justify-between">
-                      <Select defaultValue="comment">
-                        <SelectTrigger className="w-48">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="comment">General Comment</SelectItem>
-                          <SelectItem value="approval">Approval</SelectItem>
-                          <SelectItem value="rejection">Rejection</SelectItem>
-                          <SelectItem value="change_request">Change Request</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <Button onClick={handleAddComment} disabled={!newComment.trim()}>
-                        Add Comment
-                      </Button>
-                    </div>
-                  </div>
+                  {canComment && (
+                    <>
+                      <div className="space-y-3">
+                        <Textarea
+                          placeholder="Add your comment or feedback..."
+                          value={newComment}
+                          onChange={e => setNewComment(e.target.value)}
+                          rows={3}
+                        />
+                        <div className="flex justify-end">
+                          <Button
+                            onClick={handleAddComment}
+                            disabled={!newComment.trim() || isPostingComment}
+                          >
+                            {isPostingComment && (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            )}
+                            Add Comment
+                          </Button>
+                        </div>
+                      </div>
 
-                  <Separator />
+                      <Separator />
+                    </>
+                  )}
 
                   {/* Comments List */}
                   <div className="space-y-4">
-                    {comments.map((comment) => (
-                      <CommentCard key={comment.id} comment={comment} />
+                    {threads.map(thread => (
+                      <CommentCard
+                        key={thread.id}
+                        comment={thread}
+                        canReply={canComment}
+                        onReply={handleReply}
+                      />
                     ))}
 
-                    {comments.length === 0 && (
-                      <div className="text-center py-8">
-                        <MessageCircle className="h-12 w-12 text-muted-foreground/50 mx-auto mb-4" />
+                    {threads.length === 0 && (
+                      <div className="py-8 text-center">
+                        <MessageCircle className="text-muted-foreground/50 mx-auto mb-4 h-12 w-12" />
                         <p className="text-muted-foreground">
                           No comments yet. Be the first to provide feedback!
                         </p>
@@ -571,10 +1193,11 @@ export default function GoalReviewPage({ params }: ReviewPageProps) {
             <div className="space-y-6">
               {/* Review Status */}
               <ReviewStatusCard
-                status={reviewStatus}
-                onApprove={handleApprove}
-                onReject={handleReject}
-                onRequestChanges={handleRequestChanges}
+                review={review}
+                canDecide={canDecide}
+                canRequest={can('edit_goal')}
+                onDecide={setPendingDecision}
+                onRequestReview={() => setIsRequestDialogOpen(true)}
               />
 
               {/* Goal Summary */}
@@ -584,30 +1207,29 @@ export default function GoalReviewPage({ params }: ReviewPageProps) {
                 </CardHeader>
                 <CardContent className="space-y-3">
                   <div>
-                    <h4 className="font-medium text-sm mb-1">Status</h4>
+                    <h4 className="mb-1 text-sm font-medium">Status</h4>
                     <Badge>{goal.status}</Badge>
                   </div>
                   <div>
-                    <h4 className="font-medium text-sm mb-1">Priority</h4>
+                    <h4 className="mb-1 text-sm font-medium">Priority</h4>
                     <Badge variant="outline">{goal.priority}</Badge>
                   </div>
                   <div>
-                    <h4 className="font-medium text-sm mb-1">Owner</h4>
+                    <h4 className="mb-1 text-sm font-medium">Owner</h4>
                     <div className="flex items-center space-x-2">
-                      <Avatar className="h-6 w-6">
-                        <AvatarImage src={`https://api.dicebear.com/7.x/avatars/svg?seed=${goal.ownerId}`} />
-                        <AvatarFallback className="text-xs">
-                          {goal.ownerId.slice(0, 2).toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
+                      <UserAvatar userId={goal.ownerId} />
                       <span className="text-sm">{goal.ownerId}</span>
                     </div>
                   </div>
                   <div>
-                    <h4 className="font-medium text-sm mb-1">Due Date</h4>
+                    <h4 className="mb-1 text-sm font-medium">Due Date</h4>
                     <div className="flex items-center space-x-1 text-sm">
-                      <Calendar className="h-4 w-4 text-muted-foreground" />
-                      <span>{goal.timebound.targetDate.toLocaleDateString()}</span>
+                      <Calendar className="text-muted-foreground h-4 w-4" />
+                      <span>
+                        {new Date(
+                          goal.timebound.targetDate
+                        ).toLocaleDateString()}
+                      </span>
                     </div>
                   </div>
                 </CardContent>
@@ -617,12 +1239,22 @@ export default function GoalReviewPage({ params }: ReviewPageProps) {
         </TabsContent>
 
         <TabsContent value="dor-dod" className="space-y-6">
-          <DorDodPanel
-            onStateChange={(_state) => {
-              // TODO: Handle DoR/DoD state change
-            }}
-            readOnly={false}
-          />
+          {dorDod && (
+            <DorDodPanel
+              initialState={dorDod}
+              onStateChange={handleDorDodChange}
+              readOnly={!can('edit_goal')}
+              canApprove={canApprove}
+              approverId={user?.id}
+              showApprovalWorkflow
+              conditionContext={dorDodConditionContext}
+              templates={dorDodTemplates}
+              onSaveTemplate={user ? handleSaveTemplate : undefined}
+              onManageTemplates={
+                user ? () => setIsLibraryOpen(true) : undefined
+              }
+            />
+          )}
         </TabsContent>
 
         <TabsContent value="history" className="space-y-6">
@@ -634,11 +1266,36 @@ export default function GoalReviewPage({ params }: ReviewPageProps) {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <ActivityTimeline actions={mockReviewActions} />
+              <ActivityTimeline entries={timeline} />
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
+
+      <RequestReviewDialog
+        open={isRequestDialogOpen}
+        candidates={getReviewCandidates(goal)}
+        onSubmit={handleRequestReview}
+        onClose={() => setIsRequestDialogOpen(false)}
+      />
+
+      <DecisionDialog
+        decision={pendingDecision}
+        onSubmit={handleDecision}
+        onClose={() => setPendingDecision(null)}
+      />
+
+      <TemplateLibrary
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        templates={templateLibrary}
+        currentUserId={user?.id}
+        currentCriteria={panelCriteria}
+        onUpdate={handleUpdateTemplate}
+        onRestoreVersion={handleRestoreTemplate}
+        onDelete={handleDeleteTemplate}
+        onImport={handleImportTemplates}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -30,11 +30,30 @@ import {
   verticalListSortingStrategy,
   sortableKeyboardCoordinates,
 } from '@dnd-kit/sortable';
-import { ExpandIcon, ShrinkIcon, TreePine } from 'lucide-react';
-import React, { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  ExpandIcon,
+  History,
+  Redo2,
+  ShrinkIcon,
+  TreePine,
+  Undo2,
+} from 'lucide-react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { toast } from 'sonner';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
@@ -44,16 +63,25 @@ import {
   type TreeNode as TreeNodeData,
   type TreeNodeMove,
   type QuickActionType,
+  type TreeClipboardPayload,
+  type TreeSyncOptions,
   SelectionMode,
   TreeNodeType,
   KeyboardAction,
 } from './BreakdownTree.types';
 import { DragDropTreeNode } from './DragDropTreeNode';
 import { TreeProvider, useTreeContext } from './TreeContext';
+import { TreeHistoryPanel } from './TreeHistoryPanel';
 import { TreeNode } from './TreeNode';
 import { TreeSearch } from './TreeSearch';
 import { keyboardNavigation } from './utils/keyboard-navigation';
+import { treeClipboard } from './utils/tree-clipboard';
 import { treeUtils } from './utils/tree-utils';
+import {
+  DEFAULT_VIRTUAL_ROW_HEIGHT,
+  DEFAULT_VIRTUAL_SCROLL_THRESHOLD,
+  VirtualTreeList,
+} from './VirtualTreeList';
 
 // =============================================================================
 // Drop Animation Configuration
@@ -69,6 +97,18 @@ const dropAnimation: DropAnimation = {
   }),
 };
 
+/** Sync options used for `sync={true}` */
+const DEFAULT_SYNC_OPTIONS: TreeSyncOptions = {};
+
+/** Whether a key event comes from a field that handles undo itself */
+function isEditableTarget(target: EventTarget): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
 // =============================================================================
 // TreeContent Component (Internal)
 // =============================================================================
@@ -81,13 +121,15 @@ function TreeContent({
   onNodeCreate: _onNodeCreate,
   onNodeDelete,
   onTreeChange: _onTreeChange,
+  currentUserId,
   className,
   isLoading = false,
   error,
 }: Omit<BreakdownTreeProps, 'initialData'>) {
   const { state, operations, utils } = useTreeContext();
+  const containerRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const [, setDraggedNode] = useState<TreeNodeData | null>(null);
+  const [draggedNode, setDraggedNode] = useState<TreeNodeData | null>(null);
   const [dragOverlay, setDragOverlay] = useState<React.ReactNode>(null);
 
   // =============================================================================
@@ -113,37 +155,135 @@ function TreeContent({
   const enableSearch = config?.enableSearch ?? true;
   const enableFilters = config?.enableFilters ?? true;
   const enableKeyboardNavigation = config?.enableKeyboardNavigation ?? true;
+  const enableHistory = config?.enableHistory ?? true;
   // TODO: Implement connection lines feature
   // const showConnectionLines = config?.showConnectionLines ?? true;
 
-  // Get visible nodes based on expansion and search/filter state
-  const visibleNodes = useMemo(() => {
-    const flatNodes = treeUtils.flattenTree(state.tree, true);
-
-    // Apply search/filter if active
-    if (state.searchFilter.isActive) {
-      return flatNodes.filter(
-        node =>
-          state.searchFilter.matchingIds.has(node.id) ||
-          // Also include parents of matching nodes to maintain hierarchy
-          treeUtils
-            .getDescendants(state.tree, node.id)
-            .some(descendant =>
-              state.searchFilter.matchingIds.has(descendant.id)
-            )
-      );
-    }
-
-    return flatNodes;
-  }, [state.tree, state.searchFilter]);
+  // Get visible nodes based on expansion and search/filter state; parents of
+  // matching nodes stay visible to maintain the hierarchy
+  const visibleNodes = useMemo(
+    () =>
+      treeUtils.getVisibleNodes(
+        state.tree,
+        state.searchFilter.isActive ? state.searchFilter.matchingIds : undefined
+      ),
+    [state.tree, state.searchFilter]
+  );
 
   const sortableIds = useMemo(
     () => visibleNodes.map(node => node.id),
     [visibleNodes]
   );
 
+  // Render only the rows in view once the list gets long
+  const isVirtualized =
+    !isLoading &&
+    visibleNodes.length > 0 &&
+    visibleNodes.length >=
+      (config?.virtualScrollThreshold ?? DEFAULT_VIRTUAL_SCROLL_THRESHOLD);
+  const rowHeight = config?.virtualRowHeight ?? DEFAULT_VIRTUAL_ROW_HEIGHT;
+  const pinnedNodeIds = useMemo(() => [draggedNode?.id], [draggedNode]);
+
   const selectedCount = state.selection.selectedIds.size;
   const totalNodes = state.tree.count;
+  const canUndo = state.history.past.length > 0;
+  const canRedo = state.history.future.length > 0;
+
+  // =============================================================================
+  // Clipboard
+  // =============================================================================
+
+  /** The selection if it includes the node, otherwise just the node */
+  const getClipboardNodeIds = useCallback(
+    (nodeId: string | null) => {
+      const { selectedIds } = state.selection;
+      if (nodeId && !selectedIds.has(nodeId)) return [nodeId];
+      return selectedIds.size > 0 ? Array.from(selectedIds) : [];
+    },
+    [state.selection]
+  );
+
+  /** Copies nodes from the action menu, where no clipboard event is available */
+  const copyFromMenu = useCallback(
+    (nodeIds: string[], mode: TreeClipboardPayload['mode']) => {
+      const payload = operations.copyNodes(nodeIds, mode);
+      if (!payload) return false;
+
+      const text = treeClipboard.writeClipboard(payload);
+      navigator.clipboard?.writeText(text).catch(() => {
+        // The payload is still available to paste from local storage
+      });
+      return true;
+    },
+    [operations]
+  );
+
+  const pasteAt = useCallback(
+    async (
+      payload: TreeClipboardPayload,
+      nodeId: string | null,
+      preserveStatus?: boolean
+    ) => {
+      const target = treeClipboard.getPasteTarget(state.tree, payload, nodeId);
+      if (!target) {
+        toast.error('The copied nodes cannot be pasted here');
+        return;
+      }
+
+      try {
+        await operations.pasteNodes(payload, { ...target, preserveStatus });
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Paste failed');
+      }
+    },
+    [state.tree, operations]
+  );
+
+  const handleCopy = useCallback(
+    (e: React.ClipboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+
+      const payload = operations.copyNodes(
+        getClipboardNodeIds(state.focusedNodeId)
+      );
+      if (!payload) return;
+
+      e.preventDefault();
+      treeClipboard.writeClipboard(payload, e.clipboardData);
+    },
+    [operations, getClipboardNodeIds, state.focusedNodeId]
+  );
+
+  const handleCut = useCallback(
+    async (e: React.ClipboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+
+      const nodeIds = getClipboardNodeIds(state.focusedNodeId);
+      const payload = operations.copyNodes(nodeIds, 'cut');
+      if (!payload) return;
+
+      // Clipboard data can only be set while the event is dispatched
+      e.preventDefault();
+      treeClipboard.writeClipboard(payload, e.clipboardData);
+      await operations.cutNodes(nodeIds).catch(() => {
+        toast.error('Cut failed');
+      });
+    },
+    [operations, getClipboardNodeIds, state.focusedNodeId]
+  );
+
+  const handlePaste = useCallback(
+    async (e: React.ClipboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+
+      const payload = treeClipboard.readClipboard(e.clipboardData);
+      if (!payload) return;
+
+      e.preventDefault();
+      await pasteAt(payload, state.focusedNodeId);
+    },
+    [pasteAt, state.focusedNodeId]
+  );
 
   // =============================================================================
   // Event Handlers
@@ -172,6 +312,29 @@ function TreeContent({
             await operations.duplicateNode(nodeId);
             break;
 
+          case 'copy':
+            copyFromMenu(getClipboardNodeIds(nodeId), 'copy');
+            break;
+
+          case 'cut':
+            const cutNodeIds = getClipboardNodeIds(nodeId);
+            if (copyFromMenu(cutNodeIds, 'cut')) {
+              await operations.cutNodes(cutNodeIds);
+            }
+            break;
+
+          case 'paste':
+          case 'paste_with_status':
+            const payload = treeClipboard.readClipboard();
+            if (payload) {
+              await pasteAt(
+                payload,
+                nodeId,
+                action === 'paste_with_status' ? true : undefined
+              );
+            }
+            break;
+
           case 'delete':
             await operations.deleteNode(nodeId);
             onNodeDelete?.(nodeId);
@@ -237,7 +400,14 @@ function TreeContent({
         console.error('Action failed:', action, error);
       }
     },
-    [operations, utils, onNodeDelete]
+    [
+      operations,
+      utils,
+      onNodeDelete,
+      copyFromMenu,
+      getClipboardNodeIds,
+      pasteAt,
+    ]
   );
 
   const handleExpandAll = useCallback(() => {
@@ -319,11 +489,23 @@ function TreeContent({
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
-      if (!enableKeyboardNavigation) return;
-
       const action = keyboardNavigation.getKeyboardAction(e.nativeEvent);
       if (!action) return;
 
+      if (action === KeyboardAction.UNDO || action === KeyboardAction.REDO) {
+        if (!enableHistory || isEditableTarget(e.target)) return;
+
+        e.preventDefault();
+        if (action === KeyboardAction.UNDO) {
+          operations.undo();
+        } else {
+          operations.redo();
+        }
+        return;
+      }
+
+      if (!enableKeyboardNavigation) return;
+
       const { focusedNodeId } = state;
       if (!focusedNodeId) return;
 
@@ -334,7 +516,7 @@ function TreeContent({
         case KeyboardAction.MOVE_DOWN:
         case KeyboardAction.MOVE_LEFT:
         case KeyboardAction.MOVE_RIGHT:
-          const direction = action.replace('MOVE_', '').toLowerCase() as
+          const direction = action.replace('move_', '') as
             | 'up'
             | 'down'
             | 'left'
@@ -342,7 +524,8 @@ function TreeContent({
           const nextNodeId = keyboardNavigation.getNextFocusableNode(
             state.tree,
             focusedNodeId,
-            direction
+            direction,
+            sortableIds
           );
 
           if (nextNodeId) {
@@ -365,9 +548,22 @@ function TreeContent({
           break;
       }
     },
-    [enableKeyboardNavigation, state, operations]
+    [enableKeyboardNavigation, enableHistory, state, operations, sortableIds]
   );
 
+  // A deleted or undone row takes the browser focus with it; keep the focus in
+  // the tree so that shortcuts such as Ctrl+Z still reach it
+  useEffect(() => {
+    const { focusedNodeId } = state;
+    if (
+      focusedNodeId &&
+      !state.tree.nodes.has(focusedNodeId) &&
+      document.activeElement === document.body
+    ) {
+      containerRef.current?.focus();
+    }
+  }, [state]);
+
   // =============================================================================
   // Render Helpers
   // =============================================================================
@@ -454,14 +650,52 @@ function TreeContent({
     );
   }
 
+  const renderTreeItems = () =>
+    isVirtualized ? (
+      <VirtualTreeList
+        nodes={visibleNodes}
+        rowHeight={rowHeight}
+        renderNode={renderNode}
+        focusedNodeId={state.focusedNodeId}
+        pinnedNodeIds={pinnedNodeIds}
+      />
+    ) : (
+      <div className="space-y-1 p-2" role="tree">
+        {visibleNodes.map(renderNode)}
+      </div>
+    );
+
+  const renderTree = () => (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCenter}
+      onDragStart={handleDragStart}
+      onDragOver={handleDragOver}
+      onDragEnd={handleDragEnd}
+    >
+      <SortableContext
+        items={sortableIds}
+        strategy={verticalListSortingStrategy}
+      >
+        {renderTreeItems()}
+      </SortableContext>
+
+      <DragOverlay dropAnimation={dropAnimation}>{dragOverlay}</DragOverlay>
+    </DndContext>
+  );
+
   // =============================================================================
   // Main Render
   // =============================================================================
 
   return (
     <div
+      ref={containerRef}
       className={cn('bg-background flex h-full flex-col', className)}
       onKeyDown={handleKeyDown}
+      onCopy={handleCopy}
+      onCut={handleCut}
+      onPaste={handlePaste}
       tabIndex={-1}
     >
       {/* Header with Search and Controls */}
@@ -471,6 +705,8 @@ function TreeContent({
           <TreeSearch
             enableSearch={enableSearch}
             enableFilters={enableFilters}
+            currentUserId={currentUserId}
+            queryUrlParam={config?.queryUrlParam}
           />
         )}
 
@@ -495,6 +731,44 @@ function TreeContent({
               <ShrinkIcon className="mr-2 h-4 w-4" />
               Collapse All
             </Button>
+
+            {enableHistory && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => operations.undo()}
+                  disabled={!canUndo}
+                  aria-label="Undo"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => operations.redo()}
+                  disabled={!canRedo}
+                  aria-label="Redo"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="ghost" size="sm">
+                      <History className="mr-2 h-4 w-4" />
+                      History
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-80" align="start">
+                    <h4 className="mb-2 font-medium">Recent changes</h4>
+                    <TreeHistoryPanel />
+                  </PopoverContent>
+                </Popover>
+              </>
+            )}
           </div>
 
           <div className="text-muted-foreground flex items-center gap-2 text-sm">
@@ -510,34 +784,18 @@ function TreeContent({
 
       {/* Tree Content */}
       <div className="flex-1 overflow-hidden">
-        <ScrollArea ref={scrollAreaRef} className="h-full">
-          {isLoading ? (
-            renderLoadingState()
-          ) : visibleNodes.length === 0 ? (
-            renderEmptyState()
-          ) : (
-            <DndContext
-              sensors={sensors}
-              collisionDetection={closestCenter}
-              onDragStart={handleDragStart}
-              onDragOver={handleDragOver}
-              onDragEnd={handleDragEnd}
-            >
-              <SortableContext
-                items={sortableIds}
-                strategy={verticalListSortingStrategy}
-              >
-                <div className="space-y-1 p-2" role="tree">
-                  {visibleNodes.map(renderNode)}
-                </div>
-              </SortableContext>
-
-              <DragOverlay dropAnimation={dropAnimation}>
-                {dragOverlay}
-              </DragOverlay>
-            </DndContext>
-          )}
-        </ScrollArea>
+        {/* The virtual list is its own scroll container */}
+        {isVirtualized ? (
+          renderTree()
+        ) : (
+          <ScrollArea ref={scrollAreaRef} className="h-full">
+            {isLoading
+              ? renderLoadingState()
+              : visibleNodes.length === 0
+                ? renderEmptyState()
+                : renderTree()}
+          </ScrollArea>
+        )}
       </div>
     </div>
   );
@@ -553,6 +811,7 @@ export function BreakdownTree(props: BreakdownTreeProps) {
     config,
     onNodeSelect,
     onTreeChange,
+    sync,
     ...restProps
   } = props;
 
@@ -562,6 +821,8 @@ export function BreakdownTree(props: BreakdownTreeProps) {
       selectionMode={config?.selectionMode || SelectionMode.SINGLE}
       onNodeSelect={onNodeSelect}
       onTreeChange={onTreeChange}
+      historyLimit={config?.historyLimit}
+      sync={sync === true ? DEFAULT_SYNC_OPTIONS : sync || undefined}
     >
       <TreeContent
         config={config}
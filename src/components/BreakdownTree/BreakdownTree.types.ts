@@ -8,6 +8,8 @@
  * @version 1.0.0
  */
 
+import type { GoalsApi } from '@/lib/api/goals';
+import type { TasksApi } from '@/lib/api/tasks';
 import { SmartGoal, Task, Milestone, Outcome } from '@/types/smart-goals.types';
 
 // =============================================================================
@@ -227,6 +229,8 @@ export enum KeyboardAction {
   SELECT = 'select',
   MULTI_SELECT = 'multi_select',
   RANGE_SELECT = 'range_select',
+  UNDO = 'undo',
+  REDO = 'redo',
 }
 
 // =============================================================================
@@ -276,9 +280,13 @@ export enum QuickActionType {
   ADD_METRIC = 'add_metric',
   MARK_COMPLETE = 'mark_complete',
   ARCHIVE = 'archive',
+  CUT = 'cut',
+  COPY = 'copy',
+  PASTE = 'paste',
+  PASTE_WITH_STATUS = 'paste_with_status',
 }
 
-export type QuickActionTypeString = 'add_child' | 'edit' | 'delete' | 'duplicate' | 'move_up' | 'move_down' | 'promote' | 'demote' | 'split' | 'convert_to_subgoal' | 'add_metric' | 'mark_complete' | 'archive';
+export type QuickActionTypeString = 'add_child' | 'edit' | 'delete' | 'duplicate' | 'move_up' | 'move_down' | 'promote' | 'demote' | 'split' | 'convert_to_subgoal' | 'add_metric' | 'mark_complete' | 'archive' | 'cut' | 'copy' | 'paste' | 'paste_with_status';
 
 /** Quick action definition */
 export interface QuickAction {
@@ -332,6 +340,13 @@ export interface FilterConfig {
     start: Date | null;
     end: Date | null;
   };
+  /** Assignee filters (user IDs); goals match their owner */
+  assignees: string[];
+  /** Due date range filter; milestones and goals match their target date */
+  dueDateRange: {
+    start: Date | null;
+    end: Date | null;
+  };
 }
 
 /** Search and filter state */
@@ -346,6 +361,42 @@ export interface SearchFilterState {
   isActive: boolean;
 }
 
+/** Problem with a token of a typed query, which is left out of the result */
+export interface TreeQueryError {
+  /** Token as typed */
+  token: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/** Search and filter configuration parsed from a typed query */
+export interface TreeQuery {
+  /** Search configuration */
+  search: SearchConfig;
+  /** Filter configuration */
+  filters: FilterConfig;
+  /** Tokens that could not be parsed */
+  errors: TreeQueryError[];
+}
+
+/** Values a typed query refers to */
+export interface TreeQueryContext {
+  /** User ID that `@me` stands for */
+  currentUserId?: string;
+  /** Reference time for `today` (default: now) */
+  now?: Date;
+}
+
+/** Query saved by the user for reuse */
+export interface SavedTreeQuery {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Query text */
+  query: string;
+}
+
 // =============================================================================
 // Tree State Types
 // =============================================================================
@@ -374,6 +425,136 @@ export interface TreeViewState {
   loading: Map<string, boolean>;
   /** Error states */
   errors: Map<string, string>;
+  /** Undo/redo history of tree operations */
+  history: TreeHistoryState;
+}
+
+// =============================================================================
+// History Types
+// =============================================================================
+
+/** Kind of operation recorded in the tree history */
+export type TreeHistoryOperation = 'create' | 'update' | 'move' | 'delete' | 'duplicate' | 'cut' | 'paste' | 'group';
+
+/** A node before and after an operation (null where the node did not exist) */
+export interface TreeNodeChange {
+  /** Changed node ID */
+  nodeId: string;
+  /** Node before the operation */
+  before: TreeNode | null;
+  /** Node after the operation */
+  after: TreeNode | null;
+}
+
+/** Journal entry for one undoable operation or group of operations */
+export interface TreeHistoryEntry {
+  /** Unique entry ID */
+  id: string;
+  /** Operation kind */
+  operation: TreeHistoryOperation;
+  /** Human-readable description, e.g. 'Deleted "Launch beta"' */
+  label: string;
+  /** Nodes reported as affected by the operation */
+  nodeIds: string[];
+  /** Every node whose data changed */
+  changes: TreeNodeChange[];
+  /** Root order before and after, if it changed */
+  rootIds?: {
+    before: string[];
+    after: string[];
+  };
+  /** When the operation was applied */
+  timestamp: Date;
+}
+
+/** Undo/redo history */
+export interface TreeHistoryState {
+  /** Applied entries, oldest first */
+  past: TreeHistoryEntry[];
+  /** Undone entries, most recently undone first */
+  future: TreeHistoryEntry[];
+}
+
+// =============================================================================
+// Clipboard Types
+// =============================================================================
+
+/** Subtrees on the clipboard, which may come from another goal or browser tab */
+export interface TreeClipboardPayload {
+  /** Payload format version */
+  version: 1;
+  /** Whether the nodes were cut or copied */
+  mode: 'cut' | 'copy';
+  /** Top-level copied node IDs, in tree order */
+  rootIds: string[];
+  /** Copied nodes and all their descendants, with their source IDs */
+  nodes: TreeNode[];
+  /** When the nodes were copied */
+  copiedAt: Date;
+}
+
+/** Where and how clipboard contents are pasted */
+export interface TreePasteOptions {
+  /** Node to paste into (null for the root level) */
+  parentId: string | null;
+  /** Index within the parent's children (default: after the last child) */
+  index?: number;
+  /** Whether pasted nodes keep their status, progress and assignees (default: only when cut) */
+  preserveStatus?: boolean;
+}
+
+// =============================================================================
+// Sync Types
+// =============================================================================
+
+/** API methods used to persist tree edits */
+export interface TreeSyncApi {
+  goals: Pick<GoalsApi, 'createGoal' | 'updateGoal' | 'deleteGoal'>;
+  tasks: Pick<
+    TasksApi,
+    'createTask' | 'updateTask' | 'deleteTask' | 'reorderTasks' | 'createSubtask' | 'updateSubtask' | 'deleteSubtask'
+  >;
+}
+
+/** Kind of server mutation a tree edit is persisted with */
+export type TreeSyncMutationType =
+  | 'create_goal'
+  | 'update_goal'
+  | 'delete_goal'
+  | 'create_task'
+  | 'update_task'
+  | 'delete_task'
+  | 'reorder_tasks'
+  | 'create_subtask'
+  | 'update_subtask'
+  | 'delete_subtask';
+
+/** A tree edit that was not persisted and has been reverted in the tree */
+export interface TreeSyncFailure {
+  /** Mutation that failed, or null if the edit cannot be persisted at all */
+  mutation: TreeSyncMutationType | null;
+  /** Nodes whose changes were reverted */
+  nodeIds: string[];
+  /** Error message */
+  error: string;
+}
+
+/** Outcome of persisting one batch of tree edits */
+export interface TreeSyncResult {
+  /** Number of mutations the server accepted */
+  succeeded: number;
+  /** Edits that were rejected and reverted */
+  failures: TreeSyncFailure[];
+}
+
+/** Server synchronisation options */
+export interface TreeSyncOptions {
+  /** API used to persist edits (default: goalsApi and tasksApi) */
+  api?: TreeSyncApi;
+  /** Milliseconds to wait for further edits before sending a batch (default: 500) */
+  batchDelay?: number;
+  /** Called after rejected edits have been reverted in the tree */
+  onError?: (failures: TreeSyncFailure[]) => void;
 }
 
 // =============================================================================
@@ -438,8 +619,16 @@ export interface BreakdownTreeProps {
     autoExpand?: boolean;
     /** Maximum depth to display */
     maxDepth?: number;
-    /** Virtual scrolling threshold */
+    /** Number of visible nodes from which only the rows in view are rendered (default: 100) */
     virtualScrollThreshold?: number;
+    /** Fixed row height in pixels while virtualized (default: 80) */
+    virtualRowHeight?: number;
+    /** Whether undo/redo and the history panel are enabled (default: true) */
+    enableHistory?: boolean;
+    /** Maximum number of undoable operations kept (default: 100) */
+    historyLimit?: number;
+    /** URL search parameter that holds the search query, which makes filtered views shareable (default: none) */
+    queryUrlParam?: string;
   };
   /** Event handlers */
   onNodeSelect?: (selectedIds: string[]) => void;
@@ -448,6 +637,10 @@ export interface BreakdownTreeProps {
   onNodeCreate?: (create: TreeNodeCreate) => void;
   onNodeDelete?: (nodeId: string) => void;
   onTreeChange?: (tree: FlatTree) => void;
+  /** Persists edits to the goals and tasks APIs; `true` uses the default options */
+  sync?: boolean | TreeSyncOptions;
+  /** Signed-in user, whom `assignee:@me` in search queries refers to */
+  currentUserId?: string;
   /** Custom class names */
   className?: string;
   /** Loading state */
@@ -518,8 +711,22 @@ export interface TreeContextValue {
     duplicateNode: (nodeId: string) => Promise<void>;
     setSearch: (search: Partial<SearchConfig>) => void;
     setFilters: (filters: Partial<FilterConfig>) => void;
+    /** Replaces the search and filters at once, e.g. with a parsed query */
+    setSearchFilter: (search: SearchConfig, filters: FilterConfig) => void;
     expandAll: () => void;
     collapseAll: () => void;
+    /** Reverts the last `steps` operations (default: 1) */
+    undo: (steps?: number) => void;
+    /** Reapplies the last `steps` undone operations (default: 1) */
+    redo: (steps?: number) => void;
+    /** Runs several operations and records them as a single history entry */
+    groupOperations: <T>(label: string, run: () => Promise<T>) => Promise<T>;
+    /** Copies nodes with their descendants; null if none of the nodes exist */
+    copyNodes: (nodeIds: string[], mode?: TreeClipboardPayload['mode']) => TreeClipboardPayload | null;
+    /** Copies nodes with their descendants and removes them from the tree */
+    cutNodes: (nodeIds: string[]) => Promise<TreeClipboardPayload | null>;
+    /** Inserts copies of the clipboard nodes with new IDs */
+    pasteNodes: (payload: TreeClipboardPayload, options: TreePasteOptions) => Promise<void>;
   };
   /** Tree utilities */
   utils: {
@@ -24,6 +24,9 @@ import {
   Check,
   Archive,
   Split,
+  Scissors,
+  ClipboardCopy,
+  ClipboardPaste,
 } from 'lucide-react';
 import React, { useMemo, useState } from 'react';
 
@@ -56,6 +59,7 @@ import {
   QuickActionType,
   TreeNodeType,
 } from './BreakdownTree.types';
+import { treeClipboard } from './utils/tree-clipboard';
 
 // =============================================================================
 // Icon Mapping
@@ -75,6 +79,10 @@ const ACTION_ICONS = {
   add_metric: BarChart,
   mark_complete: Check,
   archive: Archive,
+  cut: Scissors,
+  copy: ClipboardCopy,
+  paste: ClipboardPaste,
+  paste_with_status: ClipboardPaste,
 } as const;
 
 // =============================================================================
@@ -91,6 +99,12 @@ export function TreeActions({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
 
+  // Checked when the menu opens, as nodes may have been copied in another tab
+  const canPaste = useMemo(
+    () => isOpen && treeClipboard.readClipboard() !== null,
+    [isOpen]
+  );
+
   // =============================================================================
   // Generate Context-Sensitive Actions
   // =============================================================================
@@ -231,6 +245,41 @@ export function TreeActions({
       }
     );
 
+    // Clipboard actions
+    baseActions.push(
+      {
+        type: QuickActionType.CUT,
+        label: 'Cut',
+        icon: 'Scissors',
+        enabled: true,
+        shortcut: 'Ctrl+X',
+        handler: nodeId => onAction(QuickActionType.CUT, nodeId),
+      },
+      {
+        type: QuickActionType.COPY,
+        label: 'Copy',
+        icon: 'ClipboardCopy',
+        enabled: true,
+        shortcut: 'Ctrl+C',
+        handler: nodeId => onAction(QuickActionType.COPY, nodeId),
+      },
+      {
+        type: QuickActionType.PASTE,
+        label: 'Paste',
+        icon: 'ClipboardPaste',
+        enabled: canPaste,
+        shortcut: 'Ctrl+V',
+        handler: nodeId => onAction(QuickActionType.PASTE, nodeId),
+      },
+      {
+        type: QuickActionType.PASTE_WITH_STATUS,
+        label: 'Paste with Status',
+        icon: 'ClipboardPaste',
+        enabled: canPaste,
+        handler: nodeId => onAction(QuickActionType.PASTE_WITH_STATUS, nodeId),
+      }
+    );
+
     // Conversion actions (context-specific)
     if (node.type === TreeNodeType.TASK) {
       baseActions.push({
@@ -288,7 +337,7 @@ export function TreeActions({
     );
 
     return baseActions;
-  }, [node, onAction]);
+  }, [node, onAction, canPaste]);
 
   // =============================================================================
   // Event Handlers
@@ -332,6 +381,9 @@ export function TreeActions({
           a.type
         )
       ),
+      clipboard: contextActions.filter(a =>
+        ['cut', 'copy', 'paste', 'paste_with_status'].includes(a.type)
+      ),
       status: contextActions.filter(a => ['mark_complete'].includes(a.type)),
       destructive: contextActions.filter(a =>
         ['archive', 'delete'].includes(a.type)
@@ -450,6 +502,10 @@ export function TreeActions({
             </>
           )}
 
+          {/* Clipboard Actions */}
+          {groupedActions.clipboard.map(renderActionItem)}
+          <DropdownMenuSeparator />
+
           {/* Status Actions */}
           {groupedActions.status.length > 0 && (
             <>
@@ -16,6 +16,7 @@ import React, {
   useReducer,
   useCallback,
   useMemo,
+  useRef,
 } from 'react';
 
 import {
@@ -27,10 +28,27 @@ import {
   type TreeNodeCreate,
   type SearchConfig,
   type FilterConfig,
+  type TreeHistoryEntry,
+  type TreeHistoryOperation,
+  type TreeOperationResult,
+  type TreeSyncOptions,
+  type TreeClipboardPayload,
+  type TreePasteOptions,
   SelectionMode,
-  TreeNodeType,
 } from './BreakdownTree.types';
+import { treeClipboard } from './utils/tree-clipboard';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  EMPTY_HISTORY,
+  treeHistory,
+} from './utils/tree-history';
 import { treeOperations } from './utils/tree-operations';
+import {
+  DEFAULT_FILTER_CONFIG,
+  DEFAULT_SEARCH_CONFIG,
+  treeQuery,
+} from './utils/tree-query';
+import { TreeSyncQueue } from './utils/tree-sync';
 import { treeUtils } from './utils/tree-utils';
 
 // =============================================================================
@@ -48,13 +66,66 @@ type TreeAction =
   | { type: 'FOCUS_NODE'; payload: string }
   | { type: 'SET_SEARCH'; payload: Partial<SearchConfig> }
   | { type: 'SET_FILTERS'; payload: Partial<FilterConfig> }
+  | {
+      type: 'SET_SEARCH_FILTER';
+      payload: { search: SearchConfig; filters: FilterConfig };
+    }
   | { type: 'CLEAR_SEARCH_FILTER' }
   | { type: 'SET_LOADING'; payload: { nodeId: string; loading: boolean } }
   | { type: 'SET_ERROR'; payload: { nodeId: string; error: string | null } }
   | { type: 'UPDATE_TREE_SUCCESS'; payload: FlatTree }
   | { type: 'OPERATION_START'; payload: string }
   | { type: 'OPERATION_COMPLETE'; payload: string }
-  | { type: 'OPERATION_ERROR'; payload: { nodeId: string; error: string } };
+  | { type: 'OPERATION_ERROR'; payload: { nodeId: string; error: string } }
+  | {
+      type: 'RECORD_HISTORY';
+      payload: { entry: TreeHistoryEntry; limit: number };
+    }
+  | { type: 'UNDO'; payload: { tree: FlatTree; steps: number } }
+  | { type: 'REDO'; payload: { tree: FlatTree; steps: number } };
+
+type JournaledOperation = Exclude<TreeHistoryOperation, 'group'>;
+
+const OPERATION_ERRORS: Record<JournaledOperation, string> = {
+  create: 'Creation failed',
+  update: 'Update failed',
+  move: 'Move failed',
+  delete: 'Deletion failed',
+  duplicate: 'Duplication failed',
+  cut: 'Cut failed',
+  paste: 'Paste failed',
+};
+
+/** Quoted node title for history labels */
+function describeNode(tree: FlatTree, nodeId: string): string {
+  const node = tree.nodes.get(nodeId);
+  return node ? `"${node.title}"` : 'node';
+}
+
+/** Quoted title of a single clipboard node, or the number of nodes */
+function describeClipboard(payload: TreeClipboardPayload): string {
+  if (payload.rootIds.length !== 1) return `${payload.rootIds.length} nodes`;
+
+  const node = payload.nodes.find(({ id }) => id === payload.rootIds[0]);
+  return node ? `"${node.title}"` : 'node';
+}
+
+/** State with the given search and filters and the nodes matching both */
+function withSearchFilter(
+  state: TreeViewState,
+  search: SearchConfig,
+  filters: FilterConfig
+): TreeViewState {
+  return {
+    ...state,
+    searchFilter: {
+      search,
+      filters,
+      matchingIds: treeQuery.matchSearchFilter(state.tree, search, filters),
+      isActive: treeQuery.isSearchFilterActive(search, filters),
+    },
+  };
+}
 
 // =============================================================================
 // Initial State
@@ -76,26 +147,15 @@ const initialTreeState: TreeViewState = {
     expandAll: false,
   },
   searchFilter: {
-    search: {
-      query: '',
-      searchTitles: true,
-      searchDescriptions: true,
-      caseSensitive: false,
-      useRegex: false,
-    },
-    filters: {
-      nodeTypes: Object.values(TreeNodeType),
-      statuses: [],
-      priorities: [],
-      progressRange: { min: 0, max: 100 },
-      dateRange: { start: null, end: null },
-    },
+    search: DEFAULT_SEARCH_CONFIG,
+    filters: DEFAULT_FILTER_CONFIG,
     matchingIds: new Set(),
     isActive: false,
   },
   focusedNodeId: null,
   loading: new Map(),
   errors: new Map(),
+  history: EMPTY_HISTORY,
 };
 
 // =============================================================================
@@ -113,6 +173,7 @@ function treeReducer(state: TreeViewState, action: TreeAction): TreeViewState {
         expanded.set(nodeId, node.isExpanded);
       });
 
+      // Entries of the previous tree cannot be applied to a new one
       return {
         ...state,
         tree,
@@ -120,6 +181,7 @@ function treeReducer(state: TreeViewState, action: TreeAction): TreeViewState {
           ...state.expansion,
           expanded,
         },
+        history: EMPTY_HISTORY,
       };
     }
 
@@ -297,30 +359,7 @@ function treeReducer(state: TreeViewState, action: TreeAction): TreeViewState {
       const searchUpdate = action.payload;
       const updatedSearch = { ...state.searchFilter.search, ...searchUpdate };
 
-      // Update matching IDs if query changed
-      const matchingIds = updatedSearch.query
-        ? new Set(
-            treeUtils.searchNodes(state.tree, updatedSearch.query, {
-              searchTitles: updatedSearch.searchTitles,
-              searchDescriptions: updatedSearch.searchDescriptions,
-              caseSensitive: updatedSearch.caseSensitive,
-              useRegex: updatedSearch.useRegex,
-            })
-          )
-        : new Set<string>();
-
-      return {
-        ...state,
-        searchFilter: {
-          ...state.searchFilter,
-          search: updatedSearch,
-          matchingIds,
-          isActive:
-            updatedSearch.query.length > 0 ||
-            state.searchFilter.filters.nodeTypes.length <
-              Object.values(TreeNodeType).length,
-        },
-      };
+      return withSearchFilter(state, updatedSearch, state.searchFilter.filters);
     }
 
     case 'SET_FILTERS': {
@@ -330,29 +369,12 @@ function treeReducer(state: TreeViewState, action: TreeAction): TreeViewState {
         ...filtersUpdate,
       };
 
-      // Update matching IDs based on filters
-      const matchingIds = new Set(
-        treeUtils.filterNodes(state.tree, {
-          nodeTypes: updatedFilters.nodeTypes,
-          statuses: updatedFilters.statuses,
-          priorities: updatedFilters.priorities,
-          progressRange: updatedFilters.progressRange,
-          dateRange: updatedFilters.dateRange,
-        })
-      );
+      return withSearchFilter(state, state.searchFilter.search, updatedFilters);
+    }
 
-      return {
-        ...state,
-        searchFilter: {
-          ...state.searchFilter,
-          filters: updatedFilters,
-          matchingIds,
-          isActive:
-            state.searchFilter.search.query.length > 0 ||
-            updatedFilters.nodeTypes.length <
-              Object.values(TreeNodeType).length,
-        },
-      };
+    case 'SET_SEARCH_FILTER': {
+      const { search, filters } = action.payload;
+      return withSearchFilter(state, search, filters);
     }
 
     case 'CLEAR_SEARCH_FILTER': {
@@ -440,6 +462,35 @@ function treeReducer(state: TreeViewState, action: TreeAction): TreeViewState {
       };
     }
 
+    case 'RECORD_HISTORY': {
+      const { entry, limit } = action.payload;
+
+      return {
+        ...state,
+        history: treeHistory.recordHistoryEntry(state.history, entry, limit),
+      };
+    }
+
+    case 'UNDO': {
+      const { tree, steps } = action.payload;
+
+      return {
+        ...state,
+        tree,
+        history: treeHistory.undoHistory(state.history, steps),
+      };
+    }
+
+    case 'REDO': {
+      const { tree, steps } = action.payload;
+
+      return {
+        ...state,
+        tree,
+        history: treeHistory.redoHistory(state.history, steps),
+      };
+    }
+
     default:
       return state;
   }
@@ -461,6 +512,10 @@ interface TreeProviderProps {
   selectionMode?: SelectionMode;
   onTreeChange?: (tree: FlatTree) => void;
   onNodeSelect?: (selectedIds: string[]) => void;
+  /** Maximum number of undoable operations kept */
+  historyLimit?: number;
+  /** Persists applied edits to the server when set */
+  sync?: TreeSyncOptions;
 }
 
 export function TreeProvider({
@@ -469,6 +524,8 @@ export function TreeProvider({
   selectionMode = SelectionMode.SINGLE,
   onTreeChange,
   onNodeSelect,
+  historyLimit = DEFAULT_HISTORY_LIMIT,
+  sync,
 }: TreeProviderProps) {
   const [state, dispatch] = useReducer(treeReducer, {
     ...initialTreeState,
@@ -478,6 +535,20 @@ export function TreeProvider({
     },
   });
 
+  // Latest tree, so that operations awaited one after another, e.g. in a
+  // group, build on each other instead of on the tree of the last render
+  const treeRef = useRef(state.tree);
+  treeRef.current = state.tree;
+
+  // Entries collected while a group of operations is running
+  const groupRef = useRef<{ label: string; entries: TreeHistoryEntry[] }>(null);
+
+  // Server sync queue, created while sync is enabled
+  const syncQueueRef = useRef<TreeSyncQueue>(null);
+  const syncCallbacksRef = useRef({ sync, onTreeChange });
+  syncCallbacksRef.current = { sync, onTreeChange };
+  const isSyncEnabled = sync !== undefined;
+
   // Initialize tree from data
   React.useEffect(() => {
     if (initialData.length > 0) {
@@ -487,6 +558,39 @@ export function TreeProvider({
     }
   }, [initialData, onTreeChange]);
 
+  React.useEffect(() => {
+    if (!isSyncEnabled) return;
+
+    const options = syncCallbacksRef.current.sync;
+    const queue = new TreeSyncQueue({
+      api: options?.api,
+      batchDelay: options?.batchDelay,
+      getTree: () => treeRef.current,
+      onReconcile: (tree, failures) => {
+        treeRef.current = tree;
+        dispatch({ type: 'UPDATE_TREE_SUCCESS', payload: tree });
+        failures.forEach(failure =>
+          failure.nodeIds.forEach(nodeId =>
+            dispatch({
+              type: 'SET_ERROR',
+              payload: { nodeId, error: failure.error },
+            })
+          )
+        );
+        syncCallbacksRef.current.onTreeChange?.(tree);
+        syncCallbacksRef.current.sync?.onError?.(failures);
+      },
+    });
+    syncQueueRef.current = queue;
+
+    return () => {
+      syncQueueRef.current = null;
+      queue.dispose();
+      // Edits made right before unmounting are still saved
+      void queue.flush();
+    };
+  }, [isSyncEnabled]);
+
   // Notify selection changes
   React.useEffect(() => {
     const selectedIds = Array.from(state.selection.selectedIds);
@@ -513,145 +617,218 @@ export function TreeProvider({
     dispatch({ type: 'FOCUS_NODE', payload: nodeId });
   }, []);
 
-  const updateNode = useCallback(
-    async (update: TreeNodeUpdate) => {
-      dispatch({ type: 'OPERATION_START', payload: update.nodeId });
+  const recordEntry = useCallback(
+    (entry: TreeHistoryEntry | null) => {
+      if (!entry) return;
 
-      try {
-        const result = treeOperations.updateNode(state.tree, update);
-        if (result.success && result.tree) {
-          dispatch({ type: 'UPDATE_TREE_SUCCESS', payload: result.tree });
-          onTreeChange?.(result.tree);
-        } else {
-          throw new Error(result.error || 'Update failed');
-        }
-      } catch (error) {
+      if (groupRef.current) {
+        groupRef.current.entries.push(entry);
+      } else {
         dispatch({
-          type: 'OPERATION_ERROR',
-          payload: {
-            nodeId: update.nodeId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          },
+          type: 'RECORD_HISTORY',
+          payload: { entry, limit: historyLimit },
         });
-        throw error;
-      } finally {
-        dispatch({ type: 'OPERATION_COMPLETE', payload: update.nodeId });
+        syncQueueRef.current?.enqueue(entry);
       }
     },
-    [state.tree, onTreeChange]
+    [historyLimit]
   );
 
-  const moveNode = useCallback(
-    async (move: TreeNodeMove) => {
-      dispatch({ type: 'OPERATION_START', payload: move.nodeId });
+  const runOperation = useCallback(
+    async (
+      nodeId: string,
+      operation: JournaledOperation,
+      label: string,
+      apply: (tree: FlatTree) => TreeOperationResult
+    ) => {
+      dispatch({ type: 'OPERATION_START', payload: nodeId });
 
       try {
-        const result = treeOperations.moveNode(state.tree, move);
+        const before = treeRef.current;
+        const result = apply(before);
         if (result.success && result.tree) {
+          treeRef.current = result.tree;
           dispatch({ type: 'UPDATE_TREE_SUCCESS', payload: result.tree });
+          recordEntry(
+            treeHistory.createHistoryEntry(before, result.tree, {
+              operation,
+              label,
+              nodeIds: result.affectedNodeIds ?? [nodeId],
+            })
+          );
           onTreeChange?.(result.tree);
         } else {
-          throw new Error(result.error || 'Move failed');
+          throw new Error(result.error || OPERATION_ERRORS[operation]);
         }
       } catch (error) {
         dispatch({
           type: 'OPERATION_ERROR',
           payload: {
-            nodeId: move.nodeId,
+            nodeId,
             error: error instanceof Error ? error.message : 'Unknown error',
           },
         });
         throw error;
       } finally {
-        dispatch({ type: 'OPERATION_COMPLETE', payload: move.nodeId });
+        dispatch({ type: 'OPERATION_COMPLETE', payload: nodeId });
       }
     },
-    [state.tree, onTreeChange]
+    [onTreeChange, recordEntry]
+  );
+
+  const updateNode = useCallback(
+    (update: TreeNodeUpdate) =>
+      runOperation(
+        update.nodeId,
+        'update',
+        `Updated ${describeNode(treeRef.current, update.nodeId)}`,
+        tree => treeOperations.updateNode(tree, update)
+      ),
+    [runOperation]
+  );
+
+  const moveNode = useCallback(
+    (move: TreeNodeMove) =>
+      runOperation(
+        move.nodeId,
+        'move',
+        `Moved ${describeNode(treeRef.current, move.nodeId)}`,
+        tree => treeOperations.moveNode(tree, move)
+      ),
+    [runOperation]
   );
 
   const createNode = useCallback(
-    async (create: TreeNodeCreate) => {
-      const tempNodeId = 'temp_' + Date.now();
-      dispatch({ type: 'OPERATION_START', payload: tempNodeId });
+    (create: TreeNodeCreate) =>
+      runOperation(
+        'temp_' + Date.now(),
+        'create',
+        `Created "${create.title}"`,
+        tree => treeOperations.addNode(tree, create)
+      ),
+    [runOperation]
+  );
 
-      try {
-        const result = treeOperations.addNode(state.tree, create);
-        if (result.success && result.tree) {
-          dispatch({ type: 'UPDATE_TREE_SUCCESS', payload: result.tree });
-          onTreeChange?.(result.tree);
-        } else {
-          throw new Error(result.error || 'Creation failed');
-        }
-      } catch (error) {
-        dispatch({
-          type: 'OPERATION_ERROR',
-          payload: {
-            nodeId: tempNodeId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          },
-        });
-        throw error;
-      } finally {
-        dispatch({ type: 'OPERATION_COMPLETE', payload: tempNodeId });
-      }
+  const deleteNode = useCallback(
+    (nodeId: string) =>
+      runOperation(
+        nodeId,
+        'delete',
+        `Deleted ${describeNode(treeRef.current, nodeId)}`,
+        tree => treeOperations.removeNode(tree, nodeId)
+      ),
+    [runOperation]
+  );
+
+  const duplicateNode = useCallback(
+    (nodeId: string) =>
+      runOperation(
+        nodeId,
+        'duplicate',
+        `Duplicated ${describeNode(treeRef.current, nodeId)}`,
+        tree => treeOperations.duplicateNode(tree, nodeId)
+      ),
+    [runOperation]
+  );
+
+  const copyNodes = useCallback(
+    (nodeIds: string[], mode?: TreeClipboardPayload['mode']) =>
+      treeClipboard.copyNodes(treeRef.current, nodeIds, mode),
+    []
+  );
+
+  const cutNodes = useCallback(
+    async (nodeIds: string[]) => {
+      const payload = treeClipboard.copyNodes(treeRef.current, nodeIds, 'cut');
+      if (!payload) return null;
+
+      await runOperation(
+        payload.rootIds[0],
+        'cut',
+        `Cut ${describeClipboard(payload)}`,
+        tree =>
+          payload.rootIds.reduce<TreeOperationResult>(
+            (result, nodeId) =>
+              result.tree
+                ? treeOperations.removeNode(result.tree, nodeId)
+                : result,
+            { success: true, tree }
+          )
+      );
+      return payload;
     },
-    [state.tree, onTreeChange]
+    [runOperation]
   );
 
-  const deleteNode = useCallback(
-    async (nodeId: string) => {
-      dispatch({ type: 'OPERATION_START', payload: nodeId });
+  const pasteNodes = useCallback(
+    (payload: TreeClipboardPayload, options: TreePasteOptions) =>
+      runOperation(
+        options.parentId ?? 'root',
+        'paste',
+        `Pasted ${describeClipboard(payload)}`,
+        tree => treeClipboard.pasteNodes(tree, payload, options)
+      ),
+    [runOperation]
+  );
+
+  const groupOperations = useCallback(
+    async <T,>(label: string, run: () => Promise<T>): Promise<T> => {
+      // Nested groups become part of the outermost one
+      if (groupRef.current) return run();
 
+      const group = { label, entries: [] as TreeHistoryEntry[] };
+      groupRef.current = group;
       try {
-        const result = treeOperations.removeNode(state.tree, nodeId);
-        if (result.success && result.tree) {
-          dispatch({ type: 'UPDATE_TREE_SUCCESS', payload: result.tree });
-          onTreeChange?.(result.tree);
-        } else {
-          throw new Error(result.error || 'Deletion failed');
-        }
-      } catch (error) {
-        dispatch({
-          type: 'OPERATION_ERROR',
-          payload: {
-            nodeId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          },
-        });
-        throw error;
+        return await run();
       } finally {
-        dispatch({ type: 'OPERATION_COMPLETE', payload: nodeId });
+        groupRef.current = null;
+        // Operations that succeeded before a failure stay undoable
+        recordEntry(treeHistory.mergeHistoryEntries(group.entries, label));
       }
     },
-    [state.tree, onTreeChange]
+    [recordEntry]
   );
 
-  const duplicateNode = useCallback(
-    async (nodeId: string) => {
-      dispatch({ type: 'OPERATION_START', payload: nodeId });
+  const undo = useCallback(
+    (steps = 1) => {
+      const count = Math.min(steps, state.history.past.length);
+      if (count <= 0 || groupRef.current) return;
 
-      try {
-        const result = treeOperations.duplicateNode(state.tree, nodeId);
-        if (result.success && result.tree) {
-          dispatch({ type: 'UPDATE_TREE_SUCCESS', payload: result.tree });
-          onTreeChange?.(result.tree);
-        } else {
-          throw new Error(result.error || 'Duplication failed');
-        }
-      } catch (error) {
-        dispatch({
-          type: 'OPERATION_ERROR',
-          payload: {
-            nodeId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          },
-        });
-        throw error;
-      } finally {
-        dispatch({ type: 'OPERATION_COMPLETE', payload: nodeId });
-      }
+      const entries = state.history.past.slice(-count).reverse();
+      const tree = entries.reduce(
+        (current, entry) =>
+          treeHistory.applyHistoryEntry(current, entry, 'undo'),
+        treeRef.current
+      );
+
+      treeRef.current = tree;
+      dispatch({ type: 'UNDO', payload: { tree, steps: count } });
+      entries.forEach(entry =>
+        syncQueueRef.current?.enqueue(treeHistory.invertHistoryEntry(entry))
+      );
+      onTreeChange?.(tree);
     },
-    [state.tree, onTreeChange]
+    [state.history, onTreeChange]
+  );
+
+  const redo = useCallback(
+    (steps = 1) => {
+      const count = Math.min(steps, state.history.future.length);
+      if (count <= 0 || groupRef.current) return;
+
+      const entries = state.history.future.slice(0, count);
+      const tree = entries.reduce(
+        (current, entry) =>
+          treeHistory.applyHistoryEntry(current, entry, 'redo'),
+        treeRef.current
+      );
+
+      treeRef.current = tree;
+      dispatch({ type: 'REDO', payload: { tree, steps: count } });
+      entries.forEach(entry => syncQueueRef.current?.enqueue(entry));
+      onTreeChange?.(tree);
+    },
+    [state.history, onTreeChange]
   );
 
   const setSearch = useCallback((search: Partial<SearchConfig>) => {
@@ -662,6 +839,13 @@ export function TreeProvider({
     dispatch({ type: 'SET_FILTERS', payload: filters });
   }, []);
 
+  const setSearchFilter = useCallback(
+    (search: SearchConfig, filters: FilterConfig) => {
+      dispatch({ type: 'SET_SEARCH_FILTER', payload: { search, filters } });
+    },
+    []
+  );
+
   const expandAll = useCallback(() => {
     dispatch({ type: 'EXPAND_ALL' });
   }, []);
@@ -750,8 +934,15 @@ export function TreeProvider({
         duplicateNode,
         setSearch,
         setFilters,
+        setSearchFilter,
         expandAll,
         collapseAll,
+        undo,
+        redo,
+        groupOperations,
+        copyNodes,
+        cutNodes,
+        pasteNodes,
       },
       utils: {
         getNode,
@@ -777,8 +968,15 @@ export function TreeProvider({
       duplicateNode,
       setSearch,
       setFilters,
+      setSearchFilter,
       expandAll,
       collapseAll,
+      undo,
+      redo,
+      groupOperations,
+      copyNodes,
+      cutNodes,
+      pasteNodes,
       getNode,
       getNodePath,
       getChildren,
@@ -0,0 +1,118 @@
+/**
+ * TreeHistoryPanel Component
+ *
+ * Lists the recent changes to the tree, newest first. Selecting an applied
+ * change undoes it together with every later change, and selecting an undone
+ * change redoes everything up to and including it.
+ *
+ * @fileoverview Undo/redo history panel for BreakdownTree
+ * @version 1.0.0
+ */
+
+'use client';
+
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import React, { useMemo } from 'react';
+
+import { cn } from '@/lib/utils';
+
+import { type TreeHistoryEntry } from './BreakdownTree.types';
+import { useTreeContext } from './TreeContext';
+
+// =============================================================================
+// Component Props
+// =============================================================================
+
+interface TreeHistoryPanelProps {
+  /** Maximum number of changes listed */
+  maxEntries?: number;
+  /** Custom class names */
+  className?: string;
+}
+
+interface HistoryRow {
+  entry: TreeHistoryEntry;
+  isUndone: boolean;
+  /** Undo or redo steps needed to toggle this entry */
+  steps: number;
+}
+
+// =============================================================================
+// TreeHistoryPanel Component
+// =============================================================================
+
+export function TreeHistoryPanel({
+  maxEntries = 20,
+  className,
+}: TreeHistoryPanelProps) {
+  const { state, operations } = useTreeContext();
+  const { past, future } = state.history;
+
+  const rows = useMemo<HistoryRow[]>(() => {
+    // future[0] is the next entry to redo, so the newest undone entry is last
+    const undone = future
+      .map((entry, index) => ({ entry, isUndone: true, steps: index + 1 }))
+      .reverse();
+    const applied = past
+      .map((entry, index) => ({
+        entry,
+        isUndone: false,
+        steps: past.length - index,
+      }))
+      .reverse();
+
+    return [...undone, ...applied].slice(0, maxEntries);
+  }, [past, future, maxEntries]);
+
+  if (rows.length === 0) {
+    return (
+      <div
+        className={cn(
+          'text-muted-foreground flex flex-col items-center gap-2 py-6 text-center text-sm',
+          className
+        )}
+      >
+        <History className="h-6 w-6" />
+        No changes yet
+      </div>
+    );
+  }
+
+  return (
+    <ol
+      className={cn('max-h-80 space-y-1 overflow-y-auto', className)}
+      aria-label="Change history"
+    >
+      {rows.map(({ entry, isUndone, steps }) => (
+        <li key={entry.id}>
+          <button
+            type="button"
+            className={cn(
+              'hover:bg-accent flex w-full items-center justify-between gap-3 rounded-md px-2 py-1.5 text-left text-sm',
+              isUndone && 'text-muted-foreground line-through'
+            )}
+            title={
+              isUndone
+                ? 'Redo up to this change'
+                : 'Undo this and every later change'
+            }
+            onClick={() =>
+              isUndone ? operations.redo(steps) : operations.undo(steps)
+            }
+          >
+            <span className="truncate">{entry.label}</span>
+            <time
+              className="text-muted-foreground shrink-0 text-xs"
+              dateTime={entry.timestamp.toISOString()}
+            >
+              {format(entry.timestamp, 'HH:mm:ss')}
+            </time>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default TreeHistoryPanel;
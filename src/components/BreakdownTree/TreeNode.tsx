@@ -33,6 +33,7 @@ import {
   QuickActionType,
 } from './BreakdownTree.types';
 import { TreeActions } from './TreeActions';
+import { treeQuery } from './utils/tree-query';
 
 // =============================================================================
 // Node Type Icons
@@ -80,6 +81,41 @@ const PRIORITY_COLORS = {
   critical: 'border-l-red-300',
 } as const;
 
+// =============================================================================
+// Search Highlight
+// =============================================================================
+
+const NO_RANGES: Array<[number, number]> = [];
+
+/** Text with the given [start, end) ranges marked */
+function HighlightedText({
+  text,
+  ranges,
+}: {
+  text: string;
+  ranges: Array<[number, number]>;
+}) {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-700/60"
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
 // =============================================================================
 // TreeNode Component
 // =============================================================================
@@ -114,6 +150,23 @@ export const TreeNode = forwardRef<HTMLDivElement, TreeNodeProps>(
     const error = viewState.errors.get(node.id);
     const isMatchingSearch = viewState.searchFilter.matchingIds.has(node.id);
 
+    // Mark the text that matches the search
+    const { search } = viewState.searchFilter;
+    const titleRanges = useMemo(
+      () =>
+        isMatchingSearch && search.searchTitles
+          ? treeQuery.getHighlightRanges(node.title, search)
+          : NO_RANGES,
+      [isMatchingSearch, search, node.title]
+    );
+    const descriptionRanges = useMemo(
+      () =>
+        isMatchingSearch && search.searchDescriptions && node.description
+          ? treeQuery.getHighlightRanges(node.description, search)
+          : NO_RANGES,
+      [isMatchingSearch, search, node.description]
+    );
+
     // Get node type icon and color
     const NodeIcon = NODE_TYPE_ICONS[node.type];
     const nodeIconColor = NODE_TYPE_COLORS[node.type];
@@ -377,7 +430,7 @@ export const TreeNode = forwardRef<HTMLDivElement, TreeNodeProps>(
           {/* Title and Description */}
           <div className="mb-1 flex items-center gap-2">
             <h4 className="text-foreground truncate text-sm font-medium">
-              {node.title}
+              <HighlightedText text={node.title} ranges={titleRanges} />
             </h4>
 
             {/* Status Badge */}
@@ -396,7 +449,10 @@ export const TreeNode = forwardRef<HTMLDivElement, TreeNodeProps>(
           {/* Description */}
           {node.description && (
             <p className="text-muted-foreground mb-1 line-clamp-2 text-xs">
-              {node.description}
+              <HighlightedText
+                text={node.description}
+                ranges={descriptionRanges}
+              />
             </p>
           )}
 
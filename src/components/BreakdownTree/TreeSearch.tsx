@@ -3,6 +3,8 @@
  *
  * A comprehensive search and filter interface for the BreakdownTree component
  * with support for text search, type filtering, status filtering, and more.
+ * The search bar also takes typed queries such as `status:blocked "api"`,
+ * which stay in sync with the filter controls and can be saved or shared.
  *
  * @fileoverview Search and filter component for BreakdownTree
  * @version 1.0.0
@@ -20,8 +22,11 @@ import {
   CheckSquare,
   Flag,
   Circle,
+  Bookmark,
+  Link,
 } from 'lucide-react';
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -43,11 +48,18 @@ import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
 
 import {
+  type SavedTreeQuery,
   type SearchConfig,
   TreeNodeType,
   type SearchFilterState,
 } from './BreakdownTree.types';
 import { useTreeContext } from './TreeContext';
+import {
+  DEFAULT_FILTER_CONFIG,
+  TREE_QUERY_PRIORITIES,
+  TREE_QUERY_STATUSES,
+  treeQuery,
+} from './utils/tree-query';
 
 // =============================================================================
 // Type Icons
@@ -73,10 +85,35 @@ interface TreeSearchProps {
   enableFilters?: boolean;
   /** Placeholder text for search input */
   searchPlaceholder?: string;
+  /** User whom `assignee:@me` refers to */
+  currentUserId?: string;
+  /** URL search parameter the query is read from and written to */
+  queryUrlParam?: string;
   /** Callback when search/filter state changes */
   onSearchFilterChange?: (state: SearchFilterState) => void;
 }
 
+// =============================================================================
+// URL Helpers
+// =============================================================================
+
+function readUrlQuery(param: string): string | null {
+  return new URLSearchParams(window.location.search).get(param);
+}
+
+function writeUrlQuery(param: string, query: string): void {
+  const url = new URL(window.location.href);
+  if (query) {
+    url.searchParams.set(param, query);
+  } else {
+    url.searchParams.delete(param);
+  }
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
+
 // =============================================================================
 // TreeSearch Component
 // =============================================================================
@@ -85,23 +122,50 @@ export function TreeSearch({
   className,
   enableSearch = true,
   enableFilters = true,
-  searchPlaceholder = 'Search nodes...',
+  searchPlaceholder = 'Search nodes or type a query, e.g. status:blocked',
+  currentUserId,
+  queryUrlParam,
   onSearchFilterChange,
 }: TreeSearchProps) {
   const { state, operations } = useTreeContext();
   const { searchFilter } = state;
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [filtersExpanded, setFiltersExpanded] = useState(false);
+  const [queryText, setQueryText] = useState('');
+  const [savedQueries, setSavedQueries] = useState<SavedTreeQuery[]>(
+    treeQuery.loadSavedQueries
+  );
+  const [savedQueryName, setSavedQueryName] = useState('');
+
+  const queryContext = useMemo(() => ({ currentUserId }), [currentUserId]);
+
+  // Canonical query of the current search and filters
+  const currentQuery = useMemo(
+    () =>
+      treeQuery.formatTreeQuery(
+        searchFilter.search,
+        searchFilter.filters,
+        queryContext
+      ),
+    [searchFilter.search, searchFilter.filters, queryContext]
+  );
+
+  const queryErrors = useMemo(
+    () => treeQuery.parseTreeQuery(queryText, queryContext).errors,
+    [queryText, queryContext]
+  );
 
   // =============================================================================
   // Search Handlers
   // =============================================================================
 
-  const handleSearchChange = useCallback(
-    (value: string) => {
-      operations.setSearch({ query: value });
+  const applyQuery = useCallback(
+    (text: string) => {
+      setQueryText(text);
+      const { search, filters } = treeQuery.parseTreeQuery(text, queryContext);
+      operations.setSearchFilter(search, filters);
     },
-    [operations]
+    [operations, queryContext]
   );
 
   const handleSearchOptionsChange = useCallback(
@@ -111,9 +175,34 @@ export function TreeSearch({
     [operations]
   );
 
-  const clearSearch = useCallback(() => {
-    operations.setSearch({ query: '' });
-  }, [operations]);
+  // =============================================================================
+  // Saved Queries
+  // =============================================================================
+
+  const updateSavedQueries = useCallback((queries: SavedTreeQuery[]) => {
+    setSavedQueries(queries);
+    treeQuery.storeSavedQueries(queries);
+  }, []);
+
+  const saveCurrentQuery = useCallback(() => {
+    const name = savedQueryName.trim() || currentQuery;
+    updateSavedQueries(treeQuery.saveQuery(savedQueries, name, currentQuery));
+    setSavedQueryName('');
+  }, [savedQueryName, currentQuery, savedQueries, updateSavedQueries]);
+
+  const deleteSavedQuery = useCallback(
+    (queryId: string) => {
+      updateSavedQueries(savedQueries.filter(query => query.id !== queryId));
+    },
+    [savedQueries, updateSavedQueries]
+  );
+
+  const copyQueryLink = useCallback(() => {
+    navigator.clipboard
+      ?.writeText(window.location.href)
+      .then(() => toast.success('Link copied'))
+      .catch(() => toast.error('Could not copy the link'));
+  }, []);
 
   // =============================================================================
   // Filter Handlers
@@ -165,19 +254,13 @@ export function TreeSearch({
   );
 
   const clearFilters = useCallback(() => {
-    operations.setFilters({
-      nodeTypes: Object.values(TreeNodeType),
-      statuses: [],
-      priorities: [],
-      progressRange: { min: 0, max: 100 },
-      dateRange: { start: null, end: null },
-    });
+    operations.setFilters(DEFAULT_FILTER_CONFIG);
   }, [operations]);
 
+  // The query holds the search and all filters
   const clearAll = useCallback(() => {
-    clearSearch();
-    clearFilters();
-  }, [clearSearch, clearFilters]);
+    applyQuery('');
+  }, [applyQuery]);
 
   // =============================================================================
   // Computed Values
@@ -197,11 +280,15 @@ export function TreeSearch({
     if (filters.priorities.length > 0) count++;
     if (filters.progressRange.min > 0 || filters.progressRange.max < 100)
       count++;
+    if (filters.assignees.length > 0) count++;
+    if (filters.dateRange.start || filters.dateRange.end) count++;
+    if (filters.dueDateRange.start || filters.dueDateRange.end) count++;
 
     return count;
   }, [searchFilter.filters]);
 
   const hasActiveSearch = searchFilter.search.query.length > 0;
+  const hasQueryText = queryText.length > 0;
   const hasActiveFilters = activeFiltersCount > 0;
   const hasAnyActive = hasActiveSearch || hasActiveFilters;
 
@@ -209,36 +296,44 @@ export function TreeSearch({
   const totalCount = state.tree.count;
 
   // =============================================================================
-  // Available Filter Options
+  // Effect: Notify parent of changes
   // =============================================================================
 
-  const statusOptions = useMemo(
-    () => [
-      'draft',
-      'active',
-      'on_hold',
-      'completed',
-      'cancelled',
-      'overdue',
-      'todo',
-      'in_progress',
-      'blocked',
-    ],
-    []
-  );
-
-  const priorityOptions = useMemo(
-    () => ['low', 'medium', 'high', 'critical'],
-    []
-  );
+  React.useEffect(() => {
+    onSearchFilterChange?.(searchFilter);
+  }, [searchFilter, onSearchFilterChange]);
 
   // =============================================================================
-  // Effect: Notify parent of changes
+  // Effects: Query sync
   // =============================================================================
 
+  // Show changes made with the filter controls in the query, unless the
+  // typed query already means the same
   React.useEffect(() => {
-    onSearchFilterChange?.(searchFilter);
-  }, [searchFilter, onSearchFilterChange]);
+    setQueryText(text => {
+      const { search, filters } = treeQuery.parseTreeQuery(text, queryContext);
+      return treeQuery.formatTreeQuery(search, filters, queryContext) ===
+        currentQuery
+        ? text
+        : currentQuery;
+    });
+  }, [currentQuery, queryContext]);
+
+  // Apply a query shared via URL once, then keep the URL up to date
+  const hasReadUrlRef = useRef(false);
+  React.useEffect(() => {
+    if (!queryUrlParam) return;
+
+    if (!hasReadUrlRef.current) {
+      hasReadUrlRef.current = true;
+      const sharedQuery = readUrlQuery(queryUrlParam);
+      if (sharedQuery) {
+        applyQuery(sharedQuery);
+        return;
+      }
+    }
+    writeUrlQuery(queryUrlParam, currentQuery);
+  }, [queryUrlParam, currentQuery, applyQuery]);
 
   // =============================================================================
   // Render
@@ -253,16 +348,19 @@ export function TreeSearch({
           <Input
             type="text"
             placeholder={searchPlaceholder}
-            value={searchFilter.search.query}
-            onChange={e => handleSearchChange(e.target.value)}
+            value={queryText}
+            onChange={e => applyQuery(e.target.value)}
             className="pr-10 pl-10"
+            aria-label="Search query"
+            aria-invalid={queryErrors.length > 0}
           />
-          {hasActiveSearch && (
+          {hasQueryText && (
             <Button
               variant="ghost"
               size="sm"
-              onClick={clearSearch}
+              onClick={clearAll}
               className="hover:bg-destructive/10 absolute top-1/2 right-2 h-6 w-6 -translate-y-1/2 p-0"
+              aria-label="Clear search"
             >
               <X className="h-3 w-3" />
             </Button>
@@ -270,175 +368,276 @@ export function TreeSearch({
         </div>
       )}
 
+      {/* Query Errors */}
+      {enableSearch && queryErrors.length > 0 && (
+        <ul className="text-destructive space-y-1 text-xs">
+          {queryErrors.map(({ token, message }) => (
+            <li key={`${token}-${message}`}>
+              <code>{token}</code>: {message}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Filter Controls */}
-      {enableFilters && (
+      {(enableSearch || enableFilters) && (
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
-            <Popover open={isFilterOpen} onOpenChange={setIsFilterOpen}>
-              <PopoverTrigger asChild>
-                <Button variant="outline" size="sm" className="relative">
-                  <Filter className="mr-2 h-4 w-4" />
-                  Filters
-                  {hasActiveFilters && (
-                    <Badge
-                      variant="secondary"
-                      className="ml-2 h-5 w-5 rounded-full p-0 text-xs"
-                    >
-                      {activeFiltersCount}
-                    </Badge>
-                  )}
-                </Button>
-              </PopoverTrigger>
-
-              <PopoverContent className="w-80" align="start">
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <h4 className="font-medium">Filters</h4>
+            {enableFilters && (
+              <Popover open={isFilterOpen} onOpenChange={setIsFilterOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="relative">
+                    <Filter className="mr-2 h-4 w-4" />
+                    Filters
                     {hasActiveFilters && (
-                      <Button variant="ghost" size="sm" onClick={clearFilters}>
-                        Clear All
-                      </Button>
+                      <Badge
+                        variant="secondary"
+                        className="ml-2 h-5 w-5 rounded-full p-0 text-xs"
+                      >
+                        {activeFiltersCount}
+                      </Badge>
                     )}
-                  </div>
+                  </Button>
+                </PopoverTrigger>
 
-                  {/* Node Type Filter */}
-                  <Collapsible
-                    open={filtersExpanded}
-                    onOpenChange={setFiltersExpanded}
-                  >
-                    <CollapsibleTrigger asChild>
-                      <Button
-                        variant="ghost"
-                        className="w-full justify-between p-0"
-                      >
-                        <span className="text-sm font-medium">Node Types</span>
-                        <ChevronDown className="h-4 w-4" />
-                      </Button>
-                    </CollapsibleTrigger>
-                    <CollapsibleContent className="space-y-2">
-                      {Object.values(TreeNodeType).map(nodeType => {
-                        const Icon = NODE_TYPE_ICONS[nodeType];
-                        const isChecked =
-                          searchFilter.filters.nodeTypes.includes(nodeType);
-
-                        return (
+                <PopoverContent className="w-80" align="start">
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium">Filters</h4>
+                      {hasActiveFilters && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={clearFilters}
+                        >
+                          Clear All
+                        </Button>
+                      )}
+                    </div>
+
+                    {/* Node Type Filter */}
+                    <Collapsible
+                      open={filtersExpanded}
+                      onOpenChange={setFiltersExpanded}
+                    >
+                      <CollapsibleTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          className="w-full justify-between p-0"
+                        >
+                          <span className="text-sm font-medium">
+                            Node Types
+                          </span>
+                          <ChevronDown className="h-4 w-4" />
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="space-y-2">
+                        {Object.values(TreeNodeType).map(nodeType => {
+                          const Icon = NODE_TYPE_ICONS[nodeType];
+                          const isChecked =
+                            searchFilter.filters.nodeTypes.includes(nodeType);
+
+                          return (
+                            <div
+                              key={nodeType}
+                              className="flex items-center space-x-2"
+                            >
+                              <Checkbox
+                                id={`nodeType-${nodeType}`}
+                                checked={isChecked}
+                                onCheckedChange={checked =>
+                                  handleNodeTypeFilter(
+                                    nodeType,
+                                    checked as boolean
+                                  )
+                                }
+                              />
+                              <Label
+                                htmlFor={`nodeType-${nodeType}`}
+                                className="flex cursor-pointer items-center gap-2 text-sm font-normal"
+                              >
+                                <Icon className="h-3 w-3" />
+                                {nodeType.replace('_', ' ')}
+                              </Label>
+                            </div>
+                          );
+                        })}
+                      </CollapsibleContent>
+                    </Collapsible>
+
+                    <Separator />
+
+                    {/* Status Filter */}
+                    <div>
+                      <Label className="text-sm font-medium">Status</Label>
+                      <div className="mt-2 grid grid-cols-2 gap-2">
+                        {TREE_QUERY_STATUSES.map(status => (
+                          <div
+                            key={status}
+                            className="flex items-center space-x-2"
+                          >
+                            <Checkbox
+                              id={`status-${status}`}
+                              checked={searchFilter.filters.statuses.includes(
+                                status
+                              )}
+                              onCheckedChange={checked =>
+                                handleStatusFilter(status, checked as boolean)
+                              }
+                            />
+                            <Label
+                              htmlFor={`status-${status}`}
+                              className="cursor-pointer text-sm font-normal"
+                            >
+                              {status.replace('_', ' ')}
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <Separator />
+
+                    {/* Priority Filter */}
+                    <div>
+                      <Label className="text-sm font-medium">Priority</Label>
+                      <div className="mt-2 space-y-2">
+                        {TREE_QUERY_PRIORITIES.map(priority => (
                           <div
-                            key={nodeType}
+                            key={priority}
                             className="flex items-center space-x-2"
                           >
                             <Checkbox
-                              id={`nodeType-${nodeType}`}
-                              checked={isChecked}
+                              id={`priority-${priority}`}
+                              checked={searchFilter.filters.priorities.includes(
+                                priority
+                              )}
                               onCheckedChange={checked =>
-                                handleNodeTypeFilter(
-                                  nodeType,
+                                handlePriorityFilter(
+                                  priority,
                                   checked as boolean
                                 )
                               }
                             />
                             <Label
-                              htmlFor={`nodeType-${nodeType}`}
-                              className="flex cursor-pointer items-center gap-2 text-sm font-normal"
+                              htmlFor={`priority-${priority}`}
+                              className="cursor-pointer text-sm font-normal capitalize"
                             >
-                              <Icon className="h-3 w-3" />
-                              {nodeType.replace('_', ' ')}
+                              {priority}
                             </Label>
                           </div>
-                        );
-                      })}
-                    </CollapsibleContent>
-                  </Collapsible>
-
-                  <Separator />
-
-                  {/* Status Filter */}
-                  <div>
-                    <Label className="text-sm font-medium">Status</Label>
-                    <div className="mt-2 grid grid-cols-2 gap-2">
-                      {statusOptions.map(status => (
-                        <div
-                          key={status}
-                          className="flex items-center space-x-2"
-                        >
-                          <Checkbox
-                            id={`status-${status}`}
-                            checked={searchFilter.filters.statuses.includes(
-                              status
-                            )}
-                            onCheckedChange={checked =>
-                              handleStatusFilter(status, checked as boolean)
-                            }
-                          />
-                          <Label
-                            htmlFor={`status-${status}`}
-                            className="cursor-pointer text-sm font-normal"
-                          >
-                            {status.replace('_', ' ')}
-                          </Label>
+                        ))}
+                      </div>
+                    </div>
+
+                    <Separator />
+
+                    {/* Progress Range Filter */}
+                    <div>
+                      <Label className="text-sm font-medium">
+                        Progress Range
+                      </Label>
+                      <div className="mt-2 space-y-2">
+                        <Slider
+                          value={[
+                            searchFilter.filters.progressRange.min,
+                            searchFilter.filters.progressRange.max,
+                          ]}
+                          onValueChange={handleProgressRangeChange}
+                          max={100}
+                          min={0}
+                          step={5}
+                          className="w-full"
+                        />
+                        <div className="text-muted-foreground flex justify-between text-xs">
+                          <span>{searchFilter.filters.progressRange.min}%</span>
+                          <span>{searchFilter.filters.progressRange.max}%</span>
                         </div>
-                      ))}
+                      </div>
                     </div>
                   </div>
+                </PopoverContent>
+              </Popover>
+            )}
 
-                  <Separator />
+            {/* Saved Queries */}
+            {enableSearch && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Bookmark className="mr-2 h-4 w-4" />
+                    Saved
+                  </Button>
+                </PopoverTrigger>
 
-                  {/* Priority Filter */}
-                  <div>
-                    <Label className="text-sm font-medium">Priority</Label>
-                    <div className="mt-2 space-y-2">
-                      {priorityOptions.map(priority => (
-                        <div
-                          key={priority}
-                          className="flex items-center space-x-2"
-                        >
-                          <Checkbox
-                            id={`priority-${priority}`}
-                            checked={searchFilter.filters.priorities.includes(
-                              priority
-                            )}
-                            onCheckedChange={checked =>
-                              handlePriorityFilter(priority, checked as boolean)
-                            }
-                          />
-                          <Label
-                            htmlFor={`priority-${priority}`}
-                            className="cursor-pointer text-sm font-normal capitalize"
+                <PopoverContent className="w-72" align="start">
+                  <div className="space-y-3">
+                    <h4 className="font-medium">Saved Queries</h4>
+
+                    {savedQueries.length === 0 ? (
+                      <p className="text-muted-foreground text-sm">
+                        No saved queries yet
+                      </p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {savedQueries.map(saved => (
+                          <li
+                            key={saved.id}
+                            className="flex items-center gap-1"
                           >
-                            {priority}
-                          </Label>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="min-w-0 flex-1 justify-start"
+                              title={saved.query}
+                              onClick={() => applyQuery(saved.query)}
+                            >
+                              <span className="truncate">{saved.name}</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              onClick={() => deleteSavedQuery(saved.id)}
+                              aria-label={`Delete ${saved.name}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <Separator />
 
-                  <Separator />
-
-                  {/* Progress Range Filter */}
-                  <div>
-                    <Label className="text-sm font-medium">
-                      Progress Range
-                    </Label>
-                    <div className="mt-2 space-y-2">
-                      <Slider
-                        value={[
-                          searchFilter.filters.progressRange.min,
-                          searchFilter.filters.progressRange.max,
-                        ]}
-                        onValueChange={handleProgressRangeChange}
-                        max={100}
-                        min={0}
-                        step={5}
-                        className="w-full"
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={savedQueryName}
+                        onChange={e => setSavedQueryName(e.target.value)}
+                        placeholder="Name"
+                        aria-label="Saved query name"
+                        className="h-8"
                       />
-                      <div className="text-muted-foreground flex justify-between text-xs">
-                        <span>{searchFilter.filters.progressRange.min}%</span>
-                        <span>{searchFilter.filters.progressRange.max}%</span>
-                      </div>
+                      <Button
+                        size="sm"
+                        onClick={saveCurrentQuery}
+                        disabled={!currentQuery}
+                      >
+                        Save
+                      </Button>
                     </div>
                   </div>
-                </div>
-              </PopoverContent>
-            </Popover>
+                </PopoverContent>
+              </Popover>
+            )}
+
+            {/* Share Query */}
+            {enableSearch && queryUrlParam && currentQuery && (
+              <Button variant="outline" size="sm" onClick={copyQueryLink}>
+                <Link className="mr-2 h-4 w-4" />
+                Copy Link
+              </Button>
+            )}
 
             {/* Search Options */}
             {enableSearch && hasActiveSearch && (
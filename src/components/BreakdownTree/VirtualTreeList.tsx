@@ -0,0 +1,195 @@
+/**
+ * VirtualTreeList Component
+ *
+ * Renders only the tree rows inside the scroll viewport so that hierarchies
+ * with thousands of nodes stay responsive. Rows have a fixed height, and the
+ * focused and dragged rows stay mounted while scrolled out of view so that
+ * keyboard focus and drag-and-drop keep working.
+ *
+ * @fileoverview Virtualized row list for BreakdownTree
+ * @version 1.0.0
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+
+import { cn } from '@/lib/utils';
+import { useVirtualScroll } from '@/lib/utils/performance';
+
+import { type TreeNode } from './BreakdownTree.types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Visible node count from which the tree renders rows virtually */
+export const DEFAULT_VIRTUAL_SCROLL_THRESHOLD = 100;
+
+/** Row height in pixels, large enough for a title, description and progress */
+export const DEFAULT_VIRTUAL_ROW_HEIGHT = 80;
+
+/** Viewport height used until the scroll container has been measured */
+const FALLBACK_VIEWPORT_HEIGHT = 600;
+
+/** Rows rendered above and below the viewport */
+const OVERSCAN = 10;
+
+/** Vertical padding around the rows, matching the non-virtual list */
+const LIST_PADDING = 8;
+
+const NO_PINNED_NODES: Array<string | null | undefined> = [];
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface VirtualTreeListProps {
+  /** Visible nodes in tree order */
+  nodes: TreeNode[];
+  /** Fixed row height in pixels */
+  rowHeight: number;
+  /** Renders the row content for a node */
+  renderNode: (node: TreeNode) => React.ReactNode;
+  /** Focused node, scrolled into view whenever focus moves */
+  focusedNodeId: string | null;
+  /** Nodes kept mounted while out of view, e.g. the node being dragged */
+  pinnedNodeIds?: Array<string | null | undefined>;
+  /** Custom class names */
+  className?: string;
+}
+
+// =============================================================================
+// VirtualTreeList Component
+// =============================================================================
+
+export function VirtualTreeList({
+  nodes,
+  rowHeight,
+  renderNode,
+  focusedNodeId,
+  pinnedNodeIds = NO_PINNED_NODES,
+  className,
+}: VirtualTreeListProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewportHeight, setViewportHeight] = useState(
+    FALLBACK_VIEWPORT_HEIGHT
+  );
+
+  const { startIndex, endIndex, totalHeight, onScroll } = useVirtualScroll({
+    itemHeight: rowHeight,
+    containerHeight: viewportHeight,
+    totalItems: nodes.length,
+    overscan: OVERSCAN,
+  });
+
+  const indexById = useMemo(
+    () => new Map(nodes.map((node, index) => [node.id, index])),
+    [nodes]
+  );
+  const indexByIdRef = useRef(indexById);
+  indexByIdRef.current = indexById;
+
+  // ===========================================================================
+  // Viewport Measurement
+  // ===========================================================================
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const measure = () => {
+      if (viewport.clientHeight > 0) {
+        setViewportHeight(viewport.clientHeight);
+      }
+    };
+
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // ===========================================================================
+  // Focus Tracking
+  // ===========================================================================
+
+  // Only runs when focus moves, so scrolling away with the mouse and then
+  // expanding or selecting nodes does not jump back to the focused row
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const index = focusedNodeId
+      ? indexByIdRef.current.get(focusedNodeId)
+      : undefined;
+    if (!viewport || index === undefined) return;
+
+    const top = LIST_PADDING + index * rowHeight;
+    if (top < viewport.scrollTop) {
+      viewport.scrollTop = top;
+    } else if (top + rowHeight > viewport.scrollTop + viewport.clientHeight) {
+      viewport.scrollTop = top + rowHeight - viewport.clientHeight;
+    }
+
+    // The previously focused row may have been unmounted, which drops the
+    // browser focus; hand it to the newly focused row instead
+    const active = document.activeElement;
+    if (active === document.body || viewport.contains(active)) {
+      const row = viewport.querySelector<HTMLElement>(
+        `[data-node-id="${focusedNodeId}"]`
+      );
+      if (row && row !== active) {
+        row.focus({ preventScroll: true });
+      }
+    }
+  }, [focusedNodeId, rowHeight]);
+
+  // ===========================================================================
+  // Rows
+  // ===========================================================================
+
+  const rows = useMemo(() => {
+    const indices = new Set<number>();
+    for (let index = startIndex; index <= endIndex; index++) {
+      indices.add(index);
+    }
+
+    [focusedNodeId, ...pinnedNodeIds].forEach(nodeId => {
+      const index = nodeId ? indexById.get(nodeId) : undefined;
+      if (index !== undefined) indices.add(index);
+    });
+
+    // Keep DOM order equal to tree order for tabbing and drop detection
+    return Array.from(indices)
+      .sort((a, b) => a - b)
+      .map(index => ({ index, node: nodes[index] }));
+  }, [startIndex, endIndex, focusedNodeId, pinnedNodeIds, indexById, nodes]);
+
+  return (
+    <div
+      ref={viewportRef}
+      className={cn('h-full overflow-y-auto', className)}
+      onScroll={onScroll}
+    >
+      <div
+        className="relative"
+        role="tree"
+        style={{ height: totalHeight + LIST_PADDING * 2 }}
+      >
+        {rows.map(({ index, node }) => (
+          <div
+            key={node.id}
+            role="none"
+            className="absolute inset-x-2 overflow-hidden pb-1"
+            style={{ top: LIST_PADDING + index * rowHeight, height: rowHeight }}
+          >
+            {renderNode(node)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualTreeList;
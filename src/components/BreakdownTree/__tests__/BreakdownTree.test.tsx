@@ -9,7 +9,7 @@
  */
 
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import React from 'react';
@@ -310,6 +310,86 @@ describe('BreakdownTree', () => {
     });
   });
 
+  // ===========================================================================
+  // Search Query Tests
+  // ===========================================================================
+
+  describe('Search Query', () => {
+    beforeEach(() => {
+      localStorage.clear();
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('should filter nodes with a typed query and highlight matches', async () => {
+      renderBreakdownTree();
+
+      await user.type(screen.getByLabelText('Search query'), 'type:task test');
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('Test', { selector: 'mark' })
+        ).toBeInTheDocument();
+      });
+      expect(screen.getByText(/1 of 3 nodes/)).toBeInTheDocument();
+    });
+
+    it('should report tokens it cannot parse', async () => {
+      renderBreakdownTree();
+
+      await user.type(screen.getByLabelText('Search query'), 'stauts:blocked');
+
+      expect(
+        await screen.findByText(/Unknown field "stauts"/)
+      ).toBeInTheDocument();
+    });
+
+    it('should show filter changes in the query', async () => {
+      renderBreakdownTree();
+
+      await user.click(screen.getByRole('button', { name: /filters/i }));
+      await user.click(screen.getByLabelText('blocked'));
+
+      expect(screen.getByLabelText('Search query')).toHaveValue(
+        'status:blocked'
+      );
+    });
+
+    it('should read and write the query in the URL', async () => {
+      window.history.replaceState(null, '', '/?q=type%3Atask');
+      renderBreakdownTree({
+        config: { enableSearch: true, queryUrlParam: 'q' },
+      });
+
+      const input = screen.getByLabelText('Search query');
+      await waitFor(() => expect(input).toHaveValue('type:task'));
+
+      await user.type(input, ' status:todo');
+
+      await waitFor(() => {
+        expect(new URLSearchParams(window.location.search).get('q')).toBe(
+          'type:task status:todo'
+        );
+      });
+    });
+
+    it('should apply a saved query', async () => {
+      renderBreakdownTree();
+      const input = screen.getByLabelText('Search query');
+
+      await user.type(input, 'type:task');
+      await user.click(screen.getByRole('button', { name: /saved/i }));
+      await user.type(screen.getByLabelText('Saved query name'), 'Tasks');
+      await user.click(screen.getByRole('button', { name: 'Save' }));
+      await user.click(screen.getByRole('button', { name: 'Clear search' }));
+      expect(input).toHaveValue('');
+
+      await user.click(screen.getByRole('button', { name: /saved/i }));
+      await user.click(screen.getByRole('button', { name: 'Tasks' }));
+
+      expect(input).toHaveValue('type:task');
+    });
+  });
+
   // ===========================================================================
   // Node Interaction Tests
   // ===========================================================================
@@ -643,6 +723,220 @@ describe('BreakdownTree', () => {
     });
   });
 
+  // ===========================================================================
+  // History Tests
+  // ===========================================================================
+
+  describe('History', () => {
+    const deleteTask = async () => {
+      await user.click(screen.getByText('Test Task'));
+      await user.keyboard('{Delete}');
+      await waitFor(() => {
+        expect(screen.queryByText('Test Task')).not.toBeInTheDocument();
+      });
+    };
+
+    it('should undo and redo with keyboard shortcuts', async () => {
+      renderBreakdownTree();
+      await deleteTask();
+
+      await user.keyboard('{Control>}z{/Control}');
+      expect(await screen.findByText('Test Task')).toBeInTheDocument();
+
+      await user.keyboard('{Control>}{Shift>}z{/Shift}{/Control}');
+      await waitFor(() => {
+        expect(screen.queryByText('Test Task')).not.toBeInTheDocument();
+      });
+    });
+
+    it('should enable the undo button after a change', async () => {
+      renderBreakdownTree();
+
+      expect(screen.getByLabelText('Undo')).toBeDisabled();
+      await deleteTask();
+
+      await user.click(screen.getByLabelText('Undo'));
+      expect(await screen.findByText('Test Task')).toBeInTheDocument();
+      expect(screen.getByLabelText('Redo')).toBeEnabled();
+    });
+
+    it('should list recent changes in the history panel', async () => {
+      renderBreakdownTree();
+      await deleteTask();
+
+      await user.click(screen.getByRole('button', { name: /history/i }));
+
+      const history = await screen.findByRole('list', {
+        name: 'Change history',
+      });
+      expect(history).toHaveTextContent('Deleted "Test Task"');
+    });
+
+    it('should hide history controls when disabled', () => {
+      renderBreakdownTree({ config: { enableHistory: false } });
+
+      expect(screen.queryByLabelText('Undo')).not.toBeInTheDocument();
+    });
+  });
+
+  // ===========================================================================
+  // Server Sync Tests
+  // ===========================================================================
+
+  describe('Server Sync', () => {
+    const createSyncApi = (deleteTask: (id: string) => Promise<void>) => ({
+      goals: {
+        createGoal: jest.fn(),
+        updateGoal: jest.fn(),
+        deleteGoal: jest.fn(),
+      },
+      tasks: {
+        createTask: jest.fn(),
+        updateTask: jest.fn(),
+        deleteTask: jest.fn(deleteTask),
+        reorderTasks: jest.fn(),
+        createSubtask: jest.fn(),
+        updateSubtask: jest.fn(),
+        deleteSubtask: jest.fn(),
+      },
+    });
+
+    const deleteTask = async () => {
+      await user.click(screen.getByText('Test Task'));
+      await user.keyboard('{Delete}');
+    };
+
+    it('should persist a deleted task', async () => {
+      const api = createSyncApi(async () => undefined);
+      renderBreakdownTree({ sync: { api, batchDelay: 0 } });
+
+      await deleteTask();
+
+      await waitFor(() => {
+        expect(api.tasks.deleteTask).toHaveBeenCalledWith('task-1');
+      });
+      expect(screen.queryByText('Test Task')).not.toBeInTheDocument();
+    });
+
+    it('should restore a task when the server rejects its deletion', async () => {
+      const api = createSyncApi(async () => {
+        throw new Error('Not allowed');
+      });
+      const onError = jest.fn();
+      renderBreakdownTree({ sync: { api, batchDelay: 0, onError } });
+
+      await deleteTask();
+
+      expect(await screen.findByText('Test Task')).toBeInTheDocument();
+      expect(onError).toHaveBeenCalledWith([
+        expect.objectContaining({
+          mutation: 'delete_task',
+          error: 'Not allowed',
+        }),
+      ]);
+    });
+  });
+
+  // ===========================================================================
+  // Clipboard Tests
+  // ===========================================================================
+
+  describe('Clipboard', () => {
+    /** Clipboard event data, which jsdom does not implement */
+    const createClipboardData = () => {
+      const data = new Map<string, string>();
+      return {
+        setData: (format: string, value: string) => data.set(format, value),
+        getData: (format: string) => data.get(format) ?? '',
+      };
+    };
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should paste a copied task next to the selected task', async () => {
+      const onTreeChange = jest.fn();
+      const clipboardData = createClipboardData();
+      renderBreakdownTree({ onTreeChange });
+
+      await user.click(screen.getByText('Test Task'));
+      fireEvent.copy(screen.getByText('Test Task'), { clipboardData });
+      fireEvent.paste(screen.getByText('Test Task'), { clipboardData });
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Test Task')).toHaveLength(2);
+      });
+      expect(onTreeChange).toHaveBeenCalled();
+    });
+
+    it('should move a cut task when it is pasted', async () => {
+      const clipboardData = createClipboardData();
+      renderBreakdownTree();
+
+      await user.click(screen.getByText('Test Task'));
+      fireEvent.cut(screen.getByText('Test Task'), { clipboardData });
+
+      await waitFor(() => {
+        expect(screen.queryByText('Test Task')).not.toBeInTheDocument();
+      });
+
+      await user.click(screen.getByText('Test Goal'));
+      fireEvent.paste(screen.getByText('Test Goal'), { clipboardData });
+
+      expect(await screen.findByText('Test Task')).toBeInTheDocument();
+    });
+  });
+
+  // ===========================================================================
+  // Virtualization Tests
+  // ===========================================================================
+
+  describe('Virtualization', () => {
+    const manyGoals = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        ...mockGoal,
+        id: `goal-${i}`,
+        title: `Goal ${i}`,
+      }));
+
+    it('should only render the rows in view for large trees', () => {
+      renderBreakdownTree({ initialData: manyGoals(2000) });
+
+      expect(screen.getByText('2000 of 2000 nodes')).toBeInTheDocument();
+      expect(screen.getByText('Goal 0')).toBeInTheDocument();
+      expect(screen.queryByText('Goal 1999')).not.toBeInTheDocument();
+      expect(screen.getAllByRole('treeitem').length).toBeLessThan(50);
+    });
+
+    it('should render every row below the threshold', () => {
+      renderBreakdownTree({
+        initialData: manyGoals(60),
+        config: { virtualScrollThreshold: 100 },
+      });
+
+      expect(screen.getAllByRole('treeitem')).toHaveLength(60);
+    });
+
+    it('should keep the focused row rendered while moving past the viewport', async () => {
+      renderBreakdownTree({
+        initialData: manyGoals(300),
+        config: { enableDragDrop: false },
+      });
+
+      await user.click(screen.getByText('Goal 0'));
+      await user.keyboard('{ArrowDown>40/}');
+
+      await waitFor(() => {
+        expect(document.activeElement).toHaveAttribute(
+          'data-node-id',
+          'goal-40'
+        );
+      });
+      expect(screen.queryByText('Goal 60')).not.toBeInTheDocument();
+    });
+  });
+
   // ===========================================================================
   // Error Boundary Tests
   // ===========================================================================
@@ -0,0 +1,81 @@
+/**
+ * Tree Test Fixtures
+ *
+ * Builders for the small trees the BreakdownTree utility suites run against.
+ * Each builder throws when the tree operation behind it fails, so a broken
+ * fixture stops the test at setup instead of surfacing later as an undefined
+ * node.
+ *
+ * @fileoverview Shared fixtures for BreakdownTree tests
+ * @version 1.0.0
+ */
+
+import {
+  type FlatTree,
+  type TreeNode,
+  type TreeNodeUpdate,
+  type TreeOperationResult,
+  TreeNodeType,
+} from '../../BreakdownTree.types';
+import { treeOperations } from '../../utils/tree-operations';
+
+export const emptyTree: FlatTree = { nodes: new Map(), rootIds: [], count: 0 };
+
+/** Returns the tree of a successful operation, or throws with its error */
+const resultTree = (result: TreeOperationResult, action: string): FlatTree => {
+  if (!result.success || !result.tree) {
+    throw new Error(`Could not ${action}: ${result.error ?? 'unknown error'}`);
+  }
+  return result.tree;
+};
+
+/** Adds a node under the given parent, or at the root when it is null */
+export const addNode = (
+  tree: FlatTree,
+  type: TreeNodeType,
+  title: string,
+  parentId: string | null,
+  index: number
+): FlatTree =>
+  resultTree(
+    treeOperations.addNode(tree, { type, title, parentId, index }),
+    `add "${title}"`
+  );
+
+export const updateNode = (
+  tree: FlatTree,
+  nodeId: string,
+  updates: TreeNodeUpdate['updates']
+): FlatTree =>
+  resultTree(
+    treeOperations.updateNode(tree, { nodeId, updates }),
+    `update "${nodeId}"`
+  );
+
+export const moveNode = (
+  tree: FlatTree,
+  nodeId: string,
+  newParentId: string | null,
+  newIndex: number
+): FlatTree =>
+  resultTree(
+    treeOperations.moveNode(tree, { nodeId, newParentId, newIndex }),
+    `move "${nodeId}"`
+  );
+
+export const removeNode = (tree: FlatTree, nodeId: string): FlatTree =>
+  resultTree(treeOperations.removeNode(tree, nodeId), `remove "${nodeId}"`);
+
+/** Finds the node with the given title */
+export const nodeOf = (tree: FlatTree, title: string): TreeNode => {
+  const node = Array.from(tree.nodes.values()).find(
+    candidate => candidate.title === title
+  );
+  if (!node) {
+    throw new Error(`No node titled "${title}"`);
+  }
+  return node;
+};
+
+export const idOf = (tree: FlatTree, title: string): string =>
+  nodeOf(tree, title).id;
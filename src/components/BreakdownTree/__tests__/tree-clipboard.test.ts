@@ -0,0 +1,201 @@
+/**
+ * Tree Clipboard Test Suite
+ *
+ * Tests for cutting, copying and pasting subtrees, including ID regeneration,
+ * status handling, paste targets and clipboard serialization.
+ *
+ * @fileoverview Unit tests for tree clipboard utilities
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+import { type FlatTree, TreeNodeType } from '../BreakdownTree.types';
+import {
+  copyNodes,
+  getPasteTarget,
+  parseClipboardPayload,
+  pasteNodes,
+  readClipboard,
+  serializeClipboardPayload,
+  writeClipboard,
+} from '../utils/tree-clipboard';
+
+import { addNode, emptyTree, idOf, updateNode } from './helpers/tree-fixtures';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const nodesTitled = (tree: FlatTree, title: string) =>
+  Array.from(tree.nodes.values()).filter(node => node.title === title);
+
+/**
+ * Goal "Launch" with the milestone "Alpha" (task "Write docs"), and goal
+ * "Hire"
+ */
+const buildMockTree = () => {
+  let tree = addNode(emptyTree, TreeNodeType.GOAL, 'Launch', null, 0);
+  tree = addNode(tree, TreeNodeType.GOAL, 'Hire', null, 1);
+  tree = addNode(
+    tree,
+    TreeNodeType.MILESTONE,
+    'Alpha',
+    idOf(tree, 'Launch'),
+    0
+  );
+  tree = addNode(tree, TreeNodeType.TASK, 'Write docs', idOf(tree, 'Alpha'), 0);
+  return updateNode(tree, idOf(tree, 'Write docs'), {
+    status: 'completed',
+    progress: 100,
+  });
+};
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('Tree Clipboard', () => {
+  let tree: FlatTree;
+
+  beforeEach(() => {
+    tree = buildMockTree();
+  });
+
+  describe('copyNodes', () => {
+    it('should copy selected nodes with their descendants only once', () => {
+      const payload = copyNodes(tree, [
+        idOf(tree, 'Write docs'),
+        idOf(tree, 'Alpha'),
+      ]);
+
+      expect(payload?.rootIds).toEqual([idOf(tree, 'Alpha')]);
+      expect(payload?.nodes.map(node => node.title)).toEqual([
+        'Alpha',
+        'Write docs',
+      ]);
+    });
+
+    it('should return null when none of the nodes exist', () => {
+      expect(copyNodes(tree, ['missing'])).toBeNull();
+    });
+  });
+
+  describe('pasteNodes', () => {
+    it('should paste a subtree into another goal with new IDs', () => {
+      const hireId = idOf(tree, 'Hire');
+      const payload = copyNodes(tree, [idOf(tree, 'Alpha')])!;
+
+      const result = pasteNodes(tree, payload, { parentId: hireId });
+
+      expect(result.success).toBe(true);
+      const pasted = result.tree!;
+      const [alphaCopy] = nodesTitled(pasted, 'Alpha').filter(
+        node => node.parentId === hireId
+      );
+      expect(alphaCopy.id).not.toBe(idOf(tree, 'Alpha'));
+      expect(pasted.nodes.get(hireId)?.children).toEqual([alphaCopy.id]);
+
+      const [docsCopy] = nodesTitled(pasted, 'Write docs').filter(
+        node => node.parentId === alphaCopy.id
+      );
+      expect(docsCopy.id).not.toBe(idOf(tree, 'Write docs'));
+      expect(docsCopy.data.id).toBe(docsCopy.id);
+      expect(pasted.count).toBe(tree.count + 2);
+    });
+
+    it('should reset the status of copies unless it is preserved', () => {
+      const payload = copyNodes(tree, [idOf(tree, 'Write docs')])!;
+      const alphaId = idOf(tree, 'Alpha');
+      const copyOf = (preserveStatus?: boolean) => {
+        const pasted = pasteNodes(tree, payload, {
+          parentId: alphaId,
+          preserveStatus,
+        }).tree!;
+        return pasted.nodes.get(pasted.nodes.get(alphaId)!.children[1])!;
+      };
+
+      expect(copyOf()).toMatchObject({ status: 'todo', progress: 0 });
+      expect(copyOf(true)).toMatchObject({
+        status: 'completed',
+        progress: 100,
+      });
+    });
+
+    it('should preserve the status of cut nodes by default', () => {
+      const payload = copyNodes(tree, [idOf(tree, 'Write docs')], 'cut')!;
+      const alphaId = idOf(tree, 'Alpha');
+
+      const pasted = pasteNodes(tree, payload, { parentId: alphaId }).tree!;
+
+      expect(
+        pasted.nodes.get(pasted.nodes.get(alphaId)!.children[1])
+      ).toMatchObject({ status: 'completed', progress: 100 });
+    });
+
+    it('should reject pasting into a node that cannot contain the nodes', () => {
+      const payload = copyNodes(tree, [idOf(tree, 'Alpha')])!;
+
+      const result = pasteNodes(tree, payload, {
+        parentId: idOf(tree, 'Write docs'),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Cannot paste a milestone into a task');
+    });
+  });
+
+  describe('getPasteTarget', () => {
+    it('should paste next to a node that cannot contain the nodes', () => {
+      const payload = copyNodes(tree, [idOf(tree, 'Launch')])!;
+
+      expect(getPasteTarget(tree, payload, idOf(tree, 'Alpha'))).toEqual({
+        parentId: idOf(tree, 'Launch'),
+        index: 1,
+      });
+      expect(
+        getPasteTarget(tree, payload, idOf(tree, 'Write docs'))
+      ).toBeNull();
+      expect(getPasteTarget(tree, payload, idOf(tree, 'Hire'))).toEqual({
+        parentId: idOf(tree, 'Hire'),
+        index: 0,
+      });
+      expect(getPasteTarget(tree, payload, null)).toEqual({
+        parentId: null,
+        index: 2,
+      });
+    });
+  });
+
+  describe('Clipboard Access', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should round-trip a payload with its dates', () => {
+      const payload = copyNodes(tree, [idOf(tree, 'Alpha')])!;
+
+      const parsed = parseClipboardPayload(serializeClipboardPayload(payload));
+
+      expect(parsed?.copiedAt).toBeInstanceOf(Date);
+      expect(parsed?.nodes[0].createdAt).toBeInstanceOf(Date);
+      expect(parseClipboardPayload('- Alpha')).toBeNull();
+    });
+
+    it('should read the stored payload when the clipboard text matches', () => {
+      const payload = copyNodes(tree, [idOf(tree, 'Alpha')])!;
+      const text = writeClipboard(payload);
+      const dataTransferWith = (plainText: string) =>
+        ({
+          getData: (format: string) =>
+            format === 'text/plain' ? plainText : '',
+        }) as unknown as DataTransfer;
+
+      expect(text).toBe('- Alpha\n  - Write docs');
+      expect(readClipboard(dataTransferWith(text))?.rootIds).toEqual(
+        payload.rootIds
+      );
+      expect(readClipboard(dataTransferWith('other text'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tree History Test Suite
+ *
+ * Tests for the undo/redo journal, including entry creation, grouping and
+ * applying entries to the tree.
+ *
+ * @fileoverview Unit tests for tree history utilities
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+import {
+  type FlatTree,
+  type TreeHistoryEntry,
+  TreeNodeType,
+} from '../BreakdownTree.types';
+import {
+  EMPTY_HISTORY,
+  applyHistoryEntry,
+  createHistoryEntry,
+  mergeHistoryEntries,
+  recordHistoryEntry,
+  redoHistory,
+  undoHistory,
+} from '../utils/tree-history';
+
+import { addNode, emptyTree, idOf, removeNode } from './helpers/tree-fixtures';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+/** Goal "Launch" with the tasks "Write docs" and "Ship beta" */
+const buildMockTree = () => {
+  let tree = addNode(emptyTree, TreeNodeType.GOAL, 'Launch', null, 0);
+  const goalId = idOf(tree, 'Launch');
+  tree = addNode(tree, TreeNodeType.TASK, 'Write docs', goalId, 0);
+  tree = addNode(tree, TreeNodeType.TASK, 'Ship beta', goalId, 1);
+  return tree;
+};
+
+const details = (label: string) => ({
+  operation: 'delete' as const,
+  label,
+  nodeIds: [],
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('Tree History', () => {
+  let tree: FlatTree;
+  let goalId: string;
+  let docsId: string;
+  let betaId: string;
+
+  beforeEach(() => {
+    tree = buildMockTree();
+    goalId = idOf(tree, 'Launch');
+    docsId = idOf(tree, 'Write docs');
+    betaId = idOf(tree, 'Ship beta');
+  });
+
+  const remove = (from: FlatTree, nodeId: string) => {
+    const removed = removeNode(from, nodeId);
+    const entry = createHistoryEntry(from, removed, details(nodeId))!;
+    return { tree: removed, entry };
+  };
+
+  describe('createHistoryEntry', () => {
+    it('should record only the nodes an operation changed', () => {
+      const withSecondGoal = addNode(tree, TreeNodeType.GOAL, 'Hire', null, 1);
+      const { entry } = remove(withSecondGoal, docsId);
+
+      const changedIds = entry.changes.map(change => change.nodeId);
+      expect(changedIds).toContain(docsId);
+      expect(changedIds).toContain(goalId);
+      expect(changedIds).not.toContain(idOf(withSecondGoal, 'Hire'));
+      expect(entry.rootIds).toBeUndefined();
+      expect(entry.changes.find(c => c.nodeId === docsId)?.after).toBeNull();
+    });
+
+    it('should return null when nothing changed', () => {
+      expect(createHistoryEntry(tree, tree, details('noop'))).toBeNull();
+    });
+  });
+
+  describe('applyHistoryEntry', () => {
+    it('should undo and redo a deletion', () => {
+      const { tree: removed, entry } = remove(tree, docsId);
+
+      const restored = applyHistoryEntry(removed, entry, 'undo');
+      expect(restored.nodes.get(docsId)?.title).toBe('Write docs');
+      expect(restored.nodes.get(goalId)?.children).toEqual(
+        tree.nodes.get(goalId)?.children
+      );
+      expect(restored.count).toBe(tree.count);
+
+      const redone = applyHistoryEntry(restored, entry, 'redo');
+      expect(redone.nodes.has(docsId)).toBe(false);
+      expect(redone.count).toBe(tree.count - 1);
+    });
+
+    it('should keep the view state of nodes that are still in the tree', () => {
+      const { tree: removed, entry } = remove(tree, docsId);
+      const goal = removed.nodes.get(goalId)!;
+      removed.nodes.set(goalId, { ...goal, isExpanded: false });
+
+      const restored = applyHistoryEntry(removed, entry, 'undo');
+      expect(restored.nodes.get(goalId)?.isExpanded).toBe(false);
+    });
+
+    it('should restore the root order', () => {
+      const created = addNode(tree, TreeNodeType.GOAL, 'Second goal', null, 0);
+      const entry = createHistoryEntry(tree, created, details('add'))!;
+
+      expect(entry.rootIds?.after).toHaveLength(2);
+      expect(applyHistoryEntry(created, entry, 'undo').rootIds).toEqual(
+        tree.rootIds
+      );
+    });
+  });
+
+  describe('mergeHistoryEntries', () => {
+    it('should undo a group of operations at once', () => {
+      const first = remove(tree, docsId);
+      const second = remove(first.tree, betaId);
+      const group = mergeHistoryEntries(
+        [first.entry, second.entry],
+        'Deleted 2 nodes'
+      )!;
+
+      expect(group).toMatchObject({
+        operation: 'group',
+        label: 'Deleted 2 nodes',
+      });
+
+      const restored = applyHistoryEntry(second.tree, group, 'undo');
+      expect(restored.nodes.get(goalId)?.children).toEqual([docsId, betaId]);
+      expect(restored.count).toBe(3);
+    });
+
+    it('should drop nodes that were created and deleted again', () => {
+      const created = addNode(tree, TreeNodeType.GOAL, 'Temporary', null, 1);
+      const newId = created.rootIds[1];
+      const add = createHistoryEntry(tree, created, details('add'))!;
+      const { entry: undoAdd } = remove(created, newId);
+
+      const group = mergeHistoryEntries([add, undoAdd], 'Temporary goal')!;
+      expect(group.changes.map(change => change.nodeId)).not.toContain(newId);
+      expect(group.rootIds).toBeUndefined();
+      expect(mergeHistoryEntries([], 'Empty')).toBeNull();
+    });
+  });
+
+  describe('history state', () => {
+    const entry = (id: string) => ({ id }) as TreeHistoryEntry;
+
+    it('should move entries between past and future', () => {
+      let history = [entry('a'), entry('b'), entry('c')].reduce(
+        (current, e) => recordHistoryEntry(current, e),
+        EMPTY_HISTORY
+      );
+
+      history = undoHistory(history, 2);
+      expect(history.past.map(e => e.id)).toEqual(['a']);
+      expect(history.future.map(e => e.id)).toEqual(['b', 'c']);
+
+      history = redoHistory(history, 1);
+      expect(history.past.map(e => e.id)).toEqual(['a', 'b']);
+      expect(history.future.map(e => e.id)).toEqual(['c']);
+
+      history = recordHistoryEntry(history, entry('d'));
+      expect(history.future).toEqual([]);
+    });
+
+    it('should drop the oldest entries past the limit', () => {
+      const history = [entry('a'), entry('b'), entry('c')].reduce(
+        (current, e) => recordHistoryEntry(current, e, 2),
+        EMPTY_HISTORY
+      );
+
+      expect(history.past.map(e => e.id)).toEqual(['b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Tree Query Test Suite
+ *
+ * Tests for the typed query language of the tree search, including parsing,
+ * formatting, matching, highlighting and saved queries.
+ *
+ * @fileoverview Unit tests for tree query utilities
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+import {
+  type FlatTree,
+  type TreeNode,
+  TreeNodeType,
+} from '../BreakdownTree.types';
+import {
+  DEFAULT_FILTER_CONFIG,
+  DEFAULT_SEARCH_CONFIG,
+  formatTreeQuery,
+  getHighlightRanges,
+  matchSearchFilter,
+  parseTreeQuery,
+  saveQuery,
+} from '../utils/tree-query';
+
+import { addNode, emptyTree, idOf, nodeOf } from './helpers/tree-fixtures';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+const context = { currentUserId: 'user-1', now: new Date(2026, 9, 19, 15) };
+
+/** Replaces fields of a node and its data */
+const withNode = (
+  tree: FlatTree,
+  title: string,
+  changes: Record<string, unknown>,
+  data: Record<string, unknown> = {}
+): FlatTree => {
+  const node = nodeOf(tree, title);
+  const nodes = new Map(tree.nodes);
+  nodes.set(node.id, {
+    ...node,
+    ...changes,
+    data: { ...node.data, ...data },
+  } as TreeNode);
+  return { ...tree, nodes };
+};
+
+/**
+ * Goal "Launch" with the tasks "Build API" (blocked, assigned to user-1,
+ * due 2026-10-30) and "Write API docs" (assigned to user-2)
+ */
+const buildMockTree = () => {
+  let tree = addNode(emptyTree, TreeNodeType.GOAL, 'Launch', null, 0);
+  const goalId = idOf(tree, 'Launch');
+  tree = addNode(tree, TreeNodeType.TASK, 'Build API', goalId, 0);
+  tree = addNode(tree, TreeNodeType.TASK, 'Write API docs', goalId, 1);
+  tree = withNode(
+    tree,
+    'Build API',
+    { status: 'blocked', progress: 20 },
+    { assignedTo: 'user-1', dueDate: new Date(2026, 9, 30) }
+  );
+  return withNode(tree, 'Write API docs', {}, { assignedTo: 'user-2' });
+};
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('Tree Query', () => {
+  describe('parseTreeQuery', () => {
+    it('should parse fields and text into search and filters', () => {
+      const { search, filters, errors } = parseTreeQuery(
+        'type:task status:blocked assignee:@me due:<2026-11-01 progress:<50 "api"',
+        context
+      );
+
+      expect(errors).toEqual([]);
+      expect(search).toEqual({ ...DEFAULT_SEARCH_CONFIG, query: 'api' });
+      expect(filters).toEqual({
+        ...DEFAULT_FILTER_CONFIG,
+        nodeTypes: [TreeNodeType.TASK],
+        statuses: ['blocked'],
+        assignees: ['user-1'],
+        progressRange: { min: 0, max: 49 },
+        dueDateRange: {
+          start: null,
+          end: new Date(new Date(2026, 10, 1).getTime() - 1),
+        },
+      });
+    });
+
+    it('should combine repeated fields', () => {
+      const { filters } = parseTreeQuery(
+        'type:goal type:task,subtask progress:>20 progress:<=80 due:today',
+        context
+      );
+
+      expect(filters.nodeTypes).toEqual([
+        TreeNodeType.GOAL,
+        TreeNodeType.TASK,
+        TreeNodeType.SUBTASK,
+      ]);
+      expect(filters.progressRange).toEqual({ min: 21, max: 80 });
+      expect(filters.dueDateRange).toEqual({
+        start: new Date(2026, 9, 19),
+        end: new Date(new Date(2026, 9, 20).getTime() - 1),
+      });
+    });
+
+    it('should report invalid tokens and apply the rest', () => {
+      const { search, filters, errors } = parseTreeQuery(
+        'stauts:blocked priority:urgent progress:20..10 assignee:@me docs',
+        {}
+      );
+
+      expect(errors.map(error => error.token)).toEqual([
+        'stauts:blocked',
+        'priority:urgent',
+        'progress:20..10',
+        'assignee:@me',
+      ]);
+      expect(errors[0].message).toBe('Unknown field "stauts"');
+      expect(search.query).toBe('docs');
+      expect(filters).toEqual(DEFAULT_FILTER_CONFIG);
+    });
+
+    it('should search with a regular expression between slashes', () => {
+      expect(parseTreeQuery('/ap+i/').search).toMatchObject({
+        query: 'ap+i',
+        useRegex: true,
+      });
+      expect(parseTreeQuery('/ap(i/').errors).toEqual([
+        { token: '/ap(i/', message: 'Invalid regular expression' },
+      ]);
+    });
+  });
+
+  describe('formatTreeQuery', () => {
+    it('should format a query that parses back to the same configuration', () => {
+      const parsed = parseTreeQuery(
+        'in:title case:sensitive progress:25 due:2026-10-01..2026-10-31 assignee:@me,user-2 "api docs"',
+        context
+      );
+
+      const text = formatTreeQuery(parsed.search, parsed.filters, context);
+      const reparsed = parseTreeQuery(text, context);
+
+      expect(text).toBe(
+        'assignee:@me,user-2 progress:25 due:2026-10-01..2026-10-31 in:title case:sensitive "api docs"'
+      );
+      expect(reparsed.search).toEqual(parsed.search);
+      expect(reparsed.filters).toEqual(parsed.filters);
+    });
+
+    it('should format the default configuration as an empty query', () => {
+      expect(
+        formatTreeQuery(DEFAULT_SEARCH_CONFIG, DEFAULT_FILTER_CONFIG)
+      ).toBe('');
+    });
+  });
+
+  describe('matchSearchFilter', () => {
+    let tree: FlatTree;
+
+    beforeEach(() => {
+      tree = buildMockTree();
+    });
+
+    const match = (text: string) => {
+      const { search, filters } = parseTreeQuery(text, context);
+      return Array.from(matchSearchFilter(tree, search, filters));
+    };
+
+    it('should match nodes that meet the search and all filters', () => {
+      expect(
+        match(
+          'type:task status:blocked assignee:@me due:<2026-11-01 progress:<50 "api"'
+        )
+      ).toEqual([idOf(tree, 'Build API')]);
+    });
+
+    it('should not match tasks without a due date by due date', () => {
+      expect(match('type:task due:>=2026-10-01')).toEqual([
+        idOf(tree, 'Build API'),
+      ]);
+    });
+
+    it('should match text together with the filters', () => {
+      expect(match('api').sort()).toEqual(
+        [idOf(tree, 'Build API'), idOf(tree, 'Write API docs')].sort()
+      );
+      expect(match('assignee:user-2 docs')).toEqual([
+        idOf(tree, 'Write API docs'),
+      ]);
+    });
+  });
+
+  describe('getHighlightRanges', () => {
+    it('should find every match of the search', () => {
+      const search = { ...DEFAULT_SEARCH_CONFIG, query: 'api' };
+
+      expect(getHighlightRanges('API and api', search)).toEqual([
+        [0, 3],
+        [8, 11],
+      ]);
+      expect(
+        getHighlightRanges('API and api', { ...search, caseSensitive: true })
+      ).toEqual([[8, 11]]);
+    });
+
+    it('should find regular expression matches', () => {
+      const search = { ...DEFAULT_SEARCH_CONFIG, query: 'a+', useRegex: true };
+
+      expect(getHighlightRanges('baaad', search)).toEqual([[1, 4]]);
+    });
+  });
+
+  describe('saveQuery', () => {
+    it('should replace a saved query with the same name', () => {
+      const saved = saveQuery([], 'Blocked', 'status:blocked');
+
+      const updated = saveQuery(saved, 'Blocked', 'status:blocked type:task');
+
+      expect(updated).toEqual([
+        { id: saved[0].id, name: 'Blocked', query: 'status:blocked type:task' },
+      ]);
+    });
+  });
+});
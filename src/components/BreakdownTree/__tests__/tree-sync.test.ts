@@ -0,0 +1,324 @@
+/**
+ * Tree Sync Test Suite
+ *
+ * Tests for persisting tree edits, including mutation planning, batching,
+ * server ID resolution and reverting rejected edits.
+ *
+ * @fileoverview Unit tests for tree sync utilities
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { GoalsApi } from '@/lib/api/goals';
+import { createMockTransport } from '@/lib/api/mock';
+import { TasksApi } from '@/lib/api/tasks';
+import { createMockSmartGoal } from '@/lib/mock-data/smart-goals';
+import { GoalStatus } from '@/types/smart-goals.types';
+
+import {
+  type FlatTree,
+  type TreeHistoryEntry,
+  type TreeSyncApi,
+  TreeNodeType,
+} from '../BreakdownTree.types';
+import { createHistoryEntry } from '../utils/tree-history';
+import {
+  TreeSyncQueue,
+  planTreeSync,
+  revertTreeChanges,
+} from '../utils/tree-sync';
+import { treeUtils } from '../utils/tree-utils';
+
+import {
+  addNode,
+  emptyTree,
+  idOf,
+  moveNode,
+  removeNode,
+  updateNode,
+} from './helpers/tree-fixtures';
+
+// =============================================================================
+// Mock Data
+// =============================================================================
+
+/**
+ * Goal "Launch" with the milestones "Alpha" (task "Write docs") and "Beta"
+ * (task "Ship beta"), and goal "Hire"
+ */
+const buildMockTree = () => {
+  let tree = addNode(emptyTree, TreeNodeType.GOAL, 'Launch', null, 0);
+  tree = addNode(tree, TreeNodeType.GOAL, 'Hire', null, 1);
+  const goalId = idOf(tree, 'Launch');
+  tree = addNode(tree, TreeNodeType.MILESTONE, 'Alpha', goalId, 0);
+  tree = addNode(tree, TreeNodeType.MILESTONE, 'Beta', goalId, 1);
+  tree = addNode(tree, TreeNodeType.TASK, 'Write docs', idOf(tree, 'Alpha'), 0);
+  tree = addNode(tree, TreeNodeType.TASK, 'Ship beta', idOf(tree, 'Beta'), 0);
+  return tree;
+};
+
+const entryOf = (before: FlatTree, after: FlatTree) =>
+  createHistoryEntry(before, after, {
+    operation: 'update',
+    label: 'Edit',
+    nodeIds: [],
+  })!;
+
+const createMockApi = () => ({
+  goals: {
+    createGoal: jest.fn(async (..._args: unknown[]) => ({ id: 'goal-1' })),
+    updateGoal: jest.fn(async (..._args: unknown[]) => ({})),
+    deleteGoal: jest.fn(async (..._args: unknown[]) => undefined),
+  },
+  tasks: {
+    createTask: jest.fn(async (..._args: unknown[]) => ({ id: 'task-1' })),
+    updateTask: jest.fn(async (..._args: unknown[]) => ({})),
+    deleteTask: jest.fn(async (..._args: unknown[]) => undefined),
+    reorderTasks: jest.fn(async (..._args: unknown[]) => []),
+    createSubtask: jest.fn(async (..._args: unknown[]) => ({
+      id: 'subtask-1',
+    })),
+    updateSubtask: jest.fn(async (..._args: unknown[]) => ({})),
+    deleteSubtask: jest.fn(async (..._args: unknown[]) => undefined),
+  },
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('Tree Sync', () => {
+  let tree: FlatTree;
+
+  beforeEach(() => {
+    tree = buildMockTree();
+  });
+
+  describe('planTreeSync', () => {
+    it('should update the fields of a task', () => {
+      const docsId = idOf(tree, 'Write docs');
+      const updated = updateNode(tree, docsId, {
+        title: 'Write guides',
+        status: 'completed',
+      });
+
+      const { mutations } = planTreeSync(
+        entryOf(tree, updated).changes,
+        updated
+      );
+
+      expect(mutations).toEqual([
+        {
+          type: 'update_task',
+          nodeId: docsId,
+          nodeIds: [docsId],
+          updates: { title: 'Write guides', status: 'completed' },
+        },
+      ]);
+    });
+
+    it('should number a new task after the tasks already in its goal', () => {
+      const withTask = addNode(
+        tree,
+        TreeNodeType.TASK,
+        'Run retro',
+        idOf(tree, 'Beta'),
+        1
+      );
+
+      const { mutations } = planTreeSync(
+        entryOf(tree, withTask).changes,
+        withTask
+      );
+
+      expect(mutations.find(m => m.type === 'create_task')).toMatchObject({
+        task: { title: 'Run retro', order: 3 },
+      });
+    });
+
+    it('should save a task moved to another milestone with its goal', () => {
+      const goalId = idOf(tree, 'Launch');
+      const docsId = idOf(tree, 'Write docs');
+      const moved = moveNode(tree, docsId, idOf(tree, 'Beta'), 1);
+
+      const { mutations } = planTreeSync(entryOf(tree, moved).changes, moved);
+
+      const goalUpdate = mutations.find(m => m.type === 'update_goal');
+      expect(goalUpdate).toMatchObject({ nodeId: goalId });
+      expect(
+        goalUpdate?.type === 'update_goal' &&
+          goalUpdate.updates.milestones?.map(milestone => milestone.taskIds)
+      ).toEqual([[], [idOf(tree, 'Ship beta'), docsId]]);
+      expect(mutations.find(m => m.type === 'reorder_tasks')).toMatchObject({
+        nodeId: goalId,
+        taskIds: [idOf(tree, 'Ship beta'), docsId],
+      });
+    });
+
+    it('should reject moving a task to another goal', () => {
+      const docsId = idOf(tree, 'Write docs');
+      const moved = moveNode(tree, docsId, idOf(tree, 'Hire'), 0);
+
+      const { rejected } = planTreeSync(entryOf(tree, moved).changes, moved);
+
+      expect(rejected).toEqual([
+        expect.objectContaining({ mutation: null, nodeIds: [docsId] }),
+      ]);
+    });
+
+    it('should only delete the goal when a goal is deleted', () => {
+      const goalId = idOf(tree, 'Launch');
+      const removed = removeNode(tree, goalId);
+
+      const { mutations } = planTreeSync(
+        entryOf(tree, removed).changes,
+        removed
+      );
+
+      expect(mutations).toEqual([
+        { type: 'delete_goal', nodeId: goalId, nodeIds: [goalId] },
+      ]);
+    });
+  });
+
+  describe('revertTreeChanges', () => {
+    it('should restore a deleted node at its former position', () => {
+      const docsId = idOf(tree, 'Write docs');
+      const alphaId = idOf(tree, 'Alpha');
+      const removed = removeNode(tree, alphaId);
+
+      const reverted = revertTreeChanges(
+        removed,
+        entryOf(tree, removed).changes
+      );
+
+      expect(reverted.nodes.get(idOf(tree, 'Launch'))?.children).toEqual(
+        tree.nodes.get(idOf(tree, 'Launch'))?.children
+      );
+      expect(reverted.nodes.get(alphaId)?.children).toEqual([docsId]);
+      expect(reverted.count).toBe(tree.count);
+    });
+  });
+
+  describe('TreeSyncQueue', () => {
+    let currentTree: FlatTree;
+    let api: ReturnType<typeof createMockApi>;
+    let onReconcile: jest.Mock<(tree: FlatTree) => void>;
+    let queue: TreeSyncQueue;
+
+    beforeEach(() => {
+      currentTree = tree;
+      api = createMockApi();
+      onReconcile = jest.fn((reconciled: FlatTree) => {
+        currentTree = reconciled;
+      });
+      queue = new TreeSyncQueue({
+        api: api as unknown as TreeSyncApi,
+        getTree: () => currentTree,
+        onReconcile,
+      });
+    });
+
+    const apply = (next: FlatTree): TreeHistoryEntry => {
+      const entry = entryOf(currentTree, next);
+      currentTree = next;
+      return entry;
+    };
+
+    it('should create nodes in one batch with the server IDs of parents', async () => {
+      const withGoal = addNode(currentTree, TreeNodeType.GOAL, 'Grow', null, 2);
+      queue.enqueue(apply(withGoal));
+      const goalId = idOf(withGoal, 'Grow');
+      queue.enqueue(
+        apply(addNode(currentTree, TreeNodeType.TASK, 'Plan', goalId, 0))
+      );
+
+      const result = await queue.flush();
+
+      expect(result).toEqual({ succeeded: 2, failures: [] });
+      expect(api.goals.createGoal).toHaveBeenCalledTimes(1);
+      expect(api.tasks.createTask).toHaveBeenCalledWith(
+        expect.objectContaining({ goalId: 'goal-1', title: 'Plan', order: 1 })
+      );
+    });
+
+    it('should revert an edit the server rejects', async () => {
+      const docsId = idOf(tree, 'Write docs');
+      api.tasks.updateTask.mockRejectedValueOnce(new Error('Forbidden'));
+      queue.enqueue(
+        apply(updateNode(currentTree, docsId, { title: 'Write guides' }))
+      );
+
+      const result = await queue.flush();
+
+      expect(result.failures).toEqual([
+        { mutation: 'update_task', nodeIds: [docsId], error: 'Forbidden' },
+      ]);
+      expect(onReconcile).toHaveBeenCalledTimes(1);
+      expect(currentTree.nodes.get(docsId)?.title).toBe('Write docs');
+    });
+
+    it('should not send edits that cancel each other out', async () => {
+      const docsId = idOf(tree, 'Write docs');
+      const original = currentTree;
+      queue.enqueue(apply(updateNode(currentTree, docsId, { progress: 50 })));
+      queue.enqueue(apply(original));
+
+      expect(await queue.flush()).toEqual({ succeeded: 0, failures: [] });
+      expect(api.tasks.updateTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('TreeSyncQueue with the mock API', () => {
+    it('should save edits to the goal and tasks it was loaded with', async () => {
+      const transport = createMockTransport({
+        delay: 0,
+        goals: [
+          createMockSmartGoal({ id: 'goal-1', status: GoalStatus.ACTIVE }),
+        ],
+      });
+      const api = {
+        goals: new GoalsApi(transport),
+        tasks: new TasksApi(transport),
+      };
+      const goal = await api.goals.getGoal('goal-1');
+      let currentTree = treeUtils.buildTree([goal, ...goal.tasks]);
+      const queue = new TreeSyncQueue({
+        api,
+        getTree: () => currentTree,
+        onReconcile: reconciled => {
+          currentTree = reconciled;
+        },
+      });
+      const apply = (next: FlatTree) => {
+        queue.enqueue(entryOf(currentTree, next));
+        currentTree = next;
+      };
+      const taskIds = currentTree.nodes.get('goal-1')?.children ?? [];
+      expect(taskIds).toHaveLength(goal.tasks.length);
+
+      apply(updateNode(currentTree, 'goal-1', { title: 'Ship 2.0' }));
+      apply(updateNode(currentTree, taskIds[0], { title: 'Write guides' }));
+      apply(
+        addNode(
+          currentTree,
+          TreeNodeType.TASK,
+          'Run retro',
+          'goal-1',
+          taskIds.length
+        )
+      );
+
+      expect(await queue.flush()).toEqual({ succeeded: 3, failures: [] });
+      expect((await api.goals.getGoal('goal-1')).title).toBe('Ship 2.0');
+      const tasks = await api.tasks.getTasks('goal-1');
+      expect(tasks.find(task => task.id === taskIds[0])?.title).toBe(
+        'Write guides'
+      );
+      expect(tasks.find(task => task.title === 'Run retro')?.order).toBe(
+        taskIds.length + 1
+      );
+    });
+  });
+});
@@ -26,6 +26,7 @@ import { type FlatTree, TreeNodeType } from '../BreakdownTree.types';
 import {
   buildTree,
   flattenTree,
+  getVisibleNodes,
   findNode,
   findNodes,
   getNodePath,
@@ -231,6 +232,29 @@ describe('Tree Utils', () => {
     });
   });
 
+  describe('getVisibleNodes', () => {
+    it('should return every expanded node without a match set', () => {
+      expect(getVisibleNodes(tree).map(n => n.id)).toEqual(
+        flattenTree(tree, true).map(n => n.id)
+      );
+    });
+
+    it('should keep matches together with their ancestors', () => {
+      const visible = getVisibleNodes(tree, new Set(['milestone-1']));
+
+      expect(visible.map(n => n.id)).toEqual(['goal-1', 'milestone-1']);
+      expect(getVisibleNodes(tree, new Set())).toHaveLength(0);
+    });
+
+    it('should hide matches below collapsed nodes', () => {
+      const goalNode = tree.nodes.get('goal-1')!;
+      tree.nodes.set('goal-1', { ...goalNode, isExpanded: false });
+
+      const visible = getVisibleNodes(tree, new Set(['task-1']));
+      expect(visible.map(n => n.id)).toEqual(['goal-1']);
+    });
+  });
+
   describe('findNode', () => {
     it('should find existing nodes', () => {
       const node = findNode(tree, 'task-1');
@@ -14,7 +14,13 @@ export { BreakdownTree as default, BreakdownTree } from './BreakdownTree';
 export { TreeNode } from './TreeNode';
 export { TreeActions } from './TreeActions';
 export { TreeSearch } from './TreeSearch';
+export { TreeHistoryPanel } from './TreeHistoryPanel';
 export { DragDropTreeNode } from './DragDropTreeNode';
+export {
+  VirtualTreeList,
+  DEFAULT_VIRTUAL_SCROLL_THRESHOLD,
+  DEFAULT_VIRTUAL_ROW_HEIGHT,
+} from './VirtualTreeList';
 
 // Context
 export { TreeProvider, useTreeContext, TreeContext } from './TreeContext';
@@ -53,11 +59,32 @@ export type {
   SearchConfig,
   FilterConfig,
   SearchFilterState,
+  TreeQuery,
+  TreeQueryError,
+  TreeQueryContext,
+  SavedTreeQuery,
 
   // State types
   ExpansionState,
   TreeViewState,
 
+  // History types
+  TreeHistoryOperation,
+  TreeNodeChange,
+  TreeHistoryEntry,
+  TreeHistoryState,
+
+  // Sync types
+  TreeSyncApi,
+  TreeSyncMutationType,
+  TreeSyncFailure,
+  TreeSyncResult,
+  TreeSyncOptions,
+
+  // Clipboard types
+  TreeClipboardPayload,
+  TreePasteOptions,
+
   // Component props
   TreeNodeProps,
   TreeActionsProps,
@@ -82,6 +109,11 @@ export {
 export { treeUtils } from './utils/tree-utils';
 export { treeOperations } from './utils/tree-operations';
 export { keyboardNavigation } from './utils/keyboard-navigation';
+export { treeHistory, DEFAULT_HISTORY_LIMIT } from './utils/tree-history';
+export { treeSync, TreeSyncQueue, DEFAULT_SYNC_BATCH_DELAY } from './utils/tree-sync';
+export type { TreeSyncMutation, TreeSyncPlan } from './utils/tree-sync';
+export { treeClipboard, TREE_CLIPBOARD_MIME_TYPE } from './utils/tree-clipboard';
+export { treeQuery, DEFAULT_SEARCH_CONFIG, DEFAULT_FILTER_CONFIG } from './utils/tree-query';
 
 // Type guards and utility functions
 export {
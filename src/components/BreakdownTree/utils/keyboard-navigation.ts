@@ -60,6 +60,12 @@ export function getKeyboardAction(event: KeyboardEvent): KeyboardAction | null {
       case 'a':
       case 'A':
         return KeyboardAction.SELECT; // Select all (handled by component)
+      case 'z':
+      case 'Z':
+        return shiftKey ? KeyboardAction.REDO : KeyboardAction.UNDO;
+      case 'y':
+      case 'Y':
+        return KeyboardAction.REDO;
       default:
         return null;
     }
@@ -98,12 +104,14 @@ export function getKeyboardAction(event: KeyboardEvent): KeyboardAction | null {
 // =============================================================================
 
 /**
- * Gets the next focusable node in the tree
+ * Gets the next focusable node in the tree. Pass the IDs of the rendered
+ * nodes as `visibleNodeIds` to skip nodes hidden by search or filters.
  */
 export function getNextFocusableNode(
   tree: FlatTree,
   currentNodeId: string | null,
-  direction: 'up' | 'down' | 'left' | 'right'
+  direction: 'up' | 'down' | 'left' | 'right',
+  visibleNodeIds?: string[]
 ): string | null {
   if (!currentNodeId) {
     // If no current focus, start with first root node
@@ -115,13 +123,13 @@ export function getNextFocusableNode(
 
   switch (direction) {
     case 'up':
-      return getPreviousVisibleNode(tree, currentNodeId);
+      return getPreviousVisibleNode(tree, currentNodeId, visibleNodeIds);
     case 'down':
-      return getNextVisibleNode(tree, currentNodeId);
+      return getNextVisibleNode(tree, currentNodeId, visibleNodeIds);
     case 'left':
       return handleLeftArrow(tree, currentNode);
     case 'right':
-      return handleRightArrow(tree, currentNode);
+      return handleRightArrow(tree, currentNode, visibleNodeIds);
     default:
       return null;
   }
@@ -130,29 +138,36 @@ export function getNextFocusableNode(
 /**
  * Gets the next visible node in tree order
  */
-function getNextVisibleNode(tree: FlatTree, currentNodeId: string): string | null {
-  const flatNodes = treeUtils.flattenTree(tree, true); // Only expanded nodes
-  const currentIndex = flatNodes.findIndex(node => node.id === currentNodeId);
+function getNextVisibleNode(tree: FlatTree, currentNodeId: string, visibleNodeIds?: string[]): string | null {
+  const nodeIds = visibleNodeIds ?? getExpandedNodeIds(tree);
+  const currentIndex = nodeIds.indexOf(currentNodeId);
 
-  if (currentIndex === -1 || currentIndex >= flatNodes.length - 1) {
+  if (currentIndex === -1 || currentIndex >= nodeIds.length - 1) {
     return null;
   }
 
-  return flatNodes[currentIndex + 1].id;
+  return nodeIds[currentIndex + 1];
 }
 
 /**
  * Gets the previous visible node in tree order
  */
-function getPreviousVisibleNode(tree: FlatTree, currentNodeId: string): string | null {
-  const flatNodes = treeUtils.flattenTree(tree, true); // Only expanded nodes
-  const currentIndex = flatNodes.findIndex(node => node.id === currentNodeId);
+function getPreviousVisibleNode(tree: FlatTree, currentNodeId: string, visibleNodeIds?: string[]): string | null {
+  const nodeIds = visibleNodeIds ?? getExpandedNodeIds(tree);
+  const currentIndex = nodeIds.indexOf(currentNodeId);
 
   if (currentIndex <= 0) {
     return null;
   }
 
-  return flatNodes[currentIndex - 1].id;
+  return nodeIds[currentIndex - 1];
+}
+
+/**
+ * Gets the IDs of all nodes under expanded parents, in tree order
+ */
+function getExpandedNodeIds(tree: FlatTree): string[] {
+  return treeUtils.flattenTree(tree, true).map(node => node.id);
 }
 
 /**
@@ -176,7 +191,7 @@ function handleLeftArrow(tree: FlatTree, currentNode: TreeNode): string | null {
 /**
  * Handles right arrow key navigation
  */
-function handleRightArrow(tree: FlatTree, currentNode: TreeNode): string | null {
+function handleRightArrow(tree: FlatTree, currentNode: TreeNode, visibleNodeIds?: string[]): string | null {
   // If node has children and is collapsed, expand it but stay focused
   if (currentNode.children.length > 0 && !currentNode.isExpanded) {
     return currentNode.id; // Stay on current node, but trigger expand
@@ -184,7 +199,11 @@ function handleRightArrow(tree: FlatTree, currentNode: TreeNode): string | null
 
   // If node is expanded and has children, move to first child
   if (currentNode.isExpanded && currentNode.children.length > 0) {
-    return currentNode.children[0];
+    if (!visibleNodeIds) return currentNode.children[0];
+
+    // The first visible child directly follows its parent
+    const nextId = visibleNodeIds[visibleNodeIds.indexOf(currentNode.id) + 1];
+    return nextId && tree.nodes.get(nextId)?.parentId === currentNode.id ? nextId : null;
   }
 
   // No movement possible
@@ -343,8 +362,11 @@ export function getKeyboardShortcuts() {
     actions: [
       { key: 'Delete', description: 'Delete selected node(s)' },
       { key: 'F2', description: 'Rename node' },
-      { key: 'Ctrl+C', description: 'Copy node' },
-      { key: 'Ctrl+V', description: 'Paste node' },
+      { key: 'Ctrl+C', description: 'Copy selected node(s) with their children' },
+      { key: 'Ctrl+X', description: 'Cut selected node(s) with their children' },
+      { key: 'Ctrl+V', description: 'Paste into or after the focused node' },
+      { key: 'Ctrl+Z', description: 'Undo last change' },
+      { key: 'Ctrl+Shift+Z / Ctrl+Y', description: 'Redo last undone change' },
     ],
   };
 }
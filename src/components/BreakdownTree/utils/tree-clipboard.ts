@@ -0,0 +1,545 @@
+/**
+ * Tree Clipboard Utilities
+ *
+ * This file contains utilities for cutting, copying and pasting subtrees.
+ * Copied nodes keep their full data, so a milestone is pasted with its tasks,
+ * subtasks and checklists, and every pasted node, subtask and checklist item
+ * gets a new ID. The clipboard contents are written to the system clipboard
+ * and to local storage, so they can be pasted into another goal or browser tab.
+ *
+ * @fileoverview Cut/copy/paste utilities for BreakdownTree component
+ * @version 1.0.0
+ */
+
+import { reviveDates } from '@/lib/api/serialization';
+import {
+  GoalStatus,
+  TaskStatus,
+  type ChecklistItem,
+  type Task,
+} from '@/types/smart-goals.types';
+
+import {
+  type FlatTree,
+  type TreeClipboardPayload,
+  type TreeNode,
+  type TreeOperationResult,
+  type TreePasteOptions,
+  TreeNodeType,
+} from '../BreakdownTree.types';
+
+import { generateNodeId } from './tree-operations';
+import { isValidParentChildRelation } from './tree-utils';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Clipboard format of serialized payloads */
+export const TREE_CLIPBOARD_MIME_TYPE = 'application/x-openbase-tree+json';
+
+const CLIPBOARD_STORAGE_KEY = 'openbase:breakdown-tree:clipboard';
+
+const CLIPBOARD_VERSION = 1;
+
+const NODE_TYPES = new Set<string>(Object.values(TreeNodeType));
+
+/** Task status of pasted task and subtask nodes, which hold task statuses */
+const INITIAL_TASK_STATUS = TaskStatus.TODO as string as TreeNode['status'];
+
+// =============================================================================
+// Copy
+// =============================================================================
+
+/**
+ * Copies nodes with all their descendants. Nodes inside another copied node
+ * are copied with it rather than on their own. Returns null if none of the
+ * nodes exist.
+ */
+export function copyNodes(
+  tree: FlatTree,
+  nodeIds: string[],
+  mode: TreeClipboardPayload['mode'] = 'copy'
+): TreeClipboardPayload | null {
+  const selected = new Set(nodeIds.filter(nodeId => tree.nodes.has(nodeId)));
+  const rootIds: string[] = [];
+  const nodes: TreeNode[] = [];
+
+  // Walk the tree in order, so pasted nodes keep their relative order
+  const visit = (nodeId: string, isCopied: boolean) => {
+    const node = tree.nodes.get(nodeId);
+    if (!node) return;
+
+    const isRoot = !isCopied && selected.has(nodeId);
+    if (isRoot) rootIds.push(nodeId);
+    if (isCopied || isRoot) nodes.push(node);
+
+    node.children.forEach(childId => visit(childId, isCopied || isRoot));
+  };
+  tree.rootIds.forEach(rootId => visit(rootId, false));
+
+  if (rootIds.length === 0) return null;
+
+  return {
+    version: CLIPBOARD_VERSION,
+    mode,
+    rootIds,
+    nodes,
+    copiedAt: new Date(),
+  };
+}
+
+// =============================================================================
+// Paste
+// =============================================================================
+
+/**
+ * Finds where clipboard contents go when pasted at a node: into the node if
+ * it accepts all of them, otherwise after it among its siblings. Without a
+ * node, goals are pasted at the root level. Returns null if neither fits.
+ */
+export function getPasteTarget(
+  tree: FlatTree,
+  payload: TreeClipboardPayload,
+  nodeId: string | null
+): Pick<TreePasteOptions, 'parentId' | 'index'> | null {
+  const types = getRootTypes(payload);
+  const accepts = (parent: TreeNode | null) =>
+    parent
+      ? parent.canHaveChildren &&
+        types.every(type => isValidParentChildRelation(parent.type, type))
+      : types.every(type => type === TreeNodeType.GOAL);
+
+  const node = nodeId ? tree.nodes.get(nodeId) : undefined;
+  if (!node) {
+    return accepts(null)
+      ? { parentId: null, index: tree.rootIds.length }
+      : null;
+  }
+
+  if (accepts(node)) {
+    return { parentId: node.id, index: node.children.length };
+  }
+
+  const parent = node.parentId ? (tree.nodes.get(node.parentId) ?? null) : null;
+  if (!accepts(parent)) return null;
+
+  const siblingIds = parent ? parent.children : tree.rootIds;
+  return { parentId: node.parentId, index: siblingIds.indexOf(node.id) + 1 };
+}
+
+/**
+ * Inserts copies of the clipboard nodes with new IDs. Unless status is
+ * preserved, pasted nodes start over: no progress, the initial status and no
+ * assignees or completed checklist items.
+ */
+export function pasteNodes(
+  tree: FlatTree,
+  payload: TreeClipboardPayload,
+  options: TreePasteOptions
+): TreeOperationResult {
+  try {
+    const { parentId } = options;
+    const preserveStatus = options.preserveStatus ?? payload.mode === 'cut';
+
+    const parent = parentId ? tree.nodes.get(parentId) : null;
+    if (parentId && !parent) {
+      return {
+        success: false,
+        error: `Parent node with ID ${parentId} not found`,
+      };
+    }
+    if (parent && !parent.canHaveChildren) {
+      return { success: false, error: 'Parent node cannot have children' };
+    }
+
+    const invalidType = getRootTypes(payload).find(type =>
+      parent
+        ? !isValidParentChildRelation(parent.type, type)
+        : type !== TreeNodeType.GOAL
+    );
+    if (invalidType) {
+      return {
+        success: false,
+        error: parent
+          ? `Cannot paste a ${invalidType} into a ${parent.type}`
+          : 'Only goals can be pasted at the top level',
+      };
+    }
+
+    const sourceNodes = new Map(payload.nodes.map(node => [node.id, node]));
+    const nodes = new Map(tree.nodes);
+    const affectedNodeIds: string[] = [];
+    const now = new Date();
+
+    const paste = (
+      sourceId: string,
+      newParentId: string | null,
+      depth: number,
+      order: number
+    ): string | null => {
+      const source = sourceNodes.get(sourceId);
+      if (!source) return null;
+
+      const id = generateNodeId();
+      const children: string[] = [];
+      nodes.set(id, {
+        ...copyNode(source, id, preserveStatus),
+        parentId: newParentId,
+        children,
+        depth,
+        order,
+        isSelected: false,
+        createdAt: now,
+        updatedAt: now,
+      });
+      affectedNodeIds.push(id);
+
+      source.children.forEach(childId => {
+        const childCopyId = paste(childId, id, depth + 1, children.length);
+        if (childCopyId) children.push(childCopyId);
+      });
+      return id;
+    };
+
+    const depth = parent ? parent.depth + 1 : 0;
+    const pastedIds = payload.rootIds.flatMap(rootId => {
+      const copyId = paste(rootId, parentId, depth, 0);
+      return copyId ? [copyId] : [];
+    });
+
+    const siblingIds = parent ? parent.children : tree.rootIds;
+    const index = Math.min(
+      Math.max(options.index ?? siblingIds.length, 0),
+      siblingIds.length
+    );
+    const newSiblingIds = [
+      ...siblingIds.slice(0, index),
+      ...pastedIds,
+      ...siblingIds.slice(index),
+    ];
+
+    // Renumber the siblings after the insertion point
+    newSiblingIds.slice(index).forEach((siblingId, offset) => {
+      const sibling = nodes.get(siblingId);
+      if (sibling && sibling.order !== index + offset) {
+        nodes.set(siblingId, { ...sibling, order: index + offset });
+      }
+    });
+
+    if (parent) {
+      nodes.set(parent.id, {
+        ...parent,
+        children: newSiblingIds,
+        isExpanded: true,
+      });
+      affectedNodeIds.push(parent.id);
+    }
+
+    return {
+      success: true,
+      tree: {
+        nodes,
+        rootIds: parent ? tree.rootIds : newSiblingIds,
+        count: nodes.size,
+      },
+      affectedNodeIds,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Copies a node and its data under a new ID, optionally resetting its status
+ */
+function copyNode(
+  source: TreeNode,
+  id: string,
+  preserveStatus: boolean
+): TreeNode {
+  switch (source.type) {
+    case TreeNodeType.GOAL:
+      return preserveStatus
+        ? { ...source, id, data: { ...source.data, id } }
+        : {
+            ...source,
+            id,
+            status: 'draft',
+            progress: 0,
+            data: {
+              ...source.data,
+              id,
+              status: GoalStatus.DRAFT,
+              progress: 0,
+              actualStartDate: undefined,
+              actualCompletionDate: undefined,
+            },
+          };
+
+    case TreeNodeType.MILESTONE:
+      return preserveStatus
+        ? { ...source, id, data: { ...source.data, id } }
+        : {
+            ...source,
+            id,
+            status: 'active',
+            progress: 0,
+            data: {
+              ...source.data,
+              id,
+              progress: 0,
+              isCompleted: false,
+              completedAt: undefined,
+            },
+          };
+
+    case TreeNodeType.OUTCOME:
+      return preserveStatus
+        ? { ...source, id, data: { ...source.data, id } }
+        : {
+            ...source,
+            id,
+            status: 'active',
+            progress: 0,
+            data: {
+              ...source.data,
+              id,
+              isAchieved: false,
+              actualResult: undefined,
+              evaluatedAt: undefined,
+              evaluatedBy: undefined,
+            },
+          };
+
+    case TreeNodeType.TASK:
+    case TreeNodeType.SUBTASK:
+      return {
+        ...source,
+        id,
+        ...(!preserveStatus && { status: INITIAL_TASK_STATUS, progress: 0 }),
+        data: copyTask(source.data, id, preserveStatus),
+      } as TreeNode;
+  }
+}
+
+/**
+ * Copies task data with new IDs for its subtasks and checklist items.
+ * Subtask nodes hold subtask data, which has no subtasks of its own.
+ */
+function copyTask(task: Task, id: string, preserveStatus: boolean): Task {
+  const reset = preserveStatus
+    ? {}
+    : {
+        status: TaskStatus.TODO,
+        progress: 0,
+        assignedTo: undefined,
+        actualHours: undefined,
+        completedAt: undefined,
+        statusHistory: undefined,
+      };
+
+  return {
+    ...task,
+    ...reset,
+    id,
+    ...(task.checklist && {
+      checklist: task.checklist.map(item =>
+        copyChecklistItem(item, preserveStatus)
+      ),
+    }),
+    ...(task.subtasks && {
+      subtasks: task.subtasks.map(subtask => ({
+        ...subtask,
+        ...reset,
+        id: generateNodeId(),
+        taskId: id,
+        checklist: (subtask.checklist ?? []).map(item =>
+          copyChecklistItem(item, preserveStatus)
+        ),
+      })),
+    }),
+  };
+}
+
+function copyChecklistItem(
+  item: ChecklistItem,
+  preserveStatus: boolean
+): ChecklistItem {
+  return {
+    ...item,
+    id: generateNodeId(),
+    ...(!preserveStatus && {
+      isCompleted: false,
+      completedAt: undefined,
+      completedBy: undefined,
+    }),
+  };
+}
+
+function getRootTypes(payload: TreeClipboardPayload): TreeNodeType[] {
+  return payload.rootIds.flatMap(rootId => {
+    const node = payload.nodes.find(candidate => candidate.id === rootId);
+    return node ? [node.type] : [];
+  });
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+export function serializeClipboardPayload(
+  payload: TreeClipboardPayload
+): string {
+  return JSON.stringify(payload);
+}
+
+/**
+ * Parses a serialized payload. Returns null for anything that is not a
+ * payload of this version, e.g. text copied from elsewhere.
+ */
+export function parseClipboardPayload(
+  text: string
+): TreeClipboardPayload | null {
+  try {
+    const value: unknown = reviveDates(JSON.parse(text));
+    return isClipboardPayload(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Formats the copied nodes as an indented outline for plain-text targets
+ */
+export function formatClipboardText(payload: TreeClipboardPayload): string {
+  const nodes = new Map(payload.nodes.map(node => [node.id, node]));
+  const lines: string[] = [];
+
+  const visit = (nodeId: string, level: number) => {
+    const node = nodes.get(nodeId);
+    if (!node) return;
+
+    lines.push(`${'  '.repeat(level)}- ${node.title}`);
+    node.children.forEach(childId => visit(childId, level + 1));
+  };
+  payload.rootIds.forEach(rootId => visit(rootId, 0));
+
+  return lines.join('\n');
+}
+
+function isClipboardPayload(value: unknown): value is TreeClipboardPayload {
+  if (!value || typeof value !== 'object') return false;
+
+  const payload = value as Partial<TreeClipboardPayload>;
+  if (
+    payload.version !== CLIPBOARD_VERSION ||
+    (payload.mode !== 'cut' && payload.mode !== 'copy') ||
+    !Array.isArray(payload.rootIds) ||
+    !Array.isArray(payload.nodes)
+  ) {
+    return false;
+  }
+
+  const nodes: unknown[] = payload.nodes;
+  const ids = new Set(
+    nodes.map(node => (node as Partial<TreeNode> | null)?.id)
+  );
+
+  return (
+    payload.rootIds.every(rootId => ids.has(rootId)) &&
+    nodes.every(item => {
+      const node = item as Partial<TreeNode> | null;
+      return (
+        typeof node?.id === 'string' &&
+        typeof node.title === 'string' &&
+        NODE_TYPES.has(node.type as string) &&
+        Array.isArray(node.children) &&
+        node.children.every(childId => ids.has(childId)) &&
+        typeof node.data === 'object'
+      );
+    })
+  );
+}
+
+// =============================================================================
+// Clipboard Access
+// =============================================================================
+
+interface StoredClipboard {
+  /** Plain text written to the system clipboard alongside the payload */
+  text: string;
+  /** Serialized payload */
+  payload: string;
+}
+
+/**
+ * Writes a payload to a clipboard event's data, if given, and to local
+ * storage, which makes it available to other tabs. Returns the plain text.
+ */
+export function writeClipboard(
+  payload: TreeClipboardPayload,
+  dataTransfer?: DataTransfer | null
+): string {
+  const text = formatClipboardText(payload);
+  const serialized = serializeClipboardPayload(payload);
+
+  dataTransfer?.setData(TREE_CLIPBOARD_MIME_TYPE, serialized);
+  dataTransfer?.setData('text/plain', text);
+
+  try {
+    const stored: StoredClipboard = { text, payload: serialized };
+    localStorage.setItem(CLIPBOARD_STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Failed to store copied nodes:', error);
+  }
+
+  return text;
+}
+
+/**
+ * Reads a payload from a clipboard event's data. Browsers that drop custom
+ * formats only keep the plain text, so the payload copied last is used if
+ * the text still matches it. Without event data, the payload copied last is
+ * returned.
+ */
+export function readClipboard(
+  dataTransfer?: DataTransfer | null
+): TreeClipboardPayload | null {
+  const serialized = dataTransfer?.getData(TREE_CLIPBOARD_MIME_TYPE);
+  if (serialized) return parseClipboardPayload(serialized);
+
+  const stored = readStoredClipboard();
+  if (!stored) return null;
+  if (dataTransfer && dataTransfer.getData('text/plain') !== stored.text) {
+    return null;
+  }
+  return parseClipboardPayload(stored.payload);
+}
+
+function readStoredClipboard(): StoredClipboard | null {
+  try {
+    const stored = localStorage.getItem(CLIPBOARD_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as StoredClipboard) : null;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Export utilities
+// =============================================================================
+
+export const treeClipboard = {
+  copyNodes,
+  pasteNodes,
+  getPasteTarget,
+  serializeClipboardPayload,
+  parseClipboardPayload,
+  formatClipboardText,
+  writeClipboard,
+  readClipboard,
+};
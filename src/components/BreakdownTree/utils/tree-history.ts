@@ -0,0 +1,286 @@
+/**
+ * Tree History Utilities
+ *
+ * This file contains utilities for the undo/redo journal of the tree. Each
+ * entry stores only the nodes an operation changed, so the history stays small
+ * on large trees, and undoing an entry keeps the expansion and selection state
+ * of nodes that still exist.
+ *
+ * @fileoverview Undo/redo journal utilities for BreakdownTree component
+ * @version 1.0.0
+ */
+
+import {
+  type FlatTree,
+  type TreeHistoryEntry,
+  type TreeHistoryOperation,
+  type TreeHistoryState,
+  type TreeNode,
+  type TreeNodeChange,
+} from '../BreakdownTree.types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Number of undoable operations kept by default */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export const EMPTY_HISTORY: TreeHistoryState = {
+  past: [],
+  future: [],
+};
+
+// =============================================================================
+// Entry Creation
+// =============================================================================
+
+interface HistoryEntryDetails {
+  /** Operation kind */
+  operation: TreeHistoryOperation;
+  /** Human-readable description */
+  label: string;
+  /** Nodes reported as affected by the operation */
+  nodeIds: string[];
+}
+
+/**
+ * Creates a history entry from the trees before and after an operation.
+ * Tree operations replace every node they change, so changed nodes are found
+ * by reference. Returns null if the operation changed nothing.
+ */
+export function createHistoryEntry(
+  before: FlatTree,
+  after: FlatTree,
+  details: HistoryEntryDetails,
+  timestamp: Date = new Date()
+): TreeHistoryEntry | null {
+  const changes: TreeNodeChange[] = [];
+
+  after.nodes.forEach((node, nodeId) => {
+    const previous = before.nodes.get(nodeId) ?? null;
+    if (previous !== node) {
+      changes.push({ nodeId, before: previous, after: node });
+    }
+  });
+
+  before.nodes.forEach((node, nodeId) => {
+    if (!after.nodes.has(nodeId)) {
+      changes.push({ nodeId, before: node, after: null });
+    }
+  });
+
+  const rootIdsChanged = !haveSameIds(before.rootIds, after.rootIds);
+  if (changes.length === 0 && !rootIdsChanged) {
+    return null;
+  }
+
+  return {
+    id: generateEntryId(),
+    ...details,
+    changes,
+    ...(rootIdsChanged && {
+      rootIds: { before: before.rootIds, after: after.rootIds },
+    }),
+    timestamp,
+  };
+}
+
+/**
+ * Merges consecutive entries into one entry that undoes them all at once.
+ * Returns null if the entries cancel each other out.
+ */
+export function mergeHistoryEntries(
+  entries: TreeHistoryEntry[],
+  label: string
+): TreeHistoryEntry | null {
+  if (entries.length === 0) return null;
+
+  const changesById = new Map<string, TreeNodeChange>();
+  entries.forEach(entry => {
+    entry.changes.forEach(change => {
+      const earlier = changesById.get(change.nodeId);
+      changesById.set(change.nodeId, {
+        nodeId: change.nodeId,
+        before: earlier ? earlier.before : change.before,
+        after: change.after,
+      });
+    });
+  });
+
+  // Drop nodes that ended up as they started, e.g. created and then deleted
+  const changes = Array.from(changesById.values()).filter(
+    change => change.before !== change.after
+  );
+
+  const rootChanges = entries.flatMap(entry =>
+    entry.rootIds ? [entry.rootIds] : []
+  );
+  const rootIds =
+    rootChanges.length > 0
+      ? {
+          before: rootChanges[0].before,
+          after: rootChanges[rootChanges.length - 1].after,
+        }
+      : undefined;
+  const rootIdsChanged =
+    rootIds !== undefined && !haveSameIds(rootIds.before, rootIds.after);
+
+  if (changes.length === 0 && !rootIdsChanged) {
+    return null;
+  }
+
+  return {
+    id: generateEntryId(),
+    operation: 'group',
+    label,
+    nodeIds: Array.from(new Set(entries.flatMap(entry => entry.nodeIds))),
+    changes,
+    ...(rootIdsChanged && { rootIds }),
+    timestamp: entries[entries.length - 1].timestamp,
+  };
+}
+
+/**
+ * Returns an entry that reverses the given entry, e.g. to report an undo as
+ * a change of its own
+ */
+export function invertHistoryEntry(entry: TreeHistoryEntry): TreeHistoryEntry {
+  return {
+    ...entry,
+    changes: entry.changes.map(change => ({
+      nodeId: change.nodeId,
+      before: change.after,
+      after: change.before,
+    })),
+    ...(entry.rootIds && {
+      rootIds: { before: entry.rootIds.after, after: entry.rootIds.before },
+    }),
+  };
+}
+
+// =============================================================================
+// Entry Application
+// =============================================================================
+
+/**
+ * Applies an entry to the tree, restoring the nodes as they were before the
+ * operation ('undo') or after it ('redo')
+ */
+export function applyHistoryEntry(
+  tree: FlatTree,
+  entry: TreeHistoryEntry,
+  direction: 'undo' | 'redo'
+): FlatTree {
+  const nodes = new Map(tree.nodes);
+
+  entry.changes.forEach(change => {
+    const target = direction === 'undo' ? change.before : change.after;
+    if (!target) {
+      nodes.delete(change.nodeId);
+      return;
+    }
+
+    const current = nodes.get(change.nodeId);
+    nodes.set(change.nodeId, withViewState(target, current));
+  });
+
+  const rootIds = entry.rootIds
+    ? [...(direction === 'undo' ? entry.rootIds.before : entry.rootIds.after)]
+    : tree.rootIds;
+
+  return {
+    nodes,
+    rootIds,
+    count: nodes.size,
+  };
+}
+
+/**
+ * Keeps the expansion and selection of a node that is still in the tree.
+ * Nodes that come back are restored unselected.
+ */
+function withViewState(target: TreeNode, current?: TreeNode): TreeNode {
+  return {
+    ...target,
+    isExpanded: current ? current.isExpanded : target.isExpanded,
+    isSelected: current ? current.isSelected : false,
+  };
+}
+
+// =============================================================================
+// History State
+// =============================================================================
+
+/**
+ * Adds an entry to the history, dropping the oldest entries past the limit.
+ * Recording a new operation discards the undone entries.
+ */
+export function recordHistoryEntry(
+  history: TreeHistoryState,
+  entry: TreeHistoryEntry,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): TreeHistoryState {
+  return {
+    past: [...history.past, entry].slice(-Math.max(limit, 1)),
+    future: [],
+  };
+}
+
+/**
+ * Moves the last `steps` entries from the past to the future
+ */
+export function undoHistory(
+  history: TreeHistoryState,
+  steps: number
+): TreeHistoryState {
+  const count = Math.min(steps, history.past.length);
+  if (count <= 0) return history;
+
+  return {
+    past: history.past.slice(0, -count),
+    future: [...history.past.slice(-count), ...history.future],
+  };
+}
+
+/**
+ * Moves the first `steps` entries from the future back to the past
+ */
+export function redoHistory(
+  history: TreeHistoryState,
+  steps: number
+): TreeHistoryState {
+  const count = Math.min(steps, history.future.length);
+  if (count <= 0) return history;
+
+  return {
+    past: [...history.past, ...history.future.slice(0, count)],
+    future: history.future.slice(count),
+  };
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function haveSameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+function generateEntryId(): string {
+  return `history_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// =============================================================================
+// Export utilities
+// =============================================================================
+
+export const treeHistory = {
+  createHistoryEntry,
+  mergeHistoryEntries,
+  invertHistoryEntry,
+  applyHistoryEntry,
+  recordHistoryEntry,
+  undoHistory,
+  redoHistory,
+};
@@ -276,7 +276,7 @@ function createMockData(nodeCreate: TreeNodeCreate) {
 /**
  * Generates a unique node ID
  */
-function generateNodeId(): string {
+export function generateNodeId(): string {
   return `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
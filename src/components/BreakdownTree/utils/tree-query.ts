@@ -0,0 +1,614 @@
+/**
+ * Tree Query Utilities
+ *
+ * This file contains utilities for the typed query bar of the tree search,
+ * e.g. `type:task status:blocked assignee:@me due:<2026-11-01 "api"`. Queries
+ * parse into the same search and filter configuration as the form controls
+ * and format back into text, so both stay in sync and a query can be shared
+ * via URL or saved for reuse.
+ *
+ * Supported fields (lists are comma separated, repeated fields combine):
+ * - `type:` goal, outcome, milestone, task, subtask
+ * - `status:` and `priority:` any of {@link TREE_QUERY_STATUSES} and
+ *   {@link TREE_QUERY_PRIORITIES}
+ * - `assignee:` user IDs, `@me` for the current user
+ * - `progress:` whole percentages, e.g. `<50`, `>=80`, `25`, `20..80`
+ * - `due:` and `created:` dates (`YYYY-MM-DD` or `today`), compared the same
+ *   way as progress
+ * - `in:` title, description; `case:sensitive`
+ *
+ * Other words and "quoted phrases" are searched for; `/pattern/` searches
+ * with a regular expression.
+ *
+ * @fileoverview Query language utilities for BreakdownTree search
+ * @version 1.0.0
+ */
+
+import {
+  type FilterConfig,
+  type FlatTree,
+  type SavedTreeQuery,
+  type SearchConfig,
+  type TreeQuery,
+  type TreeQueryContext,
+  type TreeQueryError,
+  TreeNodeType,
+} from '../BreakdownTree.types';
+
+import { filterNodes, searchNodes } from './tree-utils';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  query: '',
+  searchTitles: true,
+  searchDescriptions: true,
+  caseSensitive: false,
+  useRegex: false,
+};
+
+export const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  nodeTypes: Object.values(TreeNodeType),
+  statuses: [],
+  priorities: [],
+  progressRange: { min: 0, max: 100 },
+  dateRange: { start: null, end: null },
+  assignees: [],
+  dueDateRange: { start: null, end: null },
+};
+
+/** Goal statuses followed by task statuses, which task nodes hold */
+export const TREE_QUERY_STATUSES = [
+  'draft',
+  'active',
+  'on_hold',
+  'completed',
+  'cancelled',
+  'overdue',
+  'todo',
+  'in_progress',
+  'blocked',
+];
+
+export const TREE_QUERY_PRIORITIES = ['low', 'medium', 'high', 'critical'];
+
+const SAVED_QUERIES_STORAGE_KEY = 'openbase:breakdown-tree:saved-queries';
+
+const CURRENT_USER = '@me';
+
+type DateRange = FilterConfig['dateRange'];
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parses a typed query. Tokens that cannot be parsed are reported as errors
+ * and left out, so the rest of the query still applies while it is typed.
+ */
+export function parseTreeQuery(
+  text: string,
+  context: TreeQueryContext = {}
+): TreeQuery {
+  const search: SearchConfig = { ...DEFAULT_SEARCH_CONFIG };
+  const filters: FilterConfig = { ...DEFAULT_FILTER_CONFIG };
+  const errors: TreeQueryError[] = [];
+  const terms: string[] = [];
+  const lists = {
+    nodeTypes: [] as TreeNodeType[],
+    statuses: [] as string[],
+    priorities: [] as string[],
+    assignees: [] as string[],
+  };
+
+  const fail = (token: string, message: string) => {
+    errors.push({ token, message });
+  };
+
+  const pickValues = <T extends string>(
+    token: string,
+    values: string[],
+    allowed: readonly T[],
+    field: string
+  ): T[] => {
+    const invalid = values.filter(value => !allowed.includes(value as T));
+    if (invalid.length > 0) {
+      fail(
+        token,
+        `Unknown ${field} "${invalid[0]}", expected one of: ${allowed.join(', ')}`
+      );
+      return [];
+    }
+    return values as T[];
+  };
+
+  tokenize(text).forEach(token => {
+    const match = /^([a-z]+):(.*)$/i.exec(token);
+    if (!match) {
+      terms.push(unquote(token));
+      return;
+    }
+
+    const field = match[1].toLowerCase();
+    const value = unquote(match[2]);
+    if (!value) {
+      fail(token, `Missing value for "${field}"`);
+      return;
+    }
+    const values = value.toLowerCase().split(',').filter(Boolean);
+
+    switch (field) {
+      case 'type':
+        lists.nodeTypes.push(
+          ...pickValues(token, values, Object.values(TreeNodeType), 'type')
+        );
+        break;
+
+      case 'status':
+        lists.statuses.push(
+          ...pickValues(token, values, TREE_QUERY_STATUSES, 'status')
+        );
+        break;
+
+      case 'priority':
+        lists.priorities.push(
+          ...pickValues(token, values, TREE_QUERY_PRIORITIES, 'priority')
+        );
+        break;
+
+      case 'assignee': {
+        // User IDs keep their case
+        const { currentUserId } = context;
+        const assignees = value.split(',').filter(Boolean);
+        if (assignees.includes(CURRENT_USER) && !currentUserId) {
+          fail(token, `"${CURRENT_USER}" requires a signed-in user`);
+          return;
+        }
+        lists.assignees.push(
+          ...assignees.map(assignee =>
+            assignee === CURRENT_USER && currentUserId
+              ? currentUserId
+              : assignee.replace(/^@/, '')
+          )
+        );
+        break;
+      }
+
+      case 'progress': {
+        const range = parseComparison(value, parsePercentage, nextPercentage);
+        if (!range) {
+          fail(token, 'Expected a progress such as <50, >=80 or 20..80');
+          return;
+        }
+        filters.progressRange = {
+          min: Math.max(filters.progressRange.min, range.min ?? 0),
+          max: Math.min(
+            filters.progressRange.max,
+            range.max === undefined ? 100 : range.max - 1
+          ),
+        };
+        break;
+      }
+
+      case 'due':
+      case 'created': {
+        const now = context.now ?? new Date();
+        const range = parseComparison(
+          value,
+          day => parseDay(day, now),
+          nextDay
+        );
+        if (!range) {
+          fail(token, 'Expected a date such as <2026-11-01, today or a..b');
+          return;
+        }
+
+        // Filter ranges are inclusive, so a day ends just before the next one
+        const dates: DateRange = {
+          start: range.min === undefined ? null : new Date(range.min),
+          end: range.max === undefined ? null : new Date(range.max - 1),
+        };
+        if (field === 'due') {
+          filters.dueDateRange = intersectDates(filters.dueDateRange, dates);
+        } else {
+          filters.dateRange = intersectDates(filters.dateRange, dates);
+        }
+        break;
+      }
+
+      case 'in': {
+        const fields = pickValues(
+          token,
+          values,
+          ['title', 'description'] as const,
+          'search field'
+        );
+        if (fields.length === 0) return;
+        search.searchTitles = fields.includes('title');
+        search.searchDescriptions = fields.includes('description');
+        break;
+      }
+
+      case 'case':
+        if (value !== 'sensitive') {
+          fail(token, 'Expected "case:sensitive"');
+          return;
+        }
+        search.caseSensitive = true;
+        break;
+
+      default:
+        fail(token, `Unknown field "${field}"`);
+    }
+  });
+
+  // A /pattern/ term searches with a regular expression
+  const regexTerms = terms.filter(isRegexTerm);
+  if (regexTerms.length > 0) {
+    const [term] = regexTerms;
+    const pattern = term.slice(1, -1);
+    if (terms.length > 1) {
+      fail(term, 'A regular expression cannot be combined with other text');
+    } else if (!isValidRegex(pattern)) {
+      fail(term, 'Invalid regular expression');
+    } else {
+      search.query = pattern;
+      search.useRegex = true;
+    }
+  } else {
+    search.query = terms.join(' ');
+  }
+
+  if (lists.nodeTypes.length > 0) {
+    filters.nodeTypes = Object.values(TreeNodeType).filter(type =>
+      lists.nodeTypes.includes(type)
+    );
+  }
+  filters.statuses = unique(lists.statuses);
+  filters.priorities = unique(lists.priorities);
+  filters.assignees = unique(lists.assignees);
+
+  return { search, filters, errors };
+}
+
+/**
+ * Splits a query at spaces outside of double quotes
+ */
+function tokenize(text: string): string[] {
+  return text.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? [];
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+/**
+ * Parses `<v`, `<=v`, `>v`, `>=v`, `a..b` or a single value into a range
+ * that includes `min` and excludes `max`. Values are whole units, e.g. days,
+ * and `next` returns the start of the following unit.
+ */
+function parseComparison(
+  value: string,
+  parse: (text: string) => number | null,
+  next: (value: number) => number
+): { min?: number; max?: number } | null {
+  const comparison = /^(<=|>=|<|>)(.+)$/.exec(value);
+  if (comparison) {
+    const bound = parse(comparison[2]);
+    if (bound === null) return null;
+
+    switch (comparison[1]) {
+      case '<':
+        return { max: bound };
+      case '<=':
+        return { max: next(bound) };
+      case '>':
+        return { min: next(bound) };
+      default:
+        return { min: bound };
+    }
+  }
+
+  const [from, to, ...rest] = value.split('..');
+  const min = parse(from);
+  const max = to === undefined ? min : parse(to);
+  if (min === null || max === null || rest.length > 0 || min > max) {
+    return null;
+  }
+  return { min, max: next(max) };
+}
+
+function parsePercentage(text: string): number | null {
+  if (!/^\d+$/.test(text)) return null;
+  const value = Number(text);
+  return value <= 100 ? value : null;
+}
+
+function nextPercentage(value: number): number {
+  return value + 1;
+}
+
+/** Start of the given local day in milliseconds */
+function parseDay(text: string, now: Date): number | null {
+  if (text === 'today') {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date.getTime() : null;
+}
+
+/** Start of the following local day, which is not always 24 hours later */
+function nextDay(value: number): number {
+  const date = new Date(value);
+  return new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + 1
+  ).getTime();
+}
+
+function intersectDates(a: DateRange, b: DateRange): DateRange {
+  return {
+    start: a.start && b.start && a.start > b.start ? a.start : b.start,
+    end: a.end && b.end && a.end < b.end ? a.end : b.end,
+  };
+}
+
+function isRegexTerm(term: string): boolean {
+  return term.length > 2 && term.startsWith('/') && term.endsWith('/');
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Formats a search and filter configuration as query text, which parses back
+ * into the same configuration
+ */
+export function formatTreeQuery(
+  search: SearchConfig,
+  filters: FilterConfig,
+  context: TreeQueryContext = {}
+): string {
+  const parts: string[] = [];
+  const allTypes = Object.values(TreeNodeType);
+
+  if (
+    filters.nodeTypes.length > 0 &&
+    filters.nodeTypes.length < allTypes.length
+  ) {
+    parts.push(`type:${filters.nodeTypes.join(',')}`);
+  }
+  if (filters.statuses.length > 0) {
+    parts.push(`status:${filters.statuses.join(',')}`);
+  }
+  if (filters.priorities.length > 0) {
+    parts.push(`priority:${filters.priorities.join(',')}`);
+  }
+  if (filters.assignees.length > 0) {
+    const assignees = filters.assignees.map(assignee =>
+      assignee === context.currentUserId ? CURRENT_USER : assignee
+    );
+    parts.push(`assignee:${assignees.join(',')}`);
+  }
+
+  const { min, max } = filters.progressRange;
+  if (min > 0 || max < 100) {
+    parts.push(`progress:${formatRange(min, max, 0, 100, String)}`);
+  }
+
+  const dateFilters: Array<[string, DateRange]> = [
+    ['due', filters.dueDateRange],
+    ['created', filters.dateRange],
+  ];
+  dateFilters.forEach(([field, { start, end }]) => {
+    if (start || end) {
+      parts.push(
+        `${field}:${formatRange(start, end, null, null, date => (date ? formatDay(date) : ''))}`
+      );
+    }
+  });
+
+  if (search.searchTitles !== search.searchDescriptions) {
+    parts.push(`in:${search.searchTitles ? 'title' : 'description'}`);
+  }
+  if (search.caseSensitive) {
+    parts.push('case:sensitive');
+  }
+
+  if (search.query) {
+    if (search.useRegex) {
+      parts.push(`/${search.query}/`);
+    } else if (/[\s:"]/.test(search.query)) {
+      parts.push(`"${unquote(search.query)}"`);
+    } else {
+      parts.push(search.query);
+    }
+  }
+
+  return parts.join(' ');
+}
+
+/** Formats an inclusive range with the shortest comparison */
+function formatRange<T>(
+  min: T,
+  max: T,
+  lowest: T,
+  highest: T,
+  format: (value: T) => string
+): string {
+  if (min === lowest) return `<=${format(max)}`;
+  if (max === highest) return `>=${format(min)}`;
+
+  const from = format(min);
+  const to = format(max);
+  return from === to ? from : `${from}..${to}`;
+}
+
+function formatDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Finds the nodes that match both the search and the filters
+ */
+export function matchSearchFilter(
+  tree: FlatTree,
+  search: SearchConfig,
+  filters: FilterConfig
+): Set<string> {
+  const filteredIds = filterNodes(tree, filters);
+  if (!search.query) return new Set(filteredIds);
+
+  const searchedIds = new Set(
+    isSearchable(search)
+      ? searchNodes(tree, search.query, {
+          searchTitles: search.searchTitles,
+          searchDescriptions: search.searchDescriptions,
+          caseSensitive: search.caseSensitive,
+          useRegex: search.useRegex,
+        })
+      : []
+  );
+  return new Set(filteredIds.filter(nodeId => searchedIds.has(nodeId)));
+}
+
+/**
+ * Whether the search or any filter narrows down the tree
+ */
+export function isSearchFilterActive(
+  search: SearchConfig,
+  filters: FilterConfig
+): boolean {
+  // Filters only appear in a query when they differ from the defaults
+  return (
+    search.query.length > 0 ||
+    formatTreeQuery(DEFAULT_SEARCH_CONFIG, filters).length > 0
+  );
+}
+
+/**
+ * Finds the parts of a text that match the search, as [start, end) ranges
+ */
+export function getHighlightRanges(
+  text: string,
+  search: SearchConfig
+): Array<[number, number]> {
+  if (!search.query || !isSearchable(search)) return [];
+
+  const flags = search.caseSensitive ? 'g' : 'gi';
+  const pattern = new RegExp(
+    search.useRegex ? search.query : escapeRegex(search.query),
+    flags
+  );
+
+  const ranges: Array<[number, number]> = [];
+  for (const match of text.matchAll(pattern)) {
+    // Empty matches, e.g. of /a*/, have nothing to highlight
+    if (match[0].length > 0) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+  return ranges;
+}
+
+function isSearchable(search: SearchConfig): boolean {
+  return !search.useRegex || isValidRegex(search.query);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// =============================================================================
+// Saved Queries
+// =============================================================================
+
+export function loadSavedQueries(): SavedTreeQuery[] {
+  try {
+    const stored = localStorage.getItem(SAVED_QUERIES_STORAGE_KEY);
+    const queries: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(queries)
+      ? queries.filter(
+          (query): query is SavedTreeQuery =>
+            typeof query?.id === 'string' &&
+            typeof query.name === 'string' &&
+            typeof query.query === 'string'
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedQueries(queries: SavedTreeQuery[]): void {
+  try {
+    localStorage.setItem(SAVED_QUERIES_STORAGE_KEY, JSON.stringify(queries));
+  } catch (error) {
+    console.error('Failed to store saved queries:', error);
+  }
+}
+
+/**
+ * Saves a query under a name, replacing a saved query of the same name
+ */
+export function saveQuery(
+  queries: SavedTreeQuery[],
+  name: string,
+  query: string
+): SavedTreeQuery[] {
+  const existing = queries.find(saved => saved.name === name);
+  const saved: SavedTreeQuery = {
+    id:
+      existing?.id ??
+      `query_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    name,
+    query,
+  };
+
+  return existing
+    ? queries.map(other => (other.id === existing.id ? saved : other))
+    : [...queries, saved];
+}
+
+// =============================================================================
+// Export utilities
+// =============================================================================
+
+export const treeQuery = {
+  parseTreeQuery,
+  formatTreeQuery,
+  matchSearchFilter,
+  isSearchFilterActive,
+  getHighlightRanges,
+  loadSavedQueries,
+  storeSavedQueries,
+  saveQuery,
+};
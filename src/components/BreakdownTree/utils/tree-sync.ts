@@ -0,0 +1,919 @@
+/**
+ * Tree Sync Utilities
+ *
+ * This file persists tree edits to the goals and tasks APIs. Edits are read
+ * from the history journal, merged per batch and planned as entity mutations:
+ * goals, tasks and subtasks map to their own endpoints, milestones and
+ * outcomes are saved as part of their goal, and the task order is saved per
+ * goal. When the server rejects a mutation, the nodes it covered are reverted
+ * in the tree.
+ *
+ * @fileoverview Server synchronisation for BreakdownTree component
+ * @version 1.0.0
+ */
+
+import { goalsApi } from '@/lib/api/goals';
+import {
+  tasksApi,
+  type CreateSubtaskRequest,
+  type CreateTaskRequest,
+  type UpdateSubtaskRequest,
+  type UpdateTaskRequest,
+} from '@/lib/api/tasks';
+import {
+  GoalPriority,
+  GoalStatus,
+  TaskStatus,
+  type Milestone,
+  type Outcome,
+  type SmartGoal,
+  type SmartGoalCreate,
+} from '@/types/smart-goals.types';
+
+import {
+  type FlatTree,
+  type GoalTreeNode,
+  type TreeHistoryEntry,
+  type TreeNode,
+  type TreeNodeChange,
+  type TreeSyncApi,
+  type TreeSyncFailure,
+  type TreeSyncResult,
+  TreeNodeType,
+} from '../BreakdownTree.types';
+
+import { mergeHistoryEntries } from './tree-history';
+import { treeOperations } from './tree-operations';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Milliseconds to wait for further edits before sending a batch */
+export const DEFAULT_SYNC_BATCH_DELAY = 500;
+
+export const DEFAULT_SYNC_API: TreeSyncApi = {
+  goals: goalsApi,
+  tasks: tasksApi,
+};
+
+/** Node fields persisted for goals, tasks and subtasks */
+const SYNCED_FIELDS = [
+  'title',
+  'description',
+  'progress',
+  'priority',
+  'status',
+] as const;
+
+/** Goal fields the server sets itself */
+const SERVER_MANAGED_GOAL_FIELDS = new Set([
+  'id',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'updatedBy',
+  'actualStartDate',
+  'actualCompletionDate',
+  'lastProgressUpdate',
+  'nextReviewDate',
+]);
+
+const TASK_STATUSES = new Set<string>(Object.values(TaskStatus));
+
+/** Task status for goal statuses set on task nodes */
+const TASK_STATUS_BY_NODE_STATUS: Partial<
+  Record<TreeNode['status'], TaskStatus>
+> = {
+  draft: TaskStatus.TODO,
+  active: TaskStatus.IN_PROGRESS,
+  on_hold: TaskStatus.BLOCKED,
+  completed: TaskStatus.COMPLETED,
+  cancelled: TaskStatus.CANCELLED,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type NodeFields = Partial<Pick<TreeNode, (typeof SYNCED_FIELDS)[number]>>;
+
+/** Goal fields saved by the tree */
+type GoalChanges = Partial<
+  Pick<
+    SmartGoal,
+    | 'title'
+    | 'description'
+    | 'progress'
+    | 'priority'
+    | 'status'
+    | 'parentGoalId'
+    | 'milestones'
+    | 'outcomes'
+  >
+>;
+
+interface MutationBase {
+  /** Node the mutation targets */
+  nodeId: string;
+  /** Nodes whose changes the mutation persists, reverted if it fails */
+  nodeIds: string[];
+}
+
+/**
+ * A server mutation planned from tree changes. IDs inside requests are tree
+ * node IDs; they are resolved to server IDs when the mutation is sent.
+ */
+export type TreeSyncMutation =
+  | (MutationBase & { type: 'create_goal'; goal: SmartGoalCreate })
+  | (MutationBase & { type: 'update_goal'; updates: GoalChanges })
+  | (MutationBase & { type: 'delete_goal' })
+  | (MutationBase & { type: 'create_task'; task: CreateTaskRequest })
+  | (MutationBase & { type: 'update_task'; updates: UpdateTaskRequest })
+  | (MutationBase & { type: 'delete_task' })
+  | (MutationBase & { type: 'reorder_tasks'; taskIds: string[] })
+  | (MutationBase & { type: 'create_subtask'; subtask: CreateSubtaskRequest })
+  | (MutationBase & { type: 'update_subtask'; updates: UpdateSubtaskRequest })
+  | (MutationBase & { type: 'delete_subtask' });
+
+/** Mutations for a batch of changes */
+export interface TreeSyncPlan {
+  /** Mutations in the order they are sent */
+  mutations: TreeSyncMutation[];
+  /** Changes the API cannot persist */
+  rejected: TreeSyncFailure[];
+}
+
+interface GoalSync {
+  updates: GoalChanges;
+  nodeIds: string[];
+  /** Embedded collections rebuilt from the tree */
+  items: Set<TreeNodeType.MILESTONE | TreeNodeType.OUTCOME>;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Plans the mutations that persist a set of changes, e.g. the merged changes
+ * of several history entries. Node changes are read from `changes`; nodes
+ * without changes, such as unchanged ancestors, are read from `tree`.
+ */
+export function planTreeSync(
+  changes: TreeNodeChange[],
+  tree: FlatTree
+): TreeSyncPlan {
+  const changesById = new Map(changes.map(change => [change.nodeId, change]));
+  const nodeBefore = (nodeId: string) => {
+    const change = changesById.get(nodeId);
+    return change ? change.before : (tree.nodes.get(nodeId) ?? null);
+  };
+  const nodeAfter = (nodeId: string) => {
+    const change = changesById.get(nodeId);
+    return change ? change.after : (tree.nodes.get(nodeId) ?? null);
+  };
+  const isCreated = (nodeId: string) =>
+    changesById.get(nodeId)?.before === null;
+  const isDeleted = (nodeId: string) => changesById.get(nodeId)?.after === null;
+
+  const creates: TreeSyncMutation[] = [];
+  const updates: TreeSyncMutation[] = [];
+  const deletes: TreeSyncMutation[] = [];
+  const rejected: TreeSyncFailure[] = [];
+  const goalSyncs = new Map<string, GoalSync>();
+  const reorders = new Map<string, string[]>();
+
+  const syncGoal = (goalId: string, nodeId: string) => {
+    const goalSync = goalSyncs.get(goalId) ?? {
+      updates: {},
+      nodeIds: [],
+      items: new Set(),
+    };
+    goalSync.nodeIds.push(nodeId);
+    goalSyncs.set(goalId, goalSync);
+    return goalSync;
+  };
+  const reorderTasks = (goalId: string, nodeId: string) => {
+    reorders.set(goalId, [...(reorders.get(goalId) ?? []), nodeId]);
+  };
+  const reject = (nodeId: string, error: string) => {
+    rejected.push({ mutation: null, nodeIds: [nodeId], error });
+  };
+
+  // Parents first, so that nodes are created after the nodes they belong to
+  const sortedChanges = [...changes].sort((a, b) => depthOf(a) - depthOf(b));
+
+  sortedChanges.forEach(({ nodeId, before, after }) => {
+    const node = after ?? before;
+    if (!node) return;
+
+    const goalBefore = before ? findGoalId(nodeId, nodeBefore) : null;
+    const goalAfter = after ? findGoalId(nodeId, nodeAfter) : null;
+
+    switch (node.type) {
+      case TreeNodeType.GOAL: {
+        if (!before) {
+          syncGoal(nodeId, nodeId);
+        } else if (!after) {
+          deletes.push({ type: 'delete_goal', nodeId, nodeIds: [nodeId] });
+        } else {
+          const goalChanges: GoalChanges = toGoalChanges(
+            getChangedFields(before, after)
+          );
+          if (before.parentId !== after.parentId) {
+            goalChanges.parentGoalId = after.parentId ?? undefined;
+          }
+          if (Object.keys(goalChanges).length > 0) {
+            Object.assign(syncGoal(nodeId, nodeId).updates, goalChanges);
+          }
+        }
+        return;
+      }
+
+      case TreeNodeType.MILESTONE:
+      case TreeNodeType.OUTCOME: {
+        if (
+          before &&
+          after &&
+          goalBefore !== goalAfter &&
+          after.children.length > 0
+        ) {
+          reject(nodeId, 'Milestones with tasks cannot move to another goal');
+          return;
+        }
+
+        [goalBefore, goalAfter].forEach(goalId => {
+          if (goalId && !isDeleted(goalId)) {
+            syncGoal(goalId, nodeId).items.add(node.type);
+          }
+        });
+        return;
+      }
+
+      case TreeNodeType.TASK: {
+        if (!before) {
+          if (!goalAfter || !after) return;
+          creates.push({
+            type: 'create_task',
+            nodeId,
+            nodeIds: [nodeId],
+            task: {
+              goalId: goalAfter,
+              title: after.title,
+              description: after.description,
+              priority: after.priority as GoalPriority,
+              // The API numbers tasks from 1
+              order: getGoalTaskIds(goalAfter, nodeAfter).indexOf(nodeId) + 1,
+            },
+          });
+          if (isMilestone(after.parentId, nodeAfter)) {
+            syncGoal(goalAfter, nodeId).items.add(TreeNodeType.MILESTONE);
+          }
+          return;
+        }
+
+        if (!after) {
+          if (!goalBefore || isDeleted(goalBefore)) return;
+          deletes.push({ type: 'delete_task', nodeId, nodeIds: [nodeId] });
+          if (isMilestone(before.parentId, nodeBefore)) {
+            syncGoal(goalBefore, nodeId).items.add(TreeNodeType.MILESTONE);
+          }
+          return;
+        }
+
+        if (goalBefore !== goalAfter) {
+          reject(nodeId, 'Tasks cannot move to another goal');
+          return;
+        }
+
+        const taskChanges = toTaskChanges(getChangedFields(before, after));
+        if (Object.keys(taskChanges).length > 0) {
+          updates.push({
+            type: 'update_task',
+            nodeId,
+            nodeIds: [nodeId],
+            updates: taskChanges,
+          });
+        }
+
+        if (!goalAfter) return;
+        if (before.parentId !== after.parentId) {
+          // Moving between milestones changes the milestones' task lists
+          syncGoal(goalAfter, nodeId).items.add(TreeNodeType.MILESTONE);
+        }
+        if (
+          before.parentId !== after.parentId ||
+          before.order !== after.order
+        ) {
+          reorderTasks(goalAfter, nodeId);
+        }
+        return;
+      }
+
+      case TreeNodeType.SUBTASK: {
+        if (!before) {
+          if (!after?.parentId) return;
+          creates.push({
+            type: 'create_subtask',
+            nodeId,
+            nodeIds: [nodeId],
+            subtask: {
+              taskId: after.parentId,
+              title: after.title,
+              description: after.description,
+              priority: after.priority as GoalPriority,
+            },
+          });
+          return;
+        }
+
+        if (!after) {
+          if (!before.parentId || isDeleted(before.parentId)) return;
+          deletes.push({ type: 'delete_subtask', nodeId, nodeIds: [nodeId] });
+          return;
+        }
+
+        if (before.parentId !== after.parentId) {
+          reject(nodeId, 'Subtasks cannot move to another task');
+          return;
+        }
+
+        const subtaskChanges: UpdateSubtaskRequest = toTaskChanges(
+          getChangedFields(before, after)
+        );
+        if (before.order !== after.order) {
+          subtaskChanges.order = after.order;
+        }
+        if (Object.keys(subtaskChanges).length > 0) {
+          updates.push({
+            type: 'update_subtask',
+            nodeId,
+            nodeIds: [nodeId],
+            updates: subtaskChanges,
+          });
+        }
+        return;
+      }
+    }
+  });
+
+  // Goals are saved once per batch, together with their milestones and outcomes
+  const goalCreates: TreeSyncMutation[] = [];
+  const goalUpdates: TreeSyncMutation[] = [];
+  goalSyncs.forEach((goalSync, goalId) => {
+    const goal = nodeAfter(goalId);
+    if (!goal || goal.type !== TreeNodeType.GOAL) return;
+
+    if (isCreated(goalId)) {
+      goalCreates.push({
+        type: 'create_goal',
+        nodeId: goalId,
+        nodeIds: goalSync.nodeIds,
+        goal: toGoalCreate(goal, nodeAfter),
+      });
+      return;
+    }
+
+    const goalChanges: GoalChanges = {
+      ...goalSync.updates,
+      ...(goalSync.items.has(TreeNodeType.MILESTONE) && {
+        milestones: getMilestones(goal, nodeAfter),
+      }),
+      ...(goalSync.items.has(TreeNodeType.OUTCOME) && {
+        outcomes: getOutcomes(goal, nodeAfter),
+      }),
+    };
+    goalUpdates.push({
+      type: 'update_goal',
+      nodeId: goalId,
+      nodeIds: goalSync.nodeIds,
+      updates: goalChanges,
+    });
+  });
+
+  // New tasks are created with their order, so only existing goals reorder
+  const taskReorders: TreeSyncMutation[] = [];
+  reorders.forEach((nodeIds, goalId) => {
+    if (isCreated(goalId) || isDeleted(goalId)) return;
+    taskReorders.push({
+      type: 'reorder_tasks',
+      nodeId: goalId,
+      nodeIds,
+      taskIds: getGoalTaskIds(goalId, nodeAfter),
+    });
+  });
+
+  return {
+    mutations: [
+      ...goalCreates,
+      ...creates,
+      ...goalUpdates,
+      ...updates,
+      ...taskReorders,
+      ...deletes,
+    ],
+    rejected,
+  };
+}
+
+// =============================================================================
+// Reconciliation
+// =============================================================================
+
+/**
+ * Reverts changes in the tree: created nodes are removed, deleted nodes are
+ * restored at their former position, and updated nodes are moved back and get
+ * their former fields. Nodes changed since are reverted as far as possible.
+ */
+export function revertTreeChanges(
+  tree: FlatTree,
+  changes: TreeNodeChange[]
+): FlatTree {
+  let current = tree;
+  const apply = (result: { success: boolean; tree?: FlatTree }) => {
+    if (result.success && result.tree) current = result.tree;
+  };
+
+  changes.forEach(({ nodeId, before }) => {
+    if (!before && current.nodes.has(nodeId)) {
+      apply(treeOperations.removeNode(current, nodeId));
+    }
+  });
+
+  const deleted = changes
+    .flatMap(({ nodeId, before, after }) =>
+      before && !after && !current.nodes.has(nodeId) ? [before] : []
+    )
+    .sort((a, b) => a.depth - b.depth);
+  current = restoreNodes(current, deleted);
+
+  changes.forEach(({ nodeId, before, after }) => {
+    const node = current.nodes.get(nodeId);
+    if (!before || !after || !node) return;
+
+    if (node.parentId !== before.parentId || node.order !== before.order) {
+      apply(
+        treeOperations.moveNode(current, {
+          nodeId,
+          newParentId: before.parentId,
+          newIndex: before.order,
+        })
+      );
+    }
+
+    const fields = getChangedFields(node, before);
+    if (Object.keys(fields).length > 0) {
+      apply(treeOperations.updateNode(current, { nodeId, updates: fields }));
+    }
+  });
+
+  return current;
+}
+
+/**
+ * Puts deleted nodes back at their former index. Nodes come before their
+ * descendants; nodes whose parent no longer exists are skipped.
+ */
+function restoreNodes(tree: FlatTree, deleted: TreeNode[]): FlatTree {
+  if (deleted.length === 0) return tree;
+
+  const nodes = new Map(tree.nodes);
+  let rootIds = [...tree.rootIds];
+  const parentIds = new Set<string | null>();
+
+  deleted.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : null;
+    if (node.parentId && !parent) return;
+
+    nodes.set(node.id, { ...node, isSelected: false });
+    parentIds.add(node.parentId);
+
+    if (!parent) {
+      if (!rootIds.includes(node.id)) {
+        rootIds = insertAt(rootIds, node.id, node.order);
+      }
+    } else if (!parent.children.includes(node.id)) {
+      nodes.set(parent.id, {
+        ...parent,
+        children: insertAt(parent.children, node.id, node.order),
+      });
+    }
+  });
+
+  // Siblings were renumbered when the nodes were removed
+  parentIds.forEach(parentId => {
+    const siblingIds = parentId
+      ? (nodes.get(parentId)?.children ?? [])
+      : rootIds;
+    siblingIds.forEach((siblingId, index) => {
+      const sibling = nodes.get(siblingId);
+      if (sibling && sibling.order !== index) {
+        nodes.set(siblingId, { ...sibling, order: index });
+      }
+    });
+  });
+
+  return { nodes, rootIds, count: nodes.size };
+}
+
+// =============================================================================
+// Sync Queue
+// =============================================================================
+
+interface TreeSyncQueueOptions {
+  /** API used to persist edits */
+  api?: TreeSyncApi;
+  /** Milliseconds to wait for further edits before sending a batch */
+  batchDelay?: number;
+  /** Returns the latest tree */
+  getTree: () => FlatTree;
+  /** Applies the tree after rejected edits have been reverted */
+  onReconcile: (tree: FlatTree, failures: TreeSyncFailure[]) => void;
+}
+
+/**
+ * Collects history entries and sends them to the server in batches. Batches
+ * run one at a time, so that later edits can refer to nodes created earlier.
+ * Nodes keep their tree IDs; the server IDs of created nodes are looked up
+ * when later mutations refer to them.
+ */
+export class TreeSyncQueue {
+  private pending: TreeHistoryEntry[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<TreeSyncResult> | null = null;
+  /** Server IDs of nodes created in the tree */
+  private readonly serverIds = new Map<string, string>();
+  /** Created nodes that were removed or rejected before they were saved */
+  private readonly discardedIds = new Set<string>();
+
+  constructor(private readonly options: TreeSyncQueueOptions) {}
+
+  /** Whether edits are waiting to be sent */
+  get hasPendingChanges(): boolean {
+    return this.pending.length > 0 || this.running !== null;
+  }
+
+  /** Adds an applied edit, e.g. a recorded, undone or redone history entry */
+  enqueue(entry: TreeHistoryEntry): void {
+    this.pending.push(entry);
+    this.clearTimer();
+    this.timer = setTimeout(
+      () => void this.flush(),
+      this.options.batchDelay ?? DEFAULT_SYNC_BATCH_DELAY
+    );
+  }
+
+  /** Sends the pending edits without waiting for the batch delay */
+  async flush(): Promise<TreeSyncResult> {
+    this.clearTimer();
+    while (this.running) {
+      await this.running;
+    }
+
+    const batch = mergeHistoryEntries(this.pending, 'Sync');
+    this.pending = [];
+    if (!batch) return { succeeded: 0, failures: [] };
+
+    this.running = this.send(batch.changes);
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  /** Stops the batch timer; pending edits are kept */
+  dispose(): void {
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async send(changes: TreeNodeChange[]): Promise<TreeSyncResult> {
+    const failures: TreeSyncFailure[] = [];
+    let remaining = changes;
+    let plan = planTreeSync(remaining, this.options.getTree());
+
+    // Revert what cannot be saved, then plan the rest against the reverted tree
+    while (plan.rejected.length > 0) {
+      const rejectedIds = new Set(plan.rejected.flatMap(f => f.nodeIds));
+      this.reconcile(
+        remaining.filter(change => rejectedIds.has(change.nodeId)),
+        plan.rejected
+      );
+      failures.push(...plan.rejected);
+      remaining = remaining.filter(change => !rejectedIds.has(change.nodeId));
+      plan = planTreeSync(remaining, this.options.getTree());
+    }
+
+    let succeeded = 0;
+    for (const mutation of plan.mutations) {
+      if (this.isObsolete(mutation)) continue;
+
+      try {
+        await this.execute(mutation);
+        succeeded++;
+      } catch (error) {
+        // Later edits of a node that was never created are not sent
+        if (mutation.type.startsWith('create_')) {
+          this.discardedIds.add(mutation.nodeId);
+        }
+        const failure: TreeSyncFailure = {
+          mutation: mutation.type,
+          nodeIds: mutation.nodeIds,
+          error:
+            error instanceof Error ? error.message : 'Failed to save changes',
+        };
+        this.reconcile(
+          remaining.filter(change => mutation.nodeIds.includes(change.nodeId)),
+          [failure]
+        );
+        failures.push(failure);
+      }
+    }
+
+    return { succeeded, failures };
+  }
+
+  /**
+   * Whether a mutation no longer applies because its node was removed, e.g.
+   * with a parent whose creation failed
+   */
+  private isObsolete(mutation: TreeSyncMutation): boolean {
+    if (mutation.type.startsWith('delete_')) {
+      return this.discardedIds.has(mutation.nodeId);
+    }
+
+    if (this.options.getTree().nodes.has(mutation.nodeId)) return false;
+    if (mutation.type.startsWith('create_')) {
+      this.discardedIds.add(mutation.nodeId);
+    }
+    return true;
+  }
+
+  private reconcile(
+    changes: TreeNodeChange[],
+    failures: TreeSyncFailure[]
+  ): void {
+    const tree = revertTreeChanges(this.options.getTree(), changes);
+    this.options.onReconcile(tree, failures);
+  }
+
+  private serverId(nodeId: string): string {
+    return this.serverIds.get(nodeId) ?? nodeId;
+  }
+
+  private resolveGoal<T extends GoalChanges>(goal: T): T {
+    return {
+      ...goal,
+      ...(goal.parentGoalId && {
+        parentGoalId: this.serverId(goal.parentGoalId),
+      }),
+      ...(goal.milestones && {
+        milestones: goal.milestones.map(milestone => ({
+          ...milestone,
+          goalId: this.serverId(milestone.goalId),
+          taskIds: milestone.taskIds.map(taskId => this.serverId(taskId)),
+        })),
+      }),
+      ...(goal.outcomes && {
+        outcomes: goal.outcomes.map(outcome => ({
+          ...outcome,
+          goalId: this.serverId(outcome.goalId),
+        })),
+      }),
+    };
+  }
+
+  private async execute(mutation: TreeSyncMutation): Promise<void> {
+    const { goals, tasks } = this.options.api ?? DEFAULT_SYNC_API;
+    const id = this.serverId(mutation.nodeId);
+
+    switch (mutation.type) {
+      case 'create_goal': {
+        const goal = await goals.createGoal(this.resolveGoal(mutation.goal));
+        this.serverIds.set(mutation.nodeId, goal.id);
+        return;
+      }
+      case 'update_goal':
+        await goals.updateGoal(id, this.resolveGoal(mutation.updates));
+        return;
+      case 'delete_goal':
+        await goals.deleteGoal(id);
+        return;
+      case 'create_task': {
+        const task = await tasks.createTask({
+          ...mutation.task,
+          goalId: this.serverId(mutation.task.goalId),
+        });
+        this.serverIds.set(mutation.nodeId, task.id);
+        return;
+      }
+      case 'update_task':
+        await tasks.updateTask(id, mutation.updates);
+        return;
+      case 'delete_task':
+        await tasks.deleteTask(id);
+        return;
+      case 'reorder_tasks':
+        await tasks.reorderTasks(
+          id,
+          mutation.taskIds.map(taskId => this.serverId(taskId))
+        );
+        return;
+      case 'create_subtask': {
+        const subtask = await tasks.createSubtask({
+          ...mutation.subtask,
+          taskId: this.serverId(mutation.subtask.taskId),
+        });
+        this.serverIds.set(mutation.nodeId, subtask.id);
+        return;
+      }
+      case 'update_subtask':
+        await tasks.updateSubtask(id, mutation.updates);
+        return;
+      case 'delete_subtask':
+        await tasks.deleteSubtask(id);
+        return;
+    }
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+type NodeLookup = (nodeId: string) => TreeNode | null;
+
+function depthOf(change: TreeNodeChange): number {
+  return (change.after ?? change.before)?.depth ?? 0;
+}
+
+/**
+ * Finds the goal a node belongs to, which is the node itself for goals
+ */
+function findGoalId(nodeId: string, lookup: NodeLookup): string | null {
+  let node = lookup(nodeId);
+  while (node && node.type !== TreeNodeType.GOAL) {
+    node = node.parentId ? lookup(node.parentId) : null;
+  }
+  return node?.id ?? null;
+}
+
+function isMilestone(nodeId: string | null, lookup: NodeLookup): boolean {
+  return nodeId !== null && lookup(nodeId)?.type === TreeNodeType.MILESTONE;
+}
+
+function getChildren(node: TreeNode, lookup: NodeLookup): TreeNode[] {
+  return node.children.flatMap(childId => {
+    const child = lookup(childId);
+    return child ? [child] : [];
+  });
+}
+
+/**
+ * Task IDs of a goal in tree order, including the tasks of its milestones
+ */
+function getGoalTaskIds(goalId: string, lookup: NodeLookup): string[] {
+  const goal = lookup(goalId);
+  if (!goal) return [];
+
+  return getChildren(goal, lookup).flatMap(child => {
+    if (child.type === TreeNodeType.TASK) return [child.id];
+    if (child.type === TreeNodeType.MILESTONE) {
+      return getChildren(child, lookup)
+        .filter(task => task.type === TreeNodeType.TASK)
+        .map(task => task.id);
+    }
+    return [];
+  });
+}
+
+function getMilestones(goal: TreeNode, lookup: NodeLookup): Milestone[] {
+  return getChildren(goal, lookup).flatMap((child, index) =>
+    child.type === TreeNodeType.MILESTONE
+      ? [
+          {
+            ...child.data,
+            id: child.id,
+            title: child.title,
+            description: child.description,
+            progress: child.progress,
+            priority: child.priority as GoalPriority,
+            isCompleted: child.status === 'completed',
+            order: index,
+            goalId: goal.id,
+            taskIds: getChildren(child, lookup)
+              .filter(task => task.type === TreeNodeType.TASK)
+              .map(task => task.id),
+          },
+        ]
+      : []
+  );
+}
+
+function getOutcomes(goal: TreeNode, lookup: NodeLookup): Outcome[] {
+  return getChildren(goal, lookup).flatMap(child =>
+    child.type === TreeNodeType.OUTCOME
+      ? [
+          {
+            ...child.data,
+            id: child.id,
+            description: child.title,
+            measurementCriteria: child.description,
+            isAchieved: child.status === 'completed',
+            goalId: goal.id,
+          },
+        ]
+      : []
+  );
+}
+
+function toGoalCreate(goal: GoalTreeNode, lookup: NodeLookup): SmartGoalCreate {
+  const fields = Object.fromEntries(
+    Object.entries(goal.data).filter(
+      ([key]) => !SERVER_MANAGED_GOAL_FIELDS.has(key)
+    )
+  ) as SmartGoalCreate;
+
+  // Tasks and child goals are created separately
+  return {
+    ...fields,
+    title: goal.title,
+    description: goal.description ?? '',
+    progress: goal.progress,
+    priority: goal.priority as GoalPriority,
+    status: goal.status as GoalStatus,
+    parentGoalId: goal.parentId ?? undefined,
+    milestones: getMilestones(goal, lookup),
+    outcomes: getOutcomes(goal, lookup),
+    tasks: [],
+    childGoalIds: [],
+  };
+}
+
+function getChangedFields(before: TreeNode, after: TreeNode): NodeFields {
+  const fields: NodeFields = {};
+  SYNCED_FIELDS.forEach(field => {
+    if (before[field] !== after[field]) {
+      Object.assign(fields, { [field]: after[field] });
+    }
+  });
+  return fields;
+}
+
+function toGoalChanges({
+  priority,
+  status,
+  ...fields
+}: NodeFields): GoalChanges {
+  return {
+    ...fields,
+    ...(priority && { priority: priority as GoalPriority }),
+    ...(status && { status: status as GoalStatus }),
+  };
+}
+
+function toTaskChanges({
+  priority,
+  status,
+  ...fields
+}: NodeFields): UpdateTaskRequest {
+  const taskStatus = status && toTaskStatus(status);
+  return {
+    ...fields,
+    ...(priority && { priority: priority as GoalPriority }),
+    ...(taskStatus && { status: taskStatus }),
+  };
+}
+
+/**
+ * Task nodes hold task statuses; goal statuses set through the tree are
+ * mapped to the closest task status
+ */
+function toTaskStatus(status: TreeNode['status']): TaskStatus | undefined {
+  return TASK_STATUSES.has(status)
+    ? (status as string as TaskStatus)
+    : TASK_STATUS_BY_NODE_STATUS[status];
+}
+
+function insertAt(ids: string[], id: string, index: number): string[] {
+  const result = [...ids];
+  result.splice(Math.min(Math.max(index, 0), result.length), 0, id);
+  return result;
+}
+
+// =============================================================================
+// Export utilities
+// =============================================================================
+
+export const treeSync = {
+  planTreeSync,
+  revertTreeChanges,
+};
@@ -236,6 +236,32 @@ export function flattenTree(
   return result;
 }
 
+/**
+ * Gets the nodes shown in the tree: nodes under expanded parents, limited to
+ * the matching nodes and their ancestors when `matchingIds` is given. Runs
+ * in linear time so search stays fast on large trees.
+ */
+export function getVisibleNodes(
+  tree: FlatTree,
+  matchingIds?: Set<string>
+): TreeNode[] {
+  const flatNodes = flattenTree(tree, true);
+  if (!matchingIds) return flatNodes;
+
+  const included = new Set<string>();
+  matchingIds.forEach(matchingId => {
+    let nodeId: string | null = matchingId;
+    while (nodeId && !included.has(nodeId)) {
+      const node = tree.nodes.get(nodeId);
+      if (!node) break;
+      included.add(nodeId);
+      nodeId = node.parentId;
+    }
+  });
+
+  return flatNodes.filter(node => included.has(node.id));
+}
+
 /**
  * Finds a node by ID
  */
@@ -602,6 +628,8 @@ export function filterNodes(
     priorities?: string[];
     progressRange?: { min: number; max: number };
     dateRange?: { start: Date | null; end: Date | null };
+    assignees?: string[];
+    dueDateRange?: { start: Date | null; end: Date | null };
   }
 ): string[] {
   const matchingIds: string[] = [];
@@ -645,6 +673,23 @@ export function filterNodes(
       if (end && node.createdAt > end) matches = false;
     }
 
+    // Filter by assignee
+    if (filters.assignees && filters.assignees.length > 0) {
+      const assignee = getNodeAssignee(node);
+      if (!assignee || !filters.assignees.includes(assignee)) {
+        matches = false;
+      }
+    }
+
+    // Filter by due date range
+    if (filters.dueDateRange) {
+      const { start, end } = filters.dueDateRange;
+      const dueDate = getNodeDueDate(node);
+      if ((start || end) && !dueDate) matches = false;
+      if (dueDate && start && dueDate < start) matches = false;
+      if (dueDate && end && dueDate > end) matches = false;
+    }
+
     if (matches) {
       matchingIds.push(node.id);
     }
@@ -653,6 +698,44 @@ export function filterNodes(
   return matchingIds;
 }
 
+/**
+ * Gets the user a node is assigned to; goals are assigned to their owner
+ */
+function getNodeAssignee(node: TreeNode): string | undefined {
+  switch (node.type) {
+    case TreeNodeType.GOAL:
+      return node.data.ownerId;
+    case TreeNodeType.TASK:
+    case TreeNodeType.SUBTASK:
+      return node.data.assignedTo;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Gets the date a node is due; milestones and goals are due on their target
+ * date
+ */
+function getNodeDueDate(node: TreeNode): Date | undefined {
+  let dueDate: Date | string | undefined;
+  switch (node.type) {
+    case TreeNodeType.GOAL:
+      dueDate = node.data.timebound?.targetDate;
+      break;
+    case TreeNodeType.MILESTONE:
+      dueDate = node.data.targetDate;
+      break;
+    case TreeNodeType.TASK:
+    case TreeNodeType.SUBTASK:
+      dueDate = node.data.dueDate;
+      break;
+  }
+
+  // Data that has not been revived holds dates as strings
+  return dueDate ? new Date(dueDate) : undefined;
+}
+
 // =============================================================================
 // Export utilities
 // =============================================================================
@@ -664,6 +747,7 @@ export const treeUtils = {
 
   // Traversal
   flattenTree,
+  getVisibleNodes,
   findNode,
   findNodes,
   getNodePath,
@@ -2,7 +2,10 @@
 
 import { zodResolver } from '@hookform/resolvers/zod';
 import {
+  AlertCircle,
+  Ban,
   HelpCircle,
+  Info,
   Save,
   Upload,
   X,
@@ -25,8 +28,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 
 
-import type { CriteriaEditorProps, Criterion, CriteriaCategory, DorDodTemplate } from './DorDodPanel.types';
-import { getCategoryInfo } from './DorDodPanel.utils';
+import type {
+  CriteriaEditorProps,
+  Criterion,
+  CriteriaCategory,
+  CriterionExplanation,
+  DorDodTemplate,
+  ValidationRule,
+} from './DorDodPanel.types';
+import { explainCriterion, getCategoryInfo } from './DorDodPanel.utils';
 
 // Form validation schema
 const criterionSchema = z.object({
@@ -44,12 +54,27 @@ const criterionSchema = z.object({
 
 type CriterionFormData = z.infer<typeof criterionSchema>;
 
+// Headline of the explanation shown for each criterion status
+const EXPLANATION_TITLES: Record<CriterionExplanation['status'], string> = {
+  active: 'This criterion applies',
+  disabled: 'This criterion is disabled',
+  failing: 'This criterion is failing',
+};
+
+const EXPLANATION_ICONS = {
+  active: Info,
+  disabled: Ban,
+  failing: AlertCircle,
+};
+
 export function CriteriaEditor({
   criterion,
   onSave,
   onCancel,
   availableTemplates = [],
   mode = 'add',
+  criteria = [],
+  conditionContext,
 }: CriteriaEditorProps) {
   const [isOpen, setIsOpen] = useState(true);
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -80,6 +105,25 @@ export function CriteriaEditor({
     }
   }, [criterion, form]);
 
+  // Explain the criterion as it would be saved, so rule changes show their
+  // effect before they are applied
+  const watchedValues = form.watch();
+  const otherCriteria = criteria.filter(c => c.id !== criterion?.id);
+  const draft: Criterion = {
+    id: criterion?.id ?? 'criterion-draft',
+    isCompleted: criterion?.isCompleted ?? false,
+    createdAt: criterion?.createdAt ?? new Date(),
+    updatedAt: criterion?.updatedAt ?? new Date(),
+    description: watchedValues.description,
+    category: watchedValues.category,
+    order: watchedValues.order,
+    validationRule: watchedValues.validationRule?.type
+      ? (watchedValues.validationRule as ValidationRule)
+      : undefined,
+  };
+  const explanation = explainCriterion(draft, [...otherCriteria, draft], conditionContext);
+  const ExplanationIcon = EXPLANATION_ICONS[explanation.status];
+
   const handleSave = (data: CriterionFormData) => {
     onSave({
       ...data,
@@ -332,12 +376,59 @@ export function CriteriaEditor({
                         <FormControl>
                           <Input
                             {...field}
-                            placeholder="Conditional logic (advanced)"
+                            value={field.value ?? ''}
+                            placeholder="goal.priority in ['high', 'critical']"
+                            className="font-mono"
                           />
                         </FormControl>
                         <FormDescription>
-                          JavaScript expression for conditional validation
+                          The criterion only applies while this holds. Use goal, task and criterion fields,
+                          completed(id), len(value), daysUntil(date), comparisons, in, and, or and not.
                         </FormDescription>
+                        {otherCriteria.length > 0 && (
+                          <ul className="space-y-1 text-xs text-muted-foreground">
+                            {otherCriteria.map(other => (
+                              <li key={other.id}>
+                                <code>{other.id}</code> {other.description}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {form.watch('validationRule.type') === 'dependency' && (
+                  <FormField
+                    control={form.control}
+                    name="validationRule.dependsOn"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Depends On</FormLabel>
+                        {otherCriteria.length === 0 ? (
+                          <FormDescription>There are no other criteria to depend on</FormDescription>
+                        ) : (
+                          <div className="space-y-2">
+                            {otherCriteria.map(other => (
+                              <div key={other.id} className="flex items-center gap-2">
+                                <Checkbox
+                                  id={`depends-on-${other.id}`}
+                                  checked={field.value?.includes(other.id) ?? false}
+                                  onCheckedChange={(checked) => field.onChange(
+                                    checked
+                                      ? [...(field.value ?? []), other.id]
+                                      : (field.value ?? []).filter(id => id !== other.id)
+                                  )}
+                                />
+                                <Label htmlFor={`depends-on-${other.id}`} className="font-normal">
+                                  {other.description}
+                                </Label>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -348,6 +439,21 @@ export function CriteriaEditor({
           )}
         </div>
 
+        {/* Why the criterion is disabled or failing */}
+        {explanation.reasons.length > 0 && (
+          <Alert variant={explanation.status === 'failing' ? 'destructive' : 'default'}>
+            <ExplanationIcon className="h-4 w-4" />
+            <AlertDescription>
+              <p className="font-medium">{EXPLANATION_TITLES[explanation.status]}</p>
+              <ul className="mt-1 list-disc pl-4">
+                {explanation.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <DialogFooter>
           <Button type="button" variant="outline" onClick={handleCancel}>
             <X className="mr-2 h-4 w-4" />
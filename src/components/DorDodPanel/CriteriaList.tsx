@@ -186,6 +186,13 @@ export function CriteriaList({
                     {categoryInfo.label}
                   </Badge>
 
+                  {/* Conditional criteria whose condition does not hold */}
+                  {validationResult?.inactiveCriteria?.includes(criterion.id) && (
+                    <Badge variant="secondary" className="text-xs">
+                      Does not apply
+                    </Badge>
+                  )}
+
                   {/* Validation Status */}
                   {validationStatus && (
                     <TooltipProvider>
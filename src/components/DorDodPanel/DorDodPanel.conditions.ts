@@ -0,0 +1,677 @@
+import type { Criterion } from './DorDodPanel.types';
+
+// =============================================================================
+// Condition Language
+// =============================================================================
+//
+// Conditions of `conditional` validation rules are written in a small
+// expression language that is parsed and interpreted here, never handed to
+// `eval` or `Function`:
+//
+//   goal.priority in ['high', 'critical'] and not completed('criterion-1')
+//   task.estimatedHours > 8 || daysUntil(goal.timeBound.deadline) <= 14
+//
+// - literals: numbers, 'single' or "double" quoted strings, true, false, null
+//   and lists such as ['a', 'b']
+// - fields: goal.<path>, task.<path> and criterion.<path>; missing fields
+//   read as null
+// - operators: == != < <= > >= in, and/&&, or/||, not/!, unary minus and
+//   parentheses
+// - functions: completed(id), len(value) and daysUntil(date)
+
+/** Roots a condition may read fields from */
+export const CONDITION_ROOTS = ['goal', 'task', 'criterion'] as const;
+
+/** Functions a condition may call */
+export const CONDITION_FUNCTIONS = ['completed', 'len', 'daysUntil'] as const;
+
+/** Longest condition accepted, in characters */
+export const MAX_CONDITION_LENGTH = 500;
+
+/** Deepest nesting of parentheses, lists and operators accepted */
+const MAX_CONDITION_DEPTH = 32;
+
+/** Field names that would reach into prototypes instead of data */
+const FORBIDDEN_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ConditionRoot = (typeof CONDITION_ROOTS)[number];
+export type ConditionFunction = (typeof CONDITION_FUNCTIONS)[number];
+
+/** Goal and task a condition is evaluated against */
+export interface ConditionContext {
+  goal?: object;
+  task?: object;
+  /** Reference time for `daysUntil`, defaults to now */
+  now?: Date;
+}
+
+export type ConditionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Date
+  | ConditionValue[]
+  | { [key: string]: unknown };
+
+type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export type ConditionNode =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'list'; items: ConditionNode[] }
+  | { kind: 'field'; root: ConditionRoot; path: string[] }
+  | { kind: 'call'; name: ConditionFunction; args: ConditionNode[] }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'negate'; operand: ConditionNode }
+  | {
+      kind: 'logical';
+      operator: 'and' | 'or';
+      left: ConditionNode;
+      right: ConditionNode;
+    }
+  | {
+      kind: 'compare';
+      operator: CompareOperator;
+      left: ConditionNode;
+      right: ConditionNode;
+    };
+
+/** Outcome of checking a condition without throwing */
+export type ConditionCheck =
+  | { ok: true; value: boolean }
+  | { ok: false; error: string };
+
+/** A condition that cannot be parsed or evaluated */
+export class ConditionError extends Error {
+  constructor(
+    message: string,
+    public position?: number
+  ) {
+    super(
+      position === undefined
+        ? message
+        : `${message} at position ${position + 1}`
+    );
+    this.name = 'ConditionError';
+  }
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '<',
+  '>',
+  '!',
+  '-',
+  '(',
+  ')',
+  '[',
+  ']',
+  ',',
+  '.',
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))!;
+      tokens.push({ type: 'identifier', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = '';
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) end++;
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw new ConditionError('Unterminated string', index);
+      }
+      tokens.push({ type: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (!operator) {
+      throw new ConditionError(`Unexpected character "${char}"`, index);
+    }
+    tokens.push({ type: 'operator', value: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'true', 'false', 'null']);
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ConditionError(`Unexpected "${token.value}"`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private accept(...values: string[]): Token | null {
+    const token = this.peek();
+    const matches =
+      (token.type === 'operator' || token.type === 'identifier') &&
+      values.includes(token.value);
+    return matches ? this.next() : null;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept(value)) {
+      const token = this.peek();
+      const found =
+        token.type === 'end' ? 'end of condition' : `"${token.value}"`;
+      throw new ConditionError(
+        `Expected "${value}" but found ${found}`,
+        token.position
+      );
+    }
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_CONDITION_DEPTH) {
+      throw new ConditionError(
+        'Condition is nested too deeply',
+        this.peek().position
+      );
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.accept('or', '||')) {
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.accept('and', '&&')) {
+      left = { kind: 'logical', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.accept('not', '!')) {
+      return this.nested(() => ({ kind: 'not', operand: this.parseNot() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseUnary();
+    const operator = this.accept('==', '!=', '<=', '>=', '<', '>', 'in');
+    if (!operator) return left;
+    return {
+      kind: 'compare',
+      operator: operator.value as CompareOperator,
+      left,
+      right: this.parseUnary(),
+    };
+  }
+
+  private parseUnary(): ConditionNode {
+    if (this.accept('-')) {
+      return this.nested(() => ({
+        kind: 'negate',
+        operand: this.parseUnary(),
+      }));
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'identifier':
+        return this.parseIdentifier(token);
+
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.nested(() => this.parseOr());
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return this.nested(() => this.parseList());
+        }
+        throw new ConditionError(`Unexpected "${token.value}"`, token.position);
+
+      default:
+        throw new ConditionError('Unexpected end of condition', token.position);
+    }
+  }
+
+  private parseIdentifier(token: Token): ConditionNode {
+    if (token.value === 'true' || token.value === 'false') {
+      return { kind: 'literal', value: token.value === 'true' };
+    }
+    if (token.value === 'null') {
+      return { kind: 'literal', value: null };
+    }
+    if (KEYWORDS.has(token.value)) {
+      throw new ConditionError(`Unexpected "${token.value}"`, token.position);
+    }
+
+    if (this.accept('(')) {
+      if (!(CONDITION_FUNCTIONS as readonly string[]).includes(token.value)) {
+        throw new ConditionError(
+          `Unknown function "${token.value}"`,
+          token.position
+        );
+      }
+      const args = this.nested(() => this.parseItems(')'));
+      if (args.length !== 1) {
+        throw new ConditionError(
+          `${token.value}() takes exactly one argument`,
+          token.position
+        );
+      }
+      return { kind: 'call', name: token.value as ConditionFunction, args };
+    }
+
+    if (!(CONDITION_ROOTS as readonly string[]).includes(token.value)) {
+      throw new ConditionError(
+        `Unknown name "${token.value}", expected one of ${CONDITION_ROOTS.join(', ')}`,
+        token.position
+      );
+    }
+
+    const path: string[] = [];
+    while (this.accept('.')) {
+      const key = this.next();
+      if (key.type !== 'identifier' || FORBIDDEN_KEYS.has(key.value)) {
+        throw new ConditionError('Expected a field name', key.position);
+      }
+      path.push(key.value);
+    }
+    return { kind: 'field', root: token.value as ConditionRoot, path };
+  }
+
+  private parseList(): ConditionNode {
+    return { kind: 'list', items: this.parseItems(']') };
+  }
+
+  private parseItems(close: string): ConditionNode[] {
+    const items: ConditionNode[] = [];
+    if (this.accept(close)) return items;
+    do {
+      items.push(this.parseOr());
+    } while (this.accept(','));
+    this.expect(close);
+    return items;
+  }
+}
+
+/**
+ * Parses a condition into its syntax tree, throwing a `ConditionError` that
+ * names the position of the first problem
+ */
+export function parseCondition(source: string): ConditionNode {
+  if (source.length > MAX_CONDITION_LENGTH) {
+    throw new ConditionError(
+      `Condition is longer than ${MAX_CONDITION_LENGTH} characters`
+    );
+  }
+  if (!source.trim()) {
+    throw new ConditionError('Condition is empty');
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+interface Scope {
+  roots: Partial<Record<ConditionRoot, object>>;
+  criteria: Criterion[];
+  now: Date;
+}
+
+function readField(
+  scope: Scope,
+  root: ConditionRoot,
+  path: string[]
+): ConditionValue {
+  const base = scope.roots[root];
+  if (!base) {
+    throw new ConditionError(`No ${root} is available to this condition`);
+  }
+
+  let value: unknown = base;
+  for (const key of path) {
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value === undefined ? null : (value as ConditionValue);
+}
+
+function toTime(value: ConditionValue): number | null {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+function describe(value: ConditionValue): string {
+  if (value === null) return 'null';
+  if (value instanceof Date) return 'a date';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+function isEqual(left: ConditionValue, right: ConditionValue): boolean {
+  if (left instanceof Date || right instanceof Date) {
+    const leftTime = toTime(left);
+    return leftTime !== null && leftTime === toTime(right);
+  }
+  return left === right;
+}
+
+function compareOrdered(
+  operator: CompareOperator,
+  left: ConditionValue,
+  right: ConditionValue
+): boolean {
+  let a: number | string;
+  let b: number | string;
+
+  if (typeof left === 'number' && typeof right === 'number') {
+    [a, b] = [left, right];
+  } else if (left instanceof Date || right instanceof Date) {
+    const [leftTime, rightTime] = [toTime(left), toTime(right)];
+    if (leftTime === null || rightTime === null) {
+      throw new ConditionError(
+        `Cannot compare ${describe(left)} with ${describe(right)}`
+      );
+    }
+    [a, b] = [leftTime, rightTime];
+  } else if (typeof left === 'string' && typeof right === 'string') {
+    [a, b] = [left, right];
+  } else {
+    throw new ConditionError(
+      `Cannot compare ${describe(left)} with ${describe(right)}`
+    );
+  }
+
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function callFunction(
+  scope: Scope,
+  name: ConditionFunction,
+  arg: ConditionValue
+): ConditionValue {
+  switch (name) {
+    case 'completed': {
+      const criterion = scope.criteria.find(c => c.id === arg);
+      if (!criterion) {
+        throw new ConditionError(`Unknown criterion "${String(arg)}"`);
+      }
+      return criterion.isCompleted;
+    }
+
+    case 'len':
+      if (typeof arg === 'string' || Array.isArray(arg)) return arg.length;
+      if (arg === null) return 0;
+      throw new ConditionError(
+        `len() expects a string or a list, not ${describe(arg)}`
+      );
+
+    case 'daysUntil': {
+      const time = toTime(arg);
+      if (time === null) {
+        throw new ConditionError(
+          `daysUntil() expects a date, not ${describe(arg)}`
+        );
+      }
+      return Math.ceil((time - scope.now.getTime()) / DAY_MS);
+    }
+  }
+}
+
+function evaluateNode(node: ConditionNode, scope: Scope): ConditionValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'list':
+      return node.items.map(item => evaluateNode(item, scope));
+
+    case 'field':
+      return readField(scope, node.root, node.path);
+
+    case 'call':
+      return callFunction(scope, node.name, evaluateNode(node.args[0], scope));
+
+    case 'not':
+      return !toBoolean(evaluateNode(node.operand, scope));
+
+    case 'negate': {
+      const value = evaluateNode(node.operand, scope);
+      if (typeof value !== 'number') {
+        throw new ConditionError(`Cannot negate ${describe(value)}`);
+      }
+      return -value;
+    }
+
+    case 'logical': {
+      const left = toBoolean(evaluateNode(node.left, scope));
+      if (node.operator === 'and' ? !left : left) return left;
+      return toBoolean(evaluateNode(node.right, scope));
+    }
+
+    case 'compare': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+
+      switch (node.operator) {
+        case '==':
+          return isEqual(left, right);
+        case '!=':
+          return !isEqual(left, right);
+        case 'in':
+          if (!Array.isArray(right)) {
+            throw new ConditionError(
+              `"in" expects a list, not ${describe(right)}`
+            );
+          }
+          return right.some(item => isEqual(left, item));
+        default:
+          return compareOrdered(node.operator, left, right);
+      }
+    }
+  }
+}
+
+function toBoolean(value: ConditionValue): boolean {
+  if (typeof value !== 'boolean') {
+    throw new ConditionError(`Expected true or false, not ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Evaluates a condition for one criterion. `completed(id)` looks up `criteria`,
+ * the criteria validated together with it.
+ */
+export function evaluateCondition(
+  condition: string | ConditionNode,
+  criterion: Criterion,
+  criteria: Criterion[],
+  context: ConditionContext = {}
+): boolean {
+  const node =
+    typeof condition === 'string' ? parseCondition(condition) : condition;
+  return toBoolean(
+    evaluateNode(node, {
+      roots: { goal: context.goal, task: context.task, criterion },
+      criteria,
+      now: context.now ?? new Date(),
+    })
+  );
+}
+
+/**
+ * Evaluates a condition and reports parse or evaluation problems as a message
+ * instead of throwing
+ */
+export function checkCondition(
+  condition: string,
+  criterion: Criterion,
+  criteria: Criterion[],
+  context: ConditionContext = {}
+): ConditionCheck {
+  try {
+    return {
+      ok: true,
+      value: evaluateCondition(condition, criterion, criteria, context),
+    };
+  } catch (error) {
+    if (error instanceof ConditionError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * IDs of the criteria a condition reads through `completed(...)` with a
+ * literal ID. Conditions that do not parse reference nothing.
+ */
+export function getConditionReferences(condition: string): string[] {
+  let root: ConditionNode;
+  try {
+    root = parseCondition(condition);
+  } catch {
+    return [];
+  }
+
+  const references = new Set<string>();
+  const visit = (node: ConditionNode): void => {
+    switch (node.kind) {
+      case 'call': {
+        const [arg] = node.args;
+        if (
+          node.name === 'completed' &&
+          arg.kind === 'literal' &&
+          typeof arg.value === 'string'
+        ) {
+          references.add(arg.value);
+        }
+        node.args.forEach(visit);
+        break;
+      }
+      case 'list':
+        node.items.forEach(visit);
+        break;
+      case 'not':
+      case 'negate':
+        visit(node.operand);
+        break;
+      case 'logical':
+      case 'compare':
+        visit(node.left);
+        visit(node.right);
+        break;
+    }
+  };
+  visit(root);
+  return [...references];
+}
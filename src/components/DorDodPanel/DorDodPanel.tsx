@@ -2,6 +2,7 @@
 
 import {
   AlertCircle,
+  BookOpen,
   CheckCircle2,
   ChevronDown,
   ChevronRight,
@@ -11,10 +12,13 @@ import {
   MoreVertical,
   Plus,
   RotateCcw,
+  Save,
   Settings,
+  ThumbsDown,
+  ThumbsUp,
   Upload,
 } from 'lucide-react';
-import { useState, useCallback, useReducer, useEffect } from 'react';
+import { useState, useCallback, useReducer, useEffect, useMemo } from 'react';
 
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
@@ -28,15 +32,18 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import type { DorDodTemplateVisibility } from '@/types/dor-dod.types';
 
 import { CriteriaEditor } from './CriteriaEditor';
 import { CriteriaList } from './CriteriaList';
-import { defaultTemplates } from './defaultTemplates';
+import { createCustomTemplate, defaultTemplates } from './defaultTemplates';
 import type {
   DorDodPanelProps,
   DorDodState,
   DorDodAction,
+  DorDodTemplate,
   Criterion,
+  TemplateMergeStrategy,
 } from './DorDodPanel.types';
 import {
   calculateProgressMetrics,
@@ -44,8 +51,11 @@ import {
   generateCriterionId,
   createAuditLogEntry,
   applyTemplate,
+  countDuplicateTemplateCriteria,
   exportCriteria,
+  toTemplateCriteria,
 } from './DorDodPanel.utils';
+import { SaveTemplateDialog, TemplateMergeDialog } from './TemplateDialogs';
 
 // Reducer for state management
 function dorDodReducer(state: DorDodState, action: DorDodAction): DorDodState {
@@ -347,7 +357,10 @@ export function DorDodPanel({
   onStateChange,
   onValidationChange,
   onApprovalRequest,
+  onApprovalDecision,
   readOnly = false,
+  canApprove = false,
+  approverId = 'reviewer',
   showProgressIndicators = true,
   showTimeTracking = false,
   showApprovalWorkflow = false,
@@ -355,6 +368,9 @@ export function DorDodPanel({
   className = '',
   collapsed = false,
   printMode = false,
+  conditionContext,
+  onSaveTemplate,
+  onManageTemplates,
 }: DorDodPanelProps) {
   const [state, dispatch] = useReducer(dorDodReducer, createInitialState(initialState));
   const [editingCriterion, setEditingCriterion] = useState<{ section: 'dor' | 'dod'; criterion?: Criterion } | null>(null);
@@ -363,16 +379,25 @@ export function DorDodPanel({
   const [, setActiveSection] = useState<'dor' | 'dod'>('dor');
   const [dorCollapsed, setDorCollapsed] = useState(collapsed);
   const [dodCollapsed, setDodCollapsed] = useState(collapsed);
+  const [pendingTemplate, setPendingTemplate] = useState<DorDodTemplate | null>(null);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+
+  // The reducer cannot see the goal or task, so conditions are evaluated here
+  const validatedState = useMemo(() => ({
+    ...state,
+    validationResult: validateCriteria([...state.dorCriteria, ...state.dodCriteria], conditionContext),
+  }), [state, conditionContext]);
+  const { validationResult } = validatedState;
 
   // Effect to notify parent of state changes
   useEffect(() => {
-    onStateChange?.(state);
-  }, [state, onStateChange]);
+    onStateChange?.(validatedState);
+  }, [validatedState, onStateChange]);
 
   // Effect to notify parent of validation changes
   useEffect(() => {
-    onValidationChange?.(state.validationResult);
-  }, [state.validationResult, onValidationChange]);
+    onValidationChange?.(validationResult);
+  }, [validationResult, onValidationChange]);
 
   // Handlers
   const handleCriterionToggle = useCallback((id: string, completed: boolean) => {
@@ -439,21 +464,32 @@ export function DorDodPanel({
     dispatch({ type: 'REORDER_CRITERIA', payload: { section, criteriaIds } });
   }, []);
 
+  // Ask how to merge only when there are criteria to merge with
   const handleTemplateApply = useCallback((templateId: string) => {
     const template = templates.find(t => t.id === templateId);
-    if (template) {
-      dispatch({
-        type: 'APPLY_TEMPLATE',
-        payload: {
-          template,
-          options: {
-            mergeWithExisting: true,
-            replaceExisting: false,
-          },
-        },
-      });
+    if (!template) return;
+
+    if (state.dorCriteria.length + state.dodCriteria.length > 0) {
+      setPendingTemplate(template);
+      return;
     }
-  }, [templates]);
+    dispatch({ type: 'APPLY_TEMPLATE', payload: { template, options: { strategy: 'append' } } });
+  }, [templates, state.dorCriteria.length, state.dodCriteria.length]);
+
+  const handleTemplateMerge = useCallback((strategy: TemplateMergeStrategy) => {
+    if (pendingTemplate) {
+      dispatch({ type: 'APPLY_TEMPLATE', payload: { template: pendingTemplate, options: { strategy } } });
+    }
+    setPendingTemplate(null);
+  }, [pendingTemplate]);
+
+  const handleSaveTemplate = useCallback((name: string, description: string, visibility: DorDodTemplateVisibility) => {
+    onSaveTemplate?.(
+      createCustomTemplate(name, description, toTemplateCriteria(state.dorCriteria), toTemplateCriteria(state.dodCriteria)),
+      visibility
+    );
+    setShowSaveTemplate(false);
+  }, [onSaveTemplate, state.dorCriteria, state.dodCriteria]);
 
   const handleClearSection = useCallback((section?: 'dor' | 'dod') => {
     dispatch({ type: 'CLEAR_ALL', payload: { section } });
@@ -481,6 +517,19 @@ export function DorDodPanel({
     onApprovalRequest?.([...state.dorCriteria, ...state.dodCriteria]);
   }, [state.dorCriteria, state.dodCriteria, onApprovalRequest]);
 
+  const handleApprove = useCallback(() => {
+    dispatch({ type: 'APPROVE', payload: { approver: approverId } });
+    onApprovalDecision?.('approved');
+  }, [approverId, onApprovalDecision]);
+
+  const handleReject = useCallback(() => {
+    dispatch({
+      type: 'REJECT',
+      payload: { rejector: approverId, reason: 'Criteria need changes' },
+    });
+    onApprovalDecision?.('rejected');
+  }, [approverId, onApprovalDecision]);
+
   const renderSectionHeader = (
     title: string,
     section: 'dor' | 'dod',
@@ -489,7 +538,7 @@ export function DorDodPanel({
     onToggleCollapse: (collapsed: boolean) => void
   ) => {
     const progress = calculateProgressMetrics(criteria);
-    const sectionValidation = validateCriteria(criteria);
+    const sectionHasErrors = validationResult.errors.some(e => criteria.some(c => c.id === e.criterionId));
 
     return (
       <div className="flex w-full items-center justify-between p-4">
@@ -522,7 +571,7 @@ export function DorDodPanel({
           )}
 
           {/* Validation Status */}
-          {!sectionValidation.isValid && (
+          {sectionHasErrors && (
             <AlertCircle className="h-5 w-5 text-red-500" />
           )}
 
@@ -583,6 +632,35 @@ export function DorDodPanel({
     );
   };
 
+  // Shown to users who may approve even when the panel is read-only for them
+  const renderApprovalDecision = () => {
+    if (
+      !showApprovalWorkflow ||
+      !canApprove ||
+      state.approvalWorkflow.status !== 'requested'
+    ) {
+      return null;
+    }
+
+    return (
+      <Alert className="mb-6">
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+          <span>Approval has been requested for these criteria.</span>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleApprove}>
+              <ThumbsUp className="mr-2 h-4 w-4" />
+              Approve
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleReject}>
+              <ThumbsDown className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+          </div>
+        </AlertDescription>
+      </Alert>
+    );
+  };
+
   const renderGlobalActions = () => {
     if (readOnly) return null;
 
@@ -644,6 +722,25 @@ export function DorDodPanel({
               Clear All
             </Button>
 
+            {onSaveTemplate && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSaveTemplate(true)}
+                disabled={state.dorCriteria.length + state.dodCriteria.length === 0}
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Save as Template
+              </Button>
+            )}
+
+            {onManageTemplates && (
+              <Button variant="outline" size="sm" onClick={onManageTemplates}>
+                <BookOpen className="mr-2 h-4 w-4" />
+                Template Library
+              </Button>
+            )}
+
             {showApprovalWorkflow && (
               <Button
                 variant="outline"
@@ -697,6 +794,7 @@ export function DorDodPanel({
   return (
     <div className={`space-y-6 ${className}`}>
       {renderTimeTracking()}
+      {renderApprovalDecision()}
       {renderGlobalActions()}
 
       <div className="grid lg:grid-cols-2 gap-6">
@@ -714,7 +812,7 @@ export function DorDodPanel({
                   onReorder={readOnly ? undefined : (ids) => handleReorder('dor', ids)}
                   readOnly={readOnly}
                   showProgress={showProgressIndicators}
-                  validationResult={state.validationResult}
+                  validationResult={validationResult}
                 />
 
                 {!readOnly && (
@@ -748,7 +846,7 @@ export function DorDodPanel({
                   onReorder={readOnly ? undefined : (ids) => handleReorder('dod', ids)}
                   readOnly={readOnly}
                   showProgress={showProgressIndicators}
-                  validationResult={state.validationResult}
+                  validationResult={validationResult}
                 />
 
                 {!readOnly && (
@@ -814,11 +912,11 @@ export function DorDodPanel({
       )}
 
       {/* Validation Errors */}
-      {!state.validationResult.isValid && (
+      {!validationResult.isValid && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            {state.validationResult.errors.length} validation error(s) found.
+            {validationResult.errors.length} validation error(s) found.
             Please address these issues before proceeding.
           </AlertDescription>
         </Alert>
@@ -832,6 +930,27 @@ export function DorDodPanel({
           onCancel={handleCriterionCancel}
           availableTemplates={templates}
           mode={editorMode}
+          criteria={[...state.dorCriteria, ...state.dodCriteria]}
+          conditionContext={conditionContext}
+        />
+      )}
+
+      <TemplateMergeDialog
+        template={pendingTemplate}
+        existingCount={state.dorCriteria.length + state.dodCriteria.length}
+        duplicateCount={
+          pendingTemplate ? countDuplicateTemplateCriteria(pendingTemplate, state.dorCriteria, state.dodCriteria) : 0
+        }
+        onApply={handleTemplateMerge}
+        onCancel={() => setPendingTemplate(null)}
+      />
+
+      {onSaveTemplate && (
+        <SaveTemplateDialog
+          open={showSaveTemplate}
+          defaultName={state.currentTemplate?.name}
+          onSave={handleSaveTemplate}
+          onCancel={() => setShowSaveTemplate(false)}
         />
       )}
     </div>
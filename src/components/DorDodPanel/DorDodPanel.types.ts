@@ -1,3 +1,11 @@
+import type {
+  DorDodTemplateContent,
+  DorDodTemplateVisibility,
+  StoredDorDodTemplate,
+} from '@/types/dor-dod.types';
+
+import type { ConditionContext } from './DorDodPanel.conditions';
+
 export interface Criterion {
   id: string;
   description: string;
@@ -62,6 +70,13 @@ export interface ValidationResult {
   errors: ValidationError[];
   warnings: ValidationWarning[];
   blockingCriteria: string[]; // IDs of criteria blocking progress
+  inactiveCriteria?: string[]; // IDs of criteria whose condition does not hold
+}
+
+export interface CriterionExplanation {
+  criterionId: string;
+  status: 'active' | 'disabled' | 'failing';
+  reasons: string[];
 }
 
 export interface ValidationError {
@@ -117,7 +132,8 @@ export type AuditAction =
   | 'validation-failed'
   | 'approval-requested'
   | 'approval-granted'
-  | 'approval-rejected';
+  | 'approval-rejected'
+  | 'transition-overridden';
 
 export interface DorDodState {
   dorCriteria: Criterion[];
@@ -137,7 +153,10 @@ export interface DorDodPanelProps {
   onStateChange?: (state: DorDodState) => void;
   onValidationChange?: (result: ValidationResult) => void;
   onApprovalRequest?: (criteria: Criterion[]) => void;
+  onApprovalDecision?: (status: 'approved' | 'rejected') => void;
   readOnly?: boolean;
+  canApprove?: boolean;
+  approverId?: string;
   showProgressIndicators?: boolean;
   showTimeTracking?: boolean;
   showApprovalWorkflow?: boolean;
@@ -145,6 +164,9 @@ export interface DorDodPanelProps {
   className?: string;
   collapsed?: boolean;
   printMode?: boolean;
+  conditionContext?: ConditionContext; // goal and task read by conditional rules
+  onSaveTemplate?: (template: DorDodTemplate, visibility: DorDodTemplateVisibility) => void; // shows "Save as Template"
+  onManageTemplates?: () => void; // shows "Template Library"
 }
 
 export interface CriteriaListProps {
@@ -165,11 +187,32 @@ export interface CriteriaEditorProps {
   onCancel: () => void;
   availableTemplates?: DorDodTemplate[];
   mode: 'add' | 'edit' | 'bulk';
+  criteria?: Criterion[]; // all criteria, for dependencies and conditions
+  conditionContext?: ConditionContext;
 }
 
+export interface TemplateLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: StoredDorDodTemplate[];
+  currentUserId?: string; // only owners get the edit actions
+  currentCriteria?: Pick<DorDodTemplate, 'dorCriteria' | 'dodCriteria'>; // enables "Update criteria"
+  onUpdate?: (template: StoredDorDodTemplate, changes: TemplateLibraryChanges) => void;
+  onRestoreVersion?: (template: StoredDorDodTemplate, version: number) => void;
+  onDelete?: (template: StoredDorDodTemplate) => void;
+  onImport?: (content: string, visibility: DorDodTemplateVisibility, format?: 'json' | 'yaml') => void;
+}
+
+export type TemplateLibraryChanges = Partial<DorDodTemplateContent & { visibility: DorDodTemplateVisibility }>;
+
+// replace: drop existing criteria; append: keep them and add all template
+// criteria; dedupe: only add criteria whose description is not there yet
+export type TemplateMergeStrategy = 'replace' | 'append' | 'dedupe';
+
 export interface TemplateApplyOptions {
-  mergeWithExisting: boolean;
-  replaceExisting: boolean;
+  strategy?: TemplateMergeStrategy; // takes precedence over the two flags
+  mergeWithExisting?: boolean;
+  replaceExisting?: boolean;
   categoryFilter?: CriteriaCategory[];
 }
 
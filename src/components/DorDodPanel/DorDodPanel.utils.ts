@@ -1,6 +1,9 @@
+import { checkCondition, getConditionReferences } from './DorDodPanel.conditions';
+import type { ConditionContext } from './DorDodPanel.conditions';
 import type {
   Criterion,
   CriteriaCategory,
+  CriterionExplanation,
   ProgressMetrics,
   ValidationResult,
   ValidationError,
@@ -9,6 +12,7 @@ import type {
   AuditAction,
   DorDodTemplate,
   TemplateApplyOptions,
+  TemplateMergeStrategy,
 } from './DorDodPanel.types';
 
 /**
@@ -49,15 +53,97 @@ export function calculateProgressMetrics(criteria: Criterion[]): ProgressMetrics
 }
 
 /**
- * Validates criteria against their rules and dependencies
+ * IDs of the criteria a criterion waits for: the `dependsOn` list of a
+ * dependency rule, or the criteria a conditional rule reads with `completed()`
  */
-export function validateCriteria(criteria: Criterion[]): ValidationResult {
+export function getCriterionDependencies(criterion: Criterion): string[] {
+  const rule = criterion.validationRule;
+  if (rule?.type === 'dependency') return rule.dependsOn ?? [];
+  if (rule?.type === 'conditional' && rule.condition) return getConditionReferences(rule.condition);
+  return [];
+}
+
+/**
+ * Finds dependency cycles among criteria. Each cycle is returned as a closed
+ * path of IDs, e.g. `['a', 'b', 'a']`; dependencies on unknown IDs are ignored.
+ */
+export function findDependencyCycles(criteria: Criterion[]): string[][] {
+  const byId = new Map(criteria.map(c => [c.id, c]));
+  const visited = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+  const seen = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    visited.set(id, 'visiting');
+    path.push(id);
+
+    for (const dependencyId of getCriterionDependencies(byId.get(id)!)) {
+      if (!byId.has(dependencyId)) continue;
+
+      const state = visited.get(dependencyId);
+      if (state === 'visiting') {
+        const cycle = path.slice(path.indexOf(dependencyId));
+        const key = [...cycle].sort().join('\n');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...cycle, dependencyId]);
+        }
+      } else if (!state) {
+        visit(dependencyId);
+      }
+    }
+
+    path.pop();
+    visited.set(id, 'done');
+  };
+
+  for (const criterion of criteria) {
+    if (!visited.has(criterion.id)) visit(criterion.id);
+  }
+
+  return cycles;
+}
+
+function describeCycle(cycle: string[], criteria: Criterion[]): string {
+  const labels = cycle.map(id => `"${criteria.find(c => c.id === id)?.description ?? id}"`);
+  return `Circular dependency: ${labels.join(' \u2192 ')}`;
+}
+
+function getUnmetDependencies(criterion: Criterion, criteria: Criterion[]): Criterion[] {
+  const dependsOn = criterion.validationRule?.dependsOn ?? [];
+  return dependsOn
+    .map(depId => criteria.find(c => c.id === depId))
+    .filter((dependency): dependency is Criterion => !!dependency && !dependency.isCompleted);
+}
+
+/**
+ * Validates criteria against their rules and dependencies. Conditions of
+ * conditional rules are evaluated against `context`; a required criterion
+ * only has to be completed while its condition holds.
+ */
+export function validateCriteria(criteria: Criterion[], context: ConditionContext = {}): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationWarning[] = [];
   const blockingCriteria: string[] = [];
+  const inactiveCriteria: string[] = [];
+
+  const cyclic = new Set<string>();
+  for (const cycle of findDependencyCycles(criteria)) {
+    for (const id of new Set(cycle)) {
+      if (cyclic.has(id)) continue;
+      cyclic.add(id);
+      errors.push({
+        criterionId: id,
+        message: describeCycle(cycle, criteria),
+        type: 'dependency',
+      });
+      blockingCriteria.push(id);
+    }
+  }
 
   for (const criterion of criteria) {
-    if (!criterion.validationRule) continue;
+    if (!criterion.validationRule || cyclic.has(criterion.id)) continue;
 
     const rule = criterion.validationRule;
 
@@ -75,10 +161,7 @@ export function validateCriteria(criteria: Criterion[]): ValidationResult {
 
       case 'dependency':
         if (rule.dependsOn && criterion.isCompleted) {
-          const unmetDependencies = rule.dependsOn.filter(depId => {
-            const dependency = criteria.find(c => c.id === depId);
-            return dependency && !dependency.isCompleted;
-          });
+          const unmetDependencies = getUnmetDependencies(criterion, criteria).map(c => c.id);
 
           if (unmetDependencies.length > 0) {
             errors.push({
@@ -91,16 +174,36 @@ export function validateCriteria(criteria: Criterion[]): ValidationResult {
         }
         break;
 
-      case 'conditional':
-        // TODO: Implement conditional validation based on rule.condition
+      case 'conditional': {
+        if (!rule.condition) break;
+
+        const check = checkCondition(rule.condition, criterion, criteria, context);
+        if (!check.ok) {
+          errors.push({
+            criterionId: criterion.id,
+            message: `Invalid condition: ${check.error}`,
+            type: 'conditional',
+          });
+          blockingCriteria.push(criterion.id);
+        } else if (!check.value) {
+          inactiveCriteria.push(criterion.id);
+        } else if (criterion.category === 'required' && !criterion.isCompleted) {
+          errors.push({
+            criterionId: criterion.id,
+            message: rule.message,
+            type: 'conditional',
+          });
+          blockingCriteria.push(criterion.id);
+        }
         break;
+      }
     }
 
   }
 
   // Generate warnings for recommended items
   for (const criterion of criteria) {
-    if (criterion.category === 'recommended' && !criterion.isCompleted) {
+    if (criterion.category === 'recommended' && !criterion.isCompleted && !inactiveCriteria.includes(criterion.id)) {
       warnings.push({
         criterionId: criterion.id,
         message: 'Recommended criterion not completed',
@@ -114,6 +217,55 @@ export function validateCriteria(criteria: Criterion[]): ValidationResult {
     errors,
     warnings,
     blockingCriteria,
+    inactiveCriteria,
+  };
+}
+
+/**
+ * Explains why a criterion is failing, disabled (its condition does not hold
+ * or it waits for open dependencies) or active, for display next to it
+ */
+export function explainCriterion(
+  criterion: Criterion,
+  criteria: Criterion[],
+  context: ConditionContext = {}
+): CriterionExplanation {
+  const failing: string[] = [];
+  const disabled: string[] = [];
+  const notes: string[] = [];
+  const rule = criterion.validationRule;
+  const isOpenRequirement = criterion.category === 'required' && !criterion.isCompleted;
+
+  const cycle = findDependencyCycles(criteria).find(c => c.includes(criterion.id));
+
+  if (cycle) {
+    failing.push(describeCycle(cycle, criteria));
+  } else if (rule?.type === 'dependency') {
+    const unmet = getUnmetDependencies(criterion, criteria).map(c => `"${c.description}"`);
+    if (unmet.length > 0 && criterion.isCompleted) {
+      failing.push(`Completed before the criteria it depends on: ${unmet.join(', ')}`);
+    } else if (unmet.length > 0) {
+      disabled.push(`Waiting for ${unmet.join(', ')}`);
+    }
+  } else if (rule?.type === 'conditional' && rule.condition) {
+    const check = checkCondition(rule.condition, criterion, criteria, context);
+    if (!check.ok) {
+      failing.push(`Invalid condition: ${check.error}`);
+    } else if (!check.value) {
+      disabled.push(`Does not apply: the condition \`${rule.condition}\` is false`);
+    } else if (isOpenRequirement) {
+      failing.push(`${rule.message} (the condition \`${rule.condition}\` is true)`);
+    } else {
+      notes.push(`Applies: the condition \`${rule.condition}\` is true`);
+    }
+  } else if (rule?.type === 'required' && isOpenRequirement) {
+    failing.push(rule.message);
+  }
+
+  return {
+    criterionId: criterion.id,
+    status: failing.length > 0 ? 'failing' : disabled.length > 0 ? 'disabled' : 'active',
+    reasons: [...failing, ...disabled, ...notes],
   };
 }
 
@@ -186,7 +338,38 @@ export function sortCriteria(criteria: Criterion[]): Criterion[] {
 }
 
 /**
- * Applies a template to existing criteria
+ * Picks the merge strategy of apply options; the older flags map to
+ * replace and append
+ */
+export function getTemplateMergeStrategy(options: TemplateApplyOptions): TemplateMergeStrategy {
+  if (options.strategy) return options.strategy;
+  return options.replaceExisting ? 'replace' : 'append';
+}
+
+// Descriptions that only differ in case or spacing count as the same criterion
+const normalizeDescription = (description: string): string =>
+  description.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Counts the template criteria the dedupe strategy would skip because an
+ * existing criterion has the same description
+ */
+export function countDuplicateTemplateCriteria(
+  template: DorDodTemplate,
+  currentDorCriteria: Criterion[],
+  currentDodCriteria: Criterion[]
+): number {
+  const countIn = (templateCriteria: DorDodTemplate['dorCriteria'], current: Criterion[]) => {
+    const existing = new Set(current.map(c => normalizeDescription(c.description)));
+    return templateCriteria.filter(tc => existing.has(normalizeDescription(tc.description))).length;
+  };
+
+  return countIn(template.dorCriteria, currentDorCriteria) + countIn(template.dodCriteria, currentDodCriteria);
+}
+
+/**
+ * Applies a template to existing criteria. The category filter only
+ * applies to the criteria taken from the template.
  */
 export function applyTemplate(
   template: DorDodTemplate,
@@ -195,6 +378,7 @@ export function applyTemplate(
   options: TemplateApplyOptions
 ): { dorCriteria: Criterion[]; dodCriteria: Criterion[] } {
   const now = new Date();
+  const strategy = getTemplateMergeStrategy(options);
 
   const createCriteriaFromTemplate = (templateCriteria: DorDodTemplate['dorCriteria'], startOrder = 0) => {
     return templateCriteria.map((tc, index) => ({
@@ -207,50 +391,58 @@ export function applyTemplate(
     }));
   };
 
-  let newDorCriteria: Criterion[];
-  let newDodCriteria: Criterion[];
-
-  if (options.replaceExisting) {
-    newDorCriteria = createCriteriaFromTemplate(template.dorCriteria);
-    newDodCriteria = createCriteriaFromTemplate(template.dodCriteria);
-  } else if (options.mergeWithExisting) {
-    const maxDorOrder = Math.max(0, ...currentDorCriteria.map(c => c.order));
-    const maxDodOrder = Math.max(0, ...currentDodCriteria.map(c => c.order));
-
-    newDorCriteria = [
-      ...currentDorCriteria,
-      ...createCriteriaFromTemplate(template.dorCriteria, maxDorOrder),
-    ];
-
-    newDodCriteria = [
-      ...currentDodCriteria,
-      ...createCriteriaFromTemplate(template.dodCriteria, maxDodOrder),
-    ];
-  } else {
-    // Default to append
-    newDorCriteria = [
-      ...currentDorCriteria,
-      ...createCriteriaFromTemplate(template.dorCriteria, currentDorCriteria.length),
-    ];
-
-    newDodCriteria = [
-      ...currentDodCriteria,
-      ...createCriteriaFromTemplate(template.dodCriteria, currentDodCriteria.length),
-    ];
-  }
+  const mergeCriteria = (templateCriteria: DorDodTemplate['dorCriteria'], current: Criterion[]): Criterion[] => {
+    let added = options.categoryFilter?.length
+      ? templateCriteria.filter(tc => options.categoryFilter!.includes(tc.category))
+      : templateCriteria;
 
-  // Apply category filter if specified
-  if (options.categoryFilter && options.categoryFilter.length > 0) {
-    newDorCriteria = newDorCriteria.filter(c => options.categoryFilter!.includes(c.category));
-    newDodCriteria = newDodCriteria.filter(c => options.categoryFilter!.includes(c.category));
-  }
+    if (strategy === 'replace') {
+      return createCriteriaFromTemplate(added);
+    }
+
+    if (strategy === 'dedupe') {
+      // Also drops repeats within the template itself
+      const seen = new Set(current.map(c => normalizeDescription(c.description)));
+      added = added.filter(tc => {
+        const key = normalizeDescription(tc.description);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    const maxOrder = Math.max(0, ...current.map(c => c.order));
+    return [...current, ...createCriteriaFromTemplate(added, maxOrder)];
+  };
 
   return {
-    dorCriteria: sortCriteria(newDorCriteria),
-    dodCriteria: sortCriteria(newDodCriteria),
+    dorCriteria: sortCriteria(mergeCriteria(template.dorCriteria, currentDorCriteria)),
+    dodCriteria: sortCriteria(mergeCriteria(template.dodCriteria, currentDodCriteria)),
   };
 }
 
+/**
+ * Turns criteria into template criteria, dropping their IDs, progress and
+ * timestamps. Dependencies on other criteria cannot be kept, since the
+ * criteria get new IDs when the template is applied.
+ */
+export function toTemplateCriteria(criteria: Criterion[]): DorDodTemplate['dorCriteria'] {
+  return [...criteria]
+    .sort((a, b) => a.order - b.order)
+    .map((criterion, index) => {
+      const { validationRule } = criterion;
+      return {
+        description: criterion.description,
+        category: criterion.category,
+        order: index + 1,
+        ...(criterion.helpText ? { helpText: criterion.helpText } : {}),
+        ...(validationRule && validationRule.type !== 'dependency'
+          ? { validationRule: { type: validationRule.type, message: validationRule.message, ...(validationRule.condition ? { condition: validationRule.condition } : {}) } }
+          : {}),
+      };
+    });
+}
+
 /**
  * Calculates completion percentage by category
  */
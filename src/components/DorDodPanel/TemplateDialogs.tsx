@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import type { DorDodTemplateVisibility } from '@/types/dor-dod.types';
+
+import type { DorDodTemplate, TemplateMergeStrategy } from './DorDodPanel.types';
+
+const MERGE_STRATEGIES: Array<{ value: TemplateMergeStrategy; label: string; description: string }> = [
+  {
+    value: 'dedupe',
+    label: 'Skip duplicates',
+    description: 'Keep the current criteria and add the template criteria that are not there yet.',
+  },
+  {
+    value: 'append',
+    label: 'Append all',
+    description: 'Keep the current criteria and add every template criterion.',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Remove the current criteria, including their progress, and use the template.',
+  },
+];
+
+interface TemplateMergeDialogProps {
+  template: DorDodTemplate | null;
+  existingCount: number;
+  duplicateCount: number;
+  onApply: (strategy: TemplateMergeStrategy) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks how a template combines with the criteria a panel already has
+ */
+export function TemplateMergeDialog({
+  template,
+  existingCount,
+  duplicateCount,
+  onApply,
+  onCancel,
+}: TemplateMergeDialogProps) {
+  const [strategy, setStrategy] = useState<TemplateMergeStrategy>('dedupe');
+
+  useEffect(() => {
+    if (template) setStrategy('dedupe');
+  }, [template]);
+
+  return (
+    <Dialog open={!!template} onOpenChange={open => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Apply &quot;{template?.name}&quot;</DialogTitle>
+          <DialogDescription>
+            This panel already has {existingCount} criteria
+            {duplicateCount > 0 && `, and ${duplicateCount} of the template criteria are already among them`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={strategy}
+          onValueChange={value => setStrategy(value as TemplateMergeStrategy)}
+          className="space-y-3"
+        >
+          {MERGE_STRATEGIES.map(option => (
+            <div key={option.value} className="flex items-start space-x-3">
+              <RadioGroupItem value={option.value} id={`merge-${option.value}`} className="mt-1" />
+              <Label htmlFor={`merge-${option.value}`} className="font-normal">
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-sm text-muted-foreground">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onApply(strategy)}>Apply Template</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  defaultName?: string;
+  onSave: (name: string, description: string, visibility: DorDodTemplateVisibility) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Names the current criteria as a library template and picks who can use it
+ */
+export function SaveTemplateDialog({ open, defaultName = '', onSave, onCancel }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState('');
+  const [shared, setShared] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setDescription('');
+      setShared(false);
+    }
+  }, [open, defaultName]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim(), description.trim(), shared ? 'organization' : 'private');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+            <DialogDescription>
+              Adds the current criteria to the template library. Progress and dependencies between criteria are not
+              saved.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              maxLength={200}
+              onChange={event => setName(event.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              maxLength={2000}
+              onChange={event => setDescription(event.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="template-shared" className="font-normal">
+              Share with the organization
+            </Label>
+            <Switch id="template-shared" checked={shared} onCheckedChange={setShared} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              Save Template
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { Download, History, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { useRef, useState, type ChangeEvent } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { exportDorDodTemplates } from '@/lib/api/shared/dor-dod-templates';
+import type { StoredDorDodTemplate } from '@/types/dor-dod.types';
+
+import type { TemplateLibraryProps } from './DorDodPanel.types';
+
+/**
+ * Downloads a template as a JSON or YAML file that can be imported again
+ */
+function downloadTemplate(template: StoredDorDodTemplate, format: 'json' | 'yaml') {
+  const file = exportDorDodTemplates([template], format);
+  const blob = new Blob([file.content], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads the format from the file extension; other files are detected by
+ * their content
+ */
+function getFileFormat(fileName: string): 'json' | 'yaml' | undefined {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.ya?ml$/i.test(fileName)) return 'yaml';
+  return undefined;
+}
+
+/**
+ * Manages the template library: sharing, versions, export, import and
+ * deleting. Only owners get the actions that change a template.
+ */
+export function TemplateLibrary({
+  open,
+  onOpenChange,
+  templates,
+  currentUserId,
+  currentCriteria,
+  onUpdate,
+  onRestoreVersion,
+  onDelete,
+  onImport,
+}: TemplateLibraryProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [importShared, setImportShared] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !onImport) return;
+
+    onImport(await file.text(), importShared ? 'organization' : 'private', getFileFormat(file.name));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Template Library</DialogTitle>
+          <DialogDescription>
+            Your templates and the ones shared with the organization. Every change to a template is kept as a
+            version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {onImport && (
+          <Card className="flex flex-wrap items-center justify-between gap-3 p-4">
+            <div className="flex items-center gap-2">
+              <Switch id="import-shared" checked={importShared} onCheckedChange={setImportShared} />
+              <Label htmlFor="import-shared" className="font-normal">
+                Share imported templates with the organization
+              </Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import JSON or YAML
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </Card>
+        )}
+
+        {templates.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No templates yet. Save the criteria of a panel as a template or import a file.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map(template => {
+              const isOwner = template.ownerId === currentUserId;
+              const isExpanded = expandedId === template.id;
+
+              return (
+                <Card key={template.id} className="p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h3 className="font-medium">{template.name}</h3>
+                        <Badge variant="outline">v{template.version}</Badge>
+                        <Badge variant={template.visibility === 'organization' ? 'default' : 'secondary'}>
+                          {template.visibility === 'organization' ? 'Shared' : 'Private'}
+                        </Badge>
+                      </div>
+                      {template.description && (
+                        <p className="mt-1 text-sm text-muted-foreground">{template.description}</p>
+                      )}
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {template.dorCriteria.length} DoR • {template.dodCriteria.length} DoD criteria
+                        {!isOwner && ` • by ${template.ownerId}`}
+                      </p>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {isOwner && onUpdate && (
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            id={`share-${template.id}`}
+                            checked={template.visibility === 'organization'}
+                            onCheckedChange={checked =>
+                              onUpdate(template, { visibility: checked ? 'organization' : 'private' })
+                            }
+                          />
+                          <Label htmlFor={`share-${template.id}`} className="text-sm font-normal">
+                            Shared
+                          </Label>
+                        </div>
+                      )}
+
+                      {isOwner && onUpdate && currentCriteria && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onUpdate(template, currentCriteria)}
+                          title="Save the criteria of this panel as a new version"
+                        >
+                          <RefreshCw className="mr-2 h-4 w-4" />
+                          Update Criteria
+                        </Button>
+                      )}
+
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Download className="mr-2 h-4 w-4" />
+                            Export
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent>
+                          <DropdownMenuItem onClick={() => downloadTemplate(template, 'json')}>
+                            Export as JSON
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => downloadTemplate(template, 'yaml')}>
+                            Export as YAML
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+
+                      {template.versions.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedId(isExpanded ? null : template.id)}
+                        >
+                          <History className="mr-2 h-4 w-4" />
+                          Versions
+                        </Button>
+                      )}
+
+                      {isOwner && onDelete && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => onDelete(template)}
+                          aria-label={`Delete ${template.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <ul className="mt-3 space-y-2 border-t pt-3">
+                      {template.versions.map(version => (
+                        <li key={version.version} className="flex items-center justify-between gap-2 text-sm">
+                          <span>
+                            <span className="font-medium">v{version.version}</span> {version.name} •{' '}
+                            {version.dorCriteria.length + version.dodCriteria.length} criteria •{' '}
+                            {new Date(version.savedAt).toLocaleString()} by {version.savedBy}
+                          </span>
+                          {isOwner && onRestoreVersion && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => onRestoreVersion(template, version.version)}
+                            >
+                              Restore
+                            </Button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
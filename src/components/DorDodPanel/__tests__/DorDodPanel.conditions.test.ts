@@ -0,0 +1,141 @@
+import {
+  ConditionError,
+  checkCondition,
+  evaluateCondition,
+  getConditionReferences,
+  parseCondition,
+} from '../DorDodPanel.conditions';
+import type { Criterion } from '../DorDodPanel.types';
+
+describe('DorDodPanel.conditions', () => {
+  const criterion = (id: string, isCompleted = false): Criterion => ({
+    id,
+    description: `Criterion ${id}`,
+    category: 'required',
+    isCompleted,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    order: 1,
+  });
+
+  const self = criterion('self');
+  const criteria = [self, criterion('design', true), criterion('budget')];
+  const context = {
+    goal: {
+      priority: 'high',
+      tags: ['launch', 'mobile'],
+      timebound: { targetDate: new Date('2024-03-31') },
+    },
+    task: { estimatedHours: 12, title: 'Ship it' },
+    now: new Date('2024-03-01'),
+  };
+
+  const evaluate = (condition: string) =>
+    evaluateCondition(condition, self, criteria, context);
+
+  describe('evaluateCondition', () => {
+    it('compares goal, task and criterion fields', () => {
+      expect(evaluate("goal.priority == 'high'")).toBe(true);
+      expect(
+        evaluate('task.estimatedHours >= 8 and task.estimatedHours < 16')
+      ).toBe(true);
+      expect(evaluate("criterion.category != 'required'")).toBe(false);
+      expect(evaluate('goal.missing.field == null')).toBe(true);
+      expect(evaluate('-task.estimatedHours < -10')).toBe(true);
+    });
+
+    it('supports lists, boolean operators and precedence', () => {
+      expect(evaluate("goal.priority in ['high', 'critical']")).toBe(true);
+      expect(evaluate("'launch' in goal.tags && !('beta' in goal.tags)")).toBe(
+        true
+      );
+      expect(evaluate('false or true and false')).toBe(false);
+      expect(evaluate('not false == true')).toBe(true);
+    });
+
+    it('provides completed, len and daysUntil', () => {
+      expect(
+        evaluate('completed(\'design\') and not completed("budget")')
+      ).toBe(true);
+      expect(evaluate('len(task.title) == 7 and len(goal.tags) == 2')).toBe(
+        true
+      );
+      expect(evaluate('daysUntil(goal.timebound.targetDate) == 30')).toBe(true);
+      expect(evaluate("daysUntil('2024-02-28') < 0")).toBe(true);
+    });
+
+    it('short-circuits boolean operators', () => {
+      expect(evaluate("false and completed('unknown')")).toBe(false);
+      expect(() => evaluate("true and completed('unknown')")).toThrow(
+        'Unknown criterion "unknown"'
+      );
+    });
+
+    it('rejects values of the wrong type', () => {
+      expect(() => evaluate('task.estimatedHours')).toThrow(ConditionError);
+      expect(() => evaluate("task.estimatedHours > 'many'")).toThrow(
+        'Cannot compare a number with a string'
+      );
+      expect(() => evaluate("'x' in goal.priority")).toThrow(
+        '"in" expects a list'
+      );
+    });
+
+    it('never reaches into prototypes or unknown names', () => {
+      expect(() => parseCondition('goal.constructor == null')).toThrow(
+        'Expected a field name'
+      );
+      expect(evaluate('goal.toString == null')).toBe(true);
+      expect(() => parseCondition('window.alert == null')).toThrow(
+        'Unknown name "window"'
+      );
+      expect(() => parseCondition("eval('1')")).toThrow(
+        'Unknown function "eval"'
+      );
+    });
+  });
+
+  describe('parseCondition', () => {
+    it('reports the position of syntax errors', () => {
+      expect(() => parseCondition("goal.priority == 'high")).toThrow(
+        'Unterminated string at position 18'
+      );
+      expect(() => parseCondition('goal.priority = 1')).toThrow(
+        'Unexpected character "=" at position 15'
+      );
+      expect(() => parseCondition('(true')).toThrow(
+        'Expected ")" but found end of condition'
+      );
+    });
+
+    it('limits length and nesting', () => {
+      expect(() => parseCondition('   ')).toThrow('Condition is empty');
+      expect(() =>
+        parseCondition(`${'('.repeat(40)}true${')'.repeat(40)}`)
+      ).toThrow('Condition is nested too deeply');
+      expect(() => parseCondition('true or '.repeat(70) + 'true')).toThrow(
+        /longer than 500 characters/
+      );
+    });
+  });
+
+  it('reports problems instead of throwing from checkCondition', () => {
+    expect(checkCondition('completed("design")', self, criteria)).toEqual({
+      ok: true,
+      value: true,
+    });
+    expect(checkCondition('task.estimatedHours > 8', self, criteria)).toEqual({
+      ok: false,
+      error: 'No task is available to this condition',
+    });
+  });
+
+  it('lists the criteria a condition reads', () => {
+    expect(
+      getConditionReferences(
+        "completed('design') or (completed('budget') and completed('design'))"
+      )
+    ).toEqual(['design', 'budget']);
+    expect(getConditionReferences('completed(')).toEqual([]);
+  });
+});
@@ -2,10 +2,15 @@ import type { Criterion, DorDodTemplate, TemplateApplyOptions } from '../DorDodP
 import {
   calculateProgressMetrics,
   validateCriteria,
+  explainCriterion,
+  findDependencyCycles,
   createCriterion,
   generateCriterionId,
   sortCriteria,
   applyTemplate,
+  countDuplicateTemplateCriteria,
+  getTemplateMergeStrategy,
+  toTemplateCriteria,
   exportCriteria,
   getCategoryProgress,
   getProgressColor,
@@ -172,6 +177,107 @@ describe('DorDodPanel.utils', () => {
       expect(result.errors).toHaveLength(0);
       expect(result.blockingCriteria).toHaveLength(0);
     });
+
+
+    describe('conditional rules', () => {
+      const conditional = (condition: string, isCompleted = false): Criterion => ({
+        ...mockCriteria[1],
+        id: 'cond',
+        isCompleted,
+        validationRule: { type: 'conditional', message: 'Needs a risk review', condition },
+      });
+
+      it('requires the criterion only while its condition holds', () => {
+        const context = { goal: { priority: 'critical' } };
+
+        const applies = validateCriteria([conditional("goal.priority == 'critical'")], context);
+        expect(applies.errors).toEqual([
+          { criterionId: 'cond', message: 'Needs a risk review', type: 'conditional' },
+        ]);
+
+        const skipped = validateCriteria([conditional("goal.priority == 'low'")], context);
+        expect(skipped.isValid).toBe(true);
+        expect(skipped.inactiveCriteria).toEqual(['cond']);
+      });
+
+      it('blocks on conditions that do not parse or cannot be evaluated', () => {
+        const result = validateCriteria([
+          conditional('goal.priority =='),
+          { ...conditional('goal.priority == 1'), id: 'no-goal' },
+        ]);
+
+        expect(result.blockingCriteria).toEqual(['cond', 'no-goal']);
+        expect(result.errors[0].message).toMatch(/^Invalid condition: Unexpected end of condition/);
+        expect(result.errors[1].message).toBe('Invalid condition: No goal is available to this condition');
+      });
+    });
+
+    it('reports dependency cycles, including those through conditions', () => {
+      const criteria: Criterion[] = [
+        {
+          ...mockCriteria[0],
+          id: 'a',
+          description: 'A',
+          validationRule: { type: 'dependency', message: 'Needs B', dependsOn: ['b'] },
+        },
+        {
+          ...mockCriteria[0],
+          id: 'b',
+          description: 'B',
+          validationRule: { type: 'conditional', message: 'Needs A', condition: "completed('a')" },
+        },
+        {
+          ...mockCriteria[0],
+          id: 'c',
+          description: 'C',
+          validationRule: { type: 'dependency', message: 'Needs A', dependsOn: ['a', 'missing'] },
+        },
+      ];
+
+      expect(findDependencyCycles(criteria)).toEqual([['a', 'b', 'a']]);
+
+      const result = validateCriteria(criteria);
+      expect(result.blockingCriteria).toEqual(['a', 'b']);
+      expect(result.errors[0].message).toBe('Circular dependency: "A" \u2192 "B" \u2192 "A"');
+    });
+  });
+
+  describe('explainCriterion', () => {
+    const base: Criterion = { ...mockCriteria[1], validationRule: undefined };
+
+    it('explains criteria waiting for their dependencies', () => {
+      const dependent: Criterion = {
+        ...base,
+        id: 'dependent',
+        validationRule: { type: 'dependency', message: 'Needs test-2', dependsOn: ['test-2'] },
+      };
+
+      expect(explainCriterion(dependent, [base, dependent])).toEqual({
+        criterionId: 'dependent',
+        status: 'disabled',
+        reasons: ['Waiting for "Required criterion 2"'],
+      });
+      expect(explainCriterion({ ...dependent, isCompleted: true }, [base, dependent]).status).toBe('failing');
+    });
+
+    it('explains whether a condition holds', () => {
+      const conditional: Criterion = {
+        ...base,
+        validationRule: { type: 'conditional', message: 'Estimate first', condition: 'task.estimatedHours > 8' },
+      };
+
+      expect(explainCriterion(conditional, [conditional], { task: { estimatedHours: 4 } })).toEqual({
+        criterionId: 'test-2',
+        status: 'disabled',
+        reasons: ['Does not apply: the condition `task.estimatedHours > 8` is false'],
+      });
+      expect(explainCriterion(conditional, [conditional], { task: { estimatedHours: 12 } })).toEqual({
+        criterionId: 'test-2',
+        status: 'failing',
+        reasons: ['Estimate first (the condition `task.estimatedHours > 8` is true)'],
+      });
+      expect(explainCriterion({ ...conditional, isCompleted: true }, [conditional], { task: { estimatedHours: 12 } }).status).toBe('active');
+    });
   });
 
   describe('createCriterion', () => {
@@ -360,6 +466,73 @@ describe('DorDodPanel.utils', () => {
       expect(result.dorCriteria).toHaveLength(1); // Only required items
       expect(result.dorCriteria[0].category).toBe('required');
     });
+
+    it('skips template criteria that already exist with the dedupe strategy', () => {
+      const existing = { ...mockCriteria[0], description: '  template   dor 1 ' };
+
+      const result = applyTemplate(mockTemplate, [existing], [], { strategy: 'dedupe' });
+
+      expect(result.dorCriteria.map(c => c.description)).toEqual(['  template   dor 1 ', 'Template DOR 2']);
+      expect(result.dodCriteria).toHaveLength(1);
+      expect(countDuplicateTemplateCriteria(mockTemplate, [existing], [])).toBe(1);
+    });
+
+    it('prefers the strategy over the older flags', () => {
+      const result = applyTemplate(mockTemplate, [mockCriteria[0]], [], {
+        strategy: 'append',
+        replaceExisting: true,
+      });
+
+      expect(result.dorCriteria).toHaveLength(3);
+      expect(getTemplateMergeStrategy({ replaceExisting: true })).toBe('replace');
+      expect(getTemplateMergeStrategy({ mergeWithExisting: true })).toBe('append');
+    });
+
+    it('keeps existing criteria outside the category filter', () => {
+      const recommended = { ...mockCriteria[0], category: 'recommended' as const };
+
+      const result = applyTemplate(mockTemplate, [recommended], [], {
+        strategy: 'append',
+        categoryFilter: ['required'],
+      });
+
+      expect(result.dorCriteria.map(c => c.description)).toEqual([
+        recommended.description,
+        'Template DOR 1',
+      ]);
+    });
+  });
+
+  describe('toTemplateCriteria', () => {
+    it('drops progress and dependencies but keeps conditions', () => {
+      const criteria: Criterion[] = [
+        {
+          ...mockCriteria[0],
+          order: 5,
+          isCompleted: true,
+          validationRule: { type: 'dependency', message: 'After design', dependsOn: ['x'] },
+        },
+        {
+          ...mockCriteria[1],
+          order: 2,
+          validationRule: { type: 'conditional', message: 'Big goals', condition: 'goal.priority == "high"' },
+        },
+      ];
+
+      expect(toTemplateCriteria(criteria)).toEqual([
+        {
+          description: mockCriteria[1].description,
+          category: mockCriteria[1].category,
+          order: 1,
+          validationRule: { type: 'conditional', message: 'Big goals', condition: 'goal.priority == "high"' },
+        },
+        {
+          description: mockCriteria[0].description,
+          category: mockCriteria[0].category,
+          order: 2,
+        },
+      ]);
+    });
   });
 
   describe('exportCriteria', () => {
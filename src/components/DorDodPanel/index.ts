@@ -2,6 +2,8 @@
 export { DorDodPanel } from './DorDodPanel';
 export { CriteriaList } from './CriteriaList';
 export { CriteriaEditor } from './CriteriaEditor';
+export { TemplateLibrary } from './TemplateLibrary';
+export { SaveTemplateDialog, TemplateMergeDialog } from './TemplateDialogs';
 
 // Type exports
 export type {
@@ -19,6 +21,8 @@ export type {
   DorDodTemplate,
   TemplateCategory,
   TemplateApplyOptions,
+  TemplateMergeStrategy,
+  TemplateLibraryChanges,
 
   // Progress and validation types
   ProgressMetrics,
@@ -41,6 +45,7 @@ export type {
   // Component prop types
   CriteriaListProps,
   CriteriaEditorProps,
+  TemplateLibraryProps,
 
   // Export/import types
   ExportOptions,
@@ -65,6 +70,9 @@ export {
 
   // Template operations
   applyTemplate,
+  getTemplateMergeStrategy,
+  countDuplicateTemplateCriteria,
+  toTemplateCriteria,
 
   // Export functionality
   exportCriteria,
@@ -20,6 +20,7 @@ import {
 import React, { useEffect, useCallback, lazy, Suspense } from 'react';
 
 import { SmartScoreBadge } from '@/components/SmartScoreBadge/SmartScoreBadge';
+import { ScoreConfig } from '@/components/SmartScoreBadge/SmartScoreBadge.types';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,9 +31,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { GOAL_FIELD_LABELS } from '@/lib/api/shared/goals';
 import { cn } from '@/lib/utils';
 import { GoalCategory, MetricType, Frequency } from '@/types/smart-goals.types';
 
@@ -40,6 +43,7 @@ import {
   GoalWizardProps,
   WizardStep,
   NavigationConfig,
+  WizardFormData,
 } from './GoalWizard.types';
 import { DEFAULT_STEPS } from './GoalWizard.utils';
 import { WizardContextProvider, useWizardContext } from './WizardContext';
@@ -51,64 +55,9 @@ const SpecificStep = lazy(() => import('./steps/SpecificStep'));
 const MeasurableStep = lazy(() => import('./steps/MeasurableStep'));
 const AchievableStep = lazy(() => import('./steps/AchievableStep'));
 
-// Placeholder components for remaining steps
-const RelevantStep = lazy(() =>
-  Promise.resolve({
-    default: () => (
-      <div className="space-y-4">
-        <h2 className="text-2xl font-bold">Make it Relevant</h2>
-        <p className="text-muted-foreground">
-          This step is under construction. Define strategic alignment and
-          business value.
-        </p>
-        <div className="bg-muted/50 rounded-lg p-8 text-center">
-          <div className="text-lg font-medium">Coming Soon</div>
-          <div className="text-muted-foreground mt-2 text-sm">
-            Relevant step component will be implemented next
-          </div>
-        </div>
-      </div>
-    ),
-  })
-);
-
-const TimeboundStep = lazy(() =>
-  Promise.resolve({
-    default: () => (
-      <div className="space-y-4">
-        <h2 className="text-2xl font-bold">Make it Time-bound</h2>
-        <p className="text-muted-foreground">
-          This step is under construction. Set deadlines and create timeline.
-        </p>
-        <div className="bg-muted/50 rounded-lg p-8 text-center">
-          <div className="text-lg font-medium">Coming Soon</div>
-          <div className="text-muted-foreground mt-2 text-sm">
-            Time-bound step component will be implemented next
-          </div>
-        </div>
-      </div>
-    ),
-  })
-);
-
-const PreviewStep = lazy(() =>
-  Promise.resolve({
-    default: () => (
-      <div className="space-y-4">
-        <h2 className="text-2xl font-bold">Preview & Finalize</h2>
-        <p className="text-muted-foreground">
-          Review your complete SMART goal before saving.
-        </p>
-        <div className="bg-muted/50 rounded-lg p-8 text-center">
-          <div className="text-lg font-medium">Coming Soon</div>
-          <div className="text-muted-foreground mt-2 text-sm">
-            Preview step component will be implemented next
-          </div>
-        </div>
-      </div>
-    ),
-  })
-);
+const RelevantStep = lazy(() => import('./steps/RelevantStep'));
+const TimeboundStep = lazy(() => import('./steps/TimeboundStep'));
+const PreviewStep = lazy(() => import('./steps/PreviewStep'));
 
 // =============================================================================
 // Step Loading Component
@@ -188,97 +137,101 @@ const NavigationControls: React.FC<NavigationControlsProps> = ({
   );
 };
 
+// =============================================================================
+// Step Defaults
+// =============================================================================
+
+/** Data shown for a step the user has not filled in yet */
+const getDefaultStepData = (step: WizardStep): any => {
+  switch (step) {
+    case WizardStep.CONTEXT:
+      return {
+        currentSituation: '',
+        problemStatement: '',
+        initialGoalDescription: '',
+        stakeholdersInvolved: [],
+        category: GoalCategory.PERSONAL,
+      };
+    case WizardStep.SPECIFIC:
+      return {
+        title: '',
+        description: '',
+        specificObjective: '',
+        successCriteria: [],
+        tags: [],
+      };
+    case WizardStep.MEASURABLE:
+      return {
+        measurable: {
+          metricType: MetricType.BOOLEAN,
+          targetValue: 1,
+          currentValue: 0,
+          unit: '',
+          higherIsBetter: true,
+          measurementFrequency: Frequency.DAILY,
+        },
+        successDefinitions: [],
+      };
+    case WizardStep.ACHIEVABLE:
+      return {
+        requiredResources: [],
+        requiredSkills: [],
+        constraints: [],
+        riskAssessment: '',
+        mitigationStrategies: [],
+      };
+    case WizardStep.RELEVANT:
+      return {
+        rationale: '',
+        strategyAlignments: [],
+        stakeholders: [],
+        expectedBenefits: [],
+        risksOfNotAchieving: [],
+      };
+    case WizardStep.TIMEBOUND:
+      return {
+        startDate: new Date(),
+        targetDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        isRecurring: false,
+        milestones: [],
+      };
+    default:
+      return {};
+  }
+};
+
 // =============================================================================
 // Step Content Renderer
 // =============================================================================
 
-const StepContentRenderer: React.FC = () => {
-  const { state, dataManagement } = useWizardContext();
+const StepContentRenderer: React.FC<{ scoreConfig?: ScoreConfig }> = ({
+  scoreConfig,
+}) => {
+  const { state, dataManagement, export: exportFunctions } = useWizardContext();
   const { currentStep, validationResults } = state;
 
   const stepData = dataManagement.getStepData(currentStep);
   const validation = validationResults[currentStep];
+  const stepDataWithDefaults = stepData ?? getDefaultStepData(currentStep);
 
   const handleStepChange = useCallback(
     (data: any) => {
-      dataManagement.updateStepData(currentStep, data);
+      // Store the defaults with the first change so untouched fields persist
+      dataManagement.updateStepData(
+        currentStep,
+        stepData ? data : { ...getDefaultStepData(currentStep), ...data }
+      );
     },
-    [currentStep, dataManagement]
+    [currentStep, dataManagement, stepData]
   );
 
   const renderStep = () => {
-    // Ensure stepData has required properties for each step
-    const getStepDataWithDefaults = (): any => {
-      if (stepData) return stepData;
-
-      // Return appropriate defaults based on current step
-      switch (currentStep) {
-        case WizardStep.CONTEXT:
-          return {
-            currentSituation: '',
-            problemStatement: '',
-            initialGoalDescription: '',
-            stakeholdersInvolved: [],
-            category: GoalCategory.PERSONAL,
-          };
-        case WizardStep.SPECIFIC:
-          return {
-            title: '',
-            description: '',
-            specificObjective: '',
-            successCriteria: [],
-            tags: [],
-          };
-        case WizardStep.MEASURABLE:
-          return {
-            measurable: {
-              metricType: MetricType.BOOLEAN,
-              targetValue: 1,
-              currentValue: 0,
-              unit: '',
-              higherIsBetter: true,
-              measurementFrequency: Frequency.DAILY,
-            },
-            successDefinitions: [],
-          };
-        case WizardStep.ACHIEVABLE:
-          return {
-            feasibilityCheck: '',
-            requiredResources: [],
-            potentialObstacles: [],
-            riskAssessment: '',
-            skillRequirements: [],
-            successProbability: 50,
-          };
-        case WizardStep.RELEVANT:
-          return {
-            alignment: '',
-            importance: '',
-            stakeholderBuyIn: [],
-            strategicValue: '',
-            personalMotivation: '',
-          };
-        case WizardStep.TIMEBOUND:
-          return {
-            startDate: new Date(),
-            targetDate: new Date(),
-            milestones: [],
-            urgency: '',
-            deadlineReason: '',
-          };
-        case WizardStep.PREVIEW:
-          return {};
-        default:
-          return {};
-      }
-    };
-
     switch (currentStep) {
       case WizardStep.CONTEXT:
         return (
           <Suspense fallback={<StepLoadingFallback />}>
             <ContextStep
-              data={getStepDataWithDefaults()}
+              data={stepDataWithDefaults}
               onChange={handleStepChange}
               errors={validation?.errors || {}}
               warnings={validation?.warnings}
@@ -296,7 +249,7 @@ const StepContentRenderer: React.FC = () => {
         return (
           <Suspense fallback={<StepLoadingFallback />}>
             <SpecificStep
-              data={getStepDataWithDefaults()}
+              data={stepDataWithDefaults}
               onChange={handleStepChange}
               errors={validation?.errors || {}}
               warnings={validation?.warnings}
@@ -314,7 +267,7 @@ const StepContentRenderer: React.FC = () => {
         return (
           <Suspense fallback={<StepLoadingFallback />}>
             <MeasurableStep
-              data={getStepDataWithDefaults()}
+              data={stepDataWithDefaults}
               onChange={handleStepChange}
               errors={validation?.errors || {}}
               warnings={validation?.warnings}
@@ -333,7 +286,7 @@ const StepContentRenderer: React.FC = () => {
         return (
           <Suspense fallback={<StepLoadingFallback />}>
             <AchievableStep
-              data={getStepDataWithDefaults()}
+              data={stepDataWithDefaults}
               onChange={handleStepChange}
               errors={validation?.errors || {}}
               warnings={validation?.warnings}
@@ -350,21 +303,62 @@ const StepContentRenderer: React.FC = () => {
       case WizardStep.RELEVANT:
         return (
           <Suspense fallback={<StepLoadingFallback />}>
-            <RelevantStep />
+            <RelevantStep
+              data={stepDataWithDefaults}
+              onChange={handleStepChange}
+              errors={validation?.errors || {}}
+              warnings={validation?.warnings}
+              suggestions={validation?.suggestions}
+              readOnly={false}
+              config={
+                DEFAULT_STEPS.find(s => s.step === currentStep) ||
+                DEFAULT_STEPS[0]
+              }
+            />
           </Suspense>
         );
 
       case WizardStep.TIMEBOUND:
         return (
           <Suspense fallback={<StepLoadingFallback />}>
-            <TimeboundStep />
+            <TimeboundStep
+              data={stepDataWithDefaults}
+              onChange={handleStepChange}
+              errors={validation?.errors || {}}
+              warnings={validation?.warnings}
+              suggestions={validation?.suggestions}
+              readOnly={false}
+              config={
+                DEFAULT_STEPS.find(s => s.step === currentStep) ||
+                DEFAULT_STEPS[0]
+              }
+            />
           </Suspense>
         );
 
       case WizardStep.PREVIEW:
         return (
           <Suspense fallback={<StepLoadingFallback />}>
-            <PreviewStep />
+            <PreviewStep
+              data={stepDataWithDefaults}
+              onChange={handleStepChange}
+              errors={validation?.errors || {}}
+              warnings={validation?.warnings}
+              suggestions={validation?.suggestions}
+              readOnly={false}
+              config={
+                DEFAULT_STEPS.find(s => s.step === currentStep) ||
+                DEFAULT_STEPS[0]
+              }
+              formData={state.formData as WizardFormData}
+              smartScore={state.smartScore}
+              scoreConfig={scoreConfig}
+              changedFields={
+                state.originalGoal
+                  ? exportFunctions.getChangedFields()
+                  : undefined
+              }
+            />
           </Suspense>
         );
 
@@ -390,11 +384,13 @@ const StepContentRenderer: React.FC = () => {
 
 const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
   onSave,
+  onUpdate,
   onCancel,
   onSaveDraft,
   onStepChange,
   className,
   showProgress = true,
+  scoreConfig,
 }) => {
   const {
     state,
@@ -405,6 +401,9 @@ const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
   const [showCancelDialog, setShowCancelDialog] = React.useState(false);
   const [isDraftSaving, setIsDraftSaving] = React.useState(false);
 
+  const isEditing = Boolean(state.originalGoal);
+  const changedFields = isEditing ? exportFunctions.getChangedFields() : [];
+
   // Handle step changes
   useEffect(() => {
     onStepChange?.(state.currentStep);
@@ -438,7 +437,8 @@ const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
   }, [navigation]);
 
   const handleSaveDraft = useCallback(async () => {
-    if (isDraftSaving) return;
+    // Edits are saved to the goal itself, not as drafts
+    if (isDraftSaving || isEditing) return;
 
     setIsDraftSaving(true);
     try {
@@ -451,17 +451,23 @@ const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
     } finally {
       setIsDraftSaving(false);
     }
-  }, [isDraftSaving, draftManagement, onSaveDraft, state.formData]);
+  }, [isDraftSaving, isEditing, draftManagement, onSaveDraft, state.formData]);
 
   const handleFinish = useCallback(async () => {
     try {
+      const goalId = state.originalGoal?.id;
+      if (goalId && onUpdate) {
+        await onUpdate(goalId, exportFunctions.generateUpdate());
+        return;
+      }
+
       const goal = exportFunctions.generatePreview();
       onSave(goal);
     } catch (error) {
       console.error('Failed to generate goal:', error);
       // You could show an error toast here
     }
-  }, [exportFunctions, onSave]);
+  }, [exportFunctions, onSave, onUpdate, state.originalGoal]);
 
   const handleCancel = useCallback(() => {
     if (state.hasUnsavedChanges) {
@@ -483,11 +489,13 @@ const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
 
     return {
       showPrevious: navigation.canGoPrevious(),
-      showNext: !isLastStep,
-      showSaveDraft: true,
+      showNext: !isLastStep || isEditing,
+      showSaveDraft: !isEditing,
       showCancel: true,
-      nextText: isLastStep ? 'Finish' : 'Next',
-      nextDisabled: !currentValidation?.isValid,
+      nextText: isLastStep ? (isEditing ? 'Save Changes' : 'Finish') : 'Next',
+      nextDisabled:
+        !currentValidation?.isValid ||
+        (isLastStep && isEditing && changedFields.length === 0),
       previousDisabled: false,
     };
   };
@@ -502,18 +510,34 @@ const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-3xl font-bold tracking-tight">
-                Create SMART Goal
+                {isEditing ? 'Edit SMART Goal' : 'Create SMART Goal'}
               </h1>
               <p className="text-muted-foreground">
-                Follow the guided process to create a comprehensive, achievable
-                goal
+                {isEditing
+                  ? 'Review each step and save only the fields you change'
+                  : 'Follow the guided process to create a comprehensive, achievable goal'}
               </p>
+              {isEditing && (
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <Badge variant={changedFields.length ? 'default' : 'outline'}>
+                    {changedFields.length === 1
+                      ? '1 field changed'
+                      : `${changedFields.length} fields changed`}
+                  </Badge>
+                  {changedFields.map(field => (
+                    <Badge key={field} variant="secondary">
+                      {GOAL_FIELD_LABELS[field]}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
             {state.smartScore && (
               <SmartScoreBadge
                 goal={exportFunctions.generatePreview()}
                 size="lg"
                 showTooltip
+                scoreConfig={scoreConfig}
               />
             )}
           </div>
@@ -535,7 +559,7 @@ const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
         {/* Main Content */}
         <Card>
           <CardContent className="p-6">
-            <StepContentRenderer />
+            <StepContentRenderer scoreConfig={scoreConfig} />
 
             <NavigationControls
               config={navigationConfig}
@@ -571,29 +595,34 @@ const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
       <AlertDialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Cancel Goal Creation?</AlertDialogTitle>
+            <AlertDialogTitle>
+              {isEditing ? 'Discard Goal Changes?' : 'Cancel Goal Creation?'}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              You have unsaved changes. Are you sure you want to cancel? Your
-              progress will be lost unless you save it as a draft first.
+              {isEditing
+                ? 'You have unsaved changes. Are you sure you want to cancel? The goal will keep its saved values.'
+                : 'You have unsaved changes. Are you sure you want to cancel? Your progress will be lost unless you save it as a draft first.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Continue Editing</AlertDialogCancel>
-            <Button
-              variant="outline"
-              onClick={() => {
-                handleSaveDraft();
-                setShowCancelDialog(false);
-              }}
-              disabled={isDraftSaving}
-            >
-              {isDraftSaving ? (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              ) : (
-                <Save className="mr-2 h-4 w-4" />
-              )}
-              Save Draft & Exit
-            </Button>
+            {!isEditing && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  handleSaveDraft();
+                  setShowCancelDialog(false);
+                }}
+                disabled={isDraftSaving}
+              >
+                {isDraftSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save Draft & Exit
+              </Button>
+            )}
             <AlertDialogAction
               onClick={handleConfirmCancel}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
@@ -612,7 +641,7 @@ const WizardContent: React.FC<Omit<GoalWizardProps, 'initialGoal'>> = ({
 // =============================================================================
 
 export const GoalWizard: React.FC<GoalWizardProps> = ({
-  initialGoal: _initialGoal,
+  initialGoal,
   autoSaveEnabled: _autoSaveEnabled = true,
   autoSaveInterval = 30000,
   ...props
@@ -621,6 +650,8 @@ export const GoalWizard: React.FC<GoalWizardProps> = ({
     <WizardContextProvider
       autoSaveInterval={autoSaveInterval}
       onAutoSave={props.onSaveDraft}
+      initialGoal={initialGoal}
+      scoreConfig={props.scoreConfig}
     >
       <WizardContent {...props} />
     </WizardContextProvider>
@@ -5,10 +5,12 @@
  * component for creating SMART goals with validation, draft saving, and navigation.
  */
 
-import { SmartScoreResult } from '@/components/SmartScoreBadge/SmartScoreBadge.types';
+import { ScoreConfig, SmartScoreResult } from '@/components/SmartScoreBadge/SmartScoreBadge.types';
+import type { EditableGoalField } from '@/lib/api/shared/goals';
 import {
   SmartGoal,
   SmartGoalCreate,
+  SmartGoalUpdate,
   GoalCategory,
   GoalPriority,
   MeasurableSpec,
@@ -164,6 +166,8 @@ export interface TimeboundStepData {
   recurrencePattern?: string;
   /** Key milestones */
   milestones: Array<{
+    /** ID of the saved milestone this row edits; new rows have none */
+    id?: string;
     title: string;
     date: Date;
     description?: string;
@@ -258,6 +262,8 @@ export interface WizardState {
   smartScore?: SmartScoreResult;
   /** Template data if used */
   templateData?: Partial<WizardFormData>;
+  /** Goal being edited, absent when creating */
+  originalGoal?: Partial<SmartGoal>;
 }
 
 /** Wizard action types */
@@ -292,6 +298,8 @@ export interface GoalWizardProps {
   initialGoal?: Partial<SmartGoal>;
   /** Callback when goal is saved */
   onSave: (goal: SmartGoalCreate) => void;
+  /** Callback with the changed fields when an existing goal is saved */
+  onUpdate?: (goalId: string, updates: Partial<SmartGoalUpdate>) => void | Promise<void>;
   /** Callback when cancelled */
   onCancel: () => void;
   /** Callback for draft saving */
@@ -308,6 +316,8 @@ export interface GoalWizardProps {
   showProgress?: boolean;
   /** Available templates */
   templates?: GoalTemplate[];
+  /** SMART scoring rules and weights, e.g. the organization's rule set */
+  scoreConfig?: ScoreConfig;
 }
 
 /** WizardStepper component props */
@@ -394,8 +404,12 @@ export interface PreviewStepProps extends BaseStepProps {
   formData: WizardFormData;
   /** SMART score result */
   smartScore?: SmartScoreResult;
+  /** Scoring rules used when no score is passed in */
+  scoreConfig?: ScoreConfig;
   /** Export callback */
   onExport?: (format: 'pdf' | 'json' | 'markdown') => void;
+  /** Fields changed since the goal was opened, only set when editing */
+  changedFields?: EditableGoalField[];
 }
 
 // =============================================================================
@@ -599,5 +613,7 @@ export interface WizardContextValue {
   export: {
     exportGoal: (options: ExportOptions) => Promise<ExportResult>;
     generatePreview: () => SmartGoalCreate;
+    generateUpdate: () => Partial<SmartGoalUpdate>;
+    getChangedFields: () => EditableGoalField[];
   };
 }
\ No newline at end of file
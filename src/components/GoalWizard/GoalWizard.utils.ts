@@ -6,7 +6,16 @@
  */
 
 import {
+  buildGoalUpdate,
+  isSameGoalValue,
+  type EditableGoalField,
+} from '@/lib/api/shared/goals';
+import { createEntityId } from '@/lib/api/shared/tasks';
+import {
+  SmartGoal,
   SmartGoalCreate,
+  SmartGoalUpdate,
+  Milestone,
   GoalCategory,
   GoalPriority,
   GoalStatus,
@@ -542,7 +551,7 @@ export function transformToSmartGoal(formData: WizardFormData): SmartGoalCreate
     // Execution and tracking
     tasks: [],
     milestones: formData.timebound.milestones.map((milestone, index) => ({
-      id: `milestone-${index}`,
+      id: milestone.id ?? `milestone-${index}`,
       title: milestone.title,
       description: milestone.description,
       targetDate: milestone.date,
@@ -570,6 +579,191 @@ export function transformToSmartGoal(formData: WizardFormData): SmartGoalCreate
   };
 }
 
+/**
+ * Convert an existing goal back into wizard form data, the inverse of
+ * transformToSmartGoal. The context step is not stored on goals, so it is
+ * rebuilt from the closest fields: the description and the rationale.
+ */
+export function transformFromSmartGoal(goal: Partial<SmartGoal>): WizardFormData {
+  const empty = createEmptyFormData() as WizardFormData;
+  const relevance = goal.relevance;
+  const timebound = goal.timebound;
+  const milestones = [...(goal.milestones ?? [])].sort((a, b) => a.order - b.order);
+
+  return {
+    context: {
+      ...empty.context,
+      currentSituation: goal.description ?? '',
+      problemStatement: relevance?.rationale ?? '',
+      initialGoalDescription: goal.specificObjective ?? '',
+      stakeholdersInvolved: relevance?.stakeholders.map(stakeholder => stakeholder.name) ?? [],
+      category: goal.category ?? empty.context.category,
+    },
+    specific: {
+      title: goal.title ?? '',
+      description: goal.description ?? '',
+      specificObjective: goal.specificObjective ?? '',
+      successCriteria: goal.successCriteria ?? [],
+      tags: goal.tags ?? [],
+    },
+    measurable: {
+      ...empty.measurable,
+      measurable: goal.measurable ?? empty.measurable.measurable,
+    },
+    achievable: goal.achievability
+      ? {
+          requiredResources: goal.achievability.requiredResources,
+          requiredSkills: goal.achievability.requiredSkills,
+          constraints: goal.achievability.constraints,
+          riskAssessment: goal.achievability.riskAssessment,
+          mitigationStrategies: goal.achievability.constraints
+            .map(constraint => constraint.mitigationStrategy)
+            .filter((strategy): strategy is string => Boolean(strategy)),
+        }
+      : empty.achievable,
+    relevant: relevance
+      ? {
+          rationale: relevance.rationale,
+          strategyAlignments: relevance.strategyAlignments,
+          stakeholders: relevance.stakeholders,
+          expectedBenefits: relevance.expectedBenefits,
+          risksOfNotAchieving: relevance.risksOfNotAchieving,
+        }
+      : empty.relevant,
+    timebound: timebound
+      ? {
+          startDate: new Date(timebound.startDate),
+          targetDate: new Date(timebound.targetDate),
+          deadline: timebound.deadline ? new Date(timebound.deadline) : undefined,
+          bufferDays: timebound.bufferDays,
+          isRecurring: timebound.isRecurring,
+          recurrencePattern: timebound.recurrencePattern,
+          milestones: milestones.map(milestone => ({
+            id: milestone.id,
+            title: milestone.title,
+            date: new Date(milestone.targetDate),
+            description: milestone.description,
+          })),
+          dependencies: timebound.dependencies,
+        }
+      : empty.timebound,
+    priority: goal.priority ?? empty.priority,
+    visibility: goal.visibility ?? empty.visibility,
+  };
+}
+
+/**
+ * Build the update for an edited goal. Fields the wizard does not edit, such
+ * as achievability scores and existing milestone progress, are kept from the
+ * original, and only the fields that changed are returned.
+ */
+export function transformToSmartGoalUpdate(
+  formData: WizardFormData,
+  original: Partial<SmartGoal>
+): Partial<SmartGoalUpdate> {
+  const edited = transformToSmartGoal(formData);
+  const rows = formData.timebound.milestones;
+  const existingMilestones = original.milestones ?? [];
+  const unmatched = [...existingMilestones];
+  const matches = new Map<number, Milestone>();
+
+  // Rows loaded from the goal carry its milestone ids
+  rows.forEach((row, position) => {
+    const index = unmatched.findIndex(existing => existing.id === row.id);
+    if (row.id && index !== -1) matches.set(position, unmatched.splice(index, 1)[0]);
+  });
+
+  // Rows without an id match by title and date first, so milestones sharing
+  // a title keep their own ids
+  const claim = (matchDate: boolean) =>
+    edited.milestones.forEach((milestone, position) => {
+      if (matches.has(position) || rows[position].id) return;
+      const index = unmatched.findIndex(
+        existing =>
+          existing.title === milestone.title &&
+          (!matchDate || isSameGoalValue(existing.targetDate, milestone.targetDate))
+      );
+      if (index !== -1) matches.set(position, unmatched.splice(index, 1)[0]);
+    });
+  claim(true);
+  claim(false);
+
+  const kept = new Map<string, Milestone>();
+  const added: Milestone[] = [];
+  let nextOrder = Math.max(-1, ...existingMilestones.map(milestone => milestone.order)) + 1;
+
+  // Milestones keep their ids, progress and order; removed ones are dropped
+  edited.milestones.forEach((milestone, position) => {
+    const existing = matches.get(position);
+    if (!existing) {
+      added.push({
+        ...milestone,
+        id: createEntityId('milestone'),
+        goalId: original.id ?? milestone.goalId,
+        order: nextOrder++,
+      });
+      return;
+    }
+
+    kept.set(existing.id, {
+      ...existing,
+      title: milestone.title,
+      description: milestone.description,
+      targetDate: milestone.targetDate,
+    });
+  });
+
+  const milestones = [
+    ...existingMilestones.flatMap(existing => kept.get(existing.id) ?? []),
+    ...added,
+  ];
+
+  return buildGoalUpdate(original, {
+    ...edited,
+    achievability: original.achievability
+      ? {
+          ...original.achievability,
+          requiredResources: edited.achievability.requiredResources,
+          requiredSkills: edited.achievability.requiredSkills,
+          constraints: edited.achievability.constraints,
+          riskAssessment: edited.achievability.riskAssessment,
+        }
+      : edited.achievability,
+    relevance: original.relevance
+      ? {
+          ...original.relevance,
+          rationale: edited.relevance.rationale,
+          strategyAlignments: edited.relevance.strategyAlignments,
+          stakeholders: edited.relevance.stakeholders,
+          expectedBenefits: edited.relevance.expectedBenefits,
+          risksOfNotAchieving: edited.relevance.risksOfNotAchieving,
+        }
+      : edited.relevance,
+    timebound: {
+      ...original.timebound,
+      ...edited.timebound,
+      // Keep a custom duration unless the dates it was based on moved
+      estimatedDuration:
+        original.timebound &&
+        isSameGoalValue(original.timebound.startDate, edited.timebound.startDate) &&
+        isSameGoalValue(original.timebound.targetDate, edited.timebound.targetDate)
+          ? original.timebound.estimatedDuration
+          : edited.timebound.estimatedDuration,
+    },
+    milestones,
+  });
+}
+
+/**
+ * The goal fields an edit would change, for showing what is about to be saved
+ */
+export function getChangedGoalFieldsFromForm(
+  formData: WizardFormData,
+  original: Partial<SmartGoal>
+): EditableGoalField[] {
+  return Object.keys(transformToSmartGoalUpdate(formData, original)) as EditableGoalField[];
+}
+
 // =============================================================================
 // Template Definitions
 // =============================================================================
@@ -841,6 +1035,52 @@ export function createInitialWizardState(): WizardState {
   };
 }
 
+/**
+ * Create wizard state for editing an existing goal. Every step is hydrated
+ * from the goal and validated, and the wizard opens on the first step that
+ * needs attention, or on the Specific step when the goal is complete.
+ */
+export function createEditWizardState(goal: Partial<SmartGoal>): WizardState {
+  const initialState = createInitialWizardState();
+  const formData = transformFromSmartGoal(goal);
+
+  const validators: Partial<Record<WizardStep, (data: any) => ValidationResult>> = {
+    [WizardStep.CONTEXT]: validateContextStep,
+    [WizardStep.SPECIFIC]: validateSpecificStep,
+    [WizardStep.MEASURABLE]: validateMeasurableStep,
+    [WizardStep.ACHIEVABLE]: validateAchievableStep,
+    [WizardStep.RELEVANT]: validateRelevantStep,
+    [WizardStep.TIMEBOUND]: validateTimeboundStep,
+  };
+
+  const stepStatus = { ...initialState.stepStatus };
+  const validationResults = { ...initialState.validationResults };
+
+  STEP_ORDER.forEach(step => {
+    const validate = validators[step];
+    const result = validate
+      ? validate(formData[step as keyof WizardFormData])
+      : { isValid: true, errors: {} };
+    validationResults[step] = result;
+    stepStatus[step] = result.isValid ? StepStatus.COMPLETED : StepStatus.ERROR;
+  });
+
+  const currentStep =
+    STEP_ORDER.find(step => stepStatus[step] === StepStatus.ERROR) ?? WizardStep.SPECIFIC;
+
+  return {
+    ...initialState,
+    currentStep,
+    formData,
+    stepStatus,
+    validationResults,
+    navigationHistory: [currentStep],
+    isDraft: false,
+    autoSaveEnabled: false,
+    originalGoal: goal,
+  };
+}
+
 /**
  * Create empty form data with defaults
  */
@@ -15,8 +15,15 @@ import React, {
   useMemo,
 } from 'react';
 
+import { ScoreConfig } from '@/components/SmartScoreBadge/SmartScoreBadge.types';
 import { calculateSmartScore } from '@/components/SmartScoreBadge/SmartScoreBadge.utils';
-import { SmartGoalCreate } from '@/types/smart-goals.types';
+import { exportGoal } from '@/lib/api/shared/goal-export';
+import type { EditableGoalField } from '@/lib/api/shared/goals';
+import {
+  SmartGoal,
+  SmartGoalCreate,
+  SmartGoalUpdate,
+} from '@/types/smart-goals.types';
 
 import {
   WizardContextValue,
@@ -49,6 +56,7 @@ import {
   validateRelevantStep,
   validateTimeboundStep,
   createInitialWizardState,
+  createEditWizardState,
   createEmptyFormData,
   getDefaultTemplates,
   saveDraftToStorage,
@@ -56,6 +64,8 @@ import {
   deleteDraftFromStorage,
   getDraftMetadataList,
   transformToSmartGoal,
+  transformToSmartGoalUpdate,
+  getChangedGoalFieldsFromForm,
 } from './GoalWizard.utils';
 
 // =============================================================================
@@ -134,6 +144,9 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
       };
 
     case WizardActionType.RESET_WIZARD:
+      if (state.originalGoal) {
+        return createEditWizardState(state.originalGoal);
+      }
       return {
         ...createInitialWizardState(),
         formData: createEmptyFormData(),
@@ -187,6 +200,10 @@ interface WizardContextProviderProps {
   children: React.ReactNode;
   autoSaveInterval?: number; // in milliseconds
   onAutoSave?: (formData: Partial<WizardFormData>) => void;
+  /** Existing goal to edit; the wizard creates a new goal when omitted */
+  initialGoal?: Partial<SmartGoal>;
+  /** Scoring rules and weights for the SMART score */
+  scoreConfig?: ScoreConfig;
 }
 
 /**
@@ -196,10 +213,11 @@ export const WizardContextProvider: React.FC<WizardContextProviderProps> = ({
   children,
   autoSaveInterval = 30000, // 30 seconds
   onAutoSave,
+  initialGoal,
+  scoreConfig,
 }) => {
-  const [state, dispatch] = useReducer(
-    wizardReducer,
-    createInitialWizardState()
+  const [state, dispatch] = useReducer(wizardReducer, initialGoal, goal =>
+    goal ? createEditWizardState(goal) : createInitialWizardState()
   );
 
   // =============================================================================
@@ -238,7 +256,7 @@ export const WizardContextProvider: React.FC<WizardContextProviderProps> = ({
         const smartGoal = transformToSmartGoal(
           state.formData as WizardFormData
         );
-        const scoreResult = calculateSmartScore(smartGoal);
+        const scoreResult = calculateSmartScore(smartGoal, scoreConfig);
         dispatch({
           type: WizardActionType.UPDATE_SMART_SCORE,
           payload: scoreResult,
@@ -247,7 +265,7 @@ export const WizardContextProvider: React.FC<WizardContextProviderProps> = ({
         // Ignore errors during transformation - score will be undefined
       }
     }
-  }, [state.formData]);
+  }, [state.formData, scoreConfig]);
 
   // =============================================================================
   // Navigation Functions
@@ -486,34 +504,16 @@ export const WizardContextProvider: React.FC<WizardContextProviderProps> = ({
     () => ({
       exportGoal: async (options: ExportOptions): Promise<ExportResult> => {
         try {
-          const smartGoal = transformToSmartGoal(
-            state.formData as WizardFormData
+          const file = exportGoal(
+            { goal: transformToSmartGoal(state.formData as WizardFormData) },
+            options
           );
 
-          switch (options.format) {
-            case 'json':
-              const jsonContent = JSON.stringify(smartGoal, null, 2);
-              return {
-                success: true,
-                content: jsonContent,
-                fileSize: new Blob([jsonContent]).size,
-              };
-
-            case 'markdown':
-              const markdownContent = generateMarkdownExport(
-                smartGoal,
-                state.smartScore,
-                options
-              );
-              return {
-                success: true,
-                content: markdownContent,
-                fileSize: new Blob([markdownContent]).size,
-              };
-
-            default:
-              throw new Error(`Unsupported export format: ${options.format}`);
-          }
+          return {
+            success: true,
+            content: file.content,
+            fileSize: new Blob([file.content]).size,
+          };
         } catch (error) {
           return {
             success: false,
@@ -525,8 +525,24 @@ export const WizardContextProvider: React.FC<WizardContextProviderProps> = ({
       generatePreview: (): SmartGoalCreate => {
         return transformToSmartGoal(state.formData as WizardFormData);
       },
+
+      generateUpdate: (): Partial<SmartGoalUpdate> => {
+        if (!state.originalGoal) return {};
+        return transformToSmartGoalUpdate(
+          state.formData as WizardFormData,
+          state.originalGoal
+        );
+      },
+
+      getChangedFields: (): EditableGoalField[] => {
+        if (!state.originalGoal) return [];
+        return getChangedGoalFieldsFromForm(
+          state.formData as WizardFormData,
+          state.originalGoal
+        );
+      },
     }),
-    [state.formData, state.smartScore]
+    [state.formData, state.originalGoal]
   );
 
   // =============================================================================
@@ -567,92 +583,4 @@ export const useWizardContext = (): WizardContextValue => {
   return context;
 };
 
-// =============================================================================
-// Helper Functions
-// =============================================================================
-
-/**
- * Generate markdown export content
- */
-function generateMarkdownExport(
-  goal: SmartGoalCreate,
-  smartScore?: any,
-  options: ExportOptions = { format: 'markdown' }
-): string {
-  const sections: string[] = [];
-
-  // Header
-  sections.push(`# ${goal.title}\n`);
-  sections.push(`**Category:** ${goal.category}`);
-  sections.push(`**Priority:** ${goal.priority}`);
-  sections.push(`**Status:** ${goal.status}\n`);
-
-  // Description
-  sections.push(`## Description\n${goal.description}\n`);
-
-  // SMART Criteria
-  sections.push(`## SMART Criteria\n`);
-
-  // Specific
-  sections.push(`### Specific\n**Objective:** ${goal.specificObjective}\n`);
-  if (goal.successCriteria.length > 0) {
-    sections.push(`**Success Criteria:**`);
-    goal.successCriteria.forEach(criteria => {
-      sections.push(`- ${criteria}`);
-    });
-    sections.push('');
-  }
-
-  // Measurable
-  sections.push(`### Measurable`);
-  sections.push(
-    `**Target:** ${goal.measurable.targetValue} ${goal.measurable.unit}`
-  );
-  sections.push(
-    `**Current:** ${goal.measurable.currentValue} ${goal.measurable.unit}`
-  );
-  sections.push(
-    `**Measurement Frequency:** ${goal.measurable.measurementFrequency}\n`
-  );
-
-  // Achievable
-  if (goal.achievability.requiredResources.length > 0) {
-    sections.push(`### Achievable`);
-    sections.push(`**Required Resources:**`);
-    goal.achievability.requiredResources.forEach(resource => {
-      sections.push(
-        `- ${resource.name}: ${resource.quantity} ${resource.unit}`
-      );
-    });
-    sections.push('');
-  }
-
-  // Relevant
-  sections.push(`### Relevant\n${goal.relevance.rationale}\n`);
-
-  // Time-bound
-  sections.push(`### Time-bound`);
-  sections.push(`**Start Date:** ${goal.timebound.startDate.toDateString()}`);
-  sections.push(`**Target Date:** ${goal.timebound.targetDate.toDateString()}`);
-  if (goal.timebound.deadline) {
-    sections.push(`**Deadline:** ${goal.timebound.deadline.toDateString()}`);
-  }
-  sections.push('');
-
-  // SMART Score
-  if (options.includeScore && smartScore) {
-    sections.push(`## SMART Score: ${smartScore.breakdown.total}/100\n`);
-    sections.push(`**Category:** ${smartScore.category}\n`);
-  }
-
-  // Tags
-  if (goal.tags.length > 0) {
-    sections.push(
-      `## Tags\n${goal.tags.map(tag => `\`${tag}\``).join(', ')}\n`
-    );
-  }
-
-  return sections.join('\n');
-}
-
 export default WizardContextProvider;
@@ -0,0 +1,106 @@
+/**
+ * GoalWizard Utility Tests
+ *
+ * Tests for hydrating the wizard from an existing goal and turning the
+ * edited form back into a partial goal update.
+ */
+
+import { StepStatus, WizardStep } from '../GoalWizard.types';
+import {
+  createEditWizardState,
+  getChangedGoalFieldsFromForm,
+  transformFromSmartGoal,
+  transformToSmartGoalUpdate,
+} from '../GoalWizard.utils';
+
+import { createWizardGoal } from './helpers/goal-fixtures';
+
+const goal = createWizardGoal();
+
+describe('GoalWizard edit mode utilities', () => {
+  test('round-trips an unchanged goal to an empty update', () => {
+    const formData = transformFromSmartGoal(goal);
+
+    expect(formData.specific.title).toBe(goal.title);
+    expect(formData.measurable.measurable).toEqual(goal.measurable);
+    expect(transformToSmartGoalUpdate(formData, goal)).toEqual({});
+  });
+
+  test('returns only the edited fields', () => {
+    const formData = transformFromSmartGoal(goal);
+    formData.specific = { ...formData.specific, title: 'A sharper title' };
+
+    expect(transformToSmartGoalUpdate(formData, goal)).toEqual({
+      title: 'A sharper title',
+    });
+    expect(getChangedGoalFieldsFromForm(formData, goal)).toEqual(['title']);
+  });
+
+  test('keeps existing milestones matched by title', () => {
+    const formData = transformFromSmartGoal(goal);
+    formData.timebound = {
+      ...formData.timebound,
+      milestones: [
+        ...formData.timebound.milestones,
+        { title: 'New checkpoint', date: new Date('2030-01-01') },
+      ],
+    };
+
+    const update = transformToSmartGoalUpdate(formData, goal);
+
+    expect(Object.keys(update)).toEqual(['milestones']);
+    expect(update.milestones?.slice(0, -1)).toEqual(goal.milestones);
+    expect(update.milestones?.at(-1)).toMatchObject({
+      title: 'New checkpoint',
+      goalId: goal.id,
+      order:
+        Math.max(-1, ...goal.milestones.map(milestone => milestone.order)) + 1,
+    });
+  });
+
+  test('keeps the id, tasks and progress of a renamed milestone', () => {
+    const formData = transformFromSmartGoal(goal);
+    formData.timebound = {
+      ...formData.timebound,
+      milestones: formData.timebound.milestones.map(milestone =>
+        milestone.id === 'milestone-1'
+          ? { ...milestone, title: 'Prototype signed off' }
+          : milestone
+      ),
+    };
+
+    const update = transformToSmartGoalUpdate(formData, goal);
+
+    expect(update.milestones).toEqual([
+      { ...goal.milestones[0], title: 'Prototype signed off' },
+      goal.milestones[1],
+    ]);
+    expect(update.milestones?.[0]).toMatchObject({
+      id: 'milestone-1',
+      taskIds: ['task-1', 'task-2'],
+      progress: 100,
+      isCompleted: true,
+    });
+  });
+
+  test('matches milestone rows without an id by title', () => {
+    const formData = transformFromSmartGoal(goal);
+    formData.timebound = {
+      ...formData.timebound,
+      milestones: formData.timebound.milestones.map(
+        ({ title, date, description }) => ({ title, date, description })
+      ),
+    };
+
+    expect(transformToSmartGoalUpdate(formData, goal)).toEqual({});
+  });
+
+  test('creates a validated edit state', () => {
+    const state = createEditWizardState(goal);
+
+    expect(state.originalGoal).toBe(goal);
+    expect(state.isDraft).toBe(false);
+    expect(state.stepStatus[WizardStep.PREVIEW]).toBe(StepStatus.COMPLETED);
+    expect(state.formData.specific?.title).toBe(goal.title);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * PreviewStep Component Tests
+ *
+ * Tests for the Preview wizard step covering the SMART score, readiness
+ * summary, changed fields and export actions.
+ */
+
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { calculateSmartScore } from '@/components/SmartScoreBadge/SmartScoreBadge.utils';
+
+import { WizardFormData, WizardStep } from '../GoalWizard.types';
+import {
+  DEFAULT_STEPS,
+  getStepIndex,
+  transformFromSmartGoal,
+  transformToSmartGoal,
+} from '../GoalWizard.utils';
+import { PreviewStep } from '../steps/PreviewStep';
+
+import { createWizardGoal } from './helpers/goal-fixtures';
+
+const config = DEFAULT_STEPS[getStepIndex(WizardStep.PREVIEW)];
+
+const goal = createWizardGoal();
+
+const renderStep = (
+  props: Partial<React.ComponentProps<typeof PreviewStep>> = {}
+) =>
+  render(
+    <PreviewStep
+      data={{}}
+      onChange={jest.fn()}
+      errors={{}}
+      config={config}
+      formData={transformFromSmartGoal(goal)}
+      {...props}
+    />
+  );
+
+describe('PreviewStep', () => {
+  test('summarizes a complete goal as ready to create', () => {
+    renderStep();
+
+    expect(screen.getByText('Ready to create')).toBeInTheDocument();
+    expect(screen.getByText(goal.title)).toBeInTheDocument();
+    expect(screen.getByText(goal.relevance.rationale)).toBeInTheDocument();
+    expect(screen.getByText(/— Prototype approved$/)).toBeInTheDocument();
+    expect(screen.getByText(/— Beta launched$/)).toBeInTheDocument();
+  });
+
+  test('shows the SMART score of the assembled goal', () => {
+    const formData = transformFromSmartGoal(goal);
+    const score = calculateSmartScore(transformToSmartGoal(formData));
+
+    renderStep({ formData });
+
+    expect(screen.getByText('SMART Score')).toBeInTheDocument();
+    expect(screen.getByText(String(score.breakdown.total))).toBeInTheDocument();
+    expect(screen.getByText(score.category)).toBeInTheDocument();
+  });
+
+  test('lists incomplete steps and validation errors', () => {
+    const complete = transformFromSmartGoal(goal);
+    const formData: Partial<WizardFormData> = {
+      ...complete,
+      timebound: {
+        ...complete.timebound,
+        targetDate: new Date(2026, 0, 31),
+        deadline: new Date(2026, 0, 20),
+      },
+    };
+    delete formData.relevant;
+
+    renderStep({ formData: formData as WizardFormData });
+
+    expect(screen.getByText('Some steps need attention')).toBeInTheDocument();
+    expect(
+      screen.getByText('Relevant step is not complete')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Deadline cannot be before target date')
+    ).toBeInTheDocument();
+  });
+
+  test('lists the changed fields when editing', () => {
+    renderStep({ changedFields: ['title'] });
+
+    expect(screen.getByText('Ready to save changes')).toBeInTheDocument();
+    expect(screen.getByText('Changes')).toBeInTheDocument();
+    expect(screen.getByText('Title')).toBeInTheDocument();
+  });
+
+  test('exports the goal in the chosen format', async () => {
+    const user = userEvent.setup();
+    const onExport = jest.fn();
+    renderStep({ onExport });
+
+    await user.click(screen.getByRole('button', { name: 'MD' }));
+    await user.click(screen.getByRole('button', { name: 'pdf' }));
+
+    expect(onExport).toHaveBeenNthCalledWith(1, 'markdown');
+    expect(onExport).toHaveBeenNthCalledWith(2, 'pdf');
+  });
+});
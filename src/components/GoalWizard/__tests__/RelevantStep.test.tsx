@@ -0,0 +1,184 @@
+/**
+ * RelevantStep Component Tests
+ *
+ * Tests for the Relevant wizard step covering the rationale, strategic
+ * alignments, stakeholder mapping, benefits and business impact fields.
+ */
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { RelevantStepData, WizardStep } from '../GoalWizard.types';
+import { DEFAULT_STEPS, getStepIndex } from '../GoalWizard.utils';
+import { RelevantStep } from '../steps/RelevantStep';
+
+const config = DEFAULT_STEPS[getStepIndex(WizardStep.RELEVANT)];
+
+const emptyData: RelevantStepData = {
+  rationale: '',
+  strategyAlignments: [],
+  stakeholders: [],
+  expectedBenefits: [],
+  risksOfNotAchieving: [],
+};
+
+const renderStep = (
+  data: Partial<RelevantStepData> = {},
+  errors: Record<string, string[]> = {}
+) => {
+  const onChange = jest.fn();
+  render(
+    <RelevantStep
+      data={{ ...emptyData, ...data }}
+      onChange={onChange}
+      errors={errors}
+      config={config}
+    />
+  );
+  return onChange;
+};
+
+describe('RelevantStep', () => {
+  test('reports the rationale and business impact fields', () => {
+    const onChange = renderStep();
+
+    fireEvent.change(screen.getByLabelText('Rationale *'), {
+      target: { value: 'Renewals depend on it' },
+    });
+    fireEvent.change(screen.getByLabelText('Estimated ROI (%)'), {
+      target: { value: '150' },
+    });
+
+    expect(onChange).toHaveBeenNthCalledWith(1, {
+      rationale: 'Renewals depend on it',
+    });
+    expect(onChange).toHaveBeenNthCalledWith(2, { roiEstimation: 150 });
+  });
+
+  test('clears the ROI estimation when the field is emptied', () => {
+    const onChange = renderStep({ roiEstimation: 150 });
+
+    fireEvent.change(screen.getByLabelText('Estimated ROI (%)'), {
+      target: { value: '' },
+    });
+
+    expect(onChange).toHaveBeenCalledWith({ roiEstimation: undefined });
+  });
+
+  test('adds an expected benefit on Enter and ignores duplicates', async () => {
+    const user = userEvent.setup();
+    const onChange = renderStep({ expectedBenefits: ['Faster replies'] });
+    const input = screen.getByPlaceholderText(/Add a benefit/);
+
+    await user.type(input, 'Faster replies{Enter}');
+    expect(onChange).not.toHaveBeenCalled();
+
+    await user.clear(input);
+    await user.type(input, 'Higher renewals{Enter}');
+    expect(onChange).toHaveBeenCalledWith({
+      expectedBenefits: ['Faster replies', 'Higher renewals'],
+    });
+  });
+
+  test('adds a strategic alignment with the default strength', async () => {
+    const user = userEvent.setup();
+    const onChange = renderStep();
+
+    await user.click(screen.getByRole('button', { name: 'Add Alignment' }));
+    await user.type(
+      screen.getByPlaceholderText('e.g., Improve customer retention'),
+      'Retention'
+    );
+    await user.type(
+      screen.getByPlaceholderText(/Describe how achieving this goal/),
+      'Faster support keeps customers'
+    );
+    const [, submit] = screen.getAllByRole('button', { name: 'Add Alignment' });
+    await user.click(submit);
+
+    expect(onChange).toHaveBeenCalledWith({
+      strategyAlignments: [
+        {
+          strategicGoalId: 'Retention',
+          alignmentDescription: 'Faster support keeps customers',
+          alignmentStrength: 0.7,
+          expectedContribution: '',
+        },
+      ],
+    });
+    expect(
+      screen.queryByText('Add Strategic Alignment')
+    ).not.toBeInTheDocument();
+  });
+
+  test('adds a stakeholder with default influence, interest and stance', async () => {
+    const user = userEvent.setup();
+    const onChange = renderStep();
+
+    await user.click(screen.getByRole('button', { name: 'Add Stakeholder' }));
+    await user.type(screen.getByPlaceholderText(/Jane Smith/), 'Jane Smith');
+    await user.type(screen.getByPlaceholderText(/Sponsor/), 'Sponsor');
+    const [, submit] = screen.getAllByRole('button', {
+      name: 'Add Stakeholder',
+    });
+    await user.click(submit);
+
+    expect(onChange).toHaveBeenCalledWith({
+      stakeholders: [
+        {
+          id: expect.any(String),
+          name: 'Jane Smith',
+          role: 'Sponsor',
+          influence: 0.5,
+          interest: 0.5,
+          expectedImpact: '',
+          stance: 'unknown',
+          contact: undefined,
+        },
+      ],
+    });
+  });
+
+  test('shows stakeholders with their engagement strategy', () => {
+    renderStep({
+      stakeholders: [
+        {
+          id: 'stakeholder-1',
+          name: 'Jane Smith',
+          role: 'Sponsor',
+          influence: 0.8,
+          interest: 0.3,
+          expectedImpact: '',
+          stance: 'supportive',
+        },
+      ],
+    });
+
+    expect(screen.getByText('Jane Smith')).toBeInTheDocument();
+    expect(screen.getByText('Supportive')).toBeInTheDocument();
+    expect(screen.getByText('Keep satisfied')).toBeInTheDocument();
+  });
+
+  test('shows validation errors and hides editing in read-only mode', () => {
+    const onChange = jest.fn();
+    render(
+      <RelevantStep
+        data={{ ...emptyData, expectedBenefits: ['Faster replies'] }}
+        onChange={onChange}
+        errors={{ rationale: ['Rationale is required'] }}
+        config={config}
+        readOnly
+      />
+    );
+
+    expect(screen.getByText('Rationale is required')).toBeInTheDocument();
+    expect(screen.getByLabelText('Rationale *')).toBeDisabled();
+    expect(screen.getByText('Faster replies')).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Add Alignment' })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.queryByPlaceholderText(/Add a benefit/)
+    ).not.toBeInTheDocument();
+  });
+});
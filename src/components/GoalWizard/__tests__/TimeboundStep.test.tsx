@@ -0,0 +1,167 @@
+/**
+ * TimeboundStep Component Tests
+ *
+ * Tests for the Time-bound wizard step covering the dates, deadline and
+ * milestone checks, recurrence and dependencies.
+ */
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+import { Frequency } from '@/types/smart-goals.types';
+
+import { TimeboundStepData, WizardStep } from '../GoalWizard.types';
+import {
+  DEFAULT_STEPS,
+  getStepIndex,
+  validateTimeboundStep,
+} from '../GoalWizard.utils';
+import { TimeboundStep } from '../steps/TimeboundStep';
+
+const config = DEFAULT_STEPS[getStepIndex(WizardStep.TIMEBOUND)];
+
+const baseData: TimeboundStepData = {
+  startDate: new Date(2026, 0, 1),
+  targetDate: new Date(2026, 0, 31),
+  isRecurring: false,
+  milestones: [],
+};
+
+const renderStep = (
+  data: Partial<TimeboundStepData> = {},
+  errors: Record<string, string[]> = {}
+) => {
+  const onChange = jest.fn();
+  const { container } = render(
+    <TimeboundStep
+      data={{ ...baseData, ...data }}
+      onChange={onChange}
+      errors={errors}
+      config={config}
+    />
+  );
+  return { onChange, container };
+};
+
+describe('TimeboundStep', () => {
+  test('summarizes the timeline', () => {
+    renderStep({ deadline: new Date(2026, 1, 7) });
+
+    expect(
+      screen.getByText('30 days from start to target')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Jan 1, 2026')).toBeInTheDocument();
+    expect(screen.getByText('Jan 31, 2026')).toBeInTheDocument();
+    expect(screen.getByText('Feb 7, 2026')).toBeInTheDocument();
+  });
+
+  test('reports date changes as dates', () => {
+    const { onChange } = renderStep({ deadline: new Date(2026, 1, 7) });
+
+    fireEvent.change(screen.getByLabelText('Target Date *'), {
+      target: { value: '2026-02-15' },
+    });
+    fireEvent.change(screen.getByLabelText('Hard Deadline'), {
+      target: { value: '' },
+    });
+
+    expect(onChange).toHaveBeenNthCalledWith(1, {
+      targetDate: new Date(2026, 1, 15),
+    });
+    expect(onChange).toHaveBeenNthCalledWith(2, { deadline: undefined });
+  });
+
+  test('keeps the deadline from being set before the target date', () => {
+    const data = { ...baseData, deadline: new Date(2026, 0, 20) };
+    const { errors } = validateTimeboundStep(data);
+
+    renderStep(data, errors);
+
+    expect(screen.getByLabelText('Hard Deadline')).toHaveAttribute(
+      'min',
+      '2026-01-31'
+    );
+    expect(screen.getByLabelText('Target Date *')).toHaveAttribute(
+      'min',
+      '2026-01-01'
+    );
+    expect(
+      screen.getByText('Deadline cannot be before target date')
+    ).toBeInTheDocument();
+  });
+
+  test('adds a milestone within the goal timeline', async () => {
+    const user = userEvent.setup();
+    const { onChange, container } = renderStep({
+      deadline: new Date(2026, 1, 7),
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Add Milestone' }));
+    const dateInput = container.querySelector(
+      'form input[type="date"]'
+    ) as HTMLInputElement;
+    expect(dateInput).toHaveAttribute('min', '2026-01-01');
+    expect(dateInput).toHaveAttribute('max', '2026-02-07');
+
+    await user.type(
+      screen.getByPlaceholderText('e.g., Prototype approved'),
+      'Prototype approved'
+    );
+    fireEvent.change(dateInput, { target: { value: '2026-01-15' } });
+    const [, submit] = screen.getAllByRole('button', { name: 'Add Milestone' });
+    await user.click(submit);
+
+    expect(onChange).toHaveBeenCalledWith({
+      milestones: [
+        {
+          title: 'Prototype approved',
+          date: new Date(2026, 0, 15),
+          description: undefined,
+        },
+      ],
+    });
+  });
+
+  test('lists milestones by date and flags those outside the timeline', () => {
+    renderStep({
+      milestones: [
+        { title: 'Launch', date: new Date(2026, 1, 20) },
+        { title: 'Prototype', date: new Date(2026, 0, 10) },
+      ],
+    });
+
+    const titles = screen
+      .getAllByRole('heading', { level: 4 })
+      .map(heading => heading.textContent);
+    expect(titles).toEqual(['Prototype', 'Launch']);
+    expect(screen.getAllByText('Falls outside the goal timeline')).toHaveLength(
+      1
+    );
+  });
+
+  test('turns on recurrence with a monthly pattern', async () => {
+    const user = userEvent.setup();
+    const { onChange } = renderStep();
+
+    await user.click(screen.getByRole('switch'));
+
+    expect(onChange).toHaveBeenCalledWith({
+      isRecurring: true,
+      recurrencePattern: Frequency.MONTHLY,
+    });
+  });
+
+  test('adds a dependency on Enter', async () => {
+    const user = userEvent.setup();
+    const { onChange } = renderStep({ dependencies: ['goal-1'] });
+
+    await user.type(
+      screen.getByPlaceholderText(/Add a goal this one depends on/),
+      'goal-2{Enter}'
+    );
+
+    expect(onChange).toHaveBeenCalledWith({
+      dependencies: ['goal-1', 'goal-2'],
+    });
+  });
+});
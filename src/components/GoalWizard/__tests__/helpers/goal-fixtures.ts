@@ -0,0 +1,56 @@
+/**
+ * Goal Wizard Test Fixtures
+ *
+ * A goal with fixed dates and milestones for the wizard tests. The mock data
+ * generators pick milestone titles and orders at random, which the wizard
+ * matches and renders by, so suites build on this goal instead.
+ *
+ * @fileoverview Shared fixtures for GoalWizard tests
+ * @version 1.0.0
+ */
+
+import {
+  createMockMilestone,
+  createMockSmartGoal,
+  createMockTimebound,
+} from '@/lib/mock-data/smart-goals';
+import { GoalStatus, type SmartGoal } from '@/types/smart-goals.types';
+
+export const createWizardGoal = (): SmartGoal =>
+  createMockSmartGoal({
+    id: 'goal-1',
+    title: 'Launch the customer portal',
+    status: GoalStatus.ACTIVE,
+    parentGoalId: undefined,
+    timebound: createMockTimebound({
+      startDate: new Date(2026, 0, 1),
+      targetDate: new Date(2026, 5, 30),
+      deadline: undefined,
+      estimatedDuration: 180,
+      isRecurring: false,
+      recurrencePattern: undefined,
+      recurrenceEndDate: undefined,
+    }),
+    milestones: [
+      createMockMilestone('goal-1', {
+        id: 'milestone-1',
+        title: 'Prototype approved',
+        targetDate: new Date(2026, 1, 15),
+        isCompleted: true,
+        completedAt: new Date(2026, 1, 12),
+        progress: 100,
+        taskIds: ['task-1', 'task-2'],
+        order: 0,
+      }),
+      createMockMilestone('goal-1', {
+        id: 'milestone-2',
+        title: 'Beta launched',
+        targetDate: new Date(2026, 3, 1),
+        isCompleted: false,
+        completedAt: undefined,
+        progress: 40,
+        taskIds: ['task-3'],
+        order: 1,
+      }),
+    ],
+  });
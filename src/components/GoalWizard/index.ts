@@ -19,6 +19,9 @@ export { default as ContextStep } from './steps/ContextStep';
 export { default as SpecificStep } from './steps/SpecificStep';
 export { default as MeasurableStep } from './steps/MeasurableStep';
 export { default as AchievableStep } from './steps/AchievableStep';
+export { default as RelevantStep } from './steps/RelevantStep';
+export { default as TimeboundStep } from './steps/TimeboundStep';
+export { default as PreviewStep } from './steps/PreviewStep';
 
 // Types
 export type {
@@ -30,6 +33,9 @@ export type {
   ContextStepProps,
   SpecificStepProps,
   MeasurableStepProps,
+  AchievableStepProps,
+  RelevantStepProps,
+  TimeboundStepProps,
   PreviewStepProps,
   BaseStepProps,
 
@@ -107,4 +113,4 @@ export {
   // Initial state
   createInitialWizardState,
   createEmptyFormData,
-} from './GoalWizard.utils';
\ No newline at end of file
+} from './GoalWizard.utils';
@@ -0,0 +1,551 @@
+/**
+ * PreviewStep Component
+ *
+ * This component provides the final step of the GoalWizard where users review
+ * the assembled SMART goal exactly as it will be submitted, together with its
+ * SMART score breakdown and any problems left to fix in earlier steps.
+ */
+
+'use client';
+
+import { differenceInCalendarDays, format, isValid } from 'date-fns';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Download,
+  FileText,
+  Target,
+  BarChart3,
+  Shield,
+  Compass,
+  CalendarDays,
+  Lightbulb,
+  PencilLine,
+} from 'lucide-react';
+import React, { useMemo } from 'react';
+
+import {
+  calculateSmartScore,
+  getActionableExplanations,
+  getScoreColorClasses,
+} from '@/components/SmartScoreBadge/SmartScoreBadge.utils';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { GOAL_FIELD_LABELS } from '@/lib/api/shared/goals';
+import { cn } from '@/lib/utils';
+import { SmartGoalCreate } from '@/types/smart-goals.types';
+
+import {
+  PreviewStepProps,
+  WizardFormData,
+  WizardStep,
+} from '../GoalWizard.types';
+import {
+  DEFAULT_STEPS,
+  createEmptyFormData,
+  transformToSmartGoal,
+  validateCompleteForm,
+} from '../GoalWizard.utils';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const SCORE_CRITERIA = [
+  { key: 'specific', label: 'Specific' },
+  { key: 'measurable', label: 'Measurable' },
+  { key: 'achievable', label: 'Achievable' },
+  { key: 'relevant', label: 'Relevant' },
+  { key: 'timeBound', label: 'Time-bound' },
+] as const;
+
+const formatDate = (value?: Date | string): string => {
+  if (!value) return '—';
+  const date = value instanceof Date ? value : new Date(value);
+  return isValid(date) ? format(date, 'MMM d, yyyy') : '—';
+};
+
+/**
+ * Build the goal that will be submitted. Steps the user has not visited yet
+ * fall back to their empty defaults so a partial goal can still be previewed.
+ */
+const buildPreviewGoal = (
+  formData: Partial<WizardFormData>
+): SmartGoalCreate | null => {
+  try {
+    return transformToSmartGoal({
+      ...createEmptyFormData(),
+      ...formData,
+    } as WizardFormData);
+  } catch {
+    return null;
+  }
+};
+
+// =============================================================================
+// Preview Section Component
+// =============================================================================
+
+interface PreviewSectionProps {
+  title: string;
+  icon: React.ComponentType<{ className?: string }>;
+  children: React.ReactNode;
+}
+
+const PreviewSection: React.FC<PreviewSectionProps> = ({
+  title,
+  icon: Icon,
+  children,
+}) => (
+  <Card>
+    <CardHeader className="pb-3">
+      <CardTitle className="flex items-center gap-2 text-base">
+        <Icon className="text-primary h-4 w-4" />
+        {title}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-3 text-sm">{children}</CardContent>
+  </Card>
+);
+
+interface PreviewFieldProps {
+  label: string;
+  children: React.ReactNode;
+}
+
+const PreviewField: React.FC<PreviewFieldProps> = ({ label, children }) => (
+  <div>
+    <div className="text-muted-foreground text-xs font-medium tracking-wider uppercase">
+      {label}
+    </div>
+    <div className="mt-1">{children}</div>
+  </div>
+);
+
+const PreviewList: React.FC<{ items: string[]; emptyText: string }> = ({
+  items,
+  emptyText,
+}) =>
+  items.length > 0 ? (
+    <ul className="list-inside list-disc space-y-1">
+      {items.map((item, index) => (
+        <li key={index}>{item}</li>
+      ))}
+    </ul>
+  ) : (
+    <span className="text-muted-foreground italic">{emptyText}</span>
+  );
+
+// =============================================================================
+// Main PreviewStep Component
+// =============================================================================
+
+export const PreviewStep: React.FC<PreviewStepProps> = ({
+  formData,
+  smartScore,
+  scoreConfig,
+  onExport,
+  changedFields,
+  className,
+}) => {
+  const isEditing = changedFields !== undefined;
+
+  const goal = useMemo(() => buildPreviewGoal(formData), [formData]);
+
+  const score = useMemo(
+    () =>
+      smartScore ?? (goal ? calculateSmartScore(goal, scoreConfig) : undefined),
+    [smartScore, goal, scoreConfig]
+  );
+
+  const validation = useMemo(() => validateCompleteForm(formData), [formData]);
+
+  const missingSteps = DEFAULT_STEPS.filter(
+    config =>
+      config.step !== WizardStep.PREVIEW &&
+      config.required &&
+      !formData[config.step as keyof WizardFormData]
+  );
+
+  const errorMessages = Object.values(validation.errors).flat();
+  const isReady = missingSteps.length === 0 && validation.isValid;
+
+  if (!goal) {
+    return (
+      <div className={cn('space-y-8', className)}>
+        <div className="space-y-2">
+          <h2 className="text-2xl font-bold tracking-tight">
+            Preview &amp; Finalize
+          </h2>
+          <p className="text-muted-foreground">
+            Review your complete SMART goal before saving.
+          </p>
+        </div>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Preview unavailable</AlertTitle>
+          <AlertDescription>
+            The goal could not be assembled from the current answers. Go back
+            and complete the earlier steps.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const scoreColors = score
+    ? getScoreColorClasses(score.breakdown.total)
+    : undefined;
+  const improvements = score ? getActionableExplanations(score) : [];
+  const durationDays = differenceInCalendarDays(
+    new Date(goal.timebound.targetDate),
+    new Date(goal.timebound.startDate)
+  );
+
+  return (
+    <div className={cn('space-y-8', className)}>
+      {/* Step Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h2 className="text-2xl font-bold tracking-tight">
+            Preview &amp; Finalize
+          </h2>
+          <p className="text-muted-foreground">
+            Review your complete SMART goal before saving.
+          </p>
+        </div>
+        {onExport && (
+          <div className="flex gap-2">
+            {(['markdown', 'json', 'pdf'] as const).map(exportFormat => (
+              <Button
+                key={exportFormat}
+                variant="outline"
+                size="sm"
+                onClick={() => onExport(exportFormat)}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                <span className="uppercase">
+                  {exportFormat === 'markdown' ? 'MD' : exportFormat}
+                </span>
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Readiness */}
+      {isReady ? (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>
+            {isEditing ? 'Ready to save changes' : 'Ready to create'}
+          </AlertTitle>
+          <AlertDescription>
+            {isEditing
+              ? 'Every step is complete. Review the changed fields below and save your goal.'
+              : 'Every step is complete. Review the details below and create your goal.'}
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Some steps need attention</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 list-inside list-disc space-y-1">
+              {missingSteps.map(config => (
+                <li key={config.step}>{config.title} step is not complete</li>
+              ))}
+              {errorMessages.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Changes */}
+      {changedFields && (
+        <PreviewSection title="Changes" icon={PencilLine}>
+          {changedFields.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {changedFields.map(field => (
+                <Badge key={field} variant="secondary">
+                  {GOAL_FIELD_LABELS[field]}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <span className="text-muted-foreground italic">
+              No changes yet. Edit any step to update this goal.
+            </span>
+          )}
+        </PreviewSection>
+      )}
+
+      {/* SMART Score */}
+      {score && scoreColors && (
+        <Card className={cn('border', scoreColors.border)}>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>SMART Score</CardTitle>
+                <CardDescription>
+                  How well the goal meets each SMART criterion
+                </CardDescription>
+              </div>
+              <div
+                className={cn(
+                  'rounded-lg px-4 py-2 text-center',
+                  scoreColors.bg,
+                  scoreColors.text
+                )}
+              >
+                <div className="text-2xl font-bold">
+                  {score.breakdown.total}
+                </div>
+                <div className="text-xs capitalize">{score.category}</div>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3">
+              {SCORE_CRITERIA.filter(({ key }) => score.maximums[key] > 0).map(
+                ({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{label}</span>
+                      <span className="font-medium">
+                        {Math.round(score.breakdown[key])}/{score.maximums[key]}
+                      </span>
+                    </div>
+                    <Progress
+                      value={(score.breakdown[key] / score.maximums[key]) * 100}
+                      className="h-1.5"
+                    />
+                  </div>
+                )
+              )}
+            </div>
+
+            {improvements.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-blue-600 dark:text-blue-400">
+                  <Lightbulb className="h-4 w-4" />
+                  How to improve:
+                </div>
+                {improvements.map(explanation => (
+                  <div
+                    key={explanation.ruleId}
+                    className="flex items-start space-x-2 text-sm text-blue-700 dark:text-blue-300"
+                  >
+                    <div className="mt-2 h-1 w-1 flex-shrink-0 rounded-full bg-blue-500" />
+                    <div className="flex-1">
+                      <span>{explanation.suggestion}</span>
+                      <span className="block text-xs text-blue-600/80 dark:text-blue-400/80">
+                        {explanation.label}: {explanation.message}
+                      </span>
+                    </div>
+                    <span className="font-medium tabular-nums">
+                      +{Math.round(explanation.maxPoints - explanation.points)}{' '}
+                      pts
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Overview */}
+      <PreviewSection title="Overview" icon={FileText}>
+        <div className="text-lg font-semibold">
+          {goal.title || (
+            <span className="text-muted-foreground italic">Untitled goal</span>
+          )}
+        </div>
+        {goal.description && <p>{goal.description}</p>}
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline" className="capitalize">
+            {goal.category}
+          </Badge>
+          <Badge variant="outline" className="capitalize">
+            {goal.priority} priority
+          </Badge>
+          <Badge variant="outline" className="capitalize">
+            {goal.visibility}
+          </Badge>
+          {goal.tags.map(tag => (
+            <Badge key={tag} variant="secondary">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      </PreviewSection>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        {/* Specific */}
+        <PreviewSection title="Specific" icon={Target}>
+          <PreviewField label="Objective">
+            {goal.specificObjective || (
+              <span className="text-muted-foreground italic">Not set</span>
+            )}
+          </PreviewField>
+          <PreviewField label="Success Criteria">
+            <PreviewList
+              items={goal.successCriteria}
+              emptyText="No success criteria"
+            />
+          </PreviewField>
+        </PreviewSection>
+
+        {/* Measurable */}
+        <PreviewSection title="Measurable" icon={BarChart3}>
+          <PreviewField label="Metric">
+            <span className="capitalize">{goal.measurable.metricType}</span>
+          </PreviewField>
+          <PreviewField label="Progress">
+            {goal.measurable.currentValue} → {goal.measurable.targetValue}{' '}
+            {goal.measurable.unit}
+            {!goal.measurable.higherIsBetter && ' (lower is better)'}
+          </PreviewField>
+          <PreviewField label="Measured">
+            <span className="capitalize">
+              {goal.measurable.measurementFrequency}
+            </span>
+          </PreviewField>
+        </PreviewSection>
+
+        {/* Achievable */}
+        <PreviewSection title="Achievable" icon={Shield}>
+          <PreviewField label="Resources">
+            <PreviewList
+              items={goal.achievability.requiredResources.map(
+                resource =>
+                  `${resource.name}${resource.isAvailable ? '' : ' (not available)'}`
+              )}
+              emptyText="No resources identified"
+            />
+          </PreviewField>
+          <PreviewField label="Skills">
+            <PreviewList
+              items={goal.achievability.requiredSkills.map(
+                skill =>
+                  `${skill.name} (${skill.currentLevel}/${skill.requiredLevel})`
+              )}
+              emptyText="No skills identified"
+            />
+          </PreviewField>
+          <PreviewField label="Constraints">
+            {goal.achievability.constraints.length} identified
+          </PreviewField>
+          {goal.achievability.riskAssessment && (
+            <PreviewField label="Risk Assessment">
+              {goal.achievability.riskAssessment}
+            </PreviewField>
+          )}
+        </PreviewSection>
+
+        {/* Relevant */}
+        <PreviewSection title="Relevant" icon={Compass}>
+          <PreviewField label="Rationale">
+            {goal.relevance.rationale || (
+              <span className="text-muted-foreground italic">Not set</span>
+            )}
+          </PreviewField>
+          <PreviewField label="Strategic Alignment">
+            <PreviewList
+              items={goal.relevance.strategyAlignments.map(
+                alignment =>
+                  `${alignment.strategicGoalId} (${Math.round(alignment.alignmentStrength * 100)}%)`
+              )}
+              emptyText="No strategic alignments"
+            />
+          </PreviewField>
+          <PreviewField label="Stakeholders">
+            <PreviewList
+              items={goal.relevance.stakeholders.map(
+                stakeholder => `${stakeholder.name} — ${stakeholder.role}`
+              )}
+              emptyText="No stakeholders mapped"
+            />
+          </PreviewField>
+          <PreviewField label="Expected Benefits">
+            <PreviewList
+              items={goal.relevance.expectedBenefits}
+              emptyText="No expected benefits"
+            />
+          </PreviewField>
+        </PreviewSection>
+      </div>
+
+      {/* Time-bound */}
+      <PreviewSection title="Time-bound" icon={CalendarDays}>
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          <PreviewField label="Start">
+            {formatDate(goal.timebound.startDate)}
+          </PreviewField>
+          <PreviewField label="Target">
+            {formatDate(goal.timebound.targetDate)}
+          </PreviewField>
+          <PreviewField label="Deadline">
+            {formatDate(goal.timebound.deadline)}
+          </PreviewField>
+          <PreviewField label="Duration">
+            {Number.isFinite(durationDays) ? `${durationDays} days` : '—'}
+          </PreviewField>
+        </div>
+        {goal.timebound.isRecurring && (
+          <PreviewField label="Recurrence">
+            <span className="capitalize">
+              {goal.timebound.recurrencePattern}
+            </span>
+          </PreviewField>
+        )}
+        <PreviewField label="Milestones">
+          <PreviewList
+            items={goal.milestones.map(
+              milestone =>
+                `${formatDate(milestone.targetDate)} — ${milestone.title}`
+            )}
+            emptyText="No milestones"
+          />
+        </PreviewField>
+        {goal.timebound.dependencies?.length ? (
+          <PreviewField label="Dependencies">
+            <PreviewList items={goal.timebound.dependencies} emptyText="" />
+          </PreviewField>
+        ) : null}
+      </PreviewSection>
+
+      {/* Warnings */}
+      {validation.warnings && validation.warnings.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-amber-600 dark:text-amber-400">
+            Suggestions for improvement:
+          </div>
+          {validation.warnings.map((warning, index) => (
+            <div
+              key={index}
+              className="flex items-start space-x-2 text-sm text-amber-700 dark:text-amber-300"
+            >
+              <div className="mt-2 h-1 w-1 flex-shrink-0 rounded-full bg-amber-500" />
+              <span>{warning}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PreviewStep;
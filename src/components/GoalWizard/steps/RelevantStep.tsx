@@ -0,0 +1,855 @@
+/**
+ * RelevantStep Component
+ *
+ * This component provides the fifth step of the GoalWizard where users explain
+ * why the goal matters by linking it to broader strategies, mapping the
+ * stakeholders involved, and listing the benefits and risks at stake.
+ */
+
+'use client';
+
+import {
+  Plus,
+  X,
+  Compass,
+  Users,
+  TrendingUp,
+  AlertTriangle,
+  HelpCircle,
+} from 'lucide-react';
+import React, { useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { Stakeholder, StrategyAlignment } from '@/types/smart-goals.types';
+
+import { RelevantStepProps, RelevantStepData } from '../GoalWizard.types';
+
+// =============================================================================
+// Stakeholder Stances
+// =============================================================================
+
+const STAKEHOLDER_STANCES: Record<
+  Stakeholder['stance'],
+  { label: string; color: string }
+> = {
+  supportive: {
+    label: 'Supportive',
+    color:
+      'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  },
+  neutral: {
+    label: 'Neutral',
+    color: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300',
+  },
+  resistant: {
+    label: 'Resistant',
+    color: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  },
+  unknown: {
+    label: 'Unknown',
+    color:
+      'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  },
+};
+
+/** Power/interest grid quadrant for a stakeholder */
+const getEngagementStrategy = (stakeholder: Stakeholder): string => {
+  const highInfluence = stakeholder.influence >= 0.5;
+  const highInterest = stakeholder.interest >= 0.5;
+
+  if (highInfluence && highInterest) return 'Manage closely';
+  if (highInfluence) return 'Keep satisfied';
+  if (highInterest) return 'Keep informed';
+  return 'Monitor';
+};
+
+const toPercent = (value: number) => Math.round(value * 100);
+
+// =============================================================================
+// List Input Component
+// =============================================================================
+
+interface ListInputProps {
+  items: string[];
+  onChange: (items: string[]) => void;
+  placeholder: string;
+  disabled?: boolean;
+  hasError?: boolean;
+}
+
+const ListInput: React.FC<ListInputProps> = ({
+  items,
+  onChange,
+  placeholder,
+  disabled = false,
+  hasError = false,
+}) => {
+  const [inputValue, setInputValue] = useState('');
+
+  const addItem = () => {
+    const value = inputValue.trim();
+    if (value && !items.includes(value)) {
+      onChange([...items, value]);
+      setInputValue('');
+    }
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addItem();
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {!disabled && (
+        <div className="flex space-x-2">
+          <Input
+            value={inputValue}
+            onChange={e => setInputValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            className={cn(
+              hasError && 'border-destructive focus:ring-destructive'
+            )}
+          />
+          <Button
+            type="button"
+            onClick={addItem}
+            disabled={!inputValue.trim()}
+            size="sm"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <ul className="space-y-2">
+          {items.map((item, index) => (
+            <li
+              key={index}
+              className="bg-muted/50 flex items-start justify-between rounded-md px-3 py-2 text-sm"
+            >
+              <span>{item}</span>
+              {!disabled && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-2 h-auto p-0 hover:bg-transparent"
+                  onClick={() => removeItem(index)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// =============================================================================
+// Strategy Alignment Form Component
+// =============================================================================
+
+interface AlignmentFormProps {
+  onAdd: (alignment: StrategyAlignment) => void;
+  onCancel: () => void;
+}
+
+const AlignmentForm: React.FC<AlignmentFormProps> = ({ onAdd, onCancel }) => {
+  const [alignment, setAlignment] = useState<Partial<StrategyAlignment>>({
+    alignmentStrength: 0.7,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (
+      alignment.strategicGoalId?.trim() &&
+      alignment.alignmentDescription?.trim()
+    ) {
+      onAdd({
+        strategicGoalId: alignment.strategicGoalId.trim(),
+        alignmentDescription: alignment.alignmentDescription.trim(),
+        alignmentStrength: alignment.alignmentStrength ?? 0.7,
+        expectedContribution: alignment.expectedContribution?.trim() || '',
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Strategic Goal *</Label>
+          <Input
+            value={alignment.strategicGoalId || ''}
+            onChange={e =>
+              setAlignment({ ...alignment, strategicGoalId: e.target.value })
+            }
+            placeholder="e.g., Improve customer retention"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>
+            Alignment Strength ({toPercent(alignment.alignmentStrength ?? 0)}%)
+          </Label>
+          <Slider
+            value={[toPercent(alignment.alignmentStrength ?? 0)]}
+            onValueChange={([value]) =>
+              setAlignment({ ...alignment, alignmentStrength: value / 100 })
+            }
+            max={100}
+            step={10}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>How does this goal support it? *</Label>
+        <Textarea
+          value={alignment.alignmentDescription || ''}
+          onChange={e =>
+            setAlignment({
+              ...alignment,
+              alignmentDescription: e.target.value,
+            })
+          }
+          placeholder="Describe how achieving this goal moves the strategy forward"
+          rows={2}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Expected Contribution</Label>
+        <Input
+          value={alignment.expectedContribution || ''}
+          onChange={e =>
+            setAlignment({
+              ...alignment,
+              expectedContribution: e.target.value,
+            })
+          }
+          placeholder="e.g., 10% of the yearly retention target"
+        />
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Alignment
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// =============================================================================
+// Stakeholder Form Component
+// =============================================================================
+
+interface StakeholderFormProps {
+  onAdd: (stakeholder: Stakeholder) => void;
+  onCancel: () => void;
+}
+
+const StakeholderForm: React.FC<StakeholderFormProps> = ({
+  onAdd,
+  onCancel,
+}) => {
+  const [stakeholder, setStakeholder] = useState<Partial<Stakeholder>>({
+    influence: 0.5,
+    interest: 0.5,
+    stance: 'unknown',
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (stakeholder.name?.trim() && stakeholder.role?.trim()) {
+      onAdd({
+        id: `stakeholder-${Date.now()}`,
+        name: stakeholder.name.trim(),
+        role: stakeholder.role.trim(),
+        influence: stakeholder.influence ?? 0.5,
+        interest: stakeholder.interest ?? 0.5,
+        expectedImpact: stakeholder.expectedImpact?.trim() || '',
+        stance: stakeholder.stance || 'unknown',
+        contact: stakeholder.contact?.trim() || undefined,
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Name *</Label>
+          <Input
+            value={stakeholder.name || ''}
+            onChange={e =>
+              setStakeholder({ ...stakeholder, name: e.target.value })
+            }
+            placeholder="e.g., Jane Smith or Customer Success Team"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Role *</Label>
+          <Input
+            value={stakeholder.role || ''}
+            onChange={e =>
+              setStakeholder({ ...stakeholder, role: e.target.value })
+            }
+            placeholder="e.g., Sponsor, Approver, End User"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Influence ({toPercent(stakeholder.influence ?? 0)}%)</Label>
+          <Slider
+            value={[toPercent(stakeholder.influence ?? 0)]}
+            onValueChange={([value]) =>
+              setStakeholder({ ...stakeholder, influence: value / 100 })
+            }
+            max={100}
+            step={10}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Interest ({toPercent(stakeholder.interest ?? 0)}%)</Label>
+          <Slider
+            value={[toPercent(stakeholder.interest ?? 0)]}
+            onValueChange={([value]) =>
+              setStakeholder({ ...stakeholder, interest: value / 100 })
+            }
+            max={100}
+            step={10}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Stance</Label>
+          <Select
+            value={stakeholder.stance}
+            onValueChange={(value: Stakeholder['stance']) =>
+              setStakeholder({ ...stakeholder, stance: value })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STAKEHOLDER_STANCES).map(([stance, info]) => (
+                <SelectItem key={stance} value={stance}>
+                  {info.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Contact (optional)</Label>
+          <Input
+            value={stakeholder.contact || ''}
+            onChange={e =>
+              setStakeholder({ ...stakeholder, contact: e.target.value })
+            }
+            placeholder="Email or channel"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Expected Impact</Label>
+        <Textarea
+          value={stakeholder.expectedImpact || ''}
+          onChange={e =>
+            setStakeholder({ ...stakeholder, expectedImpact: e.target.value })
+          }
+          placeholder="How will this goal affect them?"
+          rows={2}
+        />
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Stakeholder
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// =============================================================================
+// Main RelevantStep Component
+// =============================================================================
+
+export const RelevantStep: React.FC<RelevantStepProps> = ({
+  data,
+  onChange,
+  errors,
+  readOnly = false,
+  className,
+  warnings,
+  suggestions,
+}) => {
+  const [showAlignmentForm, setShowAlignmentForm] = useState(false);
+  const [showStakeholderForm, setShowStakeholderForm] = useState(false);
+
+  const handleChange = (field: keyof RelevantStepData, value: any) => {
+    onChange({ [field]: value });
+  };
+
+  return (
+    <TooltipProvider>
+      <div className={cn('space-y-8', className)}>
+        {/* Step Header */}
+        <div className="space-y-2">
+          <h2 className="text-2xl font-bold tracking-tight">
+            Make it Relevant
+          </h2>
+          <p className="text-muted-foreground">
+            Explain why this goal matters, how it supports broader strategies,
+            and who has a stake in its outcome.
+          </p>
+        </div>
+
+        {/* Rationale */}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rationale" className="text-base font-semibold">
+              Rationale *
+            </Label>
+            <p className="text-muted-foreground text-sm">
+              Why is this goal worth pursuing now?
+            </p>
+          </div>
+
+          <Textarea
+            id="rationale"
+            value={data.rationale}
+            onChange={e => handleChange('rationale', e.target.value)}
+            placeholder="Why does this matter... (e.g., 'Faster responses are the top request in our customer survey and directly affect renewals...')"
+            rows={4}
+            disabled={readOnly}
+            className={cn(
+              errors.rationale && 'border-destructive focus:ring-destructive'
+            )}
+          />
+
+          {errors.rationale && (
+            <div className="text-destructive text-sm">
+              {errors.rationale[0]}
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Strategic Alignment */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">
+                Strategic Alignment
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-1 h-auto p-0"
+                    >
+                      <HelpCircle className="text-muted-foreground h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="max-w-xs">
+                      Link this goal to the organizational or personal
+                      strategies it contributes to.
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </Label>
+              <p className="text-muted-foreground text-sm">
+                Which broader objectives does this goal support?
+              </p>
+            </div>
+            {!readOnly && (
+              <Button onClick={() => setShowAlignmentForm(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Alignment
+              </Button>
+            )}
+          </div>
+
+          {showAlignmentForm && !readOnly && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Add Strategic Alignment</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AlignmentForm
+                  onAdd={alignment => {
+                    handleChange('strategyAlignments', [
+                      ...data.strategyAlignments,
+                      alignment,
+                    ]);
+                    setShowAlignmentForm(false);
+                  }}
+                  onCancel={() => setShowAlignmentForm(false)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {data.strategyAlignments.length > 0 ? (
+            <div className="space-y-3">
+              {data.strategyAlignments.map((alignment, index) => (
+                <Card key={`${alignment.strategicGoalId}-${index}`}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex flex-1 items-start space-x-3">
+                        <div className="bg-secondary rounded-lg p-2">
+                          <Compass className="h-4 w-4 text-blue-600" />
+                        </div>
+                        <div className="flex-1 space-y-2">
+                          <div className="flex items-center space-x-2">
+                            <h4 className="font-medium">
+                              {alignment.strategicGoalId}
+                            </h4>
+                            <Badge variant="outline" className="text-xs">
+                              {toPercent(alignment.alignmentStrength)}% aligned
+                            </Badge>
+                          </div>
+                          <p className="text-muted-foreground text-sm">
+                            {alignment.alignmentDescription}
+                          </p>
+                          {alignment.expectedContribution && (
+                            <p className="text-muted-foreground text-sm">
+                              Contribution: {alignment.expectedContribution}
+                            </p>
+                          )}
+                          <Progress
+                            value={toPercent(alignment.alignmentStrength)}
+                            className="h-1.5"
+                          />
+                        </div>
+                      </div>
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            handleChange(
+                              'strategyAlignments',
+                              data.strategyAlignments.filter(
+                                (_, i) => i !== index
+                              )
+                            )
+                          }
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="text-muted-foreground rounded-lg border-2 border-dashed p-6 text-center">
+              <Compass className="mx-auto mb-2 h-8 w-8 opacity-50" />
+              <p>No strategic alignments yet</p>
+              <p className="text-sm">
+                Connect this goal to the strategies it supports
+              </p>
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Stakeholder Mapping */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">
+                Stakeholder Mapping
+              </Label>
+              <p className="text-muted-foreground text-sm">
+                Who is affected by this goal, and how much influence and
+                interest do they have?
+              </p>
+            </div>
+            {!readOnly && (
+              <Button onClick={() => setShowStakeholderForm(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Stakeholder
+              </Button>
+            )}
+          </div>
+
+          {showStakeholderForm && !readOnly && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Add Stakeholder</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <StakeholderForm
+                  onAdd={stakeholder => {
+                    handleChange('stakeholders', [
+                      ...data.stakeholders,
+                      stakeholder,
+                    ]);
+                    setShowStakeholderForm(false);
+                  }}
+                  onCancel={() => setShowStakeholderForm(false)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {data.stakeholders.length > 0 ? (
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              {data.stakeholders.map(stakeholder => {
+                const stance = STAKEHOLDER_STANCES[stakeholder.stance];
+
+                return (
+                  <Card key={stakeholder.id}>
+                    <CardContent className="space-y-2 p-4">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <h4 className="font-medium">{stakeholder.name}</h4>
+                          <p className="text-muted-foreground text-sm">
+                            {stakeholder.role}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <Badge className={cn('text-xs', stance.color)}>
+                            {stance.label}
+                          </Badge>
+                          {!readOnly && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                handleChange(
+                                  'stakeholders',
+                                  data.stakeholders.filter(
+                                    s => s.id !== stakeholder.id
+                                  )
+                                )
+                              }
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-muted-foreground flex gap-4 text-xs">
+                        <span>
+                          Influence: {toPercent(stakeholder.influence)}%
+                        </span>
+                        <span>
+                          Interest: {toPercent(stakeholder.interest)}%
+                        </span>
+                        <span className="font-medium">
+                          {getEngagementStrategy(stakeholder)}
+                        </span>
+                      </div>
+                      {stakeholder.expectedImpact && (
+                        <p className="text-sm">{stakeholder.expectedImpact}</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-muted-foreground rounded-lg border-2 border-dashed p-6 text-center">
+              <Users className="mx-auto mb-2 h-8 w-8 opacity-50" />
+              <p>No stakeholders mapped yet</p>
+              <p className="text-sm">
+                Add the people and groups with a stake in this goal
+              </p>
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Expected Benefits */}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2 text-base font-semibold">
+              <TrendingUp className="h-4 w-4 text-green-600" />
+              Expected Benefits *
+            </Label>
+            <p className="text-muted-foreground text-sm">
+              What will be better once this goal is achieved?
+            </p>
+          </div>
+
+          <ListInput
+            items={data.expectedBenefits}
+            onChange={benefits => handleChange('expectedBenefits', benefits)}
+            placeholder="Add a benefit (e.g., Higher customer satisfaction)"
+            disabled={readOnly}
+            hasError={Boolean(errors.expectedBenefits)}
+          />
+
+          {errors.expectedBenefits && (
+            <div className="text-destructive text-sm">
+              {errors.expectedBenefits[0]}
+            </div>
+          )}
+        </div>
+
+        {/* Risks of Not Achieving */}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2 text-base font-semibold">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              Risks of Not Achieving
+            </Label>
+            <p className="text-muted-foreground text-sm">
+              What happens if this goal is missed?
+            </p>
+          </div>
+
+          <ListInput
+            items={data.risksOfNotAchieving}
+            onChange={risks => handleChange('risksOfNotAchieving', risks)}
+            placeholder="Add a risk (e.g., Losing key accounts to competitors)"
+            disabled={readOnly}
+          />
+        </div>
+
+        <Separator />
+
+        {/* Business Impact */}
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="businessImpact" className="text-base font-semibold">
+              Business Impact
+            </Label>
+            <Textarea
+              id="businessImpact"
+              value={data.businessImpact || ''}
+              onChange={e => handleChange('businessImpact', e.target.value)}
+              placeholder="Summarize the impact on the business or your personal situation"
+              rows={3}
+              disabled={readOnly}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="roiEstimation" className="text-base font-semibold">
+              Estimated ROI (%)
+            </Label>
+            <Input
+              id="roiEstimation"
+              type="number"
+              value={data.roiEstimation ?? ''}
+              onChange={e =>
+                handleChange(
+                  'roiEstimation',
+                  e.target.value === '' ? undefined : Number(e.target.value)
+                )
+              }
+              placeholder="e.g., 150"
+              disabled={readOnly}
+            />
+            <p className="text-muted-foreground text-xs">
+              Return relative to the effort invested
+            </p>
+          </div>
+        </div>
+
+        {/* Warnings and Suggestions */}
+        {(warnings?.length || suggestions?.length) && (
+          <div className="space-y-4">
+            {warnings && warnings.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-amber-600 dark:text-amber-400">
+                  Suggestions for improvement:
+                </div>
+                {warnings.map((warning, index) => (
+                  <div
+                    key={index}
+                    className="flex items-start space-x-2 text-sm text-amber-700 dark:text-amber-300"
+                  >
+                    <div className="mt-2 h-1 w-1 flex-shrink-0 rounded-full bg-amber-500" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {suggestions && suggestions.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-blue-600 dark:text-blue-400">
+                  Additional suggestions:
+                </div>
+                {suggestions.map((suggestion, index) => (
+                  <div
+                    key={index}
+                    className="flex items-start space-x-2 text-sm text-blue-700 dark:text-blue-300"
+                  >
+                    <div className="mt-2 h-1 w-1 flex-shrink-0 rounded-full bg-blue-500" />
+                    <span>{suggestion}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+};
+
+export default RelevantStep;
@@ -0,0 +1,679 @@
+/**
+ * TimeboundStep Component
+ *
+ * This component provides the sixth step of the GoalWizard where users set the
+ * timeline for their goal including start and target dates, a hard deadline,
+ * recurrence, key milestones, and dependencies on other goals.
+ */
+
+'use client';
+
+import { differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+import {
+  Plus,
+  X,
+  CalendarDays,
+  Flag,
+  Link2,
+  Repeat,
+  AlertTriangle,
+  Clock,
+} from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { Frequency } from '@/types/smart-goals.types';
+
+import { TimeboundStepProps, TimeboundStepData } from '../GoalWizard.types';
+
+type Milestone = TimeboundStepData['milestones'][number];
+
+// =============================================================================
+// Date Helpers
+// =============================================================================
+
+const RECURRENCE_OPTIONS = Object.values(Frequency).filter(
+  frequency => frequency !== Frequency.ONCE
+);
+
+/** Drafts only revive the top-level dates, so milestones may hold strings */
+const toDate = (value?: Date | string): Date | undefined => {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return isValid(date) ? date : undefined;
+};
+
+const toInputValue = (value?: Date | string): string => {
+  const date = toDate(value);
+  return date ? format(date, 'yyyy-MM-dd') : '';
+};
+
+const fromInputValue = (value: string): Date | undefined => {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+};
+
+// =============================================================================
+// Milestone Form Component
+// =============================================================================
+
+interface MilestoneFormProps {
+  minDate?: string;
+  maxDate?: string;
+  onAdd: (milestone: Milestone) => void;
+  onCancel: () => void;
+}
+
+const MilestoneForm: React.FC<MilestoneFormProps> = ({
+  minDate,
+  maxDate,
+  onAdd,
+  onCancel,
+}) => {
+  const [title, setTitle] = useState('');
+  const [date, setDate] = useState('');
+  const [description, setDescription] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const milestoneDate = fromInputValue(date);
+    if (title.trim() && milestoneDate) {
+      onAdd({
+        title: title.trim(),
+        date: milestoneDate,
+        description: description.trim() || undefined,
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Milestone Title *</Label>
+          <Input
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            placeholder="e.g., Prototype approved"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Date *</Label>
+          <Input
+            type="date"
+            value={date}
+            min={minDate}
+            max={maxDate}
+            onChange={e => setDate(e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Description</Label>
+        <Textarea
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          placeholder="What does reaching this milestone look like?"
+          rows={2}
+        />
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Milestone
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// =============================================================================
+// Dependency Input Component
+// =============================================================================
+
+interface DependencyInputProps {
+  dependencies: string[];
+  onChange: (dependencies: string[]) => void;
+  disabled?: boolean;
+}
+
+const DependencyInput: React.FC<DependencyInputProps> = ({
+  dependencies,
+  onChange,
+  disabled = false,
+}) => {
+  const [inputValue, setInputValue] = useState('');
+
+  const addDependency = () => {
+    const value = inputValue.trim();
+    if (value && !dependencies.includes(value)) {
+      onChange([...dependencies, value]);
+      setInputValue('');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addDependency();
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {!disabled && (
+        <div className="flex space-x-2">
+          <Input
+            value={inputValue}
+            onChange={e => setInputValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Add a goal this one depends on (name or ID)"
+          />
+          <Button
+            type="button"
+            onClick={addDependency}
+            disabled={!inputValue.trim()}
+            size="sm"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {dependencies.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {dependencies.map((dependency, index) => (
+            <Badge
+              key={dependency}
+              variant="secondary"
+              className="flex items-center gap-1 px-2 py-1"
+            >
+              <Link2 className="h-3 w-3" />
+              {dependency}
+              {!disabled && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-1 h-auto p-0 hover:bg-transparent"
+                  onClick={() =>
+                    onChange(dependencies.filter((_, i) => i !== index))
+                  }
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// =============================================================================
+// Main TimeboundStep Component
+// =============================================================================
+
+export const TimeboundStep: React.FC<TimeboundStepProps> = ({
+  data,
+  onChange,
+  errors,
+  readOnly = false,
+  className,
+  warnings,
+  suggestions,
+}) => {
+  const [showMilestoneForm, setShowMilestoneForm] = useState(false);
+
+  const handleChange = (field: keyof TimeboundStepData, value: any) => {
+    onChange({ [field]: value });
+  };
+
+  const startDate = toDate(data.startDate);
+  const targetDate = toDate(data.targetDate);
+  const deadline = toDate(data.deadline);
+
+  const durationDays =
+    startDate && targetDate
+      ? differenceInCalendarDays(targetDate, startDate)
+      : undefined;
+
+  const sortedMilestones = useMemo(
+    () =>
+      data.milestones
+        .map((milestone, index) => ({ milestone, index }))
+        .sort(
+          (a, b) =>
+            (toDate(a.milestone.date)?.getTime() ?? 0) -
+            (toDate(b.milestone.date)?.getTime() ?? 0)
+        ),
+    [data.milestones]
+  );
+
+  /** Where a date falls on the start-to-target timeline, in percent */
+  const getTimelinePosition = (value?: Date | string) => {
+    const date = toDate(value);
+    if (!date || !startDate || !durationDays || durationDays <= 0) return 0;
+    const offset = differenceInCalendarDays(date, startDate);
+    return Math.min(100, Math.max(0, (offset / durationDays) * 100));
+  };
+
+  const isOutsideTimeline = (value?: Date | string) => {
+    const date = toDate(value);
+    if (!date || !startDate) return false;
+    const end = deadline ?? targetDate;
+    return date < startDate || (end !== undefined && date > end);
+  };
+
+  return (
+    <div className={cn('space-y-8', className)}>
+      {/* Step Header */}
+      <div className="space-y-2">
+        <h2 className="text-2xl font-bold tracking-tight">
+          Make it Time-bound
+        </h2>
+        <p className="text-muted-foreground">
+          Set a clear timeline with a target date, milestones along the way, and
+          any dependencies that affect when you can finish.
+        </p>
+      </div>
+
+      {/* Timeline Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Timeline
+          </CardTitle>
+          <CardDescription>
+            {durationDays !== undefined && durationDays > 0
+              ? `${durationDays} days from start to target`
+              : 'Choose a start and target date to see your timeline'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="bg-muted relative h-2 rounded-full">
+            <div className="bg-primary absolute inset-y-0 left-0 w-full rounded-full opacity-30" />
+            {sortedMilestones.map(({ milestone, index }) => (
+              <div
+                key={index}
+                title={milestone.title}
+                className="bg-primary absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white dark:border-black"
+                style={{ left: `${getTimelinePosition(milestone.date)}%` }}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+            <div>
+              <span className="text-muted-foreground">Start:</span>
+              <div className="font-medium">
+                {startDate ? format(startDate, 'MMM d, yyyy') : '—'}
+              </div>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Target:</span>
+              <div className="font-medium">
+                {targetDate ? format(targetDate, 'MMM d, yyyy') : '—'}
+              </div>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Deadline:</span>
+              <div className="font-medium">
+                {deadline ? format(deadline, 'MMM d, yyyy') : 'None'}
+              </div>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Milestones:</span>
+              <div className="font-medium">{data.milestones.length}</div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Dates */}
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label className="text-base font-semibold">Dates *</Label>
+          <p className="text-muted-foreground text-sm">
+            When will you start, and when do you aim to be done?
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="startDate">Start Date *</Label>
+            <Input
+              id="startDate"
+              type="date"
+              value={toInputValue(data.startDate)}
+              onChange={e =>
+                handleChange('startDate', fromInputValue(e.target.value))
+              }
+              disabled={readOnly}
+              className={cn(
+                errors.startDate && 'border-destructive focus:ring-destructive'
+              )}
+            />
+            {errors.startDate && (
+              <div className="text-destructive text-sm">
+                {errors.startDate[0]}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="targetDate">Target Date *</Label>
+            <Input
+              id="targetDate"
+              type="date"
+              value={toInputValue(data.targetDate)}
+              min={toInputValue(data.startDate)}
+              onChange={e =>
+                handleChange('targetDate', fromInputValue(e.target.value))
+              }
+              disabled={readOnly}
+              className={cn(
+                errors.targetDate && 'border-destructive focus:ring-destructive'
+              )}
+            />
+            {errors.targetDate && (
+              <div className="text-destructive text-sm">
+                {errors.targetDate[0]}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="deadline">Hard Deadline</Label>
+            <Input
+              id="deadline"
+              type="date"
+              value={toInputValue(data.deadline)}
+              min={toInputValue(data.targetDate)}
+              onChange={e =>
+                handleChange('deadline', fromInputValue(e.target.value))
+              }
+              disabled={readOnly}
+              className={cn(
+                errors.deadline && 'border-destructive focus:ring-destructive'
+              )}
+            />
+            {errors.deadline && (
+              <div className="text-destructive text-sm">
+                {errors.deadline[0]}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="max-w-xs space-y-2">
+          <Label htmlFor="bufferDays">Buffer Days</Label>
+          <Input
+            id="bufferDays"
+            type="number"
+            min="0"
+            value={data.bufferDays ?? ''}
+            onChange={e =>
+              handleChange(
+                'bufferDays',
+                e.target.value === '' ? undefined : Number(e.target.value)
+              )
+            }
+            placeholder="e.g., 5"
+            disabled={readOnly}
+          />
+          <p className="text-muted-foreground text-xs">
+            Slack time reserved for unexpected delays
+          </p>
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* Recurrence */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-2">
+            <Label
+              htmlFor="isRecurring"
+              className="flex items-center gap-2 text-base font-semibold"
+            >
+              <Repeat className="h-4 w-4" />
+              Recurring Goal
+            </Label>
+            <p className="text-muted-foreground text-sm">
+              Does this goal repeat on a regular schedule?
+            </p>
+          </div>
+          <Switch
+            id="isRecurring"
+            checked={data.isRecurring}
+            onCheckedChange={checked =>
+              onChange({
+                isRecurring: checked,
+                recurrencePattern: checked
+                  ? data.recurrencePattern || Frequency.MONTHLY
+                  : undefined,
+              })
+            }
+            disabled={readOnly}
+          />
+        </div>
+
+        {data.isRecurring && (
+          <Select
+            value={data.recurrencePattern}
+            onValueChange={value => handleChange('recurrencePattern', value)}
+            disabled={readOnly}
+          >
+            <SelectTrigger className="max-w-xs">
+              <SelectValue placeholder="Select how often" />
+            </SelectTrigger>
+            <SelectContent>
+              {RECURRENCE_OPTIONS.map(frequency => (
+                <SelectItem key={frequency} value={frequency}>
+                  <span className="capitalize">{frequency}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <Separator />
+
+      {/* Milestones */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-2">
+            <Label className="text-base font-semibold">Key Milestones</Label>
+            <p className="text-muted-foreground text-sm">
+              Checkpoints that show you are on track.
+            </p>
+          </div>
+          {!readOnly && (
+            <Button onClick={() => setShowMilestoneForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Milestone
+            </Button>
+          )}
+        </div>
+
+        {showMilestoneForm && !readOnly && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Milestone</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MilestoneForm
+                minDate={toInputValue(data.startDate)}
+                maxDate={toInputValue(data.deadline ?? data.targetDate)}
+                onAdd={milestone => {
+                  handleChange('milestones', [...data.milestones, milestone]);
+                  setShowMilestoneForm(false);
+                }}
+                onCancel={() => setShowMilestoneForm(false)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {sortedMilestones.length > 0 ? (
+          <div className="space-y-3">
+            {sortedMilestones.map(({ milestone, index }) => {
+              const milestoneDate = toDate(milestone.date);
+              const outside = isOutsideTimeline(milestone.date);
+
+              return (
+                <Card key={index}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex flex-1 items-start space-x-3">
+                        <div className="bg-secondary rounded-lg p-2">
+                          <Flag className="text-primary h-4 w-4" />
+                        </div>
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-2">
+                            <h4 className="font-medium">{milestone.title}</h4>
+                            <Badge variant="outline" className="text-xs">
+                              <CalendarDays className="mr-1 h-3 w-3" />
+                              {milestoneDate
+                                ? format(milestoneDate, 'MMM d, yyyy')
+                                : 'No date'}
+                            </Badge>
+                          </div>
+                          {milestone.description && (
+                            <div className="text-muted-foreground mt-1 text-sm">
+                              {milestone.description}
+                            </div>
+                          )}
+                          {outside && (
+                            <div className="mt-1 flex items-center gap-1 text-sm text-amber-600 dark:text-amber-400">
+                              <AlertTriangle className="h-3 w-3" />
+                              Falls outside the goal timeline
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            handleChange(
+                              'milestones',
+                              data.milestones.filter((_, i) => i !== index)
+                            )
+                          }
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-muted-foreground rounded-lg border-2 border-dashed p-6 text-center">
+            <Flag className="mx-auto mb-2 h-8 w-8 opacity-50" />
+            <p>No milestones yet</p>
+            <p className="text-sm">
+              Break the timeline into checkpoints you can track
+            </p>
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      {/* Dependencies */}
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label className="text-base font-semibold">Dependencies</Label>
+          <p className="text-muted-foreground text-sm">
+            Other goals that must progress before this one can finish.
+          </p>
+        </div>
+
+        <DependencyInput
+          dependencies={data.dependencies ?? []}
+          onChange={dependencies => handleChange('dependencies', dependencies)}
+          disabled={readOnly}
+        />
+      </div>
+
+      {/* Warnings and Suggestions */}
+      {(warnings?.length || suggestions?.length) && (
+        <div className="space-y-4">
+          {warnings && warnings.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-amber-600 dark:text-amber-400">
+                Suggestions for improvement:
+              </div>
+              {warnings.map((warning, index) => (
+                <div
+                  key={index}
+                  className="flex items-start space-x-2 text-sm text-amber-700 dark:text-amber-300"
+                >
+                  <div className="mt-2 h-1 w-1 flex-shrink-0 rounded-full bg-amber-500" />
+                  <span>{warning}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {suggestions && suggestions.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-blue-600 dark:text-blue-400">
+                Additional suggestions:
+              </div>
+              {suggestions.map((suggestion, index) => (
+                <div
+                  key={index}
+                  className="flex items-start space-x-2 text-sm text-blue-700 dark:text-blue-300"
+                >
+                  <div className="mt-2 h-1 w-1 flex-shrink-0 rounded-full bg-blue-500" />
+                  <span>{suggestion}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeboundStep;
@@ -105,6 +105,7 @@ export function MetricEditor({
   onSave,
   onCancel,
   readOnly = false,
+  canRecordCheckpoints = !readOnly,
   goalId: _goalId,
   className,
 }: MetricEditorProps): React.JSX.Element {
@@ -210,9 +211,15 @@ export function MetricEditor({
     getValues,
   ]);
 
+  // Users who may only record checkpoints save them with the unchanged metric
+  const checkpointsChanged = checkpoints !== initialCheckpoints;
+  const canSave = readOnly
+    ? canRecordCheckpoints && checkpointsChanged
+    : isValid && isDirty;
+
   // Handle form submission
   const onSubmit = (data: FormData) => {
-    if (readOnly) return;
+    if (!canSave) return;
 
     const measurableSpec = buildMeasurableSpec(data);
     onSave(measurableSpec, checkpoints);
@@ -235,16 +242,11 @@ export function MetricEditor({
             </p>
           </div>
           <div className="flex gap-2">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={onCancel}
-              disabled={readOnly}
-            >
+            <Button type="button" variant="outline" onClick={onCancel}>
               <X className="mr-2 h-4 w-4" />
               Cancel
             </Button>
-            <Button type="submit" disabled={!isValid || !isDirty || readOnly}>
+            <Button type="submit" disabled={!canSave}>
               <Save className="mr-2 h-4 w-4" />
               Save Metric
             </Button>
@@ -730,7 +732,7 @@ export function MetricEditor({
               checkpoints={checkpoints}
               metric={buildMeasurableSpec(getValues())}
               onChange={setCheckpoints}
-              readOnly={readOnly}
+              readOnly={!canRecordCheckpoints}
             />
           </TabsContent>
 
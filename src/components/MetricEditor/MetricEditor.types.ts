@@ -159,6 +159,8 @@ export interface MetricEditorProps {
   onCancel: () => void;
   /** Whether in read-only mode */
   readOnly?: boolean;
+  /** Whether checkpoints can be recorded; defaults to `!readOnly` */
+  canRecordCheckpoints?: boolean;
   /** Goal ID this metric belongs to */
   goalId?: string;
   /** Custom CSS classes */
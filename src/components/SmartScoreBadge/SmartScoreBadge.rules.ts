@@ -0,0 +1,554 @@
+/**
+ * Built-in scoring rules and rule sets for SMART scores
+ */
+
+import { addDays, differenceInCalendarDays, format, isValid } from 'date-fns';
+
+import {
+  ScorableGoal,
+  ScoreRule,
+  ScoreRuleOutcome,
+  ScoreRuleSet,
+  SmartCriterion,
+} from './SmartScoreBadge.types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const hasText = (value: string | undefined | null): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const toDate = (value: Date | string | undefined): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isValid(date) ? date : undefined;
+};
+
+/**
+ * Builds a rule that passes when `check` returns true. Goals missing the
+ * section a check depends on only get a suggestion from the section rule.
+ */
+function presenceRule(
+  id: string,
+  criterion: SmartCriterion,
+  label: string,
+  check: (goal: ScorableGoal) => boolean,
+  messages: { passed: string; failed: string },
+  suggestion?: string | ((goal: ScorableGoal) => string | undefined)
+): ScoreRule {
+  return {
+    id,
+    criterion,
+    label,
+    evaluate: goal => {
+      if (check(goal)) {
+        return { passed: true, message: messages.passed };
+      }
+      return {
+        passed: false,
+        message: messages.failed,
+        suggestion:
+          typeof suggestion === 'function' ? suggestion(goal) : suggestion,
+      };
+    },
+  };
+}
+
+// =============================================================================
+// Presence Rules
+// =============================================================================
+
+/** Checks that mirror the original presence based scoring, 4 per criterion */
+export const PRESENCE_RULES: ScoreRule[] = [
+  presenceRule(
+    'title',
+    'specific',
+    'Title',
+    goal => hasText(goal.title),
+    { passed: 'Title is set', failed: 'Title is missing' },
+    'Add a clear and concise title'
+  ),
+  presenceRule(
+    'description',
+    'specific',
+    'Description',
+    goal => hasText(goal.description),
+    { passed: 'Description is set', failed: 'Description is missing' },
+    'Provide a detailed description'
+  ),
+  presenceRule(
+    'objective',
+    'specific',
+    'Specific objective',
+    goal => hasText(goal.specificObjective),
+    { passed: 'Objective is set', failed: 'Objective is missing' },
+    'Define a specific objective'
+  ),
+  presenceRule(
+    'success-criteria',
+    'specific',
+    'Success criteria',
+    goal => (goal.successCriteria?.length ?? 0) > 0,
+    {
+      passed: 'Success criteria are listed',
+      failed: 'No success criteria',
+    },
+    'Add success criteria'
+  ),
+  presenceRule(
+    'measurable',
+    'measurable',
+    'Measurable specification',
+    goal => Boolean(goal.measurable),
+    {
+      passed: 'Measurable specification is set',
+      failed: 'No measurable specification',
+    },
+    'Add measurable specifications'
+  ),
+  presenceRule(
+    'target-value',
+    'measurable',
+    'Target value',
+    goal => (goal.measurable?.targetValue ?? 0) > 0,
+    {
+      passed: 'Target value is set',
+      failed: 'Target value is missing or not positive',
+    },
+    goal => (goal.measurable ? 'Set a target value' : undefined)
+  ),
+  presenceRule(
+    'unit',
+    'measurable',
+    'Unit',
+    goal => hasText(goal.measurable?.unit),
+    { passed: 'Unit is defined', failed: 'Unit is missing' },
+    goal => (goal.measurable ? 'Define measurement unit' : undefined)
+  ),
+  presenceRule(
+    'measurement-frequency',
+    'measurable',
+    'Measurement frequency',
+    goal => Boolean(goal.measurable?.measurementFrequency),
+    {
+      passed: 'Measurement frequency is set',
+      failed: 'Measurement frequency is missing',
+    },
+    goal => (goal.measurable ? 'Set measurement frequency' : undefined)
+  ),
+  presenceRule(
+    'achievability',
+    'achievable',
+    'Achievability assessment',
+    goal => Boolean(goal.achievability),
+    {
+      passed: 'Achievability is assessed',
+      failed: 'No achievability assessment',
+    },
+    'Add achievability assessment'
+  ),
+  presenceRule(
+    'achievability-score',
+    'achievable',
+    'Achievability score',
+    goal => (goal.achievability?.score ?? 0) >= 0.3,
+    {
+      passed: 'Achievability score is at least 30%',
+      failed: 'Achievability score is below 30%',
+    },
+    goal =>
+      goal.achievability
+        ? 'Improve achievability score or adjust goal scope'
+        : undefined
+  ),
+  presenceRule(
+    'resources',
+    'achievable',
+    'Required resources',
+    goal => (goal.achievability?.requiredResources?.length ?? 0) > 0,
+    {
+      passed: 'Required resources are identified',
+      failed: 'No required resources',
+    },
+    goal => (goal.achievability ? 'Identify required resources' : undefined)
+  ),
+  presenceRule(
+    'skills',
+    'achievable',
+    'Required skills',
+    goal => (goal.achievability?.requiredSkills?.length ?? 0) > 0,
+    { passed: 'Required skills are listed', failed: 'No required skills' },
+    goal => (goal.achievability ? 'List required skills' : undefined)
+  ),
+  presenceRule(
+    'relevance',
+    'relevant',
+    'Relevance assessment',
+    goal => Boolean(goal.relevance),
+    { passed: 'Relevance is assessed', failed: 'No relevance assessment' },
+    'Add relevance assessment'
+  ),
+  presenceRule(
+    'relevance-score',
+    'relevant',
+    'Relevance score',
+    goal => (goal.relevance?.relevanceScore ?? 0) >= 0.6,
+    {
+      passed: 'Relevance score is at least 60%',
+      failed: 'Relevance score is below 60%',
+    },
+    goal =>
+      goal.relevance
+        ? 'Improve relevance or align with strategic goals'
+        : undefined
+  ),
+  presenceRule(
+    'rationale',
+    'relevant',
+    'Rationale',
+    goal => hasText(goal.relevance?.rationale),
+    { passed: 'Rationale is provided', failed: 'Rationale is missing' },
+    goal =>
+      goal.relevance ? 'Provide rationale for why this goal matters' : undefined
+  ),
+  presenceRule(
+    'stakeholders',
+    'relevant',
+    'Stakeholders',
+    goal => (goal.relevance?.stakeholders?.length ?? 0) > 0,
+    {
+      passed: 'Stakeholders are identified',
+      failed: 'No stakeholders identified',
+    },
+    goal => (goal.relevance ? 'Identify affected stakeholders' : undefined)
+  ),
+  presenceRule(
+    'timebound',
+    'timeBound',
+    'Timeline',
+    goal => Boolean(goal.timebound),
+    { passed: 'Timeline is set', failed: 'No timeline' },
+    'Add timebound specifications'
+  ),
+  presenceRule(
+    'start-date',
+    'timeBound',
+    'Start date',
+    goal => Boolean(goal.timebound?.startDate),
+    { passed: 'Start date is set', failed: 'Start date is missing' },
+    goal => (goal.timebound ? 'Set a start date' : undefined)
+  ),
+  presenceRule(
+    'target-date',
+    'timeBound',
+    'Target date',
+    goal => Boolean(goal.timebound?.targetDate),
+    { passed: 'Target date is set', failed: 'Target date is missing' },
+    goal => (goal.timebound ? 'Set a target completion date' : undefined)
+  ),
+  presenceRule(
+    'estimated-duration',
+    'timeBound',
+    'Estimated duration',
+    goal => (goal.timebound?.estimatedDuration ?? 0) > 0,
+    {
+      passed: 'Duration is estimated',
+      failed: 'Duration is not estimated',
+    },
+    goal => (goal.timebound ? 'Estimate duration for the goal' : undefined)
+  ),
+];
+
+// =============================================================================
+// Quality Rules
+// =============================================================================
+
+/** Verbs accepted at the start of an objective by verbLedObjectiveRule */
+export const OBJECTIVE_VERBS: readonly string[] = [
+  'achieve',
+  'adopt',
+  'automate',
+  'build',
+  'complete',
+  'create',
+  'cut',
+  'decrease',
+  'deliver',
+  'deploy',
+  'design',
+  'develop',
+  'document',
+  'double',
+  'earn',
+  'eliminate',
+  'establish',
+  'expand',
+  'finish',
+  'gain',
+  'grow',
+  'hire',
+  'implement',
+  'improve',
+  'increase',
+  'introduce',
+  'launch',
+  'learn',
+  'lose',
+  'lower',
+  'migrate',
+  'obtain',
+  'onboard',
+  'optimize',
+  'pass',
+  'publish',
+  'raise',
+  'reach',
+  'read',
+  'reduce',
+  'release',
+  'replace',
+  'run',
+  'save',
+  'secure',
+  'ship',
+  'standardize',
+  'streamline',
+  'train',
+  'write',
+];
+
+/**
+ * Requires a description of at least `minLength` characters. Shorter
+ * descriptions earn points in proportion to their length.
+ */
+export function minDescriptionLengthRule(minLength = 50): ScoreRule {
+  return {
+    id: 'description-length',
+    criterion: 'specific',
+    label: 'Description length',
+    evaluate: goal => {
+      const length = goal.description?.trim().length ?? 0;
+      if (length >= minLength) {
+        return {
+          passed: true,
+          message: `Description has ${length} characters`,
+        };
+      }
+      return {
+        passed: false,
+        ratio: length / minLength,
+        message: `Description has ${length} of ${minLength} characters`,
+        suggestion:
+          length === 0
+            ? `Describe the goal in at least ${minLength} characters`
+            : `Expand the description by ${minLength - length} characters with context and scope`,
+      };
+    },
+  };
+}
+
+/**
+ * Requires the specific objective to start with an action verb, e.g.
+ * "Reduce churn to 2%". A leading "to" is ignored.
+ */
+export function verbLedObjectiveRule(
+  verbs: readonly string[] = OBJECTIVE_VERBS
+): ScoreRule {
+  const accepted = new Set(verbs.map(verb => verb.toLowerCase()));
+
+  return {
+    id: 'objective-verb',
+    criterion: 'specific',
+    label: 'Action verb',
+    evaluate: goal => {
+      const words = (goal.specificObjective ?? '')
+        .trim()
+        .toLowerCase()
+        .split(/[^a-z]+/)
+        .filter(Boolean);
+      const verb = words[0] === 'to' ? words[1] : words[0];
+
+      if (verb && accepted.has(verb)) {
+        return { passed: true, message: `Objective starts with "${verb}"` };
+      }
+      return {
+        passed: false,
+        message: verb
+          ? `Objective starts with "${verb}", not an action verb`
+          : 'Objective is missing',
+        suggestion: verb
+          ? 'Start the objective with an action verb such as "Increase", "Launch" or "Reduce"'
+          : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Requires the target to be an improvement over the current value in the
+ * direction the metric is measured, and inside its minimum and maximum.
+ */
+export function targetBeyondBaselineRule(): ScoreRule {
+  return {
+    id: 'target-baseline',
+    criterion: 'measurable',
+    label: 'Target vs baseline',
+    evaluate: goal => {
+      const measurable = goal.measurable;
+      if (!measurable) {
+        return { passed: false, message: 'No measurable specification' };
+      }
+
+      const { targetValue, currentValue, minimumValue, maximumValue } =
+        measurable;
+      const unit = hasText(measurable.unit) ? ` ${measurable.unit}` : '';
+
+      if (
+        (minimumValue !== undefined && targetValue < minimumValue) ||
+        (maximumValue !== undefined && targetValue > maximumValue)
+      ) {
+        return {
+          passed: false,
+          message: `Target ${targetValue}${unit} is outside the range ${minimumValue ?? '-∞'} to ${maximumValue ?? '∞'}`,
+          suggestion: 'Set a target within the minimum and maximum values',
+        };
+      }
+
+      const improves = measurable.higherIsBetter
+        ? targetValue > currentValue
+        : targetValue < currentValue;
+      if (improves) {
+        return {
+          passed: true,
+          message: `Target ${targetValue}${unit} improves on the current ${currentValue}${unit}`,
+        };
+      }
+      return {
+        passed: false,
+        message: `Target ${targetValue}${unit} is not ${measurable.higherIsBetter ? 'above' : 'below'} the current ${currentValue}${unit}`,
+        suggestion: measurable.higherIsBetter
+          ? 'Raise the target above the current value, or mark lower values as better'
+          : 'Lower the target below the current value, or mark higher values as better',
+      };
+    },
+  };
+}
+
+/**
+ * Compares the time between start and target date with the estimated
+ * duration plus buffer. Too little time fails the rule; more than
+ * `slackFactor` times the needed time earns half the points.
+ */
+export function realisticDeadlineRule(slackFactor = 2): ScoreRule {
+  return {
+    id: 'deadline-realism',
+    criterion: 'timeBound',
+    label: 'Realistic deadline',
+    evaluate: (goal): ScoreRuleOutcome => {
+      const start = toDate(goal.timebound?.startDate);
+      const target = toDate(goal.timebound?.targetDate);
+      const estimate = goal.timebound?.estimatedDuration ?? 0;
+
+      if (!start || !target || estimate <= 0) {
+        return {
+          passed: false,
+          message: 'Start date, target date and estimated duration are needed',
+        };
+      }
+
+      const available = differenceInCalendarDays(target, start);
+      const needed = estimate + (goal.timebound?.bufferDays ?? 0);
+
+      if (available < needed) {
+        return {
+          passed: false,
+          message: `${available} days are planned for ${needed} days of work`,
+          suggestion: `Move the target date to ${format(addDays(start, needed), 'MMM d, yyyy')} or reduce the scope`,
+        };
+      }
+      if (available > needed * slackFactor) {
+        return {
+          passed: false,
+          ratio: 0.5,
+          message: `${available} days are planned for ${needed} days of work`,
+          suggestion:
+            'Bring the target date closer or revise the estimate so the deadline keeps urgency',
+        };
+      }
+      return {
+        passed: true,
+        message: `${available} days are planned for ${needed} days of work`,
+      };
+    },
+  };
+}
+
+// =============================================================================
+// Rule Sets
+// =============================================================================
+
+/** Presence checks only; scores every complete goal at 100 */
+export const DEFAULT_RULE_SET: ScoreRuleSet = {
+  id: 'presence',
+  name: 'Presence checks',
+  description: 'Checks that every SMART field is filled in',
+  rules: PRESENCE_RULES,
+};
+
+/**
+ * Adds or replaces rules of a base rule set and drops the rules listed in
+ * `remove`. Added rules replace base rules with the same id in place.
+ */
+export function extendScoreRuleSet(
+  base: ScoreRuleSet,
+  options: {
+    id: string;
+    name: string;
+    description?: string;
+    add?: ScoreRule[];
+    remove?: string[];
+  }
+): ScoreRuleSet {
+  const removed = new Set(options.remove);
+  const added = new Map((options.add ?? []).map(rule => [rule.id, rule]));
+
+  const rules = base.rules
+    .filter(rule => !removed.has(rule.id))
+    .map(rule => {
+      const replacement = added.get(rule.id);
+      added.delete(rule.id);
+      return replacement ?? rule;
+    });
+
+  return {
+    id: options.id,
+    name: options.name,
+    description: options.description ?? base.description,
+    rules: [...rules, ...added.values()],
+  };
+}
+
+/** Presence checks plus checks on the quality of the answers */
+export const THOROUGH_RULE_SET: ScoreRuleSet = extendScoreRuleSet(
+  DEFAULT_RULE_SET,
+  {
+    id: 'thorough',
+    name: 'Thorough review',
+    description:
+      'Also checks description length, verb-led objectives, targets against the baseline and deadline realism',
+    add: [
+      minDescriptionLengthRule(),
+      verbLedObjectiveRule(),
+      targetBeyondBaselineRule(),
+      realisticDeadlineRule(),
+    ],
+    remove: ['description'],
+  }
+);
+
+/** Rule sets that can be picked without configuration */
+export const BUILT_IN_RULE_SETS: ScoreRuleSet[] = [
+  DEFAULT_RULE_SET,
+  THOROUGH_RULE_SET,
+];
@@ -23,8 +23,13 @@ import {
   SmartScoreBadgeProps,
   BadgeSize,
   SmartScoreResult,
+  SmartCriterion,
 } from './SmartScoreBadge.types';
-import { calculateSmartScore, getBadgeVariant } from './SmartScoreBadge.utils';
+import {
+  calculateSmartScore,
+  getActionableExplanations,
+  getBadgeVariant,
+} from './SmartScoreBadge.utils';
 
 /**
  * Size configuration for different badge variants
@@ -50,6 +55,21 @@ const sizeConfig: Record<
   },
 };
 
+/**
+ * Letter and label shown for each criterion in the breakdown
+ */
+const CRITERIA: Array<{
+  criterion: SmartCriterion;
+  label: string;
+  key: string;
+}> = [
+  { criterion: 'specific', label: 'Specific', key: 'S' },
+  { criterion: 'measurable', label: 'Measurable', key: 'M' },
+  { criterion: 'achievable', label: 'Achievable', key: 'A' },
+  { criterion: 'relevant', label: 'Relevant', key: 'R' },
+  { criterion: 'timeBound', label: 'Time-bound', key: 'T' },
+];
+
 /**
  * Renders the tooltip content with score breakdown
  */
@@ -58,6 +78,7 @@ const TooltipContentComponent: React.FC<{
   size: BadgeSize;
 }> = ({ result, size }) => {
   const textClass = sizeConfig[size].text;
+  const actionable = getActionableExplanations(result);
 
   return (
     <div className="max-w-sm space-y-3">
@@ -90,70 +111,61 @@ const TooltipContentComponent: React.FC<{
           Breakdown:
         </h5>
         <div className="space-y-1.5">
-          {[
-            { label: 'Specific', score: result.breakdown.specific, key: 'S' },
-            {
-              label: 'Measurable',
-              score: result.breakdown.measurable,
-              key: 'M',
-            },
-            {
-              label: 'Achievable',
-              score: result.breakdown.achievable,
-              key: 'A',
-            },
-            { label: 'Relevant', score: result.breakdown.relevant, key: 'R' },
-            {
-              label: 'Time-bound',
-              score: result.breakdown.timeBound,
-              key: 'T',
-            },
-          ].map(item => (
-            <div key={item.key} className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <span
-                  className={cn(
-                    'flex h-5 w-5 items-center justify-center rounded-full text-xs font-semibold',
-                    item.score >= 16
-                      ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300'
-                      : item.score >= 12
-                        ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300'
-                        : item.score >= 8
-                          ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300'
-                          : 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300'
-                  )}
-                >
-                  {item.key}
-                </span>
-                <span
-                  className={cn(
-                    textClass === 'text-xs' ? 'text-xs' : 'text-sm'
-                  )}
+          {CRITERIA.filter(item => result.maximums[item.criterion] > 0).map(
+            item => {
+              const score = result.breakdown[item.criterion];
+              const max = result.maximums[item.criterion];
+              return (
+                <div
+                  key={item.key}
+                  className="flex items-center justify-between"
                 >
-                  {item.label}
-                </span>
-              </div>
-              <div className="flex min-w-[60px] items-center gap-2">
-                <Progress
-                  value={(item.score / 20) * 100}
-                  className="h-1.5 w-8"
-                />
-                <span
-                  className={cn(
-                    'font-medium tabular-nums',
-                    textClass === 'text-xs' ? 'text-xs' : 'text-sm'
-                  )}
-                >
-                  {item.score}/20
-                </span>
-              </div>
-            </div>
-          ))}
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={cn(
+                        'flex h-5 w-5 items-center justify-center rounded-full text-xs font-semibold',
+                        score >= max * 0.8
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+                          : score >= max * 0.6
+                            ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300'
+                            : score >= max * 0.4
+                              ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300'
+                              : 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+                      )}
+                    >
+                      {item.key}
+                    </span>
+                    <span
+                      className={cn(
+                        textClass === 'text-xs' ? 'text-xs' : 'text-sm'
+                      )}
+                    >
+                      {item.label}
+                    </span>
+                  </div>
+                  <div className="flex min-w-[60px] items-center gap-2">
+                    <Progress
+                      value={(score / max) * 100}
+                      className="h-1.5 w-8"
+                    />
+                    <span
+                      className={cn(
+                        'font-medium tabular-nums',
+                        textClass === 'text-xs' ? 'text-xs' : 'text-sm'
+                      )}
+                    >
+                      {score}/{max}
+                    </span>
+                  </div>
+                </div>
+              );
+            }
+          )}
         </div>
       </div>
 
       {/* Suggestions */}
-      {result.suggestions.length > 0 && (
+      {actionable.length > 0 && (
         <div className="space-y-2">
           <h5
             className={cn(
@@ -164,9 +176,9 @@ const TooltipContentComponent: React.FC<{
             Suggestions:
           </h5>
           <ul className="space-y-1">
-            {result.suggestions.slice(0, 3).map((suggestion, index) => (
+            {actionable.slice(0, 3).map(explanation => (
               <li
-                key={index}
+                key={explanation.ruleId}
                 className={cn(
                   'text-muted-foreground',
                   textClass === 'text-xs' ? 'text-xs' : 'text-sm',
@@ -174,17 +186,25 @@ const TooltipContentComponent: React.FC<{
                 )}
               >
                 <span className="text-muted-foreground">•</span>
-                <span>{suggestion}</span>
+                <span className="flex-1">
+                  {explanation.suggestion}
+                  <span className="block opacity-75">
+                    {explanation.message}
+                  </span>
+                </span>
+                <span className="font-medium tabular-nums">
+                  +{Math.round(explanation.maxPoints - explanation.points)}
+                </span>
               </li>
             ))}
-            {result.suggestions.length > 3 && (
+            {actionable.length > 3 && (
               <li
                 className={cn(
                   'text-muted-foreground font-medium',
                   textClass === 'text-xs' ? 'text-xs' : 'text-sm'
                 )}
               >
-                +{result.suggestions.length - 3} more suggestions
+                +{actionable.length - 3} more suggestions
               </li>
             )}
           </ul>
@@ -203,13 +223,14 @@ export const SmartScoreBadge: React.FC<SmartScoreBadgeProps> = ({
   showTooltip = true,
   className,
   onScoreCalculated,
+  scoreConfig,
 }) => {
   // Calculate score
   const result = useMemo(() => {
-    const calculatedResult = calculateSmartScore(goal);
+    const calculatedResult = calculateSmartScore(goal, scoreConfig);
     onScoreCalculated?.(calculatedResult);
     return calculatedResult;
-  }, [goal, onScoreCalculated]);
+  }, [goal, scoreConfig, onScoreCalculated]);
 
   const score = result.breakdown.total;
   const variant = getBadgeVariant(score);
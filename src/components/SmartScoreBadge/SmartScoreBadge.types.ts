@@ -4,6 +4,17 @@
 
 import { SmartGoal, SmartGoalCreate } from '@/types/smart-goals.types';
 
+/** Goal objects that can be scored */
+export type ScorableGoal = SmartGoal | SmartGoalCreate;
+
+/** The five SMART criteria a rule can contribute to */
+export type SmartCriterion =
+  | 'specific'
+  | 'measurable'
+  | 'achievable'
+  | 'relevant'
+  | 'timeBound';
+
 /** Size variants for the badge */
 export type BadgeSize = 'sm' | 'md' | 'lg';
 
@@ -31,6 +42,68 @@ export interface SmartScoreResult {
   suggestions: string[];
   /** Overall score category */
   category: 'poor' | 'fair' | 'good' | 'excellent';
+  /** Maximum points for each criterion, taken from the configured weights */
+  maximums: Record<SmartCriterion, number>;
+  /** Outcome of every rule, in rule set order */
+  explanations: ScoreRuleExplanation[];
+}
+
+/** Outcome of evaluating one rule against a goal */
+export interface ScoreRuleOutcome {
+  /** Whether the rule is fully satisfied */
+  passed: boolean;
+  /** Share of the rule's points earned (0-1, default: 1 when passed, else 0) */
+  ratio?: number;
+  /** What the rule found, e.g. "Description has 12 of 50 characters" */
+  message: string;
+  /** What to change to satisfy the rule */
+  suggestion?: string;
+}
+
+/** A single pluggable check contributing to one SMART criterion */
+export interface ScoreRule {
+  /** Unique identifier within a rule set */
+  id: string;
+  /** Criterion the rule contributes to */
+  criterion: SmartCriterion;
+  /** Short human readable name */
+  label: string;
+  /** Weight relative to the other rules of the criterion (default: 1) */
+  weight?: number;
+  /** Checks the goal; must not throw for partially filled goals */
+  evaluate: (goal: ScorableGoal) => ScoreRuleOutcome;
+}
+
+/** Named collection of rules, e.g. an organization's scoring policy */
+export interface ScoreRuleSet {
+  /** Rule set identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** What the rule set checks for */
+  description?: string;
+  /** Rules evaluated in order */
+  rules: ScoreRule[];
+}
+
+/** Explanation of a rule's contribution to the score */
+export interface ScoreRuleExplanation {
+  /** Rule identifier */
+  ruleId: string;
+  /** Criterion the rule contributes to */
+  criterion: SmartCriterion;
+  /** Rule name */
+  label: string;
+  /** Whether the rule is fully satisfied */
+  passed: boolean;
+  /** Points earned */
+  points: number;
+  /** Points available */
+  maxPoints: number;
+  /** What the rule found */
+  message: string;
+  /** What to change to earn the missing points */
+  suggestion?: string;
 }
 
 /** Props for SmartScoreBadge component */
@@ -45,6 +118,8 @@ export interface SmartScoreBadgeProps {
   className?: string;
   /** Callback when score is calculated */
   onScoreCalculated?: (result: SmartScoreResult) => void;
+  /** Scoring rules and weights (default: the presence checks) */
+  scoreConfig?: ScoreConfig;
 }
 
 /** Configuration for score calculation */
@@ -59,4 +134,6 @@ export interface ScoreConfig {
   relevantWeight?: number;
   /** Weight for time-bound criteria (default: 20) */
   timeBoundWeight?: number;
+  /** Rules to score with (default: DEFAULT_RULE_SET) */
+  ruleSet?: ScoreRuleSet;
 }
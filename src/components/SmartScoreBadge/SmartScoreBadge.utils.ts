@@ -2,17 +2,17 @@
  * Utility functions for calculating SMART goal scores
  */
 
-import { SmartGoal, SmartGoalCreate } from '@/types/smart-goals.types';
-
+import { DEFAULT_RULE_SET } from './SmartScoreBadge.rules';
 import {
+  ScorableGoal,
+  ScoreConfig,
+  ScoreRuleExplanation,
+  ScoreRuleOutcome,
+  SmartCriterion,
   SmartScoreBreakdown,
   SmartScoreResult,
-  ScoreConfig,
 } from './SmartScoreBadge.types';
 
-/** Union type for goal objects that can be scored */
-type ScorableGoal = SmartGoal | SmartGoalCreate;
-
 /** Default configuration for score calculation */
 export const DEFAULT_CONFIG: Required<ScoreConfig> = {
   specificWeight: 20,
@@ -20,296 +20,93 @@ export const DEFAULT_CONFIG: Required<ScoreConfig> = {
   achievableWeight: 20,
   relevantWeight: 20,
   timeBoundWeight: 20,
+  ruleSet: DEFAULT_RULE_SET,
 };
 
-/**
- * Calculate the Specific (S) criteria score
- * Checks if title, description, specificObjective, and successCriteria are present
- */
-function calculateSpecificScore(goal: ScorableGoal): number {
-  let score = 0;
-  const maxScore = 20;
-  const criteriaCount = 4;
-  const pointsPerCriteria = maxScore / criteriaCount;
-
-  // Check title (required, must be non-empty)
-  if (goal.title && goal.title.trim().length > 0) {
-    score += pointsPerCriteria;
-  }
-
-  // Check description (required, must be non-empty)
-  if (goal.description && goal.description.trim().length > 0) {
-    score += pointsPerCriteria;
-  }
-
-  // Check specificObjective (required, must be non-empty)
-  if (goal.specificObjective && goal.specificObjective.trim().length > 0) {
-    score += pointsPerCriteria;
-  }
-
-  // Check successCriteria (must be array with at least one item)
-  if (goal.successCriteria && goal.successCriteria.length > 0) {
-    score += pointsPerCriteria;
-  }
-
-  return Math.round(score);
-}
-
-/**
- * Calculate the Measurable (M) criteria score
- * Checks if measurable specs and checkpoints exist
- */
-function calculateMeasurableScore(goal: ScorableGoal): number {
-  let score = 0;
-  const maxScore = 20;
-  const criteriaCount = 4;
-  const pointsPerCriteria = maxScore / criteriaCount;
-
-  // Check if measurable spec exists
-  if (goal.measurable) {
-    score += pointsPerCriteria;
-
-    // Check if target value is set and greater than 0
-    if (
-      goal.measurable.targetValue !== undefined &&
-      goal.measurable.targetValue !== null &&
-      goal.measurable.targetValue > 0
-    ) {
-      score += pointsPerCriteria;
-    }
-
-    // Check if unit is defined
-    if (goal.measurable.unit && goal.measurable.unit.trim().length > 0) {
-      score += pointsPerCriteria;
-    }
-
-    // Check if measurement frequency is set
-    if (goal.measurable.measurementFrequency) {
-      score += pointsPerCriteria;
-    }
-  }
-
-  return Math.round(score);
-}
-
-/**
- * Calculate the Achievable (A) criteria score
- * Checks achievability score and resources
- */
-function calculateAchievableScore(goal: ScorableGoal): number {
-  let score = 0;
-  const maxScore = 20;
-  const criteriaCount = 4;
-  const pointsPerCriteria = maxScore / criteriaCount;
-
-  // Check if achievability assessment exists
-  if (goal.achievability) {
-    score += pointsPerCriteria;
-
-    // Check if achievability score is reasonable (>= 0.3)
-    if (goal.achievability.score >= 0.3) {
-      score += pointsPerCriteria;
-    }
-
-    // Check if required resources are identified
-    if (
-      goal.achievability.requiredResources &&
-      goal.achievability.requiredResources.length > 0
-    ) {
-      score += pointsPerCriteria;
-    }
-
-    // Check if required skills are identified
-    if (
-      goal.achievability.requiredSkills &&
-      goal.achievability.requiredSkills.length > 0
-    ) {
-      score += pointsPerCriteria;
-    }
-  }
-
-  return Math.round(score);
-}
-
-/**
- * Calculate the Relevant (R) criteria score
- * Checks relevance score and stakeholders
- */
-function calculateRelevantScore(goal: ScorableGoal): number {
-  let score = 0;
-  const maxScore = 20;
-  const criteriaCount = 4;
-  const pointsPerCriteria = maxScore / criteriaCount;
-
-  // Check if relevance assessment exists
-  if (goal.relevance) {
-    score += pointsPerCriteria;
-
-    // Check if relevance score is good (>= 0.6)
-    if (goal.relevance.relevanceScore >= 0.6) {
-      score += pointsPerCriteria;
-    }
-
-    // Check if rationale is provided
-    if (
-      goal.relevance.rationale &&
-      goal.relevance.rationale.trim().length > 0
-    ) {
-      score += pointsPerCriteria;
-    }
-
-    // Check if stakeholders are identified
-    if (goal.relevance.stakeholders && goal.relevance.stakeholders.length > 0) {
-      score += pointsPerCriteria;
-    }
-  }
-
-  return Math.round(score);
-}
+/** Criteria in SMART order */
+export const SMART_CRITERIA: SmartCriterion[] = [
+  'specific',
+  'measurable',
+  'achievable',
+  'relevant',
+  'timeBound',
+];
 
 /**
- * Calculate the Time-bound (T) criteria score
- * Checks timebound dates and milestones
+ * Resolve the points available for each criterion. Criteria without rules
+ * in the rule set are worth nothing.
  */
-function calculateTimeBoundScore(goal: ScorableGoal): number {
-  let score = 0;
-  const maxScore = 20;
-  const criteriaCount = 4;
-  const pointsPerCriteria = maxScore / criteriaCount;
-
-  // Check if timebound specification exists
-  if (goal.timebound) {
-    score += pointsPerCriteria;
-
-    // Check if start date is set
-    if (goal.timebound.startDate) {
-      score += pointsPerCriteria;
-    }
-
-    // Check if target date is set
-    if (goal.timebound.targetDate) {
-      score += pointsPerCriteria;
-    }
-
-    // Check if estimated duration is set
-    if (goal.timebound.estimatedDuration > 0) {
-      score += pointsPerCriteria;
-    }
-  }
+function getCriterionMaximums(
+  config: Required<ScoreConfig>
+): Record<SmartCriterion, number> {
+  const weights: Record<SmartCriterion, number> = {
+    specific: config.specificWeight,
+    measurable: config.measurableWeight,
+    achievable: config.achievableWeight,
+    relevant: config.relevantWeight,
+    timeBound: config.timeBoundWeight,
+  };
 
-  return Math.round(score);
+  return Object.fromEntries(
+    SMART_CRITERIA.map(criterion => [
+      criterion,
+      config.ruleSet.rules.some(rule => rule.criterion === criterion)
+        ? Math.max(0, weights[criterion])
+        : 0,
+    ])
+  ) as Record<SmartCriterion, number>;
 }
 
 /**
- * Generate improvement suggestions based on missing criteria
+ * Evaluate every rule and split the criterion points between the rules of
+ * that criterion by rule weight
  */
-function generateSuggestions(
+function explainScore(
   goal: ScorableGoal,
-  breakdown: SmartScoreBreakdown
-): string[] {
-  const suggestions: string[] = [];
-
-  // Specific suggestions
-  if (breakdown.specific < 20) {
-    if (!goal.title || goal.title.trim().length === 0) {
-      suggestions.push('Add a clear and concise title');
-    }
-    if (!goal.description || goal.description.trim().length === 0) {
-      suggestions.push('Provide a detailed description');
-    }
-    if (!goal.specificObjective || goal.specificObjective.trim().length === 0) {
-      suggestions.push('Define a specific objective');
-    }
-    if (!goal.successCriteria || goal.successCriteria.length === 0) {
-      suggestions.push('Add success criteria');
-    }
-  }
-
-  // Measurable suggestions
-  if (breakdown.measurable < 20) {
-    if (!goal.measurable) {
-      suggestions.push('Add measurable specifications');
-    } else {
-      if (
-        goal.measurable.targetValue === undefined ||
-        goal.measurable.targetValue === null ||
-        goal.measurable.targetValue === 0
-      ) {
-        suggestions.push('Set a target value');
-      }
-      if (!goal.measurable.unit || goal.measurable.unit.trim().length === 0) {
-        suggestions.push('Define measurement unit');
-      }
-      if (!goal.measurable.measurementFrequency) {
-        suggestions.push('Set measurement frequency');
-      }
-    }
-  }
+  config: Required<ScoreConfig>,
+  maximums: Record<SmartCriterion, number>
+): ScoreRuleExplanation[] {
+  const { rules } = config.ruleSet;
+  const criterionWeights = new Map<SmartCriterion, number>();
+  rules.forEach(rule =>
+    criterionWeights.set(
+      rule.criterion,
+      (criterionWeights.get(rule.criterion) ?? 0) + (rule.weight ?? 1)
+    )
+  );
 
-  // Achievable suggestions
-  if (breakdown.achievable < 20) {
-    if (!goal.achievability) {
-      suggestions.push('Add achievability assessment');
-    } else {
-      if (goal.achievability.score < 0.3) {
-        suggestions.push('Improve achievability score or adjust goal scope');
-      }
-      if (
-        !goal.achievability.requiredResources ||
-        goal.achievability.requiredResources.length === 0
-      ) {
-        suggestions.push('Identify required resources');
-      }
-      if (
-        !goal.achievability.requiredSkills ||
-        goal.achievability.requiredSkills.length === 0
-      ) {
-        suggestions.push('List required skills');
-      }
-    }
-  }
+  return rules.map(rule => {
+    const totalWeight = criterionWeights.get(rule.criterion) ?? 0;
+    const maxPoints =
+      totalWeight > 0
+        ? (maximums[rule.criterion] * (rule.weight ?? 1)) / totalWeight
+        : 0;
 
-  // Relevant suggestions
-  if (breakdown.relevant < 20) {
-    if (!goal.relevance) {
-      suggestions.push('Add relevance assessment');
-    } else {
-      if (goal.relevance.relevanceScore < 0.6) {
-        suggestions.push('Improve relevance or align with strategic goals');
-      }
-      if (
-        !goal.relevance.rationale ||
-        goal.relevance.rationale.trim().length === 0
-      ) {
-        suggestions.push('Provide rationale for why this goal matters');
-      }
-      if (
-        !goal.relevance.stakeholders ||
-        goal.relevance.stakeholders.length === 0
-      ) {
-        suggestions.push('Identify affected stakeholders');
-      }
+    let outcome: ScoreRuleOutcome;
+    try {
+      outcome = rule.evaluate(goal);
+    } catch {
+      outcome = { passed: false, message: 'Could not be checked' };
     }
-  }
 
-  // Time-bound suggestions
-  if (breakdown.timeBound < 20) {
-    if (!goal.timebound) {
-      suggestions.push('Add timebound specifications');
-    } else {
-      if (!goal.timebound.startDate) {
-        suggestions.push('Set a start date');
-      }
-      if (!goal.timebound.targetDate) {
-        suggestions.push('Set a target completion date');
-      }
-      if (goal.timebound.estimatedDuration <= 0) {
-        suggestions.push('Estimate duration for the goal');
-      }
-    }
-  }
+    const ratio = Math.min(
+      1,
+      Math.max(0, outcome.ratio ?? (outcome.passed ? 1 : 0))
+    );
 
-  return suggestions;
+    return {
+      ruleId: rule.id,
+      criterion: rule.criterion,
+      label: rule.label,
+      passed: outcome.passed,
+      points: maxPoints * ratio,
+      maxPoints,
+      message: outcome.message,
+      ...(outcome.passed || !outcome.suggestion
+        ? {}
+        : { suggestion: outcome.suggestion }),
+    };
+  });
 }
 
 /**
@@ -325,43 +122,78 @@ function getScoreCategory(
 }
 
 /**
- * Calculate the overall SMART score for a goal
+ * Calculate the overall SMART score for a goal. Each criterion is worth its
+ * configured weight and the total is scaled to 100.
  */
 export function calculateSmartScore(
   goal: ScorableGoal,
-  _config: ScoreConfig = {}
+  config: ScoreConfig = {}
 ): SmartScoreResult {
-  // Calculate individual scores
-  const specific = calculateSpecificScore(goal);
-  const measurable = calculateMeasurableScore(goal);
-  const achievable = calculateAchievableScore(goal);
-  const relevant = calculateRelevantScore(goal);
-  const timeBound = calculateTimeBoundScore(goal);
+  const resolved: Required<ScoreConfig> = {
+    specificWeight: config.specificWeight ?? DEFAULT_CONFIG.specificWeight,
+    measurableWeight:
+      config.measurableWeight ?? DEFAULT_CONFIG.measurableWeight,
+    achievableWeight:
+      config.achievableWeight ?? DEFAULT_CONFIG.achievableWeight,
+    relevantWeight: config.relevantWeight ?? DEFAULT_CONFIG.relevantWeight,
+    timeBoundWeight: config.timeBoundWeight ?? DEFAULT_CONFIG.timeBoundWeight,
+    ruleSet: config.ruleSet ?? DEFAULT_CONFIG.ruleSet,
+  };
+  const maximums = getCriterionMaximums(resolved);
+  const explanations = explainScore(goal, resolved, maximums);
+
+  const criterionScore = (criterion: SmartCriterion) =>
+    explanations
+      .filter(explanation => explanation.criterion === criterion)
+      .reduce((sum, explanation) => sum + explanation.points, 0);
 
-  // Calculate total score (each component is already scored out of 20)
-  const total = Math.round(
-    specific + measurable + achievable + relevant + timeBound
+  const earned = SMART_CRITERIA.reduce(
+    (sum, criterion) => sum + criterionScore(criterion),
+    0
   );
+  const available = SMART_CRITERIA.reduce(
+    (sum, criterion) => sum + maximums[criterion],
+    0
+  );
+  const total = available > 0 ? Math.round((earned / available) * 100) : 0;
 
   const breakdown: SmartScoreBreakdown = {
-    specific,
-    measurable,
-    achievable,
-    relevant,
-    timeBound,
+    specific: Math.round(criterionScore('specific')),
+    measurable: Math.round(criterionScore('measurable')),
+    achievable: Math.round(criterionScore('achievable')),
+    relevant: Math.round(criterionScore('relevant')),
+    timeBound: Math.round(criterionScore('timeBound')),
     total,
   };
 
-  const suggestions = generateSuggestions(goal, breakdown);
-  const category = getScoreCategory(total);
+  const suggestions = [
+    ...new Set(
+      explanations.flatMap(explanation =>
+        explanation.suggestion ? [explanation.suggestion] : []
+      )
+    ),
+  ];
 
   return {
     breakdown,
     suggestions,
-    category,
+    category: getScoreCategory(total),
+    maximums,
+    explanations,
   };
 }
 
+/**
+ * Failed rules with a suggestion, the ones worth the most points first
+ */
+export function getActionableExplanations(
+  result: SmartScoreResult
+): ScoreRuleExplanation[] {
+  return result.explanations
+    .filter(explanation => explanation.suggestion)
+    .sort((a, b) => b.maxPoints - b.points - (a.maxPoints - a.points));
+}
+
 /**
  * Get badge variant based on score
  */
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for the built-in SMART scoring rules
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  Frequency,
+  GoalCategory,
+  GoalPriority,
+  GoalStatus,
+  MetricType,
+  SmartGoalCreate,
+} from '@/types/smart-goals.types';
+
+import {
+  DEFAULT_RULE_SET,
+  THOROUGH_RULE_SET,
+  extendScoreRuleSet,
+  minDescriptionLengthRule,
+  realisticDeadlineRule,
+  targetBeyondBaselineRule,
+  verbLedObjectiveRule,
+} from '../SmartScoreBadge.rules';
+import { calculateSmartScore } from '../SmartScoreBadge.utils';
+
+const goal: SmartGoalCreate = {
+  title: 'Reduce churn',
+  description: 'Keep more of our paying customers by fixing onboarding gaps',
+  specificObjective: 'Reduce monthly churn to 2%',
+  successCriteria: ['Churn at or below 2% for two months'],
+  category: GoalCategory.PROFESSIONAL,
+  tags: [],
+  measurable: {
+    metricType: MetricType.PERCENTAGE,
+    targetValue: 2,
+    currentValue: 5,
+    unit: '%',
+    higherIsBetter: false,
+    measurementFrequency: Frequency.MONTHLY,
+  },
+  achievability: {
+    score: 0.7,
+    requiredResources: [],
+    requiredSkills: [],
+    constraints: [],
+    riskAssessment: '',
+    successProbability: 0.7,
+    assessmentConfidence: 0.8,
+    lastAssessedAt: new Date('2026-01-01'),
+    assessedBy: 'user',
+  },
+  relevance: {
+    rationale: 'Churn drives revenue loss',
+    strategyAlignments: [],
+    stakeholders: [],
+    expectedBenefits: [],
+    risksOfNotAchieving: [],
+    relevanceScore: 0.9,
+    valueScore: 0.9,
+    lastReviewedAt: new Date('2026-01-01'),
+    reviewedBy: 'user',
+  },
+  timebound: {
+    startDate: new Date('2026-01-01'),
+    targetDate: new Date('2026-04-01'),
+    estimatedDuration: 60,
+    bufferDays: 10,
+    isRecurring: false,
+  },
+  checkpoints: [],
+  progress: 0,
+  status: GoalStatus.ACTIVE,
+  priority: GoalPriority.HIGH,
+  ownerId: 'user',
+  collaborators: [],
+  childGoalIds: [],
+  tasks: [],
+  milestones: [],
+  outcomes: [],
+  visibility: 'private',
+  isArchived: false,
+  isDeleted: false,
+};
+
+describe('SmartScoreBadge rules', () => {
+  it('earns description points in proportion to its length', () => {
+    const rule = minDescriptionLengthRule(100);
+
+    expect(rule.evaluate(goal)).toEqual({
+      passed: false,
+      ratio: 0.59,
+      message: 'Description has 59 of 100 characters',
+      suggestion:
+        'Expand the description by 41 characters with context and scope',
+    });
+    expect(minDescriptionLengthRule(20).evaluate(goal).passed).toBe(true);
+  });
+
+  it('requires objectives to start with an action verb', () => {
+    const rule = verbLedObjectiveRule();
+
+    expect(rule.evaluate(goal).passed).toBe(true);
+    expect(
+      rule.evaluate({ ...goal, specificObjective: 'To launch the beta' }).passed
+    ).toBe(true);
+    expect(
+      rule.evaluate({ ...goal, specificObjective: 'Churn should go down' })
+    ).toMatchObject({
+      passed: false,
+      message: 'Objective starts with "churn", not an action verb',
+    });
+    expect(verbLedObjectiveRule(['shrink']).evaluate(goal).passed).toBe(false);
+  });
+
+  it('checks the target against the baseline and range', () => {
+    const rule = targetBeyondBaselineRule();
+    const measurable = goal.measurable;
+
+    expect(rule.evaluate(goal)).toEqual({
+      passed: true,
+      message: 'Target 2 % improves on the current 5 %',
+    });
+    expect(
+      rule.evaluate({ ...goal, measurable: { ...measurable, targetValue: 6 } })
+    ).toMatchObject({
+      passed: false,
+      message: 'Target 6 % is not below the current 5 %',
+    });
+    expect(
+      rule.evaluate({
+        ...goal,
+        measurable: { ...measurable, minimumValue: 3 },
+      })
+    ).toMatchObject({
+      passed: false,
+      suggestion: 'Set a target within the minimum and maximum values',
+    });
+  });
+
+  it('compares the planned time with the estimate and buffer', () => {
+    const rule = realisticDeadlineRule();
+    const timebound = goal.timebound;
+
+    expect(rule.evaluate(goal)).toEqual({
+      passed: true,
+      message: '90 days are planned for 70 days of work',
+    });
+    expect(
+      rule.evaluate({
+        ...goal,
+        timebound: { ...timebound, targetDate: new Date('2026-02-01') },
+      })
+    ).toEqual({
+      passed: false,
+      message: '31 days are planned for 70 days of work',
+      suggestion: 'Move the target date to Mar 12, 2026 or reduce the scope',
+    });
+    expect(
+      rule.evaluate({
+        ...goal,
+        timebound: { ...timebound, targetDate: '2026-12-31' as never },
+      })
+    ).toMatchObject({ passed: false, ratio: 0.5 });
+  });
+
+  it('replaces, removes and adds rules when extending a rule set', () => {
+    const extended = extendScoreRuleSet(DEFAULT_RULE_SET, {
+      id: 'org',
+      name: 'Organization',
+      add: [
+        { ...minDescriptionLengthRule(), id: 'title' },
+        verbLedObjectiveRule(),
+      ],
+      remove: ['unit'],
+    });
+
+    const ids = extended.rules.map(rule => rule.id);
+    expect(ids[0]).toBe('title');
+    expect(extended.rules[0].label).toBe('Description length');
+    expect(ids).not.toContain('unit');
+    expect(ids[ids.length - 1]).toBe('objective-verb');
+    expect(DEFAULT_RULE_SET.rules.map(rule => rule.id)).toContain('unit');
+  });
+
+  it('scores quality problems with the thorough rule set', () => {
+    const result = calculateSmartScore(
+      {
+        ...goal,
+        description: 'Churn',
+        timebound: { ...goal.timebound, targetDate: new Date('2026-02-01') },
+      },
+      { ruleSet: THOROUGH_RULE_SET }
+    );
+
+    expect(
+      result.explanations.filter(e => !e.passed).map(e => e.ruleId)
+    ).toEqual([
+      'resources',
+      'skills',
+      'stakeholders',
+      'description-length',
+      'deadline-realism',
+    ]);
+    expect(result.suggestions).toContain(
+      'Move the target date to Mar 12, 2026 or reduce the scope'
+    );
+  });
+});
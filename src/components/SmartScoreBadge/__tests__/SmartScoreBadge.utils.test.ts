@@ -13,8 +13,10 @@ import {
   Frequency,
 } from '@/types/smart-goals.types';
 
+import { ScoreRuleSet } from '../SmartScoreBadge.types';
 import {
   calculateSmartScore,
+  getActionableExplanations,
   getBadgeVariant,
   getScoreColorClasses,
 } from '../SmartScoreBadge.utils';
@@ -273,6 +275,101 @@ describe('SmartScoreBadge Utils', () => {
       // Should have many suggestions but function should return all of them
       expect(result.suggestions.length).toBeGreaterThan(3);
     });
+
+    it('should explain every rule of the rule set', () => {
+      const result = calculateSmartScore({ ...mockBaseGoal, title: '' });
+
+      expect(result.explanations).toHaveLength(20);
+      expect(result.maximums).toEqual({
+        specific: 20,
+        measurable: 20,
+        achievable: 20,
+        relevant: 20,
+        timeBound: 20,
+      });
+      expect(result.explanations[0]).toEqual({
+        ruleId: 'title',
+        criterion: 'specific',
+        label: 'Title',
+        passed: false,
+        points: 0,
+        maxPoints: 5,
+        message: 'Title is missing',
+        suggestion: 'Add a clear and concise title',
+      });
+      expect(getActionableExplanations(result).map(e => e.ruleId)).toEqual([
+        'title',
+      ]);
+    });
+
+    it('should scale configured weights to a total out of 100', () => {
+      const goal: SmartGoal = {
+        ...mockBaseGoal,
+        achievability: undefined as unknown as SmartGoal['achievability'],
+      };
+
+      const result = calculateSmartScore(goal, {
+        specificWeight: 40,
+        achievableWeight: 40,
+      });
+
+      expect(result.breakdown.specific).toBe(40);
+      expect(result.breakdown.achievable).toBe(0);
+      expect(result.maximums.achievable).toBe(40);
+      // 100 of 140 points
+      expect(result.breakdown.total).toBe(71);
+    });
+
+    it('should only score the criteria covered by the rule set', () => {
+      const ruleSet: ScoreRuleSet = {
+        id: 'org',
+        name: 'Organization',
+        rules: [
+          {
+            id: 'owner-tag',
+            criterion: 'relevant',
+            label: 'Team tag',
+            weight: 3,
+            evaluate: goal =>
+              goal.tags.includes('team')
+                ? { passed: true, message: 'Tagged with a team' }
+                : {
+                    passed: false,
+                    message: 'No team tag',
+                    suggestion: 'Tag the goal with its team',
+                  },
+          },
+          {
+            id: 'broken',
+            criterion: 'relevant',
+            label: 'Broken',
+            evaluate: () => {
+              throw new Error('boom');
+            },
+          },
+        ],
+      };
+
+      const result = calculateSmartScore(mockBaseGoal, { ruleSet });
+
+      expect(result.maximums).toMatchObject({ specific: 0, relevant: 20 });
+      expect(result.breakdown).toMatchObject({ specific: 0, relevant: 0 });
+      expect(result.breakdown.total).toBe(0);
+      expect(result.suggestions).toEqual(['Tag the goal with its team']);
+      expect(result.explanations[0].maxPoints).toBe(15);
+      expect(result.explanations[1]).toMatchObject({
+        passed: false,
+        maxPoints: 5,
+        message: 'Could not be checked',
+      });
+
+      const tagged = calculateSmartScore(
+        { ...mockBaseGoal, tags: ['team'] },
+        { ruleSet }
+      );
+      expect(tagged.breakdown.relevant).toBe(15);
+      expect(tagged.breakdown.total).toBe(75);
+    });
   });
 
   describe('getBadgeVariant', () => {
@@ -9,9 +9,28 @@ export type {
   SmartScoreBreakdown,
   SmartScoreResult,
   ScoreConfig,
+  ScorableGoal,
+  SmartCriterion,
+  ScoreRule,
+  ScoreRuleOutcome,
+  ScoreRuleSet,
+  ScoreRuleExplanation,
 } from './SmartScoreBadge.types';
 export {
   calculateSmartScore,
+  getActionableExplanations,
   getBadgeVariant,
   getScoreColorClasses,
 } from './SmartScoreBadge.utils';
+export {
+  BUILT_IN_RULE_SETS,
+  DEFAULT_RULE_SET,
+  OBJECTIVE_VERBS,
+  PRESENCE_RULES,
+  THOROUGH_RULE_SET,
+  extendScoreRuleSet,
+  minDescriptionLengthRule,
+  realisticDeadlineRule,
+  targetBeyondBaselineRule,
+  verbLedObjectiveRule,
+} from './SmartScoreBadge.rules';
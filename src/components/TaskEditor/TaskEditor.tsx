@@ -34,6 +34,8 @@ import {
 } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
+import { getDorDodGate } from '@/lib/api/shared/dor-dod';
+import type { DorDodGate } from '@/types/dor-dod.types';
 // Component imports
 import { TaskStatus, GoalPriority } from '@/types/smart-goals.types';
 import type { Task, Subtask, ChecklistItem } from '@/types/smart-goals.types';
@@ -80,17 +82,23 @@ export function TaskEditor({
   className = '',
   autoSave = true,
   autoSaveDelay = 3000,
+  isReadOnly: isReadOnlyProp = false,
+  dorDod,
+  canOverrideDorDod = false,
+  goal,
 }: TaskEditorProps): React.JSX.Element {
   // =============================================================================
   // State Management
   // =============================================================================
 
   const [currentMode, setCurrentMode] = useState<TaskEditorMode>(mode);
+  const isReadOnly = isReadOnlyProp || currentMode === TaskEditorMode.VIEW;
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | undefined>(undefined);
   const [activeTab, setActiveTab] = useState('details');
   const [isDirty, setIsDirty] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
 
   // Subtasks and checklist state
   const [subtasks, setSubtasks] = useState<Subtask[]>(task?.subtasks || []);
@@ -131,6 +139,18 @@ export function TaskEditor({
 
   const watchedValues = watch();
 
+  // Statuses the task's open DoR/DoD criteria keep it from moving to
+  const statusGates = useMemo(() => {
+    const gates: Partial<Record<TaskStatus, DorDodGate>> = {};
+    if (!task || !dorDod) return gates;
+    for (const status of Object.values(TaskStatus)) {
+      const gate = getDorDodGate(dorDod, task.status, status, { goal, task });
+      if (gate) gates[status] = gate;
+    }
+    return gates;
+  }, [task, dorDod, goal]);
+  const selectedGate = statusGates[watchedValues.status];
+
   // =============================================================================
   // Auto-save functionality
   // =============================================================================
@@ -140,6 +160,7 @@ export function TaskEditor({
       debounce(async () => {
         if (
           autoSave &&
+          !isReadOnly &&
           isDirty &&
           currentMode === TaskEditorMode.EDIT &&
           task
@@ -152,7 +173,7 @@ export function TaskEditor({
           }
         }
       }, autoSaveDelay),
-    [autoSave, isDirty, currentMode, task, autoSaveDelay]
+    [autoSave, isReadOnly, isDirty, currentMode, task, autoSaveDelay]
   );
 
   // =============================================================================
@@ -202,6 +223,19 @@ export function TaskEditor({
           return;
         }
 
+        // Open DoR/DoD criteria need an owner's override with a reason
+        const gate = statusGates[formData.status];
+        if (gate && (!canOverrideDorDod || !overrideReason.trim())) {
+          if (!isAutoSave) {
+            toast.error(
+              canOverrideDorDod
+                ? 'Give a reason for overriding the open criteria'
+                : gate.message
+            );
+          }
+          return;
+        }
+
         // Create task object
         const taskData: Partial<Task> = {
           ...formDataToTask(formData, task),
@@ -218,7 +252,13 @@ export function TaskEditor({
           updatedBy: 'current-user', // TODO: Get from auth
         };
 
-        await onSave(taskData as Task);
+        if (gate) {
+          await onSave(taskData as Task, {
+            dorDodOverride: { reason: overrideReason.trim() },
+          });
+        } else {
+          await onSave(taskData as Task);
+        }
 
         if (!isAutoSave) {
           toast.success('Task saved successfully');
@@ -238,7 +278,17 @@ export function TaskEditor({
         }
       }
     },
-    [getValues, task, goalId, subtasks, checklist, onSave]
+    [
+      getValues,
+      task,
+      goalId,
+      subtasks,
+      checklist,
+      onSave,
+      statusGates,
+      canOverrideDorDod,
+      overrideReason,
+    ]
   );
 
   const handleCancel = useCallback(() => {
@@ -323,7 +373,11 @@ export function TaskEditor({
     <CardHeader>
       <div className="flex items-center justify-between">
         <CardTitle className="flex items-center gap-2">
-          {currentMode === TaskEditorMode.CREATE ? 'Create Task' : 'Edit Task'}
+          {currentMode === TaskEditorMode.CREATE
+            ? 'Create Task'
+            : isReadOnly
+              ? 'Task'
+              : 'Edit Task'}
           {task && (
             <Badge variant="outline" className={getStatusColor(task.status)}>
               {task.status}
@@ -336,7 +390,7 @@ export function TaskEditor({
               Last saved: {format(lastSaved, 'HH:mm:ss')}
             </span>
           )}
-          {currentMode === TaskEditorMode.EDIT && onDelete && (
+          {currentMode === TaskEditorMode.EDIT && !isReadOnly && onDelete && (
             <Button
               variant="destructive"
               size="sm"
@@ -372,7 +426,7 @@ export function TaskEditor({
   );
 
   const renderBasicFields = () => (
-    <div className="grid grid-cols-1 gap-6">
+    <fieldset disabled={isReadOnly} className="grid grid-cols-1 gap-6">
       {/* Title */}
       <div className="space-y-2">
         <Label htmlFor="title">Title *</Label>
@@ -430,7 +484,11 @@ export function TaskEditor({
                 </SelectTrigger>
                 <SelectContent>
                   {Object.values(TaskStatus).map(status => (
-                    <SelectItem key={status} value={status}>
+                    <SelectItem
+                      key={status}
+                      value={status}
+                      disabled={!!statusGates[status] && !canOverrideDorDod}
+                    >
                       <div className="flex items-center gap-2">
                         <span
                           className={`h-2 w-2 rounded-full ${getStatusColor(status)}`}
@@ -474,6 +532,38 @@ export function TaskEditor({
         </div>
       </div>
 
+      {/* Open DoR/DoD criteria blocking the selected status */}
+      {selectedGate && (
+        <Alert variant={canOverrideDorDod ? 'default' : 'destructive'}>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="space-y-2">
+            <p>{selectedGate.message}</p>
+            <ul className="list-disc pl-5 text-sm">
+              {selectedGate.blockingCriteria.map(criterion => (
+                <li key={criterion.id}>{criterion.description}</li>
+              ))}
+            </ul>
+            {canOverrideDorDod ? (
+              <div className="space-y-1">
+                <Label htmlFor="dorDodOverrideReason">Override reason *</Label>
+                <Textarea
+                  id="dorDodOverrideReason"
+                  value={overrideReason}
+                  onChange={event => setOverrideReason(event.target.value)}
+                  placeholder="Why the status may change anyway"
+                  rows={2}
+                  disabled={isReadOnly}
+                />
+              </div>
+            ) : (
+              <p className="text-sm">
+                Complete these criteria, or ask the goal owner to override them.
+              </p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         {/* Assigned To */}
         <div className="space-y-2">
@@ -595,7 +685,7 @@ export function TaskEditor({
           </div>
         </div>
       )}
-    </div>
+    </fieldset>
   );
 
   const renderActionButtons = () => (
@@ -615,24 +705,26 @@ export function TaskEditor({
           disabled={isSaving || isLoading}
         >
           <X className="mr-2 h-4 w-4" />
-          Cancel
-        </Button>
-        <Button
-          onClick={handleSubmit(() => handleSave())}
-          disabled={isSaving || isLoading}
-        >
-          {isSaving ? (
-            <>
-              <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-white" />
-              Saving...
-            </>
-          ) : (
-            <>
-              <Save className="mr-2 h-4 w-4" />
-              Save Task
-            </>
-          )}
+          {isReadOnly ? 'Close' : 'Cancel'}
         </Button>
+        {!isReadOnly && (
+          <Button
+            onClick={handleSubmit(() => handleSave())}
+            disabled={isSaving || isLoading}
+          >
+            {isSaving ? (
+              <>
+                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-white" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                Save Task
+              </>
+            )}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -717,7 +809,7 @@ export function TaskEditor({
                 });
               }}
               availableAssignees={availableAssignees}
-              isReadOnly={currentMode === TaskEditorMode.VIEW}
+              isReadOnly={isReadOnly}
             />
           </TabsContent>
 
@@ -776,7 +868,7 @@ export function TaskEditor({
                 });
               }}
               supportMarkdown={true}
-              isReadOnly={currentMode === TaskEditorMode.VIEW}
+              isReadOnly={isReadOnly}
             />
           </TabsContent>
 
@@ -786,7 +878,7 @@ export function TaskEditor({
               onCriteriaChange={setAcceptanceCriteria}
               supportedFormats={Object.values(AcceptanceCriteriaFormat)}
               showPreview={true}
-              isReadOnly={currentMode === TaskEditorMode.VIEW}
+              isReadOnly={isReadOnly}
             />
           </TabsContent>
         </Tabs>
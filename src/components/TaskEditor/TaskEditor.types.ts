@@ -8,12 +8,15 @@
  * @version 1.0.0
  */
 
+import type { StatusChangeOptions } from '@/lib/api/dor-dod';
+import type { StoredDorDodState } from '@/types/dor-dod.types';
 import {
   Task,
   Subtask,
   ChecklistItem,
   TaskStatus,
   GoalPriority,
+  SmartGoal,
 } from '@/types/smart-goals.types';
 
 // =============================================================================
@@ -336,7 +339,8 @@ export interface TaskEditorProps {
   task?: Task;
   goalId: string;
   mode?: TaskEditorMode;
-  onSave: (task: Task) => Promise<void>;
+  /** `options` carries the owner's override when a DoR/DoD gate is passed */
+  onSave: (task: Task, options?: StatusChangeOptions) => Promise<void>;
   onCancel: () => void;
   onDelete?: (taskId: string) => Promise<void>;
   onStatusChange?: (
@@ -350,6 +354,14 @@ export interface TaskEditorProps {
   className?: string;
   autoSave?: boolean;
   autoSaveDelay?: number; // in milliseconds
+  isReadOnly?: boolean; // e.g. when the user may not manage tasks
+  /** DoR/DoD of the task; statuses its open criteria block are flagged */
+  dorDod?: Pick<
+    StoredDorDodState,
+    'targetType' | 'dorCriteria' | 'dodCriteria'
+  >;
+  canOverrideDorDod?: boolean; // goal owners may move past open criteria
+  goal?: SmartGoal; // read by the conditions of the DoR/DoD criteria
 }
 
 /** SubtaskList component props */
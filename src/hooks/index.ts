@@ -23,6 +23,7 @@ export { default as useGoals, useGoalsByStatus, useGoalsByPriority, useGoalsByCa
 export { default as useGoal, useGoalMutations, useOptimisticGoal } from './useGoal';
 export { default as useMetrics, useMetricsAnalytics, useMetricsTrend, useCreateCheckpoint } from './useMetrics';
 export { default as useTasks, useSubtasks, useOverdueTasks, useCompletedTasks, useTaskStats } from './useTasks';
+export { default as useGoalPermissions } from './useGoalPermissions';
 
 // Re-export types
 export type {
@@ -32,3 +33,4 @@ export type {
 export type { UseGoalOptions, UseGoalResult } from './useGoal';
 export type { UseMetricsOptions, UseMetricsResult } from './useMetrics';
 export type { UseTasksOptions, UseTasksResult, UseSubtasksOptions, UseSubtasksResult } from './useTasks';
+export type { UseGoalPermissionsResult } from './useGoalPermissions';
@@ -0,0 +1,119 @@
+/**
+ * useGoalPermissions Hook - Role-Based Goal Permissions
+ *
+ * This hook resolves what the signed-in user may do on a goal:
+ * - Loading the current user once per page
+ * - Resolving the user's role on the goal
+ * - Applying the permission matrix shared with the API routes
+ *
+ * Every permission is false while the session is loading, so actions stay
+ * hidden until they are known to be allowed. The API enforces the same rules.
+ *
+ * @fileoverview React hook for per-goal roles and permissions
+ * @version 1.0.0
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { authApi } from '@/lib/api/auth';
+import {
+  GOAL_PERMISSIONS,
+  getGoalPermissions,
+  getGoalRole,
+  type GoalAccessSubject,
+  type GoalPermission,
+} from '@/lib/api/shared/goal-access';
+import type { User } from '@/types/auth.types';
+import type { GoalRole } from '@/types/smart-goals.types';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export interface UseGoalPermissionsResult {
+  // Data
+  user: User | null;
+  role: GoalRole | null;
+  permissions: Record<GoalPermission, boolean>;
+
+  // State
+  loading: boolean;
+
+  // Utilities
+  can: (permission: GoalPermission) => boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const NO_PERMISSIONS = Object.fromEntries(
+  GOAL_PERMISSIONS.map(permission => [permission, false])
+) as Record<GoalPermission, boolean>;
+
+// =============================================================================
+// Session Cache
+// =============================================================================
+
+let sessionRequest: Promise<User | null> | null = null;
+
+/** Share one session lookup between every component on the page */
+const loadSessionUser = (): Promise<User | null> => {
+  sessionRequest ??= authApi.getSession().catch(() => {
+    sessionRequest = null;
+    return null;
+  });
+  return sessionRequest;
+};
+
+/** Forget the cached user, e.g. after logging in or out */
+export const resetGoalPermissionsSession = (): void => {
+  sessionRequest = null;
+};
+
+// =============================================================================
+// Main Hook
+// =============================================================================
+
+export function useGoalPermissions(
+  goal: GoalAccessSubject | null | undefined
+): UseGoalPermissionsResult {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSessionUser().then(sessionUser => {
+      if (cancelled) return;
+      setUser(sessionUser);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const userId = loading ? null : (user?.id ?? null);
+
+  const permissions = useMemo(
+    () =>
+      goal && !loading ? getGoalPermissions(goal, userId) : NO_PERMISSIONS,
+    [goal, userId, loading]
+  );
+
+  const role = useMemo(
+    () => (goal ? getGoalRole(goal, userId) : null),
+    [goal, userId]
+  );
+
+  const can = useCallback(
+    (permission: GoalPermission) => permissions[permission],
+    [permissions]
+  );
+
+  return { user, role, permissions, loading, can };
+}
+
+export default useGoalPermissions;
@@ -0,0 +1,507 @@
+/**
+ * API Transport Tests
+ *
+ * @fileoverview Unit tests for the API services running over the transport
+ * @version 1.0.0
+ */
+
+import {
+  createMockMilestone,
+  createMockSmartGoal,
+  createMockTask,
+} from '@/lib/mock-data/smart-goals';
+import {
+  GoalCategory,
+  GoalPriority,
+  GoalStatus,
+  TaskStatus,
+} from '@/types/smart-goals.types';
+
+import { CanvasApi } from '../canvas';
+import type { ApiRequest } from '../client';
+import {
+  DorDodApi,
+  getDorDodGateError,
+  getTemplateImportErrors,
+} from '../dor-dod';
+import { GoalsApi } from '../goals';
+import { MetricsApi } from '../metrics';
+import { createMockTransport } from '../mock';
+import { ReviewsApi } from '../reviews';
+import { TasksApi } from '../tasks';
+import {
+  ApiTransport,
+  getApiTransport,
+  resetApiTransport,
+  setApiTransport,
+} from '../transport';
+
+describe('API transport', () => {
+  afterEach(() => {
+    resetApiTransport();
+  });
+
+  describe('HTTP requests', () => {
+    const createRecordingTransport = (data: unknown = {}) => {
+      const requests: ApiRequest[] = [];
+      const transport: ApiTransport = {
+        request: jest.fn(async (request: ApiRequest) => {
+          requests.push(request);
+          return {
+            data: data as any,
+            status: 200,
+            statusText: 'OK',
+            headers: {},
+          };
+        }),
+      };
+      return { requests, transport };
+    };
+
+    it('uses the registered transport by default', async () => {
+      const { requests, transport } = createRecordingTransport({
+        goals: [],
+        total: 0,
+        page: 1,
+        limit: 20,
+        hasMore: false,
+      });
+      setApiTransport(transport);
+
+      await new GoalsApi().getGoals({
+        filters: { status: [GoalStatus.ACTIVE, GoalStatus.DRAFT] },
+      });
+
+      expect(getApiTransport()).toBe(transport);
+      expect(requests[0]).toMatchObject({
+        method: 'GET',
+        url: '/goals',
+        params: { status: 'active,draft', page: 1, limit: 20 },
+      });
+    });
+
+    it('revives ISO date strings in responses', async () => {
+      const { transport } = createRecordingTransport({
+        id: 'task-1',
+        dueDate: '2026-11-01T00:00:00.000Z',
+        subtasks: [],
+      });
+
+      const task = await new TasksApi(transport).getTask('task-1');
+
+      expect(task.dueDate).toBeInstanceOf(Date);
+      expect(task.dueDate?.toISOString()).toBe('2026-11-01T00:00:00.000Z');
+    });
+
+    it('keeps the HTTP status when wrapping errors', async () => {
+      const transport: ApiTransport = {
+        request: jest.fn(async () => {
+          throw Object.assign(new Error('Goal with id "x" not found'), {
+            status: 404,
+          });
+        }),
+      };
+
+      await expect(new GoalsApi(transport).getGoal('x')).rejects.toMatchObject({
+        message: 'Failed to fetch goal: Goal with id "x" not found',
+        status: 404,
+      });
+    });
+
+    it('groups bulk checkpoint requests by goal', async () => {
+      const { requests, transport } = createRecordingTransport({
+        checkpoints: [],
+        errors: [],
+      });
+
+      await new MetricsApi(transport).bulkCreateCheckpoints([
+        { goalId: 'goal-a', value: 1 },
+        { goalId: 'goal-b', value: 2 },
+        { goalId: 'goal-a', value: 3 },
+      ]);
+
+      expect(requests.map(r => r.url)).toEqual([
+        '/goals/goal-a/checkpoints/bulk',
+        '/goals/goal-b/checkpoints/bulk',
+      ]);
+      expect(requests[0].body).toEqual({
+        checkpoints: [{ value: 1 }, { value: 3 }],
+      });
+    });
+  });
+
+  describe('mock transport', () => {
+    const goal = createMockSmartGoal({
+      id: 'goal-1',
+      title: 'Ship the release',
+      status: GoalStatus.DRAFT,
+      priority: GoalPriority.HIGH,
+      category: GoalCategory.PROFESSIONAL,
+    });
+
+    const createApis = () => {
+      const transport = createMockTransport({ delay: 0, goals: [goal] });
+      return {
+        goals: new GoalsApi(transport),
+        tasks: new TasksApi(transport),
+        metrics: new MetricsApi(transport),
+      };
+    };
+
+    it('serves goals with their tasks and checkpoints', async () => {
+      const apis = createApis();
+
+      const fetched = await apis.goals.getGoal('goal-1');
+
+      expect(fetched.title).toBe('Ship the release');
+      expect(fetched.tasks).toHaveLength(goal.tasks.length);
+      expect(fetched.checkpoints).toHaveLength(goal.checkpoints.length);
+      expect(fetched.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('records lifecycle dates on status changes', async () => {
+      const apis = createApis();
+
+      const updated = await apis.goals.updateGoalStatus(
+        'goal-1',
+        GoalStatus.COMPLETED
+      );
+
+      expect(updated.status).toBe(GoalStatus.COMPLETED);
+      expect(updated.actualCompletionDate).toBeInstanceOf(Date);
+    });
+
+    it('soft deletes and restores goals', async () => {
+      const apis = createApis();
+
+      await apis.goals.deleteGoal('goal-1');
+      await expect(apis.goals.getGoal('goal-1')).rejects.toMatchObject({
+        status: 410,
+      });
+
+      const restored = await apis.goals.restoreGoal('goal-1');
+      expect(restored.isDeleted).toBe(false);
+    });
+
+    it('creates tasks and completes them', async () => {
+      const apis = createApis();
+
+      const task = await apis.tasks.createTask({
+        goalId: 'goal-1',
+        title: 'Write changelog',
+        priority: GoalPriority.MEDIUM,
+      });
+      const withItem = await apis.tasks.addChecklistItem(task.id, 'Review');
+      const completed = await apis.tasks.updateTaskStatus(
+        task.id,
+        TaskStatus.COMPLETED
+      );
+
+      expect(withItem.checklist).toHaveLength(1);
+      expect(completed.progress).toBe(100);
+      expect(completed.completedAt).toBeInstanceOf(Date);
+      expect(await apis.tasks.getTasks('goal-1')).toHaveLength(
+        goal.tasks.length + 1
+      );
+    });
+
+    it('records status changes and validates WIP limits', async () => {
+      const apis = createApis();
+      const task = await apis.tasks.createTask({
+        goalId: 'goal-1',
+        title: 'Track flow',
+        priority: GoalPriority.MEDIUM,
+      });
+
+      const started = await apis.tasks.updateTaskStatus(
+        task.id,
+        TaskStatus.IN_PROGRESS
+      );
+
+      expect(started.statusHistory?.map(change => change.to)).toEqual([
+        TaskStatus.TODO,
+        TaskStatus.IN_PROGRESS,
+      ]);
+      const updated = await apis.goals.updateGoal('goal-1', {
+        board: { wipLimits: { [TaskStatus.IN_PROGRESS]: 2 } },
+      });
+      expect(updated.board?.wipLimits).toEqual({
+        [TaskStatus.IN_PROGRESS]: 2,
+      });
+      await expect(
+        apis.goals.updateGoal('goal-1', {
+          board: { wipLimits: { [TaskStatus.IN_PROGRESS]: 0 } },
+        })
+      ).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('reorders the tasks of a goal', async () => {
+      const apis = createApis();
+      const before = await apis.tasks.getTasks('goal-1');
+      const last = before[before.length - 1];
+
+      const reordered = await apis.tasks.reorderTasks('goal-1', [last.id]);
+
+      expect(reordered[0]).toMatchObject({ id: last.id, order: 1 });
+      expect(reordered.map(task => task.order)).toEqual(
+        before.map((_, index) => index + 1)
+      );
+      await expect(
+        apis.tasks.reorderTasks('goal-1', ['missing'])
+      ).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('records checkpoints and exports them as CSV', async () => {
+      const apis = createApis();
+
+      await apis.metrics.deleteAllCheckpoints('goal-1');
+      await apis.metrics.createCheckpoint({
+        goalId: 'goal-1',
+        value: 42,
+        note: 'Said "done"',
+      });
+
+      expect(await apis.metrics.getLatestValue('goal-1')).toBe(42);
+      const csv = await apis.metrics.exportCheckpoints('goal-1');
+      expect(csv.split('\n')).toHaveLength(2);
+      expect(csv).toContain('"Said ""done"""');
+    });
+
+    it('saves canvas layouts and writes connections back to the goal', async () => {
+      const canvasGoal = createMockSmartGoal({
+        id: 'goal-2',
+        tasks: [createMockTask('goal-2', { id: 'task-1', order: 1 })],
+        milestones: [
+          createMockMilestone('goal-2', { id: 'milestone-1', taskIds: [] }),
+        ],
+      });
+      const transport = createMockTransport({ delay: 0, goals: [canvasGoal] });
+      const canvas = new CanvasApi(transport);
+      const goals = new GoalsApi(transport);
+
+      await canvas.saveLayout('goal-2', {
+        positions: { 'task:task-1': { x: 12, y: 34 } },
+        viewport: { x: 0, y: 0, zoom: 1.5 },
+        showGrid: false,
+      });
+      const layout = await canvas.getLayout('goal-2');
+      expect(layout.positions['task:task-1']).toEqual({ x: 12, y: 34 });
+      expect(layout.updatedAt).toBeInstanceOf(Date);
+
+      const change = await canvas.connect('goal-2', {
+        fromNodeId: 'task:task-1',
+        toNodeId: 'milestone:milestone-1',
+        type: 'contributes',
+      });
+      expect(change.writeBack.milestoneTaskIds).toEqual({
+        'milestone-1': ['task-1'],
+      });
+      expect((await goals.getGoal('goal-2')).milestones[0].taskIds).toEqual([
+        'task-1',
+      ]);
+
+      await canvas.disconnect('goal-2', change.connection.id);
+      expect((await goals.getGoal('goal-2')).milestones[0].taskIds).toEqual([]);
+      await expect(
+        canvas.disconnect('goal-2', 'measures:metric:goal-2->goal:goal-2')
+      ).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('runs a review and reopens the goal on change requests', async () => {
+      const reviewGoal = createMockSmartGoal({
+        id: 'goal-3',
+        ownerId: 'current-user',
+        status: GoalStatus.ACTIVE,
+      });
+      const transport = createMockTransport({ delay: 0, goals: [reviewGoal] });
+      const reviews = new ReviewsApi(transport);
+      const goals = new GoalsApi(transport);
+
+      expect((await reviews.getReview('goal-3')).status).toBe('not_requested');
+      await expect(
+        reviews.decide('goal-3', { decision: 'approve' })
+      ).rejects.toMatchObject({ status: 409 });
+      await expect(
+        reviews.requestReview('goal-3', {
+          reviewerIds: ['someone-else'],
+          requiredApprovals: 1,
+        })
+      ).rejects.toMatchObject({ status: 400 });
+
+      await reviews.requestReview('goal-3', {
+        reviewerIds: ['current-user'],
+        requiredApprovals: 1,
+        message: 'Ready for a look',
+      });
+      const commented = await reviews.addComment('goal-3', {
+        content: 'Looks close',
+        parentId: (await reviews.getReview('goal-3')).comments[0].id,
+      });
+      expect(commented.comments[1].parentId).toBe(commented.comments[0].id);
+
+      const review = await reviews.decide('goal-3', {
+        decision: 'request_changes',
+        comment: 'Tighten the target',
+      });
+      expect(review.status).toBe('changes_requested');
+      expect(review.events.map(event => event.type)).toContain('goal_reopened');
+      expect((await goals.getGoal('goal-3')).status).toBe(GoalStatus.DRAFT);
+    });
+
+    it('keeps DoR/DoD state and an append-only audit log per target', async () => {
+      const goal = createMockSmartGoal({ id: 'goal-4' });
+      const transport = createMockTransport({ delay: 0, goals: [goal] });
+      const dorDod = new DorDodApi(transport);
+      const target = { type: 'goal' as const, id: goal.id };
+
+      const empty = await dorDod.getState(target);
+      expect(empty.dorCriteria).toEqual([]);
+      await expect(
+        dorDod.saveState(target, {
+          ...empty,
+          approvalWorkflow: { comments: [], status: 'approved' },
+        })
+      ).rejects.toMatchObject({ status: 409 });
+
+      const entry = {
+        id: 'audit-1',
+        timestamp: new Date('2026-05-01T12:00:00Z'),
+        action: 'criterion-added' as const,
+        criterionId: 'c-1',
+      };
+      await dorDod.saveState(target, { ...empty, auditLog: [entry] });
+      const saved = await dorDod.saveState(target, {
+        ...empty,
+        auditLog: [{ ...entry, criterionId: 'changed' }],
+      });
+
+      expect(saved.auditLog).toHaveLength(1);
+      expect(saved.auditLog[0]).toMatchObject({
+        criterionId: 'c-1',
+        userId: 'current-user',
+      });
+      expect(await dorDod.listStates({ goalId: goal.id })).toHaveLength(1);
+      expect(await dorDod.getAuditLog({ action: ['criterion-added'] })).toEqual(
+        [expect.objectContaining({ id: 'audit-1', goalId: goal.id })]
+      );
+    });
+
+    it('blocks status changes on open DoR/DoD criteria unless overridden', async () => {
+      const task = createMockTask('goal-5', {
+        id: 'task-9',
+        status: TaskStatus.TODO,
+      });
+      const goal = createMockSmartGoal({ id: 'goal-5', tasks: [task] });
+      const transport = createMockTransport({ delay: 0, goals: [goal] });
+      const tasks = new TasksApi(transport);
+      const dorDod = new DorDodApi(transport);
+      const target = { type: 'task' as const, id: task.id };
+
+      await dorDod.saveState(target, {
+        ...(await dorDod.getState(target)),
+        dorCriteria: [
+          {
+            id: 'estimated',
+            description: 'Task is estimated',
+            category: 'required',
+            isCompleted: false,
+            order: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        ],
+      });
+
+      const blocked = await tasks
+        .updateTaskStatus(task.id, TaskStatus.IN_PROGRESS)
+        .catch(error => error);
+      expect(blocked).toMatchObject({ status: 409 });
+      expect(getDorDodGateError(blocked)?.blockingCriteria).toEqual([
+        {
+          definition: 'dor',
+          id: 'estimated',
+          description: 'Task is estimated',
+        },
+      ]);
+
+      const started = await tasks.updateTaskStatus(
+        task.id,
+        TaskStatus.IN_PROGRESS,
+        { dorDodOverride: { reason: 'Estimate follows' } }
+      );
+      expect(started.status).toBe(TaskStatus.IN_PROGRESS);
+      expect(
+        await dorDod.getAuditLog({ action: ['transition-overridden'] })
+      ).toEqual([
+        expect.objectContaining({
+          targetId: task.id,
+          metadata: expect.objectContaining({ reason: 'Estimate follows' }),
+        }),
+      ]);
+    });
+
+    it('keeps a versioned template library and imports template files', async () => {
+      const dorDod = new DorDodApi(createMockTransport({ delay: 0 }));
+      const content = {
+        name: 'Release',
+        description: 'Release checklist',
+        category: 'custom' as const,
+        dorCriteria: [],
+        dodCriteria: [
+          {
+            description: 'Tests pass',
+            category: 'required' as const,
+            order: 1,
+          },
+        ],
+      };
+
+      const created = await dorDod.createTemplate({
+        ...content,
+        visibility: 'private',
+      });
+      const edited = await dorDod.updateTemplate(created.id, {
+        ...content,
+        name: 'Release v2',
+        visibility: 'organization',
+      });
+      expect(edited).toMatchObject({ version: 2, visibility: 'organization' });
+      expect(edited.versions.map(v => [v.version, v.name])).toEqual([
+        [1, 'Release'],
+      ]);
+      expect(await dorDod.restoreTemplateVersion(created.id, 1)).toMatchObject({
+        version: 3,
+        name: 'Release',
+      });
+
+      const imported = await dorDod.importTemplates({
+        content: 'name: Imported\ndodCriteria:\n  - Docs updated\n',
+      });
+      expect(imported[0]).toMatchObject({ name: 'Imported', version: 1 });
+      expect(
+        (await dorDod.listTemplates({ search: 'release' })).map(t => t.id)
+      ).toEqual([created.id]);
+
+      const rejected = await dorDod
+        .importTemplates({ content: '[{"dodCriteria": [{}]}]' })
+        .catch(error => error);
+      expect(getTemplateImportErrors(rejected)).toEqual([
+        { path: '0.name', message: 'is required' },
+        { path: '0.dodCriteria.0.description', message: 'is required' },
+      ]);
+
+      await dorDod.deleteTemplate(created.id);
+      await expect(dorDod.getTemplate(created.id)).rejects.toMatchObject({
+        status: 404,
+      });
+    });
+
+    it('can simulate failures', async () => {
+      const transport = createMockTransport({ delay: 0, errorRate: 1 });
+
+      await expect(
+        new GoalsApi(transport).getGoalStats()
+      ).rejects.toMatchObject({ status: 500 });
+    });
+  });
+});
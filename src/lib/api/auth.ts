@@ -0,0 +1,157 @@
+/**
+ * Auth API Service - Sessions, Registration and Password Reset
+ *
+ * This module provides API services for authentication:
+ * - Login, registration and logout
+ * - Session lookup and refresh
+ * - Password reset by email
+ *
+ * Session tokens live in httpOnly cookies set by the server, so none of
+ * these methods handle tokens directly.
+ *
+ * @fileoverview API service layer for authentication
+ * @version 1.0.0
+ */
+
+import type { User } from '@/types/auth.types';
+
+import { ApiService, wrapApiError } from './transport';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface RegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
+interface UserResponse {
+  user: User;
+}
+
+interface SessionResponse {
+  user: User | null;
+}
+
+interface MessageResponse {
+  message: string;
+}
+
+// =============================================================================
+// Auth API Implementation
+// =============================================================================
+
+export class AuthApi extends ApiService {
+  // =============================================================================
+  // Sessions
+  // =============================================================================
+
+  /**
+   * Log in with email and password
+   */
+  async login(credentials: LoginRequest): Promise<User> {
+    try {
+      const response = await this.send<UserResponse>('POST', '/auth/login', {
+        body: credentials,
+      });
+      return response.user;
+    } catch (error) {
+      throw wrapApiError('log in', error);
+    }
+  }
+
+  /**
+   * Create an account; the new user is logged in
+   */
+  async register(request: RegisterRequest): Promise<User> {
+    try {
+      const response = await this.send<UserResponse>('POST', '/auth/register', {
+        body: request,
+      });
+      return response.user;
+    } catch (error) {
+      throw wrapApiError('register', error);
+    }
+  }
+
+  /**
+   * End the current session
+   */
+  async logout(): Promise<void> {
+    try {
+      await this.send('POST', '/auth/logout');
+    } catch (error) {
+      throw wrapApiError('log out', error);
+    }
+  }
+
+  /**
+   * The signed-in user, or null without a session
+   */
+  async getSession(): Promise<User | null> {
+    try {
+      const response = await this.send<SessionResponse>('GET', '/auth/session');
+      return response.user;
+    } catch (error) {
+      throw wrapApiError('load session', error);
+    }
+  }
+
+  /**
+   * Renew the session cookie using the refresh cookie
+   */
+  async refresh(): Promise<User> {
+    try {
+      const response = await this.send<UserResponse>('POST', '/auth/refresh');
+      return response.user;
+    } catch (error) {
+      throw wrapApiError('refresh session', error);
+    }
+  }
+
+  // =============================================================================
+  // Password Reset
+  // =============================================================================
+
+  /**
+   * Email a password reset link. Resolves for unknown emails too.
+   */
+  async requestPasswordReset(email: string): Promise<string> {
+    try {
+      const response = await this.send<MessageResponse>(
+        'POST',
+        '/auth/forgot',
+        { body: { email } }
+      );
+      return response.message;
+    } catch (error) {
+      throw wrapApiError('request password reset', error);
+    }
+  }
+
+  /**
+   * Set a new password using the token from the reset email
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    try {
+      await this.send('POST', '/auth/reset', { body: { token, password } });
+    } catch (error) {
+      throw wrapApiError('reset password', error);
+    }
+  }
+}
+
+// =============================================================================
+// Default Instance
+// =============================================================================
+
+export const authApi = new AuthApi();
+
+export default authApi;
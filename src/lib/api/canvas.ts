@@ -0,0 +1,126 @@
+/**
+ * Canvas API Service - Goal Canvas Layouts and Connections
+ *
+ * This module provides API services for the goal canvas:
+ * - Loading and saving the layout of a goal
+ * - Connecting and disconnecting canvas nodes
+ *
+ * Connections between tasks and milestones are written back to the goal
+ * (`Task.dependencies`, `Milestone.taskIds`); the response describes every
+ * change so the caller can update its copy of the goal.
+ *
+ * Requests go through the registered API transport (HTTP via `apiClient` by
+ * default, see `./transport`).
+ *
+ * @fileoverview API service layer for the goal canvas
+ * @version 1.0.0
+ */
+
+import type {
+  CanvasConnectionChange,
+  CanvasConnectionDraft,
+  CanvasLayout,
+} from '@/types/canvas.types';
+
+import { ApiService, wrapApiError } from './transport';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export type SaveCanvasLayoutRequest = Pick<
+  CanvasLayout,
+  'positions' | 'viewport' | 'showGrid' | 'algorithm'
+>;
+
+const encode = encodeURIComponent;
+
+// =============================================================================
+// Canvas API Implementation
+// =============================================================================
+
+export class CanvasApi extends ApiService {
+  // =============================================================================
+  // Layouts
+  // =============================================================================
+
+  /**
+   * Get the canvas layout of a goal
+   */
+  async getLayout(goalId: string): Promise<CanvasLayout> {
+    try {
+      return await this.send<CanvasLayout>(
+        'GET',
+        `/goals/${encode(goalId)}/canvas`
+      );
+    } catch (error) {
+      throw wrapApiError('fetch canvas layout', error);
+    }
+  }
+
+  /**
+   * Save node positions, viewport, grid setting and auto layout of a goal
+   * canvas
+   */
+  async saveLayout(
+    goalId: string,
+    layout: SaveCanvasLayoutRequest
+  ): Promise<CanvasLayout> {
+    try {
+      return await this.send<CanvasLayout>(
+        'PUT',
+        `/goals/${encode(goalId)}/canvas`,
+        { body: layout }
+      );
+    } catch (error) {
+      throw wrapApiError('save canvas layout', error);
+    }
+  }
+
+  // =============================================================================
+  // Connections
+  // =============================================================================
+
+  /**
+   * Connect two canvas nodes
+   */
+  async connect(
+    goalId: string,
+    draft: CanvasConnectionDraft
+  ): Promise<CanvasConnectionChange> {
+    try {
+      return await this.send<CanvasConnectionChange>(
+        'POST',
+        `/goals/${encode(goalId)}/canvas/connections`,
+        { body: draft }
+      );
+    } catch (error) {
+      throw wrapApiError('connect canvas nodes', error);
+    }
+  }
+
+  /**
+   * Remove a canvas connection
+   */
+  async disconnect(
+    goalId: string,
+    connectionId: string
+  ): Promise<CanvasConnectionChange> {
+    try {
+      return await this.send<CanvasConnectionChange>(
+        'DELETE',
+        `/goals/${encode(goalId)}/canvas/connections/${encode(connectionId)}`
+      );
+    } catch (error) {
+      throw wrapApiError('remove canvas connection', error);
+    }
+  }
+}
+
+// =============================================================================
+// Default Instance
+// =============================================================================
+
+export const canvasApi = new CanvasApi();
+
+export default canvasApi;
@@ -3,7 +3,7 @@
  *
  * This module provides a centralized HTTP client with:
  * - Request/Response interceptors
- * - Authentication handling
+ * - Authentication handling (session refresh on 401, login redirect)
  * - Error handling and retry logic
  * - Request cancellation
  * - Rate limiting
@@ -13,6 +13,8 @@
  * @version 1.0.0
  */
 
+import { buildLoginPath, isProtectedPage } from '../auth-routes';
+
 // =============================================================================
 // Types and Interfaces
 // =============================================================================
@@ -99,6 +101,7 @@ export class ApiClient {
   private rateLimitTracker: Map<string, number[]> = new Map();
   private cache: Map<string, CacheEntry> = new Map();
   private pendingRequests: Map<string, Promise<ApiResponse>> = new Map();
+  private sessionRefresh: Promise<boolean> | null = null;
 
   constructor(config: Partial<ApiClientConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -196,15 +199,47 @@ export class ApiClient {
   }
 
   private async handleUnauthorized(): Promise<void> {
+    if (typeof window === 'undefined') return;
+
     // Clear auth tokens
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('auth_token');
-      sessionStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_token');
+    sessionStorage.removeItem('auth_token');
+
+    // Pages behind the middleware send the user to log in and come back;
+    // elsewhere the 401 is left to the caller
+    const { pathname, search } = window.location;
+    if (isProtectedPage(pathname)) {
+      console.warn('Authentication required - redirecting to login');
+      window.location.assign(buildLoginPath(`${pathname}${search}`));
     }
+  }
 
-    // Redirect to login or trigger auth refresh
-    // This would typically dispatch an action or call an auth service
-    console.warn('Authentication required - redirecting to login');
+  /**
+   * Try to renew an expired session after a 401 so the request can be sent
+   * again. Concurrent 401s share one refresh; auth endpoints never refresh.
+   */
+  private async recoverSession(request: ApiRequest, error: ApiError): Promise<boolean> {
+    if (
+      error.status !== 401 ||
+      typeof window === 'undefined' ||
+      request.url.replace(/^\//, '').startsWith('auth/')
+    ) {
+      return false;
+    }
+
+    if (!this.sessionRefresh) {
+      this.sessionRefresh = fetch(this.buildUrl('/auth/refresh'), {
+        method: 'POST',
+        credentials: 'same-origin',
+      })
+        .then(response => response.ok)
+        .catch(() => false)
+        .finally(() => {
+          this.sessionRefresh = null;
+        });
+    }
+
+    return this.sessionRefresh;
   }
 
   // =============================================================================
@@ -320,6 +355,7 @@ export class ApiClient {
       error.status = originalError.status;
       error.statusText = originalError.statusText;
       error.response = originalError.response;
+      error.code = originalError.response?.data?.code ?? originalError.code;
       error.isTimeout = originalError.name === 'TimeoutError';
       error.isNetworkError = originalError.name === 'NetworkError' || !originalError.status;
       error.isRetryable = this.isRetryableError(originalError);
@@ -410,21 +446,34 @@ export class ApiClient {
       }
     }
 
-    // Deduplicate requests
-    return this.deduplicateRequest(processedRequest, async () => {
+    const execute = async (): Promise<ApiResponse<T>> => {
       try {
         // Track the request for rate limiting
         this.trackRequest(fullUrl);
 
         // Execute the request with retry logic
-        const response = await this.withRetry(
-          () => this.executeRequest<T>(processedRequest, fullUrl),
-          processedRequest.retryAttempts || this.config.retryAttempts
-        );
+        const send = () =>
+          this.withRetry(
+            () => this.executeRequest<T>(processedRequest, fullUrl),
+            processedRequest.retryAttempts || this.config.retryAttempts
+          );
 
-        // Cache GET responses
+        let response: ApiResponse<T>;
+        try {
+          response = await send();
+        } catch (error) {
+          // An expired session is renewed once before giving up
+          if (!(await this.recoverSession(processedRequest, error as ApiError))) {
+            throw error;
+          }
+          response = await send();
+        }
+
+        // Cache GET responses; a successful write invalidates cached reads
         if (processedRequest.method === 'GET') {
           this.setCachedResponse(cacheKey, response.data);
+        } else {
+          this.clearCache();
         }
 
         // Apply response interceptors
@@ -452,7 +501,12 @@ export class ApiClient {
 
         throw processedError;
       }
-    });
+    };
+
+    // Only reads are deduplicated; concurrent writes may carry different bodies
+    return processedRequest.method === 'GET'
+      ? this.deduplicateRequest(processedRequest, execute)
+      : execute();
   }
 
   // =============================================================================
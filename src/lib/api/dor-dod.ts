@@ -0,0 +1,355 @@
+/**
+ * DoR/DoD API Service - Definition of Ready and Done
+ *
+ * This module provides API services for the DoR/DoD state of goals and
+ * tasks:
+ * - Loading and saving the criteria, approval workflow and time tracking
+ * - Listing saved states across goals
+ * - Querying the audit log across goals
+ * - Managing the shared template library and importing template files
+ *
+ * Requests go through the registered API transport (HTTP via `apiClient` by
+ * default, see `./transport`).
+ *
+ * @fileoverview API service layer for DoR/DoD state
+ * @version 1.0.0
+ */
+
+import type {
+  AuditAction,
+  TemplateCategory,
+} from '@/components/DorDodPanel/DorDodPanel.types';
+import type {
+  DorDodAuditEntry,
+  DorDodDefinition,
+  DorDodTemplateContent,
+  DorDodTemplateVisibility,
+  StoredDorDodState,
+  StoredDorDodTemplate,
+  DorDodTarget,
+  DorDodTargetType,
+} from '@/types/dor-dod.types';
+
+import type { ApiError } from './client';
+import { DOR_DOD_UNMET } from './shared/dor-dod';
+import {
+  INVALID_TEMPLATE_FILE,
+  type TemplateFieldError,
+} from './shared/dor-dod-templates';
+import { ApiService, wrapApiError } from './transport';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+/**
+ * State sent when saving. Audit log entries the server already has are
+ * ignored, so clients can send their whole log.
+ */
+export type SaveDorDodStateRequest = Pick<
+  StoredDorDodState,
+  | 'dorCriteria'
+  | 'dodCriteria'
+  | 'currentTemplate'
+  | 'timeTracking'
+  | 'approvalWorkflow'
+  | 'auditLog'
+>;
+
+/** Moves a goal or task past its unmet DoR/DoD; only goal owners may */
+export interface DorDodOverride {
+  reason: string;
+}
+
+/** Options for changing the status of a goal or task */
+export interface StatusChangeOptions {
+  dorDodOverride?: DorDodOverride;
+}
+
+/** The criteria that blocked a status change, read from a 409 response */
+export interface DorDodGateError {
+  message: string;
+  blockingCriteria: Array<{
+    definition: DorDodDefinition;
+    id: string;
+    description: string;
+  }>;
+}
+
+export interface DorDodStateQuery {
+  goalId?: string;
+  targetType?: DorDodTargetType;
+}
+
+export interface DorDodAuditQuery extends DorDodStateQuery {
+  targetId?: string;
+  action?: AuditAction[];
+  userId?: string;
+  since?: Date;
+  until?: Date;
+  /** Most entries to return, newest first */
+  limit?: number;
+}
+
+export type DorDodTemplateFormat = 'json' | 'yaml';
+
+/** Content and sharing of a library template */
+export type SaveDorDodTemplateRequest = DorDodTemplateContent & {
+  visibility: DorDodTemplateVisibility;
+};
+
+/** A JSON or YAML file with one template or a list of them */
+export interface ImportDorDodTemplatesRequest {
+  content: string;
+  /** Detected from the content when not given */
+  format?: DorDodTemplateFormat;
+  /** Sharing of the imported templates, private by default */
+  visibility?: DorDodTemplateVisibility;
+}
+
+export interface DorDodTemplateQuery {
+  category?: TemplateCategory;
+  visibility?: DorDodTemplateVisibility;
+  /** Matches the name or description */
+  search?: string;
+}
+
+const encode = encodeURIComponent;
+
+const targetPath = (target: DorDodTarget): string =>
+  `/${target.type === 'goal' ? 'goals' : 'tasks'}/${encode(target.id)}/dor-dod`;
+
+const buildQueryParams = (query: DorDodAuditQuery): Record<string, string> => {
+  const params: Record<string, string> = {};
+
+  if (query.goalId) params.goalId = query.goalId;
+  if (query.targetType) params.targetType = query.targetType;
+  if (query.targetId) params.targetId = query.targetId;
+  if (query.action?.length) params.action = query.action.join(',');
+  if (query.userId) params.userId = query.userId;
+  if (query.since) params.since = new Date(query.since).toISOString();
+  if (query.until) params.until = new Date(query.until).toISOString();
+  if (query.limit) params.limit = String(query.limit);
+
+  return params;
+};
+
+/**
+ * The blocking criteria of a status change the server refused, or `null`
+ * when the error has another cause
+ */
+export const getDorDodGateError = (error: unknown): DorDodGateError | null => {
+  const body = (error as ApiError | undefined)?.response?.data;
+  if (body?.code !== DOR_DOD_UNMET) return null;
+
+  const details: Array<{ path: string; message: string }> = body.details ?? [];
+  return {
+    message: body.message,
+    // Paths are `dorCriteria.<id>` or `dodCriteria.<id>`
+    blockingCriteria: details.map(detail => {
+      const dot = detail.path.indexOf('.');
+      return {
+        definition: detail.path.startsWith('dorCriteria') ? 'dor' : 'dod',
+        id: detail.path.slice(dot + 1),
+        description: detail.message,
+      };
+    }),
+  };
+};
+
+/** The problems found in an imported template file, empty for other errors */
+export const getTemplateImportErrors = (
+  error: unknown
+): TemplateFieldError[] => {
+  const body = (error as ApiError | undefined)?.response?.data;
+  return body?.code === INVALID_TEMPLATE_FILE ? (body.details ?? []) : [];
+};
+
+// =============================================================================
+// DoR/DoD API Implementation
+// =============================================================================
+
+export class DorDodApi extends ApiService {
+  /**
+   * Get the DoR/DoD state of a goal or task, empty when none was saved
+   */
+  async getState(target: DorDodTarget): Promise<StoredDorDodState> {
+    try {
+      return await this.send<StoredDorDodState>('GET', targetPath(target));
+    } catch (error) {
+      throw wrapApiError('fetch DoR/DoD state', error);
+    }
+  }
+
+  /**
+   * Save the DoR/DoD state of a goal or task
+   */
+  async saveState(
+    target: DorDodTarget,
+    request: SaveDorDodStateRequest
+  ): Promise<StoredDorDodState> {
+    try {
+      return await this.send<StoredDorDodState>('PUT', targetPath(target), {
+        body: request,
+      });
+    } catch (error) {
+      throw wrapApiError('save DoR/DoD state', error);
+    }
+  }
+
+  /**
+   * List saved DoR/DoD states of the goals the caller can view
+   */
+  async listStates(query: DorDodStateQuery = {}): Promise<StoredDorDodState[]> {
+    try {
+      return await this.send<StoredDorDodState[]>('GET', '/dor-dod', {
+        params: buildQueryParams(query),
+      });
+    } catch (error) {
+      throw wrapApiError('fetch DoR/DoD states', error);
+    }
+  }
+
+  /**
+   * Query the DoR/DoD audit log across the goals the caller can view
+   */
+  async getAuditLog(query: DorDodAuditQuery = {}): Promise<DorDodAuditEntry[]> {
+    try {
+      return await this.send<DorDodAuditEntry[]>('GET', '/dor-dod/audit', {
+        params: buildQueryParams(query),
+      });
+    } catch (error) {
+      throw wrapApiError('fetch DoR/DoD audit log', error);
+    }
+  }
+
+  // =============================================================================
+  // Template Library
+  // =============================================================================
+
+  /**
+   * List the caller's own templates and those shared with the organization
+   */
+  async listTemplates(
+    query: DorDodTemplateQuery = {}
+  ): Promise<StoredDorDodTemplate[]> {
+    const params: Record<string, string> = {};
+    if (query.category) params.category = query.category;
+    if (query.visibility) params.visibility = query.visibility;
+    if (query.search) params.search = query.search;
+
+    try {
+      return await this.send<StoredDorDodTemplate[]>(
+        'GET',
+        '/dor-dod/templates',
+        { params }
+      );
+    } catch (error) {
+      throw wrapApiError('fetch DoR/DoD templates', error);
+    }
+  }
+
+  /**
+   * Get a library template with its earlier versions
+   */
+  async getTemplate(id: string): Promise<StoredDorDodTemplate> {
+    try {
+      return await this.send<StoredDorDodTemplate>(
+        'GET',
+        `/dor-dod/templates/${encode(id)}`
+      );
+    } catch (error) {
+      throw wrapApiError('fetch DoR/DoD template', error);
+    }
+  }
+
+  /**
+   * Add a template to the library, owned by the caller
+   */
+  async createTemplate(
+    request: SaveDorDodTemplateRequest
+  ): Promise<StoredDorDodTemplate> {
+    try {
+      return await this.send<StoredDorDodTemplate>(
+        'POST',
+        '/dor-dod/templates',
+        { body: request }
+      );
+    } catch (error) {
+      throw wrapApiError('create DoR/DoD template', error);
+    }
+  }
+
+  /**
+   * Edit or share a template; changed content becomes a new version
+   */
+  async updateTemplate(
+    id: string,
+    request: SaveDorDodTemplateRequest
+  ): Promise<StoredDorDodTemplate> {
+    try {
+      return await this.send<StoredDorDodTemplate>(
+        'PUT',
+        `/dor-dod/templates/${encode(id)}`,
+        { body: request }
+      );
+    } catch (error) {
+      throw wrapApiError('update DoR/DoD template', error);
+    }
+  }
+
+  /**
+   * Delete a template with all of its versions
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    try {
+      await this.send('DELETE', `/dor-dod/templates/${encode(id)}`);
+    } catch (error) {
+      throw wrapApiError('delete DoR/DoD template', error);
+    }
+  }
+
+  /**
+   * Make an earlier version of a template current again, as a new version
+   */
+  async restoreTemplateVersion(
+    id: string,
+    version: number
+  ): Promise<StoredDorDodTemplate> {
+    try {
+      return await this.send<StoredDorDodTemplate>(
+        'POST',
+        `/dor-dod/templates/${encode(id)}/restore`,
+        { body: { version } }
+      );
+    } catch (error) {
+      throw wrapApiError('restore DoR/DoD template', error);
+    }
+  }
+
+  /**
+   * Add the templates in a JSON or YAML file to the library. A file with
+   * any invalid template is rejected as a whole.
+   */
+  async importTemplates(
+    request: ImportDorDodTemplatesRequest
+  ): Promise<StoredDorDodTemplate[]> {
+    try {
+      return await this.send<StoredDorDodTemplate[]>(
+        'POST',
+        '/dor-dod/templates/import',
+        { body: request }
+      );
+    } catch (error) {
+      throw wrapApiError('import DoR/DoD templates', error);
+    }
+  }
+}
+
+// =============================================================================
+// Default Instance
+// =============================================================================
+
+export const dorDodApi = new DorDodApi();
+
+export default dorDodApi;
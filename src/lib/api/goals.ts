@@ -8,11 +8,13 @@
  * - Status management
  * - Archive operations
  *
+ * Requests go through the registered API transport (HTTP via `apiClient` by
+ * default, see `./transport`).
+ *
  * @fileoverview API service layer for SMART Goals
  * @version 1.0.0
  */
 
-import { createSampleGoalsDataset, createMockSmartGoal } from '@/lib/mock-data/smart-goals';
 import {
   SmartGoal,
   SmartGoalSummary,
@@ -24,6 +26,9 @@ import {
   GoalPriority,
 } from '@/types/smart-goals.types';
 
+import type { StatusChangeOptions } from './dor-dod';
+import type { GoalExportOptions } from './shared/goal-export';
+import { ApiService, wrapApiError } from './transport';
 
 // =============================================================================
 // Types and Interfaces
@@ -55,139 +60,69 @@ export interface BulkOperationResponse {
   }>;
 }
 
-// =============================================================================
-// Mock Data Management
-// =============================================================================
-
-let mockGoals: SmartGoal[] = [];
-
-// Initialize mock data
-const initializeMockData = () => {
-  if (mockGoals.length === 0) {
-    mockGoals = createSampleGoalsDataset(20).map(goal => createMockSmartGoal({ ...goal }));
-  }
-};
+/** Response body of `GET /api/goals` */
+export interface GoalsListResponse {
+  goals: SmartGoal[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
 
-// Helper function to simulate API delay
-const simulateDelay = (ms: number = 500): Promise<void> => {
-  return new Promise(resolve => setTimeout(resolve, ms));
-};
+export interface GoalStats {
+  total: number;
+  byStatus: Record<GoalStatus, number>;
+  byPriority: Record<GoalPriority, number>;
+  completionRate: number;
+}
 
-// Helper function to simulate potential API errors
-const simulateRandomError = (chance: number = 0.05): void => {
-  if (Math.random() < chance) {
-    throw new Error('Simulated API error');
-  }
-};
+/** Largest page size accepted by `GET /api/goals` */
+const MAX_PAGE_SIZE = 100;
 
 // =============================================================================
-// Filtering and Sorting Utilities
+// Request Helpers
 // =============================================================================
 
-const applyFilters = (goals: SmartGoal[], filters: GoalFilters): SmartGoal[] => {
-  let filteredGoals = goals;
+const toGoalQueryParams = (filters: GoalFilters): Record<string, string> => {
+  const params: Record<string, string> = {};
 
-  if (filters.status && filters.status.length > 0) {
-    filteredGoals = filteredGoals.filter(goal =>
-      filters.status!.includes(goal.status)
-    );
-  }
-
-  if (filters.priority && filters.priority.length > 0) {
-    filteredGoals = filteredGoals.filter(goal =>
-      filters.priority!.includes(goal.priority)
-    );
-  }
-
-  if (filters.category && filters.category.length > 0) {
-    filteredGoals = filteredGoals.filter(goal =>
-      filters.category!.includes(goal.category)
-    );
-  }
-
-  if (filters.ownerId && filters.ownerId.length > 0) {
-    filteredGoals = filteredGoals.filter(goal =>
-      filters.ownerId!.includes(goal.ownerId)
-    );
-  }
-
-  if (filters.tags && filters.tags.length > 0) {
-    filteredGoals = filteredGoals.filter(goal =>
-      filters.tags!.some(tag => goal.tags.includes(tag))
-    );
-  }
+  if (filters.status?.length) params.status = filters.status.join(',');
+  if (filters.priority?.length) params.priority = filters.priority.join(',');
+  if (filters.category?.length) params.category = filters.category.join(',');
+  if (filters.ownerId?.length) params.ownerId = filters.ownerId.join(',');
+  if (filters.tags?.length) params.tags = filters.tags.join(',');
 
   if (filters.dateRange) {
-    const { start, end } = filters.dateRange;
-    filteredGoals = filteredGoals.filter(goal => {
-      const goalDate = new Date(goal.createdAt);
-      return goalDate >= start && goalDate <= end;
-    });
-  }
-
-  if (filters.searchQuery) {
-    const query = filters.searchQuery.toLowerCase();
-    filteredGoals = filteredGoals.filter(goal =>
-      goal.title.toLowerCase().includes(query) ||
-      goal.description.toLowerCase().includes(query) ||
-      goal.specificObjective.toLowerCase().includes(query) ||
-      goal.tags.some(tag => tag.toLowerCase().includes(query))
-    );
+    params.startDate = new Date(filters.dateRange.start).toISOString();
+    params.endDate = new Date(filters.dateRange.end).toISOString();
   }
 
-  return filteredGoals;
-};
-
-const applySorting = (goals: SmartGoal[], sort: GoalSort): SmartGoal[] => {
-  return goals.sort((a, b) => {
-    const aValue = a[sort.field];
-    const bValue = b[sort.field];
-
-    // Handle different data types
-    if (aValue instanceof Date && bValue instanceof Date) {
-      const result = aValue.getTime() - bValue.getTime();
-      return sort.direction === 'asc' ? result : -result;
-    }
-
-    if (typeof aValue === 'string' && typeof bValue === 'string') {
-      const result = aValue.localeCompare(bValue);
-      return sort.direction === 'asc' ? result : -result;
-    }
-
-    if (typeof aValue === 'number' && typeof bValue === 'number') {
-      const result = aValue - bValue;
-      return sort.direction === 'asc' ? result : -result;
-    }
+  if (filters.searchQuery) params.search = filters.searchQuery;
 
-    // Fallback to string comparison
-    const result = String(aValue).localeCompare(String(bValue));
-    return sort.direction === 'asc' ? result : -result;
-  });
+  return params;
 };
 
-const applyPagination = <T>(items: T[], page: number, limit: number): PaginatedResponse<T> => {
-  const total = items.length;
-  const totalPages = Math.ceil(total / limit);
-  const startIndex = (page - 1) * limit;
-  const endIndex = startIndex + limit;
-  const data = items.slice(startIndex, endIndex);
-
-  return {
-    data,
-    page,
-    limit,
-    total,
-    totalPages,
-    hasNext: page < totalPages,
-    hasPrev: page > 1,
-  };
-};
+const toGoalSummary = (goal: SmartGoal): SmartGoalSummary => ({
+  id: goal.id,
+  title: goal.title,
+  description: goal.description,
+  status: goal.status,
+  priority: goal.priority,
+  progress: goal.progress,
+  category: goal.category,
+  ownerId: goal.ownerId,
+  timebound: goal.timebound,
+  createdAt: goal.createdAt,
+  updatedAt: goal.updatedAt,
+});
+
+const encode = encodeURIComponent;
 
 // =============================================================================
 // Goals API Implementation
 // =============================================================================
 
-export class GoalsApi {
+export class GoalsApi extends ApiService {
 
   // =============================================================================
   // Read Operations
@@ -198,14 +133,6 @@ export class GoalsApi {
    */
   async getGoals(request: GetGoalsRequest = {}): Promise<PaginatedResponse<SmartGoalSummary>> {
     try {
-      // In a real API, this would make an HTTP request
-      // For now, we'll use mock data and simulate the API behavior
-
-      await simulateDelay(300);
-      simulateRandomError(0.02); // 2% chance of error
-
-      initializeMockData();
-
       const {
         filters = {},
         sort = { field: 'updatedAt', direction: 'desc' },
@@ -213,32 +140,30 @@ export class GoalsApi {
         limit = 20,
       } = request;
 
-      // Apply filters
-      let filteredGoals = applyFilters(mockGoals, filters);
-
-      // Apply sorting
-      filteredGoals = applySorting(filteredGoals, sort);
-
-      // Convert to summary format
-      const goalSummaries: SmartGoalSummary[] = filteredGoals.map(goal => ({
-        id: goal.id,
-        title: goal.title,
-        description: goal.description,
-        status: goal.status,
-        priority: goal.priority,
-        progress: goal.progress,
-        category: goal.category,
-        ownerId: goal.ownerId,
-        timebound: goal.timebound,
-        createdAt: goal.createdAt,
-        updatedAt: goal.updatedAt,
-      }));
-
-      // Apply pagination
-      return applyPagination(goalSummaries, page, limit);
+      const response = await this.send<GoalsListResponse>('GET', '/goals', {
+        params: {
+          ...toGoalQueryParams(filters),
+          sortField: sort.field,
+          sortDirection: sort.direction,
+          page,
+          limit,
+        },
+      });
+
+      const totalPages = Math.ceil(response.total / response.limit);
+
+      return {
+        data: response.goals.map(toGoalSummary),
+        page: response.page,
+        limit: response.limit,
+        total: response.total,
+        totalPages,
+        hasNext: response.hasMore,
+        hasPrev: response.page > 1,
+      };
 
     } catch (error) {
-      throw new Error(`Failed to fetch goals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('fetch goals', error);
     }
   }
 
@@ -247,25 +172,9 @@ export class GoalsApi {
    */
   async getGoal(id: string): Promise<SmartGoal> {
     try {
-      await simulateDelay(200);
-      simulateRandomError(0.02);
-
-      initializeMockData();
-
-      const goal = mockGoals.find(g => g.id === id);
-      if (!goal) {
-        const error = new Error('Goal not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      return { ...goal };
-
+      return await this.send<SmartGoal>('GET', `/goals/${encode(id)}`);
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(`Failed to fetch goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('fetch goal', error);
     }
   }
 
@@ -273,24 +182,14 @@ export class GoalsApi {
    * Get goals by status
    */
   async getGoalsByStatus(status: GoalStatus): Promise<SmartGoalSummary[]> {
-    const result = await this.getGoals({
-      filters: { status: [status] },
-      limit: 1000, // Get all matching goals
-    });
-
-    return result.data;
+    return this.getAllGoals({ status: [status] });
   }
 
   /**
    * Get goals by priority
    */
   async getGoalsByPriority(priority: GoalPriority): Promise<SmartGoalSummary[]> {
-    const result = await this.getGoals({
-      filters: { priority: [priority] },
-      limit: 1000,
-    });
-
-    return result.data;
+    return this.getAllGoals({ priority: [priority] });
   }
 
   /**
@@ -305,6 +204,24 @@ export class GoalsApi {
     return result.data;
   }
 
+  /**
+   * Fetch every goal matching the filters, following pagination
+   */
+  private async getAllGoals(filters: GoalFilters): Promise<SmartGoalSummary[]> {
+    const goals: SmartGoalSummary[] = [];
+    let page = 1;
+    let hasNext = true;
+
+    while (hasNext) {
+      const result = await this.getGoals({ filters, page, limit: MAX_PAGE_SIZE });
+      goals.push(...result.data);
+      hasNext = result.hasNext;
+      page++;
+    }
+
+    return goals;
+  }
+
   // =============================================================================
   // Create Operations
   // =============================================================================
@@ -314,40 +231,9 @@ export class GoalsApi {
    */
   async createGoal(goalData: SmartGoalCreate): Promise<SmartGoal> {
     try {
-      await simulateDelay(800);
-      simulateRandomError(0.03);
-
-      initializeMockData();
-
-      // Create new goal with generated ID and timestamps
-      const now = new Date();
-      const newGoal: SmartGoal = {
-        ...goalData,
-        id: `goal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        createdAt: now,
-        updatedAt: now,
-        createdBy: goalData.ownerId, // In real app, this would come from auth context
-        updatedBy: goalData.ownerId,
-        isDeleted: false,
-        checkpoints: [],
-        tasks: [],
-        milestones: [],
-        outcomes: [],
-        childGoalIds: [],
-        actualStartDate: goalData.status === GoalStatus.ACTIVE ? now : undefined,
-        actualCompletionDate: goalData.status === GoalStatus.COMPLETED ? now : undefined,
-        lastProgressUpdate: now,
-        nextReviewDate: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-        comments: [],
-      };
-
-      // Add to mock data
-      mockGoals.unshift(newGoal);
-
-      return { ...newGoal };
-
+      return await this.send<SmartGoal>('POST', '/goals', { body: goalData });
     } catch (error) {
-      throw new Error(`Failed to create goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('create goal', error);
     }
   }
 
@@ -358,61 +244,29 @@ export class GoalsApi {
   /**
    * Update an existing goal
    */
-  async updateGoal(id: string, updates: Partial<SmartGoalUpdate>): Promise<SmartGoal> {
+  async updateGoal(
+    id: string,
+    updates: Partial<SmartGoalUpdate> & StatusChangeOptions
+  ): Promise<SmartGoal> {
     try {
-      await simulateDelay(600);
-      simulateRandomError(0.03);
-
-      initializeMockData();
-
-      const goalIndex = mockGoals.findIndex(g => g.id === id);
-      if (goalIndex === -1) {
-        const error = new Error('Goal not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      const existingGoal = mockGoals[goalIndex];
-      const now = new Date();
-
-      // Apply updates
-      const updatedGoal: SmartGoal = {
-        ...existingGoal,
-        ...updates,
-        id: existingGoal.id, // Don't allow ID updates
-        createdAt: existingGoal.createdAt, // Don't allow creation date updates
-        createdBy: existingGoal.createdBy, // Don't allow creator updates
-        updatedAt: now,
-        updatedBy: updates.updatedBy || existingGoal.ownerId,
-        lastProgressUpdate: updates.progress !== undefined ? now : existingGoal.lastProgressUpdate,
-        actualCompletionDate:
-          updates.status === GoalStatus.COMPLETED && existingGoal.status !== GoalStatus.COMPLETED
-            ? now
-            : existingGoal.actualCompletionDate,
-        actualStartDate:
-          updates.status === GoalStatus.ACTIVE && !existingGoal.actualStartDate
-            ? now
-            : existingGoal.actualStartDate,
-      };
-
-      // Update in mock data
-      mockGoals[goalIndex] = updatedGoal;
-
-      return { ...updatedGoal };
-
+      return await this.send<SmartGoal>('PATCH', `/goals/${encode(id)}`, {
+        body: updates,
+      });
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(`Failed to update goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('update goal', error);
     }
   }
 
   /**
-   * Update goal status
+   * Update goal status. Fails with 409 DOR_DOD_UNMET while the goal's DoR
+   * or DoD blocks the new status, unless an override is given.
    */
-  async updateGoalStatus(id: string, status: GoalStatus): Promise<SmartGoal> {
-    return this.updateGoal(id, { status });
+  async updateGoalStatus(
+    id: string,
+    status: GoalStatus,
+    options: StatusChangeOptions = {}
+  ): Promise<SmartGoal> {
+    return this.updateGoal(id, { status, ...options });
   }
 
   /**
@@ -434,39 +288,11 @@ export class GoalsApi {
    */
   async deleteGoal(id: string, permanent: boolean = false): Promise<void> {
     try {
-      await simulateDelay(400);
-      simulateRandomError(0.02);
-
-      initializeMockData();
-
-      const goalIndex = mockGoals.findIndex(g => g.id === id);
-      if (goalIndex === -1) {
-        const error = new Error('Goal not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      if (permanent) {
-        // Hard delete - remove from array
-        mockGoals.splice(goalIndex, 1);
-      } else {
-        // Soft delete - mark as deleted
-        const now = new Date();
-        mockGoals[goalIndex] = {
-          ...mockGoals[goalIndex],
-          isDeleted: true,
-          deletedAt: now,
-          deletedBy: mockGoals[goalIndex].ownerId, // In real app, from auth context
-          updatedAt: now,
-          updatedBy: mockGoals[goalIndex].ownerId,
-        };
-      }
-
+      await this.send('DELETE', `/goals/${encode(id)}`, {
+        params: permanent ? { permanent: true } : undefined,
+      });
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(`Failed to delete goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('delete goal', error);
     }
   }
 
@@ -475,37 +301,9 @@ export class GoalsApi {
    */
   async restoreGoal(id: string): Promise<SmartGoal> {
     try {
-      await simulateDelay(400);
-      simulateRandomError(0.02);
-
-      initializeMockData();
-
-      const goalIndex = mockGoals.findIndex(g => g.id === id && g.isDeleted);
-      if (goalIndex === -1) {
-        const error = new Error('Deleted goal not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      const now = new Date();
-      const restoredGoal: SmartGoal = {
-        ...mockGoals[goalIndex],
-        isDeleted: false,
-        deletedAt: undefined,
-        deletedBy: undefined,
-        updatedAt: now,
-        updatedBy: mockGoals[goalIndex].ownerId,
-      };
-
-      mockGoals[goalIndex] = restoredGoal;
-
-      return { ...restoredGoal };
-
+      return await this.send<SmartGoal>('POST', `/goals/${encode(id)}/restore`);
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(`Failed to restore goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('restore goal', error);
     }
   }
 
@@ -518,17 +316,15 @@ export class GoalsApi {
    */
   async archiveGoal(id: string, reason?: string): Promise<SmartGoal> {
     try {
-      await simulateDelay(400);
-      simulateRandomError(0.02);
-
-      return this.updateGoal(id, {
-        isArchived: true,
-        archivedAt: new Date(),
-        archiveReason: reason,
+      return await this.send<SmartGoal>('PATCH', `/goals/${encode(id)}`, {
+        body: {
+          isArchived: true,
+          archivedAt: new Date(),
+          archiveReason: reason,
+        },
       });
-
     } catch (error) {
-      throw new Error(`Failed to archive goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('archive goal', error);
     }
   }
 
@@ -537,17 +333,16 @@ export class GoalsApi {
    */
   async unarchiveGoal(id: string): Promise<SmartGoal> {
     try {
-      await simulateDelay(400);
-      simulateRandomError(0.02);
-
-      return this.updateGoal(id, {
-        isArchived: false,
-        archivedAt: undefined,
-        archiveReason: undefined,
+      // null rather than undefined so the fields survive JSON encoding
+      return await this.send<SmartGoal>('PATCH', `/goals/${encode(id)}`, {
+        body: {
+          isArchived: false,
+          archivedAt: null,
+          archiveReason: null,
+        },
       });
-
     } catch (error) {
-      throw new Error(`Failed to unarchive goal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('unarchive goal', error);
     }
   }
 
@@ -560,9 +355,6 @@ export class GoalsApi {
    */
   async bulkUpdateStatus(ids: string[], status: GoalStatus): Promise<BulkOperationResponse> {
     try {
-      await simulateDelay(800);
-      simulateRandomError(0.03);
-
       const updatedIds: string[] = [];
       const errors: Array<{ id: string; error: string }> = [];
 
@@ -594,9 +386,6 @@ export class GoalsApi {
    */
   async bulkDelete(ids: string[], permanent: boolean = false): Promise<BulkOperationResponse> {
     try {
-      await simulateDelay(800);
-      simulateRandomError(0.03);
-
       const updatedIds: string[] = [];
       const errors: Array<{ id: string; error: string }> = [];
 
@@ -628,9 +417,6 @@ export class GoalsApi {
    */
   async bulkArchive(ids: string[], reason?: string): Promise<BulkOperationResponse> {
     try {
-      await simulateDelay(800);
-      simulateRandomError(0.03);
-
       const updatedIds: string[] = [];
       const errors: Array<{ id: string; error: string }> = [];
 
@@ -664,68 +450,30 @@ export class GoalsApi {
   /**
    * Get goal statistics
    */
-  async getGoalStats(): Promise<{
-    total: number;
-    byStatus: Record<GoalStatus, number>;
-    byPriority: Record<GoalPriority, number>;
-    completionRate: number;
-  }> {
+  async getGoalStats(): Promise<GoalStats> {
     try {
-      await simulateDelay(300);
-      initializeMockData();
-
-      const activeGoals = mockGoals.filter(g => !g.isDeleted && !g.isArchived);
-      const total = activeGoals.length;
-
-      const byStatus = Object.values(GoalStatus).reduce((acc, status) => {
-        acc[status] = activeGoals.filter(g => g.status === status).length;
-        return acc;
-      }, {} as Record<GoalStatus, number>);
-
-      const byPriority = Object.values(GoalPriority).reduce((acc, priority) => {
-        acc[priority] = activeGoals.filter(g => g.priority === priority).length;
-        return acc;
-      }, {} as Record<GoalPriority, number>);
-
-      const completedGoals = byStatus[GoalStatus.COMPLETED] || 0;
-      const completionRate = total > 0 ? (completedGoals / total) * 100 : 0;
-
-      return {
-        total,
-        byStatus,
-        byPriority,
-        completionRate,
-      };
-
+      return await this.send<GoalStats>('GET', '/goals/stats');
     } catch (error) {
-      throw new Error(`Failed to fetch goal stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapApiError('fetch goal stats', error);
     }
   }
 
   // =============================================================================
-  // Utility Methods
+  // Export
   // =============================================================================
 
   /**
-   * Clear all mock data (for testing)
-   */
-  clearMockData(): void {
-    mockGoals = [];
-  }
-
-  /**
-   * Get all mock data (for testing)
+   * Export a goal as PDF, Markdown, JSON or CSV. The include flags default
+   * to true on the server, so only the ones that are set are sent.
    */
-  getAllMockData(): SmartGoal[] {
-    initializeMockData();
-    return [...mockGoals];
-  }
-
-  /**
-   * Set mock data (for testing)
-   */
-  setMockData(goals: SmartGoal[]): void {
-    mockGoals = [...goals];
+  async exportGoal(id: string, options: GoalExportOptions): Promise<string> {
+    try {
+      return await this.send<string>('GET', `/goals/${encode(id)}/export`, {
+        params: { ...options },
+      });
+    } catch (error) {
+      throw wrapApiError('export goal', error);
+    }
   }
 }
 
@@ -735,4 +483,4 @@ export class GoalsApi {
 
 export const goalsApi = new GoalsApi();
 
-export default goalsApi;
\ No newline at end of file
+export default goalsApi;
@@ -0,0 +1,186 @@
+/**
+ * Mock Canvas Handlers
+ *
+ * In-memory implementation of the goal canvas endpoints used by CanvasApi.
+ *
+ * @fileoverview Canvas routes for the mock API transport
+ * @version 1.0.0
+ */
+
+import type { CanvasLayout, CanvasWriteBack } from '@/types/canvas.types';
+import type { SmartGoal } from '@/types/smart-goals.types';
+
+import {
+  canvasConnectionSchema,
+  saveCanvasLayoutSchema,
+} from '../server/canvas-schemas';
+import {
+  buildCanvasConnections,
+  buildCanvasNodes,
+  createCanvasConnection,
+  createDefaultCanvasLayout,
+  getCanvasConnectionError,
+  planCanvasConnectionChange,
+} from '../shared/canvas';
+
+import { cloneMockValue, withChildren, type MockDataset } from './data';
+import { createMockError, parseMockBody, type MockRouter } from './router';
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+export const registerCanvasRoutes = (
+  router: MockRouter,
+  data: MockDataset
+): void => {
+  const findGoal = (id: string): SmartGoal => {
+    const goal = data.goals.find(g => g.id === id && !g.isDeleted);
+    if (!goal) {
+      throw createMockError(
+        404,
+        `Goal with id "${id}" not found`,
+        'GOAL_NOT_FOUND'
+      );
+    }
+    return withChildren(data, goal);
+  };
+
+  const findLayout = (goalId: string): CanvasLayout =>
+    data.canvasLayouts.find(layout => layout.goalId === goalId) ??
+    createDefaultCanvasLayout(goalId);
+
+  const saveLayout = (layout: CanvasLayout): CanvasLayout => {
+    data.canvasLayouts = [
+      ...data.canvasLayouts.filter(l => l.goalId !== layout.goalId),
+      layout,
+    ];
+    return layout;
+  };
+
+  const applyWriteBack = (
+    goalId: string,
+    layout: CanvasLayout,
+    writeBack: CanvasWriteBack
+  ): void => {
+    const now = new Date();
+
+    data.tasks = data.tasks.map(task =>
+      writeBack.taskDependencies[task.id]
+        ? {
+            ...task,
+            dependencies: writeBack.taskDependencies[task.id],
+            updatedAt: now,
+          }
+        : task
+    );
+
+    data.goals = data.goals.map(goal =>
+      goal.id === goalId
+        ? {
+            ...goal,
+            milestones: goal.milestones.map(milestone =>
+              writeBack.milestoneTaskIds[milestone.id]
+                ? {
+                    ...milestone,
+                    taskIds: writeBack.milestoneTaskIds[milestone.id],
+                    updatedAt: now,
+                  }
+                : milestone
+            ),
+          }
+        : goal
+    );
+
+    if (writeBack.layoutConnections) {
+      saveLayout({
+        ...layout,
+        connections: writeBack.layoutConnections,
+        updatedAt: now,
+      });
+    }
+  };
+
+  router
+    .on('GET', '/goals/:goalId/canvas', ({ params }) => {
+      findGoal(params.goalId);
+      return { data: cloneMockValue(findLayout(params.goalId)) };
+    })
+    .on('PUT', '/goals/:goalId/canvas', ({ params, body }) => {
+      findGoal(params.goalId);
+      const request = parseMockBody(saveCanvasLayoutSchema, body);
+
+      const existing = findLayout(params.goalId);
+      const layout = saveLayout({
+        ...existing,
+        positions: request.positions,
+        viewport: request.viewport,
+        showGrid: request.showGrid ?? existing.showGrid,
+        algorithm: request.algorithm ?? existing.algorithm,
+        updatedAt: new Date(),
+        updatedBy: 'current-user',
+      });
+      return { data: cloneMockValue(layout) };
+    })
+    .on('POST', '/goals/:goalId/canvas/connections', ({ params, body }) => {
+      const goal = findGoal(params.goalId);
+      const draft = parseMockBody(canvasConnectionSchema, body);
+
+      const layout = findLayout(goal.id);
+      const connectionError = getCanvasConnectionError(
+        buildCanvasNodes(goal, layout),
+        buildCanvasConnections(goal, layout),
+        draft
+      );
+      if (connectionError) {
+        throw createMockError(
+          400,
+          connectionError,
+          'INVALID_CANVAS_CONNECTION'
+        );
+      }
+
+      const writeBack = planCanvasConnectionChange(goal, layout, draft, 'add');
+      applyWriteBack(goal.id, layout, writeBack);
+
+      return {
+        status: 201,
+        data: { connection: createCanvasConnection(draft), writeBack },
+      };
+    })
+    .on(
+      'DELETE',
+      '/goals/:goalId/canvas/connections/:connectionId',
+      ({ params }) => {
+        const goal = findGoal(params.goalId);
+        const layout = findLayout(goal.id);
+        const connection = buildCanvasConnections(goal, layout).find(
+          c => c.id === params.connectionId
+        );
+        if (!connection) {
+          throw createMockError(
+            404,
+            `Canvas connection with id "${params.connectionId}" not found`,
+            'CANVAS_CONNECTION_NOT_FOUND'
+          );
+        }
+        if (connection.origin === 'structure') {
+          throw createMockError(
+            400,
+            'Connections implied by the goal structure cannot be removed',
+            'CANVAS_CONNECTION_LOCKED'
+          );
+        }
+
+        const writeBack = planCanvasConnectionChange(
+          goal,
+          layout,
+          connection,
+          'remove'
+        );
+        applyWriteBack(goal.id, layout, writeBack);
+
+        return { data: { connection, writeBack } };
+      }
+    );
+};
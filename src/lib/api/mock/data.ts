@@ -0,0 +1,124 @@
+/**
+ * Mock Dataset - In-memory tables backing the mock API transport
+ *
+ * Goals, tasks, subtasks and checkpoints are kept in separate tables, the
+ * same way the server stores them, and re-assembled by the mock handlers.
+ *
+ * @fileoverview In-memory data for the mock API transport
+ * @version 1.0.0
+ */
+
+import { createSampleGoalsDataset } from '@/lib/mock-data/smart-goals';
+import type { CanvasLayout } from '@/types/canvas.types';
+import type {
+  StoredDorDodState,
+  StoredDorDodTemplate,
+} from '@/types/dor-dod.types';
+import type { GoalReview } from '@/types/review.types';
+import type {
+  MetricCheckpoint,
+  SmartGoal,
+  Subtask,
+  Task,
+} from '@/types/smart-goals.types';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export interface MockDataset {
+  goals: SmartGoal[];
+  tasks: Task[];
+  subtasks: Subtask[];
+  checkpoints: MetricCheckpoint[];
+  canvasLayouts: CanvasLayout[];
+  reviews: GoalReview[];
+  dorDodStates: StoredDorDodState[];
+  dorDodTemplates: StoredDorDodTemplate[];
+}
+
+// =============================================================================
+// Dataset Helpers
+// =============================================================================
+
+/** Deep copy that keeps Date instances, so callers never alias stored data */
+export const cloneMockValue = <T>(value: T): T => {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => cloneMockValue(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = cloneMockValue(item);
+    }
+    return result as T;
+  }
+  return value;
+};
+
+/** Generate an ID in the same format the server uses */
+export const generateMockId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Split goals into normalized tables. Goals keep empty child collections;
+ * the handlers attach the live tasks and checkpoints when reading.
+ */
+export const createMockDataset = (
+  goals: SmartGoal[] = createSampleGoalsDataset(20)
+): MockDataset => {
+  const dataset: MockDataset = {
+    goals: [],
+    tasks: [],
+    subtasks: [],
+    checkpoints: [],
+    canvasLayouts: [],
+    reviews: [],
+    dorDodStates: [],
+    dorDodTemplates: [],
+  };
+
+  cloneMockValue(goals).forEach(goal => {
+    goal.tasks.forEach(task => {
+      dataset.subtasks.push(
+        ...task.subtasks.map(subtask => ({ ...subtask, taskId: task.id }))
+      );
+      dataset.tasks.push({ ...task, goalId: goal.id, subtasks: [] });
+    });
+    dataset.checkpoints.push(
+      ...goal.checkpoints.map(checkpoint => ({
+        ...checkpoint,
+        goalId: goal.id,
+      }))
+    );
+    dataset.goals.push({ ...goal, tasks: [], checkpoints: [] });
+  });
+
+  return dataset;
+};
+
+/** Attach live subtasks to a task */
+export const withSubtasks = (dataset: MockDataset, task: Task): Task => ({
+  ...task,
+  subtasks: dataset.subtasks.filter(
+    subtask => subtask.taskId === task.id && !subtask.isDeleted
+  ),
+});
+
+/** Attach live tasks and checkpoints to a goal */
+export const withChildren = (
+  dataset: MockDataset,
+  goal: SmartGoal
+): SmartGoal => ({
+  ...goal,
+  tasks: dataset.tasks
+    .filter(task => task.goalId === goal.id && !task.isDeleted)
+    .sort((a, b) => a.order - b.order)
+    .map(task => withSubtasks(dataset, task)),
+  checkpoints: dataset.checkpoints
+    .filter(checkpoint => checkpoint.goalId === goal.id)
+    .sort((a, b) => b.recordedDate.getTime() - a.recordedDate.getTime()),
+});
@@ -0,0 +1,323 @@
+/**
+ * Mock DoR/DoD Handlers
+ *
+ * In-memory implementation of the DoR/DoD endpoints used by DorDodApi.
+ * Saves are made as `current-user` and, like the rest of the mock API,
+ * skip the permission checks the server makes. The goal and task handlers
+ * check status changes with `checkMockDorDodGate`. Library templates are
+ * owned by `current-user`, who sees them along with shared ones.
+ *
+ * @fileoverview DoR/DoD routes for the mock API transport
+ * @version 1.0.0
+ */
+
+import type {
+  DorDodTarget,
+  StoredDorDodState,
+  StoredDorDodTemplate,
+} from '@/types/dor-dod.types';
+
+import type { DorDodOverride } from '../dor-dod';
+import {
+  importDorDodTemplatesSchema,
+  restoreDorDodTemplateSchema,
+  saveDorDodStateSchema,
+  saveDorDodTemplateSchema,
+} from '../server/dor-dod-schemas';
+import {
+  applyDorDodUpdate,
+  createDefaultDorDodState,
+  DOR_DOD_UNMET,
+  filterDorDodStates,
+  getDorDodApprovalError,
+  getDorDodGate,
+  getDorDodOverrideError,
+  parseDorDodAuditQuery,
+  queryDorDodAudit,
+  recordDorDodOverride,
+  toDorDodGateDetails,
+} from '../shared/dor-dod';
+import {
+  applyDorDodTemplateUpdate,
+  canEditDorDodTemplate,
+  canViewDorDodTemplate,
+  createDorDodTemplate,
+  filterDorDodTemplates,
+  INVALID_TEMPLATE_FILE,
+  parseDorDodTemplateFile,
+  parseDorDodTemplateQuery,
+  restoreDorDodTemplateVersion,
+} from '../shared/dor-dod-templates';
+
+import { cloneMockValue, generateMockId, type MockDataset } from './data';
+import { createMockError, parseMockBody, type MockRouter } from './router';
+
+const MOCK_USER_ID = 'current-user';
+
+// =============================================================================
+// Transition Gates
+// =============================================================================
+
+/**
+ * Throw the server's error for a status change blocked by open DoR/DoD
+ * criteria, or record the override that lets it through
+ */
+export const checkMockDorDodGate = (
+  data: MockDataset,
+  target: DorDodTarget,
+  goalId: string,
+  fromStatus: string,
+  toStatus: string,
+  override?: DorDodOverride
+): void => {
+  const state =
+    data.dorDodStates.find(
+      s => s.targetType === target.type && s.targetId === target.id
+    ) ?? createDefaultDorDodState(target, goalId);
+  const gate = getDorDodGate(state, fromStatus, toStatus, {
+    goal: data.goals.find(g => g.id === goalId),
+    task:
+      target.type === 'task'
+        ? data.tasks.find(t => t.id === target.id)
+        : undefined,
+  });
+  if (!gate) return;
+
+  if (!override) {
+    throw createMockError(
+      409,
+      gate.message,
+      DOR_DOD_UNMET,
+      toDorDodGateDetails(gate)
+    );
+  }
+  const overrideError = getDorDodOverrideError(override);
+  if (overrideError) {
+    throw createMockError(400, overrideError, 'VALIDATION_FAILED');
+  }
+
+  data.dorDodStates = [
+    ...data.dorDodStates.filter(s => s !== state),
+    recordDorDodOverride(state, gate, override, MOCK_USER_ID),
+  ];
+};
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+export const registerDorDodRoutes = (
+  router: MockRouter,
+  data: MockDataset
+): void => {
+  const findGoalId = (target: DorDodTarget): string => {
+    if (target.type === 'goal') {
+      const goal = data.goals.find(g => g.id === target.id && !g.isDeleted);
+      if (!goal) {
+        throw createMockError(
+          404,
+          `Goal with id "${target.id}" not found`,
+          'GOAL_NOT_FOUND'
+        );
+      }
+      return goal.id;
+    }
+
+    const task = data.tasks.find(t => t.id === target.id && !t.isDeleted);
+    if (!task?.goalId) {
+      throw createMockError(
+        404,
+        `Task with id "${target.id}" not found`,
+        'TASK_NOT_FOUND'
+      );
+    }
+    return task.goalId;
+  };
+
+  const findState = (target: DorDodTarget): StoredDorDodState =>
+    data.dorDodStates.find(
+      state => state.targetType === target.type && state.targetId === target.id
+    ) ?? createDefaultDorDodState(target, findGoalId(target));
+
+  const saveState = (
+    target: DorDodTarget,
+    body: unknown
+  ): StoredDorDodState => {
+    const existing = findState(target);
+    const request = parseMockBody(saveDorDodStateSchema, body);
+    const approvalError = getDorDodApprovalError(existing, request);
+    if (approvalError) {
+      throw createMockError(409, approvalError, 'APPROVAL_NOT_REQUESTED');
+    }
+
+    const state = applyDorDodUpdate(existing, request, MOCK_USER_ID);
+    data.dorDodStates = [
+      ...data.dorDodStates.filter(
+        s => s.targetType !== target.type || s.targetId !== target.id
+      ),
+      state,
+    ];
+    return cloneMockValue(state);
+  };
+
+  const visibleStates = (): StoredDorDodState[] => {
+    const liveGoals = new Set(
+      data.goals.filter(goal => !goal.isDeleted).map(goal => goal.id)
+    );
+    return data.dorDodStates.filter(state => liveGoals.has(state.goalId));
+  };
+
+  router
+    .on('GET', '/goals/:goalId/dor-dod', ({ params }) => {
+      const target: DorDodTarget = { type: 'goal', id: params.goalId };
+      findGoalId(target);
+      return { data: cloneMockValue(findState(target)) };
+    })
+    .on('PUT', '/goals/:goalId/dor-dod', ({ params, body }) => {
+      const target: DorDodTarget = { type: 'goal', id: params.goalId };
+      findGoalId(target);
+      return { data: saveState(target, body) };
+    })
+    .on('GET', '/tasks/:id/dor-dod', ({ params }) => {
+      const target: DorDodTarget = { type: 'task', id: params.id };
+      findGoalId(target);
+      return { data: cloneMockValue(findState(target)) };
+    })
+    .on('PUT', '/tasks/:id/dor-dod', ({ params, body }) => {
+      const target: DorDodTarget = { type: 'task', id: params.id };
+      findGoalId(target);
+      return { data: saveState(target, body) };
+    })
+    .on('GET', '/dor-dod', ({ query }) => ({
+      data: cloneMockValue(
+        filterDorDodStates(visibleStates(), parseDorDodAuditQuery(query))
+      ),
+    }))
+    .on('GET', '/dor-dod/audit', ({ query }) => ({
+      data: cloneMockValue(
+        queryDorDodAudit(visibleStates(), parseDorDodAuditQuery(query))
+      ),
+    }));
+
+  registerDorDodTemplateRoutes(router, data);
+};
+
+const registerDorDodTemplateRoutes = (
+  router: MockRouter,
+  data: MockDataset
+): void => {
+  const findTemplate = (
+    id: string,
+    access: 'view' | 'edit'
+  ): StoredDorDodTemplate => {
+    const template = data.dorDodTemplates.find(t => t.id === id);
+    if (!template || !canViewDorDodTemplate(template, MOCK_USER_ID)) {
+      throw createMockError(
+        404,
+        `Template with id "${id}" not found`,
+        'TEMPLATE_NOT_FOUND'
+      );
+    }
+    if (access === 'edit' && !canEditDorDodTemplate(template, MOCK_USER_ID)) {
+      throw createMockError(
+        403,
+        'Only the owner can change or delete this template',
+        'TEMPLATE_FORBIDDEN'
+      );
+    }
+    return template;
+  };
+
+  const saveTemplate = (
+    template: StoredDorDodTemplate
+  ): StoredDorDodTemplate => {
+    data.dorDodTemplates = [
+      ...data.dorDodTemplates.filter(t => t.id !== template.id),
+      template,
+    ];
+    return cloneMockValue(template);
+  };
+
+  router
+    .on('GET', '/dor-dod/templates', ({ query }) => ({
+      data: cloneMockValue(
+        filterDorDodTemplates(
+          data.dorDodTemplates,
+          MOCK_USER_ID,
+          parseDorDodTemplateQuery(query)
+        )
+      ),
+    }))
+    .on('POST', '/dor-dod/templates', ({ body }) => ({
+      status: 201,
+      data: saveTemplate(
+        createDorDodTemplate(
+          parseMockBody(saveDorDodTemplateSchema, body),
+          generateMockId('dor-dod-template'),
+          MOCK_USER_ID
+        )
+      ),
+    }))
+    .on('POST', '/dor-dod/templates/import', ({ body }) => {
+      const { content, format, visibility } = parseMockBody(
+        importDorDodTemplatesSchema,
+        body
+      );
+      const result = parseDorDodTemplateFile(content, format);
+      if (result.errors) {
+        throw createMockError(
+          400,
+          'The file does not contain valid templates',
+          INVALID_TEMPLATE_FILE,
+          result.errors
+        );
+      }
+      return {
+        status: 201,
+        data: result.templates.map(template =>
+          saveTemplate(
+            createDorDodTemplate(
+              { ...template, visibility },
+              generateMockId('dor-dod-template'),
+              MOCK_USER_ID
+            )
+          )
+        ),
+      };
+    })
+    .on('GET', '/dor-dod/templates/:id', ({ params }) => ({
+      data: cloneMockValue(findTemplate(params.id, 'view')),
+    }))
+    .on('PUT', '/dor-dod/templates/:id', ({ params, body }) => ({
+      data: saveTemplate(
+        applyDorDodTemplateUpdate(
+          findTemplate(params.id, 'edit'),
+          parseMockBody(saveDorDodTemplateSchema, body),
+          MOCK_USER_ID
+        )
+      ),
+    }))
+    .on('DELETE', '/dor-dod/templates/:id', ({ params }) => {
+      findTemplate(params.id, 'edit');
+      data.dorDodTemplates = data.dorDodTemplates.filter(
+        t => t.id !== params.id
+      );
+      return { data: { message: 'Template deleted', id: params.id } };
+    })
+    .on('POST', '/dor-dod/templates/:id/restore', ({ params, body }) => {
+      const { version } = parseMockBody(restoreDorDodTemplateSchema, body);
+      const restored = restoreDorDodTemplateVersion(
+        findTemplate(params.id, 'edit'),
+        version,
+        MOCK_USER_ID
+      );
+      if (!restored) {
+        throw createMockError(
+          404,
+          `Version ${version} of template "${params.id}" not found`,
+          'TEMPLATE_VERSION_NOT_FOUND'
+        );
+      }
+      return { data: saveTemplate(restored) };
+    });
+};
@@ -0,0 +1,374 @@
+/**
+ * Mock Goal Handlers
+ *
+ * In-memory implementation of the `/api/goals` endpoints used by GoalsApi.
+ *
+ * @fileoverview Goal routes for the mock API transport
+ * @version 1.0.0
+ */
+
+import {
+  GoalPriority,
+  GoalStatus,
+  type SmartGoal,
+  type SmartGoalCreate,
+} from '@/types/smart-goals.types';
+
+import type { StatusChangeOptions } from '../dor-dod';
+import { getWipLimitsError } from '../shared/board';
+import {
+  exportGoal,
+  GOAL_EXPORT_FORMATS,
+  type GoalExportFormat,
+} from '../shared/goal-export';
+
+import {
+  cloneMockValue,
+  generateMockId,
+  withChildren,
+  type MockDataset,
+} from './data';
+import { checkMockDorDodGate } from './dor-dod';
+import { createMockError, type MockRouter } from './router';
+
+// =============================================================================
+// Query Helpers
+// =============================================================================
+
+const splitList = (value?: string): string[] =>
+  value ? value.split(',').filter(Boolean) : [];
+
+const matchesQuery = (
+  goal: SmartGoal,
+  query: Record<string, string>
+): boolean => {
+  const status = splitList(query.status);
+  if (status.length && !status.includes(goal.status)) return false;
+
+  const priority = splitList(query.priority);
+  if (priority.length && !priority.includes(goal.priority)) return false;
+
+  const category = splitList(query.category);
+  if (category.length && !category.includes(goal.category)) return false;
+
+  const ownerId = splitList(query.ownerId);
+  if (ownerId.length && !ownerId.includes(goal.ownerId)) return false;
+
+  const tags = splitList(query.tags);
+  if (tags.length && !tags.some(tag => goal.tags.includes(tag))) return false;
+
+  if (query.startDate && query.endDate) {
+    const createdAt = new Date(goal.createdAt);
+    if (
+      createdAt < new Date(query.startDate) ||
+      createdAt > new Date(query.endDate)
+    ) {
+      return false;
+    }
+  }
+
+  if (query.search) {
+    const term = query.search.toLowerCase();
+    const haystack = [
+      goal.title,
+      goal.description,
+      goal.specificObjective,
+      ...goal.tags,
+    ]
+      .join(' ')
+      .toLowerCase();
+    if (!haystack.includes(term)) return false;
+  }
+
+  return true;
+};
+
+/** Unset include flags stay undefined so the export defaults apply */
+const readFlag = (value?: string): boolean | undefined =>
+  value === undefined ? undefined : value === 'true';
+
+const compareGoals = (
+  a: SmartGoal,
+  b: SmartGoal,
+  field: keyof SmartGoal
+): number => {
+  const aValue = a[field];
+  const bValue = b[field];
+
+  if (aValue instanceof Date && bValue instanceof Date) {
+    return aValue.getTime() - bValue.getTime();
+  }
+  if (typeof aValue === 'number' && typeof bValue === 'number') {
+    return aValue - bValue;
+  }
+  return String(aValue).localeCompare(String(bValue));
+};
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+export const registerGoalRoutes = (
+  router: MockRouter,
+  data: MockDataset
+): void => {
+  const findGoal = (id: string): SmartGoal => {
+    const goal = data.goals.find(g => g.id === id);
+    if (!goal) {
+      throw createMockError(
+        404,
+        `Goal with id "${id}" not found`,
+        'GOAL_NOT_FOUND'
+      );
+    }
+    return goal;
+  };
+
+  const findLiveGoal = (id: string): SmartGoal => {
+    const goal = findGoal(id);
+    if (goal.isDeleted) {
+      throw createMockError(410, 'Goal has been deleted', 'GOAL_DELETED');
+    }
+    return goal;
+  };
+
+  const replaceGoal = (goal: SmartGoal): SmartGoal => {
+    data.goals = data.goals.map(g => (g.id === goal.id ? goal : g));
+    return cloneMockValue(withChildren(data, goal));
+  };
+
+  router
+    .on('GET', '/goals', ({ query }) => {
+      const page = parseInt(query.page || '1');
+      const limit = Math.min(parseInt(query.limit || '10'), 100);
+      const field = (query.sortField || 'updatedAt') as keyof SmartGoal;
+      const direction = query.sortDirection === 'asc' ? 1 : -1;
+
+      const goals = data.goals
+        .filter(goal => query.includeDeleted === 'true' || !goal.isDeleted)
+        .filter(goal => matchesQuery(goal, query))
+        .sort((a, b) => compareGoals(a, b, field) * direction);
+
+      const start = (page - 1) * limit;
+
+      return {
+        data: {
+          goals: cloneMockValue(
+            goals
+              .slice(start, start + limit)
+              .map(goal => withChildren(data, goal))
+          ),
+          total: goals.length,
+          page,
+          limit,
+          hasMore: start + limit < goals.length,
+        },
+      };
+    })
+    .on('GET', '/goals/stats', () => {
+      const activeGoals = data.goals.filter(g => !g.isDeleted && !g.isArchived);
+      const total = activeGoals.length;
+
+      const byStatus = Object.values(GoalStatus).reduce(
+        (acc, status) => {
+          acc[status] = activeGoals.filter(g => g.status === status).length;
+          return acc;
+        },
+        {} as Record<GoalStatus, number>
+      );
+
+      const byPriority = Object.values(GoalPriority).reduce(
+        (acc, priority) => {
+          acc[priority] = activeGoals.filter(
+            g => g.priority === priority
+          ).length;
+          return acc;
+        },
+        {} as Record<GoalPriority, number>
+      );
+
+      const completed = byStatus[GoalStatus.COMPLETED] || 0;
+
+      return {
+        data: {
+          total,
+          byStatus,
+          byPriority,
+          completionRate: total > 0 ? (completed / total) * 100 : 0,
+        },
+      };
+    })
+    .on('POST', '/goals', ({ body }) => {
+      const request = body as SmartGoalCreate | undefined;
+      if (!request?.title || !request?.description) {
+        throw createMockError(
+          400,
+          'Title and description are required',
+          'MISSING_REQUIRED_FIELDS'
+        );
+      }
+
+      const now = new Date();
+      const goal: SmartGoal = {
+        ...request,
+        id: generateMockId('goal'),
+        createdAt: now,
+        updatedAt: now,
+        createdBy: request.ownerId,
+        updatedBy: request.ownerId,
+        progress: request.progress || 0,
+        tags: request.tags || [],
+        successCriteria: request.successCriteria || [],
+        collaborators: request.collaborators || [],
+        checkpoints: [],
+        tasks: [],
+        milestones: request.milestones || [],
+        outcomes: request.outcomes || [],
+        childGoalIds: request.childGoalIds || [],
+        actualStartDate: request.status === GoalStatus.ACTIVE ? now : undefined,
+        actualCompletionDate:
+          request.status === GoalStatus.COMPLETED ? now : undefined,
+        lastProgressUpdate: now,
+        isArchived: false,
+        isDeleted: false,
+      };
+
+      data.goals.unshift(cloneMockValue(goal));
+
+      return { status: 201, data: cloneMockValue(goal) };
+    })
+    .on('GET', '/goals/:id', ({ params }) => ({
+      data: cloneMockValue(withChildren(data, findLiveGoal(params.id))),
+    }))
+    .on('GET', '/goals/:id/export', ({ params, query }) => {
+      const format = (query.format || 'pdf') as GoalExportFormat;
+      if (!GOAL_EXPORT_FORMATS.includes(format)) {
+        throw createMockError(
+          400,
+          `Unsupported export format: ${format}`,
+          'UNSUPPORTED_EXPORT_FORMAT'
+        );
+      }
+
+      const file = exportGoal(
+        { goal: withChildren(data, findLiveGoal(params.id)) },
+        {
+          format,
+          includeScore: readFlag(query.includeScore),
+          includeSuggestions: readFlag(query.includeSuggestions),
+          includeTimeline: readFlag(query.includeTimeline),
+          includeResources: readFlag(query.includeResources),
+        }
+      );
+
+      return {
+        data: file.content,
+        headers: { 'content-type': file.mimeType },
+      };
+    })
+    .on('PATCH', '/goals/:id', ({ params, body: request }) => {
+      const existing = findLiveGoal(params.id);
+      const { dorDodOverride, ...body } = request as Partial<SmartGoal> &
+        StatusChangeOptions;
+      const now = new Date();
+      const wipError =
+        body.board !== undefined
+          ? getWipLimitsError(body.board?.wipLimits)
+          : null;
+      if (wipError) {
+        throw createMockError(400, wipError, 'VALIDATION_FAILED');
+      }
+      if (body.status) {
+        checkMockDorDodGate(
+          data,
+          { type: 'goal', id: existing.id },
+          existing.id,
+          existing.status,
+          body.status,
+          dorDodOverride
+        );
+      }
+
+      return {
+        data: replaceGoal({
+          ...existing,
+          ...cloneMockValue(body),
+          id: existing.id,
+          createdAt: existing.createdAt,
+          createdBy: existing.createdBy,
+          updatedAt: now,
+          updatedBy: body.updatedBy || existing.ownerId,
+          lastProgressUpdate:
+            body.progress !== undefined ? now : existing.lastProgressUpdate,
+          actualCompletionDate:
+            body.status === GoalStatus.COMPLETED &&
+            existing.status !== GoalStatus.COMPLETED
+              ? now
+              : existing.actualCompletionDate,
+          actualStartDate:
+            body.status === GoalStatus.ACTIVE && !existing.actualStartDate
+              ? now
+              : existing.actualStartDate,
+          tasks: [],
+          checkpoints: [],
+        }),
+      };
+    })
+    .on('DELETE', '/goals/:id', ({ params, query }) => {
+      const existing = findGoal(params.id);
+      if (existing.isDeleted) {
+        throw createMockError(
+          410,
+          'Goal is already deleted',
+          'GOAL_ALREADY_DELETED'
+        );
+      }
+
+      if (query.permanent === 'true') {
+        const taskIds = data.tasks
+          .filter(task => task.goalId === existing.id)
+          .map(task => task.id);
+        data.goals = data.goals.filter(g => g.id !== existing.id);
+        data.tasks = data.tasks.filter(task => task.goalId !== existing.id);
+        data.subtasks = data.subtasks.filter(
+          subtask => !taskIds.includes(subtask.taskId)
+        );
+        data.checkpoints = data.checkpoints.filter(
+          checkpoint => checkpoint.goalId !== existing.id
+        );
+        data.dorDodStates = data.dorDodStates.filter(
+          state => state.goalId !== existing.id
+        );
+        return { data: { message: 'Goal permanently deleted', id: params.id } };
+      }
+
+      const now = new Date();
+      const goal = replaceGoal({
+        ...existing,
+        isDeleted: true,
+        deletedAt: now,
+        deletedBy: existing.ownerId,
+        updatedAt: now,
+        updatedBy: existing.ownerId,
+      });
+
+      return { data: { message: 'Goal soft deleted', id: params.id, goal } };
+    })
+    .on('POST', '/goals/:id/restore', ({ params }) => {
+      const existing = findGoal(params.id);
+      if (!existing.isDeleted) {
+        throw createMockError(409, 'Goal is not deleted', 'GOAL_NOT_DELETED');
+      }
+
+      return {
+        data: replaceGoal({
+          ...existing,
+          isDeleted: false,
+          deletedAt: undefined,
+          deletedBy: undefined,
+          updatedAt: new Date(),
+          updatedBy: existing.ownerId,
+        }),
+      };
+    });
+};
@@ -0,0 +1,98 @@
+/**
+ * Mock API Transport
+ *
+ * In-process backend for Storybook and tests. It answers the same REST
+ * routes as the Next.js API from in-memory data, so components and hooks
+ * can run without a server. It is never used unless explicitly installed:
+ *
+ * ```ts
+ * import { setApiTransport } from '@/lib/api/transport';
+ * import { createMockTransport } from '@/lib/api/mock';
+ *
+ * setApiTransport(createMockTransport({ delay: 0 }));
+ * ```
+ *
+ * @fileoverview Opt-in mock backend for the API services
+ * @version 1.0.0
+ */
+
+import type { SmartGoal } from '@/types/smart-goals.types';
+
+import type { ApiRequest, ApiResponse } from '../client';
+import { reviveDates } from '../serialization';
+import type { ApiTransport } from '../transport';
+
+import { registerCanvasRoutes } from './canvas';
+import { createMockDataset, type MockDataset } from './data';
+import { registerDorDodRoutes } from './dor-dod';
+import { registerGoalRoutes } from './goals';
+import { registerMetricRoutes } from './metrics';
+import { registerReviewRoutes } from './reviews';
+import { createMockError, MockRouter } from './router';
+import { registerTaskRoutes } from './tasks';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export interface MockTransportOptions {
+  /** Simulated network latency in milliseconds (default: 300) */
+  delay?: number;
+  /** Probability between 0 and 1 that a request fails with a 500 (default: 0) */
+  errorRate?: number;
+  /** Goals to seed the backend with (default: generated sample goals) */
+  goals?: SmartGoal[];
+}
+
+// =============================================================================
+// Mock Transport
+// =============================================================================
+
+/** JSON round-trip so mock requests behave like real HTTP payloads */
+const toWire = <T>(value: T): T =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+export class MockTransport implements ApiTransport {
+  private readonly router = new MockRouter();
+  private readonly delay: number;
+  private readonly errorRate: number;
+  readonly data: MockDataset;
+
+  constructor(options: MockTransportOptions = {}) {
+    this.delay = options.delay ?? 300;
+    this.errorRate = options.errorRate ?? 0;
+    this.data = createMockDataset(options.goals);
+
+    registerGoalRoutes(this.router, this.data);
+    registerTaskRoutes(this.router, this.data);
+    registerMetricRoutes(this.router, this.data);
+    registerCanvasRoutes(this.router, this.data);
+    registerReviewRoutes(this.router, this.data);
+    registerDorDodRoutes(this.router, this.data);
+  }
+
+  async request<T = unknown>(request: ApiRequest): Promise<ApiResponse<T>> {
+    if (this.delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delay));
+    }
+
+    if (Math.random() < this.errorRate) {
+      throw createMockError(500, 'Simulated API error', 'MOCK_ERROR');
+    }
+
+    const response = await this.router.handle<T>({
+      ...request,
+      body: reviveDates(toWire(request.body)),
+    });
+
+    return { ...response, data: toWire(response.data) };
+  }
+}
+
+/** Create a mock transport with its own in-memory data */
+export const createMockTransport = (
+  options?: MockTransportOptions
+): MockTransport => new MockTransport(options);
+
+export { createMockDataset, createMockError, MockRouter };
+export type { MockDataset };
@@ -0,0 +1,170 @@
+/**
+ * Mock Metric Handlers
+ *
+ * In-memory implementation of the checkpoint and metrics endpoints used by
+ * MetricsApi.
+ *
+ * @fileoverview Metric routes for the mock API transport
+ * @version 1.0.0
+ */
+
+import type { MetricCheckpoint } from '@/types/smart-goals.types';
+
+import {
+  bulkCheckpointSchema,
+  createCheckpointSchema,
+  updateCheckpointSchema,
+} from '../server/metric-schemas';
+import {
+  buildCheckpoint,
+  checkpointsToCsv,
+  computeCheckpointStats,
+  computeMetricAnalytics,
+  computeTrendData,
+  sortCheckpoints,
+} from '../shared/metrics';
+
+import { cloneMockValue, type MockDataset } from './data';
+import { createMockError, parseMockBody, type MockRouter } from './router';
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+export const registerMetricRoutes = (
+  router: MockRouter,
+  data: MockDataset
+): void => {
+  const listCheckpoints = (goalId: string): MetricCheckpoint[] =>
+    sortCheckpoints(data.checkpoints.filter(c => c.goalId === goalId));
+
+  // Goals created outside the dataset have no target, so assume 100
+  const findTarget = (goalId: string): number =>
+    data.goals.find(g => g.id === goalId)?.measurable?.targetValue ?? 100;
+
+  const findCheckpoint = (id: string): MetricCheckpoint => {
+    const checkpoint = data.checkpoints.find(c => c.id === id);
+    if (!checkpoint) {
+      throw createMockError(
+        404,
+        `Checkpoint with id "${id}" not found`,
+        'CHECKPOINT_NOT_FOUND'
+      );
+    }
+    return checkpoint;
+  };
+
+  const createCheckpoint = (
+    goalId: string,
+    body: unknown
+  ): MetricCheckpoint => {
+    const checkpoint = buildCheckpoint(
+      goalId,
+      parseMockBody(createCheckpointSchema, body),
+      'current-user'
+    );
+    data.checkpoints.unshift(checkpoint);
+    return checkpoint;
+  };
+
+  router
+    .on('GET', '/goals/:goalId/checkpoints', ({ params }) => ({
+      data: cloneMockValue(listCheckpoints(params.goalId)),
+    }))
+    .on('POST', '/goals/:goalId/checkpoints', ({ params, body }) => ({
+      status: 201,
+      data: cloneMockValue(createCheckpoint(params.goalId, body)),
+    }))
+    .on('DELETE', '/goals/:goalId/checkpoints', ({ params }) => {
+      const before = data.checkpoints.length;
+      data.checkpoints = data.checkpoints.filter(
+        c => c.goalId !== params.goalId
+      );
+      return { data: { deleted: before - data.checkpoints.length } };
+    })
+    .on('POST', '/goals/:goalId/checkpoints/bulk', ({ params, body }) => {
+      const checkpoints: MetricCheckpoint[] = [];
+      const errors: Array<{ index: number; error: string }> = [];
+
+      // Like the API, invalid entries are reported without failing the batch
+      parseMockBody(bulkCheckpointSchema, body).checkpoints.forEach(
+        (entry, index) => {
+          const result = createCheckpointSchema.safeParse(entry);
+          if (result.success) {
+            checkpoints.push(createCheckpoint(params.goalId, result.data));
+          } else {
+            errors.push({
+              index,
+              error: result.error.issues.map(issue => issue.message).join('; '),
+            });
+          }
+        }
+      );
+
+      return {
+        status: 201,
+        data: { checkpoints: cloneMockValue(checkpoints), errors },
+      };
+    })
+    .on('GET', '/goals/:goalId/checkpoints/stats', ({ params, query }) => ({
+      data: computeCheckpointStats(
+        listCheckpoints(params.goalId),
+        new Date(query.startDate),
+        new Date(query.endDate)
+      ),
+    }))
+    .on('GET', '/goals/:goalId/checkpoints/export', ({ params }) => ({
+      data: checkpointsToCsv(listCheckpoints(params.goalId)),
+      headers: { 'content-type': 'text/csv' },
+    }))
+    .on('GET', '/goals/:goalId/metrics/analytics', ({ params }) => {
+      const analytics = computeMetricAnalytics(
+        params.goalId,
+        listCheckpoints(params.goalId),
+        findTarget(params.goalId)
+      );
+
+      if (!analytics) {
+        throw createMockError(
+          404,
+          'No checkpoints found for goal',
+          'NO_CHECKPOINTS'
+        );
+      }
+
+      return { data: analytics };
+    })
+    .on('GET', '/goals/:goalId/metrics/trend', ({ params, query }) => ({
+      data: computeTrendData(listCheckpoints(params.goalId), {
+        days: query.days ? parseInt(query.days) : undefined,
+        target: findTarget(params.goalId),
+      }),
+    }))
+    .on('GET', '/checkpoints/:id', ({ params }) => ({
+      data: cloneMockValue(findCheckpoint(params.id)),
+    }))
+    .on('PATCH', '/checkpoints/:id', ({ params, body }) => {
+      const existing = findCheckpoint(params.id);
+      const checkpoint: MetricCheckpoint = {
+        ...existing,
+        ...parseMockBody(updateCheckpointSchema, body),
+        id: existing.id,
+        createdAt: existing.createdAt,
+        createdBy: existing.createdBy,
+        updatedAt: new Date(),
+        updatedBy: 'current-user',
+        goalId: existing.goalId,
+      };
+
+      data.checkpoints = data.checkpoints.map(c =>
+        c.id === checkpoint.id ? checkpoint : c
+      );
+
+      return { data: cloneMockValue(checkpoint) };
+    })
+    .on('DELETE', '/checkpoints/:id', ({ params }) => {
+      findCheckpoint(params.id);
+      data.checkpoints = data.checkpoints.filter(c => c.id !== params.id);
+      return { data: { id: params.id } };
+    });
+};
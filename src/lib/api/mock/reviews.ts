@@ -0,0 +1,135 @@
+/**
+ * Mock Review Handlers
+ *
+ * In-memory implementation of the goal review endpoints used by ReviewsApi.
+ * Requests are made as `current-user`, so that user must be named as a
+ * reviewer to decide on a review.
+ *
+ * @fileoverview Review routes for the mock API transport
+ * @version 1.0.0
+ */
+
+import type { GoalReview } from '@/types/review.types';
+import { GoalStatus, type SmartGoal } from '@/types/smart-goals.types';
+
+import {
+  requestReviewSchema,
+  reviewCommentSchema,
+  reviewDecisionSchema,
+} from '../server/review-schemas';
+import {
+  addReviewComment,
+  applyReviewDecision,
+  applyReviewRequest,
+  createDefaultReview,
+  getReviewCommentError,
+  getReviewDecisionError,
+  getReviewRequestError,
+} from '../shared/review';
+
+import { cloneMockValue, type MockDataset } from './data';
+import { createMockError, parseMockBody, type MockRouter } from './router';
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+const MOCK_USER_ID = 'current-user';
+
+export const registerReviewRoutes = (
+  router: MockRouter,
+  data: MockDataset
+): void => {
+  const findGoal = (id: string): SmartGoal => {
+    const goal = data.goals.find(g => g.id === id && !g.isDeleted);
+    if (!goal) {
+      throw createMockError(
+        404,
+        `Goal with id "${id}" not found`,
+        'GOAL_NOT_FOUND'
+      );
+    }
+    return goal;
+  };
+
+  const findReview = (goalId: string): GoalReview =>
+    data.reviews.find(review => review.goalId === goalId) ??
+    createDefaultReview(goalId);
+
+  const saveReview = (review: GoalReview): GoalReview => {
+    data.reviews = [
+      ...data.reviews.filter(r => r.goalId !== review.goalId),
+      review,
+    ];
+    return cloneMockValue(review);
+  };
+
+  router
+    .on('GET', '/goals/:goalId/review', ({ params }) => {
+      findGoal(params.goalId);
+      return { data: cloneMockValue(findReview(params.goalId)) };
+    })
+    .on('POST', '/goals/:goalId/review/request', ({ params, body }) => {
+      const goal = findGoal(params.goalId);
+      const request = parseMockBody(requestReviewSchema, body);
+      const requestError = getReviewRequestError(goal, request);
+      if (requestError) {
+        throw createMockError(400, requestError, 'INVALID_REVIEW_REQUEST');
+      }
+
+      return {
+        data: saveReview(
+          applyReviewRequest(findReview(goal.id), request, MOCK_USER_ID)
+        ),
+      };
+    })
+    .on('POST', '/goals/:goalId/review/decisions', ({ params, body }) => {
+      const goal = findGoal(params.goalId);
+      const request = parseMockBody(reviewDecisionSchema, body);
+
+      const existing = findReview(goal.id);
+      const decisionError = getReviewDecisionError(existing, MOCK_USER_ID);
+      if (decisionError) {
+        throw existing.status === 'pending'
+          ? createMockError(403, decisionError, 'NOT_A_REVIEWER')
+          : createMockError(409, decisionError, 'REVIEW_NOT_PENDING');
+      }
+
+      const now = new Date();
+      const result = applyReviewDecision(
+        existing,
+        MOCK_USER_ID,
+        request.decision,
+        request.comment,
+        now
+      );
+      if (result.reopenGoal) {
+        data.goals = data.goals.map(g =>
+          g.id === goal.id
+            ? {
+                ...g,
+                status: GoalStatus.DRAFT,
+                updatedAt: now,
+                updatedBy: MOCK_USER_ID,
+              }
+            : g
+        );
+      }
+
+      return { data: saveReview(result.review) };
+    })
+    .on('POST', '/goals/:goalId/review/comments', ({ params, body }) => {
+      const goal = findGoal(params.goalId);
+      const request = parseMockBody(reviewCommentSchema, body);
+      const existing = findReview(goal.id);
+      const commentError = getReviewCommentError(existing, request);
+      if (commentError) {
+        throw createMockError(400, commentError, 'INVALID_REVIEW_COMMENT');
+      }
+
+      return {
+        status: 201,
+        data: saveReview(addReviewComment(existing, request, MOCK_USER_ID)),
+      };
+    });
+};
@@ -0,0 +1,182 @@
+/**
+ * Mock Router - Minimal request router for the in-process mock backend
+ *
+ * Matches `ApiRequest`s against `/path/:param` patterns and builds
+ * responses and errors shaped like the ones `ApiClient` produces for real
+ * HTTP calls.
+ *
+ * @fileoverview Request routing for the mock API transport
+ * @version 1.0.0
+ */
+
+import type { z } from 'zod';
+
+import type { ApiError, ApiRequest, ApiResponse } from '../client';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export interface MockRequestContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  /** Request body as sent; handlers parse the parts they use */
+  body: unknown;
+}
+
+export interface MockResult<T = unknown> {
+  status?: number;
+  data: T;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler = (
+  context: MockRequestContext
+) => MockResult | Promise<MockResult>;
+
+interface MockRoute {
+  method: ApiRequest['method'];
+  segments: string[];
+  handler: MockHandler;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  410: 'Gone',
+  500: 'Internal Server Error',
+};
+
+/** Build an error shaped like the ones ApiClient throws for non-2xx responses */
+export const createMockError = (
+  status: number,
+  message: string,
+  code?: string,
+  details?: Array<{ path: string; message: string }>
+): ApiError => {
+  const statusText = STATUS_TEXT[status] ?? 'Error';
+  const error = new Error(message) as ApiError;
+  error.status = status;
+  error.statusText = statusText;
+  error.code = code;
+  error.isRetryable = status >= 500;
+  error.response = {
+    data: { error: statusText, message, code, details },
+    status,
+    statusText,
+  };
+  return error;
+};
+
+/**
+ * Validate a request body against the schema of the matching API route,
+ * failing with the same 400 VALIDATION_FAILED error
+ */
+export const parseMockBody = <T>(schema: z.ZodType<T>, body: unknown): T => {
+  const result = schema.safeParse(body);
+  if (result.success) {
+    return result.data;
+  }
+
+  throw createMockError(
+    400,
+    result.error.issues.map(issue => issue.message).join('; '),
+    'VALIDATION_FAILED',
+    result.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }))
+  );
+};
+
+// =============================================================================
+// Router
+// =============================================================================
+
+const splitPath = (path: string): string[] =>
+  path.split('?')[0].split('/').filter(Boolean);
+
+export class MockRouter {
+  private routes: MockRoute[] = [];
+
+  /** Register a handler; routes are matched in registration order */
+  on(
+    method: ApiRequest['method'],
+    pattern: string,
+    handler: MockHandler
+  ): this {
+    this.routes.push({ method, segments: splitPath(pattern), handler });
+    return this;
+  }
+
+  async handle<T>(request: ApiRequest): Promise<ApiResponse<T>> {
+    const segments = splitPath(request.url);
+
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+
+      const params = this.match(route.segments, segments);
+      if (!params) continue;
+
+      const result = await route.handler({
+        params,
+        query: this.toQuery(request),
+        body: request.body,
+      });
+      const status = result.status ?? 200;
+
+      return {
+        data: result.data as T,
+        status,
+        statusText: status === 201 ? 'Created' : 'OK',
+        headers: result.headers ?? {},
+      };
+    }
+
+    throw createMockError(
+      404,
+      `No mock handler for ${request.method} ${request.url}`,
+      'MOCK_ROUTE_NOT_FOUND'
+    );
+  }
+
+  private match(
+    pattern: string[],
+    segments: string[]
+  ): Record<string, string> | null {
+    if (pattern.length !== segments.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i].startsWith(':')) {
+        params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+      } else if (pattern[i] !== segments[i]) {
+        return null;
+      }
+    }
+    return params;
+  }
+
+  private toQuery(request: ApiRequest): Record<string, string> {
+    const query: Record<string, string> = {};
+    const [, search] = request.url.split('?');
+    new URLSearchParams(search ?? '').forEach((value, key) => {
+      query[key] = value;
+    });
+    Object.entries(request.params ?? {}).forEach(([key, value]) => {
+      if (value !== null && value !== undefined) {
+        query[key] =
+          value instanceof Date ? value.toISOString() : String(value);
+      }
+    });
+    return query;
+  }
+}
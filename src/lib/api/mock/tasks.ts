@@ -0,0 +1,385 @@
+/**
+ * Mock Task Handlers
+ *
+ * In-memory implementation of the task, subtask and checklist endpoints
+ * used by TasksApi.
+ *
+ * @fileoverview Task routes for the mock API transport
+ * @version 1.0.0
+ */
+
+import type { Subtask, Task } from '@/types/smart-goals.types';
+
+import type { StatusChangeOptions } from '../dor-dod';
+import {
+  bulkTaskDeleteSchema,
+  bulkTaskStatusSchema,
+  createChecklistItemSchema,
+  createSubtaskSchema,
+  createTaskSchema,
+  taskOrderSchema,
+  updateChecklistItemSchema,
+  updateSubtaskSchema,
+  updateTaskSchema,
+} from '../server/task-schemas';
+import {
+  applyChecklistUpdate,
+  buildChecklistItem,
+  buildSubtask,
+  buildTask,
+  computeTaskStats,
+  deriveCompletion,
+  deriveStatusHistory,
+  filterTasks,
+  getTaskOrderError,
+  isTaskOverdue,
+  parseTaskFilters,
+  planTaskOrder,
+} from '../shared/tasks';
+
+import { cloneMockValue, withSubtasks, type MockDataset } from './data';
+import { checkMockDorDodGate } from './dor-dod';
+import { createMockError, parseMockBody, type MockRouter } from './router';
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+export const registerTaskRoutes = (
+  router: MockRouter,
+  data: MockDataset
+): void => {
+  const findTask = (id: string): Task => {
+    const task = data.tasks.find(t => t.id === id && !t.isDeleted);
+    if (!task) {
+      throw createMockError(
+        404,
+        `Task with id "${id}" not found`,
+        'TASK_NOT_FOUND'
+      );
+    }
+    return task;
+  };
+
+  const findSubtask = (id: string): Subtask => {
+    const subtask = data.subtasks.find(s => s.id === id && !s.isDeleted);
+    if (!subtask) {
+      throw createMockError(
+        404,
+        `Subtask with id "${id}" not found`,
+        'SUBTASK_NOT_FOUND'
+      );
+    }
+    return subtask;
+  };
+
+  const findChecklistTask = (taskId: string, itemId: string): Task => {
+    const task = findTask(taskId);
+    if (!task.checklist.some(item => item.id === itemId)) {
+      throw createMockError(
+        404,
+        `Checklist item with id "${itemId}" not found`,
+        'CHECKLIST_ITEM_NOT_FOUND'
+      );
+    }
+    return task;
+  };
+
+  const listTasks = (goalId?: string): Task[] =>
+    data.tasks.filter(
+      task => !task.isDeleted && (!goalId || task.goalId === goalId)
+    );
+
+  const replaceTask = (task: Task): Task => {
+    data.tasks = data.tasks.map(t => (t.id === task.id ? task : t));
+    return cloneMockValue(withSubtasks(data, task));
+  };
+
+  const updateTask = (
+    id: string,
+    { dorDodOverride, ...updates }: Partial<Task> & StatusChangeOptions
+  ): Task => {
+    const existing = findTask(id);
+    if (updates.status) {
+      checkMockDorDodGate(
+        data,
+        { type: 'task', id },
+        existing.goalId,
+        existing.status,
+        updates.status,
+        dorDodOverride
+      );
+    }
+    const now = new Date();
+
+    return replaceTask({
+      ...existing,
+      ...updates,
+      ...deriveCompletion(existing, updates, now),
+      ...deriveStatusHistory(existing, updates, 'current-user', now),
+      id: existing.id,
+      createdAt: existing.createdAt,
+      createdBy: existing.createdBy,
+      goalId: existing.goalId,
+      updatedAt: now,
+      updatedBy: 'current-user',
+      subtasks: [],
+    });
+  };
+
+  const deleteTask = (id: string, permanent: boolean): void => {
+    const existing = data.tasks.find(t => t.id === id);
+    if (!existing) {
+      throw createMockError(
+        404,
+        `Task with id "${id}" not found`,
+        'TASK_NOT_FOUND'
+      );
+    }
+
+    if (permanent) {
+      data.tasks = data.tasks.filter(t => t.id !== id);
+      data.subtasks = data.subtasks.filter(s => s.taskId !== id);
+      data.dorDodStates = data.dorDodStates.filter(
+        state => state.targetType !== 'task' || state.targetId !== id
+      );
+      return;
+    }
+
+    const now = new Date();
+    const deletion = {
+      isDeleted: true,
+      deletedAt: now,
+      deletedBy: 'current-user',
+      updatedAt: now,
+      updatedBy: 'current-user',
+    };
+    data.tasks = data.tasks.map(t => (t.id === id ? { ...t, ...deletion } : t));
+    data.subtasks = data.subtasks.map(s =>
+      s.taskId === id ? { ...s, ...deletion } : s
+    );
+  };
+
+  router
+    // Static task routes must be registered before `/tasks/:id`
+    .on('GET', '/tasks/overdue', ({ query }) => {
+      const now = new Date();
+      return {
+        data: cloneMockValue(
+          listTasks(query.goalId)
+            .filter(task => isTaskOverdue(task, now))
+            .map(task => withSubtasks(data, task))
+        ),
+      };
+    })
+    .on('POST', '/tasks/bulk/status', ({ body }) => {
+      const { ids, status } = parseMockBody(bulkTaskStatusSchema, body);
+      const tasks: Task[] = [];
+      const errors: Array<{ id: string; error: string }> = [];
+
+      ids.forEach(id => {
+        try {
+          tasks.push(updateTask(id, { status }));
+        } catch (error) {
+          errors.push({ id, error: (error as Error).message });
+        }
+      });
+
+      return { data: { tasks, errors } };
+    })
+    .on('POST', '/tasks/bulk/delete', ({ body }) => {
+      const { ids, permanent } = parseMockBody(bulkTaskDeleteSchema, body);
+      const errors: Array<{ id: string; error: string }> = [];
+
+      ids.forEach(id => {
+        try {
+          deleteTask(id, !!permanent);
+        } catch (error) {
+          errors.push({ id, error: (error as Error).message });
+        }
+      });
+
+      return { data: { tasks: [], errors } };
+    })
+    .on('GET', '/goals/:goalId/tasks', ({ params, query }) => ({
+      data: cloneMockValue(
+        filterTasks(listTasks(params.goalId), parseTaskFilters(query))
+          .map(task => withSubtasks(data, task))
+          .sort((a, b) => a.order - b.order)
+      ),
+    }))
+    .on('GET', '/goals/:goalId/tasks/stats', ({ params }) => ({
+      data: computeTaskStats(listTasks(params.goalId)),
+    }))
+    .on('PUT', '/goals/:goalId/tasks/order', ({ params, body }) => {
+      const tasks = listTasks(params.goalId);
+      const { taskIds } = parseMockBody(taskOrderSchema, body);
+      const orderError = getTaskOrderError(tasks, taskIds);
+      if (orderError) {
+        throw createMockError(400, orderError, 'INVALID_TASK_ORDER');
+      }
+
+      const now = new Date();
+      const orders = planTaskOrder(tasks, taskIds);
+      data.tasks = data.tasks.map(task =>
+        orders[task.id] !== undefined
+          ? {
+              ...task,
+              order: orders[task.id],
+              updatedAt: now,
+              updatedBy: 'current-user',
+            }
+          : task
+      );
+
+      return {
+        data: cloneMockValue(
+          listTasks(params.goalId)
+            .map(task => withSubtasks(data, task))
+            .sort((a, b) => a.order - b.order)
+        ),
+      };
+    })
+    .on('POST', '/goals/:goalId/tasks', ({ params, body }) => {
+      const task = buildTask(
+        params.goalId,
+        parseMockBody(createTaskSchema, body),
+        {
+          order: data.tasks.filter(t => t.goalId === params.goalId).length + 1,
+          userId: 'current-user',
+        }
+      );
+
+      data.tasks.unshift(task);
+
+      return { status: 201, data: cloneMockValue(task) };
+    })
+    .on('GET', '/tasks/:id', ({ params }) => ({
+      data: cloneMockValue(withSubtasks(data, findTask(params.id))),
+    }))
+    .on('PATCH', '/tasks/:id', ({ params, body }) => ({
+      data: updateTask(params.id, parseMockBody(updateTaskSchema, body)),
+    }))
+    .on('DELETE', '/tasks/:id', ({ params, query }) => {
+      deleteTask(params.id, query.permanent === 'true');
+      return { data: { id: params.id } };
+    })
+    .on('POST', '/tasks/:id/checklist', ({ params, body }) => {
+      const task = findTask(params.id);
+      const item = buildChecklistItem(
+        parseMockBody(createChecklistItemSchema, body),
+        task.checklist,
+        'current-user'
+      );
+
+      return {
+        status: 201,
+        data: replaceTask({
+          ...task,
+          checklist: [...task.checklist, item],
+          updatedAt: item.createdAt,
+        }),
+      };
+    })
+    .on('PATCH', '/tasks/:id/checklist/:itemId', ({ params, body }) => {
+      const task = findChecklistTask(params.id, params.itemId);
+      const updates = parseMockBody(updateChecklistItemSchema, body);
+      const now = new Date();
+
+      return {
+        data: replaceTask({
+          ...task,
+          checklist: task.checklist.map(item =>
+            item.id === params.itemId
+              ? applyChecklistUpdate(item, updates, 'current-user')
+              : item
+          ),
+          updatedAt: now,
+        }),
+      };
+    })
+    .on('DELETE', '/tasks/:id/checklist/:itemId', ({ params }) => {
+      const task = findChecklistTask(params.id, params.itemId);
+
+      return {
+        data: replaceTask({
+          ...task,
+          checklist: task.checklist.filter(item => item.id !== params.itemId),
+          updatedAt: new Date(),
+        }),
+      };
+    })
+    .on('GET', '/tasks/:id/subtasks', ({ params }) => ({
+      data: cloneMockValue(
+        data.subtasks.filter(s => s.taskId === params.id && !s.isDeleted)
+      ),
+    }))
+    .on('POST', '/tasks/:id/subtasks', ({ params, body }) => {
+      findTask(params.id);
+
+      const subtask = buildSubtask(
+        params.id,
+        parseMockBody(createSubtaskSchema, body),
+        {
+          order: data.subtasks.filter(s => s.taskId === params.id).length + 1,
+          userId: 'current-user',
+        }
+      );
+
+      data.subtasks.unshift(subtask);
+
+      return { status: 201, data: cloneMockValue(subtask) };
+    })
+    .on('PATCH', '/subtasks/:id', ({ params, body }) => {
+      const existing = findSubtask(params.id);
+      const updates = parseMockBody(updateSubtaskSchema, body);
+      const now = new Date();
+      const subtask: Subtask = {
+        ...existing,
+        ...updates,
+        ...deriveCompletion(existing, updates, now),
+        id: existing.id,
+        createdAt: existing.createdAt,
+        createdBy: existing.createdBy,
+        taskId: existing.taskId,
+        updatedAt: now,
+        updatedBy: 'current-user',
+      };
+
+      data.subtasks = data.subtasks.map(s =>
+        s.id === subtask.id ? subtask : s
+      );
+
+      return { data: cloneMockValue(subtask) };
+    })
+    .on('DELETE', '/subtasks/:id', ({ params, query }) => {
+      const existing = data.subtasks.find(s => s.id === params.id);
+      if (!existing) {
+        throw createMockError(
+          404,
+          `Subtask with id "${params.id}" not found`,
+          'SUBTASK_NOT_FOUND'
+        );
+      }
+
+      if (query.permanent === 'true') {
+        data.subtasks = data.subtasks.filter(s => s.id !== params.id);
+      } else {
+        const now = new Date();
+        data.subtasks = data.subtasks.map(s =>
+          s.id === params.id
+            ? {
+                ...s,
+                isDeleted: true,
+                deletedAt: now,
+                deletedBy: 'current-user',
+                updatedAt: now,
+                updatedBy: 'current-user',
+              }
+            : s
+        );
+      }
+
+      return { data: { id: params.id } };
+    });
+};
@@ -0,0 +1,126 @@
+/**
+ * Reviews API Service - Goal Review and Approval
+ *
+ * This module provides API services for the review workflow of a goal:
+ * - Loading the review with its comments and events
+ * - Requesting a review from named reviewers
+ * - Approving, rejecting or requesting changes
+ * - Commenting and replying
+ *
+ * Requests go through the registered API transport (HTTP via `apiClient` by
+ * default, see `./transport`).
+ *
+ * @fileoverview API service layer for goal reviews
+ * @version 1.0.0
+ */
+
+import type { GoalReview, ReviewDecision } from '@/types/review.types';
+
+import { ApiService, wrapApiError } from './transport';
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+export interface RequestReviewRequest {
+  reviewerIds: string[];
+  /** Approvals needed, between 1 and the number of reviewers */
+  requiredApprovals: number;
+  /** Posted as the first comment of the round */
+  message?: string;
+}
+
+export interface ReviewDecisionRequest {
+  decision: ReviewDecision;
+  comment?: string;
+}
+
+export interface AddReviewCommentRequest {
+  content: string;
+  /** Comment to reply to */
+  parentId?: string;
+}
+
+const encode = encodeURIComponent;
+
+// =============================================================================
+// Reviews API Implementation
+// =============================================================================
+
+export class ReviewsApi extends ApiService {
+  /**
+   * Get the review of a goal
+   */
+  async getReview(goalId: string): Promise<GoalReview> {
+    try {
+      return await this.send<GoalReview>(
+        'GET',
+        `/goals/${encode(goalId)}/review`
+      );
+    } catch (error) {
+      throw wrapApiError('fetch review', error);
+    }
+  }
+
+  /**
+   * Ask named reviewers to review a goal, starting a new review round
+   */
+  async requestReview(
+    goalId: string,
+    request: RequestReviewRequest
+  ): Promise<GoalReview> {
+    try {
+      return await this.send<GoalReview>(
+        'POST',
+        `/goals/${encode(goalId)}/review/request`,
+        { body: request }
+      );
+    } catch (error) {
+      throw wrapApiError('request review', error);
+    }
+  }
+
+  /**
+   * Approve, reject or request changes as one of the named reviewers
+   */
+  async decide(
+    goalId: string,
+    request: ReviewDecisionRequest
+  ): Promise<GoalReview> {
+    try {
+      return await this.send<GoalReview>(
+        'POST',
+        `/goals/${encode(goalId)}/review/decisions`,
+        { body: request }
+      );
+    } catch (error) {
+      throw wrapApiError('submit review decision', error);
+    }
+  }
+
+  /**
+   * Comment on a goal under review, or reply to a comment
+   */
+  async addComment(
+    goalId: string,
+    request: AddReviewCommentRequest
+  ): Promise<GoalReview> {
+    try {
+      return await this.send<GoalReview>(
+        'POST',
+        `/goals/${encode(goalId)}/review/comments`,
+        { body: request }
+      );
+    } catch (error) {
+      throw wrapApiError('add review comment', error);
+    }
+  }
+}
+
+// =============================================================================
+// Default Instance
+// =============================================================================
+
+export const reviewsApi = new ReviewsApi();
+
+export default reviewsApi;
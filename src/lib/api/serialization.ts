@@ -0,0 +1,46 @@
+/**
+ * API Serialization Helpers
+ *
+ * JSON has no date type, so entities crossing the HTTP boundary carry their
+ * `Date` fields as ISO strings. These helpers restore them on both sides:
+ * the API services revive response bodies and the route handlers revive
+ * request bodies before anything is persisted.
+ *
+ * @fileoverview Date-aware JSON helpers shared by client and server
+ * @version 1.0.0
+ */
+
+// =============================================================================
+// Date Revival
+// =============================================================================
+
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?(?:Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Convert ISO timestamp strings in a JSON payload back into Date instances,
+ * so payloads match the Date-typed entity interfaces.
+ */
+export const reviveDates = <T>(value: T): T => {
+  if (typeof value === 'string') {
+    return (ISO_DATE_PATTERN.test(value) ? new Date(value) : value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => reviveDates(item)) as T;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = reviveDates(item);
+    }
+    return result as T;
+  }
+
+  return value;
+};
+
+/** Parse a request body and revive the dates it contains */
+export const readJsonBody = async <T = any>(request: Request): Promise<T> =>
+  reviveDates(await request.json());
@@ -0,0 +1,129 @@
+/**
+ * Server Session Tests
+ *
+ * @fileoverview Unit tests for refresh token rotation, password reset tokens
+ * and the auth request schemas
+ * @version 1.0.0
+ */
+
+import type { NextRequest } from 'next/server';
+
+import { createDatabase, getDatabase, setDatabase } from '@/lib/db';
+import type { UserAccount } from '@/types/auth.types';
+
+import {
+  createPasswordResetToken,
+  findValidResetToken,
+  refreshSession,
+  startSession,
+  toPublicUser,
+  verifyPassword,
+} from '../auth';
+import { loginSchema, registerSchema } from '../auth-schemas';
+
+const request = {
+  headers: new Headers({ 'user-agent': 'jest' }),
+} as unknown as NextRequest;
+
+const createUser = (): Promise<UserAccount> => {
+  const now = new Date();
+  return getDatabase().users.create({
+    id: 'user-1',
+    email: 'ann@example.com',
+    name: 'Ann',
+    passwordHash: 'not-a-real-hash',
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+describe('server sessions', () => {
+  beforeEach(() => {
+    setDatabase(createDatabase({ storage: 'memory' }));
+  });
+
+  afterAll(() => {
+    setDatabase(undefined);
+  });
+
+  describe('refreshSession', () => {
+    it('rotates the refresh token', async () => {
+      const user = await createUser();
+      const { refreshToken, session } = await startSession(user, request);
+
+      const result = await refreshSession(refreshToken);
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.session.id).toBe(session.id);
+      expect(result.refreshToken).not.toBe(refreshToken);
+      expect(result.user).not.toHaveProperty('passwordHash');
+    });
+
+    it('revokes the session when a rotated token is reused', async () => {
+      const user = await createUser();
+      const { refreshToken } = await startSession(user, request);
+      const rotated = await refreshSession(refreshToken);
+
+      expect(await refreshSession(refreshToken)).toEqual({
+        ok: false,
+        reason: 'reused',
+      });
+      expect(
+        rotated.ok && (await refreshSession(rotated.refreshToken))
+      ).toEqual({ ok: false, reason: 'invalid' });
+    });
+
+    it('rejects missing and malformed tokens', async () => {
+      expect(await refreshSession(undefined)).toEqual({
+        ok: false,
+        reason: 'missing',
+      });
+      expect(await refreshSession('no-separator')).toEqual({
+        ok: false,
+        reason: 'invalid',
+      });
+    });
+  });
+
+  describe('password reset tokens', () => {
+    it('supersedes older tokens for the same user', async () => {
+      const first = await createPasswordResetToken('user-1');
+      const second = await createPasswordResetToken('user-1');
+
+      expect(await findValidResetToken(first.token)).toBeNull();
+      expect((await findValidResetToken(second.token))?.id).toBe(
+        second.record.id
+      );
+      expect(await findValidResetToken('unknown')).toBeNull();
+    });
+  });
+
+  describe('account helpers', () => {
+    it('strips password data from public users', async () => {
+      const user = await createUser();
+
+      expect(toPublicUser(user)).not.toHaveProperty('passwordHash');
+      expect(toPublicUser(user).email).toBe('ann@example.com');
+    });
+
+    it('treats unverifiable passwords as a mismatch', async () => {
+      await expect(verifyPassword('', 'not-a-real-hash')).resolves.toBe(false);
+    });
+  });
+});
+
+describe('auth request schemas', () => {
+  it('normalises emails and enforces the password policy', () => {
+    expect(
+      loginSchema.parse({ email: ' Ann@Example.com ', password: 'x' }).email
+    ).toBe('ann@example.com');
+    expect(
+      registerSchema.safeParse({
+        name: 'Ann',
+        email: 'ann@example.com',
+        password: 'short',
+      }).success
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Server DoR/DoD Gate Tests
+ *
+ * @fileoverview Unit tests for checking status changes against the stored
+ * DoR/DoD and recording accepted overrides
+ * @version 1.0.0
+ */
+
+import { createDatabase, getDatabase, setDatabase } from '@/lib/db';
+import { createMockSmartGoal } from '@/lib/mock-data/smart-goals';
+import type { User } from '@/types/auth.types';
+import type { DorDodTarget } from '@/types/dor-dod.types';
+import { GoalStatus } from '@/types/smart-goals.types';
+
+import { createDefaultDorDodState } from '../../shared/dor-dod';
+import { checkDorDodGate, saveDorDodOverride } from '../dor-dod';
+
+// The Next.js server runtime needs web globals jsdom does not provide
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}));
+
+const now = new Date('2026-05-01T12:00:00Z');
+
+const owner = {
+  id: 'user-1',
+  email: 'ann@example.com',
+  name: 'Ann',
+  createdAt: now,
+  updatedAt: now,
+} as User;
+
+const goal = createMockSmartGoal({
+  ownerId: owner.id,
+  status: GoalStatus.DRAFT,
+});
+
+const target: DorDodTarget = { type: 'goal', id: goal.id };
+
+describe('checkDorDodGate', () => {
+  beforeEach(async () => {
+    setDatabase(createDatabase({ storage: 'memory' }));
+    await getDatabase().dorDodStates.save({
+      ...createDefaultDorDodState(target, goal.id),
+      dorCriteria: [
+        {
+          id: 'ready',
+          description: 'Scope agreed',
+          category: 'required',
+          isCompleted: false,
+          order: 0,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ],
+    });
+  });
+
+  afterAll(() => {
+    setDatabase(undefined);
+  });
+
+  const check = (override?: { reason: string }) =>
+    checkDorDodGate(
+      target,
+      goal,
+      owner,
+      GoalStatus.DRAFT,
+      GoalStatus.ACTIVE,
+      override
+    );
+
+  it('blocks a change while criteria are open', async () => {
+    const result = await check();
+
+    expect(result.response?.status).toBe(409);
+  });
+
+  it('records an accepted override only once it is saved', async () => {
+    const result = await check({ reason: 'Kick-off is today' });
+
+    expect(result.response).toBeUndefined();
+    expect(result.data?.auditLog[0]).toMatchObject({
+      action: 'transition-overridden',
+      userId: owner.id,
+      metadata: { reason: 'Kick-off is today', blockingCriteria: ['ready'] },
+    });
+    expect((await getDatabase().dorDodStates.find(target))?.auditLog).toEqual(
+      []
+    );
+
+    await saveDorDodOverride(result.data ?? null);
+
+    expect(
+      (await getDatabase().dorDodStates.find(target))?.auditLog
+    ).toHaveLength(1);
+  });
+
+  it('needs no override for changes that are not gated', async () => {
+    const result = await checkDorDodGate(
+      target,
+      goal,
+      owner,
+      GoalStatus.DRAFT,
+      GoalStatus.ON_HOLD
+    );
+
+    expect(result).toEqual({ data: null });
+  });
+});
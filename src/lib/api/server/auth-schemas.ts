@@ -0,0 +1,63 @@
+/**
+ * Authentication Request Schemas
+ *
+ * zod schemas for the `/api/auth` endpoints. Password strength is checked
+ * with `PasswordSecurity`, so the API and the hashing code share one policy.
+ *
+ * @fileoverview Request validation for the auth API routes
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+import { PasswordSecurity } from '@/lib/auth-security';
+
+// =============================================================================
+// Field Schemas
+// =============================================================================
+
+const email = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email('Please enter a valid email address');
+
+/** New password that must satisfy the PasswordSecurity policy */
+const newPassword = z.string().superRefine((password, ctx) => {
+  try {
+    PasswordSecurity.validatePassword(password);
+  } catch (error) {
+    ctx.addIssue({
+      code: 'custom',
+      message: error instanceof Error ? error.message : 'Invalid password',
+    });
+  }
+});
+
+// =============================================================================
+// Auth Schemas
+// =============================================================================
+
+export const registerSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must be 100 characters or less'),
+  email,
+  password: newPassword,
+});
+
+export const loginSchema = z.object({
+  email,
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const forgotPasswordSchema = z.object({
+  email,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: newPassword,
+});
@@ -0,0 +1,335 @@
+/**
+ * Server Sessions
+ *
+ * Session handling for the `/api/auth` route handlers, built on the
+ * primitives in `auth-security`:
+ * - Access token: a `SessionSecurity` JWT naming the user and session,
+ *   sent in the httpOnly `ob_session` cookie
+ * - Refresh token: `<sessionId>.<secret>` in the httpOnly `ob_refresh`
+ *   cookie, scoped to `/api/auth`; only a hash of the secret is stored and
+ *   it is rotated on every refresh
+ *
+ * @fileoverview Session cookies, refresh token rotation and reset tokens
+ * @version 1.0.0
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+import type { NextRequest, NextResponse } from 'next/server';
+
+import { REFRESH_COOKIE, SESSION_COOKIE } from '@/lib/auth-routes';
+import { PasswordSecurity, SessionSecurity } from '@/lib/auth-security';
+import { getDatabase } from '@/lib/db';
+import { env, generateSecureSecret } from '@/lib/env';
+import { getClientIP } from '@/lib/rate-limit';
+import type {
+  AuthSession,
+  PasswordResetToken,
+  User,
+  UserAccount,
+} from '@/types/auth.types';
+
+import { createEntityId } from '../shared/tasks';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export { REFRESH_COOKIE, SESSION_COOKIE };
+
+const REFRESH_COOKIE_PATH = '/api/auth';
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const RESET_TOKEN_TTL = 60 * 60 * 1000; // 1 hour
+
+// Without a configured secret, sign tokens with a per-process secret in
+// development so auth works out of the box; sessions end on restart.
+if (!env.JWT_SECRET && env.NODE_ENV !== 'production') {
+  env.JWT_SECRET = generateSecureSecret(64);
+  console.warn('JWT_SECRET is not set; using a temporary development secret');
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  session: AuthSession;
+}
+
+export interface AuthContext {
+  user: User;
+  session: AuthSession;
+}
+
+/** The cookies of a route handler request, or of a page via `cookies()` */
+export interface CookieSource {
+  cookies: { get(name: string): { value: string } | undefined };
+}
+
+export type RefreshResult =
+  | ({ ok: true; user: User } & SessionTokens)
+  | { ok: false; reason: 'missing' | 'invalid' | 'expired' | 'reused' };
+
+// =============================================================================
+// Tokens
+// =============================================================================
+
+/** Random URL-safe secret for refresh and reset tokens */
+export const generateToken = (): string =>
+  randomBytes(32).toString('base64url');
+
+/** SHA-256 hash used to store tokens at rest */
+export const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+const hashesMatch = (a: string, b: string): boolean => {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const parseRefreshToken = (
+  token: string
+): { sessionId: string; secret: string } | null => {
+  const separator = token.indexOf('.');
+  if (separator <= 0 || separator === token.length - 1) return null;
+  return {
+    sessionId: token.slice(0, separator),
+    secret: token.slice(separator + 1),
+  };
+};
+
+/**
+ * Check a password against a stored hash. Passwords that fail the current
+ * policy simply do not match instead of throwing.
+ */
+export const verifyPassword = (
+  password: string,
+  passwordHash: string
+): Promise<boolean> =>
+  PasswordSecurity.verify(password, passwordHash).catch(() => false);
+
+/** Strip password data before a user leaves the server */
+export const toPublicUser = (account: UserAccount): User => {
+  const user: Partial<UserAccount> = { ...account };
+  delete user.passwordHash;
+  delete user.passwordChangedAt;
+  return user as User;
+};
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+/** Create a session for a user who just logged in or registered */
+export const startSession = async (
+  user: UserAccount,
+  request: NextRequest
+): Promise<SessionTokens> => {
+  const now = new Date();
+  const secret = generateToken();
+  const session = await getDatabase().sessions.create({
+    id: SessionSecurity.generateSessionId(),
+    userId: user.id,
+    refreshTokenHash: hashToken(secret),
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL),
+    userAgent: request.headers.get('user-agent') ?? undefined,
+    ip: getClientIP(request),
+  });
+
+  return {
+    accessToken: SessionSecurity.createSessionToken(user.id, {
+      sessionId: session.id,
+    }),
+    refreshToken: `${session.id}.${secret}`,
+    session,
+  };
+};
+
+/**
+ * Exchange a refresh token for new tokens. The refresh secret is rotated;
+ * presenting an already rotated secret revokes the whole session.
+ */
+export const refreshSession = async (
+  refreshToken: string | undefined
+): Promise<RefreshResult> => {
+  const parsed = refreshToken ? parseRefreshToken(refreshToken) : null;
+  if (!parsed) {
+    return { ok: false, reason: refreshToken ? 'invalid' : 'missing' };
+  }
+
+  const db = getDatabase();
+  const session = await db.sessions.findById(parsed.sessionId);
+  if (!session || session.revokedAt) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const now = new Date();
+  if (new Date(session.expiresAt) <= now) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  if (!hashesMatch(hashToken(parsed.secret), session.refreshTokenHash)) {
+    // A stolen token was used after the legitimate client rotated it
+    await db.sessions.update(session.id, { revokedAt: now });
+    return { ok: false, reason: 'reused' };
+  }
+
+  const user = await db.users.findById(session.userId);
+  if (!user) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const secret = generateToken();
+  const updated = await db.sessions.update(session.id, {
+    refreshTokenHash: hashToken(secret),
+    lastUsedAt: now,
+  });
+
+  return {
+    ok: true,
+    user: toPublicUser(user),
+    accessToken: SessionSecurity.createSessionToken(user.id, {
+      sessionId: session.id,
+    }),
+    refreshToken: `${session.id}.${secret}`,
+    session: updated ?? session,
+  };
+};
+
+/**
+ * Resolve the user behind the access token cookie. Returns null for a
+ * missing, invalid or expired token, or a revoked session.
+ */
+export const readSession = async (
+  request: CookieSource
+): Promise<AuthContext | null> => {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  let claims: { userId: string; sessionId: string };
+  try {
+    claims = SessionSecurity.verifySessionToken(token);
+  } catch {
+    return null;
+  }
+
+  const db = getDatabase();
+  const session = await db.sessions.findById(claims.sessionId);
+  if (!session || session.revokedAt || session.userId !== claims.userId) {
+    return null;
+  }
+
+  const user = await db.users.findById(claims.userId);
+  return user ? { user: toPublicUser(user), session } : null;
+};
+
+/**
+ * Revoke the session named by the request's cookies, if any. Works with an
+ * expired access token as long as the refresh cookie is still valid.
+ */
+export const endSession = async (request: NextRequest): Promise<void> => {
+  const db = getDatabase();
+  const context = await readSession(request);
+  if (context) {
+    await db.sessions.update(context.session.id, { revokedAt: new Date() });
+    return;
+  }
+
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  const parsed = refreshToken ? parseRefreshToken(refreshToken) : null;
+  if (!parsed) return;
+
+  const session = await db.sessions.findById(parsed.sessionId);
+  if (
+    session &&
+    !session.revokedAt &&
+    hashesMatch(hashToken(parsed.secret), session.refreshTokenHash)
+  ) {
+    await db.sessions.update(session.id, { revokedAt: new Date() });
+  }
+};
+
+// =============================================================================
+// Cookies
+// =============================================================================
+
+/** Attach the session cookies to a response */
+export const setSessionCookies = (
+  response: NextResponse,
+  tokens: Pick<SessionTokens, 'accessToken' | 'refreshToken'>
+): NextResponse => {
+  // getCookieOptions() reports maxAge in milliseconds; cookies use seconds
+  const options = SessionSecurity.getCookieOptions();
+
+  response.cookies.set(SESSION_COOKIE, tokens.accessToken, {
+    ...options,
+    maxAge: Math.floor(options.maxAge / 1000),
+  });
+  response.cookies.set(REFRESH_COOKIE, tokens.refreshToken, {
+    ...options,
+    path: REFRESH_COOKIE_PATH,
+    maxAge: Math.floor(REFRESH_TOKEN_TTL / 1000),
+  });
+
+  return response;
+};
+
+/** Expire the session cookies */
+export const clearSessionCookies = (response: NextResponse): NextResponse => {
+  const options = SessionSecurity.getCookieOptions();
+
+  response.cookies.set(SESSION_COOKIE, '', { ...options, maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', {
+    ...options,
+    path: REFRESH_COOKIE_PATH,
+    maxAge: 0,
+  });
+
+  return response;
+};
+
+// =============================================================================
+// Password Reset
+// =============================================================================
+
+/**
+ * Issue a password reset token for a user, superseding older ones.
+ * Returns the plain token, which is only ever sent by email.
+ */
+export const createPasswordResetToken = async (
+  userId: string
+): Promise<{ token: string; record: PasswordResetToken }> => {
+  const db = getDatabase();
+  const now = new Date();
+  const token = generateToken();
+
+  await db.passwordResets.invalidateForUser(userId, now);
+  const record = await db.passwordResets.create({
+    id: createEntityId('reset'),
+    userId,
+    tokenHash: hashToken(token),
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + RESET_TOKEN_TTL),
+  });
+
+  return { token, record };
+};
+
+/** Look up an unused, unexpired reset token */
+export const findValidResetToken = async (
+  token: string
+): Promise<PasswordResetToken | null> => {
+  const record = await getDatabase().passwordResets.findByTokenHash(
+    hashToken(token)
+  );
+
+  if (!record || record.usedAt || new Date(record.expiresAt) <= new Date()) {
+    return null;
+  }
+  return record;
+};
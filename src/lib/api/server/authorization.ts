@@ -0,0 +1,169 @@
+/**
+ * Route Authorization
+ *
+ * Resolves the caller's session and applies the goal access policy from
+ * `shared/goal-access` inside route handlers. The middleware only checks
+ * that a session cookie is present; these helpers are the authoritative
+ * check. Failures are answered with the shared error body:
+ * - 401 NOT_AUTHENTICATED when a session is required but missing
+ * - 403 GOAL_FORBIDDEN when the user lacks the permission
+ *
+ * Server-rendered goal pages use `findViewableGoal`, which applies the same
+ * policy and leaves answering to the page.
+ *
+ * @fileoverview Session and goal permission checks for API routes and pages
+ * @version 1.0.0
+ */
+
+import { cookies } from 'next/headers';
+import type { NextRequest } from 'next/server';
+
+import { getDatabase } from '@/lib/db';
+import type { User } from '@/types/auth.types';
+import type { SmartGoal, Subtask } from '@/types/smart-goals.types';
+
+import { canAccessGoal, type GoalPermission } from '../shared/goal-access';
+
+import { readSession } from './auth';
+import { errorResponse, notFound, type ParseResult } from './responses';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface GoalAccess<TUser extends User | null = User | null> {
+  goal: SmartGoal;
+  /** Null for anonymous callers, which can only view public goals */
+  user: TUser;
+}
+
+/** Anonymous callers can only view, so other permissions always have a user */
+type AccessUser<P extends GoalPermission> = P extends 'view'
+  ? User | null
+  : User;
+
+// =============================================================================
+// Error Responses
+// =============================================================================
+
+export const notAuthenticated = () =>
+  errorResponse(401, 'You must be signed in', 'NOT_AUTHENTICATED');
+
+const PERMISSION_MESSAGES: Record<GoalPermission, string> = {
+  view: 'You do not have access to this goal',
+  edit_goal: 'You do not have permission to change this goal',
+  manage_tasks: 'You do not have permission to manage tasks of this goal',
+  record_checkpoints:
+    'You do not have permission to record checkpoints for this goal',
+  approve_criteria:
+    'You do not have permission to approve the criteria of this goal',
+  archive: 'Only the goal owner can archive, delete or restore this goal',
+  manage_members: 'Only the goal owner can change who has access to this goal',
+};
+
+/** 401 for anonymous callers, 403 for signed-in users without access */
+export const goalForbidden = (user: User | null, permission: GoalPermission) =>
+  user
+    ? errorResponse(403, PERMISSION_MESSAGES[permission], 'GOAL_FORBIDDEN')
+    : notAuthenticated();
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/** The signed-in user, or null for anonymous callers */
+export const getCurrentUser = async (
+  request: NextRequest
+): Promise<User | null> => (await readSession(request))?.user ?? null;
+
+/** The signed-in user, or a 401 response */
+export const requireUser = async (
+  request: NextRequest
+): Promise<ParseResult<User>> => {
+  const user = await getCurrentUser(request);
+  return user ? { data: user } : { response: notAuthenticated() };
+};
+
+/**
+ * Load a goal and check the caller has `permission` on it. Soft-deleted
+ * goals are returned too; routes decide how to answer for them.
+ */
+export const authorizeGoal = async <P extends GoalPermission>(
+  request: NextRequest,
+  goalId: string,
+  permission: P
+): Promise<ParseResult<GoalAccess<AccessUser<P>>>> => {
+  const [goal, user] = await Promise.all([
+    getDatabase().goals.findById(goalId),
+    getCurrentUser(request),
+  ]);
+
+  if (!goal) {
+    return { response: notFound('Goal', goalId) };
+  }
+  if (!canAccessGoal(goal, user?.id ?? null, permission)) {
+    return { response: goalForbidden(user, permission) };
+  }
+
+  // canAccessGoal only allows anonymous callers to view
+  return { data: { goal, user: user as AccessUser<P> } };
+};
+
+/**
+ * Load a goal for a server-rendered page together with the signed-in user.
+ * Null when the goal is missing, deleted or not visible to the user.
+ */
+export const findViewableGoal = async (
+  goalId: string
+): Promise<GoalAccess | null> => {
+  const [goal, session] = await Promise.all([
+    getDatabase().goals.findById(goalId),
+    readSession({ cookies: await cookies() }),
+  ]);
+  const user = session?.user ?? null;
+
+  if (
+    !goal ||
+    goal.isDeleted ||
+    !canAccessGoal(goal, user?.id ?? null, 'view')
+  ) {
+    return null;
+  }
+  return { goal, user };
+};
+
+/** Authorize access to the goal of a subtask, found through its task */
+export const authorizeSubtask = async <P extends GoalPermission>(
+  request: NextRequest,
+  subtask: Pick<Subtask, 'taskId'>,
+  permission: P
+): Promise<ParseResult<GoalAccess<AccessUser<P>>>> => {
+  const task = await getDatabase().tasks.findById(subtask.taskId);
+  if (!task) {
+    return { response: notFound('Task', subtask.taskId) };
+  }
+  return authorizeGoal(request, task.goalId, permission);
+};
+
+/**
+ * Check access to many goals for one user, loading each goal once. Bulk and
+ * cross-goal endpoints use this to skip or report items individually
+ * instead of failing the whole request.
+ */
+export const createGoalAccessCheck = (
+  userId: string | null,
+  permission: GoalPermission
+): ((goalId: string) => Promise<boolean>) => {
+  const results = new Map<string, Promise<boolean>>();
+
+  return goalId => {
+    let result = results.get(goalId);
+    if (!result) {
+      result = getDatabase()
+        .goals.findById(goalId)
+        .then(goal => goal !== null && canAccessGoal(goal, userId, permission));
+      results.set(goalId, result);
+    }
+    return result;
+  };
+};
@@ -0,0 +1,72 @@
+/**
+ * Canvas Request Schemas
+ *
+ * zod schemas for the goal canvas endpoints. Unknown keys are stripped, so
+ * clients cannot overwrite the goal, author or timestamps of a layout.
+ *
+ * @fileoverview Request validation for the canvas API routes
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+import {
+  CANVAS_CONNECTION_TYPES,
+  MAX_CANVAS_ZOOM,
+  MIN_CANVAS_ZOOM,
+} from '../shared/canvas';
+import { CANVAS_LAYOUT_ALGORITHMS } from '../shared/canvas-layout';
+
+// =============================================================================
+// Field Schemas
+// =============================================================================
+
+const coordinate = z
+  .number()
+  .refine(Number.isFinite, 'Coordinates must be numbers');
+
+const nodeId = z.string().min(1, 'Node ID is required').max(200);
+
+const connectionType = z.enum(CANVAS_CONNECTION_TYPES, {
+  message: `type must be one of ${CANVAS_CONNECTION_TYPES.join(', ')}`,
+});
+
+/** Largest number of node positions accepted in one layout */
+export const MAX_CANVAS_NODES = 5000;
+
+// =============================================================================
+// Connection Schemas
+// =============================================================================
+
+export const canvasConnectionSchema = z.object({
+  fromNodeId: nodeId,
+  toNodeId: nodeId,
+  type: connectionType,
+});
+
+// =============================================================================
+// Layout Schemas
+// =============================================================================
+
+export const saveCanvasLayoutSchema = z.object({
+  positions: z
+    .record(z.string(), z.object({ x: coordinate, y: coordinate }))
+    .refine(
+      positions => Object.keys(positions).length <= MAX_CANVAS_NODES,
+      `At most ${MAX_CANVAS_NODES} node positions per layout`
+    ),
+  viewport: z.object({
+    x: coordinate,
+    y: coordinate,
+    zoom: z
+      .number()
+      .min(MIN_CANVAS_ZOOM, `zoom must be at least ${MIN_CANVAS_ZOOM}`)
+      .max(MAX_CANVAS_ZOOM, `zoom must be at most ${MAX_CANVAS_ZOOM}`),
+  }),
+  showGrid: z.boolean().optional(),
+  algorithm: z
+    .enum(CANVAS_LAYOUT_ALGORITHMS, {
+      message: `algorithm must be one of ${CANVAS_LAYOUT_ALGORITHMS.join(', ')}`,
+    })
+    .optional(),
+});
@@ -0,0 +1,68 @@
+/**
+ * Server Canvas Persistence
+ *
+ * Loads canvas layouts and stores connection changes for the canvas route
+ * handlers. A connection change can touch tasks, milestones and the layout
+ * at once; the shared `planCanvasConnectionChange` decides what changes and
+ * this module writes it.
+ *
+ * @fileoverview Canvas layout storage for the API routes
+ * @version 1.0.0
+ */
+
+import { getDatabase } from '@/lib/db';
+import type { CanvasLayout, CanvasWriteBack } from '@/types/canvas.types';
+
+import { createDefaultCanvasLayout } from '../shared/canvas';
+
+// =============================================================================
+// Layouts
+// =============================================================================
+
+/** The saved layout of a goal, or the default layout when none was saved */
+export const loadCanvasLayout = async (goalId: string): Promise<CanvasLayout> =>
+  (await getDatabase().canvasLayouts.findByGoal(goalId)) ??
+  createDefaultCanvasLayout(goalId);
+
+// =============================================================================
+// Connections
+// =============================================================================
+
+/** Store the task, milestone and layout changes of a connection change */
+export const persistCanvasWriteBack = async (
+  layout: CanvasLayout,
+  writeBack: CanvasWriteBack,
+  userId: string
+): Promise<void> => {
+  const db = getDatabase();
+  const now = new Date();
+
+  for (const [taskId, dependencies] of Object.entries(
+    writeBack.taskDependencies
+  )) {
+    await db.tasks.update(taskId, {
+      dependencies,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+  }
+
+  for (const [milestoneId, taskIds] of Object.entries(
+    writeBack.milestoneTaskIds
+  )) {
+    await db.milestones.update(milestoneId, {
+      taskIds,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+  }
+
+  if (writeBack.layoutConnections) {
+    await db.canvasLayouts.save({
+      ...layout,
+      connections: writeBack.layoutConnections,
+      updatedAt: now,
+      updatedBy: userId,
+    });
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * DoR/DoD Request Schemas
+ *
+ * zod schemas for saving the DoR/DoD state of a goal or task and for the
+ * template library. Unknown keys are stripped; who saved a state or
+ * template and when is set by the server.
+ *
+ * @fileoverview Request validation for the DoR/DoD API routes
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+import {
+  APPROVAL_STATUSES,
+  AUDIT_ACTIONS,
+  MAX_OVERRIDE_REASON_LENGTH,
+} from '../shared/dor-dod';
+import {
+  DOR_DOD_TEMPLATE_CATEGORIES,
+  DOR_DOD_TEMPLATE_FORMATS,
+  DOR_DOD_TEMPLATE_VISIBILITIES,
+  MAX_TEMPLATE_FILE_LENGTH,
+} from '../shared/dor-dod-templates';
+
+// =============================================================================
+// Field Schemas
+// =============================================================================
+
+const CRITERIA_CATEGORIES = ['required', 'recommended', 'optional'] as const;
+
+const validationRuleSchema = z.object({
+  type: z.enum(['required', 'conditional', 'dependency']),
+  message: z.string().max(500),
+  condition: z.string().max(1000).optional(),
+  dependsOn: z.array(z.string().min(1)).max(100).optional(),
+});
+
+const templateCriterionSchema = z.object({
+  description: z
+    .string()
+    .trim()
+    .min(1, 'Criterion description is required')
+    .max(500, 'Criterion description must be 500 characters or less'),
+  category: z.enum(CRITERIA_CATEGORIES),
+  helpText: z.string().max(2000).optional(),
+  validationRule: validationRuleSchema.optional(),
+  order: z.number().int(),
+});
+
+const criterionSchema = templateCriterionSchema.extend({
+  id: z.string().min(1),
+  isCompleted: z.boolean(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+const templateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000),
+  category: z.enum(DOR_DOD_TEMPLATE_CATEGORIES),
+  dorCriteria: z.array(templateCriterionSchema).max(200),
+  dodCriteria: z.array(templateCriterionSchema).max(200),
+  isCustom: z.boolean(),
+});
+
+const templateVisibilitySchema = z.enum(DOR_DOD_TEMPLATE_VISIBILITIES, {
+  message: `visibility must be one of ${DOR_DOD_TEMPLATE_VISIBILITIES.join(', ')}`,
+});
+
+const approvalWorkflowSchema = z.object({
+  requestedAt: z.coerce.date().optional(),
+  approvedAt: z.coerce.date().optional(),
+  approvedBy: z.string().optional(),
+  rejectedAt: z.coerce.date().optional(),
+  rejectedBy: z.string().optional(),
+  comments: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        author: z.string(),
+        message: z.string().max(5000),
+        createdAt: z.coerce.date(),
+        type: z.enum(['comment', 'approval', 'rejection']),
+      })
+    )
+    .max(500),
+  status: z.enum(APPROVAL_STATUSES, {
+    message: `approval status must be one of ${APPROVAL_STATUSES.join(', ')}`,
+  }),
+});
+
+const auditLogEntrySchema = z.object({
+  id: z.string().min(1),
+  timestamp: z.coerce.date(),
+  action: z.enum(AUDIT_ACTIONS, {
+    message: `audit action must be one of ${AUDIT_ACTIONS.join(', ')}`,
+  }),
+  userId: z.string().optional(),
+  criterionId: z.string().optional(),
+  oldValue: z.unknown().optional(),
+  newValue: z.unknown().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+// =============================================================================
+// DoR/DoD Schemas
+// =============================================================================
+
+export const saveDorDodStateSchema = z.object({
+  dorCriteria: z.array(criterionSchema).max(200),
+  dodCriteria: z.array(criterionSchema).max(200),
+  currentTemplate: templateSchema.optional(),
+  timeTracking: z.object({
+    markedReadyAt: z.coerce.date().optional(),
+    markedDoneAt: z.coerce.date().optional(),
+    timeInProgress: z.number().min(0).optional(),
+    estimatedDuration: z.number().min(0).optional(),
+  }),
+  approvalWorkflow: approvalWorkflowSchema,
+  auditLog: z.array(auditLogEntrySchema).max(5000),
+});
+
+/** Sent with a status change to move past open criteria */
+export const dorDodOverrideSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Give a reason for overriding the open criteria')
+    .max(
+      MAX_OVERRIDE_REASON_LENGTH,
+      `Override reasons must be ${MAX_OVERRIDE_REASON_LENGTH} characters or less`
+    ),
+});
+
+// =============================================================================
+// Template Library Schemas
+// =============================================================================
+
+export const saveDorDodTemplateSchema = templateSchema
+  .omit({ id: true, isCustom: true })
+  .extend({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Template name is required')
+      .max(200, 'Template name must be 200 characters or less'),
+    visibility: templateVisibilitySchema,
+  });
+
+/** A JSON or YAML file of templates; the format is detected when not given */
+export const importDorDodTemplatesSchema = z.object({
+  content: z
+    .string()
+    .min(1, 'The file is empty')
+    .max(
+      MAX_TEMPLATE_FILE_LENGTH,
+      `Files must be ${MAX_TEMPLATE_FILE_LENGTH} characters or less`
+    ),
+  format: z
+    .enum(DOR_DOD_TEMPLATE_FORMATS, {
+      message: `format must be one of ${DOR_DOD_TEMPLATE_FORMATS.join(', ')}`,
+    })
+    .optional(),
+  visibility: templateVisibilitySchema.default('private'),
+});
+
+export const restoreDorDodTemplateSchema = z.object({
+  version: z.number().int().min(1),
+});
@@ -0,0 +1,234 @@
+/**
+ * Server DoR/DoD Persistence
+ *
+ * Loads and saves the DoR/DoD state of goals and tasks for the route
+ * handlers. The goal and task routes only differ in how they find the
+ * goal, so both hand the save to `saveDorDodState`, which checks the
+ * permissions the shared `getDorDodUpdatePermissions` asks for. The
+ * template library routes load templates with `authorizeDorDodTemplate`.
+ *
+ * @fileoverview DoR/DoD state storage for the API routes
+ * @version 1.0.0
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { getDatabase } from '@/lib/db';
+import type { User } from '@/types/auth.types';
+import type {
+  DorDodTarget,
+  StoredDorDodState,
+  StoredDorDodTemplate,
+} from '@/types/dor-dod.types';
+import type { SmartGoal } from '@/types/smart-goals.types';
+
+import type { DorDodOverride } from '../dor-dod';
+import {
+  applyDorDodUpdate,
+  canOverrideDorDod,
+  createDefaultDorDodState,
+  DOR_DOD_UNMET,
+  getDorDodApprovalError,
+  getDorDodGate,
+  getDorDodOverrideError,
+  getDorDodUpdatePermissions,
+  recordDorDodOverride,
+  toDorDodGateDetails,
+} from '../shared/dor-dod';
+import {
+  canEditDorDodTemplate,
+  canViewDorDodTemplate,
+} from '../shared/dor-dod-templates';
+import { canAccessGoal } from '../shared/goal-access';
+
+import {
+  authorizeGoal,
+  createGoalAccessCheck,
+  getCurrentUser,
+  goalForbidden,
+  notAuthenticated,
+  requireUser,
+} from './authorization';
+import { saveDorDodStateSchema } from './dor-dod-schemas';
+import {
+  errorResponse,
+  notFound,
+  parseBody,
+  type ParseResult,
+} from './responses';
+
+// =============================================================================
+// States
+// =============================================================================
+
+/** The saved state of a goal or task, or an empty state */
+export const loadDorDodState = async (
+  target: DorDodTarget,
+  goalId: string
+): Promise<StoredDorDodState> =>
+  (await getDatabase().dorDodStates.find(target)) ??
+  createDefaultDorDodState(target, goalId);
+
+/**
+ * Saved states of one goal and its tasks, or of every goal the caller can
+ * view when no goal is given
+ */
+export const listVisibleDorDodStates = async (
+  request: NextRequest,
+  goalId?: string
+): Promise<ParseResult<StoredDorDodState[]>> => {
+  const db = getDatabase();
+
+  if (goalId) {
+    const access = await authorizeGoal(request, goalId, 'view');
+    if (access.response) return access;
+    return { data: await db.dorDodStates.list(goalId) };
+  }
+
+  const user = await getCurrentUser(request);
+  const canView = createGoalAccessCheck(user?.id ?? null, 'view');
+  const states: StoredDorDodState[] = [];
+  for (const state of await db.dorDodStates.list()) {
+    if (await canView(state.goalId)) states.push(state);
+  }
+  return { data: states };
+};
+
+/**
+ * Validate a save request, check the caller may make the changes it
+ * contains and store the merged state
+ */
+export const saveDorDodState = async (
+  request: NextRequest,
+  target: DorDodTarget,
+  goal: SmartGoal,
+  user: User | null
+): Promise<NextResponse> => {
+  if (!user) return notAuthenticated();
+
+  const parsed = await parseBody(request, saveDorDodStateSchema);
+  if (parsed.response) return parsed.response;
+
+  const existing = await loadDorDodState(target, goal.id);
+  for (const permission of getDorDodUpdatePermissions(existing, parsed.data)) {
+    if (!canAccessGoal(goal, user.id, permission)) {
+      return goalForbidden(user, permission);
+    }
+  }
+
+  const approvalError = getDorDodApprovalError(existing, parsed.data);
+  if (approvalError) {
+    return errorResponse(409, approvalError, 'APPROVAL_NOT_REQUESTED');
+  }
+
+  const state = await getDatabase().dorDodStates.save(
+    applyDorDodUpdate(existing, parsed.data, user.id)
+  );
+  return NextResponse.json(state);
+};
+
+// =============================================================================
+// Transition Gates
+// =============================================================================
+
+/**
+ * Check a status change against the DoR/DoD of the goal or task. Returns
+ * the error response when the change is blocked. Otherwise `data` holds the
+ * state with an accepted override in its audit log, which the caller stores
+ * with `saveDorDodOverride` once the status change is saved, or `null` when
+ * nothing was overridden. Conditions see the goal and task as they are
+ * before the change.
+ */
+export const checkDorDodGate = async (
+  target: DorDodTarget,
+  goal: SmartGoal,
+  user: User,
+  fromStatus: string,
+  toStatus: string,
+  override?: DorDodOverride
+): Promise<ParseResult<StoredDorDodState | null>> => {
+  const state = await loadDorDodState(target, goal.id);
+  const task =
+    target.type === 'task'
+      ? await getDatabase().tasks.findById(target.id)
+      : undefined;
+  const gate = getDorDodGate(state, fromStatus, toStatus, {
+    goal,
+    task: task ?? undefined,
+  });
+  if (!gate) return { data: null };
+
+  if (!override) {
+    return {
+      response: errorResponse(
+        409,
+        gate.message,
+        DOR_DOD_UNMET,
+        toDorDodGateDetails(gate)
+      ),
+    };
+  }
+  if (!canOverrideDorDod(goal, user.id)) {
+    return {
+      response: errorResponse(
+        403,
+        'Only the goal owner can override open DoR/DoD criteria',
+        'DOR_DOD_OVERRIDE_FORBIDDEN'
+      ),
+    };
+  }
+  const overrideError = getDorDodOverrideError(override);
+  if (overrideError) {
+    return {
+      response: errorResponse(400, overrideError, 'VALIDATION_FAILED'),
+    };
+  }
+
+  return { data: recordDorDodOverride(state, gate, override, user.id) };
+};
+
+/** Store the override `checkDorDodGate` accepted, after the status change */
+export const saveDorDodOverride = async (
+  state: StoredDorDodState | null
+): Promise<void> => {
+  if (state) await getDatabase().dorDodStates.save(state);
+};
+
+// =============================================================================
+// Template Library
+// =============================================================================
+
+export interface DorDodTemplateAccess {
+  template: StoredDorDodTemplate;
+  user: User;
+}
+
+/**
+ * Load a library template the caller can see, and check they own it when
+ * `access` is `edit`. Private templates of others answer 404, as if they
+ * did not exist.
+ */
+export const authorizeDorDodTemplate = async (
+  request: NextRequest,
+  id: string,
+  access: 'view' | 'edit'
+): Promise<ParseResult<DorDodTemplateAccess>> => {
+  const user = await requireUser(request);
+  if (user.response) return user;
+
+  const template = await getDatabase().dorDodTemplates.findById(id);
+  if (!template || !canViewDorDodTemplate(template, user.data.id)) {
+    return { response: notFound('Template', id) };
+  }
+  if (access === 'edit' && !canEditDorDodTemplate(template, user.data.id)) {
+    return {
+      response: errorResponse(
+        403,
+        'Only the owner can change or delete this template',
+        'TEMPLATE_FORBIDDEN'
+      ),
+    };
+  }
+
+  return { data: { template, user: user.data } };
+};
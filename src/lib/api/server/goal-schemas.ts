@@ -0,0 +1,38 @@
+/**
+ * Goal Request Schemas
+ *
+ * zod schemas for the goal endpoints that take query parameters.
+ *
+ * @fileoverview Request validation for the goal API routes
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+import { GOAL_EXPORT_FORMATS } from '../shared/goal-export';
+
+// =============================================================================
+// Field Schemas
+// =============================================================================
+
+/** Query string flag; left undefined when absent so defaults apply */
+const flag = z
+  .enum(['true', 'false'], { message: 'Flags must be true or false' })
+  .transform(value => value === 'true')
+  .optional();
+
+// =============================================================================
+// Query Schemas
+// =============================================================================
+
+export const goalExportQuerySchema = z.object({
+  format: z
+    .enum(GOAL_EXPORT_FORMATS, {
+      message: `format must be one of ${GOAL_EXPORT_FORMATS.join(', ')}`,
+    })
+    .default('pdf'),
+  includeScore: flag,
+  includeSuggestions: flag,
+  includeTimeline: flag,
+  includeResources: flag,
+});
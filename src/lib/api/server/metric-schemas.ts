@@ -0,0 +1,83 @@
+/**
+ * Metric Request Schemas
+ *
+ * zod schemas for the checkpoint endpoints. Unknown keys are stripped, so
+ * clients cannot overwrite IDs, ownership or timestamps.
+ *
+ * @fileoverview Request validation for the checkpoint API routes
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+// =============================================================================
+// Field Schemas
+// =============================================================================
+
+const value = z.number().refine(Number.isFinite, 'Value must be a number');
+
+const note = z.string().max(1000, 'Note must be 1000 characters or less');
+
+const confidence = z
+  .number()
+  .min(0, 'Confidence must be between 0 and 1')
+  .max(1, 'Confidence must be between 0 and 1');
+
+/** Largest number of checkpoints accepted by one bulk request */
+export const MAX_BULK_CHECKPOINTS = 500;
+
+// =============================================================================
+// Checkpoint Schemas
+// =============================================================================
+
+export const createCheckpointSchema = z.object({
+  value,
+  recordedDate: z.coerce.date().optional(),
+  note: note.optional(),
+  isAutomatic: z.boolean().optional(),
+  source: z.string().max(200).optional(),
+  confidence: confidence.optional(),
+});
+
+export const updateCheckpointSchema = z.object({
+  value: value.optional(),
+  recordedDate: z.coerce.date().optional(),
+  note: note.optional(),
+  confidence: confidence.optional(),
+});
+
+/**
+ * Bulk requests are only checked for shape here; each checkpoint is
+ * validated on its own so one bad entry does not reject the batch.
+ */
+export const bulkCheckpointSchema = z.object({
+  checkpoints: z
+    .array(z.unknown())
+    .min(1, 'At least one checkpoint is required')
+    .max(
+      MAX_BULK_CHECKPOINTS,
+      `At most ${MAX_BULK_CHECKPOINTS} checkpoints per request`
+    ),
+});
+
+// =============================================================================
+// Query Schemas
+// =============================================================================
+
+export const checkpointStatsQuerySchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine(query => query.startDate <= query.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['endDate'],
+  });
+
+export const trendQuerySchema = z.object({
+  days: z.coerce
+    .number()
+    .int('days must be a whole number')
+    .min(1, 'days must be at least 1')
+    .optional(),
+});
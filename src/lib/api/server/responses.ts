@@ -0,0 +1,129 @@
+/**
+ * Route Handler Responses
+ *
+ * Helpers for the `src/app/api` route handlers so every endpoint answers
+ * with the same error body:
+ *
+ * ```json
+ * { "error": "Not Found", "message": "Task with id \"x\" not found", "code": "TASK_NOT_FOUND" }
+ * ```
+ *
+ * @fileoverview Shared error responses and request parsing for API routes
+ * @version 1.0.0
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ErrorResponse {
+  error: string;
+  message: string;
+  code?: string;
+  /** Field-level validation issues */
+  details?: Array<{ path: string; message: string }>;
+}
+
+/** Result of parsing a request; `response` is set when parsing failed */
+export type ParseResult<T> =
+  | { data: T; response?: undefined }
+  | { data?: undefined; response: NextResponse<ErrorResponse> };
+
+// =============================================================================
+// Error Responses
+// =============================================================================
+
+const STATUS_ERRORS: Record<number, string> = {
+  400: 'Validation Error',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  410: 'Gone',
+  423: 'Locked',
+  500: 'Internal Server Error',
+};
+
+export const errorResponse = (
+  status: number,
+  message: string,
+  code?: string,
+  details?: ErrorResponse['details']
+): NextResponse<ErrorResponse> => {
+  const body: ErrorResponse = {
+    error: STATUS_ERRORS[status] ?? 'Error',
+    message,
+  };
+  if (code) body.code = code;
+  if (details) body.details = details;
+
+  return NextResponse.json(body, { status });
+};
+
+/** 404 for a missing entity, e.g. `notFound('Task', id)` → TASK_NOT_FOUND */
+export const notFound = (entity: string, id: string) =>
+  errorResponse(
+    404,
+    `${entity} with id "${id}" not found`,
+    `${entity.toUpperCase().replace(/\s+/g, '_')}_NOT_FOUND`
+  );
+
+/** Log an unexpected error and answer with a generic 500 */
+export const internalError = (message: string, error: unknown) => {
+  console.error(`${message}:`, error);
+  return errorResponse(500, message);
+};
+
+// =============================================================================
+// Request Parsing
+// =============================================================================
+
+const toDetails = (error: z.ZodError): ErrorResponse['details'] =>
+  error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+
+/** Validate a value against a schema, producing a 400 response on failure */
+export const validate = <T>(
+  schema: z.ZodType<T>,
+  value: unknown
+): ParseResult<T> => {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  return {
+    response: errorResponse(
+      400,
+      result.error.issues.map(issue => issue.message).join('; '),
+      'VALIDATION_FAILED',
+      toDetails(result.error)
+    ),
+  };
+};
+
+/** Read a JSON request body and validate it against a schema */
+export const parseBody = async <T>(
+  request: Request,
+  schema: z.ZodType<T>
+): Promise<ParseResult<T>> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      response: errorResponse(
+        400,
+        'Request body must be valid JSON',
+        'INVALID_JSON'
+      ),
+    };
+  }
+
+  return validate(schema, body);
+};
@@ -0,0 +1,51 @@
+/**
+ * Review Request Schemas
+ *
+ * zod schemas for the goal review endpoints. Unknown keys are stripped, so
+ * clients cannot set the review status, authors or timestamps themselves.
+ *
+ * @fileoverview Request validation for the review API routes
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+// =============================================================================
+// Field Schemas
+// =============================================================================
+
+const REVIEW_DECISIONS = ['approve', 'reject', 'request_changes'] as const;
+
+const content = z
+  .string()
+  .trim()
+  .min(1, 'Comment must not be empty')
+  .max(5000, 'Comment must be 5000 characters or less');
+
+// =============================================================================
+// Review Schemas
+// =============================================================================
+
+export const requestReviewSchema = z.object({
+  reviewerIds: z
+    .array(z.string().min(1))
+    .min(1, 'Name at least one reviewer')
+    .max(20, 'At most 20 reviewers per review'),
+  requiredApprovals: z
+    .number()
+    .int('Required approvals must be a whole number')
+    .min(1, 'At least one approval is required'),
+  message: content.optional(),
+});
+
+export const reviewDecisionSchema = z.object({
+  decision: z.enum(REVIEW_DECISIONS, {
+    message: `decision must be one of ${REVIEW_DECISIONS.join(', ')}`,
+  }),
+  comment: content.optional(),
+});
+
+export const reviewCommentSchema = z.object({
+  content,
+  parentId: z.string().min(1).optional(),
+});
@@ -0,0 +1,46 @@
+/**
+ * Server Review Persistence
+ *
+ * Loads and stores goal reviews for the review route handlers. The shared
+ * review functions decide what a request changes; this module writes it,
+ * including moving the goal back to draft when changes are requested.
+ *
+ * @fileoverview Goal review storage for the API routes
+ * @version 1.0.0
+ */
+
+import { getDatabase } from '@/lib/db';
+import type { GoalReview } from '@/types/review.types';
+import { GoalStatus, type SmartGoal } from '@/types/smart-goals.types';
+
+import { createDefaultReview } from '../shared/review';
+
+// =============================================================================
+// Reviews
+// =============================================================================
+
+/** The saved review of a goal, or an empty review when none was requested */
+export const loadReview = async (goalId: string): Promise<GoalReview> =>
+  (await getDatabase().reviews.findByGoal(goalId)) ??
+  createDefaultReview(goalId);
+
+/** Move a goal back to draft after a reviewer requested changes */
+export const reopenGoal = async (
+  goal: SmartGoal,
+  userId: string,
+  now: Date
+): Promise<void> => {
+  if (goal.status === GoalStatus.DRAFT) return;
+
+  // Leave out the child collections so the repository keeps the stored ones
+  const updated: Partial<SmartGoal> = {
+    ...goal,
+    status: GoalStatus.DRAFT,
+    updatedAt: now,
+    updatedBy: userId,
+  };
+  delete updated.tasks;
+  delete updated.milestones;
+  delete updated.checkpoints;
+  await getDatabase().goals.save(updated as SmartGoal);
+};
@@ -0,0 +1,124 @@
+/**
+ * Task Request Schemas
+ *
+ * zod schemas for the task, subtask and checklist endpoints. Unknown keys
+ * are stripped, so clients cannot overwrite IDs, ownership or timestamps.
+ *
+ * @fileoverview Request validation for the task API routes
+ * @version 1.0.0
+ */
+
+import { z } from 'zod';
+
+import { GoalPriority, TaskStatus } from '@/types/smart-goals.types';
+
+import { dorDodOverrideSchema } from './dor-dod-schemas';
+
+// =============================================================================
+// Field Schemas
+// =============================================================================
+
+const title = z
+  .string()
+  .trim()
+  .min(1, 'Title is required')
+  .max(200, 'Title must be 200 characters or less');
+
+const description = z
+  .string()
+  .max(5000, 'Description must be 5000 characters or less');
+
+const hours = z.number().min(0, 'Hours cannot be negative');
+
+const progress = z
+  .number()
+  .min(0, 'Progress must be between 0 and 100')
+  .max(100, 'Progress must be between 0 and 100');
+
+const idList = z.array(z.string().min(1)).min(1, 'At least one ID is required');
+
+// =============================================================================
+// Task Schemas
+// =============================================================================
+
+export const createTaskSchema = z.object({
+  title,
+  description: description.optional(),
+  priority: z.enum(GoalPriority).default(GoalPriority.MEDIUM),
+  assignedTo: z.string().optional(),
+  estimatedHours: hours.optional(),
+  dueDate: z.coerce.date().optional(),
+  startDate: z.coerce.date().optional(),
+  tags: z.array(z.string()).optional(),
+  dependencies: z.array(z.string()).optional(),
+  order: z.number().int().min(0).optional(),
+});
+
+export const updateTaskSchema = z.object({
+  title: title.optional(),
+  description: description.optional(),
+  status: z.enum(TaskStatus).optional(),
+  priority: z.enum(GoalPriority).optional(),
+  assignedTo: z.string().optional(),
+  estimatedHours: hours.optional(),
+  actualHours: hours.optional(),
+  dueDate: z.coerce.date().optional(),
+  startDate: z.coerce.date().optional(),
+  completedAt: z.coerce.date().optional(),
+  progress: progress.optional(),
+  tags: z.array(z.string()).optional(),
+  dependencies: z.array(z.string()).optional(),
+  order: z.number().int().min(0).optional(),
+  notes: z.string().optional(),
+  dorDodOverride: dorDodOverrideSchema.optional(),
+});
+
+// =============================================================================
+// Subtask Schemas
+// =============================================================================
+
+export const createSubtaskSchema = createTaskSchema.omit({
+  startDate: true,
+  order: true,
+});
+
+export const updateSubtaskSchema = updateTaskSchema.omit({
+  startDate: true,
+  dorDodOverride: true,
+});
+
+// =============================================================================
+// Checklist Schemas
+// =============================================================================
+
+export const createChecklistItemSchema = z.object({
+  title,
+  description: description.optional(),
+  isRequired: z.boolean().optional(),
+});
+
+export const updateChecklistItemSchema = z.object({
+  title: title.optional(),
+  description: description.optional(),
+  isCompleted: z.boolean().optional(),
+  isRequired: z.boolean().optional(),
+  order: z.number().int().min(0).optional(),
+});
+
+// =============================================================================
+// Bulk Schemas
+// =============================================================================
+
+export const bulkTaskStatusSchema = z.object({
+  ids: idList,
+  status: z.enum(TaskStatus),
+});
+
+export const bulkTaskDeleteSchema = z.object({
+  ids: idList,
+  permanent: z.boolean().optional(),
+});
+
+export const taskOrderSchema = z.object({
+  taskIds: idList,
+});
@@ -0,0 +1,175 @@
+/**
+ * Goal Board Tests
+ *
+ * @fileoverview Unit tests for the Kanban board status rules and card moves
+ * @version 1.0.0
+ */
+
+import { createMockTask } from '@/lib/mock-data/smart-goals';
+import { TaskStatus, type Task } from '@/types/smart-goals.types';
+
+import {
+  getBoardMoveError,
+  getWipBreachWarning,
+  getWipLimitsError,
+  getWipState,
+  groupTasksByStatus,
+  planBoardMove,
+} from '../board';
+
+const createTasks = (): Task[] =>
+  [
+    ['todo-1', TaskStatus.TODO],
+    ['doing-1', TaskStatus.IN_PROGRESS],
+    ['todo-2', TaskStatus.TODO],
+    ['doing-2', TaskStatus.IN_PROGRESS],
+    ['done-1', TaskStatus.COMPLETED],
+  ].map(([id, status], index) =>
+    createMockTask('goal-1', {
+      id,
+      status: status as TaskStatus,
+      order: index + 1,
+      progress: status === TaskStatus.COMPLETED ? 100 : 0,
+      completedAt: undefined,
+    })
+  );
+
+const ids = (tasks: Task[]) => tasks.map(task => task.id);
+
+describe('board columns', () => {
+  it('groups tasks by status in order', () => {
+    const columns = groupTasksByStatus(createTasks().reverse());
+
+    expect(ids(columns[TaskStatus.TODO])).toEqual(['todo-1', 'todo-2']);
+    expect(ids(columns[TaskStatus.IN_PROGRESS])).toEqual([
+      'doing-1',
+      'doing-2',
+    ]);
+    expect(columns[TaskStatus.BLOCKED]).toEqual([]);
+  });
+
+  it('explains moves the status rules forbid', () => {
+    expect(
+      getBoardMoveError({ status: TaskStatus.TODO }, TaskStatus.TODO)
+    ).toBeNull();
+    expect(
+      getBoardMoveError({ status: TaskStatus.TODO }, TaskStatus.IN_PROGRESS)
+    ).toBeNull();
+    expect(
+      getBoardMoveError({ status: TaskStatus.TODO }, TaskStatus.COMPLETED)
+    ).toBe('To Do tasks can only move to In Progress');
+    expect(
+      getBoardMoveError({ status: TaskStatus.COMPLETED }, TaskStatus.TODO)
+    ).toBe('Completed tasks cannot be moved to another column');
+  });
+});
+
+describe('WIP limits', () => {
+  it('compares column sizes to their limits', () => {
+    expect(getWipState(3)).toBe('none');
+    expect(getWipState(1, 2)).toBe('under');
+    expect(getWipState(2, 2)).toBe('at');
+    expect(getWipState(3, 2)).toBe('over');
+  });
+
+  it('validates limits', () => {
+    expect(getWipLimitsError({ [TaskStatus.IN_PROGRESS]: 3 })).toBeNull();
+    expect(getWipLimitsError({ [TaskStatus.IN_PROGRESS]: 0 })).toBe(
+      'WIP limits must be whole numbers of at least 1'
+    );
+    expect(getWipLimitsError({ doing: 2 })).toBe(
+      'Unknown task status "doing" in WIP limits'
+    );
+    expect(getWipLimitsError([])).toMatch(/must be an object/);
+  });
+
+  it('warns when a move breaches a limit', () => {
+    const tasks = createTasks();
+    const limits = { [TaskStatus.IN_PROGRESS]: 2 };
+
+    expect(
+      getWipBreachWarning(
+        tasks,
+        { taskId: 'todo-1', toStatus: TaskStatus.IN_PROGRESS },
+        limits
+      )
+    ).toBe('In Progress now holds 3 tasks, over its WIP limit of 2');
+    expect(
+      getWipBreachWarning(
+        tasks,
+        {
+          taskId: 'doing-2',
+          toStatus: TaskStatus.IN_PROGRESS,
+          beforeTaskId: 'doing-1',
+        },
+        limits
+      )
+    ).toBeNull();
+  });
+});
+
+describe('planBoardMove', () => {
+  it('reorders cards within a column', () => {
+    const plan = planBoardMove(createTasks(), {
+      taskId: 'todo-2',
+      toStatus: TaskStatus.TODO,
+      beforeTaskId: 'todo-1',
+    });
+
+    expect(plan?.statusChanged).toBe(false);
+    expect(plan?.taskOrder).toEqual([
+      'todo-2',
+      'todo-1',
+      'doing-1',
+      'doing-2',
+      'done-1',
+    ]);
+    expect(plan?.tasks.map(task => task.order)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('moves a card to the end of another column', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    const plan = planBoardMove(
+      createTasks(),
+      { taskId: 'doing-1', toStatus: TaskStatus.COMPLETED },
+      now
+    );
+
+    expect(plan?.statusChanged).toBe(true);
+    const moved = plan?.tasks.find(task => task.id === 'doing-1');
+    expect(moved).toMatchObject({
+      status: TaskStatus.COMPLETED,
+      progress: 100,
+      completedAt: now,
+    });
+    expect(plan?.taskOrder).toEqual([
+      'todo-1',
+      'todo-2',
+      'doing-2',
+      'done-1',
+      'doing-1',
+    ]);
+  });
+
+  it('keeps the order when a card changes column in place', () => {
+    const plan = planBoardMove(createTasks(), {
+      taskId: 'todo-1',
+      toStatus: TaskStatus.IN_PROGRESS,
+      beforeTaskId: 'doing-1',
+    });
+
+    expect(plan?.statusChanged).toBe(true);
+    expect(plan?.taskOrder).toBeNull();
+  });
+
+  it('rejects forbidden and unknown moves', () => {
+    const tasks = createTasks();
+
+    expect(
+      planBoardMove(tasks, { taskId: 'done-1', toStatus: TaskStatus.TODO })
+    ).toBeNull();
+    expect(
+      planBoardMove(tasks, { taskId: 'missing', toStatus: TaskStatus.TODO })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Goal Canvas Layout Tests
+ *
+ * @fileoverview Unit tests for the canvas auto layouts and connection routing
+ * @version 1.0.0
+ */
+
+import {
+  createMockMilestone,
+  createMockOutcome,
+  createMockSmartGoal,
+  createMockTask,
+} from '@/lib/mock-data/smart-goals';
+import type { CanvasNode, CanvasNodeType } from '@/types/canvas.types';
+
+import {
+  buildCanvasConnections,
+  buildCanvasNodes,
+  CANVAS_NODE_SIZES,
+  renderCanvasSvg,
+  toCanvasNodeId,
+} from '../canvas';
+import {
+  arrangeCanvasNodes,
+  layoutCanvasNodes,
+  routeCanvasConnection,
+  routeCanvasConnections,
+} from '../canvas-layout';
+
+const createGoal = () => {
+  const goal = createMockSmartGoal({ id: 'goal-1' });
+  const tasks = ['task-1', 'task-2', 'task-3', 'task-4'].map((id, order) =>
+    createMockTask(goal.id, { id, order, dependencies: [] })
+  );
+  tasks[3].dependencies = ['task-1'];
+
+  return {
+    ...goal,
+    tasks,
+    // Listed against the task order, so the rows need reordering
+    milestones: [
+      createMockMilestone(goal.id, {
+        id: 'milestone-1',
+        taskIds: ['task-3'],
+      }),
+      createMockMilestone(goal.id, {
+        id: 'milestone-2',
+        taskIds: ['task-1', 'task-2'],
+      }),
+    ],
+    outcomes: [
+      createMockOutcome(goal.id, { id: 'outcome-1' }),
+      createMockOutcome(goal.id, { id: 'outcome-2' }),
+    ],
+  };
+};
+
+const arrange = (algorithm: 'layered' | 'radial') => {
+  const goal = createGoal();
+  const connections = buildCanvasConnections(goal);
+  const positions = layoutCanvasNodes(
+    buildCanvasNodes(goal),
+    connections,
+    algorithm
+  );
+  return { goal, connections, nodes: buildCanvasNodes(goal, { positions }) };
+};
+
+const overlaps = (a: CanvasNode, b: CanvasNode) =>
+  a.x < b.x + b.width &&
+  b.x < a.x + a.width &&
+  a.y < b.y + b.height &&
+  b.y < a.y + a.height;
+
+const expectNoOverlaps = (nodes: CanvasNode[]) => {
+  nodes.forEach((node, i) =>
+    nodes.slice(i + 1).forEach(other => {
+      expect({
+        node: node.id,
+        other: other.id,
+        overlap: overlaps(node, other),
+      }).toEqual({ node: node.id, other: other.id, overlap: false });
+    })
+  );
+};
+
+const createNode = (
+  type: CanvasNodeType,
+  entityId: string,
+  x: number,
+  y: number
+): CanvasNode => ({
+  id: toCanvasNodeId(type, entityId),
+  type,
+  entityId,
+  title: entityId,
+  x,
+  y,
+  ...CANVAS_NODE_SIZES[type],
+  color: '#000',
+});
+
+describe('canvas auto layout', () => {
+  it('stacks the goal hierarchy in rows without overlaps', () => {
+    const { nodes } = arrange('layered');
+    const find = (id: string) => nodes.find(node => node.id === id)!;
+    const rowOf = (type: CanvasNodeType) =>
+      new Set(nodes.filter(node => node.type === type).map(node => node.y));
+
+    expect(rowOf('outcome').size).toBe(1);
+    expect(find('goal:goal-1').y).toBeLessThan(find('outcome:outcome-1').y);
+    expect(find('outcome:outcome-1').y).toBeLessThan(
+      find('milestone:milestone-1').y
+    );
+    expect(find('milestone:milestone-1').y).toBeLessThan(find('task:task-1').y);
+    // Dependent tasks sit below their prerequisites, metrics below all tasks
+    expect(find('task:task-1').y).toBeLessThan(find('task:task-4').y);
+    expect(find('task:task-4').y).toBeLessThan(find('metric:goal-1').y);
+    expectNoOverlaps(nodes);
+  });
+
+  it('orders rows so tasks sit below their milestones', () => {
+    const { nodes } = arrange('layered');
+    const x = (id: string) => nodes.find(node => node.id === id)!.x;
+
+    expect(x('milestone:milestone-1')).toBeLessThan(x('milestone:milestone-2'));
+    expect(x('task:task-3')).toBeLessThan(x('task:task-1'));
+    expect(x('task:task-3')).toBeLessThan(x('task:task-2'));
+  });
+
+  it('puts the goal in the centre of the radial layout', () => {
+    const { nodes } = arrange('radial');
+    const center = (node: CanvasNode) => ({
+      x: node.x + node.width / 2,
+      y: node.y + node.height / 2,
+    });
+    const hub = center(nodes.find(node => node.type === 'goal')!);
+    const distance = (type: CanvasNodeType) =>
+      nodes
+        .filter(node => node.type === type)
+        .map(node =>
+          Math.hypot(center(node).x - hub.x, center(node).y - hub.y)
+        );
+
+    const outcomes = distance('outcome');
+    expect(outcomes[0]).toBeCloseTo(outcomes[1], 0);
+    expect(Math.max(...outcomes)).toBeLessThan(
+      Math.min(...distance('milestone'))
+    );
+    expect(Math.max(...distance('milestone'))).toBeLessThan(
+      Math.min(...distance('task'))
+    );
+    expectNoOverlaps(nodes);
+  });
+
+  it.each(['layered', 'radial'] as const)(
+    'adds nodes to a %s canvas without moving the others',
+    algorithm => {
+      const { goal, nodes } = arrange(algorithm);
+      const saved = Object.fromEntries(
+        nodes.map(node => [node.id, { x: node.x, y: node.y }])
+      );
+      const updated = {
+        ...goal,
+        tasks: [
+          ...goal.tasks,
+          createMockTask(goal.id, { id: 'task-5', order: 5, dependencies: [] }),
+        ],
+        milestones: goal.milestones.map(milestone =>
+          milestone.id === 'milestone-1'
+            ? { ...milestone, taskIds: [...milestone.taskIds, 'task-5'] }
+            : milestone
+        ),
+      };
+
+      const positions = arrangeCanvasNodes(
+        buildCanvasNodes(updated),
+        buildCanvasConnections(updated),
+        saved,
+        algorithm
+      );
+
+      expect(positions).toMatchObject(saved);
+      expect(positions['task:task-5']).toBeDefined();
+      expectNoOverlaps(buildCanvasNodes(updated, { positions }));
+      if (algorithm === 'layered') {
+        expect(positions['task:task-5'].y).toBe(saved['task:task-3'].y);
+      }
+    }
+  );
+});
+
+describe('canvas connection routing', () => {
+  const from = createNode('task', 'a', 0, 0);
+  const to = createNode('task', 'b', 400, 0);
+  const blocker = createNode('milestone', 'm', 180, -5);
+
+  it('keeps straight lines when nothing is in the way', () => {
+    expect(routeCanvasConnection(from, to, [from, to])).toHaveLength(2);
+  });
+
+  it('bends lines around the nodes in their way', () => {
+    const route = routeCanvasConnection(from, to, [from, to, blocker]);
+
+    expect(route.length).toBeGreaterThan(2);
+    expect(route[0].x).toBeGreaterThanOrEqual(from.x);
+    route.slice(1, -1).forEach(point => {
+      const insideBlocker =
+        point.x >= blocker.x &&
+        point.x <= blocker.x + blocker.width &&
+        point.y >= blocker.y &&
+        point.y <= blocker.y + blocker.height;
+      expect(insideBlocker).toBe(false);
+    });
+    // Every bend is a right angle
+    route.slice(1).forEach((point, i) => {
+      const previous = route[i];
+      expect(
+        Math.abs(point.x - previous.x) < 1e-9 ||
+          Math.abs(point.y - previous.y) < 1e-9
+      ).toBe(true);
+    });
+  });
+
+  it('exports routed lines as polylines', () => {
+    const nodes = [from, to, blocker];
+    const connections = [
+      {
+        id: 'dependency:task:a->task:b',
+        fromNodeId: from.id,
+        toNodeId: to.id,
+        type: 'dependency' as const,
+        origin: 'goal' as const,
+        color: '#6b7280',
+      },
+    ];
+
+    const svg = renderCanvasSvg(nodes, connections, {
+      routes: routeCanvasConnections(nodes, connections),
+    });
+
+    expect(svg).toContain('<polyline points=');
+    expect(svg).not.toContain('<line ');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Goal Canvas Tests
+ *
+ * @fileoverview Unit tests for canvas nodes, connections and write-back
+ * @version 1.0.0
+ */
+
+import {
+  createMockMilestone,
+  createMockOutcome,
+  createMockSmartGoal,
+  createMockTask,
+} from '@/lib/mock-data/smart-goals';
+
+import {
+  applyCanvasWriteBack,
+  buildCanvasConnections,
+  buildCanvasNodes,
+  createDefaultCanvasLayout,
+  getAllowedConnectionTypes,
+  getCanvasConnectionError,
+  getCanvasExportFilename,
+  planCanvasConnectionChange,
+  renderCanvasSvg,
+  toCanvasNodeId,
+} from '../canvas';
+
+const createGoal = () => {
+  const goal = createMockSmartGoal({ id: 'goal-1', title: 'Launch <beta>' });
+  const tasks = ['task-1', 'task-2', 'task-3'].map((id, order) =>
+    createMockTask(goal.id, { id, order, dependencies: [] })
+  );
+  tasks[1].dependencies = ['task-1'];
+
+  return {
+    ...goal,
+    tasks,
+    milestones: [
+      createMockMilestone(goal.id, { id: 'milestone-1', taskIds: ['task-1'] }),
+    ],
+    outcomes: [createMockOutcome(goal.id, { id: 'outcome-1' })],
+  };
+};
+
+const task = (id: string) => toCanvasNodeId('task', id);
+
+describe('goal canvas', () => {
+  it('builds a node per entity and applies saved positions', () => {
+    const goal = createGoal();
+    const nodes = buildCanvasNodes(goal, {
+      positions: { [task('task-2')]: { x: 5, y: 7 } },
+    });
+
+    expect(nodes.map(node => node.type).sort()).toEqual([
+      'goal',
+      'metric',
+      'milestone',
+      'outcome',
+      'task',
+      'task',
+      'task',
+    ]);
+    expect(nodes.find(node => node.id === task('task-2'))).toMatchObject({
+      entityId: 'task-2',
+      x: 5,
+      y: 7,
+    });
+  });
+
+  it('derives connections from the goal and the layout', () => {
+    const goal = createGoal();
+    const connections = buildCanvasConnections(goal, {
+      connections: [
+        {
+          id: 'stale',
+          fromNodeId: task('deleted-task'),
+          toNodeId: toCanvasNodeId('outcome', 'outcome-1'),
+          type: 'achieves',
+          origin: 'layout',
+          color: '#000',
+        },
+      ],
+    });
+
+    expect(
+      connections
+        .filter(connection => connection.origin === 'goal')
+        .map(connection => connection.id)
+    ).toEqual([
+      `contributes:${task('task-1')}->milestone:milestone-1`,
+      `dependency:${task('task-1')}->${task('task-2')}`,
+    ]);
+    expect(connections.filter(c => c.origin === 'structure')).toHaveLength(3);
+    expect(connections.some(c => c.id === 'stale')).toBe(false);
+  });
+
+  it('only allows the connection types of each node pair', () => {
+    expect(
+      getAllowedConnectionTypes({ type: 'task' }, { type: 'outcome' })
+    ).toEqual(['achieves']);
+    expect(
+      getAllowedConnectionTypes({ type: 'goal' }, { type: 'task' })
+    ).toEqual([]);
+  });
+
+  it('rejects self connections, duplicates and dependency cycles', () => {
+    const goal = createGoal();
+    const nodes = buildCanvasNodes(goal);
+    const connections = buildCanvasConnections(goal);
+    const check = (from: string, to: string, type = 'dependency' as const) =>
+      getCanvasConnectionError(nodes, connections, {
+        fromNodeId: from,
+        toNodeId: to,
+        type,
+      });
+
+    expect(check(task('task-1'), task('task-1'))).toMatch(/itself/);
+    expect(check(task('task-1'), task('task-2'))).toMatch(/already/);
+    expect(check(task('task-2'), task('task-1'))).toMatch(/cycle/);
+    expect(check(task('task-2'), task('task-3'))).toBeNull();
+    expect(
+      getCanvasConnectionError(nodes, connections, {
+        fromNodeId: task('task-1'),
+        toNodeId: toCanvasNodeId('goal', goal.id),
+        type: 'contributes',
+      })
+    ).toMatch(/cannot have a contributes connection/);
+  });
+
+  it('writes dependencies and milestone tasks back to the goal', () => {
+    const goal = createGoal();
+    const layout = createDefaultCanvasLayout(goal.id);
+
+    const dependency = planCanvasConnectionChange(
+      goal,
+      layout,
+      {
+        fromNodeId: task('task-2'),
+        toNodeId: task('task-3'),
+        type: 'dependency',
+      },
+      'add'
+    );
+    const contribution = planCanvasConnectionChange(
+      goal,
+      layout,
+      {
+        fromNodeId: task('task-1'),
+        toNodeId: 'milestone:milestone-1',
+        type: 'contributes',
+      },
+      'remove'
+    );
+
+    expect(dependency.taskDependencies).toEqual({ 'task-3': ['task-2'] });
+    expect(contribution.milestoneTaskIds).toEqual({ 'milestone-1': [] });
+
+    const updated = applyCanvasWriteBack(
+      applyCanvasWriteBack(goal, dependency),
+      contribution
+    );
+    expect(updated.tasks[2].dependencies).toEqual(['task-2']);
+    expect(updated.milestones[0].taskIds).toEqual([]);
+    expect(goal.milestones[0].taskIds).toEqual(['task-1']);
+  });
+
+  it('stores other connection types in the layout', () => {
+    const goal = createGoal();
+    const draft = {
+      fromNodeId: 'milestone:milestone-1',
+      toNodeId: 'outcome:outcome-1',
+      type: 'achieves' as const,
+    };
+
+    const added = planCanvasConnectionChange(
+      goal,
+      createDefaultCanvasLayout(goal.id),
+      draft,
+      'add'
+    );
+    expect(added.layoutConnections).toHaveLength(1);
+    expect(added.layoutConnections![0]).toMatchObject({
+      ...draft,
+      origin: 'layout',
+    });
+
+    const removed = planCanvasConnectionChange(
+      goal,
+      { connections: added.layoutConnections! },
+      draft,
+      'remove'
+    );
+    expect(removed.layoutConnections).toEqual([]);
+  });
+
+  it('renders an escaped SVG cropped to the nodes', () => {
+    const goal = createGoal();
+    const svg = renderCanvasSvg(
+      buildCanvasNodes(goal),
+      buildCanvasConnections(goal)
+    );
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(
+      true
+    );
+    expect(svg).toContain('Launch &lt;beta&gt;');
+    expect(svg).toContain('stroke-dasharray="5,5"');
+    expect(getCanvasExportFilename(goal, 'png')).toBe('launch-beta-canvas.png');
+  });
+});
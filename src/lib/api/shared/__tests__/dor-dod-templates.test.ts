@@ -0,0 +1,257 @@
+/**
+ * DoR/DoD Template Library Tests
+ *
+ * @fileoverview Unit tests for template visibility, versioning and
+ * JSON/YAML import and export
+ * @version 1.0.0
+ */
+
+import type { StoredDorDodTemplate } from '@/types/dor-dod.types';
+
+import {
+  applyDorDodTemplateUpdate,
+  canEditDorDodTemplate,
+  createDorDodTemplate,
+  exportDorDodTemplates,
+  filterDorDodTemplates,
+  MAX_TEMPLATE_VERSIONS,
+  parseDorDodTemplateFile,
+  parseDorDodTemplateQuery,
+  restoreDorDodTemplateVersion,
+} from '../dor-dod-templates';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+const later = (minutes: number) =>
+  new Date(NOW.getTime() + minutes * 60 * 1000);
+
+const content = {
+  name: 'Release',
+  description: 'Release checklist',
+  category: 'software-development' as const,
+  dorCriteria: [
+    { description: 'Scope agreed', category: 'required' as const, order: 1 },
+  ],
+  dodCriteria: [
+    {
+      description: 'Tests pass',
+      category: 'required' as const,
+      order: 1,
+      helpText: 'Unit and e2e',
+      validationRule: {
+        type: 'conditional' as const,
+        message: 'Needed for high priority',
+        condition: "goal.priority == 'high'",
+      },
+    },
+  ],
+};
+
+const template = (
+  id: string,
+  ownerId: string,
+  visibility: StoredDorDodTemplate['visibility'] = 'private'
+): StoredDorDodTemplate =>
+  createDorDodTemplate(
+    { ...content, name: `Template ${id}`, visibility },
+    id,
+    ownerId,
+    NOW
+  );
+
+describe('DoR/DoD template library', () => {
+  it('shows owners their templates and everyone the shared ones', () => {
+    const templates = [
+      template('b', 'alice', 'organization'),
+      template('a', 'alice'),
+      template('c', 'bob'),
+    ];
+
+    expect(filterDorDodTemplates(templates, 'alice').map(t => t.id)).toEqual([
+      'a',
+      'b',
+    ]);
+    expect(filterDorDodTemplates(templates, 'bob').map(t => t.id)).toEqual([
+      'b',
+      'c',
+    ]);
+    expect(
+      filterDorDodTemplates(templates, 'bob', { visibility: 'private' })
+    ).toEqual([expect.objectContaining({ id: 'c' })]);
+    expect(canEditDorDodTemplate(templates[0], 'bob')).toBe(false);
+  });
+
+  it('parses list queries and drops unknown values', () => {
+    expect(
+      parseDorDodTemplateQuery(
+        new URLSearchParams({
+          category: 'cooking',
+          visibility: 'organization',
+          search: '  release ',
+        })
+      )
+    ).toEqual({ visibility: 'organization', search: 'release' });
+  });
+
+  it('keeps earlier content as versions when the content changes', () => {
+    const created = template('t-1', 'alice');
+    const shared = applyDorDodTemplateUpdate(
+      created,
+      { ...content, name: created.name, visibility: 'organization' },
+      'alice',
+      later(1)
+    );
+
+    expect(shared).toMatchObject({ version: 1, visibility: 'organization' });
+    expect(shared.versions).toEqual([]);
+
+    const renamed = applyDorDodTemplateUpdate(
+      shared,
+      { ...content, name: 'Renamed', visibility: 'organization' },
+      'alice',
+      later(2)
+    );
+
+    expect(renamed).toMatchObject({ version: 2, name: 'Renamed' });
+    expect(renamed.versions).toEqual([
+      expect.objectContaining({
+        version: 1,
+        name: 'Template t-1',
+        savedAt: later(1),
+        savedBy: 'alice',
+      }),
+    ]);
+
+    const restored = restoreDorDodTemplateVersion(
+      renamed,
+      1,
+      'alice',
+      later(3)
+    );
+    expect(restored).toMatchObject({ version: 3, name: 'Template t-1' });
+    expect(restored?.versions.map(v => v.version)).toEqual([2, 1]);
+    expect(restoreDorDodTemplateVersion(renamed, 5, 'alice')).toBeNull();
+  });
+
+  it('drops the oldest versions past the limit', () => {
+    let edited = template('t-1', 'alice');
+    for (let i = 0; i <= MAX_TEMPLATE_VERSIONS; i++) {
+      edited = applyDorDodTemplateUpdate(
+        edited,
+        { ...content, name: `Edit ${i}`, visibility: 'private' },
+        'alice'
+      );
+    }
+
+    expect(edited.version).toBe(MAX_TEMPLATE_VERSIONS + 2);
+    expect(edited.versions).toHaveLength(MAX_TEMPLATE_VERSIONS);
+    expect(edited.versions[MAX_TEMPLATE_VERSIONS - 1].version).toBe(2);
+  });
+
+  it('exports templates that import back unchanged', () => {
+    const stored = template('t-1', 'alice', 'organization');
+
+    for (const format of ['json', 'yaml'] as const) {
+      const file = exportDorDodTemplates([stored], format);
+      expect(file.filename).toBe(`template-t-1.${format}`);
+      expect(file.content).not.toContain('ownerId');
+
+      expect(parseDorDodTemplateFile(file.content)).toEqual({
+        templates: [{ ...content, name: 'Template t-1' }],
+      });
+    }
+
+    const list = exportDorDodTemplates([stored, stored], 'yaml');
+    expect(list.filename).toBe('dor-dod-templates.yaml');
+    expect(parseDorDodTemplateFile(list.content).templates).toHaveLength(2);
+  });
+
+  it('fills in defaults and drops unknown fields on import', () => {
+    const yaml = [
+      'name: Minimal',
+      'owner: someone',
+      'dodCriteria:',
+      '  - Docs updated',
+      '  - description: Reviewed',
+      '    category: optional',
+      '    isCompleted: true',
+    ].join('\n');
+
+    expect(parseDorDodTemplateFile(yaml)).toEqual({
+      templates: [
+        {
+          name: 'Minimal',
+          description: '',
+          category: 'custom',
+          dorCriteria: [],
+          dodCriteria: [
+            { description: 'Docs updated', category: 'required', order: 1 },
+            { description: 'Reviewed', category: 'optional', order: 2 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('rejects files with the path of every problem', () => {
+    expect(
+      parseDorDodTemplateFile(
+        JSON.stringify([
+          { name: 'Fine' },
+          {
+            category: 'cooking',
+            dorCriteria: [
+              { description: '' },
+              { description: 'x', category: 'must' },
+            ],
+            dodCriteria: 'all of them',
+          },
+        ])
+      ).errors
+    ).toEqual([
+      { path: '1.name', message: 'is required' },
+      {
+        path: '1.category',
+        message: expect.stringMatching(/^must be one of software-development/),
+      },
+      { path: '1.dorCriteria.0.description', message: 'is required' },
+      {
+        path: '1.dorCriteria.1.category',
+        message: 'must be one of required, recommended, optional',
+      },
+      { path: '1.dodCriteria', message: 'must be a list of criteria' },
+    ]);
+
+    expect(parseDorDodTemplateFile('{ not json').errors).toEqual([
+      {
+        path: 'content',
+        message: expect.stringMatching(/^is not valid JSON/),
+      },
+    ]);
+    expect(parseDorDodTemplateFile('name: [open').errors?.[0].message).toMatch(
+      /^is not valid YAML/
+    );
+    expect(parseDorDodTemplateFile('[]').errors).toEqual([
+      { path: 'content', message: 'contains no templates' },
+    ]);
+  });
+
+  it('reads YAML with the safe defaults of the core schema', () => {
+    expect(parseDorDodTemplateFile('name: A\nname: B').errors).toEqual([
+      {
+        path: 'content',
+        message:
+          'is not valid YAML: Map keys must be unique at line 2, column 1',
+      },
+    ]);
+    expect(
+      parseDorDodTemplateFile('name: A\n---\nname: B').errors?.[0].message
+    ).toMatch(/multiple documents/);
+    expect(
+      parseDorDodTemplateFile('name: !!js/function "() => 1"').errors?.[0]
+        .message
+    ).toMatch(/Unresolved tag/);
+
+    parseDorDodTemplateFile('name: A\n__proto__:\n  polluted: true');
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * DoR/DoD State Tests
+ *
+ * @fileoverview Unit tests for DoR/DoD save permissions, append-only audit
+ * merging, audit queries and status transition gates
+ * @version 1.0.0
+ */
+
+import type {
+  AuditLogEntry,
+  Criterion,
+} from '@/components/DorDodPanel/DorDodPanel.types';
+import { createMockSmartGoal } from '@/lib/mock-data/smart-goals';
+import type { StoredDorDodState } from '@/types/dor-dod.types';
+import { GoalRole, GoalStatus, TaskStatus } from '@/types/smart-goals.types';
+
+import {
+  applyDorDodUpdate,
+  canOverrideDorDod,
+  createDefaultDorDodState,
+  getDorDodApprovalError,
+  getDorDodGate,
+  getDorDodOverrideError,
+  recordDorDodOverride,
+  toDorDodGateDetails,
+  getDorDodUpdatePermissions,
+  parseDorDodAuditQuery,
+  queryDorDodAudit,
+  toSaveDorDodStateRequest,
+} from '../dor-dod';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+const later = (minutes: number) =>
+  new Date(NOW.getTime() + minutes * 60 * 1000);
+
+const criterion = (id: string, isCompleted = false): Criterion => ({
+  id,
+  description: `Criterion ${id}`,
+  category: 'required',
+  isCompleted,
+  order: 0,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+const entry = (
+  id: string,
+  minutes: number,
+  action: AuditLogEntry['action'] = 'criterion-added'
+): AuditLogEntry => ({ id, timestamp: later(minutes), action });
+
+const goalState = createDefaultDorDodState(
+  { type: 'goal', id: 'goal-1' },
+  'goal-1'
+);
+const taskState = createDefaultDorDodState(
+  { type: 'task', id: 'task-1' },
+  'goal-1'
+);
+
+describe('DoR/DoD state', () => {
+  it('asks for the edit permission of the target to change criteria', () => {
+    const request = {
+      ...toSaveDorDodStateRequest(goalState),
+      dorCriteria: [criterion('c-1')],
+    };
+
+    expect(getDorDodUpdatePermissions(goalState, request)).toEqual([
+      'edit_goal',
+    ]);
+    expect(getDorDodUpdatePermissions(taskState, request)).toEqual([
+      'manage_tasks',
+    ]);
+  });
+
+  it('lets approvers decide without editing the criteria', () => {
+    const requested: StoredDorDodState = {
+      ...goalState,
+      approvalWorkflow: { comments: [], status: 'requested' },
+    };
+    const request = {
+      ...toSaveDorDodStateRequest(requested),
+      approvalWorkflow: { comments: [], status: 'approved' as const },
+    };
+
+    expect(getDorDodUpdatePermissions(requested, request)).toEqual([
+      'approve_criteria',
+    ]);
+    expect(getDorDodApprovalError(requested, request)).toBeNull();
+    expect(getDorDodApprovalError(goalState, request)).toMatch(
+      /after approval was requested/
+    );
+  });
+
+  it('only appends new audit entries and stamps them with the saver', () => {
+    const saved = applyDorDodUpdate(
+      goalState,
+      {
+        ...toSaveDorDodStateRequest(goalState),
+        auditLog: [{ ...entry('a-1', 1), userId: 'someone-else' }],
+      },
+      'alice',
+      NOW
+    );
+    const resaved = applyDorDodUpdate(
+      saved,
+      {
+        ...toSaveDorDodStateRequest(saved),
+        auditLog: [entry('a-2', 2), { ...entry('a-1', 1), criterionId: 'x' }],
+      },
+      'bob',
+      later(5)
+    );
+
+    expect(resaved.auditLog.map(e => [e.id, e.userId, e.criterionId])).toEqual([
+      ['a-2', 'bob', undefined],
+      ['a-1', 'alice', undefined],
+    ]);
+    expect(resaved.updatedBy).toBe('bob');
+    expect(resaved.updatedAt).toEqual(later(5));
+  });
+
+  it('timestamps new entries and only logs actions the save caused', () => {
+    const requested: StoredDorDodState = {
+      ...goalState,
+      approvalWorkflow: { comments: [], status: 'requested' },
+    };
+    const save = (status: 'requested' | 'approved') =>
+      applyDorDodUpdate(
+        requested,
+        {
+          ...toSaveDorDodStateRequest(requested),
+          approvalWorkflow: { comments: [], status },
+          auditLog: [
+            entry('backdated', -600),
+            entry('approval', 1, 'approval-granted'),
+            entry('rejection', 1, 'approval-rejected'),
+            entry('failure', 1, 'validation-failed'),
+          ],
+        },
+        'alice',
+        later(2)
+      ).auditLog.map(e => [e.id, e.action, e.timestamp]);
+
+    expect(save('requested')).toEqual([
+      ['backdated', 'criterion-added', later(2)],
+    ]);
+    expect(save('approved')).toEqual([
+      ['backdated', 'criterion-added', later(2)],
+      ['approval', 'approval-granted', later(2)],
+    ]);
+  });
+
+  it('records who approved and keeps earlier approval comments', () => {
+    const requested: StoredDorDodState = {
+      ...goalState,
+      approvalWorkflow: {
+        comments: [
+          {
+            id: 'm-1',
+            author: 'owner',
+            message: 'Please review',
+            createdAt: NOW,
+            type: 'comment',
+          },
+        ],
+        status: 'requested',
+        requestedAt: NOW,
+      },
+    };
+
+    const approved = applyDorDodUpdate(
+      requested,
+      {
+        ...toSaveDorDodStateRequest(requested),
+        approvalWorkflow: {
+          comments: [
+            {
+              id: 'm-2',
+              author: 'spoofed',
+              message: 'Looks good',
+              createdAt: later(1),
+              type: 'approval',
+            },
+          ],
+          status: 'approved',
+          approvedBy: 'spoofed',
+        },
+      },
+      'alice',
+      later(1)
+    );
+
+    expect(approved.approvalWorkflow).toMatchObject({
+      status: 'approved',
+      approvedBy: 'alice',
+      approvedAt: later(1),
+    });
+    expect(
+      approved.approvalWorkflow.comments.map(c => [c.id, c.author])
+    ).toEqual([
+      ['m-1', 'owner'],
+      ['m-2', 'alice'],
+    ]);
+  });
+
+  it('parses audit queries and drops unknown values', () => {
+    expect(
+      parseDorDodAuditQuery(
+        new URLSearchParams({
+          goalId: 'goal-1',
+          targetType: 'milestone',
+          action: 'criterion-added, bogus',
+          since: 'not a date',
+          until: '2026-05-02T00:00:00Z',
+          limit: '-3',
+        })
+      )
+    ).toEqual({
+      goalId: 'goal-1',
+      action: ['criterion-added'],
+      until: new Date('2026-05-02T00:00:00Z'),
+    });
+  });
+
+  it('queries audit entries across targets, newest first', () => {
+    const states: StoredDorDodState[] = [
+      {
+        ...goalState,
+        auditLog: [entry('g-2', 3, 'approval-requested'), entry('g-1', 1)],
+      },
+      { ...taskState, auditLog: [entry('t-1', 2)] },
+      {
+        ...createDefaultDorDodState({ type: 'goal', id: 'goal-2' }, 'goal-2'),
+        auditLog: [entry('o-1', 4)],
+      },
+    ];
+
+    expect(
+      queryDorDodAudit(states, { goalId: 'goal-1' }).map(e => e.id)
+    ).toEqual(['g-2', 't-1', 'g-1']);
+    expect(
+      queryDorDodAudit(states, {
+        action: ['criterion-added'],
+        since: later(2),
+        limit: 1,
+      })
+    ).toEqual([expect.objectContaining({ id: 'o-1', goalId: 'goal-2' })]);
+    expect(
+      queryDorDodAudit(states, { targetType: 'task' }).map(e => e.targetId)
+    ).toEqual(['task-1']);
+  });
+
+  describe('transition gates', () => {
+    const task: StoredDorDodState = {
+      ...taskState,
+      dorCriteria: [
+        criterion('ready', true),
+        { ...criterion('nice-to-have'), category: 'recommended' },
+      ],
+      dodCriteria: [
+        { ...criterion('tested'), order: 2 },
+        { ...criterion('reviewed'), order: 1 },
+      ],
+    };
+
+    it('blocks finishing while required DoD criteria are open', () => {
+      expect(
+        getDorDodGate(task, TaskStatus.TODO, TaskStatus.IN_PROGRESS)
+      ).toBeNull();
+
+      const gate = getDorDodGate(
+        task,
+        TaskStatus.IN_PROGRESS,
+        TaskStatus.COMPLETED
+      );
+      expect(gate?.definition).toBe('dod');
+      expect(gate?.blockingCriteria.map(c => c.id)).toEqual([
+        'reviewed',
+        'tested',
+      ]);
+      expect(gate && toDorDodGateDetails(gate)[0]).toEqual({
+        path: 'dodCriteria.reviewed',
+        message: 'Criterion reviewed',
+      });
+    });
+
+    it('only gates moves into a gated status', () => {
+      const unready = { ...task, dorCriteria: [criterion('ready')] };
+
+      expect(
+        getDorDodGate(unready, TaskStatus.TODO, TaskStatus.IN_PROGRESS)
+      ).not.toBeNull();
+      expect(
+        getDorDodGate(unready, TaskStatus.IN_PROGRESS, TaskStatus.BLOCKED)
+      ).toBeNull();
+      expect(
+        getDorDodGate(unready, TaskStatus.IN_PROGRESS, TaskStatus.IN_PROGRESS)
+      ).toBeNull();
+      expect(
+        getDorDodGate(
+          { ...goalState, dorCriteria: [criterion('ready')] },
+          GoalStatus.DRAFT,
+          GoalStatus.ACTIVE
+        )?.message
+      ).toBe(
+        'The Definition of Ready of this goal is not met: 1 criterion is open'
+      );
+    });
+
+    it('blocks on completed criteria whose dependencies are open', () => {
+      const gate = getDorDodGate(
+        {
+          ...task,
+          dorCriteria: [
+            criterion('design', false),
+            {
+              ...criterion('build', true),
+              category: 'optional',
+              validationRule: {
+                type: 'dependency',
+                message: 'Needs the design',
+                dependsOn: ['design'],
+              },
+            },
+          ],
+        },
+        TaskStatus.TODO,
+        TaskStatus.IN_PROGRESS
+      );
+
+      expect(gate?.blockingCriteria.map(c => c.id)).toEqual([
+        'design',
+        'build',
+      ]);
+    });
+
+    it('only counts conditional criteria whose condition holds', () => {
+      const conditional: StoredDorDodState = {
+        ...task,
+        dorCriteria: [
+          {
+            ...criterion('estimate'),
+            validationRule: {
+              type: 'conditional',
+              message: 'Large tasks need an estimate',
+              condition: "task.priority == 'high' and not completed('tested')",
+            },
+          },
+        ],
+      };
+      const gateFor = (priority: string) =>
+        getDorDodGate(conditional, TaskStatus.TODO, TaskStatus.IN_PROGRESS, {
+          task: { priority },
+        });
+
+      expect(gateFor('low')).toBeNull();
+      expect(gateFor('high')?.blockingCriteria.map(c => c.id)).toEqual([
+        'estimate',
+      ]);
+      expect(
+        getDorDodGate(conditional, TaskStatus.TODO, TaskStatus.IN_PROGRESS)
+      ).not.toBeNull();
+    });
+
+    it('lets only goal owners override, with a reason', () => {
+      const goal = createMockSmartGoal({
+        ownerId: 'owner',
+        members: [{ userId: 'eve', role: GoalRole.EDITOR }],
+      });
+
+      expect(canOverrideDorDod(goal, 'owner')).toBe(true);
+      expect(canOverrideDorDod(goal, 'eve')).toBe(false);
+      expect(getDorDodOverrideError({ reason: '  ' })).toMatch(/reason/);
+      expect(getDorDodOverrideError({ reason: 'Hotfix' })).toBeNull();
+    });
+
+    it('keeps overrides in the audit log, where clients cannot add them', () => {
+      const gate = getDorDodGate(
+        task,
+        TaskStatus.IN_PROGRESS,
+        TaskStatus.COMPLETED
+      )!;
+      const overridden = recordDorDodOverride(
+        task,
+        gate,
+        { reason: ' Hotfix ' },
+        'owner',
+        NOW
+      );
+
+      expect(overridden.auditLog[0]).toMatchObject({
+        action: 'transition-overridden',
+        userId: 'owner',
+        oldValue: TaskStatus.IN_PROGRESS,
+        newValue: TaskStatus.COMPLETED,
+        metadata: {
+          definition: 'dod',
+          reason: 'Hotfix',
+          blockingCriteria: ['reviewed', 'tested'],
+        },
+      });
+
+      const forged = applyDorDodUpdate(
+        task,
+        {
+          ...toSaveDorDodStateRequest(task),
+          auditLog: [entry('forged', 1, 'transition-overridden')],
+        },
+        'eve',
+        NOW
+      );
+      expect(forged.auditLog).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Flow Metrics Tests
+ *
+ * @fileoverview Unit tests for lead time, cycle time, throughput and
+ * cumulative flow built from task status history
+ * @version 1.0.0
+ */
+
+import { createMockTask } from '@/lib/mock-data/smart-goals';
+import {
+  TaskStatus,
+  type Task,
+  type TaskStatusChange,
+} from '@/types/smart-goals.types';
+
+import {
+  computeCumulativeFlow,
+  computeFlowMetrics,
+  computeThroughput,
+  DAY_MS,
+  formatDays,
+  getCycleTime,
+  getLeadTime,
+  getTaskStatusHistory,
+} from '../flow-metrics';
+
+const NOW = new Date('2026-03-31T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS);
+
+/** A task that went through `steps`, given as [status, days ago] */
+const createTask = (id: string, steps: Array<[TaskStatus, number]>): Task => {
+  const history: TaskStatusChange[] = steps.map(([to, ago], index) => ({
+    from: index === 0 ? undefined : steps[index - 1][0],
+    to,
+    at: daysAgo(ago),
+  }));
+  const last = history[history.length - 1];
+
+  return createMockTask('goal-1', {
+    id,
+    status: last.to,
+    createdAt: history[0].at,
+    updatedAt: last.at,
+    statusHistory: history,
+  });
+};
+
+const tasks = [
+  createTask('done-fast', [
+    [TaskStatus.TODO, 10],
+    [TaskStatus.IN_PROGRESS, 6],
+    [TaskStatus.COMPLETED, 4],
+  ]),
+  createTask('done-slow', [
+    [TaskStatus.TODO, 20],
+    [TaskStatus.IN_PROGRESS, 12],
+    [TaskStatus.BLOCKED, 10],
+    [TaskStatus.IN_PROGRESS, 8],
+    [TaskStatus.COMPLETED, 2],
+  ]),
+  createTask('doing', [
+    [TaskStatus.TODO, 5],
+    [TaskStatus.IN_PROGRESS, 1],
+  ]),
+];
+
+describe('flow metrics', () => {
+  it('measures lead and cycle time of completed tasks', () => {
+    expect(getLeadTime(tasks[0])).toBe(6 * DAY_MS);
+    expect(getCycleTime(tasks[0])).toBe(2 * DAY_MS);
+    // Cycle time starts when work first started, blocked time included
+    expect(getCycleTime(tasks[1])).toBe(10 * DAY_MS);
+    expect(getLeadTime(tasks[2])).toBeNull();
+    expect(getCycleTime(tasks[2])).toBeNull();
+  });
+
+  it('reconstructs history for tasks recorded without one', () => {
+    const legacy = createMockTask('goal-1', {
+      status: TaskStatus.COMPLETED,
+      createdAt: daysAgo(9),
+      startDate: daysAgo(5),
+      completedAt: daysAgo(1),
+      updatedAt: daysAgo(1),
+      statusHistory: undefined,
+    });
+
+    expect(getTaskStatusHistory(legacy).map(change => change.to)).toEqual([
+      TaskStatus.TODO,
+      TaskStatus.IN_PROGRESS,
+      TaskStatus.COMPLETED,
+    ]);
+    expect(getLeadTime(legacy)).toBe(8 * DAY_MS);
+    expect(getCycleTime(legacy)).toBe(4 * DAY_MS);
+  });
+
+  it('counts completions per week', () => {
+    const throughput = computeThroughput(tasks, 2, NOW);
+
+    expect(throughput.map(point => point.completed)).toEqual([0, 2]);
+    expect(throughput[1].weekStart).toEqual(daysAgo(7));
+  });
+
+  it('tracks how many tasks sat in each status per day', () => {
+    const flow = computeCumulativeFlow(tasks, 30, NOW);
+    const today = flow[flow.length - 1].counts;
+    const nineDaysAgo = flow[flow.length - 10].counts;
+
+    expect(flow).toHaveLength(30);
+    expect(today[TaskStatus.COMPLETED]).toBe(2);
+    expect(today[TaskStatus.IN_PROGRESS]).toBe(1);
+    expect(nineDaysAgo[TaskStatus.TODO]).toBe(1);
+    expect(nineDaysAgo[TaskStatus.BLOCKED]).toBe(1);
+    // Tasks are only counted once they exist
+    expect(
+      Object.values(flow[0].counts).reduce((sum, count) => sum + count, 0)
+    ).toBe(0);
+  });
+
+  it('summarises the goal', () => {
+    const metrics = computeFlowMetrics(tasks, { weeks: 4, now: NOW });
+
+    expect(metrics.leadTime).toEqual({ average: 12, median: 12, count: 2 });
+    expect(metrics.cycleTime).toEqual({ average: 6, median: 6, count: 2 });
+    expect(metrics.averageThroughput).toBe(0.5);
+    expect(formatDays(metrics.leadTime.average)).toBe('12 days');
+    expect(formatDays(null)).toBe('\u2014');
+  });
+});
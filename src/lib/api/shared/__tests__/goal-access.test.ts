@@ -0,0 +1,173 @@
+/**
+ * Goal Access Policy Tests
+ *
+ * @fileoverview Unit tests for goal roles, the permission matrix and visibility
+ * @version 1.0.0
+ */
+
+import { GoalRole } from '@/types/smart-goals.types';
+
+import {
+  canAccessGoal,
+  changesAccessControl,
+  filterVisibleGoals,
+  getGoalPermissions,
+  getGoalRole,
+  getUpdatePermissions,
+  type GoalAccessSubject,
+} from '../goal-access';
+
+const goalWith = (
+  visibility: GoalAccessSubject['visibility']
+): GoalAccessSubject => ({
+  ownerId: 'owner',
+  collaborators: ['collaborator'],
+  members: [
+    { userId: 'editor', role: GoalRole.EDITOR },
+    { userId: 'reviewer', role: GoalRole.REVIEWER },
+    { userId: 'viewer', role: GoalRole.VIEWER },
+  ],
+  visibility,
+});
+
+describe('goal access policy', () => {
+  describe('getGoalRole', () => {
+    it('resolves the owner, members and legacy collaborators', () => {
+      const goal = goalWith('team');
+
+      expect(getGoalRole(goal, 'owner')).toBe(GoalRole.OWNER);
+      expect(getGoalRole(goal, 'reviewer')).toBe(GoalRole.REVIEWER);
+      expect(getGoalRole(goal, 'collaborator')).toBe(GoalRole.EDITOR);
+      expect(getGoalRole(goal, 'stranger')).toBeNull();
+      expect(getGoalRole(goal, null)).toBeNull();
+    });
+
+    it('prefers an explicit member role over the collaborator list', () => {
+      const goal: GoalAccessSubject = {
+        ...goalWith('team'),
+        members: [{ userId: 'collaborator', role: GoalRole.VIEWER }],
+      };
+
+      expect(getGoalRole(goal, 'collaborator')).toBe(GoalRole.VIEWER);
+    });
+
+    it('ignores member roles on private goals', () => {
+      expect(getGoalRole(goalWith('private'), 'editor')).toBeNull();
+      expect(getGoalRole(goalWith('private'), 'owner')).toBe(GoalRole.OWNER);
+    });
+  });
+
+  describe('canAccessGoal', () => {
+    it('applies the permission matrix', () => {
+      const goal = goalWith('team');
+
+      expect(getGoalPermissions(goal, 'editor')).toEqual({
+        view: true,
+        edit_goal: true,
+        manage_tasks: true,
+        record_checkpoints: true,
+        approve_criteria: false,
+        archive: false,
+        manage_members: false,
+      });
+      expect(getGoalPermissions(goal, 'reviewer')).toMatchObject({
+        view: true,
+        edit_goal: false,
+        manage_tasks: false,
+        approve_criteria: true,
+      });
+      expect(getGoalPermissions(goal, 'viewer')).toMatchObject({
+        view: true,
+        edit_goal: false,
+        record_checkpoints: false,
+        approve_criteria: false,
+      });
+      expect(Object.values(getGoalPermissions(goal, 'owner'))).not.toContain(
+        false
+      );
+    });
+
+    it('lets only the owner archive and manage members', () => {
+      const goal = goalWith('public');
+
+      expect(canAccessGoal(goal, 'owner', 'archive')).toBe(true);
+      expect(canAccessGoal(goal, 'editor', 'archive')).toBe(false);
+      expect(canAccessGoal(goal, 'collaborator', 'manage_members')).toBe(false);
+      expect(canAccessGoal(goal, null, 'archive')).toBe(false);
+    });
+
+    it('applies visibility to viewing', () => {
+      expect(canAccessGoal(goalWith('private'), 'owner', 'view')).toBe(true);
+      expect(canAccessGoal(goalWith('private'), 'collaborator', 'view')).toBe(
+        false
+      );
+      expect(canAccessGoal(goalWith('team'), 'stranger', 'view')).toBe(false);
+      expect(canAccessGoal(goalWith('organization'), 'stranger', 'view')).toBe(
+        true
+      );
+      expect(canAccessGoal(goalWith('organization'), null, 'view')).toBe(false);
+      expect(canAccessGoal(goalWith('public'), null, 'view')).toBe(true);
+      expect(canAccessGoal(goalWith('public'), 'stranger', 'edit_goal')).toBe(
+        false
+      );
+    });
+  });
+
+  describe('filterVisibleGoals', () => {
+    it('keeps the goals the user may view', () => {
+      const goals = [
+        goalWith('private'),
+        goalWith('team'),
+        goalWith('organization'),
+        goalWith('public'),
+      ];
+
+      expect(
+        filterVisibleGoals(goals, 'collaborator').map(goal => goal.visibility)
+      ).toEqual(['team', 'organization', 'public']);
+      expect(filterVisibleGoals(goals, null)).toHaveLength(1);
+    });
+  });
+
+  describe('changesAccessControl', () => {
+    it('detects changed owners, collaborators, members and visibility', () => {
+      const goal = goalWith('team');
+
+      expect(changesAccessControl(goal, {})).toBe(false);
+      expect(
+        changesAccessControl(goal, {
+          ownerId: 'owner',
+          collaborators: ['collaborator'],
+          members: [...(goal.members ?? [])].reverse(),
+          visibility: 'team',
+        })
+      ).toBe(false);
+      expect(changesAccessControl(goal, { ownerId: 'someone' })).toBe(true);
+      expect(
+        changesAccessControl(goal, { collaborators: ['collaborator', 'new'] })
+      ).toBe(true);
+      expect(
+        changesAccessControl(goal, {
+          members: [{ userId: 'viewer', role: GoalRole.EDITOR }],
+        })
+      ).toBe(true);
+      expect(changesAccessControl(goal, { visibility: 'public' })).toBe(true);
+    });
+  });
+
+  describe('getUpdatePermissions', () => {
+    it('adds archive and manage_members for the fields they cover', () => {
+      const goal = { ...goalWith('team'), isArchived: false };
+
+      expect(getUpdatePermissions(goal, { title: 'New title' })).toEqual([
+        'edit_goal',
+      ]);
+      expect(getUpdatePermissions(goal, { isArchived: false })).toEqual([
+        'edit_goal',
+      ]);
+      expect(
+        getUpdatePermissions(goal, { isArchived: true, visibility: 'public' })
+      ).toEqual(['edit_goal', 'manage_members', 'archive']);
+    });
+  });
+});
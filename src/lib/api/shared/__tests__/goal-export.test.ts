@@ -0,0 +1,146 @@
+/**
+ * Goal Export Tests
+ *
+ * @fileoverview Unit tests for the goal export formats and the PDF writer
+ * @version 1.0.0
+ */
+
+import { mockGoals } from '@/lib/mock-data/smart-goals';
+
+import { exportGoal, getGoalExportFilename } from '../goal-export';
+import { renderTextPdf, toPdfAscii } from '../pdf';
+
+const goal = mockGoals[0];
+const generatedAt = new Date('2025-03-01T12:00:00.000Z');
+
+const criteria = {
+  definitionOfReady: [
+    { description: 'Scope agreed', category: 'required', isCompleted: true },
+  ],
+  definitionOfDone: [
+    { description: 'Results shared', category: 'required', isCompleted: false },
+  ],
+};
+
+describe('goal export', () => {
+  it('names files after the goal title', () => {
+    expect(
+      getGoalExportFilename({ title: 'Ship v2.0 — Q3!', id: 'g1' }, 'markdown')
+    ).toBe('ship-v2-0-q3.md');
+    expect(getGoalExportFilename({ title: '***', id: 'g1' }, 'pdf')).toBe(
+      'g1.pdf'
+    );
+  });
+
+  it('exports Markdown with every section', () => {
+    const file = exportGoal(
+      { goal, criteria, generatedAt },
+      { format: 'markdown' }
+    );
+
+    expect(file.mimeType).toBe('text/markdown; charset=utf-8');
+    expect(file.content).toContain(`# ${goal.title}`);
+    [
+      'Specific',
+      'Measurable',
+      'Resources',
+      'Milestones',
+      'Checkpoints',
+      'Tasks',
+      'Definition of Ready',
+      'Definition of Done',
+      'SMART Score',
+      'Suggestions',
+    ].forEach(title => expect(file.content).toContain(`## ${title}`));
+    expect(file.content).toContain('| Scope agreed | required | Yes |');
+  });
+
+  it('leaves out the sections the options disable', () => {
+    const file = exportGoal(
+      { goal, generatedAt },
+      {
+        format: 'markdown',
+        includeScore: false,
+        includeSuggestions: false,
+        includeTimeline: false,
+        includeResources: false,
+      }
+    );
+
+    [
+      'Resources',
+      'Milestones',
+      'Checkpoints',
+      'SMART Score',
+      'Suggestions',
+    ].forEach(title => expect(file.content).not.toContain(`## ${title}`));
+    expect(file.content).not.toContain('## Definition of Ready');
+  });
+
+  it('exports JSON with the goal, score and criteria', () => {
+    const file = exportGoal(
+      { goal, criteria, generatedAt },
+      { format: 'json', includeTimeline: false }
+    );
+    const parsed = JSON.parse(file.content);
+
+    expect(parsed.exportedAt).toBe(generatedAt.toISOString());
+    expect(parsed.goal.id).toBe(goal.id);
+    expect(parsed.goal.tasks).toHaveLength(goal.tasks.length);
+    expect(parsed.goal.milestones).toBeUndefined();
+    expect(parsed.score.total).toBeGreaterThanOrEqual(0);
+    expect(parsed.criteria).toEqual(criteria);
+  });
+
+  it('exports CSV rows of section, field and value', () => {
+    const file = exportGoal({ goal, generatedAt }, { format: 'csv' });
+    const [header, ...rows] = file.content.split('\n');
+
+    expect(header).toBe('"Section","Field","Value"');
+    expect(rows).toContain(
+      `"Overview","Title","${goal.title.replace(/"/g, '""')}"`
+    );
+    expect(rows.filter(row => row.startsWith('"Tasks",'))).toHaveLength(
+      goal.tasks.length
+    );
+  });
+
+  it('exports a PDF document', () => {
+    const file = exportGoal({ goal, generatedAt }, { format: 'pdf' });
+
+    expect(file.mimeType).toBe('application/pdf');
+    expect(file.content.startsWith('%PDF-1.4')).toBe(true);
+    expect(file.content.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(file.content).toContain(`/CreationDate (D:20250301120000Z)`);
+  });
+});
+
+describe('text PDF writer', () => {
+  it('writes a cross-reference table with correct offsets', () => {
+    const pdf = renderTextPdf([{ text: 'Hello (world)', style: 'title' }]);
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const offsets = pdf
+      .slice(xrefOffset)
+      .split('\n')
+      .filter(line => line.endsWith(' 00000 n '))
+      .map(line => Number(line.slice(0, 10)));
+
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    offsets.forEach((offset, index) =>
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+    );
+    expect(pdf).toContain('(Hello \\(world\\)) Tj');
+  });
+
+  it('flows long documents onto more pages', () => {
+    const blocks = Array.from({ length: 120 }, (_, index) => ({
+      text: `Line ${index}`,
+    }));
+
+    expect(renderTextPdf(blocks)).toMatch(/\/Count [2-9]/);
+  });
+
+  it('keeps output ASCII', () => {
+    expect(toPdfAscii('Café “quoted” – 日本')).toBe('Cafe "quoted" - ??');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Goal Update Helper Tests
+ *
+ * @fileoverview Unit tests for diffing goals and building partial updates
+ * @version 1.0.0
+ */
+
+import type { SmartGoal } from '@/types/smart-goals.types';
+
+import {
+  buildGoalUpdate,
+  getChangedGoalFields,
+  isSameGoalValue,
+} from '../goals';
+
+const original: Partial<SmartGoal> = {
+  title: 'Grow the newsletter',
+  tags: ['marketing', 'email'],
+  timebound: {
+    startDate: new Date('2025-01-01T00:00:00.000Z'),
+    targetDate: new Date('2025-06-30T00:00:00.000Z'),
+    estimatedDuration: 180,
+    isRecurring: false,
+  },
+};
+
+describe('goal update helpers', () => {
+  describe('isSameGoalValue', () => {
+    it('ignores key order, undefined keys and date representation', () => {
+      expect(
+        isSameGoalValue({ a: 1, b: 2 }, { b: 2, a: 1, c: undefined })
+      ).toBe(true);
+      expect(
+        isSameGoalValue(
+          new Date('2025-01-01T00:00:00.000Z'),
+          '2025-01-01T00:00:00.000Z'
+        )
+      ).toBe(true);
+      expect(isSameGoalValue(['a', 'b'], ['b', 'a'])).toBe(false);
+    });
+  });
+
+  describe('getChangedGoalFields', () => {
+    it('skips fields the edited copy leaves out', () => {
+      expect(getChangedGoalFields(original, {})).toEqual([]);
+      expect(
+        getChangedGoalFields(original, {
+          title: 'Grow the newsletter',
+          tags: ['marketing'],
+        })
+      ).toEqual(['tags']);
+    });
+  });
+
+  describe('buildGoalUpdate', () => {
+    it('returns only the changed editable fields', () => {
+      const update = buildGoalUpdate(original, {
+        ...original,
+        title: 'Double the newsletter',
+        timebound: JSON.parse(JSON.stringify(original.timebound)),
+        ownerId: 'someone-else',
+      });
+
+      expect(update).toEqual({ title: 'Double the newsletter' });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Shared Metric Logic Tests
+ *
+ * @fileoverview Unit tests for the checkpoint analytics helpers and request
+ * schemas used by the metric API routes
+ * @version 1.0.0
+ */
+
+import { createMockMetricCheckpoint } from '@/lib/mock-data/smart-goals';
+
+import {
+  checkpointStatsQuerySchema,
+  createCheckpointSchema,
+  trendQuerySchema,
+} from '../../server/metric-schemas';
+import {
+  buildCheckpoint,
+  checkpointsToCsv,
+  computeCheckpointStats,
+  computeMetricAnalytics,
+  computeTrendData,
+} from '../metrics';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// One reference time, so checkpoints are whole days apart
+const now = Date.now();
+
+const checkpointAt = (daysAgo: number, value: number, note?: string) =>
+  createMockMetricCheckpoint('goal-1', {
+    value,
+    note,
+    recordedDate: new Date(now - daysAgo * DAY),
+    confidence: 1,
+  });
+
+describe('metric helpers', () => {
+  const checkpoints = [
+    checkpointAt(10, 20),
+    checkpointAt(0, 50),
+    checkpointAt(5, 40),
+  ];
+
+  describe('computeMetricAnalytics', () => {
+    it('compares the latest checkpoints and projects completion', () => {
+      const analytics = computeMetricAnalytics('goal-1', checkpoints, 100);
+
+      expect(analytics).toMatchObject({
+        totalCheckpoints: 3,
+        latestValue: 50,
+        previousValue: 40,
+        changeAmount: 10,
+        trend: 'up',
+        progressToTarget: 50,
+        velocityPerDay: 3,
+      });
+      expect(analytics?.estimatedCompletionDate).toBeInstanceOf(Date);
+    });
+
+    it('returns null without checkpoints', () => {
+      expect(computeMetricAnalytics('goal-1', [], 100)).toBeNull();
+    });
+  });
+
+  describe('computeTrendData', () => {
+    it('returns chronological points limited to the last days', () => {
+      const trend = computeTrendData(checkpoints, { days: 7, target: 80 });
+
+      expect(trend.map(point => point.value)).toEqual([40, 50]);
+      expect(trend[0].target).toBe(80);
+      expect(trend[0].date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    });
+  });
+
+  describe('computeCheckpointStats', () => {
+    it('summarises the checkpoints in range', () => {
+      const stats = computeCheckpointStats(
+        checkpoints,
+        new Date(now - 7 * DAY),
+        new Date(now)
+      );
+
+      expect(stats).toEqual({
+        count: 2,
+        averageValue: 45,
+        minValue: 40,
+        maxValue: 50,
+        totalChange: 10,
+        averageConfidence: 1,
+      });
+    });
+  });
+
+  describe('checkpointsToCsv', () => {
+    it('quotes fields and escapes quotes', () => {
+      const csv = checkpointsToCsv([checkpointAt(1, 7, 'Said "hi"')]);
+      const [header, row] = csv.split('\n');
+
+      expect(header).toBe(
+        '"Date","Value","Note","Source","Confidence","Automatic"'
+      );
+      expect(row).toContain('"7","Said ""hi"""');
+    });
+  });
+
+  describe('buildCheckpoint', () => {
+    it('applies defaults for optional fields', () => {
+      const checkpoint = buildCheckpoint('goal-1', { value: 3 }, 'ann');
+
+      expect(checkpoint).toMatchObject({
+        goalId: 'goal-1',
+        value: 3,
+        isAutomatic: false,
+        source: 'manual-entry',
+        confidence: 1,
+        createdBy: 'ann',
+      });
+      expect(checkpoint.recordedDate).toBeInstanceOf(Date);
+    });
+  });
+});
+
+describe('metric request schemas', () => {
+  it('validates checkpoint values and confidence', () => {
+    expect(
+      createCheckpointSchema.parse({
+        value: 5,
+        recordedDate: '2026-10-01T00:00:00.000Z',
+      }).recordedDate
+    ).toBeInstanceOf(Date);
+    expect(createCheckpointSchema.safeParse({ value: '5' }).success).toBe(
+      false
+    );
+    expect(
+      createCheckpointSchema.safeParse({ value: 5, confidence: 2 }).success
+    ).toBe(false);
+  });
+
+  it('parses query parameters', () => {
+    expect(trendQuerySchema.parse({})).toEqual({});
+    expect(trendQuerySchema.parse({ days: '30' })).toEqual({ days: 30 });
+    expect(trendQuerySchema.safeParse({ days: '0' }).success).toBe(false);
+    expect(
+      checkpointStatsQuerySchema.safeParse({
+        startDate: '2026-10-02',
+        endDate: '2026-10-01',
+      }).success
+    ).toBe(false);
+  });
+});
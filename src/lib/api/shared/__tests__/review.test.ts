@@ -0,0 +1,212 @@
+/**
+ * Review Workflow Tests
+ *
+ * @fileoverview Unit tests for review requests, N-of-M approvals, comment
+ * threads and the activity timeline
+ * @version 1.0.0
+ */
+
+import {
+  createMockSmartGoal,
+  createMockTask,
+} from '@/lib/mock-data/smart-goals';
+import { GoalRole, TaskStatus } from '@/types/smart-goals.types';
+
+import {
+  addReviewComment,
+  applyReviewDecision,
+  applyReviewRequest,
+  buildCommentThreads,
+  buildReviewTimeline,
+  createDefaultReview,
+  getReviewCommentError,
+  getReviewDecisionError,
+  getReviewRequestError,
+} from '../review';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+const later = (minutes: number) =>
+  new Date(NOW.getTime() + minutes * 60 * 1000);
+
+const goal = createMockSmartGoal({
+  id: 'goal-1',
+  ownerId: 'owner',
+  createdBy: 'owner',
+  createdAt: new Date('2026-04-01T00:00:00Z'),
+  visibility: 'team',
+  members: [
+    { userId: 'alice', role: GoalRole.REVIEWER },
+    { userId: 'bob', role: GoalRole.REVIEWER },
+    { userId: 'eve', role: GoalRole.EDITOR },
+  ],
+  tasks: [],
+});
+
+/** A review waiting for 2 of alice, bob and the owner */
+const requestTwoOfThree = () =>
+  applyReviewRequest(
+    createDefaultReview(goal.id),
+    { reviewerIds: ['alice', 'bob', 'owner'], requiredApprovals: 2 },
+    'owner',
+    NOW
+  );
+
+describe('review workflow', () => {
+  it('only names reviewers who can approve the goal', () => {
+    const request = { reviewerIds: ['alice', 'bob'], requiredApprovals: 2 };
+
+    expect(getReviewRequestError(goal, request)).toBeNull();
+    expect(getReviewRequestError(goal, { ...request, reviewerIds: [] })).toBe(
+      'Name at least one reviewer'
+    );
+    expect(
+      getReviewRequestError(goal, { ...request, reviewerIds: ['alice', 'eve'] })
+    ).toContain('eve');
+    expect(
+      getReviewRequestError(goal, { ...request, requiredApprovals: 3 })
+    ).toBe('Required approvals must be between 1 and 2');
+  });
+
+  it('approves once the required number of reviewers approve', () => {
+    const first = applyReviewDecision(
+      requestTwoOfThree(),
+      'alice',
+      'approve',
+      undefined,
+      later(1)
+    );
+    expect(first.review.status).toBe('pending');
+
+    const second = applyReviewDecision(
+      first.review,
+      'owner',
+      'approve',
+      'Good to go',
+      later(2)
+    );
+    expect(second.review.status).toBe('approved');
+    expect(second.reopenGoal).toBe(false);
+    expect(second.review.events.map(event => event.type)).toEqual([
+      'review_requested',
+      'approved',
+      'approved',
+      'review_completed',
+    ]);
+    expect(second.review.comments[0]).toMatchObject({
+      authorId: 'owner',
+      type: 'approval',
+    });
+  });
+
+  it('rejects once the approvals can no longer be reached', () => {
+    const first = applyReviewDecision(requestTwoOfThree(), 'alice', 'reject');
+    expect(first.review.status).toBe('pending');
+
+    const second = applyReviewDecision(first.review, 'bob', 'reject');
+    expect(second.review.status).toBe('rejected');
+    expect(getReviewDecisionError(second.review, 'owner')).toBe(
+      'The review is already rejected'
+    );
+  });
+
+  it('reopens the goal when a reviewer requests changes', () => {
+    const result = applyReviewDecision(
+      requestTwoOfThree(),
+      'bob',
+      'request_changes',
+      'Target is vague'
+    );
+
+    expect(result.review.status).toBe('changes_requested');
+    expect(result.reopenGoal).toBe(true);
+    expect(result.review.events.map(event => event.type)).toContain(
+      'goal_reopened'
+    );
+  });
+
+  it('lets only named reviewers decide and resets decisions per round', () => {
+    const review = requestTwoOfThree();
+    expect(getReviewDecisionError(review, 'eve')).toBe(
+      'Only the named reviewers can decide on this review'
+    );
+    expect(getReviewDecisionError(createDefaultReview(goal.id), 'alice')).toBe(
+      'No review has been requested for this goal'
+    );
+
+    const decided = applyReviewDecision(review, 'alice', 'approve').review;
+    const next = applyReviewRequest(
+      decided,
+      { reviewerIds: ['alice'], requiredApprovals: 1 },
+      'owner'
+    );
+    expect(next.round).toBe(2);
+    expect(next.reviewers).toEqual([{ userId: 'alice' }]);
+    expect(next.status).toBe('pending');
+  });
+
+  it('threads replies under their parent comment', () => {
+    const withComment = addReviewComment(
+      requestTwoOfThree(),
+      { content: 'Why this deadline?' },
+      'alice',
+      later(1)
+    );
+    const parentId = withComment.comments[0].id;
+    const withReply = addReviewComment(
+      withComment,
+      { content: 'Release train', parentId },
+      'owner',
+      later(2)
+    );
+
+    expect(getReviewCommentError(withReply, { content: '  ' })).toBe(
+      'Comment must not be empty'
+    );
+    expect(
+      getReviewCommentError(withReply, { content: 'Hi', parentId: 'missing' })
+    ).toBe('Comment with id "missing" not found');
+
+    const threads = buildCommentThreads(withReply.comments);
+    expect(threads).toHaveLength(1);
+    expect(threads[0].replies.map(reply => reply.content)).toEqual([
+      'Release train',
+    ]);
+  });
+
+  it('builds the timeline from the goal, review events and task moves', () => {
+    const task = createMockTask(goal.id, {
+      id: 'task-1',
+      title: 'Draft plan',
+      status: TaskStatus.IN_PROGRESS,
+      statusHistory: [
+        { to: TaskStatus.TODO, at: later(-10) },
+        {
+          from: TaskStatus.TODO,
+          to: TaskStatus.IN_PROGRESS,
+          at: later(5),
+          changedBy: 'eve',
+        },
+      ],
+    });
+    const review = applyReviewDecision(
+      requestTwoOfThree(),
+      'alice',
+      'approve',
+      undefined,
+      later(10)
+    ).review;
+
+    const timeline = buildReviewTimeline({ ...goal, tasks: [task] }, review);
+
+    expect(timeline.map(entry => entry.type)).toEqual([
+      'approved',
+      'task_status_changed',
+      'review_requested',
+      'goal_created',
+    ]);
+    expect(timeline[1]).toMatchObject({
+      actorId: 'eve',
+      details: 'moved "Draft plan" from todo to in_progress',
+    });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Shared Task Logic Tests
+ *
+ * @fileoverview Unit tests for the task helpers and request schemas used by
+ * the task API routes
+ * @version 1.0.0
+ */
+
+import {
+  createMockChecklistItem,
+  createMockTask,
+} from '@/lib/mock-data/smart-goals';
+import { GoalPriority, TaskStatus } from '@/types/smart-goals.types';
+
+import {
+  bulkTaskStatusSchema,
+  createTaskSchema,
+  updateTaskSchema,
+} from '../../server/task-schemas';
+import {
+  applyChecklistUpdate,
+  buildTask,
+  computeTaskStats,
+  deriveCompletion,
+  deriveStatusHistory,
+  filterTasks,
+  getTaskOrderError,
+  parseTaskFilters,
+  planTaskOrder,
+} from '../tasks';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('task helpers', () => {
+  describe('parseTaskFilters', () => {
+    it('reads comma-separated lists and flags', () => {
+      const filters = parseTaskFilters(
+        new URLSearchParams({
+          status: 'todo,blocked',
+          tags: 'api',
+          overdue: 'true',
+          completed: 'false',
+        })
+      );
+
+      expect(filters).toEqual({
+        status: [TaskStatus.TODO, TaskStatus.BLOCKED],
+        tags: ['api'],
+        overdue: true,
+        completed: false,
+      });
+    });
+
+    it('ignores a due date range with only one bound', () => {
+      expect(
+        parseTaskFilters({ dueStart: '2026-01-01T00:00:00.000Z' })
+      ).toEqual({});
+    });
+  });
+
+  describe('filterTasks', () => {
+    const now = Date.now();
+    const tasks = [
+      createMockTask('goal-1', {
+        id: 'late',
+        status: TaskStatus.IN_PROGRESS,
+        priority: GoalPriority.HIGH,
+        dueDate: new Date(now - DAY),
+      }),
+      createMockTask('goal-1', {
+        id: 'done',
+        status: TaskStatus.COMPLETED,
+        priority: GoalPriority.LOW,
+        dueDate: new Date(now - DAY),
+      }),
+      createMockTask('goal-1', {
+        id: 'future',
+        status: TaskStatus.TODO,
+        priority: GoalPriority.HIGH,
+        dueDate: new Date(now + DAY),
+      }),
+    ];
+
+    it('keeps only overdue, uncompleted tasks', () => {
+      expect(filterTasks(tasks, { overdue: true }).map(t => t.id)).toEqual([
+        'late',
+      ]);
+    });
+
+    it('combines filters', () => {
+      expect(
+        filterTasks(tasks, {
+          priority: [GoalPriority.HIGH],
+          completed: false,
+        }).map(t => t.id)
+      ).toEqual(['late', 'future']);
+    });
+  });
+
+  describe('deriveCompletion', () => {
+    it('stamps completion and forces progress to 100', () => {
+      const task = createMockTask('goal-1', {
+        status: TaskStatus.IN_PROGRESS,
+        progress: 40,
+        completedAt: undefined,
+      });
+      const now = new Date();
+
+      expect(
+        deriveCompletion(task, { status: TaskStatus.COMPLETED }, now)
+      ).toEqual({ completedAt: now, progress: 100 });
+    });
+
+    it('keeps existing values for unrelated updates', () => {
+      const task = createMockTask('goal-1', {
+        status: TaskStatus.TODO,
+        progress: 10,
+        completedAt: undefined,
+      });
+
+      expect(deriveCompletion(task, { title: 'Renamed' })).toEqual({
+        completedAt: undefined,
+        progress: 10,
+      });
+    });
+  });
+
+  describe('deriveStatusHistory', () => {
+    it('appends status changes and ignores other updates', () => {
+      const now = new Date('2026-02-01T00:00:00Z');
+      const task = createMockTask('goal-1', {
+        status: TaskStatus.TODO,
+        statusHistory: [{ to: TaskStatus.TODO, at: new Date(0) }],
+      });
+
+      expect(
+        deriveStatusHistory(
+          task,
+          { status: TaskStatus.IN_PROGRESS },
+          'ann',
+          now
+        ).statusHistory
+      ).toEqual([
+        { to: TaskStatus.TODO, at: new Date(0) },
+        {
+          from: TaskStatus.TODO,
+          to: TaskStatus.IN_PROGRESS,
+          at: now,
+          changedBy: 'ann',
+        },
+      ]);
+      expect(
+        deriveStatusHistory(task, { title: 'Renamed' }, 'ann', now)
+      ).toEqual({ statusHistory: task.statusHistory });
+    });
+  });
+
+  describe('applyChecklistUpdate', () => {
+    it('records who completed an item and clears it on reopen', () => {
+      const item = createMockChecklistItem({
+        isCompleted: false,
+        completedAt: undefined,
+        completedBy: undefined,
+      });
+
+      const checked = applyChecklistUpdate(item, { isCompleted: true }, 'ann');
+      expect(checked.completedBy).toBe('ann');
+      expect(checked.completedAt).toBeInstanceOf(Date);
+
+      const renamed = applyChecklistUpdate(checked, { title: 'New' }, 'bob');
+      expect(renamed.completedBy).toBe('ann');
+
+      const reopened = applyChecklistUpdate(
+        renamed,
+        { isCompleted: false },
+        'bob'
+      );
+      expect(reopened.completedAt).toBeUndefined();
+      expect(reopened.completedBy).toBeUndefined();
+    });
+  });
+
+  describe('task ordering', () => {
+    const tasks = ['a', 'b', 'c'].map((id, index) =>
+      createMockTask('goal-1', { id, order: index + 1 })
+    );
+
+    it('rejects repeated and unknown task IDs', () => {
+      expect(getTaskOrderError(tasks, ['a', 'a'])).toBe(
+        'Task IDs must not repeat'
+      );
+      expect(getTaskOrderError(tasks, ['a', 'x'])).toBe(
+        'Tasks not found in this goal: x'
+      );
+      expect(getTaskOrderError(tasks, ['c', 'a'])).toBeNull();
+    });
+
+    it('numbers listed tasks first and returns only changed orders', () => {
+      expect(planTaskOrder(tasks, ['c'])).toEqual({ c: 1, a: 2, b: 3 });
+      expect(planTaskOrder(tasks, ['a', 'c', 'b'])).toEqual({ c: 2, b: 3 });
+      expect(planTaskOrder(tasks, ['a', 'b'])).toEqual({});
+    });
+  });
+
+  describe('computeTaskStats', () => {
+    it('summarises status, progress and hours', () => {
+      const stats = computeTaskStats([
+        createMockTask('goal-1', {
+          status: TaskStatus.COMPLETED,
+          progress: 100,
+          estimatedHours: 4,
+          actualHours: 5,
+        }),
+        createMockTask('goal-1', {
+          status: TaskStatus.TODO,
+          progress: 0,
+          estimatedHours: 6,
+          actualHours: undefined,
+          dueDate: undefined,
+        }),
+      ]);
+
+      expect(stats.total).toBe(2);
+      expect(stats.byStatus[TaskStatus.COMPLETED]).toBe(1);
+      expect(stats.completionRate).toBe(50);
+      expect(stats.averageProgress).toBe(50);
+      expect(stats.totalEstimatedHours).toBe(10);
+      expect(stats.totalActualHours).toBe(5);
+    });
+  });
+
+  describe('buildTask', () => {
+    it('creates a TODO task owned by the user', () => {
+      const task = buildTask(
+        'goal-1',
+        { title: 'Draft', priority: GoalPriority.MEDIUM },
+        { order: 3, userId: 'ann' }
+      );
+
+      expect(task).toMatchObject({
+        goalId: 'goal-1',
+        status: TaskStatus.TODO,
+        order: 3,
+        createdBy: 'ann',
+        subtasks: [],
+        checklist: [],
+      });
+      expect(task.id).toMatch(/^task-/);
+    });
+  });
+});
+
+describe('task request schemas', () => {
+  it('defaults the priority and coerces dates', () => {
+    const result = createTaskSchema.parse({
+      title: ' Draft ',
+      dueDate: '2026-11-01T00:00:00.000Z',
+    });
+
+    expect(result.title).toBe('Draft');
+    expect(result.priority).toBe(GoalPriority.MEDIUM);
+    expect(result.dueDate).toBeInstanceOf(Date);
+  });
+
+  it('strips read-only fields from updates', () => {
+    const result = updateTaskSchema.parse({
+      id: 'other',
+      goalId: 'other-goal',
+      progress: 20,
+    });
+
+    expect(result).toEqual({ progress: 20 });
+  });
+
+  it('rejects invalid values', () => {
+    expect(updateTaskSchema.safeParse({ progress: 120 }).success).toBe(false);
+    expect(
+      bulkTaskStatusSchema.safeParse({ ids: [], status: TaskStatus.TODO })
+        .success
+    ).toBe(false);
+    expect(
+      bulkTaskStatusSchema.safeParse({ ids: ['a'], status: 'done' }).success
+    ).toBe(false);
+  });
+});
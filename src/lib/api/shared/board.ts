@@ -0,0 +1,196 @@
+/**
+ * Goal Board Helpers
+ *
+ * Pure functions behind the Kanban board of a goal: which column moves the
+ * task status rules allow, and how dropping a card changes the status and
+ * the order of the goal's tasks. The board applies a planned move to its
+ * copy of the tasks right away and stores it with `tasksApi`, rolling back
+ * when that fails.
+ *
+ * @fileoverview Shared Kanban board logic for the goal board
+ * @version 1.0.0
+ */
+
+import { STATUS_TRANSITIONS } from '@/components/TaskEditor/TaskEditor.types';
+import {
+  TaskStatus,
+  type BoardSettings,
+  type Task,
+} from '@/types/smart-goals.types';
+
+import { deriveCompletion } from './tasks';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A card dropped on the board */
+export interface BoardMove {
+  taskId: string;
+  toStatus: TaskStatus;
+  /** Card the task was dropped in front of; the end of the column if unset */
+  beforeTaskId?: string;
+}
+
+/** Most tasks allowed per status column */
+export type WipLimits = BoardSettings['wipLimits'];
+
+/** How full a column is: no limit, below it, at it, or over it */
+export type WipState = 'none' | 'under' | 'at' | 'over';
+
+/** What a move changes */
+export interface BoardMovePlan {
+  /** Every task after the move, sorted by order */
+  tasks: Task[];
+  statusChanged: boolean;
+  /** IDs of all tasks in their new order, or `null` if the order is kept */
+  taskOrder: string[] | null;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const BOARD_STATUS_LABELS: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: 'To Do',
+  [TaskStatus.IN_PROGRESS]: 'In Progress',
+  [TaskStatus.COMPLETED]: 'Completed',
+  [TaskStatus.BLOCKED]: 'Blocked',
+  [TaskStatus.CANCELLED]: 'Cancelled',
+};
+
+// =============================================================================
+// Columns
+// =============================================================================
+
+const byOrder = (a: Task, b: Task) => a.order - b.order;
+
+/** Tasks of each status column, sorted by order */
+export const groupTasksByStatus = (tasks: Task[]): Record<TaskStatus, Task[]> =>
+  Object.fromEntries(
+    Object.values(TaskStatus).map(status => [
+      status,
+      tasks.filter(task => task.status === status).sort(byOrder),
+    ])
+  ) as Record<TaskStatus, Task[]>;
+
+/** Why a task cannot move to a column, or `null` when it can */
+export const getBoardMoveError = (
+  task: Pick<Task, 'status'>,
+  toStatus: TaskStatus
+): string | null => {
+  if (task.status === toStatus) return null;
+  if (STATUS_TRANSITIONS[task.status].includes(toStatus)) return null;
+
+  const allowed = STATUS_TRANSITIONS[task.status];
+  return allowed.length === 0
+    ? `${BOARD_STATUS_LABELS[task.status]} tasks cannot be moved to another column`
+    : `${BOARD_STATUS_LABELS[task.status]} tasks can only move to ${allowed
+        .map(status => BOARD_STATUS_LABELS[status])
+        .join(', ')}`;
+};
+
+// =============================================================================
+// WIP Limits
+// =============================================================================
+
+/** How a column with `count` tasks compares to its WIP limit */
+export const getWipState = (count: number, limit?: number): WipState => {
+  if (limit === undefined) return 'none';
+  if (count > limit) return 'over';
+  return count === limit ? 'at' : 'under';
+};
+
+/** Why a set of WIP limits is invalid, or `null` when it is valid */
+export const getWipLimitsError = (limits: unknown): string | null => {
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+    return 'WIP limits must be an object keyed by task status';
+  }
+
+  const statuses: string[] = Object.values(TaskStatus);
+  for (const [status, limit] of Object.entries(limits)) {
+    if (!statuses.includes(status)) {
+      return `Unknown task status "${status}" in WIP limits`;
+    }
+    if (!Number.isInteger(limit) || (limit as number) < 1) {
+      return 'WIP limits must be whole numbers of at least 1';
+    }
+  }
+  return null;
+};
+
+/**
+ * Warning for a move that takes a column past its WIP limit. Limits are
+ * not enforced: the move still happens, the board only flags the breach.
+ */
+export const getWipBreachWarning = (
+  tasks: Task[],
+  move: BoardMove,
+  limits: WipLimits = {}
+): string | null => {
+  const task = tasks.find(item => item.id === move.taskId);
+  const limit = limits[move.toStatus];
+  if (!task || task.status === move.toStatus || limit === undefined) {
+    return null;
+  }
+
+  const count = tasks.filter(item => item.status === move.toStatus).length + 1;
+  return count > limit
+    ? `${BOARD_STATUS_LABELS[move.toStatus]} now holds ${count} tasks, over its WIP limit of ${limit}`
+    : null;
+};
+
+// =============================================================================
+// Moves
+// =============================================================================
+
+/**
+ * Status and order of the tasks after a card is dropped. Order is kept
+ * across the whole goal: the task is put in front of the card it was
+ * dropped on, or after the last card of the column. Returns `null` when
+ * the task does not exist or the status rules forbid the move.
+ */
+export const planBoardMove = (
+  tasks: Task[],
+  move: BoardMove,
+  now: Date = new Date()
+): BoardMovePlan | null => {
+  const sorted = [...tasks].sort(byOrder);
+  const from = sorted.findIndex(task => task.id === move.taskId);
+  if (from === -1) return null;
+
+  const task = sorted[from];
+  if (getBoardMoveError(task, move.toStatus)) return null;
+
+  const statusChanged = task.status !== move.toStatus;
+  const moved: Task = statusChanged
+    ? {
+        ...task,
+        status: move.toStatus,
+        ...deriveCompletion(task, { status: move.toStatus }, now),
+        updatedAt: now,
+      }
+    : task;
+
+  const rest = sorted.filter(other => other.id !== task.id);
+  let to = move.beforeTaskId
+    ? rest.findIndex(other => other.id === move.beforeTaskId)
+    : -1;
+  if (to === -1) {
+    const last = rest.map(other => other.status).lastIndexOf(move.toStatus);
+    to = last === -1 ? from : last + 1;
+  }
+
+  const reordered = [...rest.slice(0, to), moved, ...rest.slice(to)];
+  const orderChanged = reordered.some(
+    (other, index) => other.id !== sorted[index].id
+  );
+
+  return {
+    tasks: reordered.map((other, index) =>
+      orderChanged ? { ...other, order: index + 1 } : other
+    ),
+    statusChanged,
+    taskOrder: orderChanged ? reordered.map(other => other.id) : null,
+  };
+};
@@ -0,0 +1,936 @@
+/**
+ * Goal Canvas Auto Layout
+ *
+ * Arranges canvas nodes so that goals with many milestones and tasks stay
+ * readable without manual dragging:
+ * - `layered`: Sugiyama-style rows from top to bottom, goal → outcome →
+ *   milestone → task → metric. Dependent tasks sit one row below their
+ *   prerequisites, connections spanning several rows get placeholder points
+ *   in the rows between, and the order within each row is swept with
+ *   barycenters until crossings stop dropping.
+ * - `radial`: the goal in the centre and one ring per row around it, in the
+ *   order found for the layered layout.
+ *
+ * Nodes added to an arranged canvas are placed next to the nodes they are
+ * connected to without moving anything else (`arrangeCanvasNodes`), and
+ * connection lines bend around the nodes in their way
+ * (`routeCanvasConnections`).
+ *
+ * @fileoverview Shared canvas layout and connection routing
+ * @version 1.0.0
+ */
+
+import type {
+  CanvasConnection,
+  CanvasLayoutAlgorithm,
+  CanvasNode,
+  CanvasNodePosition,
+  CanvasNodeType,
+  CanvasPoint,
+} from '@/types/canvas.types';
+
+import {
+  type CanvasBounds,
+  getConnectionEndpoints,
+  getNodeBorderPoint,
+} from './canvas';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const CANVAS_LAYOUT_ALGORITHMS = [
+  'layered',
+  'radial',
+] as const satisfies readonly CanvasLayoutAlgorithm[];
+
+export const CANVAS_LAYOUT_LABELS: Record<CanvasLayoutAlgorithm, string> = {
+  layered: 'Layered',
+  radial: 'Radial',
+};
+
+export const DEFAULT_CANVAS_LAYOUT_ALGORITHM: CanvasLayoutAlgorithm = 'layered';
+
+/** Row of each node type, before dependent tasks are pushed down */
+const TYPE_RANKS: Record<CanvasNodeType, number> = {
+  goal: 0,
+  outcome: 1,
+  milestone: 2,
+  task: 3,
+  metric: 4,
+};
+
+const DEFAULT_LAYER_GAP = 80;
+const DEFAULT_NODE_GAP = 40;
+const DEFAULT_SWEEPS = 8;
+const DEFAULT_ORIGIN: CanvasPoint = { x: 100, y: 100 };
+
+/** Positions tried around the preferred spot of a new node */
+const MAX_PLACEMENT_ATTEMPTS = 200;
+/** Extra length a routed line may take to save one bend */
+const BEND_PENALTY = 20;
+const DEFAULT_ROUTE_MARGIN = 12;
+
+export interface CanvasLayoutOptions {
+  /** Space between rows, or between rings (default: 80) */
+  layerGap?: number;
+  /** Space between nodes of the same row or ring (default: 40) */
+  nodeGap?: number;
+  /** Most ordering passes over the rows (default: 8) */
+  sweeps?: number;
+  /** Top-left corner of the arranged nodes (default: 100, 100) */
+  origin?: CanvasPoint;
+}
+
+export interface CanvasRouteOptions {
+  /** Clearance kept between a line and the nodes it passes (default: 12) */
+  margin?: number;
+}
+
+// =============================================================================
+// Layers
+// =============================================================================
+
+/** A node, or a placeholder where a long connection crosses a row */
+interface LayoutItem {
+  id: string;
+  layer: number;
+  width: number;
+  height: number;
+}
+
+interface LayeredGraph {
+  items: Map<string, LayoutItem>;
+  /** Items per row, in left-to-right order */
+  layers: LayoutItem[][];
+  /** Neighbours in the row above */
+  above: Map<string, string[]>;
+  /** Neighbours in the row below */
+  below: Map<string, string[]>;
+}
+
+const getCenter = (node: {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}): CanvasPoint => ({
+  x: node.x + node.width / 2,
+  y: node.y + node.height / 2,
+});
+
+/**
+ * Row of every node. Dependent tasks go one row below their lowest
+ * prerequisite and metrics below the last task row; empty rows are dropped.
+ */
+const assignLayers = (
+  nodes: CanvasNode[],
+  connections: CanvasConnection[]
+): Map<string, number> => {
+  const taskIds = new Set(
+    nodes.filter(node => node.type === 'task').map(node => node.id)
+  );
+  const dependents = new Map<string, string[]>();
+  const prerequisiteCount = new Map<string, number>();
+  connections.forEach(connection => {
+    if (
+      connection.type !== 'dependency' ||
+      !taskIds.has(connection.fromNodeId) ||
+      !taskIds.has(connection.toNodeId)
+    ) {
+      return;
+    }
+    dependents.set(connection.fromNodeId, [
+      ...(dependents.get(connection.fromNodeId) ?? []),
+      connection.toNodeId,
+    ]);
+    prerequisiteCount.set(
+      connection.toNodeId,
+      (prerequisiteCount.get(connection.toNodeId) ?? 0) + 1
+    );
+  });
+
+  // Longest prerequisite chain of each task; tasks in a cycle stay on top
+  const depth = new Map<string, number>();
+  const queue = [...taskIds].filter(id => !prerequisiteCount.get(id));
+  queue.forEach(id => depth.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    (dependents.get(id) ?? []).forEach(dependent => {
+      depth.set(
+        dependent,
+        Math.max(depth.get(dependent) ?? 0, (depth.get(id) ?? 0) + 1)
+      );
+      const remaining = (prerequisiteCount.get(dependent) ?? 1) - 1;
+      prerequisiteCount.set(dependent, remaining);
+      if (remaining === 0) queue.push(dependent);
+    });
+  }
+  const maxDepth = Math.max(0, ...depth.values());
+
+  const ranks = new Map(
+    nodes.map(node => {
+      if (node.type === 'task') {
+        return [node.id, TYPE_RANKS.task + (depth.get(node.id) ?? 0)];
+      }
+      if (node.type === 'metric') {
+        return [node.id, TYPE_RANKS.metric + maxDepth];
+      }
+      return [node.id, TYPE_RANKS[node.type]];
+    })
+  );
+
+  const used = [...new Set(ranks.values())].sort((a, b) => a - b);
+  return new Map(
+    [...ranks].map(([id, rank]) => [id, used.indexOf(rank)] as const)
+  );
+};
+
+/** Rows of nodes plus placeholders, linked between neighbouring rows */
+const buildLayeredGraph = (
+  nodes: CanvasNode[],
+  connections: CanvasConnection[]
+): LayeredGraph => {
+  const layerOf = assignLayers(nodes, connections);
+  const items = new Map<string, LayoutItem>();
+  const layers: LayoutItem[][] = [];
+  const above = new Map<string, string[]>();
+  const below = new Map<string, string[]>();
+
+  const addItem = (item: LayoutItem) => {
+    items.set(item.id, item);
+    (layers[item.layer] ??= []).push(item);
+  };
+  const link = (upper: string, lower: string) => {
+    below.set(upper, [...(below.get(upper) ?? []), lower]);
+    above.set(lower, [...(above.get(lower) ?? []), upper]);
+  };
+
+  nodes.forEach(node =>
+    addItem({
+      id: node.id,
+      layer: layerOf.get(node.id) ?? 0,
+      width: node.width,
+      height: node.height,
+    })
+  );
+
+  connections.forEach(connection => {
+    const fromLayer = layerOf.get(connection.fromNodeId);
+    const toLayer = layerOf.get(connection.toNodeId);
+    if (fromLayer === undefined || toLayer === undefined) return;
+    if (fromLayer === toLayer) return;
+
+    const [upper, lower] =
+      fromLayer < toLayer
+        ? [connection.fromNodeId, connection.toNodeId]
+        : [connection.toNodeId, connection.fromNodeId];
+    const upperLayer = Math.min(fromLayer, toLayer);
+    const lowerLayer = Math.max(fromLayer, toLayer);
+
+    let previous = upper;
+    for (let layer = upperLayer + 1; layer < lowerLayer; layer++) {
+      const id = `dummy:${connection.id}:${layer}`;
+      addItem({ id, layer, width: 0, height: 0 });
+      link(previous, id);
+      previous = id;
+    }
+    link(previous, lower);
+  });
+
+  return {
+    items,
+    layers: Array.from(layers, layer => layer ?? []),
+    above,
+    below,
+  };
+};
+
+// =============================================================================
+// Ordering
+// =============================================================================
+
+const indexLayers = (layers: LayoutItem[][]): Map<string, number> =>
+  new Map(
+    layers.flatMap(layer => layer.map((item, index) => [item.id, index]))
+  );
+
+/** Connections crossing between each row and the row below it */
+const countCrossings = (
+  graph: LayeredGraph,
+  layers: LayoutItem[][]
+): number => {
+  const index = indexLayers(layers);
+  let crossings = 0;
+
+  for (let layer = 0; layer < layers.length - 1; layer++) {
+    const edges = layers[layer].flatMap(upper =>
+      (graph.below.get(upper.id) ?? []).map(
+        lower => [index.get(upper.id) ?? 0, index.get(lower) ?? 0] as const
+      )
+    );
+    for (let i = 0; i < edges.length; i++) {
+      for (let j = i + 1; j < edges.length; j++) {
+        const [a1, b1] = edges[i];
+        const [a2, b2] = edges[j];
+        if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+      }
+    }
+  }
+
+  return crossings;
+};
+
+/** Sort a row by the mean position of each item's neighbours */
+const sortByBarycenter = (
+  layer: LayoutItem[],
+  neighbours: Map<string, string[]>,
+  index: Map<string, number>
+): LayoutItem[] =>
+  layer
+    .map((item, position) => {
+      const adjacent = neighbours.get(item.id) ?? [];
+      const barycenter =
+        adjacent.length > 0
+          ? adjacent.reduce((sum, other) => sum + (index.get(other) ?? 0), 0) /
+            adjacent.length
+          : position;
+      return { item, barycenter };
+    })
+    .sort((a, b) => a.barycenter - b.barycenter)
+    .map(({ item }) => item);
+
+/** Reorder the rows to reduce crossings, alternating down and up passes */
+const orderLayers = (graph: LayeredGraph, sweeps: number): LayoutItem[][] => {
+  let layers = graph.layers.map(layer => [...layer]);
+  let best = layers;
+  let bestCrossings = countCrossings(graph, layers);
+
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    const down = sweep % 2 === 0;
+    layers = layers.map(layer => [...layer]);
+    const index = indexLayers(layers);
+    const order = down
+      ? layers.map((_, layer) => layer).slice(1)
+      : layers
+          .map((_, layer) => layer)
+          .slice(0, -1)
+          .reverse();
+
+    order.forEach(layer => {
+      layers[layer] = sortByBarycenter(
+        layers[layer],
+        down ? graph.above : graph.below,
+        index
+      );
+      layers[layer].forEach((item, position) => index.set(item.id, position));
+    });
+
+    const crossings = countCrossings(graph, layers);
+    if (crossings < bestCrossings) {
+      best = layers;
+      bestCrossings = crossings;
+    }
+  }
+
+  return best;
+};
+
+// =============================================================================
+// Layered Layout
+// =============================================================================
+
+/**
+ * Left edge of each item in a row, as close as possible to `desired`
+ * without overlapping: the mean of a left-to-right and a right-to-left
+ * packing, which both keep the gaps.
+ */
+const packLayer = (
+  layer: LayoutItem[],
+  desired: number[],
+  gap: number
+): number[] => {
+  const forward: number[] = [];
+  layer.forEach((item, i) => {
+    forward[i] =
+      i === 0
+        ? desired[i]
+        : Math.max(desired[i], forward[i - 1] + layer[i - 1].width + gap);
+  });
+
+  const backward: number[] = [];
+  for (let i = layer.length - 1; i >= 0; i--) {
+    backward[i] =
+      i === layer.length - 1
+        ? desired[i]
+        : Math.min(desired[i], backward[i + 1] - layer[i].width - gap);
+  }
+
+  return layer.map((_, i) => (forward[i] + backward[i]) / 2);
+};
+
+const layoutLayered = (
+  graph: LayeredGraph,
+  rows: LayoutItem[][],
+  options: Required<CanvasLayoutOptions>
+): Map<string, CanvasPoint> => {
+  const { layerGap, nodeGap, origin } = options;
+  const left = new Map<string, number>();
+
+  // Start with every row packed from the left, then pull items towards
+  // their neighbours in the row above (down) or below (up)
+  rows.forEach(row => {
+    let x = 0;
+    row.forEach(item => {
+      left.set(item.id, x);
+      x += item.width + nodeGap;
+    });
+  });
+
+  const leftOf = (id: string) => left.get(id) ?? 0;
+  const centerOf = (id: string) =>
+    leftOf(id) + (graph.items.get(id)?.width ?? 0) / 2;
+  const align = (row: LayoutItem[], neighbours: Map<string, string[]>) => {
+    const desired = row.map(item => {
+      const adjacent = neighbours.get(item.id) ?? [];
+      if (adjacent.length === 0) return leftOf(item.id);
+      const center =
+        adjacent.reduce((sum, id) => sum + centerOf(id), 0) / adjacent.length;
+      return center - item.width / 2;
+    });
+    packLayer(row, desired, nodeGap).forEach((x, i) => left.set(row[i].id, x));
+  };
+
+  for (let pass = 0; pass < 2; pass++) {
+    rows.slice(1).forEach(row => align(row, graph.above));
+    rows
+      .slice(0, -1)
+      .reverse()
+      .forEach(row => align(row, graph.below));
+  }
+
+  const minX = Math.min(...[...left.values()]);
+  const positions = new Map<string, CanvasPoint>();
+  let top = origin.y;
+  rows.forEach(row => {
+    const height = Math.max(0, ...row.map(item => item.height));
+    row.forEach(item => {
+      positions.set(item.id, {
+        x: Math.round(origin.x + leftOf(item.id) - minX),
+        y: Math.round(top + (height - item.height) / 2),
+      });
+    });
+    top += height + layerGap;
+  });
+
+  return positions;
+};
+
+// =============================================================================
+// Radial Layout
+// =============================================================================
+
+const TWO_PI = Math.PI * 2;
+
+/** Angle of the summed unit vectors, or `null` when they cancel out */
+const meanAngle = (angles: number[]): number | null => {
+  const x = angles.reduce((sum, angle) => sum + Math.cos(angle), 0);
+  const y = angles.reduce((sum, angle) => sum + Math.sin(angle), 0);
+  return Math.abs(x) < 1e-9 && Math.abs(y) < 1e-9 ? null : Math.atan2(y, x);
+};
+
+const layoutRadial = (
+  graph: LayeredGraph,
+  rows: LayoutItem[][],
+  options: Required<CanvasLayoutOptions>
+): Map<string, CanvasPoint> => {
+  const { layerGap, nodeGap, origin } = options;
+  const angles = new Map<string, number>();
+  const radii: number[] = [];
+  const size = (item: LayoutItem) => Math.max(item.width, item.height);
+
+  rows.forEach((row, layer) => {
+    const largest = Math.max(0, ...row.map(size));
+    const circumference = row.reduce(
+      (sum, item) => sum + size(item) + nodeGap,
+      0
+    );
+
+    if (layer === 0 && row.length === 1) {
+      radii.push(largest / 2);
+      angles.set(row[0].id, 0);
+      return;
+    }
+
+    const previous = radii[layer - 1] ?? 0;
+    const radius = Math.max(
+      previous + layerGap + largest / 2 + (layer === 1 ? 0 : largest / 2),
+      circumference / TWO_PI
+    );
+    radii.push(radius);
+
+    // Spread the ring evenly, turned so items face their inner neighbours
+    const step = TWO_PI / row.length;
+    const desired = row.map((item, i) => {
+      const inner = (graph.above.get(item.id) ?? [])
+        .map(id => angles.get(id))
+        .filter((angle): angle is number => angle !== undefined);
+      return layer > 1 ? (meanAngle(inner) ?? i * step) : i * step;
+    });
+    const order = row
+      .map((item, i) => ({ item, angle: desired[i] }))
+      .sort((a, b) => a.angle - b.angle);
+    const offset =
+      meanAngle(order.map(({ angle }, i) => angle - i * step)) ?? 0;
+    order.forEach(({ item }, i) => angles.set(item.id, offset + i * step));
+  });
+
+  const outer = Math.max(0, ...radii);
+  const largest = Math.max(0, ...rows.flat().map(size));
+  const center = {
+    x: origin.x + outer + largest / 2,
+    y: origin.y + outer + largest / 2,
+  };
+
+  const positions = new Map<string, CanvasPoint>();
+  rows.forEach((row, layer) =>
+    row.forEach(item => {
+      const angle = angles.get(item.id) ?? 0;
+      const radius = layer === 0 && row.length === 1 ? 0 : radii[layer];
+      positions.set(item.id, {
+        x: Math.round(center.x + radius * Math.cos(angle) - item.width / 2),
+        y: Math.round(center.y + radius * Math.sin(angle) - item.height / 2),
+      });
+    })
+  );
+
+  return positions;
+};
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+const withDefaults = (
+  options: CanvasLayoutOptions
+): Required<CanvasLayoutOptions> => ({
+  layerGap: options.layerGap ?? DEFAULT_LAYER_GAP,
+  nodeGap: options.nodeGap ?? DEFAULT_NODE_GAP,
+  sweeps: options.sweeps ?? DEFAULT_SWEEPS,
+  origin: options.origin ?? DEFAULT_ORIGIN,
+});
+
+/** Positions of all nodes arranged from scratch, keyed by node ID */
+export const layoutCanvasNodes = (
+  nodes: CanvasNode[],
+  connections: CanvasConnection[],
+  algorithm: CanvasLayoutAlgorithm = DEFAULT_CANVAS_LAYOUT_ALGORITHM,
+  options: CanvasLayoutOptions = {}
+): Record<string, CanvasNodePosition> => {
+  if (nodes.length === 0) return {};
+
+  const settings = withDefaults(options);
+  const graph = buildLayeredGraph(nodes, connections);
+  const layers = orderLayers(graph, settings.sweeps);
+  const placed =
+    algorithm === 'radial'
+      ? layoutRadial(graph, layers, settings)
+      : layoutLayered(graph, layers, settings);
+
+  return Object.fromEntries(
+    nodes.map(node => [node.id, placed.get(node.id) ?? settings.origin])
+  );
+};
+
+// =============================================================================
+// Incremental Layout
+// =============================================================================
+
+interface PlacedNode extends CanvasBounds {
+  id: string;
+  layer: number;
+}
+
+const overlapsAny = (
+  rect: CanvasBounds,
+  placed: PlacedNode[],
+  gap: number
+): boolean =>
+  placed.some(
+    other =>
+      rect.x < other.x + other.width + gap &&
+      other.x < rect.x + rect.width + gap &&
+      rect.y < other.y + other.height + gap &&
+      other.y < rect.y + rect.height + gap
+  );
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/** Top-left corner of a new node in the layered layout */
+const placeLayered = (
+  node: CanvasNode,
+  layer: number,
+  neighbours: PlacedNode[],
+  placed: PlacedNode[],
+  options: Required<CanvasLayoutOptions>
+): CanvasPoint => {
+  const { layerGap, nodeGap, origin } = options;
+  const row = placed.filter(other => other.layer === layer);
+  const higher = placed.filter(other => other.layer < layer);
+  const lower = placed.filter(other => other.layer > layer);
+
+  let centerY: number;
+  if (row.length > 0) {
+    centerY = median(row.map(other => getCenter(other).y));
+  } else if (higher.length > 0) {
+    centerY =
+      Math.max(...higher.map(other => other.y + other.height)) +
+      layerGap +
+      node.height / 2;
+  } else if (lower.length > 0) {
+    centerY =
+      Math.min(...lower.map(other => other.y)) - layerGap - node.height / 2;
+  } else {
+    centerY = origin.y + node.height / 2;
+  }
+
+  let centerX: number;
+  if (neighbours.length > 0) {
+    centerX =
+      neighbours.reduce((sum, other) => sum + getCenter(other).x, 0) /
+      neighbours.length;
+  } else if (row.length > 0) {
+    centerX =
+      Math.max(...row.map(other => other.x + other.width)) +
+      nodeGap +
+      node.width / 2;
+  } else {
+    centerX = origin.x + node.width / 2;
+  }
+
+  // Try the preferred spot, then alternately further right and left
+  const step = (node.width + nodeGap) / 2;
+  for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+    const shift = Math.ceil(attempt / 2) * step * (attempt % 2 === 0 ? -1 : 1);
+    const rect = {
+      x: centerX + shift - node.width / 2,
+      y: centerY - node.height / 2,
+      width: node.width,
+      height: node.height,
+    };
+    if (!overlapsAny(rect, placed, nodeGap / 2)) return rect;
+  }
+
+  return { x: centerX - node.width / 2, y: centerY - node.height / 2 };
+};
+
+/** Top-left corner of a new node in the radial layout */
+const placeRadial = (
+  node: CanvasNode,
+  layer: number,
+  neighbours: PlacedNode[],
+  placed: PlacedNode[],
+  options: Required<CanvasLayoutOptions>
+): CanvasPoint => {
+  const { layerGap, nodeGap, origin } = options;
+  const hub = placed.find(other => other.layer === 0);
+  const center = hub
+    ? getCenter(hub)
+    : { x: origin.x + node.width / 2, y: origin.y + node.height / 2 };
+  const distance = (other: PlacedNode) => {
+    const point = getCenter(other);
+    return Math.hypot(point.x - center.x, point.y - center.y);
+  };
+  const angleOf = (other: PlacedNode) => {
+    const point = getCenter(other);
+    return Math.atan2(point.y - center.y, point.x - center.x);
+  };
+
+  const ring = placed.filter(other => other.layer === layer && other !== hub);
+  const inner = placed.filter(other => other.layer < layer);
+  const size = Math.max(node.width, node.height);
+  let radius: number;
+  if (ring.length > 0) {
+    radius = median(ring.map(distance));
+  } else if (inner.length > 0) {
+    radius = Math.max(...inner.map(distance)) + layerGap + size;
+  } else {
+    radius = layerGap + size;
+  }
+
+  const angled = neighbours.filter(other => distance(other) > 1);
+  const preferred =
+    meanAngle(angled.map(angleOf)) ??
+    (ring.length > 0 ? Math.max(...ring.map(angleOf)) : 0);
+
+  // Walk around the ring from the preferred angle; move out when it is full
+  for (let lap = 0; lap < 5; lap++) {
+    const step = Math.min(Math.PI / 4, (size + nodeGap) / 2 / radius);
+    const attempts = Math.min(
+      MAX_PLACEMENT_ATTEMPTS,
+      Math.ceil(TWO_PI / step) + 1
+    );
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const angle =
+        preferred +
+        Math.ceil(attempt / 2) * step * (attempt % 2 === 0 ? -1 : 1);
+      const rect = {
+        x: center.x + radius * Math.cos(angle) - node.width / 2,
+        y: center.y + radius * Math.sin(angle) - node.height / 2,
+        width: node.width,
+        height: node.height,
+      };
+      if (!overlapsAny(rect, placed, nodeGap / 2)) return rect;
+    }
+    radius += layerGap + size;
+  }
+
+  return {
+    x: center.x + radius * Math.cos(preferred) - node.width / 2,
+    y: center.y + radius * Math.sin(preferred) - node.height / 2,
+  };
+};
+
+/**
+ * Positions of all nodes, keeping every saved position.
+ *
+ * Without saved positions the nodes are arranged from scratch. Otherwise
+ * each node without a position is put next to the nodes it is connected to,
+ * in its own row (layered) or ring (radial), at the nearest free spot, so
+ * adding a node never moves the ones already on the canvas.
+ */
+export const arrangeCanvasNodes = (
+  nodes: CanvasNode[],
+  connections: CanvasConnection[],
+  positions: Record<string, CanvasNodePosition>,
+  algorithm: CanvasLayoutAlgorithm = DEFAULT_CANVAS_LAYOUT_ALGORITHM,
+  options: CanvasLayoutOptions = {}
+): Record<string, CanvasNodePosition> => {
+  const pending = nodes.filter(node => !positions[node.id]);
+  if (pending.length === nodes.length) {
+    return layoutCanvasNodes(nodes, connections, algorithm, options);
+  }
+
+  const result: Record<string, CanvasNodePosition> = Object.fromEntries(
+    nodes
+      .filter(node => positions[node.id])
+      .map(node => [node.id, positions[node.id]])
+  );
+  if (pending.length === 0) return result;
+
+  const settings = withDefaults(options);
+  const layerOf = assignLayers(nodes, connections);
+  const placedById = new Map<string, PlacedNode>(
+    nodes
+      .filter(node => positions[node.id])
+      .map(node => [
+        node.id,
+        {
+          id: node.id,
+          layer: layerOf.get(node.id) ?? 0,
+          ...positions[node.id],
+          width: node.width,
+          height: node.height,
+        },
+      ])
+  );
+  // Upper rows first, so new nodes can line up with new parents
+  const layerOfNode = (node: CanvasNode) => layerOf.get(node.id) ?? 0;
+  pending.sort((a, b) => layerOfNode(a) - layerOfNode(b));
+
+  pending.forEach(node => {
+    const layer = layerOfNode(node);
+    const neighbours = connections
+      .flatMap(connection => {
+        if (connection.fromNodeId === node.id) return [connection.toNodeId];
+        if (connection.toNodeId === node.id) return [connection.fromNodeId];
+        return [];
+      })
+      .map(id => placedById.get(id))
+      .filter((other): other is PlacedNode => other !== undefined);
+    const placed = [...placedById.values()];
+
+    const point =
+      algorithm === 'radial'
+        ? placeRadial(node, layer, neighbours, placed, settings)
+        : placeLayered(node, layer, neighbours, placed, settings);
+    const position = { x: Math.round(point.x), y: Math.round(point.y) };
+
+    result[node.id] = position;
+    placedById.set(node.id, {
+      id: node.id,
+      layer,
+      ...position,
+      width: node.width,
+      height: node.height,
+    });
+  });
+
+  return result;
+};
+
+// =============================================================================
+// Connection Routing
+// =============================================================================
+
+/** Whether the segment a → b passes through the rectangle (Liang–Barsky) */
+const segmentHitsRect = (
+  a: CanvasPoint,
+  b: CanvasPoint,
+  rect: CanvasBounds
+): boolean => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+
+  const clip = (p: number, q: number): boolean => {
+    if (p === 0) return q >= 0;
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return false;
+      t0 = Math.max(t0, t);
+    } else {
+      if (t < t0) return false;
+      t1 = Math.min(t1, t);
+    }
+    return true;
+  };
+
+  return (
+    clip(-dx, a.x - rect.x) &&
+    clip(dx, rect.x + rect.width - a.x) &&
+    clip(-dy, a.y - rect.y) &&
+    clip(dy, rect.y + rect.height - a.y) &&
+    t0 < t1
+  );
+};
+
+const inflate = (node: CanvasNode, margin: number): CanvasBounds => ({
+  x: node.x - margin,
+  y: node.y - margin,
+  width: node.width + margin * 2,
+  height: node.height + margin * 2,
+});
+
+const contains = (rect: CanvasBounds, point: CanvasPoint): boolean =>
+  point.x >= rect.x &&
+  point.x <= rect.x + rect.width &&
+  point.y >= rect.y &&
+  point.y <= rect.y + rect.height;
+
+const polylineLength = (points: CanvasPoint[]): number =>
+  points
+    .slice(1)
+    .reduce(
+      (sum, point, i) =>
+        sum + Math.hypot(point.x - points[i].x, point.y - points[i].y),
+      0
+    );
+
+/**
+ * Points of the line from one node to another. A straight line is kept
+ * when nothing is in its way; otherwise the shortest line with one or two
+ * right-angle bends that clears the other nodes is used, going around the
+ * blocking nodes. When no such line exists the one crossing the fewest
+ * nodes wins.
+ */
+export const routeCanvasConnection = (
+  from: CanvasNode,
+  to: CanvasNode,
+  nodes: CanvasNode[],
+  options: CanvasRouteOptions = {}
+): CanvasPoint[] => {
+  const margin = options.margin ?? DEFAULT_ROUTE_MARGIN;
+  const obstacles = nodes
+    .filter(node => node.id !== from.id && node.id !== to.id)
+    .map(node => inflate(node, margin));
+  const countHits = (a: CanvasPoint, b: CanvasPoint) =>
+    obstacles.filter(rect => segmentHitsRect(a, b, rect)).length;
+
+  const { start, end } = getConnectionEndpoints(from, to);
+  const blocking = obstacles.filter(rect => segmentHitsRect(start, end, rect));
+  if (blocking.length === 0) return [start, end];
+
+  const source = getCenter(from);
+  const target = getCenter(to);
+  const xs = new Set([(source.x + target.x) / 2]);
+  const ys = new Set([(source.y + target.y) / 2]);
+  blocking.forEach(rect => {
+    xs.add(rect.x - margin);
+    xs.add(rect.x + rect.width + margin);
+    ys.add(rect.y - margin);
+    ys.add(rect.y + rect.height + margin);
+  });
+
+  const candidates: CanvasPoint[][] = [
+    [{ x: source.x, y: target.y }],
+    [{ x: target.x, y: source.y }],
+    ...[...ys].map(y => [
+      { x: source.x, y },
+      { x: target.x, y },
+    ]),
+    ...[...xs].map(x => [
+      { x, y: source.y },
+      { x, y: target.y },
+    ]),
+  ];
+
+  let best = [start, end];
+  let bestScore = blocking.length * 1e6 + polylineLength(best);
+
+  candidates.forEach(bends => {
+    if (bends.some(point => contains(from, point) || contains(to, point))) {
+      return;
+    }
+
+    const first = bends[0];
+    const last = bends[bends.length - 1];
+    const points = [
+      getNodeBorderPoint(from, first.x, first.y),
+      ...bends,
+      getNodeBorderPoint(to, last.x, last.y),
+    ];
+
+    let hits = 0;
+    for (let i = 0; i < points.length - 1; i++) {
+      hits += countHits(points[i], points[i + 1]);
+      // Lines between the bends must not cut through either end node
+      if (i > 0 && i < points.length - 2) {
+        if (segmentHitsRect(points[i], points[i + 1], from)) hits++;
+        if (segmentHitsRect(points[i], points[i + 1], to)) hits++;
+      }
+    }
+
+    const score =
+      hits * 1e6 + polylineLength(points) + bends.length * BEND_PENALTY;
+    if (score < bestScore) {
+      best = points;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+/** Points of every connection line, keyed by connection ID */
+export const routeCanvasConnections = (
+  nodes: CanvasNode[],
+  connections: CanvasConnection[],
+  options: CanvasRouteOptions = {}
+): Record<string, CanvasPoint[]> => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+
+  return Object.fromEntries(
+    connections.flatMap(connection => {
+      const from = byId.get(connection.fromNodeId);
+      const to = byId.get(connection.toNodeId);
+      return from && to
+        ? [[connection.id, routeCanvasConnection(from, to, nodes, options)]]
+        : [];
+    })
+  );
+};
@@ -0,0 +1,655 @@
+/**
+ * Goal Canvas Model
+ *
+ * Pure functions that turn a goal and its saved layout into canvas nodes and
+ * connections, check new connections, work out how a connection is written
+ * back to the goal, and render the canvas as SVG. Shared by the canvas API
+ * routes, the mock transport and the canvas page, so every backend accepts
+ * and stores the same connections.
+ *
+ * Connection rules (from → to):
+ * - `dependency`: task → task, stored in the target's `Task.dependencies`
+ * - `contributes`: task → milestone, stored in `Milestone.taskIds`
+ * - `measures`: metric → milestone or outcome, stored in the layout
+ * - `achieves`: task or milestone → outcome, stored in the layout
+ *
+ * @fileoverview Shared goal canvas logic for the API backends and UI
+ * @version 1.0.0
+ */
+
+import type {
+  CanvasConnection,
+  CanvasConnectionDraft,
+  CanvasConnectionType,
+  CanvasLayout,
+  CanvasNode,
+  CanvasNodeType,
+  CanvasPoint,
+  CanvasWriteBack,
+} from '@/types/canvas.types';
+import type { SmartGoal } from '@/types/smart-goals.types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const CANVAS_CONNECTION_TYPES = [
+  'dependency',
+  'contributes',
+  'measures',
+  'achieves',
+] as const satisfies readonly CanvasConnectionType[];
+
+export const CANVAS_CONNECTION_LABELS: Record<CanvasConnectionType, string> = {
+  dependency: 'Dependency',
+  contributes: 'Contributes',
+  measures: 'Measures',
+  achieves: 'Achieves',
+};
+
+export const CANVAS_CONNECTION_COLORS: Record<CanvasConnectionType, string> = {
+  dependency: '#64748b',
+  contributes: '#f59e0b',
+  measures: '#ef4444',
+  achieves: '#10b981',
+};
+
+export const CANVAS_NODE_COLORS: Record<CanvasNodeType, string> = {
+  goal: '#3b82f6',
+  outcome: '#10b981',
+  milestone: '#f59e0b',
+  task: '#8b5cf6',
+  metric: '#ef4444',
+};
+
+export const CANVAS_NODE_SIZES: Record<
+  CanvasNodeType,
+  { width: number; height: number }
+> = {
+  goal: { width: 200, height: 100 },
+  outcome: { width: 180, height: 80 },
+  milestone: { width: 160, height: 70 },
+  task: { width: 140, height: 60 },
+  metric: { width: 150, height: 60 },
+};
+
+/** Node type pairs each connection type may join, as [from, to] */
+export const CANVAS_CONNECTION_RULES: Record<
+  CanvasConnectionType,
+  ReadonlyArray<readonly [CanvasNodeType, CanvasNodeType]>
+> = {
+  dependency: [['task', 'task']],
+  contributes: [['task', 'milestone']],
+  measures: [
+    ['metric', 'milestone'],
+    ['metric', 'outcome'],
+  ],
+  achieves: [
+    ['task', 'outcome'],
+    ['milestone', 'outcome'],
+  ],
+};
+
+export const MIN_CANVAS_ZOOM = 0.25;
+export const MAX_CANVAS_ZOOM = 3;
+
+/** Tasks per row in the default arrangement */
+const TASKS_PER_ROW = 5;
+
+// =============================================================================
+// Identifiers
+// =============================================================================
+
+export const toCanvasNodeId = (type: CanvasNodeType, entityId: string) =>
+  `${type}:${entityId}`;
+
+export const toCanvasConnectionId = (draft: CanvasConnectionDraft) =>
+  `${draft.type}:${draft.fromNodeId}->${draft.toNodeId}`;
+
+/** The entity ID of a node ID, e.g. `task:task-1` → `task-1` */
+export const getCanvasEntityId = (nodeId: string): string =>
+  nodeId.slice(nodeId.indexOf(':') + 1);
+
+export const clampCanvasZoom = (zoom: number): number =>
+  Math.min(MAX_CANVAS_ZOOM, Math.max(MIN_CANVAS_ZOOM, zoom));
+
+// =============================================================================
+// Layouts
+// =============================================================================
+
+/** Layout of a goal that has never been arranged */
+export const createDefaultCanvasLayout = (goalId: string): CanvasLayout => ({
+  goalId,
+  positions: {},
+  connections: [],
+  viewport: { x: 0, y: 0, zoom: 1 },
+  showGrid: true,
+  updatedAt: new Date(0),
+});
+
+// =============================================================================
+// Nodes
+// =============================================================================
+
+const createNode = (
+  type: CanvasNodeType,
+  entityId: string,
+  title: string,
+  position: { x: number; y: number },
+  extra: Pick<CanvasNode, 'status' | 'progress'> = {}
+): CanvasNode => ({
+  id: toCanvasNodeId(type, entityId),
+  type,
+  entityId,
+  title,
+  ...position,
+  ...CANVAS_NODE_SIZES[type],
+  color: CANVAS_NODE_COLORS[type],
+  ...extra,
+});
+
+/**
+ * Build the canvas nodes of a goal: outcomes across the top, milestones on
+ * either side of the goal and tasks in rows below it. Saved positions from
+ * the layout replace the default ones.
+ */
+export const buildCanvasNodes = (
+  goal: SmartGoal,
+  layout?: Pick<CanvasLayout, 'positions'>
+): CanvasNode[] => {
+  const nodes: CanvasNode[] = [
+    createNode(
+      'goal',
+      goal.id,
+      goal.title,
+      { x: 400, y: 300 },
+      { status: goal.status, progress: goal.progress }
+    ),
+  ];
+
+  (goal.outcomes ?? []).forEach((outcome, index) => {
+    nodes.push(
+      createNode('outcome', outcome.id, outcome.description, {
+        x: 200 + index * 250,
+        y: 100,
+      })
+    );
+  });
+
+  (goal.milestones ?? [])
+    .filter(milestone => !milestone.isDeleted)
+    .forEach((milestone, index) => {
+      nodes.push(
+        createNode(
+          'milestone',
+          milestone.id,
+          milestone.title,
+          {
+            x: index % 2 === 0 ? 100 : 700,
+            y: 200 + Math.floor(index / 2) * 120,
+          },
+          {
+            status: milestone.isCompleted ? 'completed' : 'active',
+            progress: milestone.progress,
+          }
+        )
+      );
+    });
+
+  (goal.tasks ?? [])
+    .filter(task => !task.isDeleted)
+    .forEach((task, index) => {
+      nodes.push(
+        createNode(
+          'task',
+          task.id,
+          task.title,
+          {
+            x: 150 + (index % TASKS_PER_ROW) * 150,
+            y: 500 + Math.floor(index / TASKS_PER_ROW) * 90,
+          },
+          { status: task.status, progress: task.progress }
+        )
+      );
+    });
+
+  if (goal.measurable) {
+    const { currentValue, targetValue, unit } = goal.measurable;
+    nodes.push(
+      createNode('metric', goal.id, `${currentValue}/${targetValue} ${unit}`, {
+        x: 650,
+        y: 100,
+      })
+    );
+  }
+
+  const positions = layout?.positions ?? {};
+  return nodes.map(node =>
+    positions[node.id] ? { ...node, ...positions[node.id] } : node
+  );
+};
+
+// =============================================================================
+// Connections
+// =============================================================================
+
+const createConnection = (
+  draft: CanvasConnectionDraft,
+  origin: CanvasConnection['origin']
+): CanvasConnection => ({
+  id: toCanvasConnectionId(draft),
+  fromNodeId: draft.fromNodeId,
+  toNodeId: draft.toNodeId,
+  type: draft.type,
+  origin,
+  color: CANVAS_CONNECTION_COLORS[draft.type],
+});
+
+/** Create a connection drawn on the canvas */
+export const createCanvasConnection = (
+  draft: CanvasConnectionDraft
+): CanvasConnection =>
+  createConnection(
+    draft,
+    draft.type === 'dependency' || draft.type === 'contributes'
+      ? 'goal'
+      : 'layout'
+  );
+
+/**
+ * Build the connections between the nodes of a goal: the goal hierarchy,
+ * task dependencies, milestone tasks and the connections saved in the
+ * layout. Connections to nodes that no longer exist are dropped.
+ */
+export const buildCanvasConnections = (
+  goal: SmartGoal,
+  layout?: Pick<CanvasLayout, 'connections'>
+): CanvasConnection[] => {
+  const nodeIds = new Set(buildCanvasNodes(goal).map(node => node.id));
+  const goalNodeId = toCanvasNodeId('goal', goal.id);
+  const connections: CanvasConnection[] = [];
+
+  const add = (
+    draft: CanvasConnectionDraft,
+    origin: CanvasConnection['origin']
+  ) => {
+    if (nodeIds.has(draft.fromNodeId) && nodeIds.has(draft.toNodeId)) {
+      connections.push(createConnection(draft, origin));
+    }
+  };
+
+  (goal.outcomes ?? []).forEach(outcome => {
+    add(
+      {
+        fromNodeId: toCanvasNodeId('outcome', outcome.id),
+        toNodeId: goalNodeId,
+        type: 'achieves',
+      },
+      'structure'
+    );
+  });
+
+  (goal.milestones ?? []).forEach(milestone => {
+    const milestoneNodeId = toCanvasNodeId('milestone', milestone.id);
+    add(
+      {
+        fromNodeId: milestoneNodeId,
+        toNodeId: goalNodeId,
+        type: 'contributes',
+      },
+      'structure'
+    );
+    (milestone.taskIds ?? []).forEach(taskId => {
+      add(
+        {
+          fromNodeId: toCanvasNodeId('task', taskId),
+          toNodeId: milestoneNodeId,
+          type: 'contributes',
+        },
+        'goal'
+      );
+    });
+  });
+
+  (goal.tasks ?? []).forEach(task => {
+    (task.dependencies ?? []).forEach(dependencyId => {
+      add(
+        {
+          fromNodeId: toCanvasNodeId('task', dependencyId),
+          toNodeId: toCanvasNodeId('task', task.id),
+          type: 'dependency',
+        },
+        'goal'
+      );
+    });
+  });
+
+  add(
+    {
+      fromNodeId: toCanvasNodeId('metric', goal.id),
+      toNodeId: goalNodeId,
+      type: 'measures',
+    },
+    'structure'
+  );
+
+  (layout?.connections ?? []).forEach(connection => {
+    add(connection, 'layout');
+  });
+
+  return connections;
+};
+
+/** Whether `targetId` can be reached from `sourceId` over dependencies */
+const hasDependencyPath = (
+  connections: CanvasConnection[],
+  sourceId: string,
+  targetId: string
+): boolean => {
+  const visited = new Set<string>();
+  const queue = [sourceId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === targetId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    connections
+      .filter(c => c.type === 'dependency' && c.fromNodeId === current)
+      .forEach(c => queue.push(c.toNodeId));
+  }
+
+  return false;
+};
+
+/**
+ * Why a connection cannot be drawn, or null when it can. Checks the
+ * connection rules, duplicates and dependency cycles.
+ */
+export const getCanvasConnectionError = (
+  nodes: CanvasNode[],
+  connections: CanvasConnection[],
+  draft: CanvasConnectionDraft
+): string | null => {
+  if (draft.fromNodeId === draft.toNodeId) {
+    return 'A node cannot be connected to itself';
+  }
+
+  const from = nodes.find(node => node.id === draft.fromNodeId);
+  const to = nodes.find(node => node.id === draft.toNodeId);
+  if (!from || !to) {
+    return 'Both nodes must be on the canvas';
+  }
+
+  const allowed = CANVAS_CONNECTION_RULES[draft.type].some(
+    ([fromType, toType]) => fromType === from.type && toType === to.type
+  );
+  if (!allowed) {
+    return `A ${from.type} cannot have a ${CANVAS_CONNECTION_LABELS[draft.type].toLowerCase()} connection to a ${to.type}`;
+  }
+
+  if (connections.some(c => c.id === toCanvasConnectionId(draft))) {
+    return 'These nodes are already connected';
+  }
+
+  if (
+    draft.type === 'dependency' &&
+    hasDependencyPath(connections, draft.toNodeId, draft.fromNodeId)
+  ) {
+    return 'This dependency would create a cycle';
+  }
+
+  return null;
+};
+
+/** Connection types allowed from one node to another */
+export const getAllowedConnectionTypes = (
+  from: Pick<CanvasNode, 'type'>,
+  to: Pick<CanvasNode, 'type'>
+): CanvasConnectionType[] =>
+  CANVAS_CONNECTION_TYPES.filter(type =>
+    CANVAS_CONNECTION_RULES[type].some(
+      ([fromType, toType]) => fromType === from.type && toType === to.type
+    )
+  );
+
+// =============================================================================
+// Write-back
+// =============================================================================
+
+const toggle = (values: string[], value: string, present: boolean) =>
+  present
+    ? values.includes(value)
+      ? values
+      : [...values, value]
+    : values.filter(item => item !== value);
+
+/**
+ * Work out what adding or removing a connection changes: the dependencies
+ * of a task, the tasks of a milestone or the connections of the layout.
+ * The connection must have passed `getCanvasConnectionError` when added.
+ */
+export const planCanvasConnectionChange = (
+  goal: SmartGoal,
+  layout: Pick<CanvasLayout, 'connections'>,
+  connection: CanvasConnectionDraft,
+  action: 'add' | 'remove'
+): CanvasWriteBack => {
+  const present = action === 'add';
+  const fromId = getCanvasEntityId(connection.fromNodeId);
+  const toId = getCanvasEntityId(connection.toNodeId);
+  const writeBack: CanvasWriteBack = {
+    taskDependencies: {},
+    milestoneTaskIds: {},
+  };
+
+  if (connection.type === 'dependency') {
+    const task = goal.tasks.find(t => t.id === toId);
+    if (task) {
+      writeBack.taskDependencies[task.id] = toggle(
+        task.dependencies ?? [],
+        fromId,
+        present
+      );
+    }
+  } else if (connection.type === 'contributes') {
+    const milestone = goal.milestones.find(m => m.id === toId);
+    if (milestone) {
+      writeBack.milestoneTaskIds[milestone.id] = toggle(
+        milestone.taskIds ?? [],
+        fromId,
+        present
+      );
+    }
+  } else {
+    const id = toCanvasConnectionId(connection);
+    const others = layout.connections.filter(c => c.id !== id);
+    writeBack.layoutConnections = present
+      ? [...others, createConnection(connection, 'layout')]
+      : others;
+  }
+
+  return writeBack;
+};
+
+/** Apply the task and milestone changes of a write-back to a goal */
+export const applyCanvasWriteBack = (
+  goal: SmartGoal,
+  writeBack: CanvasWriteBack
+): SmartGoal => ({
+  ...goal,
+  tasks: goal.tasks.map(task =>
+    writeBack.taskDependencies[task.id]
+      ? { ...task, dependencies: writeBack.taskDependencies[task.id] }
+      : task
+  ),
+  milestones: goal.milestones.map(milestone =>
+    writeBack.milestoneTaskIds[milestone.id]
+      ? { ...milestone, taskIds: writeBack.milestoneTaskIds[milestone.id] }
+      : milestone
+  ),
+});
+
+// =============================================================================
+// Geometry
+// =============================================================================
+
+export interface CanvasBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Smallest rectangle around all nodes, grown by `padding` on every side */
+export const getCanvasBounds = (
+  nodes: CanvasNode[],
+  padding = 0
+): CanvasBounds => {
+  if (nodes.length === 0) {
+    return { x: 0, y: 0, width: padding * 2, height: padding * 2 };
+  }
+
+  const minX = Math.min(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxX = Math.max(...nodes.map(node => node.x + node.width));
+  const maxY = Math.max(...nodes.map(node => node.y + node.height));
+
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2,
+  };
+};
+
+/** Point where the line from the node centre towards (x, y) leaves the node */
+export const getNodeBorderPoint = (node: CanvasNode, x: number, y: number) => {
+  const cx = node.x + node.width / 2;
+  const cy = node.y + node.height / 2;
+  const dx = x - cx;
+  const dy = y - cy;
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : node.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : node.height / 2 / Math.abs(dy)
+  );
+  return { x: cx + dx * scale, y: cy + dy * scale };
+};
+
+/** Endpoints of a straight connection, clipped to the node borders */
+export const getConnectionEndpoints = (from: CanvasNode, to: CanvasNode) => ({
+  start: getNodeBorderPoint(from, to.x + to.width / 2, to.y + to.height / 2),
+  end: getNodeBorderPoint(
+    to,
+    from.x + from.width / 2,
+    from.y + from.height / 2
+  ),
+});
+
+// =============================================================================
+// SVG Export
+// =============================================================================
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const truncate = (text: string, maxChars: number): string =>
+  text.length > maxChars ? `${text.slice(0, maxChars - 1)}\u2026` : text;
+
+export const CANVAS_EXPORT_FORMATS = ['svg', 'png'] as const;
+
+export type CanvasExportFormat = (typeof CANVAS_EXPORT_FORMATS)[number];
+
+/** Download name of a canvas image, e.g. `launch-website-canvas.svg` */
+export const getCanvasExportFilename = (
+  goal: Pick<SmartGoal, 'title' | 'id'>,
+  format: CanvasExportFormat
+): string => {
+  const slug = goal.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  return `${slug || goal.id}-canvas.${format}`;
+};
+
+export interface CanvasSvgOptions {
+  /** Space around the nodes (default: 40) */
+  padding?: number;
+  background?: string;
+  /** Routed connection lines keyed by connection ID; others are straight */
+  routes?: Record<string, CanvasPoint[]>;
+}
+
+/**
+ * Render nodes and connections as a standalone SVG document, cropped to the
+ * nodes. Used for SVG downloads and, rasterized, for PNG downloads.
+ */
+export const renderCanvasSvg = (
+  nodes: CanvasNode[],
+  connections: CanvasConnection[],
+  options: CanvasSvgOptions = {}
+): string => {
+  const bounds = getCanvasBounds(nodes, options.padding ?? 40);
+  const byId = new Map(nodes.map(node => [node.id, node]));
+
+  const markers = CANVAS_CONNECTION_TYPES.map(
+    type =>
+      `<marker id="arrow-${type}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${CANVAS_CONNECTION_COLORS[type]}"/></marker>`
+  ).join('');
+
+  const lines = connections.flatMap(connection => {
+    const from = byId.get(connection.fromNodeId);
+    const to = byId.get(connection.toNodeId);
+    if (!from || !to) return [];
+
+    const dash =
+      connection.type === 'dependency' ? ' stroke-dasharray="5,5"' : '';
+    const stroke = `stroke="${connection.color}" stroke-width="2"${dash} marker-end="url(#arrow-${connection.type})"`;
+    const route = options.routes?.[connection.id];
+    if (route && route.length > 2) {
+      const points = route
+        .map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`)
+        .join(' ');
+      return [`<polyline points="${points}" fill="none" ${stroke}/>`];
+    }
+
+    const { start, end } = getConnectionEndpoints(from, to);
+    return [
+      `<line x1="${start.x.toFixed(1)}" y1="${start.y.toFixed(1)}" x2="${end.x.toFixed(1)}" y2="${end.y.toFixed(1)}" ${stroke}/>`,
+    ];
+  });
+
+  const boxes = nodes.map(node => {
+    const maxChars = Math.floor((node.width - 16) / 6.5);
+    const progress =
+      node.progress !== undefined
+        ? `<rect x="${node.x + 8}" y="${node.y + node.height - 12}" width="${node.width - 16}" height="4" rx="2" fill="#e5e7eb"/><rect x="${node.x + 8}" y="${node.y + node.height - 12}" width="${((node.width - 16) * Math.min(100, Math.max(0, node.progress))) / 100}" height="4" rx="2" fill="${node.color}"/>`
+        : '';
+    return [
+      `<g>`,
+      `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="8" fill="#ffffff" stroke="${node.color}" stroke-width="2"/>`,
+      `<text x="${node.x + 8}" y="${node.y + 18}" font-size="10" fill="${node.color}" font-weight="bold">${escapeXml(node.type.toUpperCase())}</text>`,
+      `<text x="${node.x + 8}" y="${node.y + 36}" font-size="12" fill="#111827">${escapeXml(truncate(node.title, maxChars))}</text>`,
+      progress,
+      `</g>`,
+    ].join('');
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${bounds.width}" height="${bounds.height}" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<defs>${markers}</defs>`,
+    `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${options.background ?? '#ffffff'}"/>`,
+    ...lines,
+    ...boxes,
+    `</svg>`,
+  ].join('\n');
+};
@@ -0,0 +1,554 @@
+/**
+ * DoR/DoD Template Library
+ *
+ * Pure functions behind the DoR/DoD template library: who may see and
+ * change a template, how edits create new versions, and how templates are
+ * exported to and imported from JSON or YAML files. The route handlers and
+ * the mock transport both go through these functions.
+ *
+ * Templates are private to their owner or shared with the organization.
+ * Everyone who can see a template can apply and export it; only the owner
+ * edits, shares or deletes it. Every change to the content of a template
+ * keeps the previous content as a version that can be restored.
+ *
+ * Imported files hold one template or a list of them, in the shape of
+ * `DorDodTemplate`. YAML is read by the `yaml` package with its default
+ * core schema, so unknown tags are rejected and aliases are limited.
+ * Files are checked field by field so a bad file is
+ * rejected with the path of every problem, and fields the library does
+ * not know are dropped.
+ *
+ * @fileoverview Shared DoR/DoD template library logic
+ * @version 1.0.0
+ */
+
+import { parseDocument, stringify as stringifyYaml, YAMLError } from 'yaml';
+
+import type {
+  CriteriaCategory,
+  DorDodTemplate,
+  TemplateCategory,
+  ValidationRule,
+} from '@/components/DorDodPanel/DorDodPanel.types';
+import type {
+  DorDodTemplateContent,
+  DorDodTemplateVersion,
+  DorDodTemplateVisibility,
+  StoredDorDodTemplate,
+} from '@/types/dor-dod.types';
+
+import type {
+  DorDodTemplateFormat,
+  DorDodTemplateQuery,
+  SaveDorDodTemplateRequest,
+} from '../dor-dod';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DOR_DOD_TEMPLATE_VISIBILITIES = [
+  'private',
+  'organization',
+] as const satisfies readonly DorDodTemplateVisibility[];
+
+export const DOR_DOD_TEMPLATE_CATEGORIES = [
+  'software-development',
+  'design',
+  'content',
+  'marketing',
+  'research',
+  'custom',
+] as const satisfies readonly TemplateCategory[];
+
+export const DOR_DOD_TEMPLATE_FORMATS = [
+  'json',
+  'yaml',
+] as const satisfies readonly DorDodTemplateFormat[];
+
+export const DOR_DOD_TEMPLATE_MIME_TYPES: Record<DorDodTemplateFormat, string> =
+  {
+    json: 'application/json',
+    yaml: 'application/yaml; charset=utf-8',
+  };
+
+/** Error code of an import whose file holds invalid templates */
+export const INVALID_TEMPLATE_FILE = 'INVALID_TEMPLATE_FILE';
+
+/** Earlier versions kept per template; older ones are dropped */
+export const MAX_TEMPLATE_VERSIONS = 50;
+
+/** Most templates one file may import */
+export const MAX_IMPORTED_TEMPLATES = 50;
+
+/** Largest file accepted for import, in characters */
+export const MAX_TEMPLATE_FILE_LENGTH = 1_000_000;
+
+const MAX_TEMPLATE_CRITERIA = 200;
+
+const CRITERIA_CATEGORIES: CriteriaCategory[] = [
+  'required',
+  'recommended',
+  'optional',
+];
+
+const RULE_TYPES: ValidationRule['type'][] = [
+  'required',
+  'conditional',
+  'dependency',
+];
+
+type TemplateCriterion = DorDodTemplate['dorCriteria'][number];
+
+export interface TemplateFieldError {
+  path: string;
+  message: string;
+}
+
+/** Templates read from an import file, or the problems that rejected it */
+export type TemplateImportResult =
+  | { templates: DorDodTemplateContent[]; errors?: undefined }
+  | { templates?: undefined; errors: TemplateFieldError[] };
+
+export interface DorDodTemplateFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+// =============================================================================
+// Access
+// =============================================================================
+
+/** Owners see their private templates; everyone sees shared ones */
+export const canViewDorDodTemplate = (
+  template: Pick<StoredDorDodTemplate, 'ownerId' | 'visibility'>,
+  userId: string
+): boolean =>
+  template.ownerId === userId || template.visibility === 'organization';
+
+/** Only the owner edits, shares and deletes a template */
+export const canEditDorDodTemplate = (
+  template: Pick<StoredDorDodTemplate, 'ownerId'>,
+  userId: string
+): boolean => template.ownerId === userId;
+
+/** Read template list filters from query parameters, ignoring bad values */
+export const parseDorDodTemplateQuery = (
+  params: URLSearchParams | Record<string, string>
+): DorDodTemplateQuery => {
+  const get = (key: string): string | undefined =>
+    (params instanceof URLSearchParams
+      ? params.get(key)
+      : params[key]
+    )?.trim() || undefined;
+  const query: DorDodTemplateQuery = {};
+
+  const category = get('category');
+  if (DOR_DOD_TEMPLATE_CATEGORIES.some(c => c === category)) {
+    query.category = category as TemplateCategory;
+  }
+  const visibility = get('visibility');
+  if (DOR_DOD_TEMPLATE_VISIBILITIES.some(v => v === visibility)) {
+    query.visibility = visibility as DorDodTemplateVisibility;
+  }
+  const search = get('search');
+  if (search) query.search = search;
+
+  return query;
+};
+
+/** Templates the user can see that match the query, sorted by name */
+export const filterDorDodTemplates = (
+  templates: StoredDorDodTemplate[],
+  userId: string,
+  query: DorDodTemplateQuery = {}
+): StoredDorDodTemplate[] => {
+  const search = query.search?.toLowerCase();
+  return templates
+    .filter(
+      template =>
+        canViewDorDodTemplate(template, userId) &&
+        (!query.category || template.category === query.category) &&
+        (!query.visibility || template.visibility === query.visibility) &&
+        (!search ||
+          template.name.toLowerCase().includes(search) ||
+          template.description.toLowerCase().includes(search))
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// =============================================================================
+// Versions
+// =============================================================================
+
+/** The versioned content of a template */
+export const toDorDodTemplateContent = (
+  template: DorDodTemplateContent
+): DorDodTemplateContent => ({
+  name: template.name,
+  description: template.description,
+  category: template.category,
+  dorCriteria: template.dorCriteria,
+  dodCriteria: template.dodCriteria,
+});
+
+const sameContent = (
+  a: DorDodTemplateContent,
+  b: DorDodTemplateContent
+): boolean =>
+  JSON.stringify(toDorDodTemplateContent(a)) ===
+  JSON.stringify(toDorDodTemplateContent(b));
+
+/** A new library template at version 1 */
+export const createDorDodTemplate = (
+  request: SaveDorDodTemplateRequest,
+  id: string,
+  userId: string,
+  now: Date = new Date()
+): StoredDorDodTemplate => ({
+  ...toDorDodTemplateContent(request),
+  id,
+  isCustom: true,
+  visibility: request.visibility,
+  ownerId: userId,
+  version: 1,
+  versions: [],
+  createdAt: now,
+  updatedAt: now,
+  updatedBy: userId,
+});
+
+/**
+ * Apply an edit. Changed content becomes a new version and the previous
+ * content is kept; changing only the visibility keeps the version.
+ */
+export const applyDorDodTemplateUpdate = (
+  template: StoredDorDodTemplate,
+  request: SaveDorDodTemplateRequest,
+  userId: string,
+  now: Date = new Date()
+): StoredDorDodTemplate => {
+  const updated: StoredDorDodTemplate = {
+    ...template,
+    visibility: request.visibility,
+    updatedAt: now,
+    updatedBy: userId,
+  };
+  if (sameContent(template, request)) return updated;
+
+  const previous: DorDodTemplateVersion = {
+    ...toDorDodTemplateContent(template),
+    version: template.version,
+    savedAt: template.updatedAt,
+    savedBy: template.updatedBy,
+  };
+  return {
+    ...updated,
+    ...toDorDodTemplateContent(request),
+    version: template.version + 1,
+    versions: [previous, ...template.versions].slice(0, MAX_TEMPLATE_VERSIONS),
+  };
+};
+
+/**
+ * Make the content of an earlier version current again, as a new version.
+ * Returns `null` when the version is not kept.
+ */
+export const restoreDorDodTemplateVersion = (
+  template: StoredDorDodTemplate,
+  version: number,
+  userId: string,
+  now: Date = new Date()
+): StoredDorDodTemplate | null => {
+  const saved = template.versions.find(v => v.version === version);
+  if (!saved) return null;
+  return applyDorDodTemplateUpdate(
+    template,
+    { ...toDorDodTemplateContent(saved), visibility: template.visibility },
+    userId,
+    now
+  );
+};
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/** A template in the shape of `DorDodTemplate`, without library fields */
+const toExportedTemplate = (template: DorDodTemplate): DorDodTemplate => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  category: template.category,
+  isCustom: template.isCustom,
+  dorCriteria: template.dorCriteria,
+  dodCriteria: template.dodCriteria,
+});
+
+const toFilename = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'template';
+
+/**
+ * Export one template as an object, or several as a list, in JSON or YAML.
+ * Both formats read back with `parseDorDodTemplateFile`.
+ */
+export const exportDorDodTemplates = (
+  templates: DorDodTemplate[],
+  format: DorDodTemplateFormat
+): DorDodTemplateFile => {
+  const exported = templates.map(toExportedTemplate);
+  const value = exported.length === 1 ? exported[0] : exported;
+  const name =
+    exported.length === 1 ? toFilename(exported[0].name) : 'dor-dod-templates';
+
+  return {
+    content:
+      format === 'json'
+        ? `${JSON.stringify(value, null, 2)}\n`
+        : stringifyYaml(value),
+    mimeType: DOR_DOD_TEMPLATE_MIME_TYPES[format],
+    filename: `${name}.${format === 'json' ? 'json' : 'yaml'}`,
+  };
+};
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/** JSON when the file starts like JSON, YAML otherwise */
+export const detectDorDodTemplateFormat = (
+  content: string
+): DorDodTemplateFormat => (/^\s*[[{]/.test(content) ? 'json' : 'yaml');
+
+/** Read a YAML document, rejecting it on warnings such as unknown tags too */
+const parseYaml = (content: string): unknown => {
+  const document = parseDocument(content);
+  const [problem] = [...document.errors, ...document.warnings];
+  if (problem) throw problem;
+  return document.toJS();
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class TemplateReader {
+  readonly errors: TemplateFieldError[] = [];
+
+  private fail(path: string, message: string): undefined {
+    this.errors.push({ path, message });
+    return undefined;
+  }
+
+  private text(
+    value: unknown,
+    path: string,
+    { required = false, max }: { required?: boolean; max: number }
+  ): string | undefined {
+    if (value === undefined || value === null) {
+      return required ? this.fail(path, 'is required') : undefined;
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return this.fail(path, 'must be text');
+    }
+    const text = String(value).trim();
+    if (required && !text) return this.fail(path, 'is required');
+    if (text.length > max) {
+      return this.fail(path, `must be ${max} characters or less`);
+    }
+    return text;
+  }
+
+  private oneOf<T extends string>(
+    value: unknown,
+    path: string,
+    allowed: readonly T[],
+    fallback: T
+  ): T | undefined {
+    if (value === undefined || value === null) return fallback;
+    if (allowed.some(option => option === value)) return value as T;
+    return this.fail(path, `must be one of ${allowed.join(', ')}`);
+  }
+
+  private rule(value: unknown, path: string): ValidationRule | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!isRecord(value)) return this.fail(path, 'must be an object');
+
+    const type = this.oneOf(value.type, `${path}.type`, RULE_TYPES, 'required');
+    const message = this.text(value.message, `${path}.message`, { max: 500 });
+    const condition = this.text(value.condition, `${path}.condition`, {
+      max: 1000,
+    });
+    let dependsOn: string[] | undefined;
+    if (value.dependsOn !== undefined && value.dependsOn !== null) {
+      if (
+        !Array.isArray(value.dependsOn) ||
+        !value.dependsOn.every(id => typeof id === 'string')
+      ) {
+        this.fail(`${path}.dependsOn`, 'must be a list of criterion IDs');
+      } else {
+        dependsOn = value.dependsOn;
+      }
+    }
+
+    return type
+      ? {
+          type,
+          message: message ?? '',
+          ...(condition ? { condition } : {}),
+          ...(dependsOn ? { dependsOn } : {}),
+        }
+      : undefined;
+  }
+
+  private criteria(value: unknown, path: string): TemplateCriterion[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      this.fail(path, 'must be a list of criteria');
+      return [];
+    }
+    if (value.length > MAX_TEMPLATE_CRITERIA) {
+      this.fail(path, `must have ${MAX_TEMPLATE_CRITERIA} criteria or less`);
+      return [];
+    }
+
+    return value.flatMap((item, index): TemplateCriterion[] => {
+      const itemPath = `${path}.${index}`;
+      // A plain string is a required criterion with that description
+      const criterion = typeof item === 'string' ? { description: item } : item;
+      if (!isRecord(criterion)) {
+        this.fail(itemPath, 'must be an object');
+        return [];
+      }
+
+      const description = this.text(
+        criterion.description,
+        `${itemPath}.description`,
+        { required: true, max: 500 }
+      );
+      const category = this.oneOf(
+        criterion.category,
+        `${itemPath}.category`,
+        CRITERIA_CATEGORIES,
+        'required'
+      );
+      const helpText = this.text(criterion.helpText, `${itemPath}.helpText`, {
+        max: 2000,
+      });
+      const validationRule = this.rule(
+        criterion.validationRule,
+        `${itemPath}.validationRule`
+      );
+      const order =
+        typeof criterion.order === 'number' && Number.isFinite(criterion.order)
+          ? Math.round(criterion.order)
+          : index + 1;
+
+      if (!description || !category) return [];
+      return [
+        {
+          description,
+          category,
+          order,
+          ...(helpText ? { helpText } : {}),
+          ...(validationRule ? { validationRule } : {}),
+        },
+      ];
+    });
+  }
+
+  template(value: unknown, path: string): DorDodTemplateContent | undefined {
+    if (!isRecord(value))
+      return this.fail(path || 'template', 'must be an object');
+    const at = (field: string) => (path ? `${path}.${field}` : field);
+
+    const name = this.text(value.name, at('name'), {
+      required: true,
+      max: 200,
+    });
+    const description = this.text(value.description, at('description'), {
+      max: 2000,
+    });
+    const category = this.oneOf(
+      value.category,
+      at('category'),
+      DOR_DOD_TEMPLATE_CATEGORIES,
+      'custom'
+    );
+    const dorCriteria = this.criteria(value.dorCriteria, at('dorCriteria'));
+    const dodCriteria = this.criteria(value.dodCriteria, at('dodCriteria'));
+
+    if (!name || !category) return undefined;
+    return {
+      name,
+      description: description ?? '',
+      category,
+      dorCriteria,
+      dodCriteria,
+    };
+  }
+}
+
+/**
+ * Read the templates in a JSON or YAML file. The format is detected when
+ * it is not given. Any problem rejects the whole file.
+ */
+export const parseDorDodTemplateFile = (
+  content: string,
+  format: DorDodTemplateFormat = detectDorDodTemplateFormat(content)
+): TemplateImportResult => {
+  if (content.length > MAX_TEMPLATE_FILE_LENGTH) {
+    return {
+      errors: [
+        {
+          path: 'content',
+          message: `must be ${MAX_TEMPLATE_FILE_LENGTH} characters or less`,
+        },
+      ],
+    };
+  }
+
+  let value: unknown;
+  try {
+    value = format === 'json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    // YAML errors go on to quote the source, so only the first line is kept
+    const message =
+      error instanceof YAMLError || error instanceof SyntaxError
+        ? error.message.split('\n')[0].replace(/:$/, '')
+        : 'could not be read';
+    return {
+      errors: [
+        {
+          path: 'content',
+          message: `is not valid ${format.toUpperCase()}: ${message}`,
+        },
+      ],
+    };
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+  if (items.length === 0) {
+    return { errors: [{ path: 'content', message: 'contains no templates' }] };
+  }
+  if (items.length > MAX_IMPORTED_TEMPLATES) {
+    return {
+      errors: [
+        {
+          path: 'content',
+          message: `must contain ${MAX_IMPORTED_TEMPLATES} templates or less`,
+        },
+      ],
+    };
+  }
+
+  const reader = new TemplateReader();
+  const templates = items.map((item, index) =>
+    reader.template(item, Array.isArray(value) ? String(index) : '')
+  );
+  if (reader.errors.length > 0) return { errors: reader.errors };
+  return { templates: templates as DorDodTemplateContent[] };
+};
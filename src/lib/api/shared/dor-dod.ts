@@ -0,0 +1,539 @@
+/**
+ * DoR/DoD State
+ *
+ * Pure functions behind the saved Definition of Ready and Definition of
+ * Done of goals and tasks: which permissions a save needs, how a save is
+ * merged into the stored state and how the audit log is queried. The route
+ * handlers and the mock transport both save through these functions.
+ *
+ * The audit log is append-only. A save adds the entries the server does not
+ * have yet and ignores the rest, so entries can never be edited or removed
+ * by a client. New entries, approvals and approval comments are recorded
+ * for the user who saved them, whatever the client sent, and new entries
+ * are timestamped by the server. A save can only log the actions it can
+ * cause: criteria edits, and an approval step when it moves the workflow
+ * to that step.
+ *
+ * Open required criteria also gate status changes: a goal or task cannot
+ * start while its Definition of Ready is unmet, or finish while its
+ * Definition of Done is. Conditional criteria only count while their
+ * condition holds for the goal or task. Goal owners may override a gate with a reason,
+ * which is kept in the audit log of the goal or task.
+ *
+ * @fileoverview Shared DoR/DoD persistence logic
+ * @version 1.0.0
+ */
+
+import type { ConditionContext } from '@/components/DorDodPanel/DorDodPanel.conditions';
+import type {
+  ApprovalStatus,
+  AuditAction,
+  Criterion,
+  DorDodState,
+} from '@/components/DorDodPanel/DorDodPanel.types';
+import { validateCriteria } from '@/components/DorDodPanel/DorDodPanel.utils';
+import type {
+  DorDodAuditEntry,
+  DorDodDefinition,
+  DorDodGate,
+  StoredDorDodState,
+  DorDodTarget,
+  DorDodTargetType,
+} from '@/types/dor-dod.types';
+import { GoalRole, GoalStatus, TaskStatus } from '@/types/smart-goals.types';
+
+import type {
+  DorDodAuditQuery,
+  DorDodGateError,
+  DorDodOverride,
+  DorDodStateQuery,
+  SaveDorDodStateRequest,
+} from '../dor-dod';
+
+import {
+  getGoalRole,
+  type GoalAccessSubject,
+  type GoalPermission,
+} from './goal-access';
+import { createEntityId } from './tasks';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DOR_DOD_TARGET_TYPES = [
+  'goal',
+  'task',
+] as const satisfies readonly DorDodTargetType[];
+
+export const AUDIT_ACTIONS = [
+  'criterion-added',
+  'criterion-updated',
+  'criterion-deleted',
+  'criterion-completed',
+  'criterion-uncompleted',
+  'template-applied',
+  'validation-failed',
+  'approval-requested',
+  'approval-granted',
+  'approval-rejected',
+  'transition-overridden',
+] as const satisfies readonly AuditAction[];
+
+export const APPROVAL_STATUSES = [
+  'none',
+  'requested',
+  'approved',
+  'rejected',
+] as const satisfies readonly ApprovalStatus[];
+
+/** Audit actions any save may log, as it replaces the criteria */
+const CRITERIA_AUDIT_ACTIONS: ReadonlySet<AuditAction> = new Set([
+  'criterion-added',
+  'criterion-updated',
+  'criterion-deleted',
+  'criterion-completed',
+  'criterion-uncompleted',
+  'template-applied',
+]);
+
+/** Approval status a save must move the workflow to, to log each action */
+const APPROVAL_AUDIT_ACTIONS: Partial<Record<AuditAction, ApprovalStatus>> = {
+  'approval-requested': 'requested',
+  'approval-granted': 'approved',
+  'approval-rejected': 'rejected',
+};
+
+/** Audit entries returned when a query sets no limit */
+export const DEFAULT_AUDIT_LIMIT = 100;
+
+/** Which definition must be met to move a goal or task into a status */
+export const DOR_DOD_GATED_STATUSES: Record<
+  DorDodTargetType,
+  Partial<Record<string, DorDodDefinition>>
+> = {
+  goal: {
+    [GoalStatus.ACTIVE]: 'dor',
+    [GoalStatus.COMPLETED]: 'dod',
+  },
+  task: {
+    [TaskStatus.IN_PROGRESS]: 'dor',
+    [TaskStatus.COMPLETED]: 'dod',
+  },
+};
+
+export const DOR_DOD_DEFINITION_LABELS: Record<DorDodDefinition, string> = {
+  dor: 'Definition of Ready',
+  dod: 'Definition of Done',
+};
+
+/** Error code of status changes blocked by unmet DoR/DoD criteria */
+export const DOR_DOD_UNMET = 'DOR_DOD_UNMET';
+
+/** Longest reason accepted for overriding a gate */
+export const MAX_OVERRIDE_REASON_LENGTH = 1000;
+
+// =============================================================================
+// State
+// =============================================================================
+
+/** Storage key of the state of a goal or task */
+export const getDorDodKey = (target: DorDodTarget): string =>
+  `${target.type}:${target.id}`;
+
+/** State of a goal or task that never had criteria saved */
+export const createDefaultDorDodState = (
+  target: DorDodTarget,
+  goalId: string
+): StoredDorDodState => ({
+  targetType: target.type,
+  targetId: target.id,
+  goalId,
+  dorCriteria: [],
+  dodCriteria: [],
+  timeTracking: {},
+  approvalWorkflow: { comments: [], status: 'none' },
+  auditLog: [],
+  updatedAt: new Date(0),
+});
+
+/** The parts of the panel state that are saved */
+export const toSaveDorDodStateRequest = (
+  state: Pick<DorDodState, keyof SaveDorDodStateRequest>
+): SaveDorDodStateRequest => ({
+  dorCriteria: state.dorCriteria,
+  dodCriteria: state.dodCriteria,
+  currentTemplate: state.currentTemplate,
+  timeTracking: state.timeTracking,
+  approvalWorkflow: state.approvalWorkflow,
+  auditLog: state.auditLog,
+});
+
+// =============================================================================
+// Permissions
+// =============================================================================
+
+const criteriaKey = (criteria: Criterion[]) =>
+  JSON.stringify(
+    criteria.map(criterion => [
+      criterion.id,
+      criterion.description,
+      criterion.category,
+      criterion.helpText ?? null,
+      criterion.isCompleted,
+      criterion.validationRule ?? null,
+      criterion.order,
+    ])
+  );
+
+/** Whether a save changes the criteria or the applied template */
+export const changesDorDodCriteria = (
+  existing: StoredDorDodState,
+  request: SaveDorDodStateRequest
+): boolean =>
+  criteriaKey(existing.dorCriteria) !== criteriaKey(request.dorCriteria) ||
+  criteriaKey(existing.dodCriteria) !== criteriaKey(request.dodCriteria) ||
+  existing.currentTemplate?.id !== request.currentTemplate?.id;
+
+/**
+ * The permissions needed to save a DoR/DoD state: `edit_goal` for goal
+ * criteria or `manage_tasks` for task criteria, and `approve_criteria` to
+ * approve or reject them. Reviewers can therefore decide on an approval
+ * without being allowed to change the criteria.
+ */
+export const getDorDodUpdatePermissions = (
+  existing: StoredDorDodState,
+  request: SaveDorDodStateRequest
+): GoalPermission[] => {
+  const editPermission: GoalPermission =
+    existing.targetType === 'goal' ? 'edit_goal' : 'manage_tasks';
+  const permissions = new Set<GoalPermission>();
+  const status = request.approvalWorkflow.status;
+
+  if (changesDorDodCriteria(existing, request)) {
+    permissions.add(editPermission);
+  }
+  if (status !== existing.approvalWorkflow.status) {
+    permissions.add(
+      status === 'approved' || status === 'rejected'
+        ? 'approve_criteria'
+        : editPermission
+    );
+  }
+  if (permissions.size === 0) {
+    permissions.add(editPermission);
+  }
+  return [...permissions];
+};
+
+/** Why the approval status cannot change this way, or `null` when it can */
+export const getDorDodApprovalError = (
+  existing: StoredDorDodState,
+  request: SaveDorDodStateRequest
+): string | null => {
+  const from = existing.approvalWorkflow.status;
+  const to = request.approvalWorkflow.status;
+  if (from === to || (to !== 'approved' && to !== 'rejected')) {
+    return null;
+  }
+  return from === 'requested'
+    ? null
+    : 'Criteria can only be approved or rejected after approval was requested';
+};
+
+// =============================================================================
+// Saving
+// =============================================================================
+
+const byTimestampDesc = (
+  a: { timestamp: Date },
+  b: { timestamp: Date }
+): number => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+/**
+ * Merge a save into the stored state. Audit entries and approval comments
+ * are only added; entries and approvals are recorded for `userId` at `now`.
+ */
+export const applyDorDodUpdate = (
+  existing: StoredDorDodState,
+  request: SaveDorDodStateRequest,
+  userId: string,
+  now: Date = new Date()
+): StoredDorDodState => {
+  const previous = existing.approvalWorkflow;
+  const workflow = request.approvalWorkflow;
+  const knownComments = new Set(previous.comments.map(comment => comment.id));
+  const statusChanged = workflow.status !== previous.status;
+
+  // Overrides are only recorded by the status change they allowed
+  const canLog = (action: AuditAction) =>
+    CRITERIA_AUDIT_ACTIONS.has(action) ||
+    (statusChanged && APPROVAL_AUDIT_ACTIONS[action] === workflow.status);
+  const knownEntries = new Set(existing.auditLog.map(entry => entry.id));
+  const addedEntries = request.auditLog
+    .filter(entry => !knownEntries.has(entry.id) && canLog(entry.action))
+    .map(entry => ({ ...entry, userId, timestamp: now }));
+
+  return {
+    ...existing,
+    dorCriteria: request.dorCriteria,
+    dodCriteria: request.dodCriteria,
+    currentTemplate: request.currentTemplate,
+    timeTracking: request.timeTracking,
+    approvalWorkflow: {
+      ...workflow,
+      approvedBy:
+        statusChanged && workflow.status === 'approved'
+          ? userId
+          : previous.approvedBy,
+      approvedAt:
+        statusChanged && workflow.status === 'approved'
+          ? now
+          : previous.approvedAt,
+      rejectedBy:
+        statusChanged && workflow.status === 'rejected'
+          ? userId
+          : previous.rejectedBy,
+      rejectedAt:
+        statusChanged && workflow.status === 'rejected'
+          ? now
+          : previous.rejectedAt,
+      comments: [
+        ...previous.comments,
+        ...workflow.comments
+          .filter(comment => !knownComments.has(comment.id))
+          .map(comment => ({ ...comment, author: userId })),
+      ],
+    },
+    auditLog: [...addedEntries, ...existing.auditLog].sort(byTimestampDesc),
+    updatedAt: now,
+    updatedBy: userId,
+  };
+};
+
+// =============================================================================
+// Transition Gates
+// =============================================================================
+
+/**
+ * Criteria that keep a definition from being met: open required criteria
+ * whose condition holds, and criteria that fail their validation rule.
+ * `related` criteria are validated along, so conditions and dependencies
+ * may refer to the other definition.
+ */
+export const getBlockingCriteria = (
+  criteria: Criterion[],
+  context: ConditionContext = {},
+  related: Criterion[] = []
+): Criterion[] => {
+  const validation = validateCriteria([...criteria, ...related], context);
+  const invalid = new Set(validation.blockingCriteria);
+  const inactive = new Set(validation.inactiveCriteria);
+  return [...criteria]
+    .sort((a, b) => a.order - b.order)
+    .filter(
+      criterion =>
+        (criterion.category === 'required' &&
+          !criterion.isCompleted &&
+          !inactive.has(criterion.id)) ||
+        invalid.has(criterion.id)
+    );
+};
+
+/**
+ * The gate a status change runs into, or `null` when the change is allowed.
+ * Only changes into a gated status are checked, so a goal or task that is
+ * already active can still be paused, blocked or reopened. Conditions are
+ * evaluated against the goal and task in `context`.
+ */
+export const getDorDodGate = (
+  state: Pick<StoredDorDodState, 'targetType' | 'dorCriteria' | 'dodCriteria'>,
+  fromStatus: string,
+  toStatus: string,
+  context: ConditionContext = {}
+): DorDodGate | null => {
+  const definition = DOR_DOD_GATED_STATUSES[state.targetType][toStatus];
+  if (!definition || fromStatus === toStatus) return null;
+
+  const blockingCriteria =
+    definition === 'dor'
+      ? getBlockingCriteria(state.dorCriteria, context, state.dodCriteria)
+      : getBlockingCriteria(state.dodCriteria, context, state.dorCriteria);
+  if (blockingCriteria.length === 0) return null;
+
+  const count = blockingCriteria.length;
+  return {
+    definition,
+    fromStatus,
+    toStatus,
+    blockingCriteria,
+    message: `The ${DOR_DOD_DEFINITION_LABELS[definition]} of this ${
+      state.targetType
+    } is not met: ${count} ${count === 1 ? 'criterion is' : 'criteria are'} open`,
+  };
+};
+
+/** Field-level details naming the blocking criteria of a gate */
+export const toDorDodGateDetails = (
+  gate: DorDodGate
+): Array<{ path: string; message: string }> =>
+  gate.blockingCriteria.map(criterion => ({
+    path: `${gate.definition}Criteria.${criterion.id}`,
+    message: criterion.description,
+  }));
+
+/** A gate in the shape clients read from a blocked status change */
+export const toDorDodGateError = (gate: DorDodGate): DorDodGateError => ({
+  message: gate.message,
+  blockingCriteria: gate.blockingCriteria.map(criterion => ({
+    definition: gate.definition,
+    id: criterion.id,
+    description: criterion.description,
+  })),
+});
+
+/** Whether a user may override DoR/DoD gates on a goal */
+export const canOverrideDorDod = (
+  goal: GoalAccessSubject,
+  userId: string | null
+): boolean => getGoalRole(goal, userId) === GoalRole.OWNER;
+
+/** Why an override is invalid, or `null` when it is valid */
+export const getDorDodOverrideError = (override: unknown): string | null => {
+  const reason = (override as DorDodOverride | null)?.reason;
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return 'Give a reason for overriding the open criteria';
+  }
+  return reason.length > MAX_OVERRIDE_REASON_LENGTH
+    ? `Override reasons must be ${MAX_OVERRIDE_REASON_LENGTH} characters or less`
+    : null;
+};
+
+/** Record an overridden gate in the audit log of the goal or task */
+export const recordDorDodOverride = (
+  state: StoredDorDodState,
+  gate: DorDodGate,
+  override: DorDodOverride,
+  userId: string,
+  now: Date = new Date()
+): StoredDorDodState => ({
+  ...state,
+  auditLog: [
+    {
+      id: createEntityId('audit'),
+      timestamp: now,
+      action: 'transition-overridden' as const,
+      userId,
+      oldValue: gate.fromStatus,
+      newValue: gate.toStatus,
+      metadata: {
+        definition: gate.definition,
+        reason: override.reason.trim(),
+        blockingCriteria: gate.blockingCriteria.map(criterion => criterion.id),
+      },
+    },
+    ...state.auditLog,
+  ],
+  updatedAt: now,
+  updatedBy: userId,
+});
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+const splitList = (value: string | null | undefined): string[] =>
+  value
+    ? value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean)
+    : [];
+
+const parseDate = (value: string | null): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/** Read an audit query from URL search params; unknown values are dropped */
+export const parseDorDodAuditQuery = (
+  query: URLSearchParams | Record<string, string>
+): DorDodAuditQuery => {
+  const get = (key: string): string | null =>
+    query instanceof URLSearchParams ? query.get(key) : (query[key] ?? null);
+
+  const parsed: DorDodAuditQuery = {};
+
+  const goalId = get('goalId');
+  if (goalId) parsed.goalId = goalId;
+
+  const targetType = get('targetType');
+  if (DOR_DOD_TARGET_TYPES.includes(targetType as DorDodTargetType)) {
+    parsed.targetType = targetType as DorDodTargetType;
+  }
+
+  const targetId = get('targetId');
+  if (targetId) parsed.targetId = targetId;
+
+  const action = splitList(get('action')).filter(item =>
+    AUDIT_ACTIONS.includes(item as AuditAction)
+  );
+  if (action.length) parsed.action = action as AuditAction[];
+
+  const userId = get('userId');
+  if (userId) parsed.userId = userId;
+
+  const since = parseDate(get('since'));
+  if (since) parsed.since = since;
+
+  const until = parseDate(get('until'));
+  if (until) parsed.until = until;
+
+  const limit = Number(get('limit'));
+  if (Number.isInteger(limit) && limit > 0) parsed.limit = limit;
+
+  return parsed;
+};
+
+/** Saved states matching a goal and target type filter */
+export const filterDorDodStates = (
+  records: StoredDorDodState[],
+  query: DorDodStateQuery
+): StoredDorDodState[] =>
+  records.filter(
+    record =>
+      (!query.goalId || record.goalId === query.goalId) &&
+      (!query.targetType || record.targetType === query.targetType)
+  );
+
+/** Audit entries of the given states matching a query, newest first */
+export const queryDorDodAudit = (
+  records: StoredDorDodState[],
+  query: DorDodAuditQuery
+): DorDodAuditEntry[] => {
+  const since = query.since ? new Date(query.since).getTime() : -Infinity;
+  const until = query.until ? new Date(query.until).getTime() : Infinity;
+
+  return filterDorDodStates(records, query)
+    .filter(record => !query.targetId || record.targetId === query.targetId)
+    .flatMap(record =>
+      record.auditLog.map(entry => ({
+        ...entry,
+        targetType: record.targetType,
+        targetId: record.targetId,
+        goalId: record.goalId,
+      }))
+    )
+    .filter(entry => {
+      const time = new Date(entry.timestamp).getTime();
+      return (
+        (!query.action?.length || query.action.includes(entry.action)) &&
+        (!query.userId || entry.userId === query.userId) &&
+        time >= since &&
+        time <= until
+      );
+    })
+    .sort(byTimestampDesc)
+    .slice(0, query.limit ?? DEFAULT_AUDIT_LIMIT);
+};
@@ -0,0 +1,262 @@
+/**
+ * Flow Metrics
+ *
+ * Kanban flow measures of a goal, built from the status history the task
+ * backends record on every status change: lead time (created to done),
+ * cycle time (started to done), weekly throughput and the cumulative flow
+ * of tasks through the board columns. Tasks created before the history
+ * was recorded get one reconstructed from their timestamps.
+ *
+ * @fileoverview Shared flow metric calculations for the goal board
+ * @version 1.0.0
+ */
+
+import {
+  TaskStatus,
+  type Task,
+  type TaskStatusChange,
+} from '@/types/smart-goals.types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FlowMetricsOptions {
+  /** Weeks of throughput to report (default 8) */
+  weeks?: number;
+  /** Days of cumulative flow to report (default 30) */
+  days?: number;
+  now?: Date;
+}
+
+/** Tasks completed in a seven-day window */
+export interface ThroughputPoint {
+  weekStart: Date;
+  completed: number;
+}
+
+/** Number of tasks in each status at the end of a day */
+export interface CumulativeFlowPoint {
+  date: Date;
+  counts: Record<TaskStatus, number>;
+}
+
+/** Average and median of a duration, in days */
+export interface DurationSummary {
+  average: number | null;
+  median: number | null;
+  /** Number of tasks the summary is based on */
+  count: number;
+}
+
+export interface FlowMetrics {
+  leadTime: DurationSummary;
+  cycleTime: DurationSummary;
+  throughput: ThroughputPoint[];
+  /** Average tasks completed per week over the throughput window */
+  averageThroughput: number;
+  cumulativeFlow: CumulativeFlowPoint[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Columns of the cumulative flow diagram, finished work at the bottom */
+export const CUMULATIVE_FLOW_STATUSES: TaskStatus[] = [
+  TaskStatus.COMPLETED,
+  TaskStatus.CANCELLED,
+  TaskStatus.BLOCKED,
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.TODO,
+];
+
+// =============================================================================
+// Status History
+// =============================================================================
+
+const time = (date: Date | string): number => new Date(date).getTime();
+
+/**
+ * Status changes of a task, oldest first. Tasks without a recorded history
+ * start in TODO when created, move to IN_PROGRESS on their start date and
+ * reach their current status when completed or last updated.
+ */
+export const getTaskStatusHistory = (task: Task): TaskStatusChange[] => {
+  if (task.statusHistory && task.statusHistory.length > 0) {
+    return [...task.statusHistory].sort((a, b) => time(a.at) - time(b.at));
+  }
+
+  const history: TaskStatusChange[] = [
+    { to: TaskStatus.TODO, at: new Date(task.createdAt) },
+  ];
+  if (task.status === TaskStatus.TODO) return history;
+
+  const reachedAt = new Date(
+    task.status === TaskStatus.COMPLETED && task.completedAt
+      ? task.completedAt
+      : task.updatedAt
+  );
+  if (
+    task.startDate &&
+    task.status !== TaskStatus.IN_PROGRESS &&
+    time(task.startDate) > time(task.createdAt) &&
+    time(task.startDate) < time(reachedAt)
+  ) {
+    history.push({
+      from: TaskStatus.TODO,
+      to: TaskStatus.IN_PROGRESS,
+      at: new Date(task.startDate),
+    });
+  }
+  history.push({
+    from: history[history.length - 1].to,
+    to: task.status,
+    at: reachedAt,
+  });
+  return history;
+};
+
+/** Status of a task at a point in time, or `null` before it existed */
+export const getStatusAt = (
+  history: TaskStatusChange[],
+  at: Date
+): TaskStatus | null => {
+  let status: TaskStatus | null = null;
+  for (const change of history) {
+    if (time(change.at) > time(at)) break;
+    status = change.to;
+  }
+  return status;
+};
+
+/** When a completed task was last completed, or `null` if it is not done */
+const getCompletionTime = (history: TaskStatusChange[]): number | null => {
+  const last = history[history.length - 1];
+  return last?.to === TaskStatus.COMPLETED ? time(last.at) : null;
+};
+
+/** Milliseconds from creation to completion, for completed tasks */
+export const getLeadTime = (task: Task): number | null => {
+  const history = getTaskStatusHistory(task);
+  const completed = getCompletionTime(history);
+  return completed === null ? null : completed - time(history[0].at);
+};
+
+/** Milliseconds from first starting work to completion, for completed tasks */
+export const getCycleTime = (task: Task): number | null => {
+  const history = getTaskStatusHistory(task);
+  const completed = getCompletionTime(history);
+  const started = history.find(change => change.to === TaskStatus.IN_PROGRESS);
+  return completed === null || !started ? null : completed - time(started.at);
+};
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+const summarize = (durations: number[]): DurationSummary => {
+  if (durations.length === 0) {
+    return { average: null, median: null, count: 0 };
+  }
+
+  const days = durations
+    .map(duration => duration / DAY_MS)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(days.length / 2);
+  return {
+    average: days.reduce((sum, value) => sum + value, 0) / days.length,
+    median:
+      days.length % 2 === 0
+        ? (days[middle - 1] + days[middle]) / 2
+        : days[middle],
+    count: days.length,
+  };
+};
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/** Completed tasks per seven-day window, the last window ending now */
+export const computeThroughput = (
+  tasks: Task[],
+  weeks = 8,
+  now: Date = new Date()
+): ThroughputPoint[] => {
+  const completions = tasks
+    .map(task => getCompletionTime(getTaskStatusHistory(task)))
+    .filter((completed): completed is number => completed !== null);
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const end = now.getTime() - (weeks - 1 - index) * 7 * DAY_MS;
+    const start = end - 7 * DAY_MS;
+    return {
+      weekStart: new Date(start),
+      completed: completions.filter(
+        completed => completed > start && completed <= end
+      ).length,
+    };
+  });
+};
+
+/** Tasks in each status at the end of each of the last `days` days */
+export const computeCumulativeFlow = (
+  tasks: Task[],
+  days = 30,
+  now: Date = new Date()
+): CumulativeFlowPoint[] => {
+  const histories = tasks.map(getTaskStatusHistory);
+  const today = startOfDay(now);
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() - (days - 1 - index));
+    const endOfDay = new Date(date);
+    endOfDay.setDate(date.getDate() + 1);
+    const at = new Date(Math.min(endOfDay.getTime() - 1, now.getTime()));
+
+    const counts = Object.fromEntries(
+      Object.values(TaskStatus).map(status => [status, 0])
+    ) as Record<TaskStatus, number>;
+    histories.forEach(history => {
+      const status = getStatusAt(history, at);
+      if (status) counts[status] += 1;
+    });
+    return { date, counts };
+  });
+};
+
+/** Lead time, cycle time, throughput and cumulative flow of a goal's tasks */
+export const computeFlowMetrics = (
+  tasks: Task[],
+  options: FlowMetricsOptions = {}
+): FlowMetrics => {
+  const { weeks = 8, days = 30, now = new Date() } = options;
+  const throughput = computeThroughput(tasks, weeks, now);
+
+  return {
+    leadTime: summarize(
+      tasks.map(getLeadTime).filter((lead): lead is number => lead !== null)
+    ),
+    cycleTime: summarize(
+      tasks.map(getCycleTime).filter((cycle): cycle is number => cycle !== null)
+    ),
+    throughput,
+    averageThroughput:
+      throughput.reduce((sum, point) => sum + point.completed, 0) /
+      Math.max(weeks, 1),
+    cumulativeFlow: computeCumulativeFlow(tasks, days, now),
+  };
+};
+
+/** A duration in days for display, e.g. "3.5 days" */
+export const formatDays = (days: number | null): string => {
+  if (days === null) return '\u2014';
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} ${rounded === 1 ? 'day' : 'days'}`;
+};
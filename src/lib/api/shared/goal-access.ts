@@ -0,0 +1,195 @@
+/**
+ * Goal Access Policy
+ *
+ * Who may see and change a goal. Every user has at most one role on a goal:
+ * - `owner`: the user in `ownerId`
+ * - `editor`, `reviewer`, `viewer`: users listed in `members`
+ * - `editor`: collaborators without a `members` entry
+ *
+ * Roles grant the permissions in `GOAL_ROLE_PERMISSIONS`. Private goals only
+ * honour the owner role. Visibility can additionally grant `view` to users
+ * without a role:
+ * - `organization`: any signed-in user
+ * - `public`: anyone, including anonymous callers
+ *
+ * @fileoverview Pure goal authorization rules shared by the API routes and UI
+ * @version 1.0.0
+ */
+
+import { GoalRole, type SmartGoal } from '@/types/smart-goals.types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type GoalPermission =
+  | 'view'
+  | 'edit_goal'
+  | 'manage_tasks'
+  | 'record_checkpoints'
+  | 'approve_criteria'
+  | 'archive'
+  | 'manage_members';
+
+/** The goal fields that decide access, used by the checks below */
+export type GoalAccessSubject = Pick<
+  SmartGoal,
+  'ownerId' | 'collaborators' | 'visibility' | 'members'
+>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const GOAL_PERMISSIONS: readonly GoalPermission[] = [
+  'view',
+  'edit_goal',
+  'manage_tasks',
+  'record_checkpoints',
+  'approve_criteria',
+  'archive',
+  'manage_members',
+];
+
+/** The permission matrix: what each role may do */
+export const GOAL_ROLE_PERMISSIONS: Record<
+  GoalRole,
+  readonly GoalPermission[]
+> = {
+  [GoalRole.OWNER]: GOAL_PERMISSIONS,
+  [GoalRole.EDITOR]: [
+    'view',
+    'edit_goal',
+    'manage_tasks',
+    'record_checkpoints',
+  ],
+  [GoalRole.REVIEWER]: ['view', 'approve_criteria'],
+  [GoalRole.VIEWER]: ['view'],
+};
+
+/** Fields that need `manage_members` to change */
+export const ACCESS_CONTROL_FIELDS = [
+  'ownerId',
+  'collaborators',
+  'members',
+  'visibility',
+] as const;
+
+// =============================================================================
+// Roles
+// =============================================================================
+
+/** The user's role on the goal, or null when they have none */
+export const getGoalRole = (
+  goal: GoalAccessSubject,
+  userId: string | null
+): GoalRole | null => {
+  if (userId === null) return null;
+  if (goal.ownerId === userId) return GoalRole.OWNER;
+  if (goal.visibility === 'private') return null;
+
+  const member = goal.members?.find(entry => entry.userId === userId);
+  if (member) return member.role;
+
+  return (goal.collaborators ?? []).includes(userId) ? GoalRole.EDITOR : null;
+};
+
+/** Whether the user has any role on the goal */
+export const isGoalMember = (
+  goal: GoalAccessSubject,
+  userId: string | null
+): boolean => getGoalRole(goal, userId) !== null;
+
+// =============================================================================
+// Access Checks
+// =============================================================================
+
+/**
+ * Whether a user has a permission on a goal. `userId` is null for anonymous
+ * callers.
+ */
+export const canAccessGoal = (
+  goal: GoalAccessSubject,
+  userId: string | null,
+  permission: GoalPermission
+): boolean => {
+  const role = getGoalRole(goal, userId);
+  if (role && GOAL_ROLE_PERMISSIONS[role].includes(permission)) return true;
+
+  if (permission !== 'view') return false;
+  if (goal.visibility === 'public') return true;
+  return goal.visibility === 'organization' && userId !== null;
+};
+
+/** Every permission the user has on a goal */
+export const getGoalPermissions = (
+  goal: GoalAccessSubject,
+  userId: string | null
+): Record<GoalPermission, boolean> =>
+  Object.fromEntries(
+    GOAL_PERMISSIONS.map(permission => [
+      permission,
+      canAccessGoal(goal, userId, permission),
+    ])
+  ) as Record<GoalPermission, boolean>;
+
+/** Keep only the goals the user may view */
+export const filterVisibleGoals = <T extends GoalAccessSubject>(
+  goals: T[],
+  userId: string | null
+): T[] => goals.filter(goal => canAccessGoal(goal, userId, 'view'));
+
+// =============================================================================
+// Updates
+// =============================================================================
+
+const sameUserIds = (a: string[] = [], b: string[] = []) =>
+  [...a].sort().join('\n') === [...b].sort().join('\n');
+
+const memberKeys = (members: SmartGoal['members'] = []) =>
+  members.map(member => `${member.userId}:${member.role}`);
+
+/**
+ * Whether an update changes the owner, collaborators, members or visibility
+ * of a goal, which requires the `manage_members` permission.
+ */
+export const changesAccessControl = (
+  goal: GoalAccessSubject,
+  updates: Partial<GoalAccessSubject>
+): boolean =>
+  ACCESS_CONTROL_FIELDS.some(field => {
+    const value = updates[field];
+    if (value === undefined) return false;
+    if (field === 'collaborators') {
+      return !sameUserIds(value as string[], goal.collaborators);
+    }
+    if (field === 'members') {
+      return !sameUserIds(
+        memberKeys(value as SmartGoal['members']),
+        memberKeys(goal.members)
+      );
+    }
+    return value !== goal[field];
+  });
+
+/**
+ * The permissions needed to apply an update to a goal: `edit_goal` always,
+ * plus `manage_members` for access control changes and `archive` for
+ * archiving or unarchiving.
+ */
+export const getUpdatePermissions = (
+  goal: GoalAccessSubject & Pick<SmartGoal, 'isArchived'>,
+  updates: Partial<SmartGoal>
+): GoalPermission[] => {
+  const permissions: GoalPermission[] = ['edit_goal'];
+  if (changesAccessControl(goal, updates)) {
+    permissions.push('manage_members');
+  }
+  if (
+    updates.isArchived !== undefined &&
+    updates.isArchived !== goal.isArchived
+  ) {
+    permissions.push('archive');
+  }
+  return permissions;
+};
@@ -0,0 +1,546 @@
+/**
+ * Goal Export
+ *
+ * Pure functions that turn a goal into a downloadable PDF, Markdown, JSON
+ * or CSV document. Shared by the export route, the mock transport and the
+ * goal wizard so every entry point produces the same files.
+ *
+ * Every format is rendered from one section model, so the options that
+ * hide the score, suggestions, timeline or resources apply to all of them.
+ *
+ * @fileoverview Shared goal export for the API backends and the UI
+ * @version 1.0.0
+ */
+
+import { calculateSmartScore } from '@/components/SmartScoreBadge/SmartScoreBadge.utils';
+import {
+  TaskStatus,
+  type SmartGoal,
+  type SmartGoalCreate,
+} from '@/types/smart-goals.types';
+
+import { renderTextPdf, type PdfBlock } from './pdf';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const GOAL_EXPORT_FORMATS = ['pdf', 'json', 'markdown', 'csv'] as const;
+
+export type GoalExportFormat = (typeof GOAL_EXPORT_FORMATS)[number];
+
+/** Matches the wizard's `ExportOptions`; the include flags default to true */
+export interface GoalExportOptions {
+  format: GoalExportFormat;
+  includeScore?: boolean;
+  includeSuggestions?: boolean;
+  includeTimeline?: boolean;
+  includeResources?: boolean;
+  template?: string;
+}
+
+/** A Definition of Ready or Done criterion */
+export interface GoalExportCriterion {
+  description: string;
+  category: string;
+  isCompleted: boolean;
+}
+
+export interface GoalExportCriteria {
+  definitionOfReady: GoalExportCriterion[];
+  definitionOfDone: GoalExportCriterion[];
+}
+
+/** Saved goals and wizard previews, which have no ID yet, can be exported */
+export type ExportableGoal = SmartGoalCreate &
+  Partial<Pick<SmartGoal, 'id' | 'createdAt' | 'updatedAt'>>;
+
+export interface GoalExportInput {
+  goal: ExportableGoal;
+  criteria?: GoalExportCriteria;
+  generatedAt?: Date;
+}
+
+export interface GoalExportFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+interface ExportTable {
+  columns: string[];
+  rows: string[][];
+}
+
+interface ExportSection {
+  title: string;
+  fields: Array<[string, string]>;
+  items?: string[];
+  table?: ExportTable;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const GOAL_EXPORT_MIME_TYPES: Record<GoalExportFormat, string> = {
+  pdf: 'application/pdf',
+  json: 'application/json',
+  markdown: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+const FILE_EXTENSIONS: Record<GoalExportFormat, string> = {
+  pdf: 'pdf',
+  json: 'json',
+  markdown: 'md',
+  csv: 'csv',
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const formatDate = (date?: Date | string): string =>
+  date ? new Date(date).toISOString().slice(0, 10) : '';
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const resolveOptions = (options: GoalExportOptions) => ({
+  includeScore: options.includeScore ?? true,
+  includeSuggestions: options.includeSuggestions ?? true,
+  includeTimeline: options.includeTimeline ?? true,
+  includeResources: options.includeResources ?? true,
+});
+
+/** Lower-case, dash-separated file name from the goal title */
+export const getGoalExportFilename = (
+  goal: Pick<ExportableGoal, 'title' | 'id'>,
+  format: GoalExportFormat
+): string => {
+  const slug = goal.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  return `${slug || goal.id || 'goal'}.${FILE_EXTENSIONS[format]}`;
+};
+
+// =============================================================================
+// Section Model
+// =============================================================================
+
+const buildSections = (
+  { goal, criteria }: GoalExportInput,
+  options: GoalExportOptions
+): ExportSection[] => {
+  const include = resolveOptions(options);
+  const { measurable, achievability, relevance, timebound } = goal;
+  const sections: ExportSection[] = [];
+
+  sections.push({
+    title: 'Overview',
+    fields: [
+      ['Title', goal.title],
+      ['Description', goal.description],
+      ['Status', goal.status],
+      ['Priority', goal.priority],
+      ['Category', goal.category],
+      ['Progress', `${Math.round(goal.progress)}%`],
+      ['Tags', goal.tags.join(', ')],
+    ],
+  });
+
+  sections.push({
+    title: 'Specific',
+    fields: [['Objective', goal.specificObjective]],
+    items: goal.successCriteria,
+  });
+
+  sections.push({
+    title: 'Measurable',
+    fields: [
+      ['Metric type', measurable.metricType],
+      ['Target', `${measurable.targetValue} ${measurable.unit}`.trim()],
+      ['Current', `${measurable.currentValue} ${measurable.unit}`.trim()],
+      ['Measurement frequency', measurable.measurementFrequency],
+      ['Higher is better', measurable.higherIsBetter ? 'Yes' : 'No'],
+    ],
+  });
+
+  sections.push({
+    title: 'Achievable',
+    fields: [
+      ['Achievability score', percent(achievability.score)],
+      ['Success probability', percent(achievability.successProbability)],
+      ['Risk assessment', achievability.riskAssessment],
+    ],
+  });
+
+  if (include.includeResources) {
+    sections.push({
+      title: 'Resources',
+      fields: [],
+      table: {
+        columns: ['Resource', 'Type', 'Quantity', 'Available'],
+        rows: achievability.requiredResources.map(resource => [
+          resource.name,
+          resource.type,
+          `${resource.quantity} ${resource.unit}`.trim(),
+          resource.isAvailable ? 'Yes' : 'No',
+        ]),
+      },
+    });
+    sections.push({
+      title: 'Skills',
+      fields: [],
+      table: {
+        columns: ['Skill', 'Required level', 'Current level', 'Critical'],
+        rows: achievability.requiredSkills.map(skill => [
+          skill.name,
+          skill.requiredLevel.toString(),
+          skill.currentLevel.toString(),
+          skill.isCritical ? 'Yes' : 'No',
+        ]),
+      },
+    });
+    sections.push({
+      title: 'Constraints',
+      fields: [],
+      table: {
+        columns: ['Constraint', 'Type', 'Impact', 'Probability'],
+        rows: achievability.constraints.map(constraint => [
+          constraint.description,
+          constraint.type,
+          percent(constraint.impactLevel),
+          percent(constraint.probability),
+        ]),
+      },
+    });
+  }
+
+  sections.push({
+    title: 'Relevant',
+    fields: [
+      ['Rationale', relevance.rationale],
+      ['Stakeholders', relevance.stakeholders.map(s => s.name).join(', ')],
+    ],
+    items: relevance.expectedBenefits,
+  });
+
+  sections.push({
+    title: 'Time-bound',
+    fields: [
+      ['Start date', formatDate(timebound.startDate)],
+      ['Target date', formatDate(timebound.targetDate)],
+      ['Deadline', formatDate(timebound.deadline)],
+      ['Estimated duration', `${timebound.estimatedDuration} days`],
+      ['Recurring', timebound.isRecurring ? 'Yes' : 'No'],
+    ],
+  });
+
+  if (include.includeTimeline) {
+    sections.push({
+      title: 'Milestones',
+      fields: [],
+      table: {
+        columns: ['Milestone', 'Target date', 'Progress', 'Completed'],
+        rows: [...goal.milestones]
+          .sort((a, b) => a.order - b.order)
+          .map(milestone => [
+            milestone.title,
+            formatDate(milestone.targetDate),
+            `${milestone.progress}%`,
+            milestone.isCompleted ? 'Yes' : 'No',
+          ]),
+      },
+    });
+    sections.push({
+      title: 'Checkpoints',
+      fields: [],
+      table: {
+        columns: ['Date', 'Value', 'Note'],
+        rows: [...goal.checkpoints]
+          .sort(
+            (a, b) =>
+              new Date(a.recordedDate).getTime() -
+              new Date(b.recordedDate).getTime()
+          )
+          .map(checkpoint => [
+            formatDate(checkpoint.recordedDate),
+            checkpoint.value.toString(),
+            checkpoint.note ?? '',
+          ]),
+      },
+    });
+  }
+
+  sections.push({
+    title: 'Tasks',
+    fields: [],
+    table: {
+      columns: ['Task', 'Status', 'Priority', 'Due date', 'Subtasks done'],
+      rows: [...goal.tasks]
+        .sort((a, b) => a.order - b.order)
+        .map(task => [
+          task.title,
+          task.status,
+          task.priority,
+          formatDate(task.dueDate),
+          `${task.subtasks.filter(subtask => subtask.status === TaskStatus.COMPLETED).length}/${task.subtasks.length}`,
+        ]),
+    },
+  });
+
+  if (criteria) {
+    const toRows = (list: GoalExportCriterion[]) =>
+      list.map(criterion => [
+        criterion.description,
+        criterion.category,
+        criterion.isCompleted ? 'Yes' : 'No',
+      ]);
+
+    sections.push({
+      title: 'Definition of Ready',
+      fields: [],
+      table: {
+        columns: ['Criterion', 'Category', 'Met'],
+        rows: toRows(criteria.definitionOfReady),
+      },
+    });
+    sections.push({
+      title: 'Definition of Done',
+      fields: [],
+      table: {
+        columns: ['Criterion', 'Category', 'Met'],
+        rows: toRows(criteria.definitionOfDone),
+      },
+    });
+  }
+
+  if (include.includeScore || include.includeSuggestions) {
+    const score = calculateSmartScore(goal);
+    const { breakdown } = score;
+
+    if (include.includeScore) {
+      sections.push({
+        title: 'SMART Score',
+        fields: [
+          ['Total', `${breakdown.total}/100 (${score.category})`],
+          ['Specific', `${breakdown.specific}/20`],
+          ['Measurable', `${breakdown.measurable}/20`],
+          ['Achievable', `${breakdown.achievable}/20`],
+          ['Relevant', `${breakdown.relevant}/20`],
+          ['Time-bound', `${breakdown.timeBound}/20`],
+        ],
+      });
+    }
+
+    if (include.includeSuggestions) {
+      sections.push({
+        title: 'Suggestions',
+        fields: [],
+        items: score.suggestions,
+      });
+    }
+  }
+
+  return sections;
+};
+
+// =============================================================================
+// Renderers
+// =============================================================================
+
+const escapeMarkdownCell = (value: string): string =>
+  value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const toMarkdown = (sections: ExportSection[], generatedAt: Date): string => {
+  const [overview, ...rest] = sections;
+  const lines: string[] = [`# ${overview.fields[0][1]}`, ''];
+
+  overview.fields
+    .slice(1)
+    .filter(([, value]) => value)
+    .forEach(([label, value]) => lines.push(`**${label}:** ${value}  `));
+  lines.push('');
+
+  rest.forEach(section => {
+    lines.push(`## ${section.title}`, '');
+
+    section.fields
+      .filter(([, value]) => value)
+      .forEach(([label, value]) => lines.push(`**${label}:** ${value}  `));
+    if (section.fields.length) lines.push('');
+
+    if (section.items?.length) {
+      section.items.forEach(item => lines.push(`- ${item}`));
+      lines.push('');
+    }
+
+    if (section.table) {
+      const { columns, rows } = section.table;
+      if (rows.length) {
+        lines.push(`| ${columns.join(' | ')} |`);
+        lines.push(`| ${columns.map(() => '---').join(' | ')} |`);
+        rows.forEach(row =>
+          lines.push(`| ${row.map(escapeMarkdownCell).join(' | ')} |`)
+        );
+      } else {
+        lines.push(`_No ${section.title.toLowerCase()}_`);
+      }
+      lines.push('');
+    }
+  });
+
+  lines.push(`_Exported ${generatedAt.toISOString()}_`, '');
+  return lines.join('\n');
+};
+
+const toPdfBlocks = (sections: ExportSection[]): PdfBlock[] => {
+  const [overview, ...rest] = sections;
+  const blocks: PdfBlock[] = [{ text: overview.fields[0][1], style: 'title' }];
+
+  const addFields = (fields: Array<[string, string]>) =>
+    fields
+      .filter(([, value]) => value)
+      .forEach(([label, value]) => blocks.push({ text: `${label}: ${value}` }));
+
+  addFields(overview.fields.slice(1));
+
+  rest.forEach(section => {
+    blocks.push({ text: section.title, style: 'heading' });
+    addFields(section.fields);
+    section.items?.forEach(item =>
+      blocks.push({ text: item, style: 'bullet' })
+    );
+
+    if (section.table) {
+      const { columns, rows } = section.table;
+      if (!rows.length) {
+        blocks.push({ text: `No ${section.title.toLowerCase()}` });
+      }
+      rows.forEach(([first, ...cells]) =>
+        blocks.push({
+          text: [
+            first,
+            ...cells.map((cell, index) => `${columns[index + 1]}: ${cell}`),
+          ]
+            .filter(Boolean)
+            .join(' | '),
+          style: 'bullet',
+        })
+      );
+    }
+  });
+
+  return blocks;
+};
+
+const csvCell = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+/** One row per field, list item and table row: Section, Field, Value */
+const toCsv = (sections: ExportSection[]): string => {
+  const rows: string[][] = [['Section', 'Field', 'Value']];
+
+  sections.forEach(section => {
+    section.fields.forEach(([label, value]) =>
+      rows.push([section.title, label, value])
+    );
+    section.items?.forEach((item, index) =>
+      rows.push([section.title, `${index + 1}`, item])
+    );
+    section.table?.rows.forEach(([first, ...cells]) =>
+      rows.push([
+        section.title,
+        first,
+        cells
+          .map((cell, index) => `${section.table!.columns[index + 1]}: ${cell}`)
+          .join('; '),
+      ])
+    );
+  });
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+/** The goal itself, without the parts the options leave out */
+const toJson = (
+  { goal, criteria }: GoalExportInput,
+  options: GoalExportOptions,
+  generatedAt: Date
+): string => {
+  const include = resolveOptions(options);
+  const score =
+    include.includeScore || include.includeSuggestions
+      ? calculateSmartScore(goal)
+      : undefined;
+
+  const exported: Record<string, unknown> = {
+    ...goal,
+    achievability: include.includeResources
+      ? goal.achievability
+      : {
+          ...goal.achievability,
+          requiredResources: undefined,
+          requiredSkills: undefined,
+          constraints: undefined,
+        },
+    milestones: include.includeTimeline ? goal.milestones : undefined,
+    checkpoints: include.includeTimeline ? goal.checkpoints : undefined,
+  };
+
+  return JSON.stringify(
+    {
+      exportedAt: generatedAt.toISOString(),
+      goal: exported,
+      criteria,
+      score: include.includeScore ? score?.breakdown : undefined,
+      scoreCategory: include.includeScore ? score?.category : undefined,
+      suggestions: include.includeSuggestions ? score?.suggestions : undefined,
+    },
+    null,
+    2
+  );
+};
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/** Render a goal in the requested format */
+export const exportGoal = (
+  input: GoalExportInput,
+  options: GoalExportOptions
+): GoalExportFile => {
+  const generatedAt = input.generatedAt ?? new Date();
+  const { format } = options;
+
+  let content: string;
+  switch (format) {
+    case 'json':
+      content = toJson(input, options, generatedAt);
+      break;
+    case 'markdown':
+      content = toMarkdown(buildSections(input, options), generatedAt);
+      break;
+    case 'csv':
+      content = toCsv(buildSections(input, options));
+      break;
+    case 'pdf':
+      content = renderTextPdf(toPdfBlocks(buildSections(input, options)), {
+        title: input.goal.title,
+        createdAt: generatedAt,
+      });
+      break;
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+
+  return {
+    content,
+    mimeType: GOAL_EXPORT_MIME_TYPES[format],
+    filename: getGoalExportFilename(input.goal, format),
+  };
+};
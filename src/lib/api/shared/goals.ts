@@ -0,0 +1,102 @@
+/**
+ * Goal Update Helpers
+ *
+ * Pure functions that compare a stored goal with an edited copy, shared by
+ * the goal wizard and the wizard store so both submit only the fields that
+ * actually changed instead of overwriting the whole goal.
+ *
+ * @fileoverview Shared goal diffing for the edit flows
+ * @version 1.0.0
+ */
+
+import type { SmartGoal, SmartGoalUpdate } from '@/types/smart-goals.types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Goal fields the wizard can edit */
+export const EDITABLE_GOAL_FIELDS = [
+  'title',
+  'description',
+  'specificObjective',
+  'successCriteria',
+  'category',
+  'tags',
+  'measurable',
+  'achievability',
+  'relevance',
+  'timebound',
+  'milestones',
+  'priority',
+  'visibility',
+] as const;
+
+export type EditableGoalField = (typeof EDITABLE_GOAL_FIELDS)[number];
+
+export const GOAL_FIELD_LABELS: Record<EditableGoalField, string> = {
+  title: 'Title',
+  description: 'Description',
+  specificObjective: 'Objective',
+  successCriteria: 'Success criteria',
+  category: 'Category',
+  tags: 'Tags',
+  measurable: 'Metric',
+  achievability: 'Achievability',
+  relevance: 'Relevance',
+  timebound: 'Timeline',
+  milestones: 'Milestones',
+  priority: 'Priority',
+  visibility: 'Visibility',
+};
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+/**
+ * A JSON-comparable copy: dates become ISO strings (as they arrive from the
+ * API), object keys are sorted and undefined properties are dropped.
+ */
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .filter(key => record[key] !== undefined)
+        .sort()
+        .map(key => [key, normalize(record[key])])
+    );
+  }
+  return value;
+};
+
+/** Deep equality that ignores key order and treats dates and ISO strings alike */
+export const isSameGoalValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// =============================================================================
+// Updates
+// =============================================================================
+
+/** The editable fields that differ between the goal and the edited copy */
+export const getChangedGoalFields = (
+  original: Partial<SmartGoal>,
+  edited: Partial<SmartGoal>
+): EditableGoalField[] =>
+  EDITABLE_GOAL_FIELDS.filter(
+    field =>
+      edited[field] !== undefined &&
+      !isSameGoalValue(original[field], edited[field])
+  );
+
+/** The changed editable fields of the edited copy, ready for `updateGoal` */
+export const buildGoalUpdate = (
+  original: Partial<SmartGoal>,
+  edited: Partial<SmartGoal>
+): Partial<SmartGoalUpdate> =>
+  Object.fromEntries(
+    getChangedGoalFields(original, edited).map(field => [field, edited[field]])
+  ) as Partial<SmartGoalUpdate>;
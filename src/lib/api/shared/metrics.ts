@@ -0,0 +1,224 @@
+/**
+ * Metric Analytics Helpers
+ *
+ * Pure functions shared by the checkpoint route handlers and the mock
+ * transport, so both backends build checkpoints and derive analytics,
+ * trends, statistics and CSV exports the same way.
+ *
+ * @fileoverview Shared metric logic for the API backends
+ * @version 1.0.0
+ */
+
+import type { MetricCheckpoint } from '@/types/smart-goals.types';
+
+import type {
+  CheckpointStats,
+  CreateCheckpointRequest,
+  MetricAnalytics,
+  MetricTrendData,
+} from '../metrics';
+
+import { createEntityId } from './tasks';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Change below which the trend is reported as stable */
+const TREND_THRESHOLD = 0.01;
+
+const CSV_HEADERS = [
+  'Date',
+  'Value',
+  'Note',
+  'Source',
+  'Confidence',
+  'Automatic',
+];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const time = (date: Date | string): number => new Date(date).getTime();
+
+const average = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/** Newest checkpoint first, matching `GET /goals/:id/checkpoints` */
+export const sortCheckpoints = (
+  checkpoints: MetricCheckpoint[]
+): MetricCheckpoint[] =>
+  [...checkpoints].sort((a, b) => time(b.recordedDate) - time(a.recordedDate));
+
+// =============================================================================
+// Entity Construction
+// =============================================================================
+
+/** Build a new checkpoint from a create request */
+export const buildCheckpoint = (
+  goalId: string,
+  request: Omit<CreateCheckpointRequest, 'goalId'>,
+  userId: string
+): MetricCheckpoint => {
+  const now = new Date();
+
+  return {
+    id: createEntityId('checkpoint'),
+    createdAt: now,
+    updatedAt: now,
+    createdBy: userId,
+    updatedBy: userId,
+    goalId,
+    value: request.value,
+    recordedDate: request.recordedDate || now,
+    note: request.note,
+    isAutomatic: request.isAutomatic || false,
+    source: request.source || 'manual-entry',
+    confidence: request.confidence ?? 1.0,
+  };
+};
+
+// =============================================================================
+// Analytics
+// =============================================================================
+
+/**
+ * Summarise a goal's checkpoints against its target value. Returns null
+ * when there are no checkpoints to analyse.
+ */
+export const computeMetricAnalytics = (
+  goalId: string,
+  checkpoints: MetricCheckpoint[],
+  targetValue: number
+): MetricAnalytics | null => {
+  if (checkpoints.length === 0) {
+    return null;
+  }
+
+  const sorted = sortCheckpoints(checkpoints);
+  const values = sorted.map(c => c.value);
+  const latestValue = values[0];
+  const previousValue = values[1] ?? latestValue;
+  const changeAmount = latestValue - previousValue;
+
+  let velocityPerDay = 0;
+  if (sorted.length >= 2) {
+    const first = sorted[sorted.length - 1];
+    const last = sorted[0];
+    const days = Math.max(
+      (time(last.recordedDate) - time(first.recordedDate)) / DAY_MS,
+      1
+    );
+    velocityPerDay = (last.value - first.value) / days;
+  }
+
+  const estimatedCompletionDate =
+    velocityPerDay > 0 && latestValue < targetValue
+      ? new Date(
+          Date.now() + ((targetValue - latestValue) / velocityPerDay) * DAY_MS
+        )
+      : undefined;
+
+  return {
+    goalId,
+    totalCheckpoints: sorted.length,
+    latestValue,
+    previousValue,
+    changeAmount,
+    changePercentage:
+      previousValue !== 0 ? (changeAmount / previousValue) * 100 : 0,
+    trend:
+      changeAmount > TREND_THRESHOLD
+        ? 'up'
+        : changeAmount < -TREND_THRESHOLD
+          ? 'down'
+          : 'stable',
+    averageValue: average(values),
+    minValue: Math.min(...values),
+    maxValue: Math.max(...values),
+    progressToTarget: targetValue !== 0 ? (latestValue / targetValue) * 100 : 0,
+    estimatedCompletionDate,
+    velocityPerDay,
+  };
+};
+
+/**
+ * Chart points in chronological order, optionally limited to the last
+ * `days` days.
+ */
+export const computeTrendData = (
+  checkpoints: MetricCheckpoint[],
+  options: { days?: number; target?: number } = {}
+): MetricTrendData[] => {
+  const cutoff = options.days ? Date.now() - options.days * DAY_MS : undefined;
+
+  return sortCheckpoints(checkpoints)
+    .filter(c => cutoff === undefined || time(c.recordedDate) >= cutoff)
+    .reverse()
+    .map(c => ({
+      date: new Date(c.recordedDate).toISOString().split('T')[0],
+      value: c.value,
+      target: options.target,
+      note: c.note,
+    }));
+};
+
+/** Statistics for the checkpoints recorded between `start` and `end` */
+export const computeCheckpointStats = (
+  checkpoints: MetricCheckpoint[],
+  start: Date,
+  end: Date
+): CheckpointStats => {
+  const inRange = sortCheckpoints(checkpoints)
+    .filter(
+      c =>
+        time(c.recordedDate) >= start.getTime() &&
+        time(c.recordedDate) <= end.getTime()
+    )
+    .reverse();
+
+  if (inRange.length === 0) {
+    return {
+      count: 0,
+      averageValue: 0,
+      minValue: 0,
+      maxValue: 0,
+      totalChange: 0,
+      averageConfidence: 0,
+    };
+  }
+
+  const values = inRange.map(c => c.value);
+
+  return {
+    count: inRange.length,
+    averageValue: average(values),
+    minValue: Math.min(...values),
+    maxValue: Math.max(...values),
+    totalChange: values[values.length - 1] - values[0],
+    averageConfidence: average(inRange.map(c => c.confidence ?? 1)),
+  };
+};
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/** CSV export with every field quoted, newest checkpoint first */
+export const checkpointsToCsv = (checkpoints: MetricCheckpoint[]): string => {
+  const rows = sortCheckpoints(checkpoints).map(c => [
+    new Date(c.recordedDate).toISOString(),
+    c.value.toString(),
+    c.note || '',
+    c.source || '',
+    (c.confidence ?? 1).toString(),
+    c.isAutomatic ? 'Yes' : 'No',
+  ]);
+
+  return [CSV_HEADERS, ...rows]
+    .map(row => row.map(field => `"${field.replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+};
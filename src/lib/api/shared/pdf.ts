@@ -0,0 +1,222 @@
+/**
+ * Text PDF Writer
+ *
+ * Minimal PDF 1.4 writer for text documents. It uses the standard Helvetica
+ * fonts every PDF reader ships with, so documents are built without fonts,
+ * network access or native dependencies, in the browser and on the server.
+ * Output is pure ASCII, so the string length equals the byte length.
+ *
+ * @fileoverview Dependency-free PDF generation for exports
+ * @version 1.0.0
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PdfBlockStyle =
+  | 'title'
+  | 'heading'
+  | 'subheading'
+  | 'body'
+  | 'bullet';
+
+export interface PdfBlock {
+  text: string;
+  style?: PdfBlockStyle;
+}
+
+export interface PdfDocumentOptions {
+  /** Document title stored in the PDF metadata */
+  title?: string;
+  /** Creation date stored in the PDF metadata */
+  createdAt?: Date;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** A4 in points */
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+/** Helvetica glyphs average about half the font size in width */
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+const BLOCK_STYLES: Record<
+  PdfBlockStyle,
+  { font: 'F1' | 'F2'; size: number; spaceBefore: number; indent: number }
+> = {
+  title: { font: 'F2', size: 18, spaceBefore: 0, indent: 0 },
+  heading: { font: 'F2', size: 13, spaceBefore: 14, indent: 0 },
+  subheading: { font: 'F2', size: 11, spaceBefore: 8, indent: 0 },
+  body: { font: 'F1', size: 10, spaceBefore: 2, indent: 0 },
+  bullet: { font: 'F1', size: 10, spaceBefore: 2, indent: 12 },
+};
+
+/** Typographic characters with a close ASCII equivalent */
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  '\u2018': "'",
+  '\u2019': "'",
+  '\u201c': '"',
+  '\u201d': '"',
+  '\u2013': '-',
+  '\u2014': '-',
+  '\u2022': '-',
+  '\u2026': '...',
+  '\u00a0': ' ',
+};
+
+// =============================================================================
+// Text Helpers
+// =============================================================================
+
+/** Replace characters the standard fonts cannot show without an encoding */
+export const toPdfAscii = (text: string): string =>
+  text
+    .replace(
+      /[\u2018\u2019\u201c\u201d\u2013\u2014\u2022\u2026\u00a0]/g,
+      char => ASCII_REPLACEMENTS[char]
+    )
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+
+const escapePdfText = (text: string): string =>
+  text.replace(/([\\()])/g, '\\$1');
+
+/** Break text into lines of at most `maxChars`, splitting long words */
+const wrapText = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    let rest = word;
+    while (rest.length > maxChars) {
+      if (line) {
+        lines.push(line);
+        line = '';
+      }
+      lines.push(rest.slice(0, maxChars));
+      rest = rest.slice(maxChars);
+    }
+
+    if (!line) {
+      line = rest;
+    } else if (line.length + 1 + rest.length <= maxChars) {
+      line = `${line} ${rest}`;
+    } else {
+      lines.push(line);
+      line = rest;
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+};
+
+const formatPdfDate = (date: Date): string =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+/** Lay the blocks out into the content stream of each page */
+const layoutPages = (blocks: PdfBlock[]): string[] => {
+  const pages: string[][] = [];
+  let commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push(commands);
+    commands = [];
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  blocks.forEach(block => {
+    const style = BLOCK_STYLES[block.style ?? 'body'];
+    const lineHeight = style.size * 1.3;
+    const width = PAGE_WIDTH - MARGIN * 2 - style.indent;
+    const maxChars = Math.floor(width / (style.size * AVERAGE_GLYPH_WIDTH));
+    const text = toPdfAscii(block.text);
+    const lines = wrapText(
+      block.style === 'bullet' ? `- ${text}` : text,
+      maxChars
+    );
+
+    if (y < PAGE_HEIGHT - MARGIN) y -= style.spaceBefore;
+
+    lines.forEach(line => {
+      if (y - lineHeight < MARGIN) newPage();
+      y -= lineHeight;
+      commands.push(
+        `BT /${style.font} ${style.size} Tf ${MARGIN + style.indent} ${y.toFixed(2)} Td (${escapePdfText(line)}) Tj ET`
+      );
+    });
+  });
+
+  pages.push(commands);
+  return pages.map(page => page.join('\n'));
+};
+
+// =============================================================================
+// Document Assembly
+// =============================================================================
+
+/**
+ * Render text blocks as a PDF document. Text wraps to the page width and
+ * flows onto as many A4 pages as needed.
+ */
+export const renderTextPdf = (
+  blocks: PdfBlock[],
+  options: PdfDocumentOptions = {}
+): string => {
+  const pages = layoutPages(blocks);
+  const objects: string[] = [];
+
+  // Objects 1-5 are fixed; each page adds a page object and its content
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  );
+  objects.push(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  );
+  objects.push(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  );
+  objects.push(
+    `<< /Title (${escapePdfText(toPdfAscii(options.title ?? 'Document'))}) /Producer (OpenBase) /CreationDate (${formatPdfDate(options.createdAt ?? new Date())}) >>`
+  );
+
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`)
+    .join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+};
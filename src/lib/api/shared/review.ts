@@ -0,0 +1,410 @@
+/**
+ * Goal Review Workflow
+ *
+ * Pure functions behind the goal review: requesting a review from named
+ * reviewers, recording their decisions against an N-of-M approval rule,
+ * threaded comments and the activity timeline. The review route handlers
+ * and the mock transport both apply changes through these functions, so
+ * the two backends agree on every status change.
+ *
+ * A review is approved once `requiredApprovals` reviewers approve. It is
+ * rejected as soon as enough reviewers rejected that the approvals can no
+ * longer be reached, and a single change request sends the goal back to
+ * draft. Requesting a review again starts a new round and clears all
+ * decisions.
+ *
+ * @fileoverview Shared review and approval logic
+ * @version 1.0.0
+ */
+
+import type {
+  GoalReview,
+  ReviewComment,
+  ReviewCommentThread,
+  ReviewDecision,
+  ReviewEvent,
+  ReviewEventType,
+  ReviewStatus,
+} from '@/types/review.types';
+import type { SmartGoal } from '@/types/smart-goals.types';
+
+import type { AddReviewCommentRequest, RequestReviewRequest } from '../reviews';
+
+import { canAccessGoal, type GoalAccessSubject } from './goal-access';
+import { createEntityId } from './tasks';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** An entry of the activity timeline */
+export interface ReviewTimelineEntry {
+  id: string;
+  type: ReviewEventType | 'goal_created' | 'task_status_changed';
+  actorId: string;
+  at: Date;
+  details: string;
+}
+
+/** A review after a decision, and whether the goal goes back to draft */
+export interface ReviewDecisionResult {
+  review: GoalReview;
+  reopenGoal: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  not_requested: 'Not requested',
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  changes_requested: 'Changes requested',
+};
+
+const DECISION_EVENTS: Record<ReviewDecision, ReviewEventType> = {
+  approve: 'approved',
+  reject: 'rejected',
+  request_changes: 'changes_requested',
+};
+
+const DECISION_COMMENT_TYPES = {
+  approve: 'approval',
+  reject: 'rejection',
+  request_changes: 'change_request',
+} as const;
+
+const DECISION_DETAILS: Record<ReviewDecision, string> = {
+  approve: 'approved the goal',
+  reject: 'rejected the goal',
+  request_changes: 'requested changes',
+};
+
+// =============================================================================
+// Review State
+// =============================================================================
+
+/** Review of a goal that was never sent for review */
+export const createDefaultReview = (goalId: string): GoalReview => ({
+  goalId,
+  status: 'not_requested',
+  reviewers: [],
+  requiredApprovals: 0,
+  round: 0,
+  comments: [],
+  events: [],
+  updatedAt: new Date(0),
+});
+
+export const countDecisions = (
+  review: Pick<GoalReview, 'reviewers'>,
+  decision: ReviewDecision
+): number =>
+  review.reviewers.filter(reviewer => reviewer.decision === decision).length;
+
+/** Status implied by the reviewers' decisions in the current round */
+export const getReviewOutcome = (
+  review: Pick<GoalReview, 'reviewers' | 'requiredApprovals'>
+): ReviewStatus => {
+  if (countDecisions(review, 'request_changes') > 0) {
+    return 'changes_requested';
+  }
+  if (countDecisions(review, 'approve') >= review.requiredApprovals) {
+    return 'approved';
+  }
+  const stillPossible =
+    review.reviewers.length - countDecisions(review, 'reject');
+  return stillPossible < review.requiredApprovals ? 'rejected' : 'pending';
+};
+
+const createEvent = (
+  type: ReviewEventType,
+  actorId: string,
+  details: string,
+  at: Date
+): ReviewEvent => ({
+  id: createEntityId('review-event'),
+  type,
+  actorId,
+  at,
+  details,
+});
+
+const createComment = (
+  authorId: string,
+  content: string,
+  type: ReviewComment['type'],
+  at: Date,
+  parentId?: string
+): ReviewComment => ({
+  id: createEntityId('review-comment'),
+  authorId,
+  content,
+  type,
+  parentId,
+  createdAt: at,
+});
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/** Why a review cannot be requested, or `null` when it can */
+export const getReviewRequestError = (
+  goal: GoalAccessSubject,
+  request: RequestReviewRequest
+): string | null => {
+  const { reviewerIds, requiredApprovals } = request;
+  if (reviewerIds.length === 0) {
+    return 'Name at least one reviewer';
+  }
+  if (new Set(reviewerIds).size !== reviewerIds.length) {
+    return 'Reviewers must not be listed more than once';
+  }
+
+  const notAllowed = reviewerIds.filter(
+    id => !canAccessGoal(goal, id, 'approve_criteria')
+  );
+  if (notAllowed.length > 0) {
+    return `Only the owner and reviewers of the goal can review it: ${notAllowed.join(', ')}`;
+  }
+  if (requiredApprovals < 1 || requiredApprovals > reviewerIds.length) {
+    return `Required approvals must be between 1 and ${reviewerIds.length}`;
+  }
+  return null;
+};
+
+/** Start a new review round with the named reviewers */
+export const applyReviewRequest = (
+  review: GoalReview,
+  request: RequestReviewRequest,
+  userId: string,
+  now: Date = new Date()
+): GoalReview => {
+  const message = request.message?.trim();
+  const details = `requested a review from ${request.reviewerIds.join(', ')} (${request.requiredApprovals} of ${request.reviewerIds.length} approvals needed)`;
+
+  return {
+    ...review,
+    status: 'pending',
+    reviewers: request.reviewerIds.map(id => ({ userId: id })),
+    requiredApprovals: request.requiredApprovals,
+    round: review.round + 1,
+    requestedBy: userId,
+    requestedAt: now,
+    comments: message
+      ? [...review.comments, createComment(userId, message, 'comment', now)]
+      : review.comments,
+    events: [
+      ...review.events,
+      createEvent('review_requested', userId, details, now),
+    ],
+    updatedAt: now,
+  };
+};
+
+// =============================================================================
+// Decisions
+// =============================================================================
+
+/** Why a user cannot decide on a review, or `null` when they can */
+export const getReviewDecisionError = (
+  review: GoalReview,
+  userId: string
+): string | null => {
+  if (review.status !== 'pending') {
+    return review.status === 'not_requested'
+      ? 'No review has been requested for this goal'
+      : `The review is already ${REVIEW_STATUS_LABELS[review.status].toLowerCase()}`;
+  }
+  return review.reviewers.some(reviewer => reviewer.userId === userId)
+    ? null
+    : 'Only the named reviewers can decide on this review';
+};
+
+/**
+ * Record a reviewer's decision, replacing an earlier one from the same
+ * round, and settle the review when the decisions allow it
+ */
+export const applyReviewDecision = (
+  review: GoalReview,
+  userId: string,
+  decision: ReviewDecision,
+  comment?: string,
+  now: Date = new Date()
+): ReviewDecisionResult => {
+  const reviewers = review.reviewers.map(reviewer =>
+    reviewer.userId === userId
+      ? { ...reviewer, decision, decidedAt: now }
+      : reviewer
+  );
+  const status = getReviewOutcome({ ...review, reviewers });
+  const content = comment?.trim();
+
+  const events = [
+    ...review.events,
+    createEvent(
+      DECISION_EVENTS[decision],
+      userId,
+      DECISION_DETAILS[decision],
+      now
+    ),
+  ];
+  if (status === 'approved' || status === 'rejected') {
+    events.push(
+      createEvent(
+        'review_completed',
+        userId,
+        status === 'approved'
+          ? `approval reached with ${countDecisions({ reviewers }, 'approve')} of ${reviewers.length} reviewers`
+          : `rejected; ${review.requiredApprovals} approvals can no longer be reached`,
+        now
+      )
+    );
+  }
+  const reopenGoal = status === 'changes_requested';
+  if (reopenGoal) {
+    events.push(
+      createEvent('goal_reopened', userId, 'moved the goal back to draft', now)
+    );
+  }
+
+  return {
+    review: {
+      ...review,
+      status,
+      reviewers,
+      comments: content
+        ? [
+            ...review.comments,
+            createComment(
+              userId,
+              content,
+              DECISION_COMMENT_TYPES[decision],
+              now
+            ),
+          ]
+        : review.comments,
+      events,
+      updatedAt: now,
+    },
+    reopenGoal,
+  };
+};
+
+// =============================================================================
+// Comments
+// =============================================================================
+
+/** Why a comment cannot be added, or `null` when it can */
+export const getReviewCommentError = (
+  review: GoalReview,
+  request: AddReviewCommentRequest
+): string | null => {
+  if (!request.content.trim()) {
+    return 'Comment must not be empty';
+  }
+  if (
+    request.parentId &&
+    !review.comments.some(comment => comment.id === request.parentId)
+  ) {
+    return `Comment with id "${request.parentId}" not found`;
+  }
+  return null;
+};
+
+/** Add a comment or a reply to the review */
+export const addReviewComment = (
+  review: GoalReview,
+  request: AddReviewCommentRequest,
+  userId: string,
+  now: Date = new Date()
+): GoalReview => ({
+  ...review,
+  comments: [
+    ...review.comments,
+    createComment(
+      userId,
+      request.content.trim(),
+      'comment',
+      now,
+      request.parentId
+    ),
+  ],
+  events: [
+    ...review.events,
+    createEvent(
+      'commented',
+      userId,
+      request.parentId ? 'replied to a comment' : 'commented',
+      now
+    ),
+  ],
+  updatedAt: now,
+});
+
+/**
+ * Comments arranged as threads, oldest first. Replies whose parent is
+ * missing are shown as top-level comments.
+ */
+export const buildCommentThreads = (
+  comments: ReviewComment[]
+): ReviewCommentThread[] => {
+  const threads = new Map<string, ReviewCommentThread>(
+    comments.map(comment => [comment.id, { ...comment, replies: [] }])
+  );
+  const roots: ReviewCommentThread[] = [];
+  const byDate = (a: ReviewComment, b: ReviewComment) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+  [...comments].sort(byDate).forEach(comment => {
+    const thread = threads.get(comment.id);
+    const parent = comment.parentId ? threads.get(comment.parentId) : undefined;
+    if (!thread) return;
+    if (parent && parent !== thread) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  });
+  return roots;
+};
+
+// =============================================================================
+// Timeline
+// =============================================================================
+
+/**
+ * Activity of a goal, newest first: its creation, the review events and
+ * the status changes of its tasks
+ */
+export const buildReviewTimeline = (
+  goal: Pick<SmartGoal, 'id' | 'createdAt' | 'createdBy' | 'tasks'>,
+  review: GoalReview
+): ReviewTimelineEntry[] => {
+  const taskEntries = goal.tasks.flatMap(task =>
+    (task.statusHistory ?? [])
+      .filter(change => change.from !== undefined)
+      .map((change, index) => ({
+        id: `${task.id}:status:${index}`,
+        type: 'task_status_changed' as const,
+        actorId: change.changedBy ?? 'unknown',
+        at: new Date(change.at),
+        details: `moved "${task.title}" from ${change.from} to ${change.to}`,
+      }))
+  );
+
+  return [
+    {
+      id: `${goal.id}:created`,
+      type: 'goal_created' as const,
+      actorId: goal.createdBy,
+      at: new Date(goal.createdAt),
+      details: 'created the goal',
+    },
+    ...review.events.map(event => ({ ...event, at: new Date(event.at) })),
+    ...taskEntries,
+  ].sort((a, b) => b.at.getTime() - a.at.getTime());
+};
@@ -0,0 +1,400 @@
+/**
+ * Task Query and Statistics Helpers
+ *
+ * Pure functions shared by the task route handlers and the mock transport,
+ * so both backends filter, derive status changes and compute statistics
+ * the same way.
+ *
+ * @fileoverview Shared task logic for the API backends
+ * @version 1.0.0
+ */
+
+import {
+  GoalPriority,
+  TaskStatus,
+  type ChecklistItem,
+  type Subtask,
+  type Task,
+} from '@/types/smart-goals.types';
+
+import type {
+  CreateSubtaskRequest,
+  CreateTaskRequest,
+  TaskFilters,
+  TaskStats,
+  UpdateChecklistItemRequest,
+} from '../tasks';
+
+// =============================================================================
+// Entity Construction
+// =============================================================================
+
+/** Generate an entity ID in the `<prefix>-<timestamp>-<random>` format */
+export const createEntityId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/** Build a new task from a create request */
+export const buildTask = (
+  goalId: string,
+  request: Omit<CreateTaskRequest, 'goalId'>,
+  options: { order: number; userId: string }
+): Task => {
+  const now = new Date();
+
+  return {
+    id: createEntityId('task'),
+    createdAt: now,
+    updatedAt: now,
+    createdBy: options.userId,
+    updatedBy: options.userId,
+    isDeleted: false,
+    title: request.title,
+    description: request.description,
+    status: TaskStatus.TODO,
+    priority: request.priority,
+    assignedTo: request.assignedTo,
+    estimatedHours: request.estimatedHours,
+    dueDate: request.dueDate,
+    startDate: request.startDate,
+    progress: 0,
+    tags: request.tags || [],
+    subtasks: [],
+    checklist: [],
+    dependencies: request.dependencies,
+    goalId,
+    order: request.order || options.order,
+    statusHistory: [
+      { to: TaskStatus.TODO, at: now, changedBy: options.userId },
+    ],
+    notes: '',
+    comments: [],
+  };
+};
+
+/** Build a new subtask from a create request */
+export const buildSubtask = (
+  taskId: string,
+  request: Omit<CreateSubtaskRequest, 'taskId'>,
+  options: { order: number; userId: string }
+): Subtask => {
+  const now = new Date();
+
+  return {
+    id: createEntityId('subtask'),
+    createdAt: now,
+    updatedAt: now,
+    createdBy: options.userId,
+    updatedBy: options.userId,
+    isDeleted: false,
+    title: request.title,
+    description: request.description,
+    status: TaskStatus.TODO,
+    priority: request.priority,
+    order: options.order,
+    assignedTo: request.assignedTo,
+    estimatedHours: request.estimatedHours,
+    dueDate: request.dueDate,
+    progress: 0,
+    tags: request.tags || [],
+    checklist: [],
+    dependencies: request.dependencies,
+    taskId,
+    notes: '',
+    comments: [],
+  };
+};
+
+/** Build a checklist item appended after `existing` */
+export const buildChecklistItem = (
+  item: { title: string; description?: string; isRequired?: boolean },
+  existing: ChecklistItem[],
+  userId: string
+): ChecklistItem => {
+  const now = new Date();
+
+  return {
+    id: createEntityId('checklist'),
+    createdAt: now,
+    updatedAt: now,
+    createdBy: userId,
+    updatedBy: userId,
+    title: item.title,
+    description: item.description,
+    isCompleted: false,
+    order: existing.length + 1,
+    isRequired: !!item.isRequired,
+  };
+};
+
+/** Apply an update to a checklist item, stamping completion changes */
+export const applyChecklistUpdate = (
+  item: ChecklistItem,
+  updates: UpdateChecklistItemRequest,
+  userId: string
+): ChecklistItem => {
+  const now = new Date();
+  const isCompleting = updates.isCompleted === true && !item.isCompleted;
+  const isReopening = updates.isCompleted === false;
+
+  return {
+    ...item,
+    ...updates,
+    id: item.id,
+    updatedAt: now,
+    updatedBy: userId,
+    completedAt: isCompleting
+      ? now
+      : isReopening
+        ? undefined
+        : item.completedAt,
+    completedBy: isCompleting
+      ? userId
+      : isReopening
+        ? undefined
+        : item.completedBy,
+  };
+};
+
+// =============================================================================
+// Query Parsing
+// =============================================================================
+
+const splitList = (value: string | null | undefined): string[] =>
+  value ? value.split(',').filter(Boolean) : [];
+
+/** Read `TaskFilters` from the query parameters TasksApi sends */
+export const parseTaskFilters = (
+  query: URLSearchParams | Record<string, string>
+): TaskFilters => {
+  const get = (key: string): string | null =>
+    query instanceof URLSearchParams ? query.get(key) : (query[key] ?? null);
+
+  const filters: TaskFilters = {};
+
+  const status = splitList(get('status'));
+  if (status.length) filters.status = status as TaskStatus[];
+
+  const priority = splitList(get('priority'));
+  if (priority.length) filters.priority = priority as GoalPriority[];
+
+  const assignedTo = splitList(get('assignedTo'));
+  if (assignedTo.length) filters.assignedTo = assignedTo;
+
+  const tags = splitList(get('tags'));
+  if (tags.length) filters.tags = tags;
+
+  const dueStart = get('dueStart');
+  const dueEnd = get('dueEnd');
+  if (dueStart && dueEnd) {
+    filters.dueDate = { start: new Date(dueStart), end: new Date(dueEnd) };
+  }
+
+  if (get('overdue') === 'true') filters.overdue = true;
+
+  const completed = get('completed');
+  if (completed === 'true' || completed === 'false') {
+    filters.completed = completed === 'true';
+  }
+
+  return filters;
+};
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+/** Whether a task is past its due date and not completed */
+export const isTaskOverdue = (task: Task, now: Date = new Date()): boolean =>
+  !!task.dueDate &&
+  new Date(task.dueDate) < now &&
+  task.status !== TaskStatus.COMPLETED;
+
+export const filterTasks = (tasks: Task[], filters: TaskFilters): Task[] => {
+  const now = new Date();
+
+  return tasks.filter(task => {
+    if (filters.status?.length && !filters.status.includes(task.status)) {
+      return false;
+    }
+
+    if (filters.priority?.length && !filters.priority.includes(task.priority)) {
+      return false;
+    }
+
+    if (
+      filters.assignedTo?.length &&
+      (!task.assignedTo || !filters.assignedTo.includes(task.assignedTo))
+    ) {
+      return false;
+    }
+
+    if (
+      filters.tags?.length &&
+      !filters.tags.some(tag => task.tags?.includes(tag))
+    ) {
+      return false;
+    }
+
+    if (filters.dueDate) {
+      if (!task.dueDate) return false;
+      const dueDate = new Date(task.dueDate);
+      if (dueDate < filters.dueDate.start || dueDate > filters.dueDate.end) {
+        return false;
+      }
+    }
+
+    if (filters.overdue && !isTaskOverdue(task, now)) {
+      return false;
+    }
+
+    if (
+      filters.completed !== undefined &&
+      filters.completed !== (task.status === TaskStatus.COMPLETED)
+    ) {
+      return false;
+    }
+
+    return true;
+  });
+};
+
+// =============================================================================
+// Status Transitions
+// =============================================================================
+
+/**
+ * Completion fields implied by an update: completing stamps `completedAt`
+ * and forces progress to 100.
+ */
+export const deriveCompletion = <T extends Task | Subtask>(
+  existing: T,
+  updates: Partial<T>,
+  now: Date = new Date()
+): Pick<T, 'completedAt' | 'progress'> => {
+  const isCompleting =
+    updates.status === TaskStatus.COMPLETED &&
+    existing.status !== TaskStatus.COMPLETED;
+
+  return {
+    completedAt: isCompleting
+      ? now
+      : (updates.completedAt ?? existing.completedAt),
+    progress:
+      updates.status === TaskStatus.COMPLETED
+        ? 100
+        : (updates.progress ?? existing.progress),
+  } as Pick<T, 'completedAt' | 'progress'>;
+};
+
+/**
+ * Status history implied by an update: a status change is appended, so
+ * clients can never rewrite the recorded history.
+ */
+export const deriveStatusHistory = (
+  existing: Task,
+  updates: Partial<Task>,
+  userId: string,
+  now: Date = new Date()
+): Pick<Task, 'statusHistory'> => {
+  if (!updates.status || updates.status === existing.status) {
+    return { statusHistory: existing.statusHistory };
+  }
+
+  return {
+    statusHistory: [
+      ...(existing.statusHistory ?? []),
+      { from: existing.status, to: updates.status, at: now, changedBy: userId },
+    ],
+  };
+};
+
+// =============================================================================
+// Ordering
+// =============================================================================
+
+/** Why a task order cannot be applied to the tasks of a goal, if it cannot */
+export const getTaskOrderError = (
+  tasks: Task[],
+  taskIds: string[]
+): string | null => {
+  if (new Set(taskIds).size !== taskIds.length) {
+    return 'Task IDs must not repeat';
+  }
+
+  const known = new Set(tasks.map(task => task.id));
+  const unknown = taskIds.filter(id => !known.has(id));
+  return unknown.length > 0
+    ? `Tasks not found in this goal: ${unknown.join(', ')}`
+    : null;
+};
+
+/**
+ * New `order` of every task whose position changes when the tasks are
+ * numbered from 1 in the order of `taskIds`. Tasks that are not listed
+ * keep their relative order after the listed ones.
+ */
+export const planTaskOrder = (
+  tasks: Task[],
+  taskIds: string[]
+): Record<string, number> => {
+  const listed = new Map(taskIds.map((id, index) => [id, index]));
+  const sorted = [...tasks].sort((a, b) => {
+    const aIndex = listed.get(a.id);
+    const bIndex = listed.get(b.id);
+    if (aIndex !== undefined && bIndex !== undefined) return aIndex - bIndex;
+    if (aIndex !== undefined) return -1;
+    if (bIndex !== undefined) return 1;
+    return a.order - b.order;
+  });
+
+  return Object.fromEntries(
+    sorted.flatMap((task, index) =>
+      task.order === index + 1 ? [] : [[task.id, index + 1]]
+    )
+  );
+};
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+export const computeTaskStats = (tasks: Task[]): TaskStats => {
+  const total = tasks.length;
+
+  const byStatus = Object.values(TaskStatus).reduce(
+    (acc, status) => {
+      acc[status] = tasks.filter(t => t.status === status).length;
+      return acc;
+    },
+    {} as Record<TaskStatus, number>
+  );
+
+  const byPriority = Object.values(GoalPriority).reduce(
+    (acc, priority) => {
+      acc[priority] = tasks.filter(t => t.priority === priority).length;
+      return acc;
+    },
+    {} as Record<GoalPriority, number>
+  );
+
+  const completedTasks = byStatus[TaskStatus.COMPLETED] || 0;
+  const totalProgress = tasks.reduce((sum, task) => sum + task.progress, 0);
+  const now = new Date();
+
+  return {
+    total,
+    byStatus,
+    byPriority,
+    completionRate: total > 0 ? (completedTasks / total) * 100 : 0,
+    averageProgress: total > 0 ? totalProgress / total : 0,
+    overdueCount: tasks.filter(task => isTaskOverdue(task, now)).length,
+    totalEstimatedHours: tasks.reduce(
+      (sum, task) => sum + (task.estimatedHours || 0),
+      0
+    ),
+    totalActualHours: tasks.reduce(
+      (sum, task) => sum + (task.actualHours || 0),
+      0
+    ),
+  };
+};
@@ -8,11 +8,13 @@
  * - Assignment and collaboration
  * - Dependencies handling
  *
+ * Requests go through the registered API transport (HTTP via `apiClient` by
+ * default, see `./transport`).
+ *
  * @fileoverview API service layer for goal tasks and subtasks
  * @version 1.0.0
  */
 
-import { createMockTask, createMockSubtask } from '@/lib/mock-data/smart-goals';
 import {
   Task,
   Subtask,
@@ -20,6 +22,9 @@ import {
   GoalPriority,
 } from '@/types/smart-goals.types';
 
+import type { DorDodOverride, StatusChangeOptions } from './dor-dod';
+import { ApiService, wrapApiError } from './transport';
+
 // =============================================================================
 // Types and Interfaces
 // =============================================================================
@@ -54,6 +59,8 @@ export interface UpdateTaskRequest {
   dependencies?: string[];
   order?: number;
   notes?: string;
+  /** Lets the goal owner change the status past open DoR/DoD criteria */
+  dorDodOverride?: DorDodOverride;
 }
 
 export interface CreateSubtaskRequest {
@@ -81,9 +88,18 @@ export interface UpdateSubtaskRequest {
   progress?: number;
   tags?: string[];
   dependencies?: string[];
+  order?: number;
   notes?: string;
 }
 
+export interface UpdateChecklistItemRequest {
+  title?: string;
+  description?: string;
+  isCompleted?: boolean;
+  isRequired?: boolean;
+  order?: number;
+}
+
 export interface TaskFilters {
   status?: TaskStatus[];
   priority?: GoalPriority[];
@@ -108,54 +124,45 @@ export interface TaskStats {
   totalActualHours: number;
 }
 
+/** Response body of the bulk task endpoints */
+export interface BulkTaskResponse {
+  tasks: Task[];
+  errors: Array<{
+    id: string;
+    error: string;
+  }>;
+}
+
 // =============================================================================
-// Mock Data Management
+// Request Helpers
 // =============================================================================
 
-let mockTasks: Task[] = [];
-let mockSubtasks: Subtask[] = [];
-
-const initializeMockTasks = () => {
-  if (mockTasks.length === 0) {
-    // Generate sample tasks for different goals
-    const sampleGoalIds = ['goal-1', 'goal-2', 'goal-3', 'goal-4', 'goal-5'];
-
-    sampleGoalIds.forEach(goalId => {
-      const taskCount = Math.floor(Math.random() * 5) + 3; // 3-8 tasks per goal
-      for (let i = 0; i < taskCount; i++) {
-        const task = createMockTask(goalId);
-        mockTasks.push(task);
-
-        // Create subtasks for each task
-        const subtaskCount = Math.floor(Math.random() * 4) + 1; // 1-4 subtasks per task
-        for (let j = 0; j < subtaskCount; j++) {
-          const subtask = createMockSubtask(task.id);
-          mockSubtasks.push(subtask);
-        }
-      }
-    });
-
-    // Sort by creation date
-    mockTasks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-    mockSubtasks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-  }
-};
+const toTaskQueryParams = (filters: TaskFilters = {}): Record<string, string> => {
+  const params: Record<string, string> = {};
 
-const simulateDelay = (ms: number = 300): Promise<void> => {
-  return new Promise(resolve => setTimeout(resolve, ms));
-};
+  if (filters.status?.length) params.status = filters.status.join(',');
+  if (filters.priority?.length) params.priority = filters.priority.join(',');
+  if (filters.assignedTo?.length) params.assignedTo = filters.assignedTo.join(',');
+  if (filters.tags?.length) params.tags = filters.tags.join(',');
 
-const simulateRandomError = (chance: number = 0.02): void => {
-  if (Math.random() < chance) {
-    throw new Error('Simulated API error');
+  if (filters.dueDate) {
+    params.dueStart = new Date(filters.dueDate.start).toISOString();
+    params.dueEnd = new Date(filters.dueDate.end).toISOString();
   }
+
+  if (filters.overdue) params.overdue = 'true';
+  if (filters.completed !== undefined) params.completed = String(filters.completed);
+
+  return params;
 };
 
+const encode = encodeURIComponent;
+
 // =============================================================================
 // Tasks API Implementation
 // =============================================================================
 
-export class TasksApi {
+export class TasksApi extends ApiService {
   // =============================================================================
   // Task CRUD Operations
   // =============================================================================
@@ -165,83 +172,11 @@ export class TasksApi {
    */
   async getTasks(goalId: string, filters?: TaskFilters): Promise<Task[]> {
     try {
-      await simulateDelay();
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      let goalTasks = mockTasks.filter(
-        task => task.goalId === goalId && !task.isDeleted
-      );
-
-      // Apply filters
-      if (filters) {
-        if (filters.status && filters.status.length > 0) {
-          goalTasks = goalTasks.filter(task =>
-            filters.status!.includes(task.status)
-          );
-        }
-
-        if (filters.priority && filters.priority.length > 0) {
-          goalTasks = goalTasks.filter(task =>
-            filters.priority!.includes(task.priority)
-          );
-        }
-
-        if (filters.assignedTo && filters.assignedTo.length > 0) {
-          goalTasks = goalTasks.filter(
-            task =>
-              task.assignedTo && filters.assignedTo!.includes(task.assignedTo)
-          );
-        }
-
-        if (filters.tags && filters.tags.length > 0) {
-          goalTasks = goalTasks.filter(
-            task =>
-              task.tags && filters.tags!.some(tag => task.tags!.includes(tag))
-          );
-        }
-
-        if (filters.dueDate) {
-          const { start, end } = filters.dueDate;
-          goalTasks = goalTasks.filter(task => {
-            if (!task.dueDate) return false;
-            return task.dueDate >= start && task.dueDate <= end;
-          });
-        }
-
-        if (filters.overdue) {
-          const now = new Date();
-          goalTasks = goalTasks.filter(
-            task =>
-              task.dueDate &&
-              task.dueDate < now &&
-              task.status !== TaskStatus.COMPLETED
-          );
-        }
-
-        if (filters.completed !== undefined) {
-          goalTasks = goalTasks.filter(task =>
-            filters.completed
-              ? task.status === TaskStatus.COMPLETED
-              : task.status !== TaskStatus.COMPLETED
-          );
-        }
-      }
-
-      // Add subtasks to each task
-      const tasksWithSubtasks = goalTasks.map(task => ({
-        ...task,
-        subtasks: mockSubtasks.filter(
-          subtask => subtask.taskId === task.id && !subtask.isDeleted
-        ),
-      }));
-
-      return tasksWithSubtasks.sort((a, b) => a.order - b.order);
+      return await this.send<Task[]>('GET', `/goals/${encode(goalId)}/tasks`, {
+        params: toTaskQueryParams(filters),
+      });
     } catch (error) {
-      throw new Error(
-        `Failed to fetch tasks: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw wrapApiError('fetch tasks', error);
     }
   }
 
@@ -250,34 +185,9 @@ export class TasksApi {
    */
   async getTask(id: string): Promise<Task> {
     try {
-      await simulateDelay(200);
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      const task = mockTasks.find(t => t.id === id && !t.isDeleted);
-      if (!task) {
-        const error = new Error('Task not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      // Add subtasks
-      const subtasks = mockSubtasks.filter(
-        subtask => subtask.taskId === task.id && !subtask.isDeleted
-      );
-
-      return {
-        ...task,
-        subtasks,
-      };
+      return await this.send<Task>('GET', `/tasks/${encode(id)}`);
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(
-        `Failed to fetch task: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw wrapApiError('fetch task', error);
     }
   }
 
@@ -286,49 +196,12 @@ export class TasksApi {
    */
   async createTask(request: CreateTaskRequest): Promise<Task> {
     try {
-      await simulateDelay(400);
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      const now = new Date();
-      const newTask: Task = {
-        id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        createdAt: now,
-        updatedAt: now,
-        createdBy: 'current-user',
-        updatedBy: 'current-user',
-        isDeleted: false,
-        title: request.title,
-        description: request.description,
-        status: TaskStatus.TODO,
-        priority: request.priority,
-        assignedTo: request.assignedTo,
-        estimatedHours: request.estimatedHours,
-        actualHours: undefined,
-        dueDate: request.dueDate,
-        startDate: request.startDate,
-        completedAt: undefined,
-        progress: 0,
-        tags: request.tags || [],
-        subtasks: [],
-        checklist: [],
-        dependencies: request.dependencies,
-        goalId: request.goalId,
-        order:
-          request.order ||
-          mockTasks.filter(t => t.goalId === request.goalId).length + 1,
-        notes: '',
-        comments: [],
-      };
-
-      mockTasks.unshift(newTask);
-
-      return { ...newTask };
+      const { goalId, ...body } = request;
+      return await this.send<Task>('POST', `/goals/${encode(goalId)}/tasks`, {
+        body,
+      });
     } catch (error) {
-      throw new Error(
-        `Failed to create task: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw wrapApiError('create task', error);
     }
   }
 
@@ -337,57 +210,11 @@ export class TasksApi {
    */
   async updateTask(id: string, updates: UpdateTaskRequest): Promise<Task> {
     try {
-      await simulateDelay(400);
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      const taskIndex = mockTasks.findIndex(t => t.id === id && !t.isDeleted);
-      if (taskIndex === -1) {
-        const error = new Error('Task not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      const existingTask = mockTasks[taskIndex];
-      const now = new Date();
-
-      // Handle status transitions
-      const isCompleting =
-        updates.status === TaskStatus.COMPLETED &&
-        existingTask.status !== TaskStatus.COMPLETED;
-      const completedAt = isCompleting
-        ? now
-        : updates.completedAt || existingTask.completedAt;
-      const progress =
-        updates.status === TaskStatus.COMPLETED
-          ? 100
-          : updates.progress || existingTask.progress;
-
-      const updatedTask: Task = {
-        ...existingTask,
-        ...updates,
-        id: existingTask.id,
-        createdAt: existingTask.createdAt,
-        createdBy: existingTask.createdBy,
-        goalId: existingTask.goalId,
-        updatedAt: now,
-        updatedBy: 'current-user',
-        completedAt,
-        progress,
-        subtasks: existingTask.subtasks,
-      };
-
-      mockTasks[taskIndex] = updatedTask;
-
-      return { ...updatedTask };
+      return await this.send<Task>('PATCH', `/tasks/${encode(id)}`, {
+        body: updates,
+      });
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(
-        `Failed to update task: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw wrapApiError('update task', error);
     }
   }
 
@@ -396,69 +223,40 @@ export class TasksApi {
    */
   async deleteTask(id: string, permanent: boolean = false): Promise<void> {
     try {
-      await simulateDelay(300);
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      const taskIndex = mockTasks.findIndex(t => t.id === id);
-      if (taskIndex === -1) {
-        const error = new Error('Task not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      if (permanent) {
-        // Hard delete - remove from array
-        mockTasks.splice(taskIndex, 1);
-        // Also delete all subtasks
-        mockSubtasks = mockSubtasks.filter(s => s.taskId !== id);
-      } else {
-        // Soft delete
-        const now = new Date();
-        mockTasks[taskIndex] = {
-          ...mockTasks[taskIndex],
-          isDeleted: true,
-          deletedAt: now,
-          deletedBy: 'current-user',
-          updatedAt: now,
-          updatedBy: 'current-user',
-        };
-
-        // Also soft delete subtasks
-        mockSubtasks
-          .filter(s => s.taskId === id)
-          .forEach(subtask => {
-            const subtaskIndex = mockSubtasks.findIndex(
-              s => s.id === subtask.id
-            );
-            if (subtaskIndex !== -1) {
-              mockSubtasks[subtaskIndex] = {
-                ...mockSubtasks[subtaskIndex],
-                isDeleted: true,
-                deletedAt: now,
-                deletedBy: 'current-user',
-                updatedAt: now,
-                updatedBy: 'current-user',
-              };
-            }
-          });
-      }
+      await this.send('DELETE', `/tasks/${encode(id)}`, {
+        params: permanent ? { permanent: true } : undefined,
+      });
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(
-        `Failed to delete task: ${error instanceof Error ? error.message : 'Unknown error'}`
+      throw wrapApiError('delete task', error);
+    }
+  }
+
+  /**
+   * Reorder the tasks of a goal; tasks that are not listed follow the
+   * listed ones in their current order
+   */
+  async reorderTasks(goalId: string, taskIds: string[]): Promise<Task[]> {
+    try {
+      return await this.send<Task[]>(
+        'PUT',
+        `/goals/${encode(goalId)}/tasks/order`,
+        { body: { taskIds } }
       );
+    } catch (error) {
+      throw wrapApiError('reorder tasks', error);
     }
   }
 
   /**
-   * Update task status
+   * Update task status. Fails with 409 DOR_DOD_UNMET while the task's DoR
+   * or DoD blocks the new status, unless an override is given.
    */
-  async updateTaskStatus(id: string, status: TaskStatus): Promise<Task> {
-    return this.updateTask(id, { status });
+  async updateTaskStatus(
+    id: string,
+    status: TaskStatus,
+    options: StatusChangeOptions = {}
+  ): Promise<Task> {
+    return this.updateTask(id, { status, ...options });
   }
 
   /**
@@ -488,18 +286,12 @@ export class TasksApi {
    */
   async getSubtasks(taskId: string): Promise<Subtask[]> {
     try {
-      await simulateDelay(200);
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      return mockSubtasks
-        .filter(subtask => subtask.taskId === taskId && !subtask.isDeleted)
-        .map(subtask => ({ ...subtask }));
-    } catch (error) {
-      throw new Error(
-        `Failed to fetch subtasks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      return await this.send<Subtask[]>(
+        'GET',
+        `/tasks/${encode(taskId)}/subtasks`
       );
+    } catch (error) {
+      throw wrapApiError('fetch subtasks', error);
     }
   }
 
@@ -508,45 +300,14 @@ export class TasksApi {
    */
   async createSubtask(request: CreateSubtaskRequest): Promise<Subtask> {
     try {
-      await simulateDelay(400);
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      const now = new Date();
-      const newSubtask: Subtask = {
-        id: `subtask-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        createdAt: now,
-        updatedAt: now,
-        createdBy: 'current-user',
-        updatedBy: 'current-user',
-        isDeleted: false,
-        title: request.title,
-        description: request.description,
-        status: TaskStatus.TODO,
-        priority: request.priority,
-        order: 0,
-        assignedTo: request.assignedTo,
-        estimatedHours: request.estimatedHours,
-        actualHours: undefined,
-        dueDate: request.dueDate,
-        completedAt: undefined,
-        progress: 0,
-        tags: request.tags || [],
-        checklist: [],
-        dependencies: request.dependencies,
-        taskId: request.taskId,
-        notes: '',
-        comments: [],
-      };
-
-      mockSubtasks.unshift(newSubtask);
-
-      return { ...newSubtask };
-    } catch (error) {
-      throw new Error(
-        `Failed to create subtask: ${error instanceof Error ? error.message : 'Unknown error'}`
+      const { taskId, ...body } = request;
+      return await this.send<Subtask>(
+        'POST',
+        `/tasks/${encode(taskId)}/subtasks`,
+        { body }
       );
+    } catch (error) {
+      throw wrapApiError('create subtask', error);
     }
   }
 
@@ -558,58 +319,11 @@ export class TasksApi {
     updates: UpdateSubtaskRequest
   ): Promise<Subtask> {
     try {
-      await simulateDelay(400);
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      const subtaskIndex = mockSubtasks.findIndex(
-        s => s.id === id && !s.isDeleted
-      );
-      if (subtaskIndex === -1) {
-        const error = new Error('Subtask not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      const existingSubtask = mockSubtasks[subtaskIndex];
-      const now = new Date();
-
-      // Handle status transitions
-      const isCompleting =
-        updates.status === TaskStatus.COMPLETED &&
-        existingSubtask.status !== TaskStatus.COMPLETED;
-      const completedAt = isCompleting
-        ? now
-        : updates.completedAt || existingSubtask.completedAt;
-      const progress =
-        updates.status === TaskStatus.COMPLETED
-          ? 100
-          : updates.progress || existingSubtask.progress;
-
-      const updatedSubtask: Subtask = {
-        ...existingSubtask,
-        ...updates,
-        id: existingSubtask.id,
-        createdAt: existingSubtask.createdAt,
-        createdBy: existingSubtask.createdBy,
-        taskId: existingSubtask.taskId,
-        updatedAt: now,
-        updatedBy: 'current-user',
-        completedAt,
-        progress,
-      };
-
-      mockSubtasks[subtaskIndex] = updatedSubtask;
-
-      return { ...updatedSubtask };
+      return await this.send<Subtask>('PATCH', `/subtasks/${encode(id)}`, {
+        body: updates,
+      });
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(
-        `Failed to update subtask: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw wrapApiError('update subtask', error);
     }
   }
 
@@ -618,38 +332,11 @@ export class TasksApi {
    */
   async deleteSubtask(id: string, permanent: boolean = false): Promise<void> {
     try {
-      await simulateDelay(300);
-      simulateRandomError();
-
-      initializeMockTasks();
-
-      const subtaskIndex = mockSubtasks.findIndex(s => s.id === id);
-      if (subtaskIndex === -1) {
-        const error = new Error('Subtask not found') as any;
-        error.status = 404;
-        throw error;
-      }
-
-      if (permanent) {
-        mockSubtasks.splice(subtaskIndex, 1);
-      } else {
-        const now = new Date();
-        mockSubtasks[subtaskIndex] = {
-          ...mockSubtasks[subtaskIndex],
-          isDeleted: true,
-          deletedAt: now,
-          deletedBy: 'current-user',
-          updatedAt: now,
-          updatedBy: 'current-user',
-        };
-      }
+      await this.send('DELETE', `/subtasks/${encode(id)}`, {
+        params: permanent ? { permanent: true } : undefined,
+      });
     } catch (error) {
-      if ((error as any).status === 404) {
-        throw error;
-      }
-      throw new Error(
-        `Failed to delete subtask: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw wrapApiError('delete subtask', error);
     }
   }
 
@@ -664,34 +351,49 @@ export class TasksApi {
     taskId: string,
     title: string,
     description?: string,
-    _isRequired: boolean = false
+    isRequired: boolean = false
   ): Promise<Task> {
     try {
-      await simulateDelay(300);
-
-      await this.getTask(taskId);
-
-      // const _newItem: ChecklistItem = {
-      //   id: `checklist-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      //   createdAt: new Date(),
-      //   updatedAt: new Date(),
-      //   createdBy: 'current-user',
-      //   updatedBy: 'current-user',
-      //   title,
-      //   description,
-      //   isCompleted: false,
-      //   order: task.checklist.length + 1,
-      //   isRequired,
-      // };
-
-      return this.updateTask(taskId, {
-        // We would need to update the checklist array, but since we're using mock data
-        // this would need special handling in the update logic
-      });
+      return await this.send<Task>(
+        'POST',
+        `/tasks/${encode(taskId)}/checklist`,
+        { body: { title, description, isRequired } }
+      );
+    } catch (error) {
+      throw wrapApiError('add checklist item', error);
+    }
+  }
+
+  /**
+   * Update a checklist item on a task
+   */
+  async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    updates: UpdateChecklistItemRequest
+  ): Promise<Task> {
+    try {
+      return await this.send<Task>(
+        'PATCH',
+        `/tasks/${encode(taskId)}/checklist/${encode(itemId)}`,
+        { body: updates }
+      );
     } catch (error) {
-      throw new Error(
-        `Failed to add checklist item: ${error instanceof Error ? error.message : 'Unknown error'}`
+      throw wrapApiError('update checklist item', error);
+    }
+  }
+
+  /**
+   * Remove a checklist item from a task
+   */
+  async deleteChecklistItem(taskId: string, itemId: string): Promise<Task> {
+    try {
+      return await this.send<Task>(
+        'DELETE',
+        `/tasks/${encode(taskId)}/checklist/${encode(itemId)}`
       );
+    } catch (error) {
+      throw wrapApiError('delete checklist item', error);
     }
   }
 
@@ -707,26 +409,19 @@ export class TasksApi {
     status: TaskStatus
   ): Promise<Task[]> {
     try {
-      await simulateDelay(600);
-      simulateRandomError();
-
-      const updatedTasks: Task[] = [];
-
-      for (const id of ids) {
-        try {
-          const updatedTask = await this.updateTaskStatus(id, status);
-          updatedTasks.push(updatedTask);
-        } catch (error) {
-          console.error(`Failed to update task ${id}:`, error);
-          // Continue with other tasks
-        }
-      }
-
-      return updatedTasks;
-    } catch (error) {
-      throw new Error(
-        `Bulk task status update failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      const response = await this.send<BulkTaskResponse>(
+        'POST',
+        '/tasks/bulk/status',
+        { body: { ids, status } }
       );
+
+      response.errors.forEach(({ id, error }) => {
+        console.error(`Failed to update task ${id}:`, error);
+      });
+
+      return response.tasks;
+    } catch (error) {
+      throw wrapApiError('bulk update task status', error);
     }
   }
 
@@ -738,21 +433,17 @@ export class TasksApi {
     permanent: boolean = false
   ): Promise<void> {
     try {
-      await simulateDelay(600);
-      simulateRandomError();
-
-      for (const id of ids) {
-        try {
-          await this.deleteTask(id, permanent);
-        } catch (error) {
-          console.error(`Failed to delete task ${id}:`, error);
-          // Continue with other tasks
-        }
-      }
-    } catch (error) {
-      throw new Error(
-        `Bulk task deletion failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      const response = await this.send<BulkTaskResponse>(
+        'POST',
+        '/tasks/bulk/delete',
+        { body: { ids, permanent } }
       );
+
+      response.errors.forEach(({ id, error }) => {
+        console.error(`Failed to delete task ${id}:`, error);
+      });
+    } catch (error) {
+      throw wrapApiError('bulk delete tasks', error);
     }
   }
 
@@ -765,66 +456,12 @@ export class TasksApi {
    */
   async getTaskStats(goalId: string): Promise<TaskStats> {
     try {
-      await simulateDelay(300);
-      simulateRandomError();
-
-      const tasks = await this.getTasks(goalId);
-
-      const total = tasks.length;
-
-      const byStatus = Object.values(TaskStatus).reduce(
-        (acc, status) => {
-          acc[status] = tasks.filter(t => t.status === status).length;
-          return acc;
-        },
-        {} as Record<TaskStatus, number>
+      return await this.send<TaskStats>(
+        'GET',
+        `/goals/${encode(goalId)}/tasks/stats`
       );
-
-      const byPriority = Object.values(GoalPriority).reduce(
-        (acc, priority) => {
-          acc[priority] = tasks.filter(t => t.priority === priority).length;
-          return acc;
-        },
-        {} as Record<GoalPriority, number>
-      );
-
-      const completedTasks = byStatus[TaskStatus.COMPLETED] || 0;
-      const completionRate = total > 0 ? (completedTasks / total) * 100 : 0;
-
-      const totalProgress = tasks.reduce((sum, task) => sum + task.progress, 0);
-      const averageProgress = total > 0 ? totalProgress / total : 0;
-
-      const now = new Date();
-      const overdueCount = tasks.filter(
-        task =>
-          task.dueDate &&
-          task.dueDate < now &&
-          task.status !== TaskStatus.COMPLETED
-      ).length;
-
-      const totalEstimatedHours = tasks.reduce(
-        (sum, task) => sum + (task.estimatedHours || 0),
-        0
-      );
-      const totalActualHours = tasks.reduce(
-        (sum, task) => sum + (task.actualHours || 0),
-        0
-      );
-
-      return {
-        total,
-        byStatus,
-        byPriority,
-        completionRate,
-        averageProgress,
-        overdueCount,
-        totalEstimatedHours,
-        totalActualHours,
-      };
     } catch (error) {
-      throw new Error(
-        `Failed to get task stats: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw wrapApiError('get task stats', error);
     }
   }
 
@@ -833,64 +470,13 @@ export class TasksApi {
    */
   async getOverdueTasks(goalId?: string): Promise<Task[]> {
     try {
-      await simulateDelay(300);
-      initializeMockTasks();
-
-      let tasks = mockTasks.filter(t => !t.isDeleted);
-
-      if (goalId) {
-        tasks = tasks.filter(t => t.goalId === goalId);
-      }
-
-      const now = new Date();
-      const overdueTasks = tasks.filter(
-        task =>
-          task.dueDate &&
-          task.dueDate < now &&
-          task.status !== TaskStatus.COMPLETED
-      );
-
-      // Add subtasks to each task
-      return overdueTasks.map(task => ({
-        ...task,
-        subtasks: mockSubtasks.filter(
-          subtask => subtask.taskId === task.id && !subtask.isDeleted
-        ),
-      }));
+      return await this.send<Task[]>('GET', '/tasks/overdue', {
+        params: goalId ? { goalId } : undefined,
+      });
     } catch (error) {
-      throw new Error(
-        `Failed to get overdue tasks: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw wrapApiError('get overdue tasks', error);
     }
   }
-
-  // =============================================================================
-  // Utility Methods
-  // =============================================================================
-
-  /**
-   * Clear all mock data (for testing)
-   */
-  clearMockData(): void {
-    mockTasks = [];
-    mockSubtasks = [];
-  }
-
-  /**
-   * Get all mock data (for testing)
-   */
-  getAllMockData(): { tasks: Task[]; subtasks: Subtask[] } {
-    initializeMockTasks();
-    return { tasks: [...mockTasks], subtasks: [...mockSubtasks] };
-  }
-
-  /**
-   * Set mock data (for testing)
-   */
-  setMockData(tasks: Task[], subtasks: Subtask[]): void {
-    mockTasks = [...tasks];
-    mockSubtasks = [...subtasks];
-  }
 }
 
 // =============================================================================
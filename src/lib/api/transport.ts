@@ -0,0 +1,107 @@
+/**
+ * API Transport - Pluggable Request Execution for API Services
+ *
+ * This module decouples the API services (GoalsApi, TasksApi, MetricsApi)
+ * from how requests are executed:
+ * - By default requests go over HTTP through the shared `apiClient`
+ * - Storybook and tests can opt in to the in-process mock backend with
+ *   `setApiTransport(createMockTransport())` from `@/lib/api/mock`
+ *
+ * @fileoverview Transport abstraction shared by the API services
+ * @version 1.0.0
+ */
+
+import { apiClient, ApiError, ApiRequest, ApiResponse } from './client';
+import { reviveDates } from './serialization';
+
+export { reviveDates };
+
+// =============================================================================
+// Types and Interfaces
+// =============================================================================
+
+/** Anything that can execute an ApiRequest; `ApiClient` is the default */
+export interface ApiTransport {
+  request<T = unknown>(request: ApiRequest): Promise<ApiResponse<T>>;
+}
+
+// =============================================================================
+// Transport Registry
+// =============================================================================
+
+let currentTransport: ApiTransport = apiClient;
+
+/** Transport used by API service instances that were not given their own */
+export const getApiTransport = (): ApiTransport => currentTransport;
+
+/** Swap the transport used by the default API service instances */
+export const setApiTransport = (transport: ApiTransport): void => {
+  currentTransport = transport;
+};
+
+/** Restore the default HTTP transport */
+export const resetApiTransport = (): void => {
+  currentTransport = apiClient;
+};
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+/**
+ * Wrap an error with a service-level message while keeping the HTTP status,
+ * error code and response body so callers can still react to 401/403/404.
+ */
+export const wrapApiError = (action: string, error: unknown): ApiError => {
+  const original = error as ApiError;
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const wrapped = new Error(`Failed to ${action}: ${message}`) as ApiError;
+
+  wrapped.status = original?.status;
+  wrapped.statusText = original?.statusText;
+  wrapped.response = original?.response;
+  wrapped.code = original?.response?.data?.code ?? original?.code;
+  wrapped.isTimeout = original?.isTimeout;
+  wrapped.isNetworkError = original?.isNetworkError;
+  wrapped.isRetryable = original?.isRetryable;
+
+  return wrapped;
+};
+
+/** Whether an error carries the given HTTP status */
+export const hasStatus = (error: unknown, status: number): boolean =>
+  (error as ApiError | undefined)?.status === status;
+
+/** Message from the server's error body, for showing to users */
+export const getApiErrorMessage = (error: unknown, fallback: string): string =>
+  (error as ApiError | undefined)?.response?.data?.message ?? fallback;
+
+// =============================================================================
+// Base Service
+// =============================================================================
+
+/**
+ * Base class for API services. Subclasses call `send` and receive the
+ * unwrapped, date-revived response body.
+ */
+export abstract class ApiService {
+  private readonly transport?: ApiTransport;
+
+  constructor(transport?: ApiTransport) {
+    this.transport = transport;
+  }
+
+  /** Explicit transport if one was given, otherwise the registered one */
+  protected get client(): ApiTransport {
+    return this.transport ?? getApiTransport();
+  }
+
+  protected async send<T>(
+    method: ApiRequest['method'],
+    url: string,
+    options: Pick<ApiRequest, 'body' | 'params' | 'headers'> = {}
+  ): Promise<T> {
+    const response = await this.client.request<T>({ url, method, ...options });
+    return reviveDates(response.data);
+  }
+}
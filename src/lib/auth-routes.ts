@@ -0,0 +1,75 @@
+/**
+ * Auth Routes
+ *
+ * Cookie names and the page/API route lists the middleware uses to decide
+ * which requests need a session. Kept free of Node-only imports so it can
+ * run in the Edge runtime as well as in the browser.
+ *
+ * @fileoverview Edge-safe route protection configuration
+ * @version 1.0.0
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** httpOnly cookie holding the access token */
+export const SESSION_COOKIE = 'ob_session';
+
+/** httpOnly cookie holding the refresh token, scoped to `/api/auth` */
+export const REFRESH_COOKIE = 'ob_refresh';
+
+export const LOGIN_PATH = '/login';
+
+export const DEFAULT_REDIRECT = '/dashboard';
+
+/** Pages that redirect to the login page without a session */
+export const PROTECTED_PAGE_PREFIXES = [
+  '/dashboard',
+  '/goals',
+  '/settings',
+  '/smart-goals',
+];
+
+/** API routes that never require a session */
+export const PUBLIC_API_PREFIXES = [
+  '/api/auth',
+  '/api/contact',
+  '/api/health',
+  '/api/swagger',
+];
+
+// =============================================================================
+// Route Matching
+// =============================================================================
+
+const matchesPrefix = (pathname: string, prefix: string): boolean =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+export const isProtectedPage = (pathname: string): boolean =>
+  PROTECTED_PAGE_PREFIXES.some(prefix => matchesPrefix(pathname, prefix));
+
+export const isPublicApiRoute = (pathname: string): boolean =>
+  PUBLIC_API_PREFIXES.some(prefix => matchesPrefix(pathname, prefix));
+
+// =============================================================================
+// Redirects
+// =============================================================================
+
+/**
+ * Only allow same-origin paths as post-login redirects, so `?next=` cannot
+ * send users to another site.
+ */
+export const getSafeRedirect = (
+  next: string | null | undefined,
+  fallback = DEFAULT_REDIRECT
+): string =>
+  next && next.startsWith('/') && !next.startsWith('//') && !next.includes('\\')
+    ? next
+    : fallback;
+
+/** Login page URL that returns to `next` after signing in */
+export const buildLoginPath = (next?: string): string =>
+  next && next !== LOGIN_PATH
+    ? `${LOGIN_PATH}?next=${encodeURIComponent(next)}`
+    : LOGIN_PATH;
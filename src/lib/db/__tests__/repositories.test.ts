@@ -0,0 +1,422 @@
+/**
+ * Repository Tests
+ *
+ * @fileoverview Unit tests for the persistence layer
+ * @version 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { createDorDodTemplate } from '@/lib/api/shared/dor-dod-templates';
+import {
+  createMockMetricCheckpoint,
+  createMockMilestone,
+  createMockSmartGoal,
+  createMockSubtask,
+  createMockTask,
+} from '@/lib/mock-data/smart-goals';
+
+import { createDatabase, createRepositories, LATEST_SCHEMA_VERSION } from '..';
+import { DocumentStore } from '../document-store';
+import { Migration } from '../migrations';
+import { FileStorageAdapter, MemoryStorageAdapter } from '../storage';
+
+const createGoalWithChildren = () => {
+  const goal = createMockSmartGoal({
+    tasks: [],
+    milestones: [],
+    checkpoints: [],
+  });
+  const task = createMockTask(goal.id, { order: 1 });
+  task.subtasks = [createMockSubtask(task.id, { order: 1 })];
+
+  return {
+    ...goal,
+    tasks: [task],
+    milestones: [createMockMilestone(goal.id)],
+    checkpoints: [createMockMetricCheckpoint(goal.id)],
+  };
+};
+
+describe('persistence layer', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'openbase-db-'));
+    filePath = path.join(tempDir, 'data.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('file storage', () => {
+    it('should persist goals across database instances', async () => {
+      const goal = createGoalWithChildren();
+
+      await createDatabase({ filePath }).goals.create(goal);
+      const stored = await createDatabase({ filePath }).goals.findById(goal.id);
+
+      expect(stored).not.toBeNull();
+      expect(stored!.title).toBe(goal.title);
+      expect(stored!.tasks).toHaveLength(1);
+      expect(stored!.tasks[0].subtasks).toHaveLength(1);
+      expect(stored!.milestones).toHaveLength(1);
+      expect(stored!.checkpoints).toHaveLength(1);
+    });
+
+    it('should revive dates when reading from disk', async () => {
+      const goal = createGoalWithChildren();
+
+      await createDatabase({ filePath }).goals.create(goal);
+      const stored = await createDatabase({ filePath }).goals.findById(goal.id);
+
+      expect(stored!.createdAt).toBeInstanceOf(Date);
+      expect(stored!.createdAt.getTime()).toBe(goal.createdAt.getTime());
+      expect(stored!.timebound.targetDate).toBeInstanceOf(Date);
+    });
+
+    it('should see writes made by another instance', async () => {
+      const first = createDatabase({ filePath });
+      const second = createDatabase({ filePath });
+
+      expect(await first.goals.list()).toHaveLength(0);
+
+      const goal = createGoalWithChildren();
+      await second.goals.create(goal);
+
+      const listed = await first.goals.list();
+      expect(listed.map(g => g.id)).toEqual([goal.id]);
+    });
+
+    it('should not lose concurrent writes', async () => {
+      const first = createDatabase({ filePath });
+      const second = createDatabase({ filePath });
+
+      const goals = Array.from({ length: 6 }, () => createGoalWithChildren());
+      await Promise.all(
+        goals.map((goal, index) =>
+          (index % 2 === 0 ? first : second).goals.create(goal)
+        )
+      );
+
+      expect(await first.goals.list()).toHaveLength(goals.length);
+    });
+
+    it('should seed an empty store only once', async () => {
+      const seeded = await createDatabase({
+        filePath,
+        seed: true,
+      }).goals.list();
+      expect(seeded.length).toBeGreaterThan(0);
+
+      const reopened = await createDatabase({
+        filePath,
+        seed: true,
+      }).goals.list();
+      expect(reopened).toHaveLength(seeded.length);
+    });
+  });
+
+  describe('migrations', () => {
+    it('should record applied migrations', async () => {
+      const store = new DocumentStore(new FileStorageAdapter({ filePath }));
+      const info = await store.getSchemaInfo();
+
+      expect(info.schemaVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(info.migrations.map(m => m.version)).toContain(1);
+    });
+
+    it('should apply new migrations to an existing store', async () => {
+      const adapter = new MemoryStorageAdapter();
+      await new DocumentStore(adapter).getSchemaInfo();
+
+      const up = jest.fn();
+      const extra: Migration = { version: 999, name: 'test_migration', up };
+      const store = new DocumentStore(adapter, {
+        migrations: [
+          { version: 1, name: 'create_core_tables', up: jest.fn() },
+          extra,
+        ],
+      });
+
+      const info = await store.getSchemaInfo();
+      expect(up).toHaveBeenCalledTimes(1);
+      expect(info.schemaVersion).toBe(999);
+    });
+  });
+
+  describe('repositories', () => {
+    it('should replace child collections present on save', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create(goal);
+
+      const saved = await db.goals.save({ ...goal, tasks: [] });
+
+      expect(saved.tasks).toHaveLength(0);
+      expect(saved.milestones).toHaveLength(1);
+      expect(await db.subtasks.listByTask(goal.tasks[0].id)).toHaveLength(0);
+    });
+
+    it('should cascade permanent goal deletion', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create(goal);
+
+      expect(await db.goals.delete(goal.id)).toBe(true);
+      expect(await db.goals.findById(goal.id)).toBeNull();
+      expect(await db.tasks.findById(goal.tasks[0].id)).toBeNull();
+      expect(await db.checkpoints.listByGoal(goal.id)).toHaveLength(0);
+    });
+
+    it('should store one canvas layout per goal and drop it with the goal', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create(goal);
+
+      const layout = {
+        goalId: goal.id,
+        positions: { [`goal:${goal.id}`]: { x: 10, y: 20 } },
+        connections: [],
+        viewport: { x: 0, y: 0, zoom: 1 },
+        showGrid: true,
+        updatedAt: new Date(),
+      };
+      await db.canvasLayouts.save(layout);
+      await db.canvasLayouts.save({ ...layout, showGrid: false });
+
+      expect((await db.canvasLayouts.findByGoal(goal.id))?.showGrid).toBe(
+        false
+      );
+
+      await db.goals.delete(goal.id);
+      expect(await db.canvasLayouts.findByGoal(goal.id)).toBeNull();
+    });
+
+    it('should store one review per goal and drop it with the goal', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create(goal);
+
+      const review = {
+        goalId: goal.id,
+        status: 'pending' as const,
+        reviewers: [{ userId: goal.ownerId }],
+        requiredApprovals: 1,
+        round: 1,
+        comments: [],
+        events: [],
+        updatedAt: new Date(),
+      };
+      await db.reviews.save(review);
+      await db.reviews.save({ ...review, status: 'approved' });
+
+      expect((await db.reviews.findByGoal(goal.id))?.status).toBe('approved');
+
+      await db.goals.delete(goal.id);
+      expect(await db.reviews.findByGoal(goal.id)).toBeNull();
+    });
+
+    it('should store DoR/DoD state per goal and task with cascades', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create(goal);
+
+      const state = (type: 'goal' | 'task', id: string) => ({
+        targetType: type,
+        targetId: id,
+        goalId: goal.id,
+        dorCriteria: [],
+        dodCriteria: [],
+        timeTracking: {},
+        approvalWorkflow: { comments: [], status: 'none' as const },
+        auditLog: [],
+        updatedAt: new Date(),
+      });
+      const taskId = goal.tasks[0].id;
+      await db.dorDodStates.save(state('goal', goal.id));
+      await db.dorDodStates.save(state('task', taskId));
+
+      expect(await db.dorDodStates.list(goal.id)).toHaveLength(2);
+      expect(
+        await db.dorDodStates.find({ type: 'task', id: taskId })
+      ).not.toBeNull();
+
+      await db.tasks.delete(taskId);
+      expect(
+        await db.dorDodStates.find({ type: 'task', id: taskId })
+      ).toBeNull();
+
+      await db.goals.delete(goal.id);
+      expect(await db.dorDodStates.list()).toHaveLength(0);
+    });
+
+    it('should keep DoR/DoD templates independent of goals', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const template = createDorDodTemplate(
+        {
+          name: 'Release',
+          description: '',
+          category: 'custom',
+          dorCriteria: [],
+          dodCriteria: [],
+          visibility: 'organization',
+        },
+        'template-1',
+        'alice'
+      );
+
+      await db.dorDodTemplates.save(template);
+      await db.dorDodTemplates.save({ ...template, version: 2 });
+
+      expect(await db.dorDodTemplates.list()).toHaveLength(1);
+      expect((await db.dorDodTemplates.findById('template-1'))?.version).toBe(
+        2
+      );
+      expect(await db.dorDodTemplates.delete('template-1')).toBe(true);
+      expect(await db.dorDodTemplates.delete('template-1')).toBe(false);
+    });
+
+    it('should hide soft-deleted goals unless requested', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create({ ...goal, isDeleted: true });
+
+      expect(await db.goals.list()).toHaveLength(0);
+      expect(await db.goals.list({ includeDeleted: true })).toHaveLength(1);
+    });
+
+    it('should update tasks without touching subtasks', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create(goal);
+
+      const updated = await db.tasks.update(goal.tasks[0].id, {
+        title: 'Renamed task',
+      });
+
+      expect(updated!.title).toBe('Renamed task');
+      expect(updated!.subtasks).toHaveLength(1);
+    });
+
+    it('should reorder the tasks of a goal in a single write', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const db = createRepositories(new DocumentStore(adapter));
+      const goal = createGoalWithChildren();
+      const [first] = goal.tasks;
+      const second = createMockTask(goal.id, { order: 2 });
+      await db.goals.create({ ...goal, tasks: [first, second] });
+      const write = jest.spyOn(adapter, 'write');
+
+      const tasks = await db.tasks.updateOrders(
+        goal.id,
+        { [second.id]: 1, [first.id]: 2 },
+        { updatedBy: 'alice' }
+      );
+
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(tasks.map(task => [task.id, task.order])).toEqual([
+        [second.id, 1],
+        [first.id, 2],
+      ]);
+      expect(tasks.every(task => task.updatedBy === 'alice')).toBe(true);
+      expect(tasks[1].subtasks).toHaveLength(1);
+    });
+
+    it('should not reorder any task when one is outside the goal', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create(goal);
+
+      await expect(
+        db.tasks.updateOrders(goal.id, { [goal.tasks[0].id]: 2, other: 1 })
+      ).rejects.toThrow('Task "other" does not belong to goal');
+
+      expect((await db.tasks.findById(goal.tasks[0].id))?.order).toBe(1);
+    });
+
+    it('should return copies that do not alias stored data', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const goal = createGoalWithChildren();
+      await db.goals.create(goal);
+
+      const first = await db.goals.findById(goal.id);
+      first!.tags.push('mutated');
+
+      const second = await db.goals.findById(goal.id);
+      expect(second!.tags).not.toContain('mutated');
+    });
+
+    it('should find users by email regardless of case', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const now = new Date();
+      await db.users.create({
+        id: 'user-1',
+        email: 'Ann@Example.com',
+        name: 'Ann',
+        passwordHash: 'hash',
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      expect((await db.users.findByEmail('ann@example.COM'))?.id).toBe(
+        'user-1'
+      );
+      await expect(
+        db.users.create({
+          id: 'user-2',
+          email: 'ann@example.com',
+          name: 'Other Ann',
+          passwordHash: 'hash',
+          createdAt: now,
+          updatedAt: now,
+        })
+      ).rejects.toThrow();
+    });
+
+    it('should revoke sessions and invalidate reset tokens per user', async () => {
+      const db = createDatabase({ storage: 'memory' });
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + 60_000);
+      for (const [id, userId] of [
+        ['session-1', 'user-1'],
+        ['session-2', 'user-1'],
+        ['session-3', 'user-2'],
+      ]) {
+        await db.sessions.create({
+          id,
+          userId,
+          refreshTokenHash: 'hash',
+          createdAt: now,
+          lastUsedAt: now,
+          expiresAt,
+        });
+        await db.passwordResets.create({
+          id: `reset-${id}`,
+          userId,
+          tokenHash: `hash-${id}`,
+          createdAt: now,
+          expiresAt,
+        });
+      }
+
+      expect(await db.sessions.revokeAllForUser('user-1')).toBe(2);
+      expect(await db.sessions.revokeAllForUser('user-1')).toBe(0);
+      expect((await db.sessions.findById('session-3'))?.revokedAt).toBe(
+        undefined
+      );
+
+      expect(await db.passwordResets.invalidateForUser('user-1')).toBe(2);
+      expect(
+        (await db.passwordResets.findByTokenHash('hash-session-1'))?.usedAt
+      ).toBeDefined();
+      expect(
+        (await db.passwordResets.findByTokenHash('hash-session-3'))?.usedAt
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Document Store
+ *
+ * Wraps a StorageAdapter with:
+ * - Lazy initialization and schema migrations
+ * - A read cache that is invalidated when another process writes
+ * - Serialized read-modify-write transactions
+ *
+ * @fileoverview Transactional document store used by the repositories
+ * @version 1.0.0
+ */
+
+import {
+  createEmptySnapshot,
+  Migration,
+  migrations,
+  runMigrations,
+} from './migrations';
+import { deserializeSnapshot, serializeSnapshot } from './storage';
+import type { DatabaseSnapshot, StorageAdapter } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Tables = DatabaseSnapshot['tables'];
+
+export interface DocumentStoreOptions {
+  /** Migrations to apply (defaults to the built-in list) */
+  migrations?: Migration[];
+  /** Populate a freshly created store */
+  seed?: (tables: Tables) => void;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Deep clone a value while preserving Date instances */
+export const cloneValue = <T>(value: T): T => {
+  if (value === undefined) return value;
+  const wrapped = { value } as unknown as DatabaseSnapshot;
+  return (
+    deserializeSnapshot(serializeSnapshot(wrapped)) as unknown as { value: T }
+  ).value;
+};
+
+// =============================================================================
+// Document Store
+// =============================================================================
+
+export class DocumentStore {
+  private readonly adapter: StorageAdapter;
+  private readonly options: DocumentStoreOptions;
+  private cache: DatabaseSnapshot | null = null;
+  private cacheToken: string | null = null;
+  private initialization: Promise<void> | null = null;
+
+  constructor(adapter: StorageAdapter, options: DocumentStoreOptions = {}) {
+    this.adapter = adapter;
+    this.options = options;
+  }
+
+  /**
+   * Run a read-only query against the current data.
+   * The callback receives live tables; return cloned data only.
+   */
+  async read<T>(query: (tables: Tables) => T): Promise<T> {
+    await this.initialize();
+
+    const token = await this.adapter.getVersionToken();
+    if (!this.cache || token !== this.cacheToken) {
+      await this.reload();
+    }
+
+    return cloneValue(query(this.cache!.tables));
+  }
+
+  /**
+   * Run a read-modify-write transaction. The callback may mutate the tables;
+   * changes are persisted only if it returns without throwing.
+   */
+  async transaction<T>(mutation: (tables: Tables) => T): Promise<T> {
+    await this.initialize();
+
+    return this.adapter.withLock(async () => {
+      const snapshot = await this.loadSnapshot();
+      const result = mutation(snapshot.tables);
+
+      await this.adapter.write(snapshot);
+      this.cache = snapshot;
+      this.cacheToken = await this.adapter.getVersionToken();
+
+      return cloneValue(result);
+    });
+  }
+
+  /** Schema version and applied migrations of the underlying storage */
+  async getSchemaInfo(): Promise<
+    Pick<DatabaseSnapshot, 'schemaVersion' | 'migrations'>
+  > {
+    await this.initialize();
+    await this.reload();
+    return cloneValue({
+      schemaVersion: this.cache!.schemaVersion,
+      migrations: this.cache!.migrations,
+    });
+  }
+
+  // ===========================================================================
+  // Internals
+  // ===========================================================================
+
+  private initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.adapter
+        .withLock(async () => {
+          const existing = await this.adapter.read();
+          const snapshot = existing ?? createEmptySnapshot();
+          const migrated = runMigrations(
+            snapshot,
+            this.options.migrations ?? migrations
+          );
+
+          if (!existing && this.options.seed) {
+            this.options.seed(snapshot.tables);
+          }
+
+          if (!existing || migrated) {
+            await this.adapter.write(snapshot);
+          }
+
+          this.cache = snapshot;
+          this.cacheToken = await this.adapter.getVersionToken();
+        })
+        .catch(error => {
+          // Allow a later call to retry initialization
+          this.initialization = null;
+          throw error;
+        });
+    }
+
+    return this.initialization;
+  }
+
+  private async reload(): Promise<void> {
+    this.cache = await this.loadSnapshot();
+    this.cacheToken = await this.adapter.getVersionToken();
+  }
+
+  private async loadSnapshot(): Promise<DatabaseSnapshot> {
+    const snapshot = (await this.adapter.read()) ?? createEmptySnapshot();
+    // Another process may have written with an older build
+    runMigrations(snapshot, this.options.migrations ?? migrations);
+    return snapshot;
+  }
+}
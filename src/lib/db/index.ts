@@ -0,0 +1,93 @@
+/**
+ * Persistence Layer
+ *
+ * Server-only entry point for durable storage. API route handlers obtain
+ * repositories through `getDatabase()`; tests create isolated instances with
+ * `createDatabase({ storage: 'memory' })` or point at a temporary file.
+ *
+ * The data file lives in `DATA_DIR` (default `.data/`). Every server process
+ * pointing at the same directory shares the same data.
+ *
+ * @fileoverview Database factory and shared instance
+ * @version 1.0.0
+ */
+
+import path from 'path';
+
+import { env } from '@/lib/env';
+import { createSampleGoalsDataset } from '@/lib/mock-data/smart-goals';
+
+import { DocumentStore } from './document-store';
+import { createRepositories, seedGoals } from './repositories';
+import { FileStorageAdapter, MemoryStorageAdapter } from './storage';
+import type { Database } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CreateDatabaseOptions {
+  /** Storage backend (default: 'file') */
+  storage?: 'file' | 'memory';
+  /** Data file path when using file storage */
+  filePath?: string;
+  /** Populate an empty store with the sample goals dataset */
+  seed?: boolean;
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+export const DEFAULT_DATA_FILE = 'openbase.json';
+
+/** Create a database instance with its own store */
+export const createDatabase = (
+  options: CreateDatabaseOptions = {}
+): Database => {
+  const adapter =
+    options.storage === 'memory'
+      ? new MemoryStorageAdapter()
+      : new FileStorageAdapter({
+          filePath:
+            options.filePath ?? path.join(env.DATA_DIR, DEFAULT_DATA_FILE),
+        });
+
+  const store = new DocumentStore(adapter, {
+    seed: options.seed
+      ? tables => seedGoals(tables, createSampleGoalsDataset())
+      : undefined,
+  });
+
+  return createRepositories(store);
+};
+
+// =============================================================================
+// Shared Instance
+// =============================================================================
+
+// Kept on globalThis so hot reloading in development reuses one instance
+const globalForDatabase = globalThis as typeof globalThis & {
+  __openbaseDatabase?: Database;
+};
+
+/** Shared database used by the API route handlers */
+export const getDatabase = (): Database => {
+  if (!globalForDatabase.__openbaseDatabase) {
+    globalForDatabase.__openbaseDatabase = createDatabase({
+      seed: env.NODE_ENV === 'development',
+    });
+  }
+  return globalForDatabase.__openbaseDatabase;
+};
+
+/** Replace the shared database (for tests) */
+export const setDatabase = (database: Database | undefined): void => {
+  globalForDatabase.__openbaseDatabase = database;
+};
+
+export { DocumentStore, cloneValue } from './document-store';
+export { LATEST_SCHEMA_VERSION, migrations, runMigrations } from './migrations';
+export { createRepositories, seedGoals } from './repositories';
+export { FileStorageAdapter, MemoryStorageAdapter } from './storage';
+export type * from './types';
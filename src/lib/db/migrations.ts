@@ -0,0 +1,119 @@
+/**
+ * Data Store Migrations
+ *
+ * Ordered, forward-only migrations applied by the DocumentStore whenever a
+ * snapshot with an older `schemaVersion` is loaded. Each migration mutates
+ * the snapshot in place; never edit a migration that has shipped, add a new
+ * one instead.
+ *
+ * @fileoverview Schema migrations for the document store
+ * @version 1.0.0
+ */
+
+import type { DatabaseSnapshot } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (snapshot: DatabaseSnapshot) => void;
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_core_tables',
+    up: snapshot => {
+      snapshot.tables.goals ??= {};
+      snapshot.tables.tasks ??= {};
+      snapshot.tables.subtasks ??= {};
+      snapshot.tables.milestones ??= {};
+      snapshot.tables.checkpoints ??= {};
+    },
+  },
+  {
+    version: 2,
+    name: 'create_auth_tables',
+    up: snapshot => {
+      snapshot.tables.users ??= {};
+      snapshot.tables.sessions ??= {};
+      snapshot.tables.passwordResets ??= {};
+    },
+  },
+  {
+    version: 3,
+    name: 'create_canvas_layouts_table',
+    up: snapshot => {
+      snapshot.tables.canvasLayouts ??= {};
+    },
+  },
+  {
+    version: 4,
+    name: 'create_reviews_table',
+    up: snapshot => {
+      snapshot.tables.reviews ??= {};
+    },
+  },
+  {
+    version: 5,
+    name: 'create_dor_dod_states_table',
+    up: snapshot => {
+      snapshot.tables.dorDodStates ??= {};
+    },
+  },
+  {
+    version: 6,
+    name: 'create_dor_dod_templates_table',
+    up: snapshot => {
+      snapshot.tables.dorDodTemplates ??= {};
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  0
+);
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+/** Create an empty snapshot at schema version 0 */
+export const createEmptySnapshot = (): DatabaseSnapshot => ({
+  schemaVersion: 0,
+  migrations: [],
+  tables: {} as DatabaseSnapshot['tables'],
+});
+
+/**
+ * Apply all pending migrations to a snapshot.
+ * Returns true when at least one migration ran.
+ */
+export const runMigrations = (
+  snapshot: DatabaseSnapshot,
+  available: Migration[] = migrations
+): boolean => {
+  const pending = available
+    .filter(migration => migration.version > snapshot.schemaVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    migration.up(snapshot);
+    snapshot.schemaVersion = migration.version;
+    snapshot.migrations.push({
+      version: migration.version,
+      name: migration.name,
+      appliedAt: new Date(),
+    });
+  }
+
+  return pending.length > 0;
+};
@@ -0,0 +1,780 @@
+/**
+ * Repositories
+ *
+ * Entity-level access to the document store. Goals are returned with their
+ * tasks (including subtasks), milestones and checkpoints attached, matching
+ * the `SmartGoal` shape the API has always returned.
+ *
+ * @fileoverview Repository implementations on top of the DocumentStore
+ * @version 1.0.0
+ */
+
+import type {
+  AuthSession,
+  PasswordResetToken,
+  UserAccount,
+} from '@/types/auth.types';
+import type { CanvasLayout } from '@/types/canvas.types';
+import type {
+  DorDodTarget,
+  StoredDorDodState,
+  StoredDorDodTemplate,
+} from '@/types/dor-dod.types';
+import type { GoalReview } from '@/types/review.types';
+import type {
+  MetricCheckpoint,
+  Milestone,
+  SmartGoal,
+  Subtask,
+  Task,
+} from '@/types/smart-goals.types';
+
+import type { DocumentStore, Tables } from './document-store';
+import type {
+  CanvasLayoutRepository,
+  CheckpointRepository,
+  Database,
+  DorDodStateRepository,
+  DorDodTemplateRepository,
+  GoalRecord,
+  GoalRepository,
+  ListOptions,
+  MilestoneRepository,
+  PasswordResetRepository,
+  ReviewRepository,
+  SessionRepository,
+  SubtaskRepository,
+  TaskRecord,
+  TaskRepository,
+  UserRepository,
+} from './types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const byOrder = <T extends { order: number }>(a: T, b: T) => a.order - b.order;
+
+const byRecordedDateDesc = (a: MetricCheckpoint, b: MetricCheckpoint) =>
+  new Date(b.recordedDate).getTime() - new Date(a.recordedDate).getTime();
+
+const isVisible = (
+  record: { isDeleted?: boolean },
+  options: ListOptions = {}
+): boolean => options.includeDeleted || !record.isDeleted;
+
+const toTaskRecord = (task: Task): TaskRecord => {
+  const record: Partial<Task> = { ...task };
+  delete record.subtasks;
+  return record as TaskRecord;
+};
+
+const toGoalRecord = (goal: SmartGoal): GoalRecord => {
+  const record: Partial<SmartGoal> = { ...goal };
+  delete record.tasks;
+  delete record.milestones;
+  delete record.checkpoints;
+  return record as GoalRecord;
+};
+
+const hydrateTask = (
+  tables: Tables,
+  task: TaskRecord,
+  options?: ListOptions
+): Task => ({
+  ...task,
+  subtasks: Object.values(tables.subtasks)
+    .filter(
+      subtask => subtask.taskId === task.id && isVisible(subtask, options)
+    )
+    .sort(byOrder),
+});
+
+const hydrateGoal = (tables: Tables, goal: GoalRecord): SmartGoal => ({
+  ...goal,
+  tasks: Object.values(tables.tasks)
+    .filter(task => task.goalId === goal.id && !task.isDeleted)
+    .sort(byOrder)
+    .map(task => hydrateTask(tables, task)),
+  milestones: Object.values(tables.milestones)
+    .filter(milestone => milestone.goalId === goal.id && !milestone.isDeleted)
+    .sort(byOrder),
+  checkpoints: Object.values(tables.checkpoints)
+    .filter(checkpoint => checkpoint.goalId === goal.id)
+    .sort(byRecordedDateDesc),
+});
+
+const dorDodKey = (target: DorDodTarget): string =>
+  `${target.type}:${target.id}`;
+
+const removeTaskCascade = (tables: Tables, taskId: string): void => {
+  delete tables.tasks[taskId];
+  delete tables.dorDodStates[dorDodKey({ type: 'task', id: taskId })];
+  for (const subtask of Object.values(tables.subtasks)) {
+    if (subtask.taskId === taskId) {
+      delete tables.subtasks[subtask.id];
+    }
+  }
+};
+
+const removeGoalChildren = (tables: Tables, goalId: string): void => {
+  for (const task of Object.values(tables.tasks)) {
+    if (task.goalId === goalId) {
+      removeTaskCascade(tables, task.id);
+    }
+  }
+  for (const milestone of Object.values(tables.milestones)) {
+    if (milestone.goalId === goalId) {
+      delete tables.milestones[milestone.id];
+    }
+  }
+  for (const checkpoint of Object.values(tables.checkpoints)) {
+    if (checkpoint.goalId === goalId) {
+      delete tables.checkpoints[checkpoint.id];
+    }
+  }
+  delete tables.canvasLayouts[goalId];
+  delete tables.reviews[goalId];
+  delete tables.dorDodStates[dorDodKey({ type: 'goal', id: goalId })];
+};
+
+/** Store a task and its embedded subtasks */
+const insertTask = (tables: Tables, task: Task): void => {
+  tables.tasks[task.id] = toTaskRecord(task);
+  for (const subtask of task.subtasks ?? []) {
+    tables.subtasks[subtask.id] = { ...subtask, taskId: task.id };
+  }
+};
+
+/**
+ * Store a goal. Child collections that are present on the goal replace the
+ * stored ones; omitted collections are left untouched.
+ */
+const insertGoal = (tables: Tables, goal: SmartGoal): void => {
+  tables.goals[goal.id] = toGoalRecord(goal);
+
+  if (goal.tasks) {
+    for (const task of Object.values(tables.tasks)) {
+      if (task.goalId === goal.id) removeTaskCascade(tables, task.id);
+    }
+    for (const task of goal.tasks) {
+      insertTask(tables, { ...task, goalId: goal.id });
+    }
+  }
+
+  if (goal.milestones) {
+    for (const milestone of Object.values(tables.milestones)) {
+      if (milestone.goalId === goal.id) delete tables.milestones[milestone.id];
+    }
+    for (const milestone of goal.milestones) {
+      tables.milestones[milestone.id] = { ...milestone, goalId: goal.id };
+    }
+  }
+
+  if (goal.checkpoints) {
+    for (const checkpoint of Object.values(tables.checkpoints)) {
+      if (checkpoint.goalId === goal.id)
+        delete tables.checkpoints[checkpoint.id];
+    }
+    for (const checkpoint of goal.checkpoints) {
+      tables.checkpoints[checkpoint.id] = { ...checkpoint, goalId: goal.id };
+    }
+  }
+};
+
+// =============================================================================
+// Goal Repository
+// =============================================================================
+
+export class DocumentGoalRepository implements GoalRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  list(options?: ListOptions): Promise<SmartGoal[]> {
+    return this.store.read(tables =>
+      Object.values(tables.goals)
+        .filter(goal => isVisible(goal, options))
+        .map(goal => hydrateGoal(tables, goal))
+    );
+  }
+
+  findById(id: string): Promise<SmartGoal | null> {
+    return this.store.read(tables => {
+      const goal = tables.goals[id];
+      return goal ? hydrateGoal(tables, goal) : null;
+    });
+  }
+
+  create(goal: SmartGoal): Promise<SmartGoal> {
+    return this.store.transaction(tables => {
+      if (tables.goals[goal.id]) {
+        throw new Error(`Goal with id "${goal.id}" already exists`);
+      }
+      insertGoal(tables, goal);
+      return hydrateGoal(tables, tables.goals[goal.id]);
+    });
+  }
+
+  save(goal: SmartGoal): Promise<SmartGoal> {
+    return this.store.transaction(tables => {
+      insertGoal(tables, goal);
+      return hydrateGoal(tables, tables.goals[goal.id]);
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.store.transaction(tables => {
+      if (!tables.goals[id]) return false;
+      removeGoalChildren(tables, id);
+      delete tables.goals[id];
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// Task Repository
+// =============================================================================
+
+export class DocumentTaskRepository implements TaskRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  list(options?: ListOptions): Promise<Task[]> {
+    return this.store.read(tables =>
+      Object.values(tables.tasks)
+        .filter(task => isVisible(task, options))
+        .sort(byOrder)
+        .map(task => hydrateTask(tables, task))
+    );
+  }
+
+  listByGoal(goalId: string, options?: ListOptions): Promise<Task[]> {
+    return this.store.read(tables =>
+      Object.values(tables.tasks)
+        .filter(task => task.goalId === goalId && isVisible(task, options))
+        .sort(byOrder)
+        .map(task => hydrateTask(tables, task))
+    );
+  }
+
+  findById(id: string): Promise<Task | null> {
+    return this.store.read(tables => {
+      const task = tables.tasks[id];
+      return task ? hydrateTask(tables, task) : null;
+    });
+  }
+
+  create(task: Task): Promise<Task> {
+    return this.store.transaction(tables => {
+      if (tables.tasks[task.id]) {
+        throw new Error(`Task with id "${task.id}" already exists`);
+      }
+      insertTask(tables, task);
+      return hydrateTask(tables, tables.tasks[task.id]);
+    });
+  }
+
+  update(id: string, updates: Partial<Task>): Promise<Task | null> {
+    return this.store.transaction(tables => {
+      const existing = tables.tasks[id];
+      if (!existing) return null;
+
+      const { subtasks } = updates;
+      tables.tasks[id] = {
+        ...toTaskRecord({ ...existing, ...updates, subtasks: [] }),
+        id,
+      };
+
+      if (subtasks) {
+        for (const subtask of Object.values(tables.subtasks)) {
+          if (subtask.taskId === id) delete tables.subtasks[subtask.id];
+        }
+        for (const subtask of subtasks) {
+          tables.subtasks[subtask.id] = { ...subtask, taskId: id };
+        }
+      }
+
+      return hydrateTask(tables, tables.tasks[id]);
+    });
+  }
+
+  updateOrders(
+    goalId: string,
+    orders: Record<string, number>,
+    updates: Partial<Task> = {}
+  ): Promise<Task[]> {
+    return this.store.transaction(tables => {
+      for (const [id, order] of Object.entries(orders)) {
+        const existing = tables.tasks[id];
+        if (existing?.goalId !== goalId) {
+          throw new Error(`Task "${id}" does not belong to goal "${goalId}"`);
+        }
+        tables.tasks[id] = {
+          ...toTaskRecord({ ...existing, ...updates, subtasks: [] }),
+          id,
+          goalId,
+          order,
+        };
+      }
+
+      return Object.values(tables.tasks)
+        .filter(task => task.goalId === goalId && isVisible(task))
+        .sort(byOrder)
+        .map(task => hydrateTask(tables, task));
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.store.transaction(tables => {
+      if (!tables.tasks[id]) return false;
+      removeTaskCascade(tables, id);
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// Subtask Repository
+// =============================================================================
+
+export class DocumentSubtaskRepository implements SubtaskRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  listByTask(taskId: string, options?: ListOptions): Promise<Subtask[]> {
+    return this.store.read(tables =>
+      Object.values(tables.subtasks)
+        .filter(
+          subtask => subtask.taskId === taskId && isVisible(subtask, options)
+        )
+        .sort(byOrder)
+    );
+  }
+
+  findById(id: string): Promise<Subtask | null> {
+    return this.store.read(tables => tables.subtasks[id] ?? null);
+  }
+
+  create(subtask: Subtask): Promise<Subtask> {
+    return this.store.transaction(tables => {
+      if (tables.subtasks[subtask.id]) {
+        throw new Error(`Subtask with id "${subtask.id}" already exists`);
+      }
+      tables.subtasks[subtask.id] = subtask;
+      return subtask;
+    });
+  }
+
+  update(id: string, updates: Partial<Subtask>): Promise<Subtask | null> {
+    return this.store.transaction(tables => {
+      const existing = tables.subtasks[id];
+      if (!existing) return null;
+      tables.subtasks[id] = { ...existing, ...updates, id };
+      return tables.subtasks[id];
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.store.transaction(tables => {
+      if (!tables.subtasks[id]) return false;
+      delete tables.subtasks[id];
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// Milestone Repository
+// =============================================================================
+
+export class DocumentMilestoneRepository implements MilestoneRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  listByGoal(goalId: string, options?: ListOptions): Promise<Milestone[]> {
+    return this.store.read(tables =>
+      Object.values(tables.milestones)
+        .filter(
+          milestone =>
+            milestone.goalId === goalId && isVisible(milestone, options)
+        )
+        .sort(byOrder)
+    );
+  }
+
+  findById(id: string): Promise<Milestone | null> {
+    return this.store.read(tables => tables.milestones[id] ?? null);
+  }
+
+  create(milestone: Milestone): Promise<Milestone> {
+    return this.store.transaction(tables => {
+      if (tables.milestones[milestone.id]) {
+        throw new Error(`Milestone with id "${milestone.id}" already exists`);
+      }
+      tables.milestones[milestone.id] = milestone;
+      return milestone;
+    });
+  }
+
+  update(id: string, updates: Partial<Milestone>): Promise<Milestone | null> {
+    return this.store.transaction(tables => {
+      const existing = tables.milestones[id];
+      if (!existing) return null;
+      tables.milestones[id] = { ...existing, ...updates, id };
+      return tables.milestones[id];
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.store.transaction(tables => {
+      if (!tables.milestones[id]) return false;
+      delete tables.milestones[id];
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// Checkpoint Repository
+// =============================================================================
+
+export class DocumentCheckpointRepository implements CheckpointRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  listByGoal(goalId: string): Promise<MetricCheckpoint[]> {
+    return this.store.read(tables =>
+      Object.values(tables.checkpoints)
+        .filter(checkpoint => checkpoint.goalId === goalId)
+        .sort(byRecordedDateDesc)
+    );
+  }
+
+  findById(id: string): Promise<MetricCheckpoint | null> {
+    return this.store.read(tables => tables.checkpoints[id] ?? null);
+  }
+
+  create(checkpoint: MetricCheckpoint): Promise<MetricCheckpoint> {
+    return this.store.transaction(tables => {
+      if (tables.checkpoints[checkpoint.id]) {
+        throw new Error(`Checkpoint with id "${checkpoint.id}" already exists`);
+      }
+      tables.checkpoints[checkpoint.id] = checkpoint;
+      return checkpoint;
+    });
+  }
+
+  update(
+    id: string,
+    updates: Partial<MetricCheckpoint>
+  ): Promise<MetricCheckpoint | null> {
+    return this.store.transaction(tables => {
+      const existing = tables.checkpoints[id];
+      if (!existing) return null;
+      tables.checkpoints[id] = { ...existing, ...updates, id };
+      return tables.checkpoints[id];
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.store.transaction(tables => {
+      if (!tables.checkpoints[id]) return false;
+      delete tables.checkpoints[id];
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// User Repository
+// =============================================================================
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export class DocumentUserRepository implements UserRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  findById(id: string): Promise<UserAccount | null> {
+    return this.store.read(tables => tables.users[id] ?? null);
+  }
+
+  findByEmail(email: string): Promise<UserAccount | null> {
+    const normalized = normalizeEmail(email);
+    return this.store.read(
+      tables =>
+        Object.values(tables.users).find(user => user.email === normalized) ??
+        null
+    );
+  }
+
+  create(user: UserAccount): Promise<UserAccount> {
+    return this.store.transaction(tables => {
+      const email = normalizeEmail(user.email);
+      if (tables.users[user.id]) {
+        throw new Error(`User with id "${user.id}" already exists`);
+      }
+      if (Object.values(tables.users).some(u => u.email === email)) {
+        throw new Error(`User with email "${email}" already exists`);
+      }
+      tables.users[user.id] = { ...user, email };
+      return tables.users[user.id];
+    });
+  }
+
+  update(
+    id: string,
+    updates: Partial<UserAccount>
+  ): Promise<UserAccount | null> {
+    return this.store.transaction(tables => {
+      const existing = tables.users[id];
+      if (!existing) return null;
+      tables.users[id] = {
+        ...existing,
+        ...updates,
+        id,
+        email: normalizeEmail(updates.email ?? existing.email),
+      };
+      return tables.users[id];
+    });
+  }
+}
+
+// =============================================================================
+// Session Repository
+// =============================================================================
+
+export class DocumentSessionRepository implements SessionRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  findById(id: string): Promise<AuthSession | null> {
+    return this.store.read(tables => tables.sessions[id] ?? null);
+  }
+
+  create(session: AuthSession): Promise<AuthSession> {
+    return this.store.transaction(tables => {
+      if (tables.sessions[session.id]) {
+        throw new Error(`Session with id "${session.id}" already exists`);
+      }
+      tables.sessions[session.id] = session;
+      return session;
+    });
+  }
+
+  update(
+    id: string,
+    updates: Partial<AuthSession>
+  ): Promise<AuthSession | null> {
+    return this.store.transaction(tables => {
+      const existing = tables.sessions[id];
+      if (!existing) return null;
+      tables.sessions[id] = { ...existing, ...updates, id };
+      return tables.sessions[id];
+    });
+  }
+
+  revokeAllForUser(userId: string, revokedAt = new Date()): Promise<number> {
+    return this.store.transaction(tables => {
+      let revoked = 0;
+      for (const session of Object.values(tables.sessions)) {
+        if (session.userId === userId && !session.revokedAt) {
+          session.revokedAt = revokedAt;
+          revoked++;
+        }
+      }
+      return revoked;
+    });
+  }
+}
+
+// =============================================================================
+// Password Reset Repository
+// =============================================================================
+
+export class DocumentPasswordResetRepository
+  implements PasswordResetRepository
+{
+  constructor(private readonly store: DocumentStore) {}
+
+  findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    return this.store.read(
+      tables =>
+        Object.values(tables.passwordResets).find(
+          token => token.tokenHash === tokenHash
+        ) ?? null
+    );
+  }
+
+  create(token: PasswordResetToken): Promise<PasswordResetToken> {
+    return this.store.transaction(tables => {
+      tables.passwordResets[token.id] = token;
+      return token;
+    });
+  }
+
+  invalidateForUser(userId: string, usedAt = new Date()): Promise<number> {
+    return this.store.transaction(tables => {
+      let invalidated = 0;
+      for (const token of Object.values(tables.passwordResets)) {
+        if (token.userId === userId && !token.usedAt) {
+          token.usedAt = usedAt;
+          invalidated++;
+        }
+      }
+      return invalidated;
+    });
+  }
+}
+
+// =============================================================================
+// Canvas Layout Repository
+// =============================================================================
+
+export class DocumentCanvasLayoutRepository implements CanvasLayoutRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  findByGoal(goalId: string): Promise<CanvasLayout | null> {
+    return this.store.read(tables => tables.canvasLayouts[goalId] ?? null);
+  }
+
+  save(layout: CanvasLayout): Promise<CanvasLayout> {
+    return this.store.transaction(tables => {
+      tables.canvasLayouts[layout.goalId] = layout;
+      return layout;
+    });
+  }
+
+  delete(goalId: string): Promise<boolean> {
+    return this.store.transaction(tables => {
+      if (!tables.canvasLayouts[goalId]) return false;
+      delete tables.canvasLayouts[goalId];
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// Review Repository
+// =============================================================================
+
+export class DocumentReviewRepository implements ReviewRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  findByGoal(goalId: string): Promise<GoalReview | null> {
+    return this.store.read(tables => tables.reviews[goalId] ?? null);
+  }
+
+  save(review: GoalReview): Promise<GoalReview> {
+    return this.store.transaction(tables => {
+      tables.reviews[review.goalId] = review;
+      return review;
+    });
+  }
+
+  delete(goalId: string): Promise<boolean> {
+    return this.store.transaction(tables => {
+      if (!tables.reviews[goalId]) return false;
+      delete tables.reviews[goalId];
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// DoR/DoD State Repository
+// =============================================================================
+
+export class DocumentDorDodStateRepository implements DorDodStateRepository {
+  constructor(private readonly store: DocumentStore) {}
+
+  find(target: DorDodTarget): Promise<StoredDorDodState | null> {
+    return this.store.read(
+      tables => tables.dorDodStates[dorDodKey(target)] ?? null
+    );
+  }
+
+  list(goalId?: string): Promise<StoredDorDodState[]> {
+    return this.store.read(tables =>
+      Object.values(tables.dorDodStates).filter(
+        state => !goalId || state.goalId === goalId
+      )
+    );
+  }
+
+  save(state: StoredDorDodState): Promise<StoredDorDodState> {
+    return this.store.transaction(tables => {
+      tables.dorDodStates[
+        dorDodKey({ type: state.targetType, id: state.targetId })
+      ] = state;
+      return state;
+    });
+  }
+
+  delete(target: DorDodTarget): Promise<boolean> {
+    return this.store.transaction(tables => {
+      const key = dorDodKey(target);
+      if (!tables.dorDodStates[key]) return false;
+      delete tables.dorDodStates[key];
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// DoR/DoD Template Repository
+// =============================================================================
+
+export class DocumentDorDodTemplateRepository
+  implements DorDodTemplateRepository
+{
+  constructor(private readonly store: DocumentStore) {}
+
+  list(): Promise<StoredDorDodTemplate[]> {
+    return this.store.read(tables => Object.values(tables.dorDodTemplates));
+  }
+
+  findById(id: string): Promise<StoredDorDodTemplate | null> {
+    return this.store.read(tables => tables.dorDodTemplates[id] ?? null);
+  }
+
+  save(template: StoredDorDodTemplate): Promise<StoredDorDodTemplate> {
+    return this.store.transaction(tables => {
+      tables.dorDodTemplates[template.id] = template;
+      return template;
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.store.transaction(tables => {
+      if (!tables.dorDodTemplates[id]) return false;
+      delete tables.dorDodTemplates[id];
+      return true;
+    });
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/** Build the full set of repositories on top of a store */
+export const createRepositories = (store: DocumentStore): Database => ({
+  goals: new DocumentGoalRepository(store),
+  tasks: new DocumentTaskRepository(store),
+  subtasks: new DocumentSubtaskRepository(store),
+  milestones: new DocumentMilestoneRepository(store),
+  checkpoints: new DocumentCheckpointRepository(store),
+  users: new DocumentUserRepository(store),
+  sessions: new DocumentSessionRepository(store),
+  passwordResets: new DocumentPasswordResetRepository(store),
+  canvasLayouts: new DocumentCanvasLayoutRepository(store),
+  reviews: new DocumentReviewRepository(store),
+  dorDodStates: new DocumentDorDodStateRepository(store),
+  dorDodTemplates: new DocumentDorDodTemplateRepository(store),
+  ping: async () => {
+    await store.read(tables => Object.keys(tables.goals).length);
+    return true;
+  },
+});
+
+/** Seed helper: store complete goals with all of their children */
+export const seedGoals = (tables: Tables, goals: SmartGoal[]): void => {
+  for (const goal of goals) {
+    insertGoal(tables, goal);
+  }
+};
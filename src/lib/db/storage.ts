@@ -0,0 +1,209 @@
+/**
+ * Storage Adapters
+ *
+ * - FileStorageAdapter: JSON file on disk with atomic writes and a lock file,
+ *   so several server processes can share one data directory
+ * - MemoryStorageAdapter: in-process storage for tests and Storybook
+ *
+ * Dates are written as `{ "$date": "<ISO string>" }` and revived on read so
+ * that stored entities keep their `Date` fields.
+ *
+ * @fileoverview Storage backends for the document store
+ * @version 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import type { DatabaseSnapshot, StorageAdapter } from './types';
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+const DATE_TAG = '$date';
+
+/** Serialize a snapshot, tagging Date instances so they survive a round-trip */
+export const serializeSnapshot = (snapshot: DatabaseSnapshot): string =>
+  JSON.stringify(
+    snapshot,
+    function (this: Record<string, unknown>, key: string, value: unknown) {
+      const raw = this[key];
+      if (raw instanceof Date) {
+        return { [DATE_TAG]: raw.toISOString() };
+      }
+      return value;
+    }
+  );
+
+/** Parse a serialized snapshot, reviving tagged dates */
+export const deserializeSnapshot = (content: string): DatabaseSnapshot =>
+  JSON.parse(content, (_key, value) => {
+    if (
+      value &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      Object.keys(value).length === 1 &&
+      typeof value[DATE_TAG] === 'string'
+    ) {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  });
+
+// =============================================================================
+// In-Process Mutex
+// =============================================================================
+
+/** Serializes async critical sections within a single process */
+class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = this.tail;
+    let release!: () => void;
+    this.tail = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+}
+
+// =============================================================================
+// File Storage
+// =============================================================================
+
+export interface FileStorageOptions {
+  /** Path of the JSON data file */
+  filePath: string;
+  /** How long to wait for the lock before giving up (ms) */
+  lockTimeout?: number;
+  /** Age after which an abandoned lock file is removed (ms) */
+  staleLockAge?: number;
+}
+
+export class FileStorageAdapter implements StorageAdapter {
+  private readonly filePath: string;
+  private readonly lockPath: string;
+  private readonly lockTimeout: number;
+  private readonly staleLockAge: number;
+  private readonly mutex = new Mutex();
+
+  constructor(options: FileStorageOptions) {
+    this.filePath = path.resolve(options.filePath);
+    this.lockPath = `${this.filePath}.lock`;
+    this.lockTimeout = options.lockTimeout ?? 5000;
+    this.staleLockAge = options.staleLockAge ?? 10000;
+  }
+
+  async read(): Promise<DatabaseSnapshot | null> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return deserializeSnapshot(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(snapshot: DatabaseSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial file
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, serializeSnapshot(snapshot), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async getVersionToken(): Promise<string | null> {
+    try {
+      const stats = await fs.stat(this.filePath);
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.mutex.run(async () => {
+      await this.acquireFileLock();
+      try {
+        return await fn();
+      } finally {
+        await fs.rm(this.lockPath, { force: true });
+      }
+    });
+  }
+
+  private async acquireFileLock(): Promise<void> {
+    await fs.mkdir(path.dirname(this.lockPath), { recursive: true });
+    const startedAt = Date.now();
+
+    while (true) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // Another process holds the lock; remove it if it was abandoned
+      try {
+        const stats = await fs.stat(this.lockPath);
+        if (Date.now() - stats.mtimeMs > this.staleLockAge) {
+          await fs.rm(this.lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        continue;
+      }
+
+      if (Date.now() - startedAt > this.lockTimeout) {
+        throw new Error(
+          `Timed out waiting for data store lock: ${this.lockPath}`
+        );
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  }
+}
+
+// =============================================================================
+// Memory Storage
+// =============================================================================
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private content: string | null = null;
+  private version = 0;
+  private readonly mutex = new Mutex();
+
+  async read(): Promise<DatabaseSnapshot | null> {
+    return this.content ? deserializeSnapshot(this.content) : null;
+  }
+
+  async write(snapshot: DatabaseSnapshot): Promise<void> {
+    this.content = serializeSnapshot(snapshot);
+    this.version++;
+  }
+
+  async getVersionToken(): Promise<string | null> {
+    return this.content ? String(this.version) : null;
+  }
+
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.mutex.run(fn);
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Persistence Layer Type Definitions
+ *
+ * Record shapes stored by the document store and the repository contracts
+ * used by the API route handlers. Goals and tasks are stored normalized:
+ * child collections live in their own tables and are re-assembled by the
+ * repositories, so handlers keep working with full `SmartGoal` objects.
+ *
+ * @fileoverview Types for the server-side persistence layer
+ * @version 1.0.0
+ */
+
+import type {
+  AuthSession,
+  PasswordResetToken,
+  UserAccount,
+} from '@/types/auth.types';
+import type { CanvasLayout } from '@/types/canvas.types';
+import type {
+  DorDodTarget,
+  StoredDorDodState,
+  StoredDorDodTemplate,
+} from '@/types/dor-dod.types';
+import type { GoalReview } from '@/types/review.types';
+import type {
+  MetricCheckpoint,
+  Milestone,
+  SmartGoal,
+  Subtask,
+  Task,
+} from '@/types/smart-goals.types';
+
+// =============================================================================
+// Stored Records
+// =============================================================================
+
+/** Goal as stored on disk, without its child collections */
+export type GoalRecord = Omit<
+  SmartGoal,
+  'tasks' | 'milestones' | 'checkpoints'
+>;
+
+/** Task as stored on disk, without its subtasks */
+export type TaskRecord = Omit<Task, 'subtasks'>;
+
+export type SubtaskRecord = Subtask;
+
+export type MilestoneRecord = Milestone;
+
+export type CheckpointRecord = MetricCheckpoint;
+
+export type UserRecord = UserAccount;
+
+export type SessionRecord = AuthSession;
+
+export type PasswordResetRecord = PasswordResetToken;
+
+/** Canvas layout of a goal, keyed by the goal ID */
+export type CanvasLayoutRecord = CanvasLayout;
+
+/** Review of a goal, keyed by the goal ID */
+export type ReviewRecord = GoalReview;
+
+/** DoR/DoD state of a goal or task, keyed by `<targetType>:<targetId>` */
+export type DorDodStateRecord = StoredDorDodState;
+
+/** DoR/DoD library template, keyed by its ID */
+export type DorDodTemplateRecord = StoredDorDodTemplate;
+
+/** A table is a map of records keyed by their ID */
+export type Table<T> = Record<string, T>;
+
+/** Bookkeeping entry for a migration that has been applied */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+/** Complete contents of the data store */
+export interface DatabaseSnapshot {
+  schemaVersion: number;
+  migrations: AppliedMigration[];
+  tables: {
+    goals: Table<GoalRecord>;
+    tasks: Table<TaskRecord>;
+    subtasks: Table<SubtaskRecord>;
+    milestones: Table<MilestoneRecord>;
+    checkpoints: Table<CheckpointRecord>;
+    users: Table<UserRecord>;
+    sessions: Table<SessionRecord>;
+    passwordResets: Table<PasswordResetRecord>;
+    canvasLayouts: Table<CanvasLayoutRecord>;
+    reviews: Table<ReviewRecord>;
+    dorDodStates: Table<DorDodStateRecord>;
+    dorDodTemplates: Table<DorDodTemplateRecord>;
+  };
+}
+
+export type TableName = keyof DatabaseSnapshot['tables'];
+
+// =============================================================================
+// Storage Adapters
+// =============================================================================
+
+/**
+ * Low-level storage backend. Adapters only move snapshots in and out;
+ * caching, migrations and transactions are handled by the DocumentStore.
+ */
+export interface StorageAdapter {
+  /** Read the latest snapshot, or null when nothing has been stored yet */
+  read(): Promise<DatabaseSnapshot | null>;
+  /** Persist a snapshot, replacing the previous one */
+  write(snapshot: DatabaseSnapshot): Promise<void>;
+  /** Run `fn` while holding an exclusive lock on the underlying storage */
+  withLock<T>(fn: () => Promise<T>): Promise<T>;
+  /** Cheap token that changes whenever another writer updated the storage */
+  getVersionToken(): Promise<string | null>;
+}
+
+// =============================================================================
+// Repository Contracts
+// =============================================================================
+
+export interface ListOptions {
+  /** Include soft-deleted records (default: false) */
+  includeDeleted?: boolean;
+}
+
+export interface GoalRepository {
+  list(options?: ListOptions): Promise<SmartGoal[]>;
+  findById(id: string): Promise<SmartGoal | null>;
+  create(goal: SmartGoal): Promise<SmartGoal>;
+  /** Replace a goal; child collections present on `goal` replace the stored ones */
+  save(goal: SmartGoal): Promise<SmartGoal>;
+  /** Permanently remove a goal together with all of its children */
+  delete(id: string): Promise<boolean>;
+}
+
+export interface TaskRepository {
+  list(options?: ListOptions): Promise<Task[]>;
+  listByGoal(goalId: string, options?: ListOptions): Promise<Task[]>;
+  findById(id: string): Promise<Task | null>;
+  create(task: Task): Promise<Task>;
+  update(id: string, updates: Partial<Task>): Promise<Task | null>;
+  /**
+   * Set the order of several tasks of a goal in one transaction, applying
+   * the same updates to each, and return the tasks of the goal in order
+   */
+  updateOrders(
+    goalId: string,
+    orders: Record<string, number>,
+    updates?: Partial<Task>
+  ): Promise<Task[]>;
+  /** Permanently remove a task together with its subtasks */
+  delete(id: string): Promise<boolean>;
+}
+
+export interface SubtaskRepository {
+  listByTask(taskId: string, options?: ListOptions): Promise<Subtask[]>;
+  findById(id: string): Promise<Subtask | null>;
+  create(subtask: Subtask): Promise<Subtask>;
+  update(id: string, updates: Partial<Subtask>): Promise<Subtask | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface MilestoneRepository {
+  listByGoal(goalId: string, options?: ListOptions): Promise<Milestone[]>;
+  findById(id: string): Promise<Milestone | null>;
+  create(milestone: Milestone): Promise<Milestone>;
+  update(id: string, updates: Partial<Milestone>): Promise<Milestone | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface CheckpointRepository {
+  listByGoal(goalId: string): Promise<MetricCheckpoint[]>;
+  findById(id: string): Promise<MetricCheckpoint | null>;
+  create(checkpoint: MetricCheckpoint): Promise<MetricCheckpoint>;
+  update(
+    id: string,
+    updates: Partial<MetricCheckpoint>
+  ): Promise<MetricCheckpoint | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface UserRepository {
+  findById(id: string): Promise<UserAccount | null>;
+  /** Case-insensitive lookup by login email */
+  findByEmail(email: string): Promise<UserAccount | null>;
+  /** Fails when the email is already registered */
+  create(user: UserAccount): Promise<UserAccount>;
+  update(
+    id: string,
+    updates: Partial<UserAccount>
+  ): Promise<UserAccount | null>;
+}
+
+export interface SessionRepository {
+  findById(id: string): Promise<AuthSession | null>;
+  create(session: AuthSession): Promise<AuthSession>;
+  update(
+    id: string,
+    updates: Partial<AuthSession>
+  ): Promise<AuthSession | null>;
+  /** Revoke every active session of a user, returning how many were revoked */
+  revokeAllForUser(userId: string, revokedAt?: Date): Promise<number>;
+}
+
+export interface PasswordResetRepository {
+  findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null>;
+  create(token: PasswordResetToken): Promise<PasswordResetToken>;
+  /** Mark every unused token of a user as used */
+  invalidateForUser(userId: string, usedAt?: Date): Promise<number>;
+}
+
+export interface CanvasLayoutRepository {
+  findByGoal(goalId: string): Promise<CanvasLayout | null>;
+  /** Create or replace the layout of a goal */
+  save(layout: CanvasLayout): Promise<CanvasLayout>;
+  delete(goalId: string): Promise<boolean>;
+}
+
+export interface ReviewRepository {
+  findByGoal(goalId: string): Promise<GoalReview | null>;
+  /** Create or replace the review of a goal */
+  save(review: GoalReview): Promise<GoalReview>;
+  delete(goalId: string): Promise<boolean>;
+}
+
+export interface DorDodStateRepository {
+  find(target: DorDodTarget): Promise<StoredDorDodState | null>;
+  /** States of all goals and tasks, or of one goal and its tasks */
+  list(goalId?: string): Promise<StoredDorDodState[]>;
+  /** Create or replace the state of a goal or task */
+  save(state: StoredDorDodState): Promise<StoredDorDodState>;
+  delete(target: DorDodTarget): Promise<boolean>;
+}
+
+export interface DorDodTemplateRepository {
+  /** All library templates; visibility is checked by the caller */
+  list(): Promise<StoredDorDodTemplate[]>;
+  findById(id: string): Promise<StoredDorDodTemplate | null>;
+  /** Create or replace a template */
+  save(template: StoredDorDodTemplate): Promise<StoredDorDodTemplate>;
+  delete(id: string): Promise<boolean>;
+}
+
+/** Aggregate of all repositories backed by a single store */
+export interface Database {
+  goals: GoalRepository;
+  tasks: TaskRepository;
+  subtasks: SubtaskRepository;
+  milestones: MilestoneRepository;
+  checkpoints: CheckpointRepository;
+  users: UserRepository;
+  sessions: SessionRepository;
+  passwordResets: PasswordResetRepository;
+  canvasLayouts: CanvasLayoutRepository;
+  reviews: ReviewRepository;
+  dorDodStates: DorDodStateRepository;
+  dorDodTemplates: DorDodTemplateRepository;
+  /** Verify the storage can be read (used by the health check) */
+  ping(): Promise<boolean>;
+}
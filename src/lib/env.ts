@@ -14,6 +14,7 @@ const envSchema = z
     DATABASE_URL: z.string().url().optional(),
     DIRECT_URL: z.string().url().optional(),
     DATABASE_SSL: z.coerce.boolean().default(true),
+    DATA_DIR: z.string().default('.data'),
 
     // Authentication
     NEXTAUTH_URL: z.string().url().optional(),
@@ -0,0 +1,80 @@
+/**
+ * Mailer
+ *
+ * Outgoing mail for server-side flows such as password resets. By default
+ * messages are written to a local outbox (`<DATA_DIR>/outbox`) as JSON
+ * files, which is what development and tests use. Deployments that deliver
+ * real mail register their transport with `setMailer` at startup.
+ *
+ * @fileoverview Pluggable mail delivery with a file-based dev outbox
+ * @version 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { env } from './env';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// =============================================================================
+// Outbox Mailer
+// =============================================================================
+
+/** Writes each message to `<directory>/<timestamp>-<random>.json` */
+export class OutboxMailer implements Mailer {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${Math.random()
+      .toString(36)
+      .substr(2, 6)}.json`;
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2),
+      'utf8'
+    );
+  }
+}
+
+// =============================================================================
+// Shared Instance
+// =============================================================================
+
+export const DEFAULT_OUTBOX_DIR = path.join(env.DATA_DIR, 'outbox');
+
+let mailer: Mailer | undefined;
+
+/** Mailer used by the API route handlers */
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    if (env.NODE_ENV === 'production') {
+      console.warn(
+        `No mail transport registered; writing mail to ${DEFAULT_OUTBOX_DIR}`
+      );
+    }
+    mailer = new OutboxMailer(DEFAULT_OUTBOX_DIR);
+  }
+  return mailer;
+};
+
+/** Replace the mailer (a real transport in production, a stub in tests) */
+export const setMailer = (next: Mailer | undefined): void => {
+  mailer = next;
+};
@@ -18,6 +18,12 @@ import { devtools, persist, subscribeWithSelector } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 
 import {
+  buildGoalUpdate,
+  getChangedGoalFields,
+  type EditableGoalField,
+} from '@/lib/api/shared/goals';
+import {
+  SmartGoal,
   SmartGoalCreate,
   GoalStatus,
   GoalPriority,
@@ -169,6 +175,7 @@ export interface WizardState {
   // Wizard mode (create vs edit)
   mode: 'create' | 'edit';
   editingGoalId?: string;
+  editingGoal: SmartGoal | null;
 
   // Completion tracking
   overallProgress: number;
@@ -219,13 +226,14 @@ export interface WizardActions {
   setAutoSaveInterval: (interval: number) => void;
 
   // Wizard lifecycle
-  startWizard: (mode: 'create' | 'edit', goalId?: string) => void;
+  startWizard: (mode: 'create' | 'edit', goalId?: string) => Promise<void>;
   finishWizard: () => Promise<string>;
   cancelWizard: () => void;
   restartWizard: () => void;
 
   // Utility functions
   getWizardData: () => Partial<SmartGoalCreate>;
+  getChangedFields: () => EditableGoalField[];
   getStepProgress: (step: number) => number;
   getOverallProgress: () => number;
   isStepAccessible: (step: number) => boolean;
@@ -401,6 +409,7 @@ const initialState: WizardState = {
   showProgress: true,
 
   mode: 'create',
+  editingGoal: null,
 
   overallProgress: 0,
   completedSteps: new Set(),
@@ -474,6 +483,65 @@ const generateDraftId = (): string => {
   return `draft-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
+const withoutKeys = <T extends object, K extends keyof T>(value: T, keys: K[]): Omit<T, K> => {
+  const copy = { ...value };
+  keys.forEach(key => delete copy[key]);
+  return copy;
+};
+
+/**
+ * Hydrate every step from an existing goal, deriving the wizard-only
+ * checklist flags from what the goal already contains
+ */
+const goalToStepData = (goal: SmartGoal): StepData => ({
+  basic: {
+    title: goal.title,
+    description: goal.description,
+    specificObjective: goal.specificObjective,
+    category: goal.category,
+    tags: [...goal.tags],
+    successCriteria: [...goal.successCriteria],
+  },
+  measurable: { ...goal.measurable },
+  achievable: {
+    ...goal.achievability,
+    resourcesIdentified: goal.achievability.requiredResources.length > 0,
+    skillsAssessed: goal.achievability.requiredSkills.length > 0,
+    constraintsIdentified: goal.achievability.constraints.length > 0,
+  },
+  relevant: {
+    ...goal.relevance,
+    businessAlignment: goal.relevance.strategyAlignments
+      .map(alignment => alignment.alignmentDescription)
+      .join('\n'),
+    personalRelevance: goal.relevance.rationale,
+    stakeholderBuyIn: goal.relevance.stakeholders.length > 0,
+  },
+  timebound: {
+    ...goal.timebound,
+    milestonesPlanned: goal.milestones.length > 0,
+    bufferTimeIncluded: (goal.timebound.bufferDays ?? 0) > 0,
+  },
+  execution: {
+    priority: goal.priority,
+    ownerId: goal.ownerId,
+    collaborators: [...goal.collaborators],
+    initialTasks: [],
+    initialMilestones: goal.milestones.map(milestone => ({
+      title: milestone.title,
+      description: milestone.description ?? '',
+      targetDate: milestone.targetDate,
+      successCriteria: [...milestone.successCriteria],
+    })),
+  },
+  review: {
+    isReviewed: false,
+    reviewNotes: '',
+    finalValidation: false,
+    readyToCreate: false,
+  },
+});
+
 const calculateStepProgress = (stepId: string, data: any, validation: any): number => {
   // Calculate completion percentage based on filled fields and validation
   const stepValidation = validation[stepId];
@@ -932,10 +1000,11 @@ export const useWizardStore = create<WizardStore>()(
           // Wizard Lifecycle Actions
           // =============================================================================
 
-          startWizard: (mode, goalId) => {
+          startWizard: async (mode, goalId) => {
             set((state) => {
               state.mode = mode;
               state.editingGoalId = goalId;
+              state.editingGoal = null;
               state.currentStep = 0;
               state.isLoading = false;
               state.error = null;
@@ -957,8 +1026,33 @@ export const useWizardStore = create<WizardStore>()(
 
             // If editing, load existing goal data
             if (mode === 'edit' && goalId) {
-              // This would load the goal data for editing
-              // Implementation depends on goal store integration
+              set((state) => {
+                state.isLoading = true;
+              });
+
+              try {
+                const { goalsApi } = await import('@/lib/api/goals');
+                const goal = await goalsApi.getGoal(goalId);
+
+                set((state) => {
+                  state.editingGoal = goal;
+                  state.data = goalToStepData(goal);
+                  state.validation = {};
+                  state.completedSteps.clear();
+                  state.currentDraft = null;
+                  state.isDraftMode = false;
+                  state.hasUnsavedChanges = false;
+                  state.isLoading = false;
+                });
+
+                // Existing goals usually pass every step already
+                get().steps.forEach((_, step) => get().validateStep(step));
+              } catch (error) {
+                set((state) => {
+                  state.isLoading = false;
+                  state.error = error instanceof Error ? error.message : 'Failed to load goal';
+                });
+              }
             }
           },
 
@@ -988,7 +1082,16 @@ export const useWizardStore = create<WizardStore>()(
               if (get().mode === 'create') {
                 goalId = await goalStore.createGoal(goalData as SmartGoalCreate);
               } else if (get().editingGoalId) {
-                await goalStore.updateGoal(get().editingGoalId!, goalData);
+                const editingGoal = get().editingGoal;
+                if (!editingGoal) {
+                  throw new Error('Goal to edit has not been loaded');
+                }
+
+                // Only send the fields the wizard changed
+                await goalStore.updateGoal(
+                  get().editingGoalId!,
+                  buildGoalUpdate(editingGoal, goalData as Partial<SmartGoal>)
+                );
                 goalId = get().editingGoalId!;
               } else {
                 throw new Error('Invalid wizard state');
@@ -1023,6 +1126,7 @@ export const useWizardStore = create<WizardStore>()(
 
             set((state) => {
               state.data = { ...initialStepData };
+              state.editingGoal = null;
               state.currentStep = 0;
               state.validation = {};
               state.completedSteps.clear();
@@ -1043,7 +1147,23 @@ export const useWizardStore = create<WizardStore>()(
           // =============================================================================
 
           getWizardData: () => {
-            const { data } = get();
+            const { data, editingGoal } = get();
+
+            // Drop the wizard-only checklist flags
+            const achievability = withoutKeys(data.achievable, [
+              'resourcesIdentified',
+              'skillsAssessed',
+              'constraintsIdentified',
+            ]);
+            const relevance = withoutKeys(data.relevant, [
+              'businessAlignment',
+              'personalRelevance',
+              'stakeholderBuyIn',
+            ]);
+            const timebound = withoutKeys(data.timebound, [
+              'milestonesPlanned',
+              'bufferTimeIncluded',
+            ]);
 
             // Transform wizard data to SmartGoalCreate format
             const goalData: Partial<SmartGoalCreate> = {
@@ -1061,19 +1181,29 @@ export const useWizardStore = create<WizardStore>()(
               priority: data.execution.priority,
               ownerId: data.execution.ownerId,
               collaborators: data.execution.collaborators,
-              visibility: 'private',
+              visibility: editingGoal?.visibility ?? 'private',
               isArchived: false,
 
               // SMART criteria
               measurable: data.measurable as MeasurableSpec,
-              achievability: data.achievable as Achievability,
-              relevance: data.relevant as Relevance,
-              timebound: data.timebound as Timebound,
+              achievability: achievability as Achievability,
+              relevance: relevance as Relevance,
+              timebound: timebound as Timebound,
             };
 
             return goalData;
           },
 
+          getChangedFields: () => {
+            const { editingGoal } = get();
+            if (!editingGoal) return [];
+
+            return getChangedGoalFields(
+              editingGoal,
+              get().getWizardData() as Partial<SmartGoal>
+            );
+          },
+
           getStepProgress: (step) => {
             const { steps } = get();
             return steps[step]?.completionPercentage || 0;
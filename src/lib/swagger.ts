@@ -30,6 +30,31 @@ const options = {
           in: 'header',
           name: 'X-API-Key',
         },
+        sessionCookie: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'ob_session',
+          description:
+            'Session cookie set by /api/auth/login. Goal, task and metric endpoints use it to scope data by goal role and visibility',
+        },
+      },
+      responses: {
+        Unauthorized: {
+          description: 'Not signed in (code NOT_AUTHENTICATED)',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/Error' },
+            },
+          },
+        },
+        Forbidden: {
+          description: 'No access to the goal (code GOAL_FORBIDDEN)',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/Error' },
+            },
+          },
+        },
       },
       schemas: {
         User: {
@@ -68,17 +93,431 @@ const options = {
               type: 'string',
               description: 'Error message',
             },
+            message: {
+              type: 'string',
+              description: 'Human readable description of the error',
+            },
             code: {
               type: 'string',
               description: 'Error code',
             },
             details: {
-              type: 'object',
-              description: 'Additional error details',
+              type: 'array',
+              description: 'Field-level validation issues',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
             },
           },
           required: ['error'],
         },
+        ChecklistItem: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            isCompleted: { type: 'boolean' },
+            isRequired: { type: 'boolean' },
+            order: { type: 'integer' },
+            completedAt: { type: 'string', format: 'date-time' },
+            completedBy: { type: 'string' },
+          },
+          required: ['id', 'title', 'isCompleted', 'order'],
+        },
+        Subtask: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            taskId: { type: 'string' },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            status: {
+              type: 'string',
+              enum: [
+                'todo',
+                'in_progress',
+                'completed',
+                'blocked',
+                'cancelled',
+              ],
+            },
+            priority: {
+              type: 'string',
+              enum: ['low', 'medium', 'high', 'critical'],
+            },
+            order: { type: 'integer' },
+            assignedTo: { type: 'string' },
+            estimatedHours: { type: 'number' },
+            actualHours: { type: 'number' },
+            dueDate: { type: 'string', format: 'date-time' },
+            completedAt: { type: 'string', format: 'date-time' },
+            progress: { type: 'number', minimum: 0, maximum: 100 },
+            tags: { type: 'array', items: { type: 'string' } },
+            checklist: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ChecklistItem' },
+            },
+            dependencies: { type: 'array', items: { type: 'string' } },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', 'taskId', 'title', 'status', 'priority'],
+        },
+        Task: {
+          allOf: [
+            { $ref: '#/components/schemas/Subtask' },
+            {
+              type: 'object',
+              properties: {
+                goalId: { type: 'string' },
+                startDate: { type: 'string', format: 'date-time' },
+                subtasks: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/Subtask' },
+                },
+                statusHistory: {
+                  type: 'array',
+                  description: 'Status changes, oldest first (read-only)',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      from: { type: 'string' },
+                      to: { type: 'string' },
+                      at: { type: 'string', format: 'date-time' },
+                      changedBy: { type: 'string' },
+                    },
+                    required: ['to', 'at'],
+                  },
+                },
+              },
+              required: ['goalId'],
+            },
+          ],
+        },
+        CreateTaskRequest: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', maxLength: 200 },
+            description: { type: 'string', maxLength: 5000 },
+            priority: {
+              type: 'string',
+              enum: ['low', 'medium', 'high', 'critical'],
+              default: 'medium',
+            },
+            assignedTo: { type: 'string' },
+            estimatedHours: { type: 'number', minimum: 0 },
+            dueDate: { type: 'string', format: 'date-time' },
+            startDate: { type: 'string', format: 'date-time' },
+            tags: { type: 'array', items: { type: 'string' } },
+            dependencies: { type: 'array', items: { type: 'string' } },
+            order: { type: 'integer', minimum: 0 },
+          },
+          required: ['title'],
+        },
+        UpdateTaskRequest: {
+          allOf: [
+            { $ref: '#/components/schemas/CreateTaskRequest' },
+            {
+              type: 'object',
+              properties: {
+                status: {
+                  type: 'string',
+                  enum: [
+                    'todo',
+                    'in_progress',
+                    'completed',
+                    'blocked',
+                    'cancelled',
+                  ],
+                },
+                actualHours: { type: 'number', minimum: 0 },
+                progress: { type: 'number', minimum: 0, maximum: 100 },
+                notes: { type: 'string' },
+                dorDodOverride: {
+                  $ref: '#/components/schemas/DorDodOverride',
+                },
+              },
+            },
+          ],
+        },
+        TaskStats: {
+          type: 'object',
+          properties: {
+            total: { type: 'integer' },
+            byStatus: {
+              type: 'object',
+              additionalProperties: { type: 'integer' },
+            },
+            byPriority: {
+              type: 'object',
+              additionalProperties: { type: 'integer' },
+            },
+            completionRate: { type: 'number' },
+            averageProgress: { type: 'number' },
+            overdueCount: { type: 'integer' },
+            totalEstimatedHours: { type: 'number' },
+            totalActualHours: { type: 'number' },
+          },
+        },
+        BulkTaskResponse: {
+          type: 'object',
+          properties: {
+            tasks: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/Task' },
+            },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  error: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        MetricCheckpoint: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            goalId: { type: 'string' },
+            value: { type: 'number' },
+            recordedDate: { type: 'string', format: 'date-time' },
+            note: { type: 'string' },
+            isAutomatic: { type: 'boolean' },
+            source: { type: 'string' },
+            confidence: { type: 'number', minimum: 0, maximum: 1 },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', 'goalId', 'value', 'recordedDate', 'isAutomatic'],
+        },
+        CreateCheckpointRequest: {
+          type: 'object',
+          properties: {
+            value: { type: 'number' },
+            recordedDate: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Defaults to the time of the request',
+            },
+            note: { type: 'string', maxLength: 1000 },
+            isAutomatic: { type: 'boolean', default: false },
+            source: { type: 'string', default: 'manual-entry' },
+            confidence: { type: 'number', minimum: 0, maximum: 1, default: 1 },
+          },
+          required: ['value'],
+        },
+        BulkCheckpointResponse: {
+          type: 'object',
+          properties: {
+            checkpoints: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/MetricCheckpoint' },
+            },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  index: { type: 'integer' },
+                  error: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        MetricAnalytics: {
+          type: 'object',
+          properties: {
+            goalId: { type: 'string' },
+            totalCheckpoints: { type: 'integer' },
+            latestValue: { type: 'number' },
+            previousValue: { type: 'number' },
+            changeAmount: { type: 'number' },
+            changePercentage: { type: 'number' },
+            trend: { type: 'string', enum: ['up', 'down', 'stable'] },
+            averageValue: { type: 'number' },
+            minValue: { type: 'number' },
+            maxValue: { type: 'number' },
+            progressToTarget: { type: 'number' },
+            estimatedCompletionDate: { type: 'string', format: 'date-time' },
+            velocityPerDay: { type: 'number' },
+          },
+        },
+        MetricTrendData: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', format: 'date' },
+            value: { type: 'number' },
+            target: { type: 'number' },
+            note: { type: 'string' },
+          },
+        },
+        CheckpointStats: {
+          type: 'object',
+          properties: {
+            count: { type: 'integer' },
+            averageValue: { type: 'number' },
+            minValue: { type: 'number' },
+            maxValue: { type: 'number' },
+            totalChange: { type: 'number' },
+            averageConfidence: { type: 'number' },
+          },
+        },
+        DorDodCriterion: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            description: { type: 'string' },
+            category: {
+              type: 'string',
+              enum: ['required', 'recommended', 'optional'],
+            },
+            helpText: { type: 'string' },
+            isCompleted: { type: 'boolean' },
+            validationRule: { type: 'object' },
+            order: { type: 'integer' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', 'description', 'category', 'isCompleted', 'order'],
+        },
+        DorDodAuditEntry: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            timestamp: { type: 'string', format: 'date-time' },
+            action: { type: 'string' },
+            userId: { type: 'string' },
+            criterionId: { type: 'string' },
+            oldValue: {},
+            newValue: {},
+            metadata: { type: 'object' },
+            targetType: { type: 'string', enum: ['goal', 'task'] },
+            targetId: { type: 'string' },
+            goalId: { type: 'string' },
+          },
+          required: ['id', 'timestamp', 'action'],
+        },
+        DorDodOverride: {
+          type: 'object',
+          description:
+            'Moves past open DoR/DoD criteria; only the goal owner may send it',
+          properties: {
+            reason: { type: 'string', maxLength: 1000 },
+          },
+          required: ['reason'],
+        },
+        DorDodStateInput: {
+          type: 'object',
+          properties: {
+            dorCriteria: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/DorDodCriterion' },
+            },
+            dodCriteria: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/DorDodCriterion' },
+            },
+            currentTemplate: { type: 'object' },
+            timeTracking: { type: 'object' },
+            approvalWorkflow: {
+              type: 'object',
+              properties: {
+                status: {
+                  type: 'string',
+                  enum: ['none', 'requested', 'approved', 'rejected'],
+                },
+                comments: { type: 'array', items: { type: 'object' } },
+              },
+            },
+            auditLog: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/DorDodAuditEntry' },
+            },
+          },
+          required: [
+            'dorCriteria',
+            'dodCriteria',
+            'timeTracking',
+            'approvalWorkflow',
+            'auditLog',
+          ],
+        },
+        DorDodState: {
+          allOf: [
+            { $ref: '#/components/schemas/DorDodStateInput' },
+            {
+              type: 'object',
+              properties: {
+                targetType: { type: 'string', enum: ['goal', 'task'] },
+                targetId: { type: 'string' },
+                goalId: { type: 'string' },
+                updatedAt: { type: 'string', format: 'date-time' },
+                updatedBy: { type: 'string' },
+              },
+            },
+          ],
+        },
+        DorDodTemplateInput: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', maxLength: 200 },
+            description: { type: 'string', maxLength: 2000 },
+            category: {
+              type: 'string',
+              enum: [
+                'software-development',
+                'design',
+                'content',
+                'marketing',
+                'research',
+                'custom',
+              ],
+            },
+            dorCriteria: { type: 'array', items: { type: 'object' } },
+            dodCriteria: { type: 'array', items: { type: 'object' } },
+            visibility: { type: 'string', enum: ['private', 'organization'] },
+          },
+          required: [
+            'name',
+            'description',
+            'category',
+            'dorCriteria',
+            'dodCriteria',
+            'visibility',
+          ],
+        },
+        DorDodTemplate: {
+          allOf: [
+            { $ref: '#/components/schemas/DorDodTemplateInput' },
+            {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                isCustom: { type: 'boolean' },
+                ownerId: { type: 'string' },
+                version: { type: 'integer' },
+                versions: {
+                  type: 'array',
+                  description: 'Earlier versions, newest first',
+                  items: { type: 'object' },
+                },
+                createdAt: { type: 'string', format: 'date-time' },
+                updatedAt: { type: 'string', format: 'date-time' },
+                updatedBy: { type: 'string' },
+              },
+            },
+          ],
+        },
         Success: {
           type: 'object',
           properties: {
@@ -104,6 +543,18 @@ const options = {
         name: 'Users',
         description: 'User management endpoints',
       },
+      {
+        name: 'Goals',
+        description: 'Goal export and canvas endpoints',
+      },
+      {
+        name: 'Tasks',
+        description: 'Task, subtask and checklist endpoints',
+      },
+      {
+        name: 'Metrics',
+        description: 'Metric checkpoint and analytics endpoints',
+      },
       {
         name: 'Health',
         description: 'System health and status endpoints',
@@ -113,4 +564,4 @@ const options = {
   apis: ['./src/app/api/**/*.ts'], // Path to the API routes
 };
 
-export const swaggerSpec = swaggerJSDoc(options);
\ No newline at end of file
+export const swaggerSpec = swaggerJSDoc(options);
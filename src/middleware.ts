@@ -1,8 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import {
+  buildLoginPath,
+  isProtectedPage,
+  isPublicApiRoute,
+  SESSION_COOKIE,
+} from '@/lib/auth-routes';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Session gate. The Edge runtime cannot verify tokens against the data
+ * store, so this only checks for the session cookie; route handlers do the
+ * real authorization. API reads pass through so handlers can serve public
+ * goals to anonymous callers.
+ */
+function requireSession(request: NextRequest): NextResponse | null {
+  if (request.cookies.has(SESSION_COOKIE)) return null;
+
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname.startsWith('/api/')) {
+    if (isPublicApiRoute(pathname) || SAFE_METHODS.includes(request.method)) {
+      return null;
+    }
+    return NextResponse.json(
+      {
+        error: 'Unauthorized',
+        message: 'You must be signed in',
+        code: 'NOT_AUTHENTICATED',
+      },
+      { status: 401 }
+    );
+  }
+
+  if (isProtectedPage(pathname)) {
+    return NextResponse.redirect(
+      new URL(buildLoginPath(`${pathname}${search}`), request.url)
+    );
+  }
+
+  return null;
+}
+
 export function middleware(request: NextRequest) {
+  const denied = requireSession(request);
+  if (denied) return denied;
+
   const response = NextResponse.next();
 
+  // Security headers are only added to pages
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return response;
+  }
+
   // Content Security Policy
   const cspHeader = `
     default-src 'self';
@@ -60,5 +111,8 @@ export function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/((?!api/|_next/|_static/|_vercel|[\\w-]+\\.\\w+).*)'],
+  matcher: [
+    '/api/:path*',
+    '/((?!api/|_next/|_static/|_vercel|[\\w-]+\\.\\w+).*)',
+  ],
 };
\ No newline at end of file
@@ -0,0 +1,86 @@
+/**
+ * Authentication Type Definitions
+ *
+ * Users, sessions and password reset tokens. Only `User` ever leaves the
+ * server; the other shapes carry password and token hashes.
+ *
+ * @fileoverview Type definitions for authentication
+ * @version 1.0.0
+ */
+
+// =============================================================================
+// Users
+// =============================================================================
+
+/** Public view of a user account */
+export interface User {
+  /** Unique identifier */
+  id: string;
+  /** Login email, stored lower-cased */
+  email: string;
+  /** Display name */
+  name: string;
+  /** Registration timestamp */
+  createdAt: Date;
+  /** Last update timestamp */
+  updatedAt: Date;
+  /** Last successful login */
+  lastLoginAt?: Date;
+}
+
+/** User account as stored on the server */
+export interface UserAccount extends User {
+  /** bcrypt hash of the password */
+  passwordHash: string;
+  /** When the password was last changed */
+  passwordChangedAt?: Date;
+}
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+/**
+ * Login session. The access token (a short-lived JWT) names the session;
+ * the refresh token is only stored as a SHA-256 hash.
+ */
+export interface AuthSession {
+  /** Session identifier, embedded in access and refresh tokens */
+  id: string;
+  /** Owner of the session */
+  userId: string;
+  /** SHA-256 hash of the current refresh token secret */
+  refreshTokenHash: string;
+  /** Login timestamp */
+  createdAt: Date;
+  /** Last time the session was refreshed */
+  lastUsedAt: Date;
+  /** When the refresh token stops being accepted */
+  expiresAt: Date;
+  /** Set on logout, password reset or refresh token reuse */
+  revokedAt?: Date;
+  /** Client that created the session */
+  userAgent?: string;
+  /** Client IP address at login */
+  ip?: string;
+}
+
+// =============================================================================
+// Password Reset
+// =============================================================================
+
+/** Single-use password reset token, stored as a SHA-256 hash */
+export interface PasswordResetToken {
+  /** Unique identifier */
+  id: string;
+  /** Account the token resets */
+  userId: string;
+  /** SHA-256 hash of the token sent by email */
+  tokenHash: string;
+  /** Issue timestamp */
+  createdAt: Date;
+  /** When the token stops being accepted */
+  expiresAt: Date;
+  /** Set once the token has been used or superseded */
+  usedAt?: Date;
+}
@@ -0,0 +1,131 @@
+/**
+ * Goal Canvas Type Definitions
+ *
+ * Nodes and connections drawn on the goal canvas and the layout saved per
+ * goal. Nodes and most connections are derived from the goal itself; the
+ * layout only stores what the goal cannot: node positions, the viewport and
+ * connections that exist on the canvas alone.
+ *
+ * @fileoverview Type definitions for the goal canvas
+ * @version 1.0.0
+ */
+
+// =============================================================================
+// Nodes
+// =============================================================================
+
+export type CanvasNodeType =
+  | 'goal'
+  | 'outcome'
+  | 'milestone'
+  | 'task'
+  | 'metric';
+
+/** A goal entity placed on the canvas */
+export interface CanvasNode {
+  /** Canvas ID, `<type>:<entityId>` */
+  id: string;
+  type: CanvasNodeType;
+  /** ID of the goal, outcome, milestone or task the node stands for */
+  entityId: string;
+  title: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  status?: string;
+  progress?: number;
+}
+
+export interface CanvasNodePosition {
+  x: number;
+  y: number;
+}
+
+/** A point on the canvas, e.g. a bend of a routed connection line */
+export type CanvasPoint = CanvasNodePosition;
+
+// =============================================================================
+// Connections
+// =============================================================================
+
+export type CanvasConnectionType =
+  | 'dependency'
+  | 'contributes'
+  | 'measures'
+  | 'achieves';
+
+/**
+ * Where a connection comes from:
+ * - `structure`: implied by the goal hierarchy, cannot be removed
+ * - `goal`: stored on the goal (`Task.dependencies`, `Milestone.taskIds`)
+ * - `layout`: drawn on the canvas and stored with the layout
+ */
+export type CanvasConnectionOrigin = 'structure' | 'goal' | 'layout';
+
+export interface CanvasConnection {
+  /** Stable ID, `<type>:<fromNodeId>-><toNodeId>` */
+  id: string;
+  fromNodeId: string;
+  toNodeId: string;
+  type: CanvasConnectionType;
+  origin: CanvasConnectionOrigin;
+  color: string;
+}
+
+/** A connection the user is drawing or removing */
+export interface CanvasConnectionDraft {
+  fromNodeId: string;
+  toNodeId: string;
+  type: CanvasConnectionType;
+}
+
+// =============================================================================
+// Layouts
+// =============================================================================
+
+/** Pan offset in screen pixels and zoom factor */
+export interface CanvasViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/**
+ * How nodes without a saved position are arranged:
+ * - `layered`: one row per level, goal at the top and metrics at the bottom
+ * - `radial`: the goal in the centre with one ring per level around it
+ */
+export type CanvasLayoutAlgorithm = 'layered' | 'radial';
+
+/** Canvas state saved per goal */
+export interface CanvasLayout {
+  goalId: string;
+  /** Positions of the nodes the user moved, keyed by node ID */
+  positions: Record<string, CanvasNodePosition>;
+  /** Connections with `origin: 'layout'` */
+  connections: CanvasConnection[];
+  viewport: CanvasViewport;
+  showGrid: boolean;
+  /** Auto layout of the canvas, `layered` when not set */
+  algorithm?: CanvasLayoutAlgorithm;
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+/** Changes a connection makes to the goal and its layout */
+export interface CanvasWriteBack {
+  /** New `dependencies` of each changed task */
+  taskDependencies: Record<string, string[]>;
+  /** New `taskIds` of each changed milestone */
+  milestoneTaskIds: Record<string, string[]>;
+  /** New layout connections, when they changed */
+  layoutConnections?: CanvasConnection[];
+}
+
+/** Response of the connection endpoints */
+export interface CanvasConnectionChange {
+  connection: CanvasConnection;
+  writeBack: CanvasWriteBack;
+}
@@ -0,0 +1,111 @@
+/**
+ * DoR/DoD State Type Definitions
+ *
+ * The Definition of Ready and Definition of Done state saved for a goal or
+ * a task: its criteria, approval workflow, time tracking and audit log.
+ * Progress metrics and validation results are derived from the criteria
+ * and are not stored; so are the gates that keep goals and tasks from
+ * starting or finishing while their criteria are open. Custom templates
+ * are kept in a versioned template library, shared with the organization
+ * or private to their owner.
+ *
+ * @fileoverview Type definitions for persisted DoR/DoD state
+ * @version 1.0.0
+ */
+
+import type {
+  ApprovalWorkflow,
+  AuditLogEntry,
+  Criterion,
+  DorDodTemplate,
+  TimeTracking,
+} from '@/components/DorDodPanel/DorDodPanel.types';
+
+// =============================================================================
+// Targets
+// =============================================================================
+
+export type DorDodTargetType = 'goal' | 'task';
+
+/** The goal or task a DoR/DoD state is attached to */
+export interface DorDodTarget {
+  type: DorDodTargetType;
+  id: string;
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+/** DoR/DoD state saved per goal or task */
+export interface StoredDorDodState {
+  targetType: DorDodTargetType;
+  targetId: string;
+  /** The goal itself, or the goal the task belongs to */
+  goalId: string;
+  dorCriteria: Criterion[];
+  dodCriteria: Criterion[];
+  currentTemplate?: DorDodTemplate;
+  timeTracking: TimeTracking;
+  approvalWorkflow: ApprovalWorkflow;
+  /** Newest first; entries are only ever added */
+  auditLog: AuditLogEntry[];
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+/** An audit log entry together with the goal or task it was recorded for */
+export interface DorDodAuditEntry extends AuditLogEntry {
+  targetType: DorDodTargetType;
+  targetId: string;
+  goalId: string;
+}
+
+// =============================================================================
+// Transition Gates
+// =============================================================================
+
+/** Definition of Ready or Definition of Done */
+export type DorDodDefinition = 'dor' | 'dod';
+
+/** Why a status change is blocked by open DoR/DoD criteria */
+export interface DorDodGate {
+  definition: DorDodDefinition;
+  fromStatus: string;
+  toStatus: string;
+  blockingCriteria: Criterion[];
+  message: string;
+}
+
+// =============================================================================
+// Template Library
+// =============================================================================
+
+/** Private templates are only seen by their owner */
+export type DorDodTemplateVisibility = 'private' | 'organization';
+
+/** The part of a template that is versioned */
+export type DorDodTemplateContent = Pick<
+  DorDodTemplate,
+  'name' | 'description' | 'category' | 'dorCriteria' | 'dodCriteria'
+>;
+
+/** An earlier version of a library template */
+export interface DorDodTemplateVersion extends DorDodTemplateContent {
+  version: number;
+  savedAt: Date;
+  savedBy: string;
+}
+
+/** A custom template saved in the template library */
+export interface StoredDorDodTemplate extends DorDodTemplate {
+  visibility: DorDodTemplateVisibility;
+  ownerId: string;
+  /** Starts at 1 and grows with every change to the content */
+  version: number;
+  /** Earlier versions, newest first */
+  versions: DorDodTemplateVersion[];
+  createdAt: Date;
+  updatedAt: Date;
+  updatedBy: string;
+}
@@ -0,0 +1,109 @@
+/**
+ * Goal Review Type Definitions
+ *
+ * The review saved per goal: who was asked to review it, how many of them
+ * must approve, the decisions they made, the comment threads and the
+ * events the activity timeline is built from.
+ *
+ * @fileoverview Type definitions for the goal review workflow
+ * @version 1.0.0
+ */
+
+// =============================================================================
+// Status and Decisions
+// =============================================================================
+
+/**
+ * Where a review stands:
+ * - `not_requested`: nobody was asked to review the goal yet
+ * - `pending`: waiting for enough reviewers to approve
+ * - `approved`: the required number of reviewers approved
+ * - `rejected`: too many reviewers rejected for the approvals to be reached
+ * - `changes_requested`: a reviewer sent the goal back to draft
+ */
+export type ReviewStatus =
+  | 'not_requested'
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'changes_requested';
+
+export type ReviewDecision = 'approve' | 'reject' | 'request_changes';
+
+/** A reviewer named in the current review round */
+export interface Reviewer {
+  userId: string;
+  /** Decision in the current round, unset while the reviewer has not decided */
+  decision?: ReviewDecision;
+  decidedAt?: Date;
+}
+
+// =============================================================================
+// Comments
+// =============================================================================
+
+/** What a comment says about the goal; decisions post typed comments */
+export type ReviewCommentType =
+  | 'comment'
+  | 'approval'
+  | 'rejection'
+  | 'change_request';
+
+export interface ReviewComment {
+  id: string;
+  authorId: string;
+  content: string;
+  type: ReviewCommentType;
+  /** Comment this one replies to */
+  parentId?: string;
+  createdAt: Date;
+}
+
+/** A comment with its replies, oldest first */
+export interface ReviewCommentThread extends ReviewComment {
+  replies: ReviewCommentThread[];
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+export type ReviewEventType =
+  | 'review_requested'
+  | 'approved'
+  | 'rejected'
+  | 'changes_requested'
+  | 'review_completed'
+  | 'goal_reopened'
+  | 'commented';
+
+/** Something that happened during the review, shown on the timeline */
+export interface ReviewEvent {
+  id: string;
+  type: ReviewEventType;
+  /** User who caused the event */
+  actorId: string;
+  at: Date;
+  details: string;
+}
+
+// =============================================================================
+// Review
+// =============================================================================
+
+/** Review state saved per goal */
+export interface GoalReview {
+  goalId: string;
+  status: ReviewStatus;
+  reviewers: Reviewer[];
+  /** Approvals needed out of `reviewers.length` */
+  requiredApprovals: number;
+  /** Increases every time a review is requested; decisions reset */
+  round: number;
+  requestedBy?: string;
+  requestedAt?: Date;
+  comments: ReviewComment[];
+  /** Oldest first */
+  events: ReviewEvent[];
+  updatedAt: Date;
+}
@@ -39,6 +39,14 @@ export enum TaskStatus {
   CANCELLED = 'cancelled',
 }
 
+/** Roles a user can hold on a goal, from most to least privileged */
+export enum GoalRole {
+  OWNER = 'owner',
+  EDITOR = 'editor',
+  REVIEWER = 'reviewer',
+  VIEWER = 'viewer',
+}
+
 /** Metric types for measurable goals */
 export enum MetricType {
   NUMBER = 'number',
@@ -107,6 +115,14 @@ export interface Commentable {
   comments?: Comment[];
 }
 
+/** A user's role on a goal; the owner is always `SmartGoal.ownerId` */
+export interface GoalMember {
+  /** Member user ID */
+  userId: string;
+  /** Role granted on the goal */
+  role: Exclude<GoalRole, GoalRole.OWNER>;
+}
+
 /** Comment interface for detailed feedback */
 export interface Comment extends BaseEntity {
   /** Comment content */
@@ -370,6 +386,18 @@ export interface ChecklistItem extends BaseEntity {
   isRequired: boolean;
 }
 
+/** A change of task status, recorded for flow metrics */
+export interface TaskStatusChange {
+  /** Previous status; unset for the status a task was created with */
+  from?: TaskStatus;
+  /** New status */
+  to: TaskStatus;
+  /** When the status changed */
+  at: Date;
+  /** Who changed it (user ID) */
+  changedBy?: string;
+}
+
 /** Subtask within a task */
 export interface Subtask extends BaseEntity, SoftDeletable, Commentable {
   /** Subtask title */
@@ -440,6 +468,14 @@ export interface Task extends BaseEntity, SoftDeletable, Commentable {
   goalId: string;
   /** Order within the goal */
   order: number;
+  /** Status changes, oldest first */
+  statusHistory?: TaskStatusChange[];
+}
+
+/** Kanban board settings of a goal */
+export interface BoardSettings {
+  /** Most tasks allowed in each status column; unset columns have no limit */
+  wipLimits: Partial<Record<TaskStatus, number>>;
 }
 
 // =============================================================================
@@ -589,6 +625,9 @@ export interface SmartGoal extends BaseEntity, SoftDeletable, Commentable {
   /** Team members or collaborators */
   collaborators: string[];
 
+  /** Members with an explicit role; collaborators not listed are editors */
+  members?: GoalMember[];
+
   /** Parent goal ID (for sub-goals) */
   parentGoalId?: string;
 
@@ -608,6 +647,9 @@ export interface SmartGoal extends BaseEntity, SoftDeletable, Commentable {
   /** Expected outcomes */
   outcomes: Outcome[];
 
+  /** Kanban board settings */
+  board?: BoardSettings;
+
   /** Actual start date */
   actualStartDate?: Date;
 